@@ -0,0 +1,184 @@
+// Zensai service worker
+//
+// - Precaches the app shell listed in precache-manifest.js, which the build
+//   writes (see vite.config.ts). The Lottie animations in src/assets are
+//   bundled into those chunks.
+// - Serves the cached shell when a page is opened offline, and offline.html
+//   when the shell isn't cached yet.
+// - Caches signed journal photo and audio URLs by path, so a new token for
+//   the same file still hits the cache.
+// - Shows journaling reminders sent by the send-reminders edge function.
+
+try {
+  importScripts('/precache-manifest.js');
+} catch {
+  // Not built yet (vite dev server): run without a precache
+}
+
+const PRECACHE_VERSION = self.__PRECACHE_VERSION || 'dev';
+const PRECACHE_URLS = self.__PRECACHE_URLS || [];
+const SHELL_CACHE = `zensai-shell-${PRECACHE_VERSION}`;
+const MEDIA_CACHE = 'zensai-media';
+const MEDIA_CACHE_LIMIT = 150;
+const OFFLINE_URL = '/offline.html';
+const SHELL_URL = '/';
+
+// Supabase Storage objects in the buckets the app shows
+const MEDIA_PATTERN = /\/storage\/v1\/object\/(sign|public)\/(journal-photos|profile-photos|affirmation-audio)\//;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll([SHELL_URL, OFFLINE_URL, ...PRECACHE_URLS]))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('zensai-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Cache key for a media URL: the signing token changes, the file doesn't
+ */
+function mediaCacheKey(url) {
+  const key = new URL(url);
+  key.search = '';
+  return key.href;
+}
+
+async function trimCache(cache, limit) {
+  const keys = await cache.keys();
+  if (keys.length <= limit) return;
+  await Promise.all(keys.slice(0, keys.length - limit).map((key) => cache.delete(key)));
+}
+
+/**
+ * Answer a Range request (audio elements send them) from a full response
+ */
+async function rangeResponse(response, rangeHeader) {
+  const blob = await response.blob();
+  const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+  let start = match && match[1] ? Number(match[1]) : 0;
+  let end = match && match[2] ? Number(match[2]) : blob.size - 1;
+
+  // bytes=-500 means the last 500 bytes
+  if (match && !match[1] && match[2]) {
+    start = Math.max(blob.size - Number(match[2]), 0);
+    end = blob.size - 1;
+  }
+  end = Math.min(end, blob.size - 1);
+
+  if (!match || start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${blob.size}` } });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || blob.type,
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes'
+    }
+  });
+}
+
+async function handleMedia(request) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const key = mediaCacheKey(request.url);
+  let response = await cache.match(key);
+
+  if (!response) {
+    try {
+      // Fetch the whole file with CORS so it can be sliced for Range requests
+      response = await fetch(request.url, { mode: 'cors', credentials: 'omit' });
+    } catch {
+      return fetch(request);
+    }
+
+    if (!response.ok) return response;
+
+    await cache.put(key, response.clone());
+    trimCache(cache, MEDIA_CACHE_LIMIT);
+  }
+
+  const range = request.headers.get('Range');
+  return range ? rangeResponse(response, range) : response;
+}
+
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(SHELL_CACHE);
+    return (await cache.match(SHELL_URL)) || (await cache.match(OFFLINE_URL)) || Response.error();
+  }
+}
+
+async function handleStatic(request) {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  return cached || fetch(request);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (MEDIA_PATTERN.test(url.pathname)) {
+    event.respondWith(handleMedia(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(handleStatic(request));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Zensai', {
+      body: message.body || '',
+      tag: message.tag || 'zensai-reminder',
+      icon: '/web-app-manifest-192x192.png',
+      badge: '/favicon-96x96.png',
+      data: { url: message.url || '/home' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/home', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        existing.focus();
+        return existing.navigate(url);
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -35,7 +35,8 @@ async function verifyDatabase() {
       'stripe_products',
       'stripe_prices',
       'stripe_orders',
-      'stripe_webhooks'
+      'stripe_webhooks',
+      'entitlement_features'
     ];
     
     console.log('\n📋 Checking tables...');
@@ -60,9 +61,11 @@ async function verifyDatabase() {
       'update_streak_on_new_entry',
       'update_streak_badges',
       'update_entry_count_badges',
-      'handle_stripe_subscription_updated',
-      'handle_stripe_checkout_completed',
-      'process_stripe_webhook'
+      'claim_stripe_webhook',
+      'finish_stripe_webhook',
+      'record_stripe_order',
+      'get_entitlements',
+      'get_user_entitlements'
     ];
     
     const { data: functionList, error: functionError } = await supabase.rpc('get_functions');
@@ -9,16 +9,20 @@ import { useStripe } from './hooks/useStripe';
 import Footer from './components/Footer';
 import ErrorFallback from './components/ErrorFallback';
 import AuthenticatedApp from './components/AuthenticatedApp';
+import AppLockGate from './components/AppLockGate';
 import { ZenoProvider } from './contexts/ZenoContext';
+import { JournalKeyProvider } from './contexts/JournalKeyContext';
+import { AppLockProvider } from './contexts/AppLockContext';
 
 // Lazy load components
 const AuthScreen = React.lazy(() => import('./components/AuthScreen'));
+const ResetPasswordScreen = React.lazy(() => import('./components/ResetPasswordScreen'));
 const LandingPage = React.lazy(() => import('./components/LandingPage'));
 const PrivacyPage = React.lazy(() => import('./pages/PrivacyPage')); 
 const TermsPage = React.lazy(() => import('./pages/TermsPage'));
 
 function AppContent() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, isPasswordRecovery } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const { handleSubscriptionSuccess } = useStripe();
@@ -102,10 +106,26 @@ function AppContent() {
               )
             } 
           />
+          <Route 
+            path="/reset-password" 
+            element={
+              <motion.div
+                key="reset-password"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.5 }}
+              >
+                <ResetPasswordScreen />
+              </motion.div>
+            } 
+          />
           <Route 
             path="/home" 
             element={
-              isAuthenticated ? (
+              isPasswordRecovery ? (
+                <Navigate to="/reset-password" replace />
+              ) : isAuthenticated ? (
                 <motion.div
                   key="home"
                   initial={{ opacity: 0, x: 100 }}
@@ -113,7 +133,9 @@ function AppContent() {
                   exit={{ opacity: 0, x: -100 }}
                   transition={{ duration: 0.5 }}
                 >
-                  <AuthenticatedApp />
+                  <AppLockGate>
+                    <AuthenticatedApp />
+                  </AppLockGate>
                 </motion.div>
               ) : (
                 <Navigate to="/auth" replace />
@@ -151,7 +173,7 @@ function AppContent() {
           <Route 
             path="/" 
             element={
-              <Navigate to={isAuthenticated ? "/home" : "/landing"} replace />
+              <Navigate to={isPasswordRecovery ? "/reset-password" : isAuthenticated ? "/home" : "/landing"} replace />
             } 
           />
         </Routes>
@@ -180,23 +202,27 @@ function App() {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <Router>
-          <Sentry.ErrorBoundary 
-            fallback={({ error, resetError, componentStack, eventId }) => (
-              <ErrorFallback 
-                error={error}
-                resetError={resetError}
-                componentStack={componentStack}
-                eventId={eventId}
-              />
-            )}
-            showDialog
-          >
-            <ZenoProvider>
-                <AppContent />
-            </ZenoProvider>
-          </Sentry.ErrorBoundary>
-        </Router>
+        <JournalKeyProvider>
+          <AppLockProvider>
+            <Router>
+              <Sentry.ErrorBoundary 
+                fallback={({ error, resetError, componentStack, eventId }) => (
+                  <ErrorFallback 
+                    error={error}
+                    resetError={resetError}
+                    componentStack={componentStack}
+                    eventId={eventId}
+                  />
+                )}
+                showDialog
+              >
+                <ZenoProvider>
+                    <AppContent />
+                </ZenoProvider>
+              </Sentry.ErrorBoundary>
+            </Router>
+          </AppLockProvider>
+        </JournalKeyProvider>
       </AuthProvider>
     </ThemeProvider>
   );
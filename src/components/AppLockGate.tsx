@@ -0,0 +1,43 @@
+import React, { ReactNode } from 'react';
+import { useAppLock } from '../hooks/useAppLock';
+import AppLockScreen from './AppLockScreen';
+
+/**
+ * AppLockGate - Shows the lock screen instead of its children while the app is locked,
+ * and blurs them while the tab is hidden
+ *
+ * The children are unmounted while locked so nothing from the journal stays
+ * in the page; the entry draft is kept in the offline store.
+ *
+ * @component
+ * @param {ReactNode} children - The signed in app
+ *
+ * @example
+ * return (
+ *   <AppLockGate>
+ *     <AuthenticatedApp />
+ *   </AppLockGate>
+ * )
+ */
+interface AppLockGateProps {
+  children: ReactNode;
+}
+
+const AppLockGate = React.memo(function AppLockGate({ children }: AppLockGateProps) {
+  const { isEnabled, isLocked, isHidden } = useAppLock();
+
+  if (isLocked) {
+    return <AppLockScreen />;
+  }
+
+  return (
+    <div
+      className={isEnabled && isHidden ? 'blur-xl pointer-events-none select-none' : undefined}
+      aria-hidden={isEnabled && isHidden ? true : undefined}
+    >
+      {children}
+    </div>
+  );
+});
+
+export default AppLockGate;
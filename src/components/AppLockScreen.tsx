@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Fingerprint, LogOut } from 'lucide-react';
+import { useAppLock } from '../hooks/useAppLock';
+import { APP_LOCK } from '../constants/uiStrings';
+import { MAX_PIN_ATTEMPTS } from '../lib/appLock';
+import Logo from './Logo';
+
+/**
+ * AppLockScreen - Asks for the PIN or device unlock before the journal is shown
+ *
+ * @component
+ *
+ * @example
+ * return isLocked ? <AppLockScreen /> : children;
+ */
+const AppLockScreen = React.memo(function AppLockScreen() {
+  const { method, attemptsLeft, retryAt, unlockWithPin, unlockWithDevice, resetAndSignOut } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Count down while unlocking is paused
+  useEffect(() => {
+    if (!retryAt) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [retryAt]);
+
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt.getTime() - now) / 1000)) : 0;
+  const isPaused = secondsLeft > 0;
+
+  const handlePinSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin || isChecking || isPaused) return;
+
+    setIsChecking(true);
+    setError(null);
+    const result = await unlockWithPin(pin);
+    setIsChecking(false);
+    setPin('');
+
+    if (!result.success) {
+      setError(result.error || null);
+    }
+  };
+
+  const handleDeviceUnlock = async () => {
+    setIsChecking(true);
+    setError(null);
+    const result = await unlockWithDevice();
+    setIsChecking(false);
+
+    if (!result.success) {
+      setError(result.error || null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zen-mint-50 via-zen-cream-50 to-zen-lavender-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-4">
+      <motion.div
+        className="w-full max-w-sm bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-8 shadow-xl border border-white/20 dark:border-gray-600/20 text-center"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="app-lock-title"
+      >
+        <div className="flex justify-center mb-4">
+          <Logo size="md" />
+        </div>
+        <h1 id="app-lock-title" className="flex items-center justify-center text-xl font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2">
+          <Lock className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+          {APP_LOCK.TITLE}
+        </h1>
+        <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-6">
+          {method === 'webauthn' ? APP_LOCK.DEVICE_PROMPT : APP_LOCK.PIN_PROMPT}
+        </p>
+
+        {method === 'webauthn' ? (
+          <button
+            type="button"
+            onClick={handleDeviceUnlock}
+            disabled={isChecking}
+            className="w-full flex items-center justify-center px-6 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-medium rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50"
+          >
+            <Fingerprint className="w-5 h-5 mr-2" aria-hidden="true" />
+            {isChecking ? APP_LOCK.CHECKING : APP_LOCK.UNLOCK_WITH_DEVICE}
+          </button>
+        ) : (
+          <form onSubmit={handlePinSubmit} className="space-y-3">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              placeholder={APP_LOCK.PIN_PLACEHOLDER}
+              aria-label={APP_LOCK.PIN_PLACEHOLDER}
+              disabled={isChecking || isPaused}
+              autoFocus
+              className="w-full px-4 py-3 text-center text-2xl tracking-[0.5em] border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200"
+            />
+            <button
+              type="submit"
+              disabled={!pin || isChecking || isPaused}
+              className="w-full px-6 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-medium rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isChecking ? APP_LOCK.CHECKING : APP_LOCK.UNLOCK}
+            </button>
+          </form>
+        )}
+
+        {isPaused ? (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400" role="alert">
+            {APP_LOCK.RETRY_IN.replace('{seconds}', String(secondsLeft))}
+          </p>
+        ) : error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400" role="alert">
+            {error}
+            {method === 'pin' && attemptsLeft < MAX_PIN_ATTEMPTS && (
+              <span className="block text-xs mt-1">
+                {APP_LOCK.ATTEMPTS_LEFT.replace('{count}', String(attemptsLeft))}
+              </span>
+            )}
+          </p>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-zen-sage-100 dark:border-gray-700">
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400 mb-2">{APP_LOCK.FORGOT}</p>
+          <button
+            type="button"
+            onClick={resetAndSignOut}
+            className="inline-flex items-center space-x-1 text-sm text-zen-sage-600 dark:text-gray-300 hover:text-zen-sage-800 dark:hover:text-gray-100"
+          >
+            <LogOut className="w-4 h-4" aria-hidden="true" />
+            <span>{APP_LOCK.SIGN_OUT}</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+});
+
+export default AppLockScreen;
@@ -1,15 +1,30 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Mail, Lock, User, Heart, Sparkles, AlertCircle, CheckCircle, Eye, EyeOff, ArrowLeft } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { validateForm } from '../utils/validation';
-import { useNavigate } from 'react-router-dom';
+import { OAUTH_PROVIDERS, OAuthProvider } from '../utils/oauth';
+import { validateEmail, validateForm } from '../utils/validation';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { AUTH } from '../constants/uiStrings';
+import { checkPasswordBreached } from '../utils/passwordPolicy';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import MfaChallengeForm from './MfaChallengeForm';
 import Logo from './Logo';
 import LottieAvatar from './LottieAvatar';
 
+/** Sign-in screens that only ask for an email address */
+type EmailOnlyMode = 'forgot-password' | 'magic-link';
+
+function getInitialEmailOnlyMode(search: string): EmailOnlyMode | null {
+  const mode = new URLSearchParams(search).get('mode');
+  return mode === 'forgot-password' || mode === 'magic-link' ? mode : null;
+}
+
 export default function AuthScreen() {
   const navigate = useNavigate();
+  const location = useLocation();
   const [isLogin, setIsLogin] = useState(true);
+  const [emailOnlyMode, setEmailOnlyMode] = useState<EmailOnlyMode | null>(() => getInitialEmailOnlyMode(location.search));
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -23,7 +38,24 @@ export default function AuthScreen() {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
-  const { login, signup } = useAuth();
+  const {
+    login,
+    signup,
+    requestPasswordReset,
+    sendMagicLink,
+    signInWithProvider,
+    authRedirectError,
+    clearAuthRedirectError,
+    mfaPending
+  } = useAuth();
+
+  // A magic link or OAuth sign-in that failed comes back here with the reason
+  useEffect(() => {
+    if (authRedirectError) {
+      setError(authRedirectError);
+      clearAuthRedirectError();
+    }
+  }, [authRedirectError, clearAuthRedirectError]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,6 +81,13 @@ export default function AuthScreen() {
       return;
     }
 
+    if (!isLogin && await checkPasswordBreached(formData.password)) {
+      setFieldErrors({ password: [AUTH.STRENGTH.BREACHED] });
+      setError(AUTH.STRENGTH.BREACHED);
+      setIsLoading(false);
+      return;
+    }
+
     try {
       const result = isLogin 
         ? await login(formData.email, formData.password)
@@ -72,6 +111,57 @@ export default function AuthScreen() {
     }
   };
 
+  const handleEmailOnlySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!emailOnlyMode) return;
+
+    setError('');
+    setSuccess('');
+    setFieldErrors({});
+
+    const emailValidation = validateEmail(formData.email);
+    if (!emailValidation.isValid) {
+      setFieldErrors({ email: emailValidation.errors });
+      return;
+    }
+
+    setIsLoading(true);
+    const email = formData.email.trim();
+    const result = emailOnlyMode === 'forgot-password'
+      ? await requestPasswordReset(email)
+      : await sendMagicLink(email);
+    setIsLoading(false);
+
+    if (result.success) {
+      const strings = emailOnlyMode === 'forgot-password' ? AUTH.FORGOT : AUTH.MAGIC_LINK;
+      setSuccess(strings.SENT.replace('{email}', email));
+    } else {
+      setError(result.error || 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleProviderSignIn = async (provider: OAuthProvider) => {
+    setError('');
+    setSuccess('');
+    setIsLoading(true);
+
+    // On success the browser is already on its way to the provider
+    const result = await signInWithProvider(provider);
+    if (!result.success) {
+      setError(result.error || 'Something went wrong. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  const showEmailOnlyMode = (mode: EmailOnlyMode | null) => {
+    setEmailOnlyMode(mode);
+    setIsLogin(true);
+    setError('');
+    setSuccess('');
+    setFieldErrors({});
+    setFormData(prev => ({ ...prev, password: '', confirmPassword: '' }));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -253,7 +343,13 @@ export default function AuthScreen() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.5 }}
             >
-              {isLogin ? 'Welcome Back!' : 'Join Zensai'}
+              {mfaPending
+                ? AUTH.MFA.TITLE
+                : emailOnlyMode === 'forgot-password'
+                  ? AUTH.FORGOT.TITLE
+                  : emailOnlyMode === 'magic-link'
+                    ? AUTH.MAGIC_LINK.TITLE
+                    : isLogin ? 'Welcome Back!' : 'Join Zensai'}
             </motion.h1>
             
             <motion.p
@@ -262,225 +358,346 @@ export default function AuthScreen() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.7 }}
             >
-              {isLogin 
-                ? 'Zeno missed you! Ready to continue your wellness journey?'
-                : 'Start your mindful journey with Zeno as your companion'
+              {mfaPending
+                ? AUTH.MFA.DESCRIPTION
+                : emailOnlyMode === 'forgot-password'
+                  ? AUTH.FORGOT.DESCRIPTION
+                  : emailOnlyMode === 'magic-link'
+                    ? AUTH.MAGIC_LINK.DESCRIPTION
+                    : isLogin 
+                      ? 'Zeno missed you! Ready to continue your wellness journey?'
+                      : 'Start your mindful journey with Zeno as your companion'
               }
             </motion.p>
           </div>
 
-          {/* Auth Toggle */}
-          <div className="flex bg-zen-mint-100/80 rounded-2xl p-1 mb-8">
-            <motion.button
-              onClick={() => !isLoading && setIsLogin(true)}
-              disabled={isLoading}
-              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all duration-300 ${
-                isLogin
-                  ? 'bg-white text-zen-sage-800 shadow-lg'
-                  : 'text-zen-sage-600 hover:text-zen-sage-800'
-              } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-              whileHover={!isLoading ? { scale: 1.02 } : {}}
-              whileTap={{ scale: 0.98 }}
-            >
-              Sign In
-            </motion.button>
-            <motion.button
-              onClick={() => !isLoading && setIsLogin(false)}
-              disabled={isLoading}
-              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all duration-300 ${
-                !isLogin
-                  ? 'bg-white text-zen-sage-800 shadow-lg'
-                  : 'text-zen-sage-600 hover:text-zen-sage-800'
-              } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-              whileHover={!isLoading ? { scale: 1.02 } : {}}
-              whileTap={{ scale: 0.98 }}
-            >
-              Sign Up
-            </motion.button>
-          </div>
+          {mfaPending ? (
+            <MfaChallengeForm />
+          ) : emailOnlyMode ? (
+            <form onSubmit={handleEmailOnlySubmit} className="space-y-6">
+              <div className="relative">
+                <Mail className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
+                <input
+                  type="email"
+                  name="email"
+                  placeholder="Email address"
+                  aria-label="Email address"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  required
+                  disabled={isLoading}
+                  className={`w-full pl-12 pr-4 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
+                    hasFieldError('email') 
+                      ? 'border-red-300 focus:ring-red-400' 
+                      : 'border-zen-mint-200 hover:border-zen-mint-300'
+                  } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                />
+                {hasFieldError('email') && (
+                  <motion.p
+                    className="text-red-500 text-sm mt-2 ml-1"
+                    initial={{ opacity: 0, y: -5 }}
+                    animate={{ opacity: 1, y: 0 }}
+                  >
+                    {getFieldError('email')}
+                  </motion.p>
+                )}
+              </div>
 
-          {/* Form */}
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <AnimatePresence mode="wait">
-              {!isLogin && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  exit={{ opacity: 0, height: 0 }}
-                  transition={{ duration: 0.3 }}
-                >
-                  <div className="relative">
-                    <User className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
-                    <input
-                      type="text"
-                      name="name"
-                      placeholder="Your name"
-                      value={formData.name}
-                      onChange={handleInputChange}
-                      required={!isLogin}
-                      disabled={isLoading}
-                      className={`w-full pl-12 pr-4 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
-                        hasFieldError('name') 
-                          ? 'border-red-300 focus:ring-red-400' 
-                          : 'border-zen-mint-200 hover:border-zen-mint-300'
-                      } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    />
-                    {hasFieldError('name') && (
-                      <motion.p
-                        className="text-red-500 text-sm mt-2 ml-1"
-                        initial={{ opacity: 0, y: -5 }}
-                        animate={{ opacity: 1, y: 0 }}
-                      >
-                        {getFieldError('name')}
-                      </motion.p>
-                    )}
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            <div className="relative">
-              <Mail className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
-              <input
-                type="email"
-                name="email"
-                placeholder="Email address"
-                value={formData.email}
-                onChange={handleInputChange}
-                required
+              <motion.button
+                type="submit"
                 disabled={isLoading}
-                className={`w-full pl-12 pr-4 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
-                  hasFieldError('email') 
-                    ? 'border-red-300 focus:ring-red-400' 
-                    : 'border-zen-mint-200 hover:border-zen-mint-300'
-                } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-              />
-              {hasFieldError('email') && (
-                <motion.p
-                  className="text-red-500 text-sm mt-2 ml-1"
-                  initial={{ opacity: 0, y: -5 }}
-                  animate={{ opacity: 1, y: 0 }}
-                >
-                  {getFieldError('email')}
-                </motion.p>
-              )}
-            </div>
+                className="w-full py-4 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all duration-300"
+                whileHover={!isLoading ? { scale: 1.02 } : {}}
+                whileTap={{ scale: 0.98 }}
+              >
+                {isLoading ? (
+                  <div className="flex items-center justify-center space-x-2">
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    <span>Please wait...</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center space-x-2">
+                    <Mail className="w-5 h-5" />
+                    <span>{emailOnlyMode === 'forgot-password' ? AUTH.FORGOT.SUBMIT : AUTH.MAGIC_LINK.SUBMIT}</span>
+                  </div>
+                )}
+              </motion.button>
 
-            <div className="relative">
-              <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
-              <input
-                type={showPassword ? "text" : "password"}
-                name="password"
-                placeholder="Password"
-                value={formData.password}
-                onChange={handleInputChange}
-                required
+              <div className="text-center">
+                <button
+                  type="button"
+                  onClick={() => showEmailOnlyMode(null)}
+                  disabled={isLoading}
+                  className="text-zen-mint-600 hover:text-zen-mint-700 font-medium transition-colors disabled:opacity-50"
+                >
+                  {AUTH.BACK_TO_SIGN_IN}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+            {/* Auth Toggle */}
+            <div className="flex bg-zen-mint-100/80 rounded-2xl p-1 mb-8">
+              <motion.button
+                onClick={() => !isLoading && setIsLogin(true)}
                 disabled={isLoading}
-                className={`w-full pl-12 pr-12 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
-                  hasFieldError('password') 
-                    ? 'border-red-300 focus:ring-red-400' 
-                    : 'border-zen-mint-200 hover:border-zen-mint-300'
+                className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all duration-300 ${
+                  isLogin
+                    ? 'bg-white text-zen-sage-800 shadow-lg'
+                    : 'text-zen-sage-600 hover:text-zen-sage-800'
                 } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-              />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-4 top-1/2 transform -translate-y-1/2 text-zen-sage-400 hover:text-zen-sage-600 transition-colors"
+                whileHover={!isLoading ? { scale: 1.02 } : {}}
+                whileTap={{ scale: 0.98 }}
+              >
+                Sign In
+              </motion.button>
+              <motion.button
+                onClick={() => !isLoading && setIsLogin(false)}
                 disabled={isLoading}
+                className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all duration-300 ${
+                  !isLogin
+                    ? 'bg-white text-zen-sage-800 shadow-lg'
+                    : 'text-zen-sage-600 hover:text-zen-sage-800'
+                } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                whileHover={!isLoading ? { scale: 1.02 } : {}}
+                whileTap={{ scale: 0.98 }}
               >
-                {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-              </button>
-              {hasFieldError('password') && (
-                <motion.p
-                  className="text-red-500 text-sm mt-2 ml-1"
-                  initial={{ opacity: 0, y: -5 }}
-                  animate={{ opacity: 1, y: 0 }}
-                >
-                  {getFieldError('password')}
-                </motion.p>
-              )}
+                Sign Up
+              </motion.button>
             </div>
 
-            <AnimatePresence mode="wait">
-              {!isLogin && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  exit={{ opacity: 0, height: 0 }}
-                  transition={{ duration: 0.3 }}
+            {/* Form */}
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <AnimatePresence mode="wait">
+                {!isLogin && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    transition={{ duration: 0.3 }}
+                  >
+                    <div className="relative">
+                      <User className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
+                      <input
+                        type="text"
+                        name="name"
+                        placeholder="Your name"
+                        value={formData.name}
+                        onChange={handleInputChange}
+                        required={!isLogin}
+                        disabled={isLoading}
+                        className={`w-full pl-12 pr-4 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
+                          hasFieldError('name') 
+                            ? 'border-red-300 focus:ring-red-400' 
+                            : 'border-zen-mint-200 hover:border-zen-mint-300'
+                        } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      />
+                      {hasFieldError('name') && (
+                        <motion.p
+                          className="text-red-500 text-sm mt-2 ml-1"
+                          initial={{ opacity: 0, y: -5 }}
+                          animate={{ opacity: 1, y: 0 }}
+                        >
+                          {getFieldError('name')}
+                        </motion.p>
+                      )}
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <div className="relative">
+                <Mail className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
+                <input
+                  type="email"
+                  name="email"
+                  placeholder="Email address"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  required
+                  disabled={isLoading}
+                  className={`w-full pl-12 pr-4 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
+                    hasFieldError('email') 
+                      ? 'border-red-300 focus:ring-red-400' 
+                      : 'border-zen-mint-200 hover:border-zen-mint-300'
+                  } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                />
+                {hasFieldError('email') && (
+                  <motion.p
+                    className="text-red-500 text-sm mt-2 ml-1"
+                    initial={{ opacity: 0, y: -5 }}
+                    animate={{ opacity: 1, y: 0 }}
+                  >
+                    {getFieldError('email')}
+                  </motion.p>
+                )}
+              </div>
+
+              <div className="relative">
+                <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
+                <input
+                  type={showPassword ? "text" : "password"}
+                  name="password"
+                  placeholder="Password"
+                  aria-describedby={!isLogin ? 'password-strength' : undefined}
+                  value={formData.password}
+                  onChange={handleInputChange}
+                  required
+                  disabled={isLoading}
+                  className={`w-full pl-12 pr-12 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
+                    hasFieldError('password') 
+                      ? 'border-red-300 focus:ring-red-400' 
+                      : 'border-zen-mint-200 hover:border-zen-mint-300'
+                  } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-4 top-1/2 transform -translate-y-1/2 text-zen-sage-400 hover:text-zen-sage-600 transition-colors"
+                  disabled={isLoading}
                 >
-                  <div className="relative">
-                    <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
-                    <input
-                      type={showConfirmPassword ? "text" : "password"}
-                      name="confirmPassword"
-                      placeholder="Confirm password"
-                      value={formData.confirmPassword}
-                      onChange={handleInputChange}
-                      required={!isLogin}
+                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                </button>
+                {hasFieldError('password') && (
+                  <motion.p
+                    className="text-red-500 text-sm mt-2 ml-1"
+                    initial={{ opacity: 0, y: -5 }}
+                    animate={{ opacity: 1, y: 0 }}
+                  >
+                    {getFieldError('password')}
+                  </motion.p>
+                )}
+                {!isLogin && (
+                  <PasswordStrengthMeter
+                    id="password-strength"
+                    password={formData.password}
+                    context={{ email: formData.email, name: formData.name }}
+                  />
+                )}
+                {isLogin && (
+                  <div className="flex justify-between mt-2 ml-1 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => showEmailOnlyMode('forgot-password')}
                       disabled={isLoading}
-                      className={`w-full pl-12 pr-12 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
-                        hasFieldError('confirmPassword') 
-                          ? 'border-red-300 focus:ring-red-400' 
-                          : 'border-zen-mint-200 hover:border-zen-mint-300'
-                      } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    />
+                      className="text-zen-mint-600 hover:text-zen-mint-700 font-medium transition-colors disabled:opacity-50"
+                    >
+                      {AUTH.FORGOT_PASSWORD}
+                    </button>
                     <button
                       type="button"
-                      onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                      className="absolute right-4 top-1/2 transform -translate-y-1/2 text-zen-sage-400 hover:text-zen-sage-600 transition-colors"
+                      onClick={() => showEmailOnlyMode('magic-link')}
                       disabled={isLoading}
+                      className="text-zen-mint-600 hover:text-zen-mint-700 font-medium transition-colors disabled:opacity-50"
                     >
-                      {showConfirmPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                      {AUTH.USE_MAGIC_LINK}
                     </button>
-                    {hasFieldError('confirmPassword') && (
-                      <motion.p
-                        className="text-red-500 text-sm mt-2 ml-1"
-                        initial={{ opacity: 0, y: -5 }}
-                        animate={{ opacity: 1, y: 0 }}
-                      >
-                        {getFieldError('confirmPassword')}
-                      </motion.p>
-                    )}
                   </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            <motion.button
-              type="submit"
-              disabled={isLoading}
-              className="w-full py-4 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all duration-300"
-              whileHover={!isLoading ? { scale: 1.02 } : {}}
-              whileTap={{ scale: 0.98 }}
-            >
-              {isLoading ? (
-                <div className="flex items-center justify-center space-x-2">
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  <span>Please wait...</span>
-                </div>
-              ) : (
-                <div className="flex items-center justify-center space-x-2">
-                  <Heart className="w-5 h-5" />
-                  <span>{isLogin ? 'Welcome Back' : 'Start Your Journey'}</span>
-                </div>
-              )}
-            </motion.button>
-          </form>
-
-          {/* Toggle Auth Mode */}
-          <div className="text-center mt-6">
-            <p className="text-zen-sage-600">
-              {isLogin ? "New to Zensai?" : "Already have an account?"}
-              <button
-                onClick={toggleAuthMode}
+                )}
+              </div>
+
+              <AnimatePresence mode="wait">
+                {!isLogin && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    transition={{ duration: 0.3 }}
+                  >
+                    <div className="relative">
+                      <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
+                      <input
+                        type={showConfirmPassword ? "text" : "password"}
+                        name="confirmPassword"
+                        placeholder="Confirm password"
+                        value={formData.confirmPassword}
+                        onChange={handleInputChange}
+                        required={!isLogin}
+                        disabled={isLoading}
+                        className={`w-full pl-12 pr-12 py-4 bg-white/70 border-2 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 ${
+                          hasFieldError('confirmPassword') 
+                            ? 'border-red-300 focus:ring-red-400' 
+                            : 'border-zen-mint-200 hover:border-zen-mint-300'
+                        } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                        className="absolute right-4 top-1/2 transform -translate-y-1/2 text-zen-sage-400 hover:text-zen-sage-600 transition-colors"
+                        disabled={isLoading}
+                      >
+                        {showConfirmPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                      </button>
+                      {hasFieldError('confirmPassword') && (
+                        <motion.p
+                          className="text-red-500 text-sm mt-2 ml-1"
+                          initial={{ opacity: 0, y: -5 }}
+                          animate={{ opacity: 1, y: 0 }}
+                        >
+                          {getFieldError('confirmPassword')}
+                        </motion.p>
+                      )}
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <motion.button
+                type="submit"
                 disabled={isLoading}
-                className="ml-2 text-zen-mint-600 hover:text-zen-mint-700 font-medium transition-colors disabled:opacity-50"
+                className="w-full py-4 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all duration-300"
+                whileHover={!isLoading ? { scale: 1.02 } : {}}
+                whileTap={{ scale: 0.98 }}
               >
-                {isLogin ? "Create an account" : "Sign in instead"}
-              </button>
-            </p>
-          </div>
+                {isLoading ? (
+                  <div className="flex items-center justify-center space-x-2">
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    <span>Please wait...</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center space-x-2">
+                    <Heart className="w-5 h-5" />
+                    <span>{isLogin ? 'Welcome Back' : 'Start Your Journey'}</span>
+                  </div>
+                )}
+              </motion.button>
+            </form>
+
+            {/* OAuth Providers */}
+            <div className="flex items-center my-6" aria-hidden="true">
+              <div className="flex-1 border-t border-zen-mint-200" />
+              <span className="px-3 text-sm text-zen-sage-500">{AUTH.OR}</span>
+              <div className="flex-1 border-t border-zen-mint-200" />
+            </div>
+            <div className="space-y-3">
+              {OAUTH_PROVIDERS.map(provider => (
+                <button
+                  key={provider}
+                  type="button"
+                  onClick={() => handleProviderSignIn(provider)}
+                  disabled={isLoading}
+                  className="w-full py-3 bg-white border-2 border-zen-mint-200 hover:border-zen-mint-300 text-zen-sage-800 font-medium rounded-2xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {AUTH.CONTINUE_WITH.replace('{provider}', AUTH.PROVIDERS[provider])}
+                </button>
+              ))}
+            </div>
+
+            {/* Toggle Auth Mode */}
+            <div className="text-center mt-6">
+              <p className="text-zen-sage-600">
+                {isLogin ? "New to Zensai?" : "Already have an account?"}
+                <button
+                  onClick={toggleAuthMode}
+                  disabled={isLoading}
+                  className="ml-2 text-zen-mint-600 hover:text-zen-mint-700 font-medium transition-colors disabled:opacity-50"
+                >
+                  {isLogin ? "Create an account" : "Sign in instead"}
+                </button>
+              </p>
+            </div>
+            </>
+          )}
 
           {/* Footer Message */}
           <motion.div
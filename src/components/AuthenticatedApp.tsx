@@ -35,6 +35,8 @@ export default function AuthenticatedApp() {
     getTotalEntries, 
     getStreak,
     getBestStreak,
+    getStreakPeriod,
+    streakFreezes,
     hasEntryToday,
     isLoading: journalLoading,
     error: journalError,
@@ -71,6 +73,15 @@ export default function AuthenticatedApp() {
     }
   }, [location, navigate]);
 
+  // Linking a sign-in method in Settings comes back from the provider to ?view=settings
+  useEffect(() => {
+    const query = new URLSearchParams(location.search);
+    if (query.get('view') === 'settings') {
+      setCurrentView('settings');
+      navigate('/home', { replace: true });
+    }
+  }, [location, navigate]);
+
   // Redirect to premium page if trial expired and not premium
   useEffect(() => {
     if (needsSubscription()) {
@@ -352,6 +363,8 @@ export default function AuthenticatedApp() {
           user={user}
           streak={typeof getStreak === 'function' ? getStreak() : 0}
           bestStreak={typeof getBestStreak === 'function' ? getBestStreak() : 0}
+          streakPeriod={getStreakPeriod()}
+          streakFreezes={streakFreezes}
           totalEntries={getTotalEntries()}
           alreadyJournaledToday={hasEntryToday()}
           contextualMessage={getContextualMessage()}
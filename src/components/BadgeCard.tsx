@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Star, Lock, Trophy, Calendar, Target, Sparkles } from 'lucide-react';
+import { Star, Lock, Trophy, Calendar, Target, Sparkles, Flag } from 'lucide-react';
 import { BADGES } from '../constants/uiStrings';
 
 /**
@@ -19,6 +19,7 @@ interface Badge {
   progress_current: number;
   progress_target: number;
   progress_percentage: number;
+  progress_unit?: string;
 }
 
 /**
@@ -106,6 +107,8 @@ const BadgeCard = React.memo(function BadgeCard({
         return <Target className="w-4 h-4" />;
       case 'achievement':
         return <Trophy className="w-4 h-4" />;
+      case 'goal':
+        return <Flag className="w-4 h-4" />;
       case 'special':
         return <Sparkles className="w-4 h-4" />;
       default:
@@ -1,6 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Filter, ChevronDown, ChevronUp, Trophy, Calendar, Target, Sparkles } from 'lucide-react';
+import { Search, Filter, ChevronDown, ChevronUp, Trophy, Calendar, Target, Sparkles, Flag } from 'lucide-react';
 import BadgeCard from './BadgeCard';
 import BadgeModal from './BadgeModal';
 import { BADGES } from '../constants/uiStrings';
@@ -29,6 +29,7 @@ interface BadgeCollectionProps {
     progress_current: number;
     progress_target: number;
     progress_percentage: number;
+    progress_unit?: string;
   }>;
   className?: string;
 }
@@ -90,6 +91,8 @@ const BadgeCollection = React.memo(function BadgeCollection({ badges, className
         return <Target className="w-5 h-5" />;
       case 'achievement':
         return <Trophy className="w-5 h-5" />;
+      case 'goal':
+        return <Flag className="w-5 h-5" />;
       case 'special':
         return <Sparkles className="w-5 h-5" />;
       default:
@@ -105,10 +108,12 @@ const BadgeCollection = React.memo(function BadgeCollection({ badges, className
         return 'Milestone Badges';
       case 'achievement':
         return 'Achievement Badges';
+      case 'goal':
+        return 'Goal Badges';
       case 'special':
         return 'Special Badges';
       default:
-        return 'Badges';
+        return `${category.charAt(0).toUpperCase()}${category.slice(1)} Badges`;
     }
   };
 
@@ -194,6 +199,7 @@ const BadgeCollection = React.memo(function BadgeCollection({ badges, className
                     <option value="streak">Streak</option>
                     <option value="milestone">Milestone</option>
                     <option value="achievement">Achievement</option>
+                    <option value="goal">Goal</option>
                     <option value="special">Special</option>
                   </select>
                 </div>
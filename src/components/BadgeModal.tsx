@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Calendar, Target, Trophy, Sparkles, Star, Lock } from 'lucide-react';
+import { X, Calendar, Target, Trophy, Sparkles, Star, Lock, Flag } from 'lucide-react';
 import { BADGES } from '../constants/uiStrings';
 
 /**
@@ -19,6 +19,7 @@ interface Badge {
   progress_current: number;
   progress_target: number;
   progress_percentage: number;
+  progress_unit?: string;
 }
 
 /**
@@ -88,6 +89,8 @@ export default function BadgeModal({ badge, isOpen, onClose }: BadgeModalProps)
         return <Target className="w-5 h-5" />;
       case 'achievement':
         return <Trophy className="w-5 h-5" />;
+      case 'goal':
+        return <Flag className="w-5 h-5" />;
       case 'special':
         return <Sparkles className="w-5 h-5" />;
       default:
@@ -103,6 +106,8 @@ export default function BadgeModal({ badge, isOpen, onClose }: BadgeModalProps)
         return 'Milestone Badge';
       case 'achievement':
         return 'Achievement Badge';
+      case 'goal':
+        return 'Goal Badge';
       case 'special':
         return 'Special Badge';
       default:
@@ -131,6 +136,8 @@ export default function BadgeModal({ badge, isOpen, onClose }: BadgeModalProps)
         return "Continue writing journal entries to reach this milestone.";
       case 'achievement':
         return "Complete the specific requirements to unlock this achievement.";
+      case 'goal':
+        return "Reach your weekly journaling goal to make progress.";
       case 'special':
         return "Special badges are earned through unique actions or events.";
       default:
@@ -252,7 +259,7 @@ export default function BadgeModal({ badge, isOpen, onClose }: BadgeModalProps)
                   <div className="bg-zen-sage-50 dark:bg-gray-700 rounded-2xl p-4">
                     <div className="flex justify-between items-center mb-2">
                       <span className="text-sm font-medium text-zen-sage-700 dark:text-gray-300">
-                        {badge.progress_current} / {badge.progress_target}
+                        {badge.progress_current} / {badge.progress_target}{badge.progress_unit ? ` ${badge.progress_unit}` : ''}
                       </span>
                       <span className="text-sm font-bold text-zen-mint-600">
                         {badge.progress_percentage}%
@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Trophy, Target, Calendar, Sparkles, TrendingUp } from 'lucide-react';
+import { Trophy, Target, Calendar, Sparkles, TrendingUp, Flag } from 'lucide-react';
 import { BADGES } from '../constants/uiStrings';
 
 /**
@@ -25,6 +25,7 @@ interface BadgeProgressProps {
     progress_current: number;
     progress_target: number;
     progress_percentage: number;
+    progress_unit?: string;
   }>;
 }
 
@@ -53,6 +54,8 @@ const BadgeProgress = React.memo(function BadgeProgress({ badges }: BadgeProgres
         return <Target className="w-4 h-4" />;
       case 'achievement':
         return <Trophy className="w-4 h-4" />;
+      case 'goal':
+        return <Flag className="w-4 h-4" />;
       case 'special':
         return <Sparkles className="w-4 h-4" />;
       default:
@@ -172,7 +175,7 @@ const BadgeProgress = React.memo(function BadgeProgress({ badges }: BadgeProgres
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-xs text-zen-sage-600 dark:text-gray-400">
-                      {badge.badge_category === 'streak' ? 'days' : 'entries'}
+                      {badge.progress_unit ?? (badge.badge_category === 'streak' ? 'days' : 'entries')}
                     </span>
                     <div className="flex items-center space-x-1">
                       <span aria-hidden="true">{getCategoryIcon(badge.badge_category)}</span>
@@ -33,6 +33,7 @@ interface BadgeWidgetProps {
     progress_current: number;
     progress_target: number;
     progress_percentage: number;
+    progress_unit?: string;
   }>;
   onViewAllBadges: () => void;
   className?: string;
@@ -25,6 +25,7 @@ interface Badge {
   progress_current: number;
   progress_target: number;
   progress_percentage: number;
+  progress_unit?: string;
 }
 
 export default function BadgesScreen({ onBack }: BadgesScreenProps) {
@@ -1,15 +1,31 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CheckCircle } from 'lucide-react';
 import * as Sentry from '@sentry/react';
 import { useJournal } from '../hooks/useJournal';
 import { useJournalFlow } from '../hooks/useJournalFlow';
 import { usePremium } from '../hooks/usePremium';
+import { useWeeklyGoal } from '../hooks/useWeeklyGoal';
+import { EntryPrivacy } from '../contexts/JournalKeyContext';
+import { useJournalKey } from '../hooks/useJournalKey';
 import JournalEntryForm from './journal/JournalEntryForm';
-import { MoodLevel } from '../types';
+import WeeklyGoalCard from './journal/WeeklyGoalCard';
+import WeeklySummaryCard from './journal/WeeklySummaryCard';
+import PrivateJournalUnlock from './journal/PrivateJournalUnlock';
+import { MoodLevel, VoiceNote } from '../types';
+import { JOURNAL } from '../constants/uiStrings';
+import { safeStorage } from '../types/errors';
+import { shouldShowWeeklySummary } from '../utils/weeklyGoal';
+
+const SUMMARY_DISMISSED_KEY = 'zensai-weekly-summary-dismissed';
 
 export default function HomeScreen() {
-  const { refreshData, addEntry } = useJournal();
+  const { entries, refreshData, addEntry } = useJournal();
+  const { progress: weeklyGoal, reload: reloadWeeklyGoal } = useWeeklyGoal();
+  const { status: journalKeyStatus, isPrivate } = useJournalKey();
+  const [dismissedSummaryWeek, setDismissedSummaryWeek] = useState<string | null>(
+    () => safeStorage.getItem<string | null>(SUMMARY_DISMISSED_KEY, null)
+  );
   
   const {
     reflectionQuestion,
@@ -35,6 +51,7 @@ export default function HomeScreen() {
     stopSpeech,
     fetchReflectionQuestion: fetchReflectionQuestionInternal,
     clearError,
+    clearDraft,
     generationProgress,
     audioError
   } = useJournalFlow();
@@ -44,6 +61,20 @@ export default function HomeScreen() {
   const [error, setError] = useState<string | null>(null);
   const [showAffirmationCard, setShowAffirmationCard] = useState(false);
   const [selectedPhoto, setSelectedPhoto] = useState<File | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [entryPrivacy, setEntryPrivacy] = useState<EntryPrivacy>({});
+  const [voiceNote, setVoiceNote] = useState<VoiceNote | null>(null);
+
+  // Offer the user's most frequently used tags as quick picks
+  const tagSuggestions = useMemo(() => {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => {
+      (entry.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    });
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([tag]) => tag);
+  }, [entries]);
 
   const { isPremium, showUpsellModal, isTrialActive } = usePremium();
   
@@ -73,12 +104,19 @@ export default function HomeScreen() {
     return () => clearInterval(refreshInterval);
   }, [refreshData]);
   
+  const handleDismissSummary = useCallback(() => {
+    if (!weeklyGoal?.last_week) return;
+    safeStorage.setItem(SUMMARY_DISMISSED_KEY, weeklyGoal.last_week.week_start);
+    setDismissedSummaryWeek(weeklyGoal.last_week.week_start);
+  }, [weeklyGoal]);
+
   // Handle form submission
   const handleSubmit = async (
     content: string,
     title: string | null,
     mood: MoodLevel, 
-    photoFile: File | null
+    photoFile: File | null,
+    tags: string[]
   ) => {
     try {
       // Add breadcrumb for debugging
@@ -90,13 +128,15 @@ export default function HomeScreen() {
           hasTitle: !!title,
           moodLevel: mood,
           hasPhoto: !!photoFile,
+          hasVoiceNote: !!voiceNote,
+          tagCount: tags.length,
           contentLength: content.length
         }
       });
       
       // Step 1: Analyze mood and generate affirmation
       console.log('Analyzing and generating affirmation...');
-      const { success, affirmationText, affirmationSource } = await handleAnalyzeAndSave();
+      const { success, affirmationText, affirmationSource } = await handleAnalyzeAndSave(entryPrivacy);
       
       if (!success) {
         console.error('Failed to analyze and generate affirmation');
@@ -117,17 +157,31 @@ export default function HomeScreen() {
         photoFile,
         affirmationText || null, 
         null, // No audio URL yet - will be generated on demand
-        affirmationSource || 'fallback' 
+        affirmationSource || 'fallback',
+        tags,
+        entryPrivacy,
+        voiceNote
       );
       
       if (!saveResult.success) {
+        // The form was cleared for the affirmation; put the entry back so nothing is lost
+        handleJournalTextChange(content);
+        handleTitleChange(title || '');
+        handleMoodSelect(mood);
         setError(saveResult.error || 'Failed to save journal entry');
         return;
       }
+
+      await clearDraft();
+
+      // Queued entries are counted once they reach the server
+      if (!saveResult.queued) {
+        reloadWeeklyGoal();
+      }
       
       // Step 3: Show success message and affirmation card
       setShowSuccess(true);
-      setSuccessMessage('Journal entry saved successfully!');
+      setSuccessMessage(saveResult.queued ? JOURNAL.SUCCESS_MESSAGES.SAVED_OFFLINE : 'Journal entry saved successfully!');
       setTimeout(() => {
         setShowSuccess(false);
       }, 3000);
@@ -135,8 +189,11 @@ export default function HomeScreen() {
       // Show the affirmation card after a successful save
       setShowAffirmationCard(true);
       
-      // Reset photo selection
+      // Reset photo, tag, privacy and voice note selection
       setSelectedPhoto(null);
+      setSelectedTags([]);
+      setEntryPrivacy({});
+      setVoiceNote(null);
     } catch (err) {
       // Capture the error with additional context
       Sentry.captureException(err, {
@@ -171,9 +228,19 @@ export default function HomeScreen() {
         )}
       </AnimatePresence>
 
+      {/* Weekly Goal */}
+      <AnimatePresence>
+        {weeklyGoal && shouldShowWeeklySummary(weeklyGoal.last_week, dismissedSummaryWeek) && weeklyGoal.last_week && (
+          <WeeklySummaryCard summary={weeklyGoal.last_week} onDismiss={handleDismissSummary} />
+        )}
+      </AnimatePresence>
+      {weeklyGoal && <WeeklyGoalCard progress={weeklyGoal} />}
+
+      {journalKeyStatus === 'locked' && <PrivateJournalUnlock />}
+
       {/* Journal Entry Form */}
       <JournalEntryForm
-        onSubmit={(content, title, mood, photoFile) => handleSubmit(content, title, mood, photoFile)}
+        onSubmit={(content, title, mood, photoFile, tags) => handleSubmit(content, title, mood, photoFile, tags)}
         isSubmitting={isAnalyzing}
         error={journalFlowError || ""}
         dailyPrompt={reflectionQuestion}
@@ -203,6 +270,14 @@ export default function HomeScreen() {
         onUpsellTrigger={showUpsellModal}
         selectedPhoto={selectedPhoto}
         onPhotoSelect={setSelectedPhoto}
+        selectedTags={selectedTags}
+        onTagsChange={setSelectedTags}
+        tagSuggestions={tagSuggestions}
+        isPrivateJournal={isPrivate}
+        entryPrivacy={entryPrivacy}
+        onPrivacyChange={setEntryPrivacy}
+        voiceNote={voiceNote}
+        onVoiceNoteChange={setVoiceNote}
         generationProgress={generationProgress}
         audioError={audioError}
       />
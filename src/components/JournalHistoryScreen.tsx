@@ -31,7 +31,7 @@ interface JournalEntry {
   id: string;
   content: string;
   mood: string;
-  signedPhotoUrl?: string;
+  signedPhotoUrl?: string | null;
   photo_filename: string | null;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, KeyRound, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AUTH } from '../constants/uiStrings';
+import { TOTP_CODE_LENGTH, sanitizeTotpCode } from '../utils/mfa';
+
+const inputClassName = 'w-full pl-12 pr-4 py-4 bg-white/70 border-2 border-zen-mint-200 hover:border-zen-mint-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed';
+const linkButtonClassName = 'text-zen-mint-600 hover:text-zen-mint-700 font-medium transition-colors disabled:opacity-50';
+
+/**
+ * MfaChallengeForm - Second sign-in step for accounts with an authenticator app
+ *
+ * Shown by AuthScreen while the session has only passed the password. A
+ * recovery code can be used instead when the authenticator is lost.
+ *
+ * @component
+ *
+ * @example
+ * return (
+ *   <MfaChallengeForm />
+ * )
+ */
+const MfaChallengeForm = React.memo(function MfaChallengeForm() {
+  const { verifyMfa, redeemRecoveryCode, logout } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isVerifying) return;
+
+    setIsVerifying(true);
+    setError(null);
+    const result = useRecoveryCode ? await redeemRecoveryCode(code) : await verifyMfa(code);
+    // On success the user is signed in and this screen goes away
+    if (!result.success) {
+      setIsVerifying(false);
+      setError(result.error || null);
+      setCode('');
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError(null);
+  };
+
+  const canSubmit = useRecoveryCode ? code.trim().length > 0 : code.length === TOTP_CODE_LENGTH;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {useRecoveryCode && (
+        <p className="text-sm text-zen-sage-600 text-center">{AUTH.MFA.RECOVERY_DESCRIPTION}</p>
+      )}
+
+      <div className="relative">
+        <KeyRound className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" aria-hidden="true" />
+        {useRecoveryCode ? (
+          <input
+            type="text"
+            autoComplete="off"
+            autoCapitalize="characters"
+            spellCheck={false}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={AUTH.MFA.RECOVERY_CODE}
+            aria-label={AUTH.MFA.RECOVERY_CODE}
+            disabled={isVerifying}
+            autoFocus
+            className={`${inputClassName} font-mono tracking-wider`}
+          />
+        ) : (
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(sanitizeTotpCode(e.target.value))}
+            placeholder={AUTH.MFA.CODE}
+            aria-label={AUTH.MFA.CODE}
+            disabled={isVerifying}
+            autoFocus
+            className={`${inputClassName} font-mono tracking-[0.3em]`}
+          />
+        )}
+      </div>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600" role="alert">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+
+      <motion.button
+        type="submit"
+        disabled={isVerifying || !canSubmit}
+        className="w-full py-4 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all duration-300 flex items-center justify-center space-x-2"
+        whileHover={!isVerifying ? { scale: 1.02 } : {}}
+        whileTap={{ scale: 0.98 }}
+      >
+        <ShieldCheck className="w-5 h-5" aria-hidden="true" />
+        <span>{isVerifying ? 'Please wait...' : AUTH.MFA.SUBMIT}</span>
+      </motion.button>
+
+      <div className="flex flex-col items-center space-y-3 text-sm">
+        <button type="button" onClick={toggleRecoveryCode} disabled={isVerifying} className={linkButtonClassName}>
+          {useRecoveryCode ? AUTH.MFA.USE_AUTHENTICATOR : AUTH.MFA.USE_RECOVERY_CODE}
+        </button>
+        <button type="button" onClick={() => logout()} disabled={isVerifying} className={linkButtonClassName}>
+          {AUTH.MFA.SIGN_OUT}
+        </button>
+      </div>
+    </form>
+  );
+});
+
+export default MfaChallengeForm;
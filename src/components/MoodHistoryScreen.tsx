@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   ArrowLeft, 
@@ -8,20 +8,23 @@ import {
 } from 'lucide-react';
 import { useJournal } from '../hooks/useJournal';
 import { useAuth } from '../contexts/AuthContext';
+import { useJournalKey } from '../hooks/useJournalKey';
 import { usePremium } from '../hooks/usePremium';
+import { useJournalSearch, JournalSearchResult } from '../hooks/useJournalSearch';
 import Logo from './Logo';
 import { MoodLevel } from '../types';
 import { HISTORY } from '../constants/uiStrings';
 
 // Import history components
-import HistoryFilters from './history/HistoryFilters';
+import HistoryFilters, { HistorySortOrder } from './history/HistoryFilters';
 import MoodStatsOverview from './history/MoodStatsOverview';
 import JournalEntryCard from './history/JournalEntryCard';
 import DateGroupHeader from './history/DateGroupHeader';
-import HistoryPagination from './history/HistoryPagination';
+import LoadMoreTrigger from './history/LoadMoreTrigger';
 import AdvancedAnalytics from './history/AdvancedAnalytics';
 import PremiumHistoryLimit from './history/PremiumHistoryLimit';
 import EmptyState from './history/EmptyState';
+import PrivateJournalUnlock from './journal/PrivateJournalUnlock';
 
 interface MoodHistoryScreenProps {
   onBack: () => void;
@@ -34,34 +37,53 @@ interface JournalEntry {
   mood: string;
   photo_url: string | null;
   photo_filename: string | null;
-  signedPhotoUrl?: string;
+  signedPhotoUrl?: string | null;
+  pendingSync?: boolean;
   affirmation_text?: string | null;
   affirmation_audio_url?: string | null;
   signedAudioUrl?: string | null;
   title: string | null;
+  tags?: string[];
   created_at: string;
   updated_at: string;
 }
 
 interface GroupedEntries {
-  [date: string]: JournalEntry[];
+  [date: string]: (JournalEntry | JournalSearchResult)[];
 }
 
+/** Stored mood values, indexed by mood level - 1 */
+const MOOD_NAMES = ['struggling', 'low', 'neutral', 'good', 'amazing'];
+
 export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreenProps) {
   const { user } = useAuth();
-  const { entries, isLoading, error, deleteEntry, updateEntry, refreshData } = useJournal();
+  const { status: journalKeyStatus } = useJournalKey();
+  const {
+    entries,
+    isLoading,
+    error,
+    hasMore,
+    isLoadingMore,
+    moodCounts,
+    loadMoreEntries,
+    requestSignedUrls,
+    deleteEntry,
+    updateEntry,
+    refreshData,
+    getTotalEntries
+  } = useJournal();
   const { isPremium, isTrialActive, showUpsellModal } = usePremium();
 
   // State management
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMood, setFilterMood] = useState<MoodLevel | 'all'>('all');
-  const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [sortOrder, setSortOrder] = useState<HistorySortOrder>('newest');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-
-  const ENTRIES_PER_PAGE = 10;
 
   // Refresh data when component mounts
   useEffect(() => {
@@ -84,25 +106,43 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
     return new Date(dateString).toDateString();
   };
 
-  // Filter and search entries
-  const filteredEntries = useMemo(() => {
-    return entries.filter(entry => {
-      const matchesMood = filterMood === 'all' || getMoodLevel(entry.mood) === filterMood;
-      const matchesSearch = searchTerm === '' || 
-        entry.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (entry.title && entry.title.toLowerCase().includes(searchTerm.toLowerCase()));
-      return matchesMood && matchesSearch;
-    });
-  }, [entries, filterMood, searchTerm]);
+  // All tags used across the loaded entries, for the tag filter
+  const availableTags = useMemo(() => {
+    const tags = new Set<string>();
+    entries.forEach(entry => (entry.tags || []).forEach(tag => tags.add(tag)));
+    return [...tags].sort();
+  }, [entries]);
 
-  // Sort entries
+  // Searches and filters run on the server so they cover the whole journal
+  const searchFilters = useMemo(() => ({
+    query: searchTerm,
+    startDate: startDate || null,
+    endDate: endDate || null,
+    moods: filterMood === 'all' ? [] : [MOOD_NAMES[filterMood - 1]],
+    tags: filterTags
+  }), [searchTerm, startDate, endDate, filterMood, filterTags]);
+
+  const {
+    results: searchResults,
+    isActive: isSearchActive,
+    isSearching,
+    error: searchError,
+    refresh: refreshSearch
+  } = useJournalSearch(searchFilters, isPremium || isTrialActive);
+
+  const filteredEntries: (JournalEntry | JournalSearchResult)[] = isSearchActive ? searchResults : entries;
+  const hasQuery = searchTerm.trim() !== '';
+
+  // Sort entries; search results already come back in relevance order
   const sortedEntries = useMemo(() => {
+    if (sortOrder === 'relevance' && hasQuery) return filteredEntries;
+
     return [...filteredEntries].sort((a, b) => {
       const dateA = new Date(a.created_at).getTime();
       const dateB = new Date(b.created_at).getTime();
-      return sortOrder === 'newest' ? dateB - dateA : dateA - dateB;
+      return sortOrder === 'oldest' ? dateA - dateB : dateB - dateA;
     });
-  }, [filteredEntries, sortOrder]);
+  }, [filteredEntries, sortOrder, hasQuery]);
 
   // Group entries by date
   const groupedEntries = useMemo(() => {
@@ -118,6 +158,7 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
 
   // Calculate mood statistics
   const moodStats = useMemo(() => {
+    // Counted on the server so the stats cover entries that aren't loaded yet
     const stats: Record<MoodLevel, { level: MoodLevel, count: number, percentage: number }> = {
       1: { level: 1, count: 0, percentage: 0 },
       2: { level: 2, count: 0, percentage: 0 },
@@ -126,14 +167,12 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
       5: { level: 5, count: 0, percentage: 0 }
     };
     
-    // Count occurrences of each mood
-    entries.forEach(entry => {
-      const moodLevel = getMoodLevel(entry.mood);
-      stats[moodLevel].count++;
+    Object.entries(moodCounts).forEach(([mood, count]) => {
+      stats[getMoodLevel(mood)].count += count;
     });
     
     // Calculate percentages
-    const totalEntries = entries.length;
+    const totalEntries = Object.values(stats).reduce((sum, stat) => sum + stat.count, 0);
     if (totalEntries > 0) {
       Object.values(stats).forEach(stat => {
         stat.percentage = (stat.count / totalEntries) * 100;
@@ -141,15 +180,13 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
     }
     
     return Object.values(stats);
-  }, [entries]);
+  }, [moodCounts]);
 
-  // Pagination
   const groupedDates = Object.keys(groupedEntries);
-  const totalPages = Math.ceil(groupedDates.length / ENTRIES_PER_PAGE);
-  const paginatedDates = groupedDates.slice(
-    (currentPage - 1) * ENTRIES_PER_PAGE,
-    currentPage * ENTRIES_PER_PAGE
-  );
+
+  const handleEntryVisible = useCallback((entryId: string) => {
+    requestSignedUrls([entryId]);
+  }, [requestSignedUrls]);
 
   // Event handlers
   const handleEditEntry = (entry: JournalEntry) => {
@@ -169,6 +206,7 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
       setEditingEntry(null);
       // Refresh data to get updated entries
       refreshData();
+      if (isSearchActive) refreshSearch();
     } catch (err) {
       console.error('Failed to update entry:', err);
     }
@@ -182,6 +220,7 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
         setExpandedEntry(null);
         // Refresh data to get updated entries
         refreshData();
+        if (isSearchActive) refreshSearch();
       } catch (err) {
         console.error('Failed to delete entry:', err);
       }
@@ -195,7 +234,23 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
   const clearFilters = () => {
     setSearchTerm('');
     setFilterMood('all');
-    setCurrentPage(1);
+    setFilterTags([]);
+    setStartDate('');
+    setEndDate('');
+    setSortOrder(current => current === 'relevance' ? 'newest' : current);
+  };
+
+  const handleSearchChange = (term: string) => {
+    setSearchTerm(term);
+    // Rank by relevance as soon as there is something to rank by
+    if (term.trim() && !hasQuery && sortOrder === 'newest') setSortOrder('relevance');
+    if (!term.trim() && sortOrder === 'relevance') setSortOrder('newest');
+  };
+
+  const handleTagClick = (tag: string) => {
+    if (!filterTags.includes(tag)) {
+      setFilterTags([...filterTags, tag]);
+    }
   };
 
   const handleExportData = () => {
@@ -274,7 +329,9 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
                   {HISTORY.TITLE}
                 </h1>
                 <p className="text-xs text-zen-sage-600 dark:text-gray-400">
-                  {filteredEntries.length} of {entries.length} entries
+                  {isSearchActive
+                    ? `${filteredEntries.length} matching entries`
+                    : `${getTotalEntries()} entries`}
                 </p>
               </div>
             </div>
@@ -300,31 +357,64 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
           onUpgrade={() => showUpsellModal('Premium Access', 'Get unlimited access to your complete journal history and all premium features.')}
         />
 
+        {journalKeyStatus === 'locked' && <PrivateJournalUnlock />}
+
         {/* Mood Statistics Overview */}
         <MoodStatsOverview moodStats={moodStats} />
 
+        {/* Advanced Analytics */}
+        <AdvancedAnalytics
+          isPremium={isPremium || isTrialActive}
+          onUpgrade={() => showUpsellModal({
+            featureName: 'Advanced Analytics',
+            featureDescription: 'See mood trends, your journaling calendar and what lifts your mood across your whole journal.'
+          })}
+        />
+
         {/* Search and Filters */}
         <HistoryFilters
           searchTerm={searchTerm}
-          onSearchChange={setSearchTerm}
+          onSearchChange={handleSearchChange}
           filterMood={filterMood}
           onFilterMoodChange={setFilterMood}
           sortOrder={sortOrder}
           onSortOrderChange={setSortOrder}
+          startDate={startDate}
+          endDate={endDate}
+          onStartDateChange={setStartDate}
+          onEndDateChange={setEndDate}
+          isSearching={isSearching}
+          availableTags={availableTags}
+          selectedTags={filterTags}
+          onSelectedTagsChange={setFilterTags}
           onClearFilters={clearFilters}
         />
 
+        {searchError && (
+          <p className="mb-6 text-sm text-red-600 dark:text-red-400" role="alert">
+            {searchError}
+          </p>
+        )}
+
         {/* Entries Timeline */}
         <div className="space-y-6">
-          {paginatedDates.length === 0 ? (
+          {isSearching && filteredEntries.length === 0 ? (
+            <div className="flex justify-center py-12" role="status" aria-label={HISTORY.FILTERS.SEARCHING}>
+              <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : groupedDates.length === 0 ? (
             <EmptyState
               searchTerm={searchTerm}
               filterMood={filterMood}
+              filterTags={filterTags}
+              hasDateRange={Boolean(startDate || endDate)}
               onClearFilters={clearFilters}
             />
           ) : (
-            paginatedDates.map((dateKey, dateIndex) => {
+            groupedDates.map((dateKey, dateIndex) => {
               const dayEntries = groupedEntries[dateKey];
+              // Keep the entrance stagger short as more pages are appended
+              const groupDelay = Math.min(dateIndex, 4) * 0.1;
               
               return (
                 <motion.div
@@ -332,7 +422,7 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
                   className="relative"
                   initial={{ opacity: 0, y: 30 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: dateIndex * 0.1 }}
+                  transition={{ delay: groupDelay }}
                 >
                   {/* Date Header */}
                   <DateGroupHeader
@@ -355,9 +445,14 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
                         onSaveEdit={handleSaveEdit}
                         onCancelEdit={() => setEditingEntry(null)}
                         index={entryIndex}
-                        delay={(dateIndex * 0.1) + (entryIndex * 0.05)}
+                        delay={groupDelay + (entryIndex * 0.05)}
                         isPremiumUser={isPremium || isTrialActive}
                         onUpsellTrigger={showUpsellModal}
+                        tagSuggestions={availableTags}
+                        onTagClick={handleTagClick}
+                        titleHighlight={hasQuery && 'title_highlight' in entry ? entry.title_highlight : undefined}
+                        snippet={hasQuery && 'snippet' in entry ? entry.snippet : undefined}
+                        onVisible={handleEntryVisible}
                       />
                     ))}
                   </div>
@@ -367,12 +462,14 @@ export default function MoodHistoryScreen({ onBack, profile }: MoodHistoryScreen
           )}
         </div>
 
-        {/* Pagination */}
-        <HistoryPagination
-          currentPage={currentPage}
-          totalPages={totalPages}
-          onPageChange={setCurrentPage}
-        />
+        {/* Older entries load as the user scrolls; search results arrive in one batch */}
+        {!isSearchActive && (
+          <LoadMoreTrigger
+            hasMore={hasMore}
+            isLoading={isLoadingMore}
+            onLoadMore={loadMoreEntries}
+          />
+        )}
       </div>
 
       {/* Entry Detail Modal */}
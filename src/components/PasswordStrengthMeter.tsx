@@ -0,0 +1,59 @@
+import React from 'react';
+import { evaluatePassword, PASSWORD_PROBLEM_MESSAGES, PasswordContext } from '../utils/passwordPolicy';
+import { AUTH } from '../constants/uiStrings';
+
+const SCORE_COLORS = ['bg-red-400', 'bg-zen-peach-400', 'bg-yellow-400', 'bg-zen-mint-400', 'bg-zen-mint-600'];
+
+/**
+ * PasswordStrengthMeter - Show how strong a new password is while it's typed
+ *
+ * Uses the same policy the server enforces, so a password the meter accepts
+ * won't be turned away later.
+ *
+ * @component
+ * @param {string} password - Password being typed
+ * @param {PasswordContext} [context] - Email and name the password shouldn't contain
+ * @param {string} [id] - Id for aria-describedby on the password field
+ *
+ * @example
+ * return (
+ *   <PasswordStrengthMeter password={password} context={{ email }} id="password-strength" />
+ * )
+ */
+interface PasswordStrengthMeterProps {
+  password: string;
+  context?: PasswordContext;
+  id?: string;
+}
+
+const PasswordStrengthMeter = React.memo(function PasswordStrengthMeter({
+  password,
+  context,
+  id
+}: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const { score, problems } = evaluatePassword(password, context);
+  const hint = problems.length > 0 ? PASSWORD_PROBLEM_MESSAGES[problems[0]] : null;
+
+  return (
+    <div id={id} className="mt-2 ml-1" aria-live="polite">
+      <div className="flex space-x-1" aria-hidden="true">
+        {SCORE_COLORS.map((color, index) => (
+          <div
+            key={color}
+            className={`h-1.5 flex-1 rounded-full transition-colors duration-300 ${
+              index <= score ? SCORE_COLORS[score] : 'bg-zen-sage-200'
+            }`}
+          />
+        ))}
+      </div>
+      <p className="text-xs mt-1 text-zen-sage-600">
+        {AUTH.STRENGTH.LABEL.replace('{strength}', AUTH.STRENGTH.LEVELS[score])}
+        {hint && <span className="text-zen-sage-500"> · {hint}</span>}
+      </p>
+    </div>
+  );
+});
+
+export default PasswordStrengthMeter;
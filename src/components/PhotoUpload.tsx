@@ -1,7 +1,8 @@
 import React, { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Camera, X, Upload, Image as ImageIcon } from 'lucide-react';
-import { ErrorCode, createAppError, getUserFriendlyErrorMessage, safeStorage } from '../types/errors';
+import { getUserFriendlyErrorMessage } from '../types/errors';
+import { MAX_SOURCE_IMAGE_BYTES, validateImageFile } from '../utils/imageProcessing';
 
 /**
  * PhotoUpload - Component for uploading and managing photos
@@ -52,26 +53,10 @@ const PhotoUpload = React.memo(function PhotoUpload({
       return;
     }
 
-    // Validate file type
-    const validImageTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    if (!validImageTypes.includes(file.type)) {
-      const typeError = createAppError(
-        ErrorCode.MEDIA_INVALID_TYPE,
-        'Please select a valid image file (JPEG, PNG, GIF, or WebP)',
-        { fileType: file.type }
-      );
-      alert(getUserFriendlyErrorMessage(typeError));
-      return;
-    }
-
-    // Validate file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      const sizeError = createAppError(
-        ErrorCode.MEDIA_TOO_LARGE,
-        'Image must be smaller than 5MB',
-        { fileSize: file.size, maxSize: 5 * 1024 * 1024 }
-      );
-      alert(getUserFriendlyErrorMessage(sizeError));
+    // Large photos are fine; they are resized before upload
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      alert(getUserFriendlyErrorMessage(validationError));
       return;
     }
 
@@ -248,7 +233,7 @@ const PhotoUpload = React.memo(function PhotoUpload({
                   {isDragging ? 'Drop your photo here' : 'Add a photo to your entry'}
                 </p>
                 <p className="text-sm text-zen-sage-500 dark:text-gray-400">
-                  Drag & drop or click to browse • Max 5MB
+                  {`Drag & drop or click to browse • Max ${MAX_SOURCE_IMAGE_BYTES / (1024 * 1024)}MB`}
                 </p>
               </div>
             </div>
@@ -3,7 +3,7 @@ import { useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ArrowLeft, Crown, AlertCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { useJournal } from '../hooks/useJournal';
+import { usePremium } from '../hooks/usePremium';
 import { PREMIUM } from '../constants/uiStrings';
 import { supabase } from '../lib/supabase';
 import Logo from './Logo';
@@ -24,7 +24,7 @@ interface PremiumPageProps {
 
 export default function PremiumPage({ onBack }: PremiumPageProps) {
   const { user } = useAuth();
-  const { profile } = useJournal();
+  const { isPremium, isPremiumPlus, subscriptionTier, subscriptionExpiresAt } = usePremium();
   const location = useLocation();
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
@@ -118,14 +118,14 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
     }
   }, [user]);
 
-  const isSubscribed = profile?.subscription_status === 'premium';
-  const isYearlySubscriber = profile?.subscription_tier === 'premium_plus';
+  const isSubscribed = isPremium;
+  const isYearlySubscriber = isPremiumPlus;
   
   // Determine if we can enable the subscribe button
   const canSubscribe = priceIDs.monthly && priceIDs.yearly;
   
-  const expiryDate = profile?.subscription_expires_at 
-    ? new Date(profile.subscription_expires_at).toLocaleDateString('en-US', {
+  const expiryDate = subscriptionExpiresAt
+    ? subscriptionExpiresAt.toLocaleDateString('en-US', {
         year: 'numeric',
         month: 'long',
         day: 'numeric',
@@ -212,7 +212,7 @@ export default function PremiumPage({ onBack }: PremiumPageProps) {
         {isSubscribed && (
           <CurrentSubscriptionCard
             isSubscribed={isSubscribed}
-            subscriptionTier={profile?.subscription_tier || 'free'}
+            subscriptionTier={subscriptionTier}
             expiryDate={expiryDate}
           />
         )}
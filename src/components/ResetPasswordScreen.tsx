@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Eye, EyeOff, AlertCircle, CheckCircle, KeyRound } from 'lucide-react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { validatePassword } from '../utils/validation';
+import { checkPasswordBreached } from '../utils/passwordPolicy';
+import { AUTH } from '../constants/uiStrings';
+import Logo from './Logo';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+
+const inputClassName = 'w-full pl-12 pr-12 py-4 bg-white/70 border-2 border-zen-mint-200 hover:border-zen-mint-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * Where a password reset link lands
+ *
+ * Supabase signs the user in from the link's recovery token before this
+ * renders; App keeps them here until they have chosen a new password. Without
+ * a session the link was invalid or has expired, so a new one is offered.
+ * Accounts with an authenticator enter its code on the sign-in screen first.
+ */
+export default function ResetPasswordScreen() {
+  const navigate = useNavigate();
+  const { user, isAuthenticated, mfaPending, updatePassword, authRedirectError, clearAuthRedirectError } = useAuth();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const passwordContext = { email: user?.email, name: user?.name };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSaving) return;
+
+    const validation = validatePassword(password, passwordContext);
+    if (!validation.isValid) {
+      setError(validation.errors[0]);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(AUTH.RESET.MISMATCH);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    if (await checkPasswordBreached(password)) {
+      setIsSaving(false);
+      setError(AUTH.STRENGTH.BREACHED);
+      return;
+    }
+
+    const result = await updatePassword(password);
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error || null);
+      return;
+    }
+
+    setIsSaved(true);
+    setTimeout(() => navigate('/home', { replace: true }), 1500);
+  };
+
+  const handleRequestNewLink = () => {
+    clearAuthRedirectError();
+    navigate('/auth?mode=forgot-password', { replace: true });
+  };
+
+  if (mfaPending) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zen-mint-50 via-zen-cream-50 to-zen-lavender-50 flex items-center justify-center p-4">
+      <motion.div
+        className="w-full max-w-md bg-white/90 backdrop-blur-sm rounded-3xl p-8 shadow-2xl border border-white/30"
+        initial={{ opacity: 0, y: 50 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="flex justify-center mb-4">
+          <Logo size="lg" />
+        </div>
+
+        {!isAuthenticated ? (
+          <div className="text-center">
+            <h1 className="text-2xl font-display font-bold text-zen-sage-800 mb-2">{AUTH.RESET.INVALID_TITLE}</h1>
+            <p className="text-zen-sage-600 mb-6">{authRedirectError || AUTH.RESET.INVALID_DESCRIPTION}</p>
+            <button
+              type="button"
+              onClick={handleRequestNewLink}
+              className="w-full py-4 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 shadow-lg transition-all duration-300"
+            >
+              {AUTH.RESET.REQUEST_NEW}
+            </button>
+          </div>
+        ) : isSaved ? (
+          <div className="text-center" role="status">
+            <CheckCircle className="w-12 h-12 mx-auto mb-4 text-zen-mint-500" aria-hidden="true" />
+            <p className="text-zen-sage-700 font-medium">{AUTH.RESET.SAVED}</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="text-center">
+              <h1 className="text-2xl font-display font-bold text-zen-sage-800 mb-2">{AUTH.RESET.TITLE}</h1>
+              <p className="text-zen-sage-600">{AUTH.RESET.DESCRIPTION}</p>
+            </div>
+
+            <div className="relative">
+              <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" aria-hidden="true" />
+              <input
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={AUTH.RESET.NEW_PASSWORD}
+                aria-label={AUTH.RESET.NEW_PASSWORD}
+                aria-describedby="new-password-strength"
+                disabled={isSaving}
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-4 top-1/2 transform -translate-y-1/2 text-zen-sage-400 hover:text-zen-sage-600 transition-colors"
+                aria-label={showPassword ? 'Hide password' : 'Show password'}
+              >
+                {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+            <PasswordStrengthMeter
+              id="new-password-strength"
+              password={password}
+              context={passwordContext}
+            />
+
+            <div className="relative">
+              <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" aria-hidden="true" />
+              <input
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder={AUTH.RESET.CONFIRM_PASSWORD}
+                aria-label={AUTH.RESET.CONFIRM_PASSWORD}
+                disabled={isSaving}
+                className={inputClassName}
+              />
+            </div>
+
+            {error && (
+              <p className="flex items-center text-sm text-red-600" role="alert">
+                <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" aria-hidden="true" />
+                {error}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSaving || !password || !confirmPassword}
+              className="w-full py-4 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-semibold rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg transition-all duration-300 flex items-center justify-center space-x-2"
+            >
+              <KeyRound className="w-5 h-5" aria-hidden="true" />
+              <span>{isSaving ? 'Please wait...' : AUTH.RESET.SUBMIT}</span>
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
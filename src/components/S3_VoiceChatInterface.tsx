@@ -3,9 +3,7 @@ import { motion } from 'framer-motion';
 import { Mic, Loader2, Volume2, AlertTriangle } from 'lucide-react';
 // import ZenoAvatar from './ZenoAvatar'; // Placeholder for avatar component
 // import ChatLog from './ChatLog'; // Placeholder for chat log component
-import { transcribeAudioWithElevenLabs } from '../lib/elevenlabs';
-import { getGeminiResponse } from '../lib/gemini';
-import { synthesizeSpeechWithElevenLabs } from '../lib/elevenlabs';
+import { streamZenoReply, synthesizeZenoSpeech, transcribeZenoAudio } from '../lib/zenoVoice';
 
 // State types
 export type S3State = 'idle' | 'listening' | 'thinking' | 'speaking' | 'error';
@@ -94,20 +92,23 @@ const S3_VoiceChatInterface: React.FC<S3Props> = ({ sessionId, onSessionEnd, ses
         mediaRecorder.onstop = async () => {
           const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
           try {
-            const sttResult = await transcribeAudioWithElevenLabs(audioBlob);
+            const sttResult = await transcribeZenoAudio(sessionId, audioBlob);
             if (!sttResult) {
               setError("Didn't catch that, try again.");
               setState('idle');
               return;
             }
-            setConversation(prev => [...prev, { role: 'user', text: sttResult }]);
-            // Call Gemini API for AI response
-            const aiResponse = await getGeminiResponse([...conversation, { role: 'user', text: sttResult }]);
-            setConversation(prev => [...prev, { role: 'zeno', text: aiResponse }]);
+            const history: ChatTurn[] = [...conversation, { role: 'user', text: sttResult }];
+            setConversation([...history, { role: 'zeno', text: '' }]);
+            // Stream Zeno's reply into the last chat bubble as it arrives
+            const aiResponse = await streamZenoReply(sessionId, history, (textSoFar) => {
+              setConversation([...history, { role: 'zeno', text: textSoFar }]);
+            });
+            setConversation([...history, { role: 'zeno', text: aiResponse }]);
             setState('speaking');
             // ElevenLabs TTS integration
             try {
-              const ttsAudioBlob = await synthesizeSpeechWithElevenLabs(aiResponse);
+              const ttsAudioBlob = await synthesizeZenoSpeech(aiResponse);
               const audioUrl = URL.createObjectURL(ttsAudioBlob);
               setIsAudioPlaying(true);
               if (audioRef.current) {
@@ -144,7 +145,7 @@ const S3_VoiceChatInterface: React.FC<S3Props> = ({ sessionId, onSessionEnd, ses
         mediaRecorder.stop();
       }
     }
-  }, [state, conversation]);
+  }, [state, conversation, sessionId]);
 
   const handleRetry = () => {
     setError(null);
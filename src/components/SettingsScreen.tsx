@@ -5,19 +5,29 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { supabase } from '../lib/supabase';
 import { usePremium } from '../hooks/usePremium';
-import { safeStorage } from '../types/errors';
+import { useJournalExport, JournalExportOptions } from '../hooks/useJournalExport';
+import { useStripe } from '../hooks/useStripe';
+import { useReminderSettings, ReminderSettings } from '../hooks/useReminderSettings';
+import { streakFreezeProduct } from '../stripe-config';
+import { SETTINGS } from '../constants/uiStrings';
+import { detectTimezone } from '../utils/timezone';
 import UpsellModal from './UpsellModal';
 import Logo from './Logo';
 import { useNavigate } from 'react-router-dom';
 
 // Import memoized components
 import ProfileOverviewCard from './settings/ProfileOverviewCard';
-import ProfileSettingsForm from './settings/ProfileSettingsForm';
+import ProfileSettingsForm, { ProfileChanges } from './settings/ProfileSettingsForm';
 import AppPreferencesSection from './settings/AppPreferencesSection';
 import SubscriptionSection from './settings/SubscriptionSection';
 import DataPrivacySection from './settings/DataPrivacySection';
+import PrivateJournalSection from './settings/PrivateJournalSection';
+import AppLockSection from './settings/AppLockSection';
+import LinkedAccountsSection from './settings/LinkedAccountsSection';
+import TwoFactorSection from './settings/TwoFactorSection';
 import AccountActionsSection from './settings/AccountActionsSection';
 import { LogoutConfirmModal, DeleteAccountModal } from './settings/ConfirmationModals';
+import JournalImportModal from './settings/JournalImportModal';
 
 // Import notification components
 import { motion as framerMotion, AnimatePresence } from 'framer-motion';
@@ -32,7 +42,9 @@ interface UserProfile {
   name: string;
   current_streak: number;
   best_streak: number;
+  streak_period: 'day' | 'week';
   last_entry_date: string | null;
+  timezone: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -40,12 +52,32 @@ interface UserProfile {
 export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
-  const { isPremium, isUpsellModalOpen, upsellContent, showUpsellModal, hideUpsellModal, isTrialActive } = usePremium();
+  const {
+    isPremium,
+    subscriptionTier,
+    subscriptionExpiresAt,
+    isTrialActive,
+    trialEndsAt,
+    isUpsellModalOpen,
+    upsellContent,
+    showUpsellModal,
+    hideUpsellModal
+  } = usePremium();
   const { isDarkMode, setDarkMode } = useTheme();
+  const { isExporting, exportJournal } = useJournalExport();
+  const { createCheckoutSession, isLoading: isStripeLoading } = useStripe();
+  const {
+    settings: reminderSettings,
+    isSaving: isSavingReminders,
+    error: reminderError,
+    permission: notificationPermission,
+    saveSettings: saveReminderSettings,
+    setRemindersEnabled
+  } = useReminderSettings();
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [streakFreezes, setStreakFreezes] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   
@@ -54,31 +86,35 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const [originalName, setOriginalName] = useState('');
   const [journalingGoal, setJournalingGoal] = useState(3);
   const [originalGoal, setOriginalGoal] = useState(3);
-  
-  // Preferences state
-  const [notifications, setNotifications] = useState(true);
+  const [timezone, setTimezone] = useState(detectTimezone());
+  const [originalTimezone, setOriginalTimezone] = useState(detectTimezone());
   
   // Modal states
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
+  const [showImportModal, setShowImportModal] = useState(false);
 
   // Load user profile and preferences
   useEffect(() => {
     if (user) {
       loadUserProfile();
-      loadUserPreferences();
     }
   }, [user]);
 
+  useEffect(() => {
+    if (reminderError) setError(reminderError);
+  }, [reminderError]);
+
   const loadUserProfile = async () => {
-    if (!user) return;
+    const client = supabase;
+    if (!user || !client) return;
 
     try {
       setIsLoading(true);
       setError('');
 
-      const { data: profileData, error: profileError } = await supabase
+      const { data: profileData, error: profileError } = await client
         .from('profiles')
         .select('*')
         .eq('user_id', user.id)
@@ -91,10 +127,20 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
       }
 
       setProfile(profileData);
+
+      const { count: freezeCount } = await client
+        .from('streak_freezes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('used_on', null);
+      setStreakFreezes(freezeCount ?? 0);
+
       setDisplayName(profileData.name || user.name || '');
       setOriginalName(profileData.name || user.name || '');
       setJournalingGoal(profileData.journaling_goal_frequency || 3);
       setOriginalGoal(profileData.journaling_goal_frequency || 3);
+      setTimezone(profileData.timezone || detectTimezone());
+      setOriginalTimezone(profileData.timezone || '');
     } catch (err) {
       console.error('Error loading profile:', err);
       setError('An unexpected error occurred');
@@ -103,22 +149,10 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
-  const loadUserPreferences = () => {
-    // Load preferences from localStorage
-    try {
-      const savedNotifications = safeStorage.getItem('zensai-notifications', 'true');
-      setNotifications(savedNotifications !== 'false'); // Default to true
-    } catch (err) {
-      console.error('Error loading preferences:', err);
-      // Default to enabled if localStorage fails
-      setNotifications(true);
-    }
-  };
-
-  const handleSaveProfile = useCallback(async () => {
+  const handleSaveProfile = useCallback(async (changes: ProfileChanges) => {
     if (!user || !profile) return;
 
-    if (displayName.trim() === originalName && journalingGoal === originalGoal) {
+    if (changes.name === originalName && changes.goal === originalGoal && changes.timezone === originalTimezone) {
       setSuccess('No changes to save');
       setTimeout(() => setSuccess(''), 3000);
       return;
@@ -133,18 +167,26 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         updated_at: new Date().toISOString()
       };
 
-      if (displayName.trim() !== originalName) {
-        updateData.name = displayName.trim();
+      if (changes.name !== originalName) {
+        updateData.name = changes.name;
       }
 
-      if (journalingGoal !== originalGoal) {
-        updateData.journaling_goal_frequency = journalingGoal;
+      if (changes.goal !== originalGoal) {
+        updateData.journaling_goal_frequency = changes.goal;
       }
 
-      const { error: updateError } = await supabase
+      // Changing the timezone recalculates streaks and badges in the database
+      if (changes.timezone !== originalTimezone) {
+        updateData.timezone = changes.timezone;
+      }
+
+      // A new goal or timezone recalculates streaks, so keep the updated row
+      const { data: updatedProfile, error: updateError } = await supabase
         .from('profiles')
         .update(updateData)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select()
+        .single();
 
       if (updateError) {
         console.error('Error updating profile:', updateError);
@@ -152,13 +194,13 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         return;
       }
 
-      setOriginalName(displayName.trim());
-      setOriginalGoal(journalingGoal);
-      setProfile(prev => prev ? { 
-        ...prev, 
-        name: displayName.trim(),
-        journaling_goal_frequency: journalingGoal
-      } : null);
+      setDisplayName(changes.name);
+      setOriginalName(changes.name);
+      setJournalingGoal(changes.goal);
+      setOriginalGoal(changes.goal);
+      setTimezone(changes.timezone);
+      setOriginalTimezone(changes.timezone);
+      setProfile(updatedProfile);
       setSuccess('Profile updated successfully!');
       setTimeout(() => setSuccess(''), 3000);
     } catch (err) {
@@ -167,7 +209,18 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     } finally {
       setIsSaving(false);
     }
-  }, [user, profile, displayName, originalName, journalingGoal, originalGoal]);
+  }, [user, profile, originalName, originalGoal, originalTimezone]);
+
+  const handleBuyStreakFreeze = useCallback(async () => {
+    if (!streakFreezeProduct) return;
+
+    const checkoutUrl = await createCheckoutSession(streakFreezeProduct.priceId, streakFreezeProduct.mode);
+    if (checkoutUrl) {
+      window.location.href = checkoutUrl;
+    } else {
+      setError('Failed to start checkout. Please try again.');
+    }
+  }, [createCheckoutSession]);
 
   const handleToggleDarkMode = useCallback((enabled: boolean) => {
     setDarkMode(enabled);
@@ -175,61 +228,63 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     setTimeout(() => setSuccess(''), 2000);
   }, [setDarkMode]);
 
-  const handleToggleNotifications = useCallback((enabled: boolean) => {
-    setNotifications(enabled);
-    try {
-      safeStorage.setItem('zensai-notifications', enabled.toString());
-    } catch (err) {
-      console.error('Error saving notification preference:', err);
-    }
-    setSuccess(enabled ? 'Notifications enabled' : 'Notifications disabled');
-    setTimeout(() => setSuccess(''), 2000);
-  }, []);
+  const handleToggleNotifications = useCallback(async (enabled: boolean) => {
+    setError('');
+    if (!(await setRemindersEnabled(enabled))) return;
 
-  const handleExportData = useCallback(async () => {
-    if (!user) return;
+    setSuccess(enabled ? SETTINGS.PREFERENCES.NOTIFICATIONS.ENABLED : SETTINGS.PREFERENCES.NOTIFICATIONS.DISABLED);
+    setTimeout(() => setSuccess(''), 2000);
+  }, [setRemindersEnabled]);
 
-    try {
-      setIsExporting(true);
-      setError('');
+  const handleSaveReminderSettings = useCallback(async (changes: Partial<ReminderSettings>) => {
+    setError('');
+    const saved = await saveReminderSettings(changes);
 
-      const { data, error: functionError } = await supabase.functions.invoke('export-journal-data', {
-        body: { user_id: user.id }
-      });
+    if (saved) {
+      setSuccess(SETTINGS.PREFERENCES.NOTIFICATIONS.SAVED);
+      setTimeout(() => setSuccess(''), 3000);
+    }
+    return saved;
+  }, [saveReminderSettings]);
 
-      if (functionError) {
-        console.error('Export function error:', functionError);
-        setError('Failed to export data. Please try again.');
-        return;
-      }
+  const handleExportData = useCallback(async (options: JournalExportOptions) => {
+    setError('');
 
-      if (!data.success) {
-        setError(data.error || 'Failed to export data');
-        return;
-      }
+    const result = await exportJournal(options);
 
-      // Create and download the file
-      const blob = new Blob([JSON.stringify(data.data, null, 2)], { 
-        type: 'application/json' 
-      });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `zensai-journal-export-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      setSuccess('Journal data exported successfully!');
-      setTimeout(() => setSuccess(''), 3000);
-    } catch (err) {
-      console.error('Error exporting data:', err);
-      setError('An unexpected error occurred during export.');
-    } finally {
-      setIsExporting(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to export data');
+      return;
     }
-  }, [user]);
+
+    setSuccess(SETTINGS.DATA_PRIVACY.EXPORT_SUCCESS.replace('{count}', String(result.entryCount)));
+    setTimeout(() => setSuccess(''), 3000);
+  }, [exportJournal]);
+
+  const handlePrivateJournalSuccess = useCallback((message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  }, []);
+
+  const handleAppLockSuccess = useCallback((message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  }, []);
+
+  const handleLinkedAccountsSuccess = useCallback((message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  }, []);
+
+  const handleTwoFactorSuccess = useCallback((message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  }, []);
+
+  const handleImported = useCallback((count: number) => {
+    setSuccess(SETTINGS.DATA_PRIVACY.IMPORT.SUCCESS.replace('{count}', String(count)));
+    setTimeout(() => setSuccess(''), 3000);
+  }, []);
 
   const handleLogout = useCallback(async () => {
     try {
@@ -425,7 +480,11 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               joinedDate={formatJoinDate(user?.joinedDate?.toISOString() || profile?.created_at || '')}
               currentStreak={profile?.current_streak}
               bestStreak={profile?.best_streak}
+              streakPeriod={profile?.streak_period}
+              streakFreezes={streakFreezes}
               totalBadgesEarned={profile?.total_badges_earned}
+              onBuyStreakFreeze={streakFreezeProduct ? handleBuyStreakFreeze : undefined}
+              isBuyingStreakFreeze={isStripeLoading}
             />
           </motion.div>
 
@@ -442,6 +501,8 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               originalName={originalName}
               journalingGoal={journalingGoal}
               originalGoal={originalGoal}
+              timezone={timezone}
+              originalTimezone={originalTimezone}
               userEmail={user?.email || ''}
               isSaving={isSaving}
               onSave={handleSaveProfile}
@@ -450,26 +511,43 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
             {/* App Preferences */}
             <AppPreferencesSection
               isDarkMode={isDarkMode}
-              notifications={notifications}
+              notifications={reminderSettings?.reminder_enabled ?? false}
+              notificationPermission={notificationPermission}
+              reminderSettings={reminderSettings}
+              isSavingReminders={isSavingReminders}
               onToggleDarkMode={handleToggleDarkMode}
               onToggleNotifications={handleToggleNotifications}
+              onSaveReminderSettings={handleSaveReminderSettings}
             />
 
             {/* Subscription Section */}
             <SubscriptionSection
-              subscriptionStatus={profile?.subscription_status || 'free'}
-              subscriptionTier={profile?.subscription_tier || 'free'}
-              subscriptionExpiresAt={profile?.subscription_expires_at} 
+              subscriptionStatus={isPremium ? 'premium' : 'free'}
+              subscriptionTier={subscriptionTier}
+              subscriptionExpiresAt={subscriptionExpiresAt?.toISOString() ?? null}
               isTrialActive={isTrialActive}
-              profileCreatedAt={profile?.created_at}
+              trialEndsAt={trialEndsAt}
             />
 
             {/* Data & Privacy Section */}
             <DataPrivacySection
               isExporting={isExporting}
               onExportData={handleExportData}
+              onOpenImport={() => setShowImportModal(true)}
             />
 
+            {/* Private Journal */}
+            <PrivateJournalSection onSuccess={handlePrivateJournalSuccess} />
+
+            {/* App Lock */}
+            <AppLockSection onSuccess={handleAppLockSuccess} />
+
+            {/* Sign-in Methods */}
+            <LinkedAccountsSection onSuccess={handleLinkedAccountsSuccess} />
+
+            {/* Two-Step Verification */}
+            <TwoFactorSection onSuccess={handleTwoFactorSuccess} />
+
             {/* Account Actions */}
             <AccountActionsSection
               onShowLogoutConfirm={() => setShowLogoutConfirm(true)}
@@ -499,6 +577,13 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         isConfirmDisabled={deleteConfirmText !== 'DELETE'}
       />
 
+      {/* Journal Import Modal */}
+      <JournalImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={handleImported}
+      />
+
       {/* Upsell Modal */}
       <UpsellModal
         isOpen={isUpsellModalOpen}
@@ -1,13 +1,169 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Sparkles, Crown } from 'lucide-react';
+import { Sparkles, Crown, Camera, Heart } from 'lucide-react';
 import { HISTORY } from '../../constants/uiStrings';
+import { moods } from '../../data/moods';
+import { useJournalAnalytics } from '../../hooks/useJournalAnalytics';
+import {
+  ANALYTICS_RANGES,
+  AnalyticsRange,
+  JournalAnalytics,
+  MoodBucket,
+  getMoodDifference
+} from '../../utils/analyticsUtils';
+import MoodTrendChart from './analytics/MoodTrendChart';
+import MoodBarChart from './analytics/MoodBarChart';
+import JournalHeatmap from './analytics/JournalHeatmap';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => String(hour));
+
+function formatMood(average: number | null): string {
+  if (average === null) return '–';
+  const mood = moods[Math.min(Math.max(Math.round(average), 1), 5) - 1];
+  return `${mood.emoji} ${average.toFixed(1)}`;
+}
+
+/**
+ * CorrelationCard - Compares average mood with and without a feature, e.g. a photo
+ */
+function CorrelationCard({
+  icon,
+  withLabel,
+  withoutLabel,
+  withFeature,
+  withoutFeature
+}: {
+  icon: React.ReactNode;
+  withLabel: string;
+  withoutLabel: string;
+  withFeature: MoodBucket;
+  withoutFeature: MoodBucket;
+}) {
+  const difference = getMoodDifference(withFeature, withoutFeature);
+
+  return (
+    <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl border border-zen-sage-100 dark:border-gray-600">
+      <div className="flex items-center space-x-2 mb-3">
+        {icon}
+        <span className="text-sm font-medium text-zen-sage-800 dark:text-gray-200">
+          {difference === null
+            ? HISTORY.ANALYTICS.NOT_ENOUGH_DATA
+            : (difference >= 0 ? HISTORY.ANALYTICS.DIFFERENCE_UP : HISTORY.ANALYTICS.DIFFERENCE_DOWN)
+              .replace('{value}', Math.abs(difference).toFixed(1))}
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 gap-2 text-xs text-zen-sage-600 dark:text-gray-400">
+        <div>
+          <dt>{withLabel}</dt>
+          <dd className="text-base text-zen-sage-800 dark:text-gray-200">{formatMood(withFeature.average_mood)}</dd>
+        </div>
+        <div>
+          <dt>{withoutLabel}</dt>
+          <dd className="text-base text-zen-sage-800 dark:text-gray-200">{formatMood(withoutFeature.average_mood)}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
 
 /**
- * AdvancedAnalytics - Component that displays advanced analytics features or upsell for premium
+ * AnalyticsDashboard - Charts for one range of analytics data
+ */
+function AnalyticsDashboard({ analytics }: { analytics: JournalAnalytics }) {
+  const { summary, correlations } = analytics;
+  const maxWords = Math.max(...analytics.trend.map(point => point.words), 1);
+
+  const summaryItems = [
+    { label: HISTORY.ANALYTICS.SUMMARY.ENTRIES, value: String(summary.entries) },
+    { label: HISTORY.ANALYTICS.SUMMARY.AVERAGE_MOOD, value: formatMood(summary.average_mood) },
+    { label: HISTORY.ANALYTICS.SUMMARY.ACTIVE_DAYS, value: String(summary.active_days) },
+    { label: HISTORY.ANALYTICS.SUMMARY.WORDS, value: summary.total_words.toLocaleString() }
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summaryItems.map(item => (
+          <div key={item.label} className="text-center p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl border border-zen-sage-100 dark:border-gray-600">
+            <div className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">{item.value}</div>
+            <div className="text-xs text-zen-sage-600 dark:text-gray-400">{item.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <MoodTrendChart
+        trend={analytics.trend}
+        rangeDays={analytics.range_days}
+        isWeekly={analytics.bucket === 'week'}
+      />
+
+      <div className="grid md:grid-cols-2 gap-8">
+        <MoodBarChart
+          title={HISTORY.ANALYTICS.BY_WEEKDAY}
+          labels={HISTORY.ANALYTICS.WEEKDAYS}
+          buckets={HISTORY.ANALYTICS.WEEKDAYS.map((_, weekday) => analytics.by_weekday.find(b => b.weekday === weekday))}
+        />
+        <MoodBarChart
+          title={HISTORY.ANALYTICS.BY_HOUR}
+          labels={HOURS}
+          buckets={HOURS.map((_, hour) => analytics.by_hour.find(b => b.hour === hour))}
+          labelEvery={6}
+        />
+      </div>
+
+      <JournalHeatmap days={analytics.heatmap} />
+
+      {/* Writing volume */}
+      <div>
+        <div className="flex items-baseline justify-between mb-2">
+          <h3 className="text-sm font-semibold text-zen-sage-700 dark:text-gray-300">{HISTORY.ANALYTICS.WORDS}</h3>
+          <span className="text-xs text-zen-sage-500 dark:text-gray-400">
+            {HISTORY.ANALYTICS.SUMMARY.AVERAGE_WORDS.replace('{count}', String(summary.average_words))}
+          </span>
+        </div>
+        <div className="flex items-end h-16 gap-px">
+          {analytics.trend.map(point => (
+            <div
+              key={point.date}
+              className="flex-1 bg-zen-lavender-300 dark:bg-zen-lavender-500 rounded-t-sm"
+              style={{ height: `${(point.words / maxWords) * 100}%` }}
+              title={`${point.date}: ${point.words}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-zen-sage-700 dark:text-gray-300 mb-2">{HISTORY.ANALYTICS.CORRELATIONS}</h3>
+        <div className="grid md:grid-cols-2 gap-4">
+          <CorrelationCard
+            icon={<Camera className="w-4 h-4 text-zen-mint-500" aria-hidden="true" />}
+            withLabel={HISTORY.ANALYTICS.WITH_PHOTO}
+            withoutLabel={HISTORY.ANALYTICS.WITHOUT_PHOTO}
+            withFeature={correlations.with_photo}
+            withoutFeature={correlations.without_photo}
+          />
+          <CorrelationCard
+            icon={<Heart className="w-4 h-4 text-zen-peach-500" aria-hidden="true" />}
+            withLabel={HISTORY.ANALYTICS.WITH_AFFIRMATION}
+            withoutLabel={HISTORY.ANALYTICS.WITHOUT_AFFIRMATION}
+            withFeature={correlations.with_affirmation}
+            withoutFeature={correlations.without_affirmation}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * AdvancedAnalytics - Component that displays the analytics dashboard, or an upsell for free users
+ *
+ * Data comes from the get_journal_analytics RPC, so it covers the whole journal
+ * rather than only the entries loaded on the history page.
  * 
  * @component
- * @param {boolean} isPremium - Whether the user has premium subscription
+ * @param {boolean} isPremium - Whether the user has premium subscription or an active trial
  * @param {function} onUpgrade - Function to call when user clicks upgrade button
  * 
  * @example
@@ -27,6 +183,9 @@ const AdvancedAnalytics = React.memo(function AdvancedAnalytics({
   isPremium,
   onUpgrade
 }: AdvancedAnalyticsProps) {
+  const [range, setRange] = useState<AnalyticsRange>(30);
+  const { analytics, isLoading, error, reload } = useJournalAnalytics(range, isPremium);
+
   return (
     <motion.div
       className="mb-8"
@@ -46,15 +205,50 @@ const AdvancedAnalytics = React.memo(function AdvancedAnalytics({
         </h2>
         
         {isPremium ? (
-          <div className="text-center py-8">
-            <Sparkles className="w-12 h-12 text-zen-mint-400 mx-auto mb-4 opacity-70" aria-hidden="true" /> 
-            <h3 className="text-xl font-display font-semibold text-zen-sage-800 dark:text-gray-200 mb-2">
-              {HISTORY.ANALYTICS.COMING_SOON}
-            </h3>
-            <p className="text-zen-sage-600 dark:text-gray-400 max-w-md mx-auto">
-              {HISTORY.ANALYTICS.COMING_SOON_DESC}
-            </p>
-          </div>
+          <>
+            <div className="flex flex-wrap gap-2 mb-6" role="group" aria-label="Date range">
+              {ANALYTICS_RANGES.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setRange(option)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-all duration-300 ${
+                    range === option
+                      ? 'bg-zen-mint-400 text-white shadow-md'
+                      : 'bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-600'
+                  }`}
+                  aria-pressed={range === option}
+                >
+                  {HISTORY.ANALYTICS.RANGES[option]}
+                </button>
+              ))}
+            </div>
+
+            {error ? (
+              <div className="text-center py-8">
+                <p className="text-zen-sage-600 dark:text-gray-400 mb-4">{error}</p>
+                <button
+                  onClick={reload}
+                  className="px-4 py-2 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                  {HISTORY.ANALYTICS.RETRY}
+                </button>
+              </div>
+            ) : !analytics || (isLoading && analytics.range_days !== range) ? (
+              <div className="flex justify-center py-12" aria-live="polite">
+                <div className="w-8 h-8 border-2 border-zen-mint-400 border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+              </div>
+            ) : analytics.summary.entries === 0 && analytics.heatmap.length === 0 ? (
+              <div className="text-center py-8">
+                <Sparkles className="w-12 h-12 text-zen-mint-400 mx-auto mb-4 opacity-70" aria-hidden="true" />
+                <p className="text-zen-sage-600 dark:text-gray-400 max-w-md mx-auto">
+                  {HISTORY.ANALYTICS.NO_DATA}
+                </p>
+              </div>
+            ) : (
+              <AnalyticsDashboard analytics={analytics} />
+            )}
+          </>
         ) : (
           <div className="bg-gradient-to-r from-zen-mint-50 to-zen-lavender-50 dark:from-gray-700 dark:to-gray-600 rounded-2xl p-6">
             <div className="flex items-start space-x-4">
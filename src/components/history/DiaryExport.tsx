@@ -1,60 +1,6 @@
 import React, { useState } from 'react';
 import HTMLFlipBook from 'react-pageflip';
-
-// Example themes
-const THEMES = [
-  {
-    name: 'Classic',
-    background: '#fffbe6',
-    color: '#333',
-    fontFamily: 'serif',
-    border: '1px solid #e0c97f',
-    shadow: '0 4px 24px 0 rgba(224,201,127,0.12)',
-  },
-  {
-    name: 'Night',
-    background: '#232946',
-    color: '#eebbc3',
-    fontFamily: 'monospace',
-    border: '1px solid #232946',
-    shadow: '0 4px 24px 0 rgba(35,41,70,0.18)',
-  },
-  {
-    name: 'Mint',
-    background: '#e0f7fa',
-    color: '#00695c',
-    fontFamily: 'sans-serif',
-    border: '1px solid #b2ebf2',
-    shadow: '0 4px 24px 0 rgba(0,105,92,0.10)',
-  },
-  {
-    name: 'Lavender Dream',
-    background: 'linear-gradient(135deg, #e0c3fc 0%, #8ec5fc 100%)',
-    color: '#4b2067',
-    fontFamily: 'cursive',
-    border: '1px solid #b39ddb',
-    shadow: '0 4px 24px 0 rgba(179,157,219,0.15)',
-    decorative: '🌸',
-  },
-  {
-    name: 'Sunset',
-    background: 'linear-gradient(135deg, #ffecd2 0%, #fcb69f 100%)',
-    color: '#b3541e',
-    fontFamily: 'Georgia, serif',
-    border: '1px solid #fcb69f',
-    shadow: '0 4px 24px 0 rgba(252,182,159,0.13)',
-    decorative: '🌅',
-  },
-  {
-    name: 'Minimalist',
-    background: '#f7f7f7',
-    color: '#222',
-    fontFamily: 'Inter, Arial, sans-serif',
-    border: '1px solid #e0e0e0',
-    shadow: '0 2px 12px 0 rgba(0,0,0,0.06)',
-    decorative: '📝',
-  },
-];
+import { THEMES } from '../../data/diaryThemes';
 
 interface DiaryExportProps {
   entries: Array<{
@@ -9,6 +9,8 @@ import { HISTORY } from '../../constants/uiStrings';
  * @component
  * @param {string} searchTerm - Current search term
  * @param {string} filterMood - Current mood filter
+ * @param {string[]} [filterTags] - Current tag filter
+ * @param {boolean} [hasDateRange] - Whether a date range filter is set
  * @param {function} onClearFilters - Function to clear all filters
  * 
  * @example
@@ -23,15 +25,19 @@ import { HISTORY } from '../../constants/uiStrings';
 interface EmptyStateProps {
   searchTerm: string;
   filterMood: string;
+  filterTags?: string[];
+  hasDateRange?: boolean;
   onClearFilters: () => void;
 }
 
 const EmptyState = React.memo(function EmptyState({
   searchTerm,
   filterMood,
+  filterTags = [],
+  hasDateRange = false,
   onClearFilters
 }: EmptyStateProps) {
-  const hasFilters = searchTerm || filterMood !== 'all';
+  const hasFilters = searchTerm || filterMood !== 'all' || filterTags.length > 0 || hasDateRange;
 
   return (
     <motion.div
@@ -0,0 +1,416 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence, Reorder, useDragControls } from 'framer-motion';
+import { ChevronLeft, ChevronRight, ChevronUp, ChevronDown, GripVertical, ImagePlus, Loader2, Trash2, X } from 'lucide-react';
+import { EntryAttachment } from '../../types';
+import { ACCEPTED_IMAGE_TYPES } from '../../utils/imageProcessing';
+import { MAX_ATTACHMENTS_PER_ENTRY } from '../../hooks/useEntryAttachments';
+import { HISTORY } from '../../constants/uiStrings';
+
+const STRINGS = HISTORY.GALLERY;
+
+/**
+ * EntryGallery - Photos attached to a journal entry
+ *
+ * Shows a grid with captions that opens into a full-size viewer. While editing,
+ * photos can be added, captioned, removed and dragged into a new order; the
+ * move buttons do the same from the keyboard.
+ *
+ * @component
+ * @param {string} entryId - Entry the photos belong to, used for element ids
+ * @param {EntryAttachment[]} attachments - Photos in gallery order
+ * @param {boolean} [isEditing=false] - Whether to show the editing controls
+ * @param {boolean} [isUploading=false] - Whether photos are being added
+ * @param {string|null} [error] - Last error from changing the gallery
+ * @param {function} [onAddPhotos] - Called with the photos picked by the user
+ * @param {function} [onCaptionChange] - Called when a caption loses focus
+ * @param {function} [onReorder] - Called with every photo id in the new order
+ * @param {function} [onRemove] - Called with the id of a photo to remove
+ * @param {boolean} [isPremiumUser=true] - Whether the user can add photos
+ * @param {function} [onUpsellTrigger] - Called when a free user tries to add photos
+ *
+ * @example
+ * return (
+ *   <EntryGallery
+ *     entryId={entry.id}
+ *     attachments={attachments}
+ *     isEditing
+ *     onAddPhotos={addPhotos}
+ *     onCaptionChange={updateCaption}
+ *     onReorder={reorder}
+ *     onRemove={removeAttachment}
+ *   />
+ * )
+ */
+interface EntryGalleryProps {
+  entryId: string;
+  attachments: EntryAttachment[];
+  isEditing?: boolean;
+  isUploading?: boolean;
+  error?: string | null;
+  onAddPhotos?: (files: File[]) => void;
+  onCaptionChange?: (attachmentId: string, caption: string) => void;
+  onReorder?: (attachmentIds: string[]) => void;
+  onRemove?: (attachmentId: string) => void;
+  isPremiumUser?: boolean;
+  onUpsellTrigger?: (featureName: string, featureDescription: string) => void;
+}
+
+interface EditableItemProps {
+  entryId: string;
+  attachment: EntryAttachment;
+  index: number;
+  count: number;
+  onMove: (from: number, to: number) => void;
+  onDragEnd: () => void;
+  onCaptionChange?: (attachmentId: string, caption: string) => void;
+  onRemove?: (attachmentId: string) => void;
+}
+
+function EditableItem({
+  entryId,
+  attachment,
+  index,
+  count,
+  onMove,
+  onDragEnd,
+  onCaptionChange,
+  onRemove
+}: EditableItemProps) {
+  const dragControls = useDragControls();
+  const number = String(index + 1);
+  const captionId = `gallery-caption-${entryId}-${attachment.id}`;
+
+  return (
+    <Reorder.Item
+      value={attachment.id}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragEnd={onDragEnd}
+      className="flex items-center gap-3 p-2 bg-white/70 dark:bg-gray-700 rounded-xl border border-zen-sage-200 dark:border-gray-600"
+    >
+      <button
+        type="button"
+        onPointerDown={(e) => dragControls.start(e)}
+        className="p-1 text-zen-sage-400 dark:text-gray-500 cursor-grab active:cursor-grabbing touch-none"
+        aria-label={STRINGS.DRAG_HANDLE.replace('{number}', number)}
+        tabIndex={-1}
+      >
+        <GripVertical className="w-4 h-4" aria-hidden="true" />
+      </button>
+
+      {attachment.signedUrl ? (
+        <img
+          src={attachment.signedUrl}
+          alt={STRINGS.PHOTO_ALT.replace('{number}', number).replace('{count}', String(count))}
+          className="w-14 h-14 rounded-lg object-cover flex-shrink-0"
+          draggable={false}
+        />
+      ) : (
+        <div className="w-14 h-14 rounded-lg bg-zen-sage-100 dark:bg-gray-600 flex-shrink-0" aria-hidden="true" />
+      )}
+
+      <label htmlFor={captionId} className="sr-only">
+        {STRINGS.CAPTION_LABEL.replace('{number}', number)}
+      </label>
+      <input
+        // Start over from the saved caption if saving it failed
+        key={attachment.caption ?? ''}
+        id={captionId}
+        type="text"
+        defaultValue={attachment.caption ?? ''}
+        maxLength={500}
+        onBlur={(e) => onCaptionChange?.(attachment.id, e.target.value)}
+        placeholder={STRINGS.CAPTION_PLACEHOLDER}
+        className="flex-1 min-w-0 px-3 py-2 border border-zen-sage-200 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-800 text-sm text-zen-sage-800 dark:text-gray-200"
+      />
+
+      <div className="flex flex-col">
+        <button
+          type="button"
+          onClick={() => onMove(index, index - 1)}
+          disabled={index === 0}
+          className="p-0.5 text-zen-sage-500 hover:text-zen-sage-700 disabled:opacity-30 rounded"
+          aria-label={STRINGS.MOVE_UP.replace('{number}', number)}
+        >
+          <ChevronUp className="w-4 h-4" aria-hidden="true" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(index, index + 1)}
+          disabled={index === count - 1}
+          className="p-0.5 text-zen-sage-500 hover:text-zen-sage-700 disabled:opacity-30 rounded"
+          aria-label={STRINGS.MOVE_DOWN.replace('{number}', number)}
+        >
+          <ChevronDown className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onRemove?.(attachment.id)}
+        className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+        aria-label={STRINGS.REMOVE.replace('{number}', number)}
+      >
+        <Trash2 className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </Reorder.Item>
+  );
+}
+
+const EntryGallery = React.memo(function EntryGallery({
+  entryId,
+  attachments,
+  isEditing = false,
+  isUploading = false,
+  error,
+  onAddPhotos,
+  onCaptionChange,
+  onReorder,
+  onRemove,
+  isPremiumUser = true,
+  onUpsellTrigger = () => {}
+}: EntryGalleryProps) {
+  const [order, setOrder] = useState<string[]>(attachments.map(attachment => attachment.id));
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const count = attachments.length;
+
+  // Dragging only changes the local order; it is saved when the drag ends
+  useEffect(() => {
+    setOrder(attachments.map(attachment => attachment.id));
+  }, [attachments]);
+
+  // Arrow keys page through the viewer and Escape closes it
+  useEffect(() => {
+    if (openIndex === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setOpenIndex(null);
+      } else if (e.key === 'ArrowLeft') {
+        setOpenIndex(index => index === null ? null : (index - 1 + count) % count);
+      } else if (e.key === 'ArrowRight') {
+        setOpenIndex(index => index === null ? null : (index + 1) % count);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [openIndex, count]);
+
+  const byId = new Map(attachments.map(attachment => [attachment.id, attachment]));
+  const ordered = order
+    .map(id => byId.get(id))
+    .filter((attachment): attachment is EntryAttachment => attachment !== undefined);
+  const openAttachment = openIndex !== null ? attachments[openIndex] : null;
+
+  const saveOrder = (ids: string[]) => {
+    if (ids.some((id, index) => id !== attachments[index]?.id)) {
+      onReorder?.(ids);
+    }
+  };
+
+  const handleMove = (from: number, to: number) => {
+    if (to < 0 || to >= order.length) return;
+    const next = [...order];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setOrder(next);
+    saveOrder(next);
+  };
+
+  const openFileDialog = () => {
+    if (!isPremiumUser) {
+      onUpsellTrigger('Photo Gallery', 'Add several photos with captions to your journal entries');
+      return;
+    }
+    fileInputRef.current?.click();
+  };
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) {
+      onAddPhotos?.(files);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300">
+            {STRINGS.LABEL}
+          </span>
+          <span className="text-xs text-zen-sage-500 dark:text-gray-400">
+            {STRINGS.COUNT.replace('{count}', String(count)).replace('{max}', String(MAX_ATTACHMENTS_PER_ENTRY))}
+          </span>
+        </div>
+
+        {count > 1 && (
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400 mb-2">{STRINGS.DRAG_HINT}</p>
+        )}
+
+        <Reorder.Group axis="y" values={order} onReorder={setOrder} className="space-y-2">
+          {ordered.map((attachment, index) => (
+            <EditableItem
+              key={attachment.id}
+              entryId={entryId}
+              attachment={attachment}
+              index={index}
+              count={count}
+              onMove={handleMove}
+              onDragEnd={() => saveOrder(order)}
+              onCaptionChange={onCaptionChange}
+              onRemove={onRemove}
+            />
+          ))}
+        </Reorder.Group>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          multiple
+          onChange={handleFilesChange}
+          className="hidden"
+        />
+
+        {count < MAX_ATTACHMENTS_PER_ENTRY ? (
+          <button
+            type="button"
+            onClick={openFileDialog}
+            disabled={isUploading}
+            className="mt-2 w-full flex items-center justify-center space-x-2 px-4 py-3 border-2 border-dashed border-zen-sage-300 dark:border-gray-600 rounded-xl text-sm font-medium text-zen-sage-600 dark:text-gray-300 hover:border-zen-mint-400 hover:bg-zen-mint-50/50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            {isUploading ? (
+              <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+            ) : (
+              <ImagePlus className="w-4 h-4" aria-hidden="true" />
+            )}
+            <span>{isUploading ? STRINGS.UPLOADING : STRINGS.ADD}</span>
+          </button>
+        ) : (
+          <p className="mt-2 text-xs text-zen-sage-500 dark:text-gray-400">
+            {STRINGS.LIMIT_REACHED.replace('{max}', String(MAX_ATTACHMENTS_PER_ENTRY))}
+          </p>
+        )}
+
+        {error && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (count === 0) return null;
+
+  return (
+    <>
+      <div
+        className={`grid gap-2 ${count === 1 ? 'grid-cols-1' : 'grid-cols-2 sm:grid-cols-3'}`}
+        aria-label={STRINGS.LABEL}
+        role="list"
+      >
+        {attachments.map((attachment, index) => attachment.signedUrl && (
+          <figure key={attachment.id} role="listitem">
+            <button
+              type="button"
+              onClick={() => setOpenIndex(index)}
+              className="block w-full rounded-xl overflow-hidden shadow-md focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+              aria-label={STRINGS.OPEN.replace('{number}', String(index + 1))}
+            >
+              <img
+                src={attachment.signedUrl}
+                alt={attachment.caption || STRINGS.PHOTO_ALT
+                  .replace('{number}', String(index + 1))
+                  .replace('{count}', String(count))}
+                className={`w-full object-cover ${count === 1 ? 'max-h-64 object-contain' : 'h-32'}`}
+                loading="lazy"
+                onError={(e) => {
+                  console.error('Image failed to load:', attachment.storage_path);
+                  e.currentTarget.style.display = 'none';
+                }}
+              />
+            </button>
+            {attachment.caption && (
+              <figcaption className="mt-1 text-xs text-zen-sage-600 dark:text-gray-400 line-clamp-2">
+                {attachment.caption}
+              </figcaption>
+            )}
+          </figure>
+        ))}
+      </div>
+
+      <AnimatePresence>
+        {openAttachment?.signedUrl && (
+          <motion.div
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => setOpenIndex(null)}
+            role="dialog"
+            aria-modal="true"
+            aria-label={STRINGS.PHOTO_ALT
+              .replace('{number}', String((openIndex ?? 0) + 1))
+              .replace('{count}', String(count))}
+          >
+            <button
+              type="button"
+              onClick={() => setOpenIndex(null)}
+              className="absolute top-4 right-4 p-2 bg-white/90 text-zen-sage-700 rounded-full hover:bg-white transition-colors shadow-lg"
+              aria-label={STRINGS.CLOSE}
+              autoFocus
+            >
+              <X className="w-5 h-5" aria-hidden="true" />
+            </button>
+
+            {count > 1 && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setOpenIndex(index => index === null ? null : (index - 1 + count) % count);
+                }}
+                className="absolute left-4 p-2 bg-white/90 text-zen-sage-700 rounded-full hover:bg-white transition-colors shadow-lg"
+                aria-label={STRINGS.PREVIOUS}
+              >
+                <ChevronLeft className="w-5 h-5" aria-hidden="true" />
+              </button>
+            )}
+
+            <figure className="max-w-3xl w-full" onClick={(e) => e.stopPropagation()}>
+              <img
+                src={openAttachment.signedUrl}
+                alt={openAttachment.caption || openAttachment.file_name || ''}
+                className="mx-auto max-h-[80vh] rounded-xl object-contain"
+              />
+              {openAttachment.caption && (
+                <figcaption className="mt-3 text-center text-sm text-white">
+                  {openAttachment.caption}
+                </figcaption>
+              )}
+            </figure>
+
+            {count > 1 && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setOpenIndex(index => index === null ? null : (index + 1) % count);
+                }}
+                className="absolute right-4 p-2 bg-white/90 text-zen-sage-700 rounded-full hover:bg-white transition-colors shadow-lg"
+                aria-label={STRINGS.NEXT}
+              >
+                <ChevronRight className="w-5 h-5" aria-hidden="true" />
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+});
+
+export default EntryGallery;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { splitHighlights } from '../../utils/searchHighlight';
+
+/**
+ * HighlightedText - Renders search snippets with matches marked
+ *
+ * @component
+ * @param {string} text - Text containing highlight markers from search_journal_entries
+ *
+ * @example
+ * return (
+ *   <HighlightedText text={result.snippet} />
+ * )
+ */
+interface HighlightedTextProps {
+  text: string;
+}
+
+const HighlightedText = React.memo(function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-zen-mint-200 dark:bg-zen-mint-800 text-inherit rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+});
+
+export default HighlightedText;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Filter, ChevronDown, ChevronUp } from 'lucide-react';
+import { Search, Filter, ChevronDown, ChevronUp, Tag, Loader2 } from 'lucide-react';
 import { MoodLevel } from '../../types';
 import MoodSelector from '../MoodSelector';
 import { HISTORY } from '../../constants/uiStrings';
@@ -13,8 +13,16 @@ import { HISTORY } from '../../constants/uiStrings';
  * @param {function} onSearchChange - Function to update search term
  * @param {MoodLevel|'all'} filterMood - Current mood filter
  * @param {function} onFilterMoodChange - Function to update mood filter
- * @param {'newest'|'oldest'} sortOrder - Current sort order
+ * @param {HistorySortOrder} sortOrder - Current sort order
  * @param {function} onSortOrderChange - Function to update sort order
+ * @param {string} startDate - First day to include (YYYY-MM-DD), or empty
+ * @param {string} endDate - Last day to include (YYYY-MM-DD), or empty
+ * @param {function} onStartDateChange - Function to update the start date
+ * @param {function} onEndDateChange - Function to update the end date
+ * @param {boolean} isSearching - Whether a search request is in flight
+ * @param {string[]} availableTags - Tags used across the user's entries
+ * @param {string[]} selectedTags - Tags currently filtered on
+ * @param {function} onSelectedTagsChange - Function to update the tag filter
  * @param {function} onClearFilters - Function to clear all filters
  * 
  * @example
@@ -26,17 +34,35 @@ import { HISTORY } from '../../constants/uiStrings';
  *     onFilterMoodChange={setFilterMood}
  *     sortOrder={sortOrder}
  *     onSortOrderChange={setSortOrder}
+ *     startDate={startDate}
+ *     endDate={endDate}
+ *     onStartDateChange={setStartDate}
+ *     onEndDateChange={setEndDate}
+ *     isSearching={isSearching}
+ *     availableTags={availableTags}
+ *     selectedTags={filterTags}
+ *     onSelectedTagsChange={setFilterTags}
  *     onClearFilters={clearFilters}
  *   />
  * )
  */
+export type HistorySortOrder = 'newest' | 'oldest' | 'relevance';
+
 interface HistoryFiltersProps {
   searchTerm: string;
   onSearchChange: (term: string) => void;
   filterMood: MoodLevel | 'all';
   onFilterMoodChange: (mood: MoodLevel | 'all') => void;
-  sortOrder: 'newest' | 'oldest';
-  onSortOrderChange: (order: 'newest' | 'oldest') => void;
+  sortOrder: HistorySortOrder;
+  onSortOrderChange: (order: HistorySortOrder) => void;
+  startDate?: string;
+  endDate?: string;
+  onStartDateChange?: (date: string) => void;
+  onEndDateChange?: (date: string) => void;
+  isSearching?: boolean;
+  availableTags?: string[];
+  selectedTags?: string[];
+  onSelectedTagsChange?: (tags: string[]) => void;
   onClearFilters: () => void;
 }
 
@@ -47,11 +73,32 @@ const HistoryFilters = React.memo(function HistoryFilters({
   onFilterMoodChange,
   sortOrder,
   onSortOrderChange,
+  startDate = '',
+  endDate = '',
+  onStartDateChange = () => {},
+  onEndDateChange = () => {},
+  isSearching = false,
+  availableTags = [],
+  selectedTags = [],
+  onSelectedTagsChange = () => {},
   onClearFilters
 }: HistoryFiltersProps) {
   const [showFilters, setShowFilters] = useState(false);
   
-  const hasActiveFilters = searchTerm || filterMood !== 'all';
+  const hasActiveFilters = searchTerm || filterMood !== 'all' || selectedTags.length > 0 || startDate || endDate;
+  const sortOptions: { value: HistorySortOrder; label: string }[] = [
+    ...(searchTerm.trim() ? [{ value: 'relevance' as const, label: HISTORY.FILTERS.RELEVANCE }] : []),
+    { value: 'newest', label: HISTORY.FILTERS.NEWEST },
+    { value: 'oldest', label: HISTORY.FILTERS.OLDEST }
+  ];
+
+  const toggleTag = (tag: string) => {
+    onSelectedTagsChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter(selected => selected !== tag)
+        : [...selectedTags, tag]
+    );
+  };
 
   return (
     <motion.div
@@ -69,9 +116,15 @@ const HistoryFilters = React.memo(function HistoryFilters({
             placeholder={HISTORY.SEARCH_PLACEHOLDER}
             value={searchTerm}
             onChange={(e) => onSearchChange(e.target.value)}
-            className="w-full pl-12 pr-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-400"
+            className="w-full pl-12 pr-12 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-400"
             aria-label="Search journal entries"
           />
+          {isSearching && (
+            <Loader2
+              className="absolute right-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-mint-500 animate-spin"
+              aria-label={HISTORY.FILTERS.SEARCHING}
+            />
+          )}
         </div>
 
         {/* Filter Toggle */}
@@ -147,33 +200,82 @@ const HistoryFilters = React.memo(function HistoryFilters({
                     Sort order
                   </label>
                   <div className="flex space-x-2" role="radiogroup" aria-labelledby="sort-order-label">
-                    <button
-                      onClick={() => onSortOrderChange('newest')}
-                      className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
-                        sortOrder === 'newest'
-                          ? 'bg-zen-mint-400 text-white'
-                          : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
-                      }`}
-                      role="radio"
-                      aria-checked={sortOrder === 'newest'}
-                    >
-                      {HISTORY.FILTERS.NEWEST}
-                    </button>
-                    <button
-                      onClick={() => onSortOrderChange('oldest')}
-                      className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
-                        sortOrder === 'oldest'
-                          ? 'bg-zen-mint-400 text-white'
-                          : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
-                      }`}
-                      role="radio"
-                      aria-checked={sortOrder === 'oldest'}
-                    >
-                      {HISTORY.FILTERS.OLDEST}
-                    </button>
+                    {sortOptions.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => onSortOrderChange(option.value)}
+                        className={`px-3 py-2 rounded-xl text-sm font-medium transition-all ${
+                          sortOrder === option.value
+                            ? 'bg-zen-mint-400 text-white'
+                            : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                        }`}
+                        role="radio"
+                        aria-checked={sortOrder === option.value}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
                   </div>
                 </div>
               </div>
+
+              {/* Date Range */}
+              <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="history-start-date" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                    {HISTORY.FILTERS.DATE_FROM}
+                  </label>
+                  <input
+                    id="history-start-date"
+                    type="date"
+                    value={startDate}
+                    max={endDate || undefined}
+                    onChange={(e) => onStartDateChange(e.target.value)}
+                    className="w-full px-3 py-2 bg-white/70 dark:bg-gray-700 border border-zen-sage-200 dark:border-gray-600 rounded-xl text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="history-end-date" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                    {HISTORY.FILTERS.DATE_TO}
+                  </label>
+                  <input
+                    id="history-end-date"
+                    type="date"
+                    value={endDate}
+                    min={startDate || undefined}
+                    onChange={(e) => onEndDateChange(e.target.value)}
+                    className="w-full px-3 py-2 bg-white/70 dark:bg-gray-700 border border-zen-sage-200 dark:border-gray-600 rounded-xl text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+                  />
+                </div>
+              </div>
+
+              {/* Tag Filter */}
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" id="tag-filter-label">
+                  {HISTORY.FILTERS.BY_TAG}
+                </label>
+                {availableTags.length === 0 ? (
+                  <p className="text-sm text-zen-sage-500 dark:text-gray-400">{HISTORY.FILTERS.NO_TAGS}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2" role="group" aria-labelledby="tag-filter-label">
+                    {availableTags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => toggleTag(tag)}
+                        className={`flex items-center space-x-1 px-3 py-1 rounded-xl text-sm font-medium transition-all ${
+                          selectedTags.includes(tag)
+                            ? 'bg-zen-mint-400 text-white'
+                            : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                        }`}
+                        aria-pressed={selectedTags.includes(tag)}
+                      >
+                        <Tag className="w-3 h-3" aria-hidden="true" />
+                        <span>{tag}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </motion.div>
           )}
         </AnimatePresence>
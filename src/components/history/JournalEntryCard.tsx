@@ -1,14 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, Edit3, Trash2, Eye, ChevronUp, ChevronDown, X, Save, Sparkles } from 'lucide-react';
+import { Clock, Edit3, Trash2, Eye, ChevronUp, ChevronDown, X, Save, Sparkles, Tag, CloudOff, Lock, Mic } from 'lucide-react';
 import { useVoiceSynthesis } from '../../hooks/useVoiceSynthesis';
 import { useJournal } from '../../hooks/useJournal';
 import { useAuth } from '../../contexts/AuthContext';
-import { MoodLevel } from '../../types';
+import { useJournalKey } from '../../hooks/useJournalKey';
+import { useEntryAttachments } from '../../hooks/useEntryAttachments';
+import { EntryAttachment, MoodLevel } from '../../types';
 import { moods } from '../../data/moods';
 import MoodSelector from '../MoodSelector';
 import VoiceButton from '../VoiceButton';
-import { JOURNAL } from '../../constants/uiStrings';
+import TagInput from '../journal/TagInput';
+import EntryPrivacyOptions from '../journal/EntryPrivacyOptions';
+import HighlightedText from './HighlightedText';
+import EntryGallery from './EntryGallery';
+import { getSignedUrls, getStoragePath } from '../../utils/signedUrlCache';
+import { formatDuration } from '../../utils/voiceRecording';
+import { JOURNAL, HISTORY } from '../../constants/uiStrings';
 
 /**
  * Interface for journal entry data
@@ -18,15 +26,28 @@ interface JournalEntry {
   id: string;
   content: string;
   mood: string;
-  signedPhotoUrl?: string;
+  photo_url?: string | null;
+  signedPhotoUrl?: string | null;
   affirmation_text?: string | null;
   affirmation_audio_url?: string | null;
   affirmation_source?: string | null;
   signedAudioUrl?: string | null;
+  voice_audio_url?: string | null;
+  voice_duration_seconds?: number | null;
+  signedVoiceUrl?: string | null;
   created_at: string;
   updated_at: string;
   title?: string | null;
   photo_filename?: string | null;
+  /** Photos in gallery order; not loaded yet for entries saved in this session */
+  attachments?: EntryAttachment[];
+  tags?: string[];
+  /** Whether changes to the entry are still waiting to be synced */
+  pendingSync?: boolean;
+  search_opt_in?: boolean;
+  ai_opt_in?: boolean;
+  /** Private entry that can't be read until the journal is unlocked */
+  locked?: boolean;
 }
 
 /**
@@ -43,6 +64,11 @@ interface JournalEntry {
  * @param {function} onCancelEdit - Function to cancel editing
  * @param {number} index - Index of the entry in the list
  * @param {number} delay - Animation delay
+ * @param {string[]} [tagSuggestions] - Existing tags offered while editing
+ * @param {function} [onTagClick] - Function called when a tag chip is clicked
+ * @param {string} [titleHighlight] - Title with search matches marked
+ * @param {string} [snippet] - Matching content fragments, shown instead of the content while collapsed
+ * @param {function} [onVisible] - Called when a card whose media isn't signed yet scrolls into view
  * 
  * @example
  * return (
@@ -73,6 +99,11 @@ interface JournalEntryCardProps {
   delay: number;
   isPremiumUser?: boolean;
   onUpsellTrigger?: (featureName: string, featureDescription: string) => void;
+  tagSuggestions?: string[];
+  onTagClick?: (tag: string) => void;
+  titleHighlight?: string | null;
+  snippet?: string;
+  onVisible?: (id: string) => void;
 }
 
 const JournalEntryCard = React.memo(function JournalEntryCard({
@@ -87,14 +118,25 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
   index,
   delay,
   isPremiumUser = true,
-  onUpsellTrigger = () => {}
+  onUpsellTrigger = () => {},
+  tagSuggestions = [],
+  onTagClick,
+  titleHighlight,
+  snippet,
+  onVisible
 }: JournalEntryCardProps) {
   const [editContent, setEditContent] = useState(entry.content);
   const [editTitle, setEditTitle] = useState(entry.title || '');
+  const [editTags, setEditTags] = useState<string[]>(entry.tags || []);
   const [editMood, setEditMood] = useState<MoodLevel>(getMoodLevel(entry.mood));
+  const [editPrivacy, setEditPrivacy] = useState({
+    searchOptIn: entry.search_opt_in ?? false,
+    aiOptIn: entry.ai_opt_in ?? false
+  });
   
   // Get the current user from auth context
   const { user } = useAuth();
+  const { isPrivate } = useJournalKey();
   
   // Use the voice synthesis hook for audio playback
   const { 
@@ -109,7 +151,42 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
   
   // Use the journal hook for updating entries
   const { refreshData, updateEntry } = useJournal();
+
+  // Gallery changes are saved as they are made, separately from the entry
+  const gallery = useEntryAttachments(entry.id, entry.attachments);
   
+  const cardRef = useRef<HTMLDivElement>(null);
+  const needsSignedUrls = Boolean(
+    (entry.photo_url && entry.signedPhotoUrl === undefined) ||
+    entry.attachments?.some(attachment => attachment.signedUrl === undefined) ||
+    (entry.affirmation_audio_url && entry.signedAudioUrl === undefined) ||
+    (entry.voice_audio_url && entry.signedVoiceUrl === undefined)
+  );
+
+  // Ask for signed media URLs only once the card is close to the viewport
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!card || !onVisible || !needsSignedUrls) return;
+
+    if (typeof IntersectionObserver === 'undefined') {
+      onVisible(entry.id);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      ([observed]) => {
+        if (observed.isIntersecting) {
+          onVisible(entry.id);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: '200px 0px' }
+    );
+
+    observer.observe(card);
+    return () => observer.disconnect();
+  }, [entry.id, needsSignedUrls, onVisible]);
+
   const entryMoodData = moods.find(m => m.level === getMoodLevel(entry.mood));
   const isEditable = !isEditing;
   const needsExpansion = entry.content.length > 150;
@@ -149,7 +226,12 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
     const updates = {
       content: editContent,
       title: editTitle || null,
-      mood: getMoodString(editMood)
+      mood: getMoodString(editMood),
+      tags: editTags,
+      ...(isPrivate && {
+        search_opt_in: editPrivacy.searchOptIn,
+        ai_opt_in: editPrivacy.aiOptIn
+      })
     };
     
     await onSaveEdit(entry.id, updates);
@@ -161,24 +243,24 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
       return;
     }
     
-    // If we already have a signed URL, use it
-    if (entry.signedAudioUrl) {
+    // Stored audio is signed lazily; the cache hands back the current URL
+    // or signs a fresh one if the last one has expired
+    if (entry.affirmation_audio_url) {
+      const path = getStoragePath(entry.affirmation_audio_url, 'affirmation-audio');
+      const signedUrl = (await getSignedUrls('affirmation-audio', [path])).get(path) ?? entry.signedAudioUrl;
+      if (!signedUrl) {
+        console.error('Unable to sign affirmation audio:', entry.affirmation_audio_url);
+        return;
+      }
+
       try {
-        console.log('Playing audio from existing signed URL:', entry.signedAudioUrl);
-        await playAudio(entry.signedAudioUrl);
+        await playAudio(signedUrl);
       } catch (error) {
         console.error('Failed to play stored audio:', error);
       }
       return;
     }
     
-    // If we have an affirmation_audio_url but no signed URL, we need to refresh the data
-    if (entry.affirmation_audio_url && !entry.signedAudioUrl) {
-      console.log('Audio URL exists but signed URL is missing, refreshing data:', entry.affirmation_audio_url);
-      await refreshData();
-      return;
-    }
-    
     // If we don't have an audio URL, generate one on-demand
     if (!entry.affirmation_audio_url && isPremiumUser) {
       try {
@@ -224,6 +306,7 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
 
   return (
     <motion.div
+      ref={cardRef}
       className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 dark:border-gray-600/20 overflow-hidden"
       initial={{ opacity: 0, x: -20 }}
       animate={{ opacity: 1, x: 0 }}
@@ -283,6 +366,18 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor={`edit-tags-${entry.id}`}>
+                {JOURNAL.TAGS.LABEL}
+              </label>
+              <TagInput
+                id={`edit-tags-${entry.id}`}
+                tags={editTags}
+                onTagsChange={setEditTags}
+                suggestions={tagSuggestions}
+              />
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor={`edit-content-${entry.id}`}>
                 Your thoughts
@@ -296,6 +391,33 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
                 placeholder="What's on your mind?"
               />
             </div>
+
+            {entry.attachments && (
+              <EntryGallery
+                entryId={entry.id}
+                attachments={gallery.attachments}
+                isEditing
+                isUploading={gallery.isUploading}
+                error={gallery.error}
+                onAddPhotos={gallery.addPhotos}
+                onCaptionChange={gallery.updateCaption}
+                onReorder={gallery.reorder}
+                onRemove={gallery.removeAttachment}
+                isPremiumUser={isPremiumUser}
+                onUpsellTrigger={onUpsellTrigger}
+              />
+            )}
+
+            {isPrivate && (
+              <EntryPrivacyOptions
+                privacy={editPrivacy}
+                onChange={(privacy) => setEditPrivacy({
+                  searchOptIn: !!privacy.searchOptIn,
+                  aiOptIn: !!privacy.aiOptIn
+                })}
+                idPrefix={`edit-${entry.id}`}
+              />
+            )}
           </div>
         </div>
       ) : (
@@ -314,23 +436,39 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
                   <span className="text-sm text-zen-sage-600 dark:text-gray-400">
                     {entryMoodData?.label}
                   </span>
+                  {entry.pendingSync && (
+                    <span
+                      className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-zen-peach-100 dark:bg-gray-700 text-zen-peach-700 dark:text-zen-peach-300"
+                      title={HISTORY.PENDING_SYNC}
+                    >
+                      <CloudOff className="w-3 h-3" aria-hidden="true" />
+                      <span>{HISTORY.PENDING_SYNC}</span>
+                    </span>
+                  )}
                 </div>
-                {entry.title && (
+                {entry.locked ? (
+                  <h4 className="flex items-center font-display font-semibold text-zen-sage-800 dark:text-gray-200 mt-1">
+                    <Lock className="w-4 h-4 mr-1.5 text-zen-sage-500 dark:text-gray-400" aria-hidden="true" />
+                    {JOURNAL.PRIVACY.LOCKED_TITLE}
+                  </h4>
+                ) : entry.title && (
                   <h4 className="font-display font-semibold text-zen-sage-800 dark:text-gray-200 mt-1">
-                    {entry.title}
+                    {titleHighlight ? <HighlightedText text={titleHighlight} /> : entry.title}
                   </h4>
                 )}
               </div>
             </div>
 
             <div className="flex space-x-2">
-              <button
-                onClick={() => onEdit(entry)}
-                className="p-2 text-zen-sage-500 hover:text-zen-sage-700 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                aria-label="Edit entry"
-              >
-                <Edit3 className="w-4 h-4" aria-hidden="true" />
-              </button>
+              {!entry.locked && (
+                <button
+                  onClick={() => onEdit(entry)}
+                  className="p-2 text-zen-sage-500 hover:text-zen-sage-700 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  aria-label="Edit entry"
+                >
+                  <Edit3 className="w-4 h-4" aria-hidden="true" />
+                </button>
+              )}
               <button
                 onClick={() => onDelete(entry.id)}
                 className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg transition-colors"
@@ -352,10 +490,43 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
           <div className={`text-zen-sage-700 dark:text-gray-300 leading-relaxed ${
             isExpanded ? '' : 'line-clamp-3'
           }`}>
-            {entry.content}
+            {entry.locked ? (
+              <span className="italic text-zen-sage-500 dark:text-gray-400">{JOURNAL.PRIVACY.LOCKED_CONTENT}</span>
+            ) : snippet && !isExpanded ? <HighlightedText text={snippet} /> : entry.content}
           </div>
 
-          {entry.signedPhotoUrl && (
+          {entry.tags && entry.tags.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-2" aria-label="Entry tags">
+              <Tag className="w-4 h-4 text-zen-sage-400 dark:text-gray-500" aria-hidden="true" />
+              {entry.tags.map(tag => (
+                onTagClick ? (
+                  <button
+                    key={tag}
+                    onClick={() => onTagClick(tag)}
+                    className="px-2 py-1 bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-700 dark:text-zen-mint-300 text-xs font-medium rounded-lg hover:bg-zen-mint-200 dark:hover:bg-zen-mint-900/50 transition-colors"
+                    aria-label={`Show entries tagged ${tag}`}
+                  >
+                    #{tag}
+                  </button>
+                ) : (
+                  <span
+                    key={tag}
+                    className="px-2 py-1 bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-700 dark:text-zen-mint-300 text-xs font-medium rounded-lg"
+                  >
+                    #{tag}
+                  </span>
+                )
+              ))}
+            </div>
+          )}
+
+          {entry.attachments ? (
+            gallery.attachments.length > 0 && (
+              <div className="mt-4">
+                <EntryGallery entryId={entry.id} attachments={gallery.attachments} />
+              </div>
+            )
+          ) : entry.signedPhotoUrl && (
             <div className="mt-4">
               <img 
                 src={entry.signedPhotoUrl} 
@@ -373,6 +544,20 @@ const JournalEntryCard = React.memo(function JournalEntryCard({
             </div>
           )}
           
+          {/* Voice Note */}
+          {entry.signedVoiceUrl && (
+            <div className="mt-4 flex items-center space-x-3">
+              <Mic className="w-4 h-4 text-zen-sage-400 dark:text-gray-500 flex-shrink-0" aria-hidden="true" />
+              <audio
+                controls
+                preload="none"
+                src={entry.signedVoiceUrl}
+                className="w-full h-10"
+                aria-label={JOURNAL.VOICE.PLAY_LABEL.replace('{time}', formatDuration(entry.voice_duration_seconds ?? 0))}
+              />
+            </div>
+          )}
+
           {/* Affirmation Section */}
           {entry.affirmation_text && (
             <div className="mt-4 bg-gradient-to-r from-zen-mint-50 to-zen-peach-50 dark:from-gray-700/50 dark:to-gray-600/50 p-3 rounded-xl">
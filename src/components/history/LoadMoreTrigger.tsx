@@ -0,0 +1,70 @@
+import React, { useEffect, useRef } from 'react';
+import { HISTORY } from '../../constants/uiStrings';
+
+/**
+ * LoadMoreTrigger - Loads the next page of history when scrolled into view
+ *
+ * @component
+ * @param {boolean} hasMore - Whether older entries are left to load
+ * @param {boolean} isLoading - Whether a page is currently loading
+ * @param {function} onLoadMore - Function to load the next page
+ *
+ * @example
+ * return (
+ *   <LoadMoreTrigger
+ *     hasMore={hasMore}
+ *     isLoading={isLoadingMore}
+ *     onLoadMore={loadMoreEntries}
+ *   />
+ * )
+ */
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+const LoadMoreTrigger = React.memo(function LoadMoreTrigger({
+  hasMore,
+  isLoading,
+  onLoadMore
+}: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') return;
+
+    // Start loading a little before the user reaches the end of the list
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) onLoadMore();
+      },
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="mt-12 flex justify-center">
+      {isLoading ? (
+        <div role="status" aria-label={HISTORY.LOAD_MORE.LOADING}>
+          <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <button
+          onClick={onLoadMore}
+          className="px-4 py-2 rounded-xl text-sm font-medium bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-all"
+        >
+          {HISTORY.LOAD_MORE.BUTTON}
+        </button>
+      )}
+    </div>
+  );
+});
+
+export default LoadMoreTrigger;
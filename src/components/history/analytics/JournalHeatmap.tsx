@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { HISTORY } from '../../../constants/uiStrings';
+import { HeatmapDay, buildHeatmapWeeks, getHeatmapLevel } from '../../../utils/analyticsUtils';
+
+const LEVEL_CLASSES = [
+  'bg-zen-sage-100 dark:bg-gray-700',
+  'bg-zen-mint-200 dark:bg-zen-mint-900',
+  'bg-zen-mint-300 dark:bg-zen-mint-700',
+  'bg-zen-mint-400 dark:bg-zen-mint-500',
+  'bg-zen-mint-600 dark:bg-zen-mint-300'
+];
+
+/**
+ * JournalHeatmap - Calendar of the past year, shaded by how many entries were written each day
+ *
+ * @component
+ * @param {HeatmapDay[]} days - Days with at least one entry
+ *
+ * @example
+ * return (
+ *   <JournalHeatmap days={analytics.heatmap} />
+ * )
+ */
+interface JournalHeatmapProps {
+  days: HeatmapDay[];
+}
+
+const JournalHeatmap = React.memo(function JournalHeatmap({ days }: JournalHeatmapProps) {
+  const weeks = useMemo(() => buildHeatmapWeeks(days, new Date()), [days]);
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zen-sage-700 dark:text-gray-300 mb-2">
+        {HISTORY.ANALYTICS.HEATMAP}
+      </h3>
+      <div className="overflow-x-auto pb-1">
+        <div className="inline-flex gap-[3px]" role="grid" aria-label={HISTORY.ANALYTICS.HEATMAP}>
+          {weeks.map(week => (
+            <div key={week[0].date} className="flex flex-col gap-[3px]" role="row">
+              {week.map(cell => {
+                const label = HISTORY.ANALYTICS.HEATMAP_DAY
+                  .replace('{count}', String(cell.entries))
+                  .replace('{date}', cell.date);
+                return (
+                  <div
+                    key={cell.date}
+                    role="gridcell"
+                    aria-label={cell.inRange ? label : undefined}
+                    title={cell.inRange ? label : undefined}
+                    className={`w-3 h-3 rounded-sm ${cell.inRange ? LEVEL_CLASSES[getHeatmapLevel(cell.entries)] : 'opacity-0'}`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-2 text-xs text-zen-sage-500 dark:text-gray-400" aria-hidden="true">
+        <span>{HISTORY.ANALYTICS.HEATMAP_LEGEND_LESS}</span>
+        {LEVEL_CLASSES.map(className => (
+          <span key={className} className={`w-3 h-3 rounded-sm ${className}`} />
+        ))}
+        <span>{HISTORY.ANALYTICS.HEATMAP_LEGEND_MORE}</span>
+      </div>
+    </div>
+  );
+});
+
+export default JournalHeatmap;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { MoodBucket } from '../../../utils/analyticsUtils';
+
+/**
+ * MoodBarChart - Bars of average mood per category, e.g. weekday or hour
+ *
+ * Bar height shows average mood (1-5); categories without entries show an empty slot.
+ *
+ * @component
+ * @param {string} title - Chart heading
+ * @param {string[]} labels - Label for each category, in order
+ * @param {Array<MoodBucket|undefined>} buckets - Mood data for each category, in the same order
+ * @param {number} [labelEvery=1] - Only print every nth label, for dense charts
+ *
+ * @example
+ * return (
+ *   <MoodBarChart title="Mood by Weekday" labels={['Sun', 'Mon']} buckets={[sunday, monday]} />
+ * )
+ */
+interface MoodBarChartProps {
+  title: string;
+  labels: string[];
+  buckets: Array<MoodBucket | undefined>;
+  labelEvery?: number;
+}
+
+const MoodBarChart = React.memo(function MoodBarChart({
+  title,
+  labels,
+  buckets,
+  labelEvery = 1
+}: MoodBarChartProps) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-zen-sage-700 dark:text-gray-300 mb-2">{title}</h3>
+      <div className="flex items-end h-28 gap-1" role="list" aria-label={title}>
+        {labels.map((label, index) => {
+          const bucket = buckets[index];
+          const mood = bucket?.average_mood ?? null;
+          const height = mood === null ? 0 : (mood / 5) * 100;
+
+          return (
+            <div
+              key={label}
+              className="flex-1 h-full flex flex-col justify-end"
+              role="listitem"
+              aria-label={mood === null ? `${label}: no entries` : `${label}: average mood ${mood} from ${bucket?.entries} entries`}
+              title={mood === null ? label : `${label}: ${mood} (${bucket?.entries})`}
+            >
+              <div
+                className={`w-full rounded-t-md ${mood === null ? 'bg-zen-sage-100 dark:bg-gray-700' : 'bg-zen-mint-400'}`}
+                style={{ height: mood === null ? '4px' : `${height}%` }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-1 mt-1" aria-hidden="true">
+        {labels.map((label, index) => (
+          <span key={label} className="flex-1 text-center text-[10px] text-zen-sage-500 dark:text-gray-400">
+            {index % labelEvery === 0 ? label : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+export default MoodBarChart;
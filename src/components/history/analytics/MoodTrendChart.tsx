@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { HISTORY } from '../../../constants/uiStrings';
+import { moods } from '../../../data/moods';
+import { TrendPoint, getTrendCoordinates } from '../../../utils/analyticsUtils';
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+/**
+ * MoodTrendChart - Line chart of average mood over the selected range
+ *
+ * @component
+ * @param {TrendPoint[]} trend - Daily or weekly mood averages, oldest first
+ * @param {number} rangeDays - Length of the range in days
+ * @param {boolean} isWeekly - Whether the points are weekly averages
+ *
+ * @example
+ * return (
+ *   <MoodTrendChart trend={analytics.trend} rangeDays={30} isWeekly={false} />
+ * )
+ */
+interface MoodTrendChartProps {
+  trend: TrendPoint[];
+  rangeDays: number;
+  isWeekly: boolean;
+}
+
+const MoodTrendChart = React.memo(function MoodTrendChart({
+  trend,
+  rangeDays,
+  isWeekly
+}: MoodTrendChartProps) {
+  const points = useMemo(
+    () => getTrendCoordinates(trend, new Date(), rangeDays, WIDTH, HEIGHT),
+    [trend, rangeDays]
+  );
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="text-sm font-semibold text-zen-sage-700 dark:text-gray-300">
+          {HISTORY.ANALYTICS.TREND}
+        </h3>
+        {isWeekly && (
+          <span className="text-xs text-zen-sage-500 dark:text-gray-400">{HISTORY.ANALYTICS.TREND_WEEKLY}</span>
+        )}
+      </div>
+      <div className="flex">
+        {/* Mood scale */}
+        <div className="flex flex-col justify-between text-sm pr-2 py-0" aria-hidden="true">
+          {[...moods].reverse().map(mood => (
+            <span key={mood.level} className="leading-none">{mood.emoji}</span>
+          ))}
+        </div>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-40 overflow-visible"
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={`${HISTORY.ANALYTICS.TREND}: ${points.length} data points`}
+        >
+          {[0, 1, 2, 3, 4].map(step => (
+            <line
+              key={step}
+              x1={0}
+              x2={WIDTH}
+              y1={(HEIGHT / 4) * step}
+              y2={(HEIGHT / 4) * step}
+              className="stroke-zen-sage-100 dark:stroke-gray-700"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {points.length > 1 && (
+            <polyline
+              points={points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              className="stroke-zen-mint-500"
+              strokeWidth={2}
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {points.map(({ x, y, point }) => (
+            <circle key={point.date} cx={x} cy={y} r={3} className="fill-zen-mint-500">
+              <title>{`${point.date}: ${point.average_mood} (${point.entries})`}</title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+});
+
+export default MoodTrendChart;
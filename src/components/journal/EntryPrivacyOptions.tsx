@@ -0,0 +1,91 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { JOURNAL } from '../../constants/uiStrings';
+import { EntryPrivacy } from '../../contexts/JournalKeyContext';
+
+/**
+ * EntryPrivacyOptions - Per-entry opt-ins for search and AI in the private journal
+ *
+ * @component
+ * @param {EntryPrivacy} privacy - Current opt-ins for the entry
+ * @param {function} onChange - Function called with the updated opt-ins
+ * @param {boolean} [disabled] - Whether the checkboxes are disabled
+ * @param {string} [idPrefix] - Prefix for the checkbox ids, when more than one form is on screen
+ *
+ * @example
+ * return (
+ *   <EntryPrivacyOptions
+ *     privacy={entryPrivacy}
+ *     onChange={setEntryPrivacy}
+ *   />
+ * )
+ */
+interface EntryPrivacyOptionsProps {
+  privacy: EntryPrivacy;
+  onChange: (privacy: EntryPrivacy) => void;
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+const EntryPrivacyOptions = React.memo(function EntryPrivacyOptions({
+  privacy,
+  onChange,
+  disabled = false,
+  idPrefix = 'entry'
+}: EntryPrivacyOptionsProps) {
+  const options = [
+    {
+      key: 'searchOptIn' as const,
+      label: JOURNAL.PRIVACY.SEARCH_OPT_IN,
+      help: JOURNAL.PRIVACY.SEARCH_OPT_IN_HELP
+    },
+    {
+      key: 'aiOptIn' as const,
+      label: JOURNAL.PRIVACY.AI_OPT_IN,
+      help: JOURNAL.PRIVACY.AI_OPT_IN_HELP
+    }
+  ];
+
+  return (
+    <div className="rounded-2xl border border-zen-sage-200 dark:border-gray-600 bg-zen-sage-50/50 dark:bg-gray-700/50 p-4">
+      <div className="flex items-center space-x-2 mb-1">
+        <Lock className="w-4 h-4 text-zen-sage-600 dark:text-gray-300" aria-hidden="true" />
+        <span className="text-sm font-medium text-zen-sage-700 dark:text-gray-300">
+          {JOURNAL.PRIVACY.LABEL}
+        </span>
+      </div>
+      <p className="text-xs text-zen-sage-500 dark:text-gray-400 mb-3">
+        {JOURNAL.PRIVACY.HELP}
+      </p>
+
+      <div className="space-y-3">
+        {options.map(option => {
+          const id = `${idPrefix}-${option.key}`;
+          return (
+            <div key={option.key} className="flex items-start space-x-3">
+              <input
+                id={id}
+                type="checkbox"
+                checked={!!privacy[option.key]}
+                onChange={(e) => onChange({ ...privacy, [option.key]: e.target.checked })}
+                disabled={disabled}
+                aria-describedby={`${id}-help`}
+                className="mt-0.5 h-4 w-4 rounded border-zen-sage-300 text-zen-mint-500 focus:ring-zen-mint-400"
+              />
+              <div>
+                <label htmlFor={id} className="text-sm text-zen-sage-700 dark:text-gray-300">
+                  {option.label}
+                </label>
+                <p id={`${id}-help`} className="text-xs text-zen-sage-500 dark:text-gray-400">
+                  {option.help}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+export default EntryPrivacyOptions;
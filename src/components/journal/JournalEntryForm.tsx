@@ -2,12 +2,17 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Save, AlertCircle } from 'lucide-react';
 import * as Sentry from '@sentry/react';
-import { MoodLevel } from '../../types';
+import { MoodLevel, VoiceNote } from '../../types';
 import MoodSelector from '../MoodSelector';
 import PhotoUpload from '../PhotoUpload';
 import PromptSection from './PromptSection';
 import MoodSuggestion from './MoodSuggestion';
 import AffirmationCard from './AffirmationCard';
+import TagInput from './TagInput';
+import EntryPrivacyOptions from './EntryPrivacyOptions';
+import VoiceNoteRecorder from './VoiceNoteRecorder';
+import { JOURNAL } from '../../constants/uiStrings';
+import { EntryPrivacy } from '../../contexts/JournalKeyContext';
 
 /**
  * JournalEntryForm - Form for creating new journal entries
@@ -50,9 +55,17 @@ import AffirmationCard from './AffirmationCard';
  * @param {boolean} isPremiumUser - Whether user has premium access
  * @param {function} onUpsellTrigger - Function to trigger premium upsell
  * @param {File|null} selectedPhoto - Currently selected photo
+ * @param {string[]} selectedTags - Tags chosen for the entry
+ * @param {function} onTagsChange - Function to update the selected tags
+ * @param {string[]} tagSuggestions - Previously used tags offered as quick picks
+ * @param {boolean} isPrivateJournal - Whether entries are encrypted, which shows the privacy opt-ins
+ * @param {EntryPrivacy} entryPrivacy - Search and AI opt-ins for the entry
+ * @param {function} onPrivacyChange - Function to update the opt-ins
+ * @param {VoiceNote|null} voiceNote - Voice note recorded for the entry
+ * @param {function} onVoiceNoteChange - Function to update the voice note
  */
 interface JournalEntryFormProps {
-  onSubmit: (content: string, title: string | null, mood: MoodLevel, photo: File | null) => Promise<void>;
+  onSubmit: (content: string, title: string | null, mood: MoodLevel, photo: File | null, tags: string[]) => Promise<void>;
   isSubmitting: boolean;
   error: string;
   dailyPrompt: string;
@@ -80,6 +93,14 @@ interface JournalEntryFormProps {
   isPremiumUser?: boolean;
   onUpsellTrigger?: (featureName: string, featureDescription: string) => void;
   selectedPhoto?: File | null;
+  selectedTags?: string[];
+  onTagsChange?: (tags: string[]) => void;
+  tagSuggestions?: string[];
+  isPrivateJournal?: boolean;
+  entryPrivacy?: EntryPrivacy;
+  onPrivacyChange?: (privacy: EntryPrivacy) => void;
+  voiceNote?: VoiceNote | null;
+  onVoiceNoteChange?: (note: VoiceNote | null) => void;
   generationProgress?: number;
   audioError?: string;
 }
@@ -114,11 +135,25 @@ const JournalEntryForm = React.memo(function JournalEntryForm({
   onUpsellTrigger = () => {},
   selectedPhoto = null, 
   onPhotoSelect = () => {},
+  selectedTags = [],
+  onTagsChange = () => {},
+  tagSuggestions = [],
+  isPrivateJournal = false,
+  entryPrivacy = {},
+  onPrivacyChange = () => {},
+  voiceNote = null,
+  onVoiceNoteChange = () => {},
   generationProgress,
   audioError
 }: JournalEntryFormProps) {
   const [isTextareaFocused, setIsTextareaFocused] = useState(false);
 
+  // Spoken words go after whatever was already typed, ready to be edited
+  const handleTranscript = (text: string) => {
+    const typed = journalEntry.trimEnd();
+    onJournalTextChange(typed ? `${typed}\n\n${text}` : text);
+  };
+
   const handleSubmitAsync = async () => {
     if (!journalEntry.trim() || !selectedMood) {
       return;
@@ -144,6 +179,8 @@ const JournalEntryForm = React.memo(function JournalEntryForm({
           hasTitle: !!entryTitle.trim(),
           moodLevel: selectedMood,
           hasPhoto: !!selectedPhoto,
+          hasVoiceNote: !!voiceNote,
+          tagCount: selectedTags.length,
           contentLength: journalEntry.length
         }
       });
@@ -152,7 +189,8 @@ const JournalEntryForm = React.memo(function JournalEntryForm({
         journalEntry,
         entryTitle.trim() || null,
         selectedMood,
-        selectedPhoto
+        selectedPhoto,
+        selectedTags
       );
     } catch (error) {
       // Error handling is managed by the parent component
@@ -243,6 +281,50 @@ const JournalEntryForm = React.memo(function JournalEntryForm({
         />
       </div>
 
+      {/* Tags Section */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="entry-tags">
+          {JOURNAL.TAGS.LABEL}
+        </label>
+        <TagInput
+          id="entry-tags"
+          tags={selectedTags}
+          onTagsChange={onTagsChange}
+          suggestions={tagSuggestions}
+          disabled={isSubmitting}
+        />
+        <p className="mt-1 text-xs text-zen-sage-500 dark:text-gray-400">
+          {JOURNAL.TAGS.HELP}
+        </p>
+      </div>
+
+      {/* Private Journal Opt-ins */}
+      {isPrivateJournal && (
+        <div className="mb-6">
+          <EntryPrivacyOptions
+            privacy={entryPrivacy}
+            onChange={onPrivacyChange}
+            disabled={isSubmitting}
+          />
+        </div>
+      )}
+
+      {/* Voice Note */}
+      <div className="mb-6">
+        <span className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+          {JOURNAL.VOICE.LABEL}
+        </span>
+        <VoiceNoteRecorder
+          voiceNote={voiceNote}
+          onVoiceNoteChange={onVoiceNoteChange}
+          onTranscript={handleTranscript}
+          disabled={isSubmitting}
+          blockedReason={isPrivateJournal && !entryPrivacy.aiOptIn ? JOURNAL.VOICE.PRIVATE_HINT : null}
+          isPremiumUser={isPremiumUser}
+          onUpsellTrigger={() => onUpsellTrigger?.('Voice Journaling', 'Speak your entries and listen back to them later')}
+        />
+      </div>
+
       {/* Journal Entry Textarea */}
       <div className="mb-6">
         <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="journal-entry">
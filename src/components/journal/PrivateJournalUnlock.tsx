@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Unlock } from 'lucide-react';
+import { JOURNAL } from '../../constants/uiStrings';
+import { useJournalKey } from '../../hooks/useJournalKey';
+
+/**
+ * PrivateJournalUnlock - Passphrase prompt shown while the private journal is locked
+ *
+ * @component
+ *
+ * @example
+ * return (
+ *   {status === 'locked' && <PrivateJournalUnlock />}
+ * )
+ */
+const PrivateJournalUnlock = React.memo(function PrivateJournalUnlock() {
+  const { unlock } = useJournalKey();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    const result = await unlock(passphrase);
+    setIsUnlocking(false);
+
+    if (result.success) {
+      setPassphrase('');
+    } else {
+      setError(result.error || null);
+    }
+  };
+
+  return (
+    <motion.section
+      className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20 mb-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      aria-labelledby="private-journal-unlock-title"
+    >
+      <h3 id="private-journal-unlock-title" className="flex items-center text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200">
+        <Lock className="w-4 h-4 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {JOURNAL.PRIVACY.UNLOCK_TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+        {JOURNAL.PRIVACY.UNLOCK_DESCRIPTION}
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={JOURNAL.PRIVACY.PASSPHRASE_PLACEHOLDER}
+          aria-label={JOURNAL.PRIVACY.PASSPHRASE_PLACEHOLDER}
+          autoComplete="current-password"
+          disabled={isUnlocking}
+          className="flex-1 px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200"
+        />
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="flex items-center justify-center px-6 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-medium rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Unlock className="w-4 h-4 mr-2" aria-hidden="true" />
+          {isUnlocking ? JOURNAL.PRIVACY.UNLOCKING : JOURNAL.PRIVACY.UNLOCK}
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+      <p className="mt-3 text-xs text-zen-sage-500 dark:text-gray-400">
+        {JOURNAL.PRIVACY.FORGOT}
+      </p>
+    </motion.section>
+  );
+});
+
+export default PrivateJournalUnlock;
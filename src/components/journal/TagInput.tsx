@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { JOURNAL } from '../../constants/uiStrings';
+import { MAX_TAGS_PER_ENTRY, normalizeTag, normalizeTags } from '../../utils/tagUtils';
+
+/**
+ * TagInput - Chip-style input for adding and removing entry tags
+ *
+ * @component
+ * @param {string[]} tags - Currently selected tags
+ * @param {function} onTagsChange - Function called with the updated tag list
+ * @param {string[]} [suggestions] - Previously used tags to offer as quick picks
+ * @param {boolean} [disabled] - Whether the input is disabled
+ * @param {string} [id] - Id for the text input, used by the label
+ *
+ * @example
+ * return (
+ *   <TagInput
+ *     tags={selectedTags}
+ *     onTagsChange={setSelectedTags}
+ *     suggestions={['work', 'family']}
+ *   />
+ * )
+ */
+interface TagInputProps {
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+  suggestions?: string[];
+  disabled?: boolean;
+  id?: string;
+}
+
+const TagInput = React.memo(function TagInput({
+  tags,
+  onTagsChange,
+  suggestions = [],
+  disabled = false,
+  id = 'entry-tags'
+}: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const isFull = tags.length >= MAX_TAGS_PER_ENTRY;
+  const unusedSuggestions = suggestions.filter(suggestion => !tags.includes(suggestion)).slice(0, 8);
+
+  const addTag = (rawTag: string) => {
+    const tag = normalizeTag(rawTag);
+    if (!tag || isFull) return;
+    onTagsChange(normalizeTags([...tags, tag]));
+    setDraft('');
+  };
+
+  const removeTag = (tag: string) => {
+    onTagsChange(tags.filter(existing => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 bg-white/50 dark:bg-gray-700/50 border border-zen-mint-200 dark:border-gray-600 rounded-xl focus-within:ring-2 focus-within:ring-zen-mint-400 transition-all duration-300">
+        <Tag className="w-4 h-4 text-zen-sage-400 dark:text-gray-500" aria-hidden="true" />
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center space-x-1 px-2 py-1 bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-700 dark:text-zen-mint-300 text-sm rounded-lg"
+          >
+            <span>#{tag}</span>
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              disabled={disabled}
+              className="hover:text-zen-mint-900 dark:hover:text-zen-mint-100"
+              aria-label={JOURNAL.TAGS.REMOVE.replace('{tag}', tag)}
+            >
+              <X className="w-3 h-3" aria-hidden="true" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => addTag(draft)}
+          placeholder={isFull ? '' : JOURNAL.TAGS.PLACEHOLDER}
+          className="flex-1 min-w-[8rem] py-1 bg-transparent focus:outline-none text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-500"
+          disabled={disabled || isFull}
+        />
+      </div>
+
+      {isFull ? (
+        <p className="mt-1 text-xs text-zen-sage-500 dark:text-gray-400">
+          {JOURNAL.TAGS.LIMIT_REACHED.replace('{count}', String(MAX_TAGS_PER_ENTRY))}
+        </p>
+      ) : unusedSuggestions.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {unusedSuggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => addTag(suggestion)}
+              disabled={disabled}
+              className="px-2 py-1 text-xs bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 rounded-lg hover:bg-zen-sage-200 dark:hover:bg-gray-500 transition-colors"
+            >
+              + {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default TagInput;
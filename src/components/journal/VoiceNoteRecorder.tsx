@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Loader2, Mic, Square, Trash2 } from 'lucide-react';
+import { useVoiceRecorder } from '../../hooks/useVoiceRecorder';
+import { MAX_RECORDING_SECONDS, formatDuration } from '../../utils/voiceRecording';
+import { VoiceNote } from '../../types';
+import { JOURNAL } from '../../constants/uiStrings';
+
+const STRINGS = JOURNAL.VOICE;
+
+/**
+ * VoiceNoteRecorder - Speak an entry instead of typing it
+ *
+ * Records a voice note, has it transcribed and hands the transcript to the form
+ * so the user can edit it. The recording itself is saved with the entry.
+ *
+ * @component
+ * @param {VoiceNote|null} voiceNote - Recording attached to the entry
+ * @param {function} onVoiceNoteChange - Function called with a new recording, or null when it is removed
+ * @param {function} onTranscript - Function called with the words that were heard
+ * @param {boolean} [disabled=false] - Whether recording is disabled
+ * @param {string|null} [blockedReason] - Why recording isn't available for this entry
+ * @param {boolean} [isPremiumUser=true] - Whether the user can record voice notes
+ * @param {function} [onUpsellTrigger] - Function called when a free user tries to record
+ *
+ * @example
+ * return (
+ *   <VoiceNoteRecorder
+ *     voiceNote={voiceNote}
+ *     onVoiceNoteChange={setVoiceNote}
+ *     onTranscript={appendToEntry}
+ *   />
+ * )
+ */
+interface VoiceNoteRecorderProps {
+  voiceNote: VoiceNote | null;
+  onVoiceNoteChange: (note: VoiceNote | null) => void;
+  onTranscript: (text: string) => void;
+  disabled?: boolean;
+  blockedReason?: string | null;
+  isPremiumUser?: boolean;
+  onUpsellTrigger?: () => void;
+}
+
+const VoiceNoteRecorder = React.memo(function VoiceNoteRecorder({
+  voiceNote,
+  onVoiceNoteChange,
+  onTranscript,
+  disabled = false,
+  blockedReason,
+  isPremiumUser = true,
+  onUpsellTrigger = () => {}
+}: VoiceNoteRecorderProps) {
+  const [notice, setNotice] = useState<string | null>(null);
+  const { status, elapsedSeconds, error, isSupported, start, stop, discard } = useVoiceRecorder(
+    (note, transcript) => {
+      // Re-recording replaces the clip; the old one is no longer needed
+      if (voiceNote) discard(voiceNote.path);
+      onVoiceNoteChange(note);
+
+      const text = transcript.trim();
+      setNotice(text ? STRINGS.TRANSCRIBED : STRINGS.EMPTY_TRANSCRIPT);
+      if (text) onTranscript(text);
+    }
+  );
+
+  const isRecording = status === 'recording';
+  const isBusy = status === 'transcribing';
+  const isUnavailable = disabled || !isSupported || !!blockedReason;
+
+  const handleRecordClick = () => {
+    if (isRecording) {
+      stop();
+      return;
+    }
+
+    if (!isPremiumUser) {
+      onUpsellTrigger();
+      return;
+    }
+
+    setNotice(null);
+    start();
+  };
+
+  const handleRemove = () => {
+    if (!voiceNote) return;
+    discard(voiceNote.path);
+    onVoiceNoteChange(null);
+    setNotice(null);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleRecordClick}
+          disabled={isBusy || (isUnavailable && !isRecording)}
+          className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            isRecording
+              ? 'bg-red-500 text-white hover:bg-red-600'
+              : 'bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-700 dark:text-zen-mint-300 hover:bg-zen-mint-200 dark:hover:bg-zen-mint-900/50'
+          }`}
+          aria-pressed={isRecording}
+        >
+          {isBusy ? (
+            <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          ) : isRecording ? (
+            <Square className="w-4 h-4" aria-hidden="true" />
+          ) : (
+            <Mic className="w-4 h-4" aria-hidden="true" />
+          )}
+          <span>{isRecording ? STRINGS.STOP : STRINGS.RECORD}</span>
+        </button>
+
+        {voiceNote && !isRecording && !isBusy && (
+          <span className="flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300">
+            <Mic className="w-3 h-3" aria-hidden="true" />
+            <span>{STRINGS.PLAY_LABEL.replace('{time}', formatDuration(voiceNote.durationSeconds))}</span>
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={disabled}
+              className="ml-1 p-0.5 text-red-500 hover:text-red-700 rounded"
+              aria-label={STRINGS.REMOVE}
+            >
+              <Trash2 className="w-3 h-3" aria-hidden="true" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      <p className="mt-2 text-xs text-zen-sage-500 dark:text-gray-400" aria-live="polite">
+        {isRecording
+          ? STRINGS.RECORDING
+            .replace('{time}', formatDuration(elapsedSeconds))
+            .replace('{max}', formatDuration(MAX_RECORDING_SECONDS))
+          : isBusy
+            ? STRINGS.TRANSCRIBING
+            : !isSupported
+              ? STRINGS.UNSUPPORTED
+              : blockedReason || notice || STRINGS.HELP}
+      </p>
+
+      {error && (
+        <p className="mt-1 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+    </div>
+  );
+});
+
+export default VoiceNoteRecorder;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Flag } from 'lucide-react';
+import { JOURNAL } from '../../constants/uiStrings';
+import { WeeklyGoalProgress, formatWeekRange, getGoalRatio } from '../../utils/weeklyGoal';
+
+const RING_RADIUS = 36;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+/**
+ * WeeklyGoalCard - Progress ring for this week's journaling goal and a row of past weeks
+ *
+ * @component
+ * @param {WeeklyGoalProgress} progress - Result of get_weekly_goal_progress
+ *
+ * @example
+ * return (
+ *   <WeeklyGoalCard progress={weeklyGoal} />
+ * )
+ */
+interface WeeklyGoalCardProps {
+  progress: WeeklyGoalProgress;
+}
+
+const WeeklyGoalCard = React.memo(function WeeklyGoalCard({ progress }: WeeklyGoalCardProps) {
+  const { current_week: week, goal, history, goal_streak: goalStreak } = progress;
+  const ratio = getGoalRatio(week.days_journaled, goal);
+
+  const getStatusText = () => {
+    if (week.met) return JOURNAL.WEEKLY_GOAL.REACHED;
+    if (week.days_left <= 1) return JOURNAL.WEEKLY_GOAL.LAST_DAY;
+    return JOURNAL.WEEKLY_GOAL.DAYS_LEFT.replace('{count}', String(week.days_left));
+  };
+
+  const getWeekLabel = (pastWeek: WeeklyGoalProgress['history'][number]) => {
+    const range = formatWeekRange(pastWeek.week_start);
+    if (pastWeek.met) return JOURNAL.WEEKLY_GOAL.WEEK_MET.replace('{range}', range);
+    if (pastWeek.frozen) return JOURNAL.WEEKLY_GOAL.WEEK_FROZEN.replace('{range}', range);
+    return JOURNAL.WEEKLY_GOAL.WEEK_MISSED
+      .replace('{range}', range)
+      .replace('{days}', String(pastWeek.days_journaled))
+      .replace('{goal}', String(pastWeek.goal));
+  };
+
+  const getWeekDotClass = (pastWeek: WeeklyGoalProgress['history'][number]) => {
+    if (pastWeek.met) return 'bg-zen-mint-400 dark:bg-zen-mint-500';
+    if (pastWeek.frozen) return 'bg-sky-300 dark:bg-sky-500';
+    return 'bg-zen-sage-200 dark:bg-gray-600';
+  };
+
+  return (
+    <motion.section
+      className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20 mb-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      aria-labelledby="weekly-goal-title"
+    >
+      <div className="flex items-center space-x-6">
+        {/* Progress Ring */}
+        <div className="relative w-24 h-24 flex-shrink-0">
+          <svg className="w-24 h-24 -rotate-90" viewBox="0 0 88 88" aria-hidden="true">
+            <circle
+              cx="44"
+              cy="44"
+              r={RING_RADIUS}
+              fill="none"
+              strokeWidth="8"
+              className="stroke-zen-sage-100 dark:stroke-gray-700"
+            />
+            <motion.circle
+              cx="44"
+              cy="44"
+              r={RING_RADIUS}
+              fill="none"
+              strokeWidth="8"
+              strokeLinecap="round"
+              className="stroke-zen-mint-400 dark:stroke-zen-mint-500"
+              strokeDasharray={RING_CIRCUMFERENCE}
+              initial={{ strokeDashoffset: RING_CIRCUMFERENCE }}
+              animate={{ strokeDashoffset: RING_CIRCUMFERENCE * (1 - ratio) }}
+              transition={{ duration: 0.8, ease: 'easeOut' }}
+            />
+          </svg>
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <span className="text-xl font-bold text-zen-sage-800 dark:text-gray-200">
+              {week.days_journaled}/{goal}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <h3 id="weekly-goal-title" className="flex items-center text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200">
+            <Flag className="w-4 h-4 mr-2 text-zen-mint-500" aria-hidden="true" />
+            {JOURNAL.WEEKLY_GOAL.TITLE}
+          </h3>
+          <p className="text-sm text-zen-sage-700 dark:text-gray-300">
+            {JOURNAL.WEEKLY_GOAL.PROGRESS
+              .replace('{days}', String(week.days_journaled))
+              .replace('{goal}', String(goal))}
+          </p>
+          <p className="text-sm text-zen-sage-500 dark:text-gray-400">{getStatusText()}</p>
+          {goalStreak > 1 && (
+            <p className="text-xs font-medium text-zen-peach-600 dark:text-zen-peach-400 mt-1">
+              {JOURNAL.WEEKLY_GOAL.GOAL_STREAK.replace('{count}', String(goalStreak))}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Past Weeks */}
+      {history.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400 mb-2">
+            {JOURNAL.WEEKLY_GOAL.HISTORY_LABEL.replace('{count}', String(history.length))}
+          </p>
+          <ol className="flex items-center space-x-1.5">
+            {history.map(pastWeek => (
+              <li
+                key={pastWeek.week_start}
+                className={`h-3 flex-1 rounded-full ${getWeekDotClass(pastWeek)}`}
+                title={getWeekLabel(pastWeek)}
+                aria-label={getWeekLabel(pastWeek)}
+              />
+            ))}
+          </ol>
+        </div>
+      )}
+    </motion.section>
+  );
+});
+
+export default WeeklyGoalCard;
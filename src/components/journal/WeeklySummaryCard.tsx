@@ -0,0 +1,100 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { JOURNAL } from '../../constants/uiStrings';
+import { moods } from '../../data/moods';
+import { LastWeekSummary, formatWeekRange, getDaysChange } from '../../utils/weeklyGoal';
+
+/**
+ * WeeklySummaryCard - End-of-week summary of last week's journaling
+ *
+ * @component
+ * @param {LastWeekSummary} summary - last_week from get_weekly_goal_progress
+ * @param {Function} onDismiss - Called when the user closes the summary
+ *
+ * @example
+ * return (
+ *   <WeeklySummaryCard summary={progress.last_week} onDismiss={handleDismiss} />
+ * )
+ */
+interface WeeklySummaryCardProps {
+  summary: LastWeekSummary;
+  onDismiss: () => void;
+}
+
+const WeeklySummaryCard = React.memo(function WeeklySummaryCard({ summary, onDismiss }: WeeklySummaryCardProps) {
+  const daysChange = getDaysChange(summary);
+  const topMood = moods.find(mood => mood.label.toLowerCase() === summary.top_mood);
+
+  const getChangeText = () => {
+    if (daysChange === null) return null;
+    if (daysChange > 0) return JOURNAL.WEEKLY_SUMMARY.MORE_DAYS.replace('{count}', String(daysChange));
+    if (daysChange < 0) return JOURNAL.WEEKLY_SUMMARY.FEWER_DAYS.replace('{count}', String(-daysChange));
+    return JOURNAL.WEEKLY_SUMMARY.SAME_DAYS;
+  };
+
+  const getChangeIcon = () => {
+    if (daysChange === null) return null;
+    if (daysChange > 0) return <TrendingUp className="w-4 h-4 text-zen-mint-500" aria-hidden="true" />;
+    if (daysChange < 0) return <TrendingDown className="w-4 h-4 text-zen-peach-500" aria-hidden="true" />;
+    return <Minus className="w-4 h-4 text-zen-sage-400" aria-hidden="true" />;
+  };
+
+  const changeText = getChangeText();
+
+  return (
+    <motion.section
+      className="relative bg-gradient-to-br from-zen-mint-50 to-zen-peach-50 dark:from-gray-800 dark:to-gray-700 rounded-3xl p-6 shadow-xl border border-zen-mint-200 dark:border-gray-600 mb-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      transition={{ duration: 0.4 }}
+      aria-labelledby="weekly-summary-title"
+    >
+      <button
+        onClick={onDismiss}
+        className="absolute top-4 right-4 p-1 rounded-full text-zen-sage-500 hover:text-zen-sage-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+        aria-label={JOURNAL.WEEKLY_SUMMARY.DISMISS}
+      >
+        <X className="w-4 h-4" />
+      </button>
+
+      <h3 id="weekly-summary-title" className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200">
+        {JOURNAL.WEEKLY_SUMMARY.TITLE}
+      </h3>
+      <p className="text-xs text-zen-sage-500 dark:text-gray-400 mb-3">{formatWeekRange(summary.week_start)}</p>
+
+      <p className="text-sm text-zen-sage-700 dark:text-gray-300 mb-4">
+        {(summary.met ? JOURNAL.WEEKLY_SUMMARY.MET : JOURNAL.WEEKLY_SUMMARY.MISSED)
+          .replace('{days}', String(summary.days_journaled))
+          .replace('{goal}', String(summary.goal))}
+      </p>
+
+      <dl className="grid grid-cols-3 gap-3 text-center mb-3">
+        <div>
+          <dt className="text-xs text-zen-sage-500 dark:text-gray-400">{JOURNAL.WEEKLY_SUMMARY.ENTRIES}</dt>
+          <dd className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">{summary.entries}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-zen-sage-500 dark:text-gray-400">{JOURNAL.WEEKLY_SUMMARY.WORDS}</dt>
+          <dd className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">{summary.words}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-zen-sage-500 dark:text-gray-400">{JOURNAL.WEEKLY_SUMMARY.TOP_MOOD}</dt>
+          <dd className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">
+            {topMood ? <span title={topMood.label}>{topMood.emoji}</span> : '–'}
+          </dd>
+        </div>
+      </dl>
+
+      {changeText && (
+        <p className="flex items-center justify-center space-x-2 text-xs text-zen-sage-600 dark:text-gray-400">
+          {getChangeIcon()}
+          <span>{changeText}</span>
+        </p>
+      )}
+    </motion.section>
+  );
+});
+
+export default WeeklySummaryCard;
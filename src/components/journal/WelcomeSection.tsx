@@ -1,5 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { Snowflake } from 'lucide-react';
 import { User } from '../../contexts/AuthContext';
 import { JOURNAL } from '../../constants/uiStrings';
 
@@ -8,6 +9,10 @@ import { JOURNAL } from '../../constants/uiStrings';
  * 
  * @component
  * @param {User|null} user - Current user object
+ * @param {number} [streak] - Current streak, in streakPeriod units
+ * @param {number} [bestStreak] - Best streak, in streakPeriod units
+ * @param {'day'|'week'} [streakPeriod] - Whether streaks count days or weeks
+ * @param {number} [streakFreezes] - Unused streak freezes
  * @param {number} totalEntries - Total number of journal entries
  * @param {boolean} alreadyJournaledToday - Whether user has journaled today
  * @param {string} [contextualMessage] - Optional contextual message based on recent activity
@@ -26,6 +31,8 @@ interface WelcomeSectionProps {
   user: User | null;
   streak?: number;
   bestStreak?: number;
+  streakPeriod?: 'day' | 'week';
+  streakFreezes?: number;
   totalEntries: number;
   alreadyJournaledToday: boolean;
   contextualMessage?: string;
@@ -35,6 +42,8 @@ const WelcomeSection = React.memo(function WelcomeSection({
   user,
   streak = 0,
   bestStreak = 0,
+  streakPeriod = 'day',
+  streakFreezes = 0,
   totalEntries,
   alreadyJournaledToday,
   contextualMessage
@@ -80,7 +89,9 @@ const WelcomeSection = React.memo(function WelcomeSection({
             transition={{ delay: 0.1 }}
           > 
             <div className="text-2xl font-bold text-zen-mint-600 dark:text-zen-mint-400">{streak}</div>
-            <div className="text-sm text-zen-sage-600 dark:text-gray-400">Current {streak === 1 ? 'Day' : 'Days'}</div>
+            <div className="text-sm text-zen-sage-600 dark:text-gray-400">
+              Current {streakPeriod === 'week' ? (streak === 1 ? 'Week' : 'Weeks') : (streak === 1 ? 'Day' : 'Days')}
+            </div>
           </motion.div>
           
           {/* Best Streak */}
@@ -93,6 +104,28 @@ const WelcomeSection = React.memo(function WelcomeSection({
             <div className="text-2xl font-bold text-zen-peach-600 dark:text-zen-peach-400">{bestStreak}</div>
             <div className="text-sm text-zen-sage-600 dark:text-gray-400">Best {bestStreak === 1 ? 'Streak' : 'Streak'}</div>
           </motion.div>
+
+          {/* Streak Freezes */}
+          {streakFreezes > 0 && (
+            <motion.div
+              className="flex justify-center"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.25 }}
+            >
+              <div
+                className="inline-flex items-center space-x-1 text-xs text-zen-sage-600 dark:text-gray-400"
+                title={JOURNAL.STREAK.FREEZE_HELP}
+              >
+                <Snowflake className="w-3 h-3 text-zen-mint-500" aria-hidden="true" />
+                <span>
+                  {streakFreezes === 1
+                    ? JOURNAL.STREAK.FREEZE_READY
+                    : JOURNAL.STREAK.FREEZES_READY.replace('{count}', String(streakFreezes))}
+                </span>
+              </div>
+            </motion.div>
+          )}
           
         {/* Total Entries Stat */}
         <motion.div 
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { Fingerprint, KeyRound, Lock, ShieldCheck } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+import { useAppLock } from '../../hooks/useAppLock';
+import { IDLE_TIMEOUT_OPTIONS } from '../../lib/appLock';
+
+const inputClassName = 'w-full px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200';
+const secondaryButtonClassName = 'flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors w-full disabled:opacity-50';
+
+type AppLockStep = 'pin' | 'turn-off' | null;
+
+function getIdleLabel(minutes: number): string {
+  return minutes === 1
+    ? SETTINGS.APP_LOCK.IDLE_OPTION_ONE
+    : SETTINGS.APP_LOCK.IDLE_OPTION.replace('{count}', String(minutes));
+}
+
+/**
+ * AppLockSection - Turn the app lock on or off for this device and choose its idle timeout
+ *
+ * @component
+ * @param {function} onSuccess - Function called with a message after a change is saved
+ *
+ * @example
+ * return (
+ *   <AppLockSection onSuccess={showSuccess} />
+ * )
+ */
+interface AppLockSectionProps {
+  onSuccess: (message: string) => void;
+}
+
+const AppLockSection = React.memo(function AppLockSection({ onSuccess }: AppLockSectionProps) {
+  const {
+    isEnabled,
+    method,
+    idleMinutes,
+    isDeviceUnlockAvailable,
+    enableWithPin,
+    enableWithDevice,
+    setIdleMinutes,
+    disable,
+    lock
+  } = useAppLock();
+
+  const [step, setStep] = useState<AppLockStep>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [newIdleMinutes, setNewIdleMinutes] = useState(idleMinutes);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setStep(null);
+    setPin('');
+    setConfirmPin('');
+    setError(null);
+  };
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, successMessage: string) => {
+    setIsWorking(true);
+    setError(null);
+    const result = await action();
+    setIsWorking(false);
+
+    if (!result.success) {
+      setError(result.error || null);
+      return;
+    }
+
+    resetForm();
+    onSuccess(successMessage);
+  };
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isWorking) return;
+
+    if (step === 'turn-off') {
+      runAction(() => disable(pin), SETTINGS.APP_LOCK.TURNED_OFF);
+      return;
+    }
+
+    if (pin !== confirmPin) {
+      setError(SETTINGS.APP_LOCK.PIN_MISMATCH);
+      return;
+    }
+    runAction(() => enableWithPin(pin, newIdleMinutes), SETTINGS.APP_LOCK.TURNED_ON);
+  };
+
+  const handleTurnOff = () => {
+    if (method === 'pin') {
+      resetForm();
+      setStep('turn-off');
+    } else {
+      runAction(() => disable(), SETTINGS.APP_LOCK.TURNED_OFF);
+    }
+  };
+
+  const idleSelect = (
+    <div>
+      <label htmlFor="app-lock-idle" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+        {SETTINGS.APP_LOCK.IDLE_LABEL}
+      </label>
+      <select
+        id="app-lock-idle"
+        value={isEnabled ? idleMinutes : newIdleMinutes}
+        onChange={(e) => {
+          const minutes = Number(e.target.value);
+          if (isEnabled) {
+            setIdleMinutes(minutes);
+          } else {
+            setNewIdleMinutes(minutes);
+          }
+        }}
+        className={inputClassName}
+      >
+        {IDLE_TIMEOUT_OPTIONS.map(minutes => (
+          <option key={minutes} value={minutes}>{getIdleLabel(minutes)}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center">
+        <ShieldCheck className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {SETTINGS.APP_LOCK.TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+        {isEnabled
+          ? `${SETTINGS.APP_LOCK.ENABLED}. ${method === 'webauthn' ? SETTINGS.APP_LOCK.METHOD_DEVICE : SETTINGS.APP_LOCK.METHOD_PIN}.`
+          : SETTINGS.APP_LOCK.DESCRIPTION}
+      </p>
+
+      <div className="space-y-4">
+        {step ? (
+          <form onSubmit={handlePinSubmit} className="space-y-3">
+            {step === 'turn-off' && (
+              <p className="text-sm text-zen-sage-600 dark:text-gray-400">{SETTINGS.APP_LOCK.TURN_OFF_CONFIRM}</p>
+            )}
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              placeholder={SETTINGS.APP_LOCK.PIN}
+              aria-label={SETTINGS.APP_LOCK.PIN}
+              aria-describedby={step === 'pin' ? 'app-lock-pin-help' : undefined}
+              className={inputClassName}
+            />
+            {step === 'pin' && (
+              <>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={8}
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder={SETTINGS.APP_LOCK.CONFIRM_PIN}
+                  aria-label={SETTINGS.APP_LOCK.CONFIRM_PIN}
+                  className={inputClassName}
+                />
+                <p id="app-lock-pin-help" className="text-xs text-zen-sage-500 dark:text-gray-400">
+                  {SETTINGS.APP_LOCK.PIN_HELP}
+                </p>
+              </>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                disabled={isWorking || !pin}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-medium rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {step === 'turn-off' ? SETTINGS.APP_LOCK.TURN_OFF : SETTINGS.APP_LOCK.SAVE}
+              </button>
+              <button
+                type="button"
+                onClick={resetForm}
+                disabled={isWorking}
+                className="px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                {SETTINGS.APP_LOCK.CANCEL}
+              </button>
+            </div>
+          </form>
+        ) : isEnabled ? (
+          <>
+            {idleSelect}
+            <button type="button" onClick={lock} className={secondaryButtonClassName}>
+              <Lock className="w-4 h-4" aria-hidden="true" />
+              <span>{SETTINGS.APP_LOCK.LOCK_NOW}</span>
+            </button>
+            <button type="button" onClick={handleTurnOff} disabled={isWorking} className={secondaryButtonClassName}>
+              <KeyRound className="w-4 h-4" aria-hidden="true" />
+              <span>{SETTINGS.APP_LOCK.TURN_OFF}</span>
+            </button>
+          </>
+        ) : (
+          <>
+            {idleSelect}
+            <button type="button" onClick={() => setStep('pin')} className={secondaryButtonClassName}>
+              <KeyRound className="w-4 h-4" aria-hidden="true" />
+              <span>{SETTINGS.APP_LOCK.USE_PIN}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => runAction(() => enableWithDevice(newIdleMinutes), SETTINGS.APP_LOCK.TURNED_ON)}
+              disabled={!isDeviceUnlockAvailable || isWorking}
+              className={secondaryButtonClassName}
+              aria-describedby="app-lock-device-help"
+            >
+              <Fingerprint className="w-4 h-4" aria-hidden="true" />
+              <span>{SETTINGS.APP_LOCK.USE_DEVICE}</span>
+            </button>
+            <p id="app-lock-device-help" className="text-xs text-zen-sage-500 dark:text-gray-400">
+              {isDeviceUnlockAvailable ? SETTINGS.APP_LOCK.DEVICE_HELP : SETTINGS.APP_LOCK.DEVICE_UNAVAILABLE}
+            </p>
+          </>
+        )}
+
+        {!step && error && (
+          <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default AppLockSection;
@@ -1,39 +1,67 @@
 import React from 'react';
 import { Moon, Sun, Bell } from 'lucide-react';
 import { SETTINGS } from '../../constants/uiStrings';
+import { ReminderSettings } from '../../hooks/useReminderSettings';
+import ReminderSettingsForm from './ReminderSettingsForm';
 
 /**
  * AppPreferencesSection - Component for app preferences like dark mode and notifications
  * 
  * @component
  * @param {boolean} isDarkMode - Whether dark mode is enabled
- * @param {boolean} notifications - Whether notifications are enabled
+ * @param {boolean} notifications - Whether journaling reminders are enabled
+ * @param {string} notificationPermission - Browser notification permission, or 'unsupported'
+ * @param {ReminderSettings|null} reminderSettings - Saved reminder settings, once loaded
+ * @param {boolean} isSavingReminders - Whether reminder settings are being saved
  * @param {function} onToggleDarkMode - Function to toggle dark mode
  * @param {function} onToggleNotifications - Function to toggle notifications
+ * @param {function} onSaveReminderSettings - Function to save reminder settings
  * 
  * @example
  * return (
  *   <AppPreferencesSection
  *     isDarkMode={isDarkMode}
  *     notifications={notifications}
+ *     notificationPermission={permission}
+ *     reminderSettings={reminderSettings}
+ *     isSavingReminders={isSavingReminders}
  *     onToggleDarkMode={handleToggleDarkMode}
  *     onToggleNotifications={handleToggleNotifications}
+ *     onSaveReminderSettings={saveReminderSettings}
  *   />
  * )
  */
 interface AppPreferencesSectionProps {
   isDarkMode: boolean;
   notifications: boolean;
+  notificationPermission: NotificationPermission | 'unsupported';
+  reminderSettings: ReminderSettings | null;
+  isSavingReminders: boolean;
   onToggleDarkMode: (enabled: boolean) => void;
   onToggleNotifications: (enabled: boolean) => void;
+  onSaveReminderSettings: (changes: Partial<ReminderSettings>) => Promise<boolean>;
 }
 
 const AppPreferencesSection = React.memo(function AppPreferencesSection({
   isDarkMode,
   notifications,
+  notificationPermission,
+  reminderSettings,
+  isSavingReminders,
   onToggleDarkMode,
-  onToggleNotifications
+  onToggleNotifications,
+  onSaveReminderSettings
 }: AppPreferencesSectionProps) {
+  // Reminders can always be turned off, but only turned on where the browser allows it
+  const canEnableNotifications = notificationPermission === 'default' || notificationPermission === 'granted';
+
+  const getNotificationsDescription = () => {
+    if (notifications) return SETTINGS.PREFERENCES.NOTIFICATIONS.DESCRIPTION;
+    if (notificationPermission === 'unsupported') return SETTINGS.PREFERENCES.NOTIFICATIONS.UNSUPPORTED;
+    if (notificationPermission === 'denied') return SETTINGS.PREFERENCES.NOTIFICATIONS.BLOCKED;
+    return SETTINGS.PREFERENCES.NOTIFICATIONS.DESCRIPTION;
+  };
+
   return (
     <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
       <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4">
@@ -74,32 +102,45 @@ const AppPreferencesSection = React.memo(function AppPreferencesSection({
         </div>
 
         {/* Notifications Toggle */}
-        <div className="flex items-center justify-between p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
-          <div className="flex items-center space-x-3">
-            <Bell className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" aria-hidden="true" />
-            <div>
-              <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">{SETTINGS.PREFERENCES.NOTIFICATIONS.LABEL}</h4>
-              <p className="text-sm text-zen-sage-600 dark:text-gray-400">
-                {SETTINGS.PREFERENCES.NOTIFICATIONS.DESCRIPTION}
-              </p>
+        <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Bell className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" aria-hidden="true" />
+              <div>
+                <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">{SETTINGS.PREFERENCES.NOTIFICATIONS.LABEL}</h4>
+                <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+                  {getNotificationsDescription()}
+                </p>
+              </div>
             </div>
-          </div>
-          <button
-            onClick={() => onToggleNotifications(!notifications)}
-            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-              notifications ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
-            }`}
-            role="switch"
-            aria-checked={notifications}
-            aria-label="Toggle notifications"
-          >
-            <span
-              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                notifications ? 'translate-x-6' : 'translate-x-1'
+            <button
+              onClick={() => onToggleNotifications(!notifications)}
+              disabled={isSavingReminders || (!notifications && !canEnableNotifications)}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                notifications ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
               }`}
-              aria-hidden="true"
-            />
-          </button>
+              role="switch"
+              aria-checked={notifications}
+              aria-label="Toggle notifications"
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  notifications ? 'translate-x-6' : 'translate-x-1'
+                }`}
+                aria-hidden="true"
+              />
+            </button>
+          </div>
+
+          {reminderSettings && (
+            <div className="mt-4 pt-4 border-t border-zen-sage-200 dark:border-gray-600">
+              <ReminderSettingsForm
+                settings={reminderSettings}
+                isSaving={isSavingReminders}
+                onSave={onSaveReminderSettings}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,31 +1,63 @@
-import React from 'react';
-import { Download, Shield } from 'lucide-react';
+import React, { useState } from 'react';
+import { Download, Shield, Upload } from 'lucide-react';
 import { SETTINGS } from '../../constants/uiStrings';
+import { moods } from '../../data/moods';
+import { THEMES } from '../../data/diaryThemes';
+import { ExportFormat } from '../../utils/exportFormats';
+import { JournalExportOptions } from '../../hooks/useJournalExport';
+
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'markdown', 'csv', 'zip', 'pdf'];
 
 /**
- * DataPrivacySection - Component for data privacy related actions like exporting data
+ * DataPrivacySection - Component for data privacy related actions like exporting and importing data
  * 
  * @component
  * @param {boolean} isExporting - Whether data export is in progress
- * @param {function} onExportData - Function to trigger data export
+ * @param {function} onExportData - Function called with the chosen format and filters
+ * @param {function} onOpenImport - Function to open the journal import dialog
  * 
  * @example
  * return (
  *   <DataPrivacySection
  *     isExporting={isExporting}
- *     onExportData={handleExportData}
+ *     onExportData={(options) => handleExportData(options)}
+ *     onOpenImport={() => setShowImportModal(true)}
  *   />
  * )
  */
 interface DataPrivacySectionProps {
   isExporting: boolean;
-  onExportData: () => Promise<void>;
+  onExportData: (options: JournalExportOptions) => Promise<void>;
+  onOpenImport: () => void;
 }
 
 const DataPrivacySection = React.memo(function DataPrivacySection({
   isExporting,
-  onExportData
+  onExportData,
+  onOpenImport
 }: DataPrivacySectionProps) {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [selectedMoods, setSelectedMoods] = useState<string[]>([]);
+  const [theme, setTheme] = useState(THEMES[0].name);
+
+  const toggleMood = (mood: string) => {
+    setSelectedMoods(prev =>
+      prev.includes(mood) ? prev.filter(m => m !== mood) : [...prev, mood]
+    );
+  };
+
+  const handleExport = () => {
+    onExportData({
+      format,
+      startDate: startDate || null,
+      endDate: endDate || null,
+      moods: selectedMoods,
+      theme
+    });
+  };
+
   return (
     <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
       <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4 flex items-center">
@@ -34,8 +66,116 @@ const DataPrivacySection = React.memo(function DataPrivacySection({
       </h3>
       
       <div className="space-y-4">
+        {/* Export Format */}
+        <fieldset>
+          <legend className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+            {SETTINGS.DATA_PRIVACY.EXPORT_FORMAT_LABEL}
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {EXPORT_FORMATS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setFormat(option)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-all duration-300 ${
+                  format === option
+                    ? 'bg-zen-mint-400 text-white shadow-md'
+                    : 'bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-600'
+                }`}
+                aria-pressed={format === option}
+              >
+                {SETTINGS.DATA_PRIVACY.EXPORT_FORMATS[option]}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-zen-sage-500 dark:text-gray-400">
+            {SETTINGS.DATA_PRIVACY.EXPORT_FORMAT_HELP[format]}
+          </p>
+        </fieldset>
+
+        {/* Date Range */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="export-start-date" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-1">
+              {SETTINGS.DATA_PRIVACY.EXPORT_DATE_FROM}
+            </label>
+            <input
+              id="export-start-date"
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full px-3 py-2 bg-white/70 dark:bg-gray-700 border border-zen-sage-200 dark:border-gray-600 rounded-xl text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+            />
+          </div>
+          <div>
+            <label htmlFor="export-end-date" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-1">
+              {SETTINGS.DATA_PRIVACY.EXPORT_DATE_TO}
+            </label>
+            <input
+              id="export-end-date"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-full px-3 py-2 bg-white/70 dark:bg-gray-700 border border-zen-sage-200 dark:border-gray-600 rounded-xl text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+            />
+          </div>
+        </div>
+
+        {/* Mood Filter */}
+        <fieldset>
+          <legend className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+            {SETTINGS.DATA_PRIVACY.EXPORT_MOODS_LABEL}
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {moods.map(mood => {
+              const value = mood.label.toLowerCase();
+              const isSelected = selectedMoods.includes(value);
+              return (
+                <button
+                  key={mood.level}
+                  type="button"
+                  onClick={() => toggleMood(value)}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm transition-all duration-300 ${
+                    isSelected
+                      ? 'bg-zen-mint-400 text-white shadow-md'
+                      : 'bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-600'
+                  }`}
+                  aria-pressed={isSelected}
+                >
+                  <span aria-hidden="true">{mood.emoji}</span>
+                  <span>{mood.label}</span>
+                </button>
+              );
+            })}
+          </div>
+          <p className="mt-2 text-xs text-zen-sage-500 dark:text-gray-400">
+            {SETTINGS.DATA_PRIVACY.EXPORT_MOODS_HELP}
+          </p>
+        </fieldset>
+
+        {/* PDF Theme */}
+        {format === 'pdf' && (
+          <div>
+            <label htmlFor="export-theme" className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-1">
+              {SETTINGS.DATA_PRIVACY.EXPORT_THEME_LABEL}
+            </label>
+            <select
+              id="export-theme"
+              value={theme}
+              onChange={(e) => setTheme(e.target.value)}
+              className="w-full px-3 py-2 bg-white/70 dark:bg-gray-700 border border-zen-sage-200 dark:border-gray-600 rounded-xl text-zen-sage-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-zen-mint-400"
+            >
+              {THEMES.map(t => (
+                <option key={t.name} value={t.name}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <button
-          onClick={onExportData}
+          onClick={handleExport}
           disabled={isExporting}
           className="flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full"
           aria-label="Export your journal data"
@@ -56,6 +196,18 @@ const DataPrivacySection = React.memo(function DataPrivacySection({
         <p className="text-xs text-zen-sage-500 dark:text-gray-400">
           {SETTINGS.DATA_PRIVACY.EXPORT_HELP}
         </p>
+
+        <button
+          onClick={onOpenImport}
+          className="flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors w-full"
+        >
+          <Upload className="w-4 h-4" aria-hidden="true" />
+          <span>{SETTINGS.DATA_PRIVACY.IMPORT_BUTTON}</span>
+        </button>
+
+        <p className="text-xs text-zen-sage-500 dark:text-gray-400">
+          {SETTINGS.DATA_PRIVACY.IMPORT_HELP}
+        </p>
       </div>
      
      {/* Support Contact */}
@@ -0,0 +1,299 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Upload, FolderOpen, Image as ImageIcon, AlertCircle } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+import { moods } from '../../data/moods';
+import { usePremium } from '../../hooks/usePremium';
+import { useJournalImport, ImportPreview } from '../../hooks/useJournalImport';
+
+const STRINGS = SETTINGS.DATA_PRIVACY.IMPORT;
+
+/**
+ * JournalImportModal - Picks export files, previews the entries found and imports the selected ones
+ *
+ * Entries that already exist in the journal start unselected, so re-importing
+ * a backup only adds what is missing.
+ *
+ * @component
+ * @param {boolean} isOpen - Whether the modal is visible
+ * @param {function} onClose - Function to call when the modal is dismissed
+ * @param {function} onImported - Function called with the number of entries imported
+ *
+ * @example
+ * return (
+ *   <JournalImportModal
+ *     isOpen={showImportModal}
+ *     onClose={() => setShowImportModal(false)}
+ *     onImported={(count) => showSuccess(count)}
+ *   />
+ * )
+ */
+interface JournalImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const JournalImportModal = React.memo(function JournalImportModal({
+  isOpen,
+  onClose,
+  onImported
+}: JournalImportModalProps) {
+  const { isPremium, isTrialActive } = usePremium();
+  const { isPreparing, isImporting, progress, prepareImport, importEntries } = useJournalImport();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<{ imported: number; skippedPhotos: number } | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory isn't in React's input props, so set it directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isOpen, preview]);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setPreview(null);
+    setSelected(new Set());
+    setError('');
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    onClose();
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setError('');
+
+    const response = await prepareImport(Array.from(fileList));
+    if (!response.success || !response.preview) {
+      setError(response.error || 'Failed to read files');
+      return;
+    }
+
+    setPreview(response.preview);
+    setSelected(new Set(response.preview.entries.filter(entry => !entry.duplicate).map(entry => entry.key)));
+  };
+
+  const toggleEntry = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setError('');
+
+    const response = await importEntries(preview.entries.filter(entry => selected.has(entry.key)));
+    if (!response.success) {
+      setError(response.error || 'Failed to import entries');
+      return;
+    }
+
+    setResult({ imported: response.imported, skippedPhotos: response.skippedPhotos });
+    onImported(response.imported);
+  };
+
+  const duplicateCount = preview?.entries.filter(entry => entry.duplicate).length ?? 0;
+  const hasPhotos = preview?.entries.some(entry => entry.photo) ?? false;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={handleClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-title"
+      >
+        <motion.div
+          className="bg-white dark:bg-gray-800 rounded-3xl p-6 max-w-lg w-full max-h-[90vh] flex flex-col shadow-2xl border border-white/20 dark:border-gray-600/20"
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h3 id="import-title" className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4">
+            {STRINGS.TITLE}
+          </h3>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-2xl flex items-start space-x-2" role="alert">
+              <AlertCircle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" aria-hidden="true" />
+              <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+            </div>
+          )}
+
+          {result ? (
+            // Done
+            <div className="space-y-2 mb-6">
+              <p className="text-zen-sage-700 dark:text-gray-300">
+                {STRINGS.SUCCESS.replace('{count}', String(result.imported))}
+              </p>
+              {result.skippedPhotos > 0 && (
+                <p className="text-sm text-zen-sage-500 dark:text-gray-400">
+                  {STRINGS.SKIPPED_PHOTOS.replace('{count}', String(result.skippedPhotos))} {STRINGS.PHOTOS_PREMIUM}
+                </p>
+              )}
+            </div>
+          ) : preview ? (
+            // Preview
+            <>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+                  {STRINGS.PREVIEW_SUMMARY
+                    .replace('{count}', String(preview.entries.length))
+                    .replace('{duplicates}', String(duplicateCount))}
+                </p>
+                <div className="flex space-x-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setSelected(new Set(preview.entries.map(entry => entry.key)))}
+                    className="text-zen-mint-600 dark:text-zen-mint-400 hover:underline"
+                  >
+                    {STRINGS.SELECT_ALL}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(new Set())}
+                    className="text-zen-mint-600 dark:text-zen-mint-400 hover:underline"
+                  >
+                    {STRINGS.SELECT_NONE}
+                  </button>
+                </div>
+              </div>
+
+              {preview.warnings.map(warning => (
+                <p key={warning} className="mb-2 text-xs text-zen-peach-600 dark:text-zen-peach-400">{warning}</p>
+              ))}
+              {hasPhotos && !isPremium && !isTrialActive && (
+                <p className="mb-2 text-xs text-zen-peach-600 dark:text-zen-peach-400">{STRINGS.PHOTOS_PREMIUM}</p>
+              )}
+
+              <ul className="flex-1 overflow-y-auto space-y-2 mb-4 pr-1" aria-label="Entries to import">
+                {preview.entries.map(entry => {
+                  const mood = moods.find(m => m.label.toLowerCase() === entry.mood);
+                  return (
+                    <li key={entry.key}>
+                      <label className={`flex items-start space-x-3 p-3 rounded-2xl cursor-pointer transition-colors ${
+                        selected.has(entry.key)
+                          ? 'bg-zen-mint-50 dark:bg-gray-700'
+                          : 'bg-zen-sage-50 dark:bg-gray-700/50 opacity-70'
+                      }`}>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(entry.key)}
+                          onChange={() => toggleEntry(entry.key)}
+                          disabled={isImporting}
+                          className="mt-1 accent-zen-mint-500"
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center space-x-2 text-xs text-zen-sage-500 dark:text-gray-400">
+                            <span>{new Date(entry.created_at).toLocaleDateString()}</span>
+                            {mood && <span aria-label={mood.label}>{mood.emoji}</span>}
+                            {entry.photo && <ImageIcon className="w-3 h-3" aria-label={STRINGS.PHOTO} />}
+                            <span>{STRINGS.SOURCES[entry.source]}</span>
+                            {entry.duplicate && (
+                              <span className="px-2 py-0.5 rounded-full bg-zen-peach-100 dark:bg-zen-peach-900/30 text-zen-peach-700 dark:text-zen-peach-300">
+                                {STRINGS.DUPLICATE}
+                              </span>
+                            )}
+                          </div>
+                          <p className="font-medium text-zen-sage-800 dark:text-gray-200 truncate">
+                            {entry.title || STRINGS.UNTITLED}
+                          </p>
+                          <p className="text-sm text-zen-sage-600 dark:text-gray-400 line-clamp-2">{entry.content}</p>
+                        </div>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          ) : (
+            // Pick files
+            <div className="space-y-3 mb-6">
+              <p className="text-sm text-zen-sage-600 dark:text-gray-400">{STRINGS.INTRO}</p>
+              {isPreparing ? (
+                <div className="flex items-center space-x-2 text-zen-sage-600 dark:text-gray-400">
+                  <div className="w-4 h-4 border-2 border-zen-sage-600 border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+                  <span>{STRINGS.READING}</span>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="flex items-center justify-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors cursor-pointer">
+                    <Upload className="w-4 h-4" aria-hidden="true" />
+                    <span>{STRINGS.CHOOSE_FILES}</span>
+                    <input
+                      type="file"
+                      accept=".json,.zip,.md,.markdown,application/json,application/zip,text/markdown"
+                      multiple
+                      className="sr-only"
+                      onChange={(e) => handleFiles(e.target.files)}
+                    />
+                  </label>
+                  <label className="flex items-center justify-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors cursor-pointer">
+                    <FolderOpen className="w-4 h-4" aria-hidden="true" />
+                    <span>{STRINGS.CHOOSE_FOLDER}</span>
+                    <input
+                      ref={folderInputRef}
+                      type="file"
+                      multiple
+                      className="sr-only"
+                      onChange={(e) => handleFiles(e.target.files)}
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            {preview && !result && (
+              <button
+                onClick={reset}
+                disabled={isImporting}
+                className="flex-1 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+              >
+                {STRINGS.BACK}
+              </button>
+            )}
+            {preview && !result ? (
+              <button
+                onClick={handleImport}
+                disabled={isImporting || selected.size === 0}
+                className="flex-1 px-4 py-3 bg-zen-mint-400 text-white rounded-2xl hover:bg-zen-mint-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isImporting
+                  ? STRINGS.IMPORTING.replace('{done}', String(progress.done)).replace('{total}', String(progress.total))
+                  : STRINGS.IMPORT_SELECTED.replace('{count}', String(selected.size))}
+              </button>
+            ) : (
+              <button
+                onClick={handleClose}
+                className="flex-1 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                {STRINGS.CLOSE}
+              </button>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+});
+
+export default JournalImportModal;
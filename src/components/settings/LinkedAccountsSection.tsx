@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Link2, Mail } from 'lucide-react';
+import { SETTINGS, AUTH } from '../../constants/uiStrings';
+import { useAuth } from '../../contexts/AuthContext';
+import { OAUTH_PROVIDERS, OAuthProvider } from '../../utils/oauth';
+
+/**
+ * LinkedAccountsSection - Link or unlink Google and Apple as ways to sign in
+ *
+ * Linking leaves the app for the provider and returns to Settings; if it
+ * failed, the reason comes back as the auth redirect error.
+ *
+ * @component
+ * @param {function} onSuccess - Function called with a message after a provider is unlinked
+ *
+ * @example
+ * return (
+ *   <LinkedAccountsSection onSuccess={showSuccess} />
+ * )
+ */
+interface LinkedAccountsSectionProps {
+  onSuccess: (message: string) => void;
+}
+
+const LinkedAccountsSection = React.memo(function LinkedAccountsSection({ onSuccess }: LinkedAccountsSectionProps) {
+  const { user, linkProvider, unlinkProvider, authRedirectError, clearAuthRedirectError } = useAuth();
+  const [pendingProvider, setPendingProvider] = useState<OAuthProvider | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authRedirectError) {
+      setError(authRedirectError);
+      clearAuthRedirectError();
+    }
+  }, [authRedirectError, clearAuthRedirectError]);
+
+  const providers = user?.providers || [];
+
+  const handleToggle = async (provider: OAuthProvider) => {
+    setPendingProvider(provider);
+    setError(null);
+
+    if (providers.includes(provider)) {
+      const result = await unlinkProvider(provider);
+      setPendingProvider(null);
+      if (result.success) {
+        onSuccess(SETTINGS.LINKED_ACCOUNTS.UNLINKED.replace('{provider}', AUTH.PROVIDERS[provider]));
+      } else {
+        setError(result.error || null);
+      }
+      return;
+    }
+
+    // On success the browser is already on its way to the provider
+    const result = await linkProvider(provider);
+    if (!result.success) {
+      setPendingProvider(null);
+      setError(result.error || null);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center">
+        <Link2 className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {SETTINGS.LINKED_ACCOUNTS.TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">{SETTINGS.LINKED_ACCOUNTS.DESCRIPTION}</p>
+
+      <ul className="space-y-3">
+        {providers.includes('email') && (
+          <li className="flex items-center justify-between px-4 py-3 bg-zen-sage-50 dark:bg-gray-700/50 rounded-2xl">
+            <span className="flex items-center space-x-2 text-zen-sage-800 dark:text-gray-200">
+              <Mail className="w-4 h-4" aria-hidden="true" />
+              <span>{SETTINGS.LINKED_ACCOUNTS.EMAIL}</span>
+            </span>
+            <span className="flex items-center space-x-1 text-sm text-zen-mint-600 dark:text-zen-mint-400">
+              <Check className="w-4 h-4" aria-hidden="true" />
+              <span>{SETTINGS.LINKED_ACCOUNTS.LINKED}</span>
+            </span>
+          </li>
+        )}
+        {OAUTH_PROVIDERS.map(provider => {
+          const isLinked = providers.includes(provider);
+          return (
+            <li key={provider} className="flex items-center justify-between px-4 py-3 bg-zen-sage-50 dark:bg-gray-700/50 rounded-2xl">
+              <span className="flex items-center space-x-2 text-zen-sage-800 dark:text-gray-200">
+                <span>{AUTH.PROVIDERS[provider]}</span>
+                {isLinked && (
+                  <span className="flex items-center space-x-1 text-sm text-zen-mint-600 dark:text-zen-mint-400">
+                    <Check className="w-4 h-4" aria-hidden="true" />
+                    <span>{SETTINGS.LINKED_ACCOUNTS.LINKED}</span>
+                  </span>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleToggle(provider)}
+                disabled={pendingProvider !== null}
+                className="px-4 py-2 text-sm font-medium bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                aria-label={`${isLinked ? SETTINGS.LINKED_ACCOUNTS.UNLINK : SETTINGS.LINKED_ACCOUNTS.LINK} ${AUTH.PROVIDERS[provider]}`}
+              >
+                {isLinked ? SETTINGS.LINKED_ACCOUNTS.UNLINK : SETTINGS.LINKED_ACCOUNTS.LINK}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+    </div>
+  );
+});
+
+export default LinkedAccountsSection;
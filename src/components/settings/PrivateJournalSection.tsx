@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, KeyRound, LifeBuoy, RefreshCw } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+import { MIN_PASSPHRASE_LENGTH } from '../../contexts/JournalKeyContext';
+import { useJournalKey } from '../../hooks/useJournalKey';
+import PrivateJournalUnlock from '../journal/PrivateJournalUnlock';
+
+type PrivateJournalAction = 'enable' | 'change' | 'recover' | 'rotate';
+
+const inputClassName = 'w-full px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200';
+const secondaryButtonClassName = 'flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors w-full disabled:opacity-50';
+
+/**
+ * PrivateJournalSection - Turn on the private journal and manage its passphrase,
+ * recovery code and encryption key
+ *
+ * @component
+ * @param {function} onSuccess - Function called with a message after a change is saved
+ *
+ * @example
+ * return (
+ *   <PrivateJournalSection onSuccess={showSuccess} />
+ * )
+ */
+interface PrivateJournalSectionProps {
+  onSuccess: (message: string) => void;
+}
+
+const PrivateJournalSection = React.memo(function PrivateJournalSection({
+  onSuccess
+}: PrivateJournalSectionProps) {
+  const {
+    status,
+    reencryptProgress,
+    error: keyError,
+    enablePrivateJournal,
+    lock,
+    changePassphrase,
+    recoverWithCode,
+    rotateKey
+  } = useJournalKey();
+
+  const [action, setAction] = useState<PrivateJournalAction | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [recoveryCodeInput, setRecoveryCodeInput] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [newRecoveryCode, setNewRecoveryCode] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsNewPassphrase = action === 'enable' || action === 'change' || action === 'recover';
+
+  const resetForm = () => {
+    setAction(null);
+    setCurrentPassphrase('');
+    setRecoveryCodeInput('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const startAction = (next: PrivateJournalAction) => {
+    resetForm();
+    setAction(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || isWorking) return;
+
+    if (needsNewPassphrase && newPassphrase !== confirmPassphrase) {
+      setError(SETTINGS.PRIVATE_JOURNAL.PASSPHRASE_MISMATCH);
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+
+    const result = action === 'enable'
+      ? await enablePrivateJournal(newPassphrase)
+      : action === 'change'
+        ? await changePassphrase(currentPassphrase, newPassphrase)
+        : action === 'recover'
+          ? await recoverWithCode(recoveryCodeInput, newPassphrase)
+          : await rotateKey(currentPassphrase);
+
+    setIsWorking(false);
+
+    if (!result.success) {
+      setError(result.error || null);
+      return;
+    }
+
+    resetForm();
+    if (result.recoveryCode) {
+      setNewRecoveryCode(result.recoveryCode);
+    }
+    if (action === 'change') {
+      onSuccess(SETTINGS.PRIVATE_JOURNAL.PASSPHRASE_CHANGED);
+    } else if (action === 'recover') {
+      onSuccess(SETTINGS.PRIVATE_JOURNAL.RECOVERED);
+    }
+  };
+
+  const getSubmitLabel = () => {
+    if (isWorking) return SETTINGS.PRIVATE_JOURNAL.SAVING;
+    if (action === 'enable') return SETTINGS.PRIVATE_JOURNAL.ENABLE;
+    if (action === 'rotate') return SETTINGS.PRIVATE_JOURNAL.ROTATE_KEY;
+    return SETTINGS.PRIVATE_JOURNAL.SUBMIT;
+  };
+
+  if (status === 'loading') return null;
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center">
+        <Lock className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {SETTINGS.PRIVATE_JOURNAL.TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+        {status === 'off'
+          ? SETTINGS.PRIVATE_JOURNAL.DESCRIPTION
+          : status === 'unlocked'
+            ? SETTINGS.PRIVATE_JOURNAL.STATUS_UNLOCKED
+            : SETTINGS.PRIVATE_JOURNAL.STATUS_LOCKED}
+      </p>
+
+      {/* Recovery code, shown once */}
+      {newRecoveryCode && (
+        <div className="mb-4 p-4 rounded-2xl bg-zen-peach-50 dark:bg-gray-700 border border-zen-peach-200 dark:border-gray-600" role="status">
+          <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200 mb-1">
+            {SETTINGS.PRIVATE_JOURNAL.RECOVERY_CODE_TITLE}
+          </p>
+          <p className="font-mono text-lg tracking-wider text-zen-sage-900 dark:text-gray-100 break-all select-all mb-2">
+            {newRecoveryCode}
+          </p>
+          <p className="text-xs text-zen-sage-600 dark:text-gray-400 mb-3">
+            {SETTINGS.PRIVATE_JOURNAL.RECOVERY_CODE_HELP}
+          </p>
+          <button
+            type="button"
+            onClick={() => setNewRecoveryCode(null)}
+            className="px-4 py-2 bg-zen-mint-500 text-white text-sm font-medium rounded-xl hover:bg-zen-mint-600 transition-colors"
+          >
+            {SETTINGS.PRIVATE_JOURNAL.RECOVERY_CODE_SAVED}
+          </button>
+        </div>
+      )}
+
+      {/* Re-encryption progress */}
+      {reencryptProgress && (
+        <p className="mb-4 text-sm text-zen-sage-600 dark:text-gray-400" role="status">
+          {SETTINGS.PRIVATE_JOURNAL.REENCRYPTING.replace('{done}', String(reencryptProgress.done))}
+        </p>
+      )}
+      {keyError && !reencryptProgress && (
+        <p className="mb-4 text-sm text-red-600 dark:text-red-400" role="alert">{keyError}</p>
+      )}
+
+      {action ? (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {action === 'recover' && (
+            <>
+              <p className="text-sm text-zen-sage-600 dark:text-gray-400">{SETTINGS.PRIVATE_JOURNAL.RECOVER_HELP}</p>
+              <input
+                type="text"
+                value={recoveryCodeInput}
+                onChange={(e) => setRecoveryCodeInput(e.target.value)}
+                placeholder={SETTINGS.PRIVATE_JOURNAL.RECOVERY_CODE}
+                aria-label={SETTINGS.PRIVATE_JOURNAL.RECOVERY_CODE}
+                autoComplete="off"
+                spellCheck={false}
+                className={`${inputClassName} font-mono`}
+              />
+            </>
+          )}
+
+          {action === 'rotate' && (
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400">{SETTINGS.PRIVATE_JOURNAL.ROTATE_HELP}</p>
+          )}
+
+          {(action === 'change' || action === 'rotate') && (
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+              placeholder={SETTINGS.PRIVATE_JOURNAL.CURRENT_PASSPHRASE}
+              aria-label={SETTINGS.PRIVATE_JOURNAL.CURRENT_PASSPHRASE}
+              autoComplete="current-password"
+              className={inputClassName}
+            />
+          )}
+
+          {needsNewPassphrase && (
+            <>
+              <input
+                type="password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                placeholder={action === 'enable' ? SETTINGS.PRIVATE_JOURNAL.PASSPHRASE : SETTINGS.PRIVATE_JOURNAL.NEW_PASSPHRASE}
+                aria-label={action === 'enable' ? SETTINGS.PRIVATE_JOURNAL.PASSPHRASE : SETTINGS.PRIVATE_JOURNAL.NEW_PASSPHRASE}
+                autoComplete="new-password"
+                aria-describedby="private-journal-passphrase-help"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder={SETTINGS.PRIVATE_JOURNAL.CONFIRM_PASSPHRASE}
+                aria-label={SETTINGS.PRIVATE_JOURNAL.CONFIRM_PASSPHRASE}
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+              <p id="private-journal-passphrase-help" className="text-xs text-zen-sage-500 dark:text-gray-400">
+                {SETTINGS.PRIVATE_JOURNAL.PASSPHRASE_HELP.replace('{count}', String(MIN_PASSPHRASE_LENGTH))}
+              </p>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={isWorking}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-medium rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {getSubmitLabel()}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={isWorking}
+              className="px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              {SETTINGS.PRIVATE_JOURNAL.CANCEL}
+            </button>
+          </div>
+        </form>
+      ) : status === 'off' ? (
+        <button type="button" onClick={() => startAction('enable')} className={secondaryButtonClassName}>
+          <Lock className="w-4 h-4" aria-hidden="true" />
+          <span>{SETTINGS.PRIVATE_JOURNAL.ENABLE}</span>
+        </button>
+      ) : (
+        <div className="space-y-3">
+          {status === 'locked' ? (
+            <PrivateJournalUnlock />
+          ) : (
+            <button type="button" onClick={lock} className={secondaryButtonClassName}>
+              <Unlock className="w-4 h-4" aria-hidden="true" />
+              <span>{SETTINGS.PRIVATE_JOURNAL.LOCK}</span>
+            </button>
+          )}
+          <button type="button" onClick={() => startAction('change')} className={secondaryButtonClassName}>
+            <KeyRound className="w-4 h-4" aria-hidden="true" />
+            <span>{SETTINGS.PRIVATE_JOURNAL.CHANGE_PASSPHRASE}</span>
+          </button>
+          <button type="button" onClick={() => startAction('recover')} className={secondaryButtonClassName}>
+            <LifeBuoy className="w-4 h-4" aria-hidden="true" />
+            <span>{SETTINGS.PRIVATE_JOURNAL.RECOVER}</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => startAction('rotate')}
+            disabled={status !== 'unlocked' || !!reencryptProgress}
+            className={secondaryButtonClassName}
+          >
+            <RefreshCw className="w-4 h-4" aria-hidden="true" />
+            <span>{SETTINGS.PRIVATE_JOURNAL.ROTATE_KEY}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default PrivateJournalSection;
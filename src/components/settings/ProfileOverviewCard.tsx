@@ -1,7 +1,8 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Trophy, Heart, Calendar } from 'lucide-react';
+import { Trophy, Heart, Calendar, Snowflake } from 'lucide-react';
 import LottieAvatar from '../LottieAvatar';
+import { JOURNAL, SETTINGS } from '../../constants/uiStrings';
 
 /**
  * ProfileOverviewCard - Displays user profile information and statistics
@@ -12,7 +13,11 @@ import LottieAvatar from '../LottieAvatar';
  * @param {string} joinedDate - Formatted date when user joined
  * @param {number} currentStreak - User's current journaling streak
  * @param {number} bestStreak - User's best journaling streak
+ * @param {'day'|'week'} [streakPeriod] - Whether streaks count days or weeks
+ * @param {number} [streakFreezes] - Unused streak freezes
  * @param {number} totalBadgesEarned - Total number of badges earned
+ * @param {Function} [onBuyStreakFreeze] - Starts checkout for a streak freeze; hidden when not provided
+ * @param {boolean} [isBuyingStreakFreeze] - Whether checkout is being started
  * 
  * @example
  * return (
@@ -32,7 +37,11 @@ interface ProfileOverviewCardProps {
   joinedDate: string;
   currentStreak?: number;
   bestStreak?: number;
+  streakPeriod?: 'day' | 'week';
+  streakFreezes?: number;
   totalBadgesEarned: number;
+  onBuyStreakFreeze?: () => void;
+  isBuyingStreakFreeze?: boolean;
 }
 
 const ProfileOverviewCard = React.memo(function ProfileOverviewCard({
@@ -41,8 +50,17 @@ const ProfileOverviewCard = React.memo(function ProfileOverviewCard({
   joinedDate,
   currentStreak = 0,
   bestStreak = 0,
-  totalBadgesEarned
+  streakPeriod = 'day',
+  streakFreezes = 0,
+  totalBadgesEarned,
+  onBuyStreakFreeze,
+  isBuyingStreakFreeze = false
 }: ProfileOverviewCardProps) {
+  const formatStreak = (streak: number) => {
+    const unit = streakPeriod === 'week' ? 'week' : 'day';
+    return `${streak} ${streak === 1 ? unit : `${unit}s`}`;
+  };
+
   return (
     <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20 text-center">
       <div className="flex justify-center mb-4">
@@ -66,7 +84,7 @@ const ProfileOverviewCard = React.memo(function ProfileOverviewCard({
         <div className="flex justify-between items-center">
           <span className="text-zen-sage-600 dark:text-gray-400">Current streak:</span>
           <span className="font-medium text-zen-sage-800 dark:text-gray-200 flex items-center">
-            {currentStreak} {currentStreak === 1 ? 'day' : 'days'} 
+            {formatStreak(currentStreak)}
             {currentStreak > 0 && <Heart className="w-4 h-4 ml-1 text-zen-peach-500" aria-hidden="true" />}
           </span>
         </div>
@@ -74,11 +92,19 @@ const ProfileOverviewCard = React.memo(function ProfileOverviewCard({
         <div className="flex justify-between items-center">
           <span className="text-zen-sage-600 dark:text-gray-400">Best streak:</span>
           <span className="font-medium text-zen-sage-800 dark:text-gray-200 flex items-center">
-            {bestStreak} {bestStreak === 1 ? 'day' : 'days'} 
+            {formatStreak(bestStreak)}
             {bestStreak > 0 && <Calendar className="w-4 h-4 ml-1 text-zen-mint-500" aria-hidden="true" />}
           </span>
         </div>
         
+        <div className="flex justify-between items-center" title={JOURNAL.STREAK.FREEZE_HELP}>
+          <span className="text-zen-sage-600 dark:text-gray-400">Streak freezes:</span>
+          <span className="font-medium text-zen-sage-800 dark:text-gray-200 flex items-center">
+            {streakFreezes}
+            <Snowflake className="w-4 h-4 ml-1 text-zen-mint-500" aria-hidden="true" />
+          </span>
+        </div>
+        
         <div className="flex justify-between items-center">
           <span className="text-zen-sage-600 dark:text-gray-400">Badges earned:</span>
           <span className="font-medium text-zen-sage-800 dark:text-gray-200 flex items-center">
@@ -87,6 +113,16 @@ const ProfileOverviewCard = React.memo(function ProfileOverviewCard({
           </span>
         </div>
       </div>
+
+      {onBuyStreakFreeze && (
+        <button
+          onClick={onBuyStreakFreeze}
+          disabled={isBuyingStreakFreeze}
+          className="mt-4 w-full px-4 py-2 rounded-2xl border border-zen-mint-300 dark:border-gray-600 text-sm font-medium text-zen-sage-700 dark:text-gray-300 hover:bg-zen-mint-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {SETTINGS.SUBSCRIPTION.BUY_STREAK_FREEZE}
+        </button>
+      )}
     </div>
   );
 });
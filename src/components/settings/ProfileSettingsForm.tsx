@@ -1,7 +1,18 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Save } from 'lucide-react';
 import { SETTINGS } from '../../constants/uiStrings';
+import { detectTimezone, getTimezoneOptions } from '../../utils/timezone';
+
+/**
+ * Values submitted by the profile form
+ * @interface ProfileChanges
+ */
+export interface ProfileChanges {
+  name: string;
+  goal: number;
+  timezone: string;
+}
 
 /**
  * ProfileSettingsForm - Form for editing user profile information
@@ -11,9 +22,11 @@ import { SETTINGS } from '../../constants/uiStrings';
  * @param {string} originalName - Original display name for comparison
  * @param {number} journalingGoal - Current journaling goal frequency
  * @param {number} originalGoal - Original journaling goal for comparison
+ * @param {string} timezone - Current IANA timezone used for streaks
+ * @param {string} originalTimezone - Original timezone for comparison
  * @param {string} userEmail - User's email address
  * @param {boolean} isSaving - Whether the form is currently saving
- * @param {function} onSave - Function to call when saving changes
+ * @param {function} onSave - Function to call with the edited values
  * 
  * @example
  * return (
@@ -22,6 +35,8 @@ import { SETTINGS } from '../../constants/uiStrings';
  *     originalName="John Doe"
  *     journalingGoal={3}
  *     originalGoal={3}
+ *     timezone="Europe/London"
+ *     originalTimezone="Europe/London"
  *     isSaving={false}
  *     onSave={handleSaveProfile}
  *   />
@@ -32,9 +47,11 @@ interface ProfileSettingsFormProps {
   originalName: string;
   journalingGoal: number;
   originalGoal: number;
+  timezone: string;
+  originalTimezone: string;
   userEmail: string;
   isSaving: boolean;
-  onSave: () => Promise<void>;
+  onSave: (changes: ProfileChanges) => Promise<void>;
 }
 
 const ProfileSettingsForm = React.memo(function ProfileSettingsForm({
@@ -42,26 +59,29 @@ const ProfileSettingsForm = React.memo(function ProfileSettingsForm({
   originalName,
   journalingGoal,
   originalGoal,
+  timezone,
+  originalTimezone,
   userEmail,
   isSaving,
   onSave
 }: ProfileSettingsFormProps) {
   const [name, setName] = useState(displayName);
   const [goal, setGoal] = useState(journalingGoal);
+  const [zone, setZone] = useState(timezone);
+  const timezoneOptions = useMemo(() => getTimezoneOptions(timezone), [timezone]);
+  const detectedTimezone = detectTimezone();
+
+  // Pick up values once the profile has loaded
+  useEffect(() => {
+    setName(displayName);
+    setGoal(journalingGoal);
+    setZone(timezone);
+  }, [displayName, journalingGoal, timezone]);
   
-  const hasUnsavedChanges = name.trim() !== originalName || goal !== originalGoal;
+  const hasUnsavedChanges = name.trim() !== originalName || goal !== originalGoal || zone !== originalTimezone;
 
   const handleSave = async () => {
-    // Update parent state
-    if (name !== displayName) {
-      displayName = name;
-    }
-    if (goal !== journalingGoal) {
-      journalingGoal = goal;
-    }
-    
-    // Call parent save function
-    await onSave();
+    await onSave({ name: name.trim(), goal, timezone: zone });
   };
 
   return (
@@ -127,9 +147,43 @@ const ProfileSettingsForm = React.memo(function ProfileSettingsForm({
             </div>
           </div>
           <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-2">
-            {SETTINGS.PROFILE.GOAL_HELP}
+            {SETTINGS.PROFILE.GOAL_HELP} {goal < 7 && SETTINGS.PROFILE.GOAL_STREAK_HELP}
           </p>
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="timezone">
+            {SETTINGS.PROFILE.TIMEZONE_LABEL}
+          </label>
+          <select
+            id="timezone"
+            value={zone}
+            onChange={(e) => setZone(e.target.value)}
+            className="w-full px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200"
+            disabled={isSaving}
+          >
+            {timezoneOptions.map(option => (
+              <option key={option} value={option}>
+                {option.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center justify-between mt-2 gap-2">
+            <p className="text-xs text-zen-sage-500 dark:text-gray-400">
+              {SETTINGS.PROFILE.TIMEZONE_HELP}
+            </p>
+            {zone !== detectedTimezone && (
+              <button
+                type="button"
+                onClick={() => setZone(detectedTimezone)}
+                className="text-xs font-medium text-zen-mint-600 dark:text-zen-mint-400 hover:underline whitespace-nowrap"
+                disabled={isSaving}
+              >
+                {SETTINGS.PROFILE.TIMEZONE_USE_DEVICE.replace('{timezone}', detectedTimezone.replace(/_/g, ' '))}
+              </button>
+            )}
+          </div>
+        </div>
         
         <AnimatePresence>
           {hasUnsavedChanges && (
@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Save, Mail } from 'lucide-react';
+import { SETTINGS } from '../../constants/uiStrings';
+import { ReminderSettings } from '../../hooks/useReminderSettings';
+
+const NUDGE_OPTIONS = [2, 3, 5, 7, 14];
+
+const inputClassName = 'px-3 py-2 border border-zen-sage-200 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200';
+
+/**
+ * ReminderSettingsForm - Reminder time, days, quiet hours, nudge and email digest settings
+ *
+ * @component
+ * @param {ReminderSettings} settings - Saved reminder settings
+ * @param {boolean} isSaving - Whether the settings are being saved
+ * @param {function} onSave - Function to call with the changed settings
+ *
+ * @example
+ * return (
+ *   <ReminderSettingsForm
+ *     settings={reminderSettings}
+ *     isSaving={isSavingReminders}
+ *     onSave={handleSaveReminderSettings}
+ *   />
+ * )
+ */
+interface ReminderSettingsFormProps {
+  settings: ReminderSettings;
+  isSaving: boolean;
+  onSave: (changes: Partial<ReminderSettings>) => Promise<boolean>;
+}
+
+const ReminderSettingsForm = React.memo(function ReminderSettingsForm({
+  settings,
+  isSaving,
+  onSave
+}: ReminderSettingsFormProps) {
+  const [form, setForm] = useState(settings);
+  const strings = SETTINGS.PREFERENCES.NOTIFICATIONS;
+
+  // Pick up values once the settings have loaded or been saved
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  const hasQuietHours = form.quiet_hours_start !== null && form.quiet_hours_end !== null;
+  const hasUnsavedChanges = JSON.stringify(form) !== JSON.stringify(settings);
+
+  const toggleDay = (day: number) => {
+    setForm(current => ({
+      ...current,
+      reminder_days: current.reminder_days.includes(day)
+        ? current.reminder_days.filter(d => d !== day)
+        : [...current.reminder_days, day].sort((a, b) => a - b)
+    }));
+  };
+
+  const toggleQuietHours = () => {
+    setForm(current => hasQuietHours
+      ? { ...current, quiet_hours_start: null, quiet_hours_end: null }
+      : { ...current, quiet_hours_start: '22:00', quiet_hours_end: '07:00' });
+  };
+
+  const handleSave = async () => {
+    await onSave(form);
+  };
+
+  return (
+    <div className="space-y-4">
+      {form.reminder_enabled && (
+        <>
+          <div className="flex items-center justify-between gap-4">
+            <label className="text-sm font-medium text-zen-sage-700 dark:text-gray-300" htmlFor="reminder-time">
+              {strings.TIME_LABEL}
+            </label>
+            <input
+              id="reminder-time"
+              type="time"
+              value={form.reminder_time}
+              onChange={(e) => setForm(current => ({ ...current, reminder_time: e.target.value }))}
+              className={inputClassName}
+              disabled={isSaving}
+              required
+            />
+          </div>
+
+          <fieldset>
+            <legend className="text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+              {strings.DAYS_LABEL}
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {strings.DAYS.map((label, index) => {
+                const day = index + 1;
+                const selected = form.reminder_days.includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                      selected
+                        ? 'bg-zen-mint-400 text-white'
+                        : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300'
+                    }`}
+                    aria-pressed={selected}
+                    disabled={isSaving}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </fieldset>
+
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-zen-sage-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={hasQuietHours}
+                onChange={toggleQuietHours}
+                className="rounded text-zen-mint-500 focus:ring-zen-mint-400"
+                disabled={isSaving}
+              />
+              <span>{strings.QUIET_HOURS_LABEL}</span>
+            </label>
+            {hasQuietHours && (
+              <div className="flex items-center gap-3 mt-2">
+                <label className="text-sm text-zen-sage-600 dark:text-gray-400" htmlFor="quiet-hours-start">{strings.QUIET_FROM}</label>
+                <input
+                  id="quiet-hours-start"
+                  type="time"
+                  value={form.quiet_hours_start ?? ''}
+                  onChange={(e) => setForm(current => ({ ...current, quiet_hours_start: e.target.value || null }))}
+                  className={inputClassName}
+                  disabled={isSaving}
+                />
+                <label className="text-sm text-zen-sage-600 dark:text-gray-400" htmlFor="quiet-hours-end">{strings.QUIET_TO}</label>
+                <input
+                  id="quiet-hours-end"
+                  type="time"
+                  value={form.quiet_hours_end ?? ''}
+                  onChange={(e) => setForm(current => ({ ...current, quiet_hours_end: e.target.value || null }))}
+                  className={inputClassName}
+                  disabled={isSaving}
+                />
+              </div>
+            )}
+            <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-1">{strings.QUIET_HOURS_HELP}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2" htmlFor="inactivity-nudge">
+              {strings.NUDGE_LABEL}
+            </label>
+            <select
+              id="inactivity-nudge"
+              value={form.inactivity_nudge_days ?? ''}
+              onChange={(e) => setForm(current => ({
+                ...current,
+                inactivity_nudge_days: e.target.value ? parseInt(e.target.value) : null
+              }))}
+              className={`w-full ${inputClassName}`}
+              disabled={isSaving}
+            >
+              <option value="">{strings.NUDGE_OFF}</option>
+              {NUDGE_OPTIONS.map(days => (
+                <option key={days} value={days}>{strings.NUDGE_DAYS.replace('{count}', String(days))}</option>
+              ))}
+            </select>
+            <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-1">{strings.NUDGE_HELP}</p>
+          </div>
+        </>
+      )}
+
+      <label className="flex items-start space-x-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={form.email_digest_enabled}
+          onChange={(e) => setForm(current => ({ ...current, email_digest_enabled: e.target.checked }))}
+          className="mt-1 rounded text-zen-mint-500 focus:ring-zen-mint-400"
+          disabled={isSaving}
+        />
+        <span>
+          <span className="flex items-center text-sm font-medium text-zen-sage-700 dark:text-gray-300">
+            <Mail className="w-4 h-4 mr-2" aria-hidden="true" />
+            {strings.EMAIL_DIGEST_LABEL}
+          </span>
+          <span className="block text-xs text-zen-sage-500 dark:text-gray-400">{strings.EMAIL_DIGEST_HELP}</span>
+        </span>
+      </label>
+
+      <AnimatePresence>
+        {hasUnsavedChanges && (
+          <motion.button
+            onClick={handleSave}
+            disabled={isSaving || !form.reminder_time || form.reminder_days.length === 0}
+            className="flex items-center space-x-2 px-6 py-3 bg-zen-mint-400 text-white rounded-2xl hover:bg-zen-mint-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-lg hover:shadow-xl"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            {isSaving ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+                <span>Saving...</span>
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4" aria-hidden="true" />
+                <span>{strings.SAVE}</span>
+              </>
+            )}
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+});
+
+export default ReminderSettingsForm;
@@ -13,7 +13,7 @@ import { useStripe } from '../../hooks/useStripe';
  * @param {string} subscriptionTier - Subscription tier (free, premium, premium_plus)
  * @param {string|null} subscriptionExpiresAt - Date when subscription expires
  * @param {boolean} isTrialActive - Whether the user is in their 7-day trial period
- * @param {string|null} profileCreatedAt - When the user's profile was created
+ * @param {string|null} trialEndsAt - When the trial ends, from the user's entitlements
  * 
  * @example
  * return (
@@ -22,7 +22,7 @@ import { useStripe } from '../../hooks/useStripe';
  *     subscriptionTier="premium_plus"
  *     subscriptionExpiresAt="2023-12-31T00:00:00Z"
  *     isTrialActive={false}
- *     profileCreatedAt="2023-01-01T00:00:00Z"
+ *     trialEndsAt="2023-01-08T00:00:00Z"
  *   />
  * )
  */
@@ -31,7 +31,7 @@ interface SubscriptionSectionProps {
   subscriptionTier: string;
   subscriptionExpiresAt: string | null;
   isTrialActive: boolean;
-  profileCreatedAt: string | null;
+  trialEndsAt: string | null;
 }
 
 const SubscriptionSection = React.memo(function SubscriptionSection({
@@ -39,7 +39,7 @@ const SubscriptionSection = React.memo(function SubscriptionSection({
   subscriptionTier,
   subscriptionExpiresAt,
   isTrialActive,
-  profileCreatedAt
+  trialEndsAt
 }: SubscriptionSectionProps) {
   const navigate = useNavigate();
   const { redirectToCustomerPortal, isLoading, error: stripeError } = useStripe();
@@ -56,15 +56,11 @@ const SubscriptionSection = React.memo(function SubscriptionSection({
     });
   };
 
-  // Calculate trial end date if user is in trial period
+  // Trial end date if user is in trial period
   const getTrialEndDate = () => {
-    if (!profileCreatedAt) return null;
+    if (!trialEndsAt) return null;
     
-    const createdDate = new Date(profileCreatedAt);
-    const trialEndDate = new Date(createdDate);
-    trialEndDate.setDate(trialEndDate.getDate() + 7); // 7-day trial
-    
-    return formatDate(trialEndDate.toISOString());
+    return formatDate(trialEndsAt);
   };
 
   const handleManageSubscription = async () => {
@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import { Copy, KeyRound, RefreshCw, ShieldCheck, Smartphone, Trash2 } from 'lucide-react';
+import type { Factor } from '@supabase/supabase-js';
+import { SETTINGS } from '../../constants/uiStrings';
+import { useMfa, MfaEnrollment } from '../../hooks/useMfa';
+import { TOTP_CODE_LENGTH, sanitizeTotpCode } from '../../utils/mfa';
+
+const inputClassName = 'w-full px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200';
+const primaryButtonClassName = 'flex-1 px-4 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white font-medium rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed';
+const cancelButtonClassName = 'px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50';
+const secondaryButtonClassName = 'flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors w-full disabled:opacity-50';
+
+type TwoFactorStep = 'enroll' | 'codes' | 'regenerate' | null;
+
+/**
+ * TwoFactorSection - Set up authenticator apps for sign-in and manage recovery codes
+ *
+ * New recovery codes are shown once, right after an app is added or the
+ * codes are regenerated; only their hashes are kept.
+ *
+ * @component
+ * @param {function} onSuccess - Function called with a message after a change is saved
+ *
+ * @example
+ * return (
+ *   <TwoFactorSection onSuccess={showSuccess} />
+ * )
+ */
+interface TwoFactorSectionProps {
+  onSuccess: (message: string) => void;
+}
+
+const TwoFactorSection = React.memo(function TwoFactorSection({ onSuccess }: TwoFactorSectionProps) {
+  const {
+    factors,
+    remainingRecoveryCodes,
+    error: loadError,
+    startEnrollment,
+    confirmEnrollment,
+    removeFactor,
+    regenerateRecoveryCodes
+  } = useMfa();
+
+  const [step, setStep] = useState<TwoFactorStep>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingRemoval, setPendingRemoval] = useState<Factor | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setStep(null);
+    setEnrollment(null);
+    setCode('');
+    setRecoveryCodes([]);
+    setPendingRemoval(null);
+    setError(null);
+  };
+
+  const handleStartEnrollment = async () => {
+    resetForm();
+    setIsWorking(true);
+    const result = await startEnrollment();
+    setIsWorking(false);
+
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setEnrollment(result.enrollment);
+    setStep('enroll');
+  };
+
+  const handleCancelEnrollment = () => {
+    // The unverified factor would otherwise linger until the next enrollment
+    if (enrollment) {
+      removeFactor(enrollment.factorId);
+    }
+    resetForm();
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment || isWorking) return;
+
+    setIsWorking(true);
+    setError(null);
+    const result = await confirmEnrollment(enrollment.factorId, code);
+    setIsWorking(false);
+
+    if (!result.success) {
+      setError(result.error);
+      setCode('');
+      return;
+    }
+
+    setEnrollment(null);
+    setCode('');
+    setRecoveryCodes(result.codes);
+    setStep('codes');
+    onSuccess(SETTINGS.TWO_FACTOR.TURNED_ON);
+  };
+
+  const handleRegenerate = async () => {
+    setIsWorking(true);
+    setError(null);
+    const result = await regenerateRecoveryCodes();
+    setIsWorking(false);
+
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setRecoveryCodes(result.codes);
+    setStep('codes');
+  };
+
+  const handleRemove = async () => {
+    if (!pendingRemoval) return;
+
+    setIsWorking(true);
+    setError(null);
+    const result = await removeFactor(pendingRemoval.id);
+    setIsWorking(false);
+
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    resetForm();
+    onSuccess(SETTINGS.TWO_FACTOR.REMOVED);
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      onSuccess(SETTINGS.TWO_FACTOR.RECOVERY_COPIED);
+    } catch (err) {
+      console.warn('Failed to copy recovery codes:', err);
+    }
+  };
+
+  const isEnabled = factors.length > 0;
+
+  return (
+    <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+      <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center">
+        <ShieldCheck className="w-5 h-5 mr-2 text-zen-mint-500" aria-hidden="true" />
+        {SETTINGS.TWO_FACTOR.TITLE}
+      </h3>
+      <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-4">
+        {isEnabled ? SETTINGS.TWO_FACTOR.ENABLED : SETTINGS.TWO_FACTOR.DESCRIPTION}
+      </p>
+
+      <div className="space-y-4">
+        {step === 'enroll' && enrollment ? (
+          <form onSubmit={handleVerify} className="space-y-3">
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400">{SETTINGS.TWO_FACTOR.SCAN}</p>
+            <img
+              src={enrollment.qrCode}
+              alt={SETTINGS.TWO_FACTOR.QR_ALT}
+              className="w-44 h-44 mx-auto bg-white rounded-2xl p-2"
+            />
+            <p className="text-xs text-zen-sage-500 dark:text-gray-400">{SETTINGS.TWO_FACTOR.SECRET}</p>
+            <code className="block px-3 py-2 text-sm font-mono break-all bg-zen-sage-50 dark:bg-gray-700/50 text-zen-sage-800 dark:text-gray-200 rounded-xl select-all">
+              {enrollment.secret}
+            </code>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(sanitizeTotpCode(e.target.value))}
+              placeholder={SETTINGS.TWO_FACTOR.CODE}
+              aria-label={SETTINGS.TWO_FACTOR.CODE}
+              className={`${inputClassName} font-mono tracking-[0.3em]`}
+            />
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+            )}
+
+            <div className="flex space-x-3">
+              <button type="submit" disabled={isWorking || code.length !== TOTP_CODE_LENGTH} className={primaryButtonClassName}>
+                {SETTINGS.TWO_FACTOR.VERIFY}
+              </button>
+              <button type="button" onClick={handleCancelEnrollment} disabled={isWorking} className={cancelButtonClassName}>
+                {SETTINGS.TWO_FACTOR.CANCEL}
+              </button>
+            </div>
+          </form>
+        ) : step === 'codes' ? (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200">{SETTINGS.TWO_FACTOR.RECOVERY_TITLE}</p>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+              {SETTINGS.TWO_FACTOR.RECOVERY_DESCRIPTION} {SETTINGS.TWO_FACTOR.RECOVERY_SHOWN_ONCE}
+            </p>
+            <ul className="grid grid-cols-2 gap-2 px-4 py-3 bg-zen-sage-50 dark:bg-gray-700/50 rounded-2xl font-mono text-sm text-zen-sage-800 dark:text-gray-200">
+              {recoveryCodes.map(recoveryCode => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <div className="flex space-x-3">
+              <button type="button" onClick={resetForm} className={primaryButtonClassName}>
+                {SETTINGS.TWO_FACTOR.RECOVERY_DONE}
+              </button>
+              <button type="button" onClick={handleCopyCodes} className={`${cancelButtonClassName} flex items-center space-x-2`}>
+                <Copy className="w-4 h-4" aria-hidden="true" />
+                <span>{SETTINGS.TWO_FACTOR.RECOVERY_COPY}</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {isEnabled && (
+              <ul className="space-y-3">
+                {factors.map(factor => (
+                  <li key={factor.id} className="px-4 py-3 bg-zen-sage-50 dark:bg-gray-700/50 rounded-2xl">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center space-x-2 text-zen-sage-800 dark:text-gray-200">
+                        <Smartphone className="w-4 h-4" aria-hidden="true" />
+                        <span>
+                          {factor.friendly_name || SETTINGS.TWO_FACTOR.DEFAULT_NAME}
+                          <span className="block text-xs text-zen-sage-500 dark:text-gray-400">
+                            {SETTINGS.TWO_FACTOR.ADDED_ON.replace('{date}', new Date(factor.created_at).toLocaleDateString())}
+                          </span>
+                        </span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          resetForm();
+                          setPendingRemoval(factor);
+                        }}
+                        disabled={isWorking}
+                        className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+                        aria-label={`${SETTINGS.TWO_FACTOR.REMOVE} ${factor.friendly_name || SETTINGS.TWO_FACTOR.DEFAULT_NAME}`}
+                      >
+                        <Trash2 className="w-4 h-4" aria-hidden="true" />
+                        <span>{SETTINGS.TWO_FACTOR.REMOVE}</span>
+                      </button>
+                    </div>
+
+                    {pendingRemoval?.id === factor.id && (
+                      <div className="mt-3 space-y-3">
+                        <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+                          {SETTINGS.TWO_FACTOR.REMOVE_CONFIRM.replace('{name}', factor.friendly_name || SETTINGS.TWO_FACTOR.DEFAULT_NAME)}
+                        </p>
+                        <div className="flex space-x-3">
+                          <button
+                            type="button"
+                            onClick={handleRemove}
+                            disabled={isWorking}
+                            className="flex-1 px-4 py-3 bg-red-500 text-white font-medium rounded-2xl hover:bg-red-600 transition-colors disabled:opacity-50"
+                          >
+                            {SETTINGS.TWO_FACTOR.REMOVE}
+                          </button>
+                          <button type="button" onClick={resetForm} disabled={isWorking} className={cancelButtonClassName}>
+                            {SETTINGS.TWO_FACTOR.CANCEL}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {isEnabled && remainingRecoveryCodes !== null && (
+              <p className="flex items-center text-sm text-zen-sage-600 dark:text-gray-400">
+                <KeyRound className="w-4 h-4 mr-2" aria-hidden="true" />
+                {SETTINGS.TWO_FACTOR.RECOVERY_REMAINING.replace('{count}', String(remainingRecoveryCodes))}
+              </p>
+            )}
+
+            {step === 'regenerate' ? (
+              <div className="space-y-3">
+                <p className="text-sm text-zen-sage-600 dark:text-gray-400">{SETTINGS.TWO_FACTOR.REGENERATE_CONFIRM}</p>
+                <div className="flex space-x-3">
+                  <button type="button" onClick={handleRegenerate} disabled={isWorking} className={primaryButtonClassName}>
+                    {SETTINGS.TWO_FACTOR.REGENERATE}
+                  </button>
+                  <button type="button" onClick={resetForm} disabled={isWorking} className={cancelButtonClassName}>
+                    {SETTINGS.TWO_FACTOR.CANCEL}
+                  </button>
+                </div>
+              </div>
+            ) : isEnabled && (
+              <button
+                type="button"
+                onClick={() => {
+                  resetForm();
+                  setStep('regenerate');
+                }}
+                disabled={isWorking}
+                className={secondaryButtonClassName}
+              >
+                <RefreshCw className="w-4 h-4" aria-hidden="true" />
+                <span>{SETTINGS.TWO_FACTOR.REGENERATE}</span>
+              </button>
+            )}
+
+            <button type="button" onClick={handleStartEnrollment} disabled={isWorking} className={secondaryButtonClassName}>
+              <Smartphone className="w-4 h-4" aria-hidden="true" />
+              <span>{isEnabled ? SETTINGS.TWO_FACTOR.ADD_ANOTHER : SETTINGS.TWO_FACTOR.SET_UP}</span>
+            </button>
+
+            {(error || loadError) && (
+              <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error || loadError}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default TwoFactorSection;
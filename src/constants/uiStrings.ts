@@ -182,6 +182,73 @@ export const JOURNAL = {
   SUCCESS_MESSAGES: {
     SAVED: 'Entry saved! Zeno is proud of you! 🎉',
     FIRST_ENTRY: 'Great start! You\'ve begun your journaling journey! 🌱',
+    SAVED_OFFLINE: 'Saved on this device. It will sync when you\'re back online.'
+  },
+  TAGS: {
+    LABEL: 'Tags (Optional)',
+    PLACEHOLDER: 'Add a tag and press Enter...',
+    HELP: 'Tags like work, family or sleep help you find entries later.',
+    REMOVE: 'Remove tag {tag}',
+    LIMIT_REACHED: 'You can add up to {count} tags per entry'
+  },
+  PRIVACY: {
+    LABEL: 'Private entry',
+    HELP: 'Your title and words are encrypted on this device. Mood, tags and dates stay readable.',
+    SEARCH_OPT_IN: 'Let search find this entry',
+    SEARCH_OPT_IN_HELP: 'Keeps a readable copy on our servers for search.',
+    AI_OPT_IN: 'Let Zeno read this entry',
+    AI_OPT_IN_HELP: 'Sends the entry to our AI provider for a personal affirmation.',
+    LOCKED_TITLE: 'Private entry',
+    LOCKED_CONTENT: 'Unlock your private journal to read this entry.',
+    UNLOCK_TITLE: 'Your private journal is locked',
+    UNLOCK_DESCRIPTION: 'Enter your passphrase to read and write private entries on this device.',
+    PASSPHRASE_PLACEHOLDER: 'Passphrase',
+    UNLOCK: 'Unlock',
+    UNLOCKING: 'Unlocking...',
+    FORGOT: 'Forgot it? Use your recovery code in Settings.'
+  },
+  VOICE: {
+    LABEL: 'Voice note (Optional)',
+    RECORD: 'Speak your entry',
+    STOP: 'Stop recording',
+    RECORDING: 'Recording {time} of {max}',
+    TRANSCRIBING: 'Writing down what you said...',
+    TRANSCRIBED: 'Your words were added below. Edit them before saving.',
+    EMPTY_TRANSCRIPT: "We couldn't make out any words, but your recording is kept.",
+    REMOVE: 'Remove voice note',
+    PLAY_LABEL: 'Voice note, {time}',
+    HELP: 'Recordings are kept with the entry so you can listen back later.',
+    PRIVATE_HINT: 'Turn on "Let Zeno read this entry" to speak a private entry. Voice notes are transcribed by our AI provider and stored unencrypted.',
+    UNSUPPORTED: "Your browser can't record audio."
+  },
+  STREAK: {
+    FREEZES_READY: '{count} streak freezes ready',
+    FREEZE_READY: '1 streak freeze ready',
+    FREEZE_HELP: 'A freeze keeps your streak going if you miss a single day or week. You earn one every 7 days or 4 weeks of streak.'
+  },
+  WEEKLY_GOAL: {
+    TITLE: 'Weekly Goal',
+    PROGRESS: '{days} of {goal} days this week',
+    REACHED: 'Goal reached this week! 🎉',
+    DAYS_LEFT: '{count} days left this week',
+    LAST_DAY: 'Today is the last day of the week',
+    GOAL_STREAK: '{count} weeks in a row',
+    HISTORY_LABEL: 'Last {count} weeks',
+    WEEK_MET: '{range}: goal reached',
+    WEEK_MISSED: '{range}: {days} of {goal} days',
+    WEEK_FROZEN: '{range}: covered by a streak freeze'
+  },
+  WEEKLY_SUMMARY: {
+    TITLE: 'Your week in review',
+    MET: 'You reached your goal of {goal} days. Lovely consistency!',
+    MISSED: 'You journaled on {days} of {goal} days. Every entry counts, and a fresh week is here.',
+    MORE_DAYS: '{count} more days than the week before',
+    FEWER_DAYS: '{count} fewer days than the week before',
+    SAME_DAYS: 'As many days as the week before',
+    ENTRIES: 'Entries',
+    WORDS: 'Words',
+    TOP_MOOD: 'Most common mood',
+    DISMISS: 'Dismiss weekly summary'
   }
 }
 
@@ -190,7 +257,11 @@ export const SETTINGS = {
   PROFILE: {
     TITLE: 'Profile Information',
     EMAIL_READONLY: 'Email cannot be changed. Contact support if needed.',
-    GOAL_HELP: 'Set your weekly journaling goal to stay motivated and track your progress.'
+    GOAL_HELP: 'Set your weekly journaling goal to stay motivated and track your progress.',
+    GOAL_STREAK_HELP: 'Below 7 days a week, your streak counts the weeks in which you reach your goal.',
+    TIMEZONE_LABEL: 'Timezone',
+    TIMEZONE_HELP: 'Streaks and "today" follow the days in this timezone.',
+    TIMEZONE_USE_DEVICE: 'Use {timezone}'
   },
   PREFERENCES: {
     TITLE: 'App Preferences',
@@ -201,7 +272,26 @@ export const SETTINGS = {
     },
     NOTIFICATIONS: {
       LABEL: 'Notifications',
-      DESCRIPTION: 'Gentle reminders for journaling'
+      DESCRIPTION: 'Gentle reminders for journaling',
+      UNSUPPORTED: "This browser can't show notifications",
+      BLOCKED: 'Notifications are blocked for Zensai. Allow them in your browser settings to get reminders.',
+      ENABLED: 'Reminders turned on',
+      DISABLED: 'Reminders turned off',
+      SAVED: 'Reminder settings saved',
+      TIME_LABEL: 'Remind me at',
+      DAYS_LABEL: 'On these days',
+      DAYS: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+      QUIET_HOURS_LABEL: 'Quiet hours',
+      QUIET_HOURS_HELP: 'No reminders between these times. A reminder that falls in them waits until they end, for up to an hour.',
+      QUIET_FROM: 'From',
+      QUIET_TO: 'To',
+      NUDGE_LABEL: "Nudge me when I haven't journaled for",
+      NUDGE_OFF: "Don't nudge me",
+      NUDGE_DAYS: '{count} days',
+      NUDGE_HELP: "Sent at your reminder time instead of that day's reminder, once each time you take a break.",
+      EMAIL_DIGEST_LABEL: 'Weekly email digest',
+      EMAIL_DIGEST_HELP: 'A summary of last week, every Monday at your reminder time',
+      SAVE: 'Save reminders'
     }
   },
   SUBSCRIPTION: {
@@ -211,12 +301,153 @@ export const SETTINGS = {
     PREMIUM_MONTHLY: 'Premium Monthly', 
     FREE: 'Free',
     RENEWAL: 'Your subscription will renew on {date}',
+    BUY_STREAK_FREEZE: 'Get a streak freeze',
     CANCELLED: 'Your subscription is cancelled and will end on {date}'
   },
   DATA_PRIVACY: {
     TITLE: 'Data & Privacy',
     EXPORT_BUTTON: 'Export Journal Data',
-    EXPORT_HELP: 'Download all your journal entries and data in JSON format.'
+    EXPORT_HELP: 'Download your entries as JSON, Markdown, CSV, a ZIP archive with photos and audio, or a themed PDF.',
+    EXPORT_FORMAT_LABEL: 'Format',
+    EXPORT_FORMATS: {
+      json: 'JSON',
+      markdown: 'Markdown',
+      csv: 'CSV',
+      zip: 'ZIP archive',
+      pdf: 'PDF'
+    },
+    EXPORT_FORMAT_HELP: {
+      json: 'Everything in one file, including profile and badges.',
+      markdown: 'One .md file per entry with front-matter, zipped.',
+      csv: 'A spreadsheet of date, mood, title and tags.',
+      zip: 'Markdown, JSON and CSV plus your photos and affirmation audio.',
+      pdf: 'A printable diary in the theme of your choice.'
+    },
+    EXPORT_DATE_FROM: 'From',
+    EXPORT_DATE_TO: 'To',
+    EXPORT_MOODS_LABEL: 'Moods',
+    EXPORT_MOODS_HELP: 'Leave all unselected to include every mood.',
+    EXPORT_THEME_LABEL: 'PDF theme',
+    EXPORT_SUCCESS: 'Exported {count} entries!',
+    IMPORT_BUTTON: 'Import Entries',
+    IMPORT_HELP: 'Bring in entries from Day One, Journey, Markdown files or a Zensai export.',
+    IMPORT: {
+      TITLE: 'Import Entries',
+      INTRO: 'Choose a Day One JSON or ZIP export, a Journey ZIP, a Zensai export, or a folder of Markdown files.',
+      CHOOSE_FILES: 'Choose Files',
+      CHOOSE_FOLDER: 'Choose Folder',
+      READING: 'Reading files...',
+      PREVIEW_SUMMARY: '{count} entries found, {duplicates} already in your journal',
+      SELECT_ALL: 'Select all',
+      SELECT_NONE: 'Select none',
+      DUPLICATE: 'Already imported',
+      PHOTO: 'Photo',
+      UNTITLED: 'Untitled Entry',
+      SOURCES: {
+        dayone: 'Day One',
+        journey: 'Journey',
+        markdown: 'Markdown',
+        zensai: 'Zensai'
+      },
+      PHOTOS_PREMIUM: 'Photos are only imported on Premium or during your trial.',
+      IMPORT_SELECTED: 'Import {count} Entries',
+      IMPORTING: 'Importing {done} of {total}...',
+      SUCCESS: 'Imported {count} entries!',
+      SKIPPED_PHOTOS: '{count} photos were skipped.',
+      BACK: 'Back',
+      CLOSE: 'Close'
+    }
+  },
+  PRIVATE_JOURNAL: {
+    TITLE: 'Private Journal',
+    DESCRIPTION: 'Encrypt your entries on this device with a passphrase only you know. We can\'t read them, and we can\'t reset the passphrase for you.',
+    ENABLE: 'Turn On Private Journal',
+    SAVING: 'Saving...',
+    PASSPHRASE: 'Passphrase',
+    CONFIRM_PASSPHRASE: 'Confirm passphrase',
+    CURRENT_PASSPHRASE: 'Current passphrase',
+    NEW_PASSPHRASE: 'New passphrase',
+    PASSPHRASE_HELP: 'At least {count} characters. A few unrelated words work well.',
+    PASSPHRASE_MISMATCH: 'The passphrases don\'t match',
+    RECOVERY_CODE_TITLE: 'Your recovery code',
+    RECOVERY_CODE_HELP: 'Write this down and keep it somewhere safe. It is the only way back in if you forget your passphrase, and it won\'t be shown again.',
+    RECOVERY_CODE_SAVED: 'I\'ve saved it',
+    RECOVERY_CODE: 'Recovery code',
+    STATUS_UNLOCKED: 'On and unlocked on this device',
+    STATUS_LOCKED: 'On and locked on this device',
+    LOCK: 'Lock Now',
+    CHANGE_PASSPHRASE: 'Change Passphrase',
+    PASSPHRASE_CHANGED: 'Passphrase changed',
+    RECOVER: 'Use Recovery Code',
+    RECOVER_HELP: 'Enter your recovery code and choose a new passphrase.',
+    RECOVERED: 'Private journal unlocked with your new passphrase',
+    ROTATE_KEY: 'Rotate Encryption Key',
+    ROTATE_HELP: 'Creates a new key and re-encrypts every entry with it. You\'ll get a new recovery code.',
+    REENCRYPTING: 'Re-encrypting entries: {done} done',
+    SUBMIT: 'Save',
+    CANCEL: 'Cancel'
+  },
+  APP_LOCK: {
+    TITLE: 'App Lock',
+    DESCRIPTION: 'Ask for a PIN or your device unlock when Zensai opens, and after it has been left alone. The screen is blurred while you are in another tab or app.',
+    ENABLED: 'App lock is on for this device',
+    USE_PIN: 'Use a PIN',
+    USE_DEVICE: 'Use device unlock',
+    DEVICE_HELP: 'Face, fingerprint or screen lock, using your device\'s built-in authenticator.',
+    DEVICE_UNAVAILABLE: 'This device has no built-in authenticator, so a PIN is the only option.',
+    PIN: 'PIN',
+    CONFIRM_PIN: 'Confirm PIN',
+    PIN_HELP: '4 to 8 digits',
+    PIN_MISMATCH: 'The PINs don\'t match',
+    IDLE_LABEL: 'Lock after',
+    IDLE_OPTION: '{count} minutes of inactivity',
+    IDLE_OPTION_ONE: '1 minute of inactivity',
+    METHOD_PIN: 'Unlocks with a PIN',
+    METHOD_DEVICE: 'Unlocks with device unlock',
+    TURN_OFF: 'Turn Off App Lock',
+    TURN_OFF_CONFIRM: 'Enter your PIN to turn the app lock off',
+    TURNED_ON: 'App lock turned on',
+    TURNED_OFF: 'App lock turned off',
+    LOCK_NOW: 'Lock Now',
+    SAVE: 'Save',
+    CANCEL: 'Cancel'
+  },
+  LINKED_ACCOUNTS: {
+    TITLE: 'Sign-in Methods',
+    DESCRIPTION: 'Link Google or Apple to sign in to this account with one tap. Your password keeps working.',
+    EMAIL: 'Email and password',
+    LINKED: 'Linked',
+    LINK: 'Link',
+    UNLINK: 'Unlink',
+    UNLINKED: '{provider} unlinked'
+  },
+  TWO_FACTOR: {
+    TITLE: 'Two-Step Verification',
+    DESCRIPTION: "Ask for a code from an authenticator app as well as your password, so a stolen password alone can't open your journal.",
+    ENABLED: 'On: signing in needs a code from your authenticator app',
+    DEFAULT_NAME: 'Authenticator app',
+    ADDED_ON: 'Added {date}',
+    SET_UP: 'Set Up Authenticator App',
+    ADD_ANOTHER: 'Add Another App',
+    REMOVE: 'Remove',
+    REMOVE_CONFIRM: "Remove {name}? If it's your only app, signing in will only need your password.",
+    REMOVED: 'Authenticator app removed',
+    SCAN: 'Scan this QR code with an authenticator app such as 1Password, Google Authenticator or Authy, then enter the 6-digit code it shows.',
+    QR_ALT: 'QR code for your authenticator app',
+    SECRET: "Can't scan? Enter this key instead:",
+    CODE: '6-digit code',
+    VERIFY: 'Verify and Turn On',
+    CANCEL: 'Cancel',
+    TURNED_ON: 'Two-step verification is on',
+    RECOVERY_TITLE: 'Recovery codes',
+    RECOVERY_DESCRIPTION: 'Each code signs you in once if you lose your authenticator app. Store them somewhere safe, away from this device.',
+    RECOVERY_SHOWN_ONCE: "These codes won't be shown again.",
+    RECOVERY_REMAINING: '{count} of 10 recovery codes left',
+    RECOVERY_COPY: 'Copy Codes',
+    RECOVERY_COPIED: 'Recovery codes copied',
+    RECOVERY_DONE: "I've Saved Them",
+    REGENERATE: 'Get New Recovery Codes',
+    REGENERATE_CONFIRM: 'Your current recovery codes will stop working.'
   },
   ACCOUNT_ACTIONS: {
     TITLE: 'Account Actions',
@@ -245,6 +476,74 @@ export const SETTINGS = {
   }
 };
 
+// Auth Screen
+export const AUTH = {
+  PROVIDERS: {
+    google: 'Google',
+    apple: 'Apple'
+  },
+  CONTINUE_WITH: 'Continue with {provider}',
+  OR: 'or',
+  FORGOT_PASSWORD: 'Forgot password?',
+  USE_MAGIC_LINK: 'Email me a sign-in link',
+  STRENGTH: {
+    LABEL: 'Strength: {strength}',
+    LEVELS: ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'],
+    BREACHED: 'This password has appeared in a data breach. Please choose a different one.'
+  },
+  BACK_TO_SIGN_IN: 'Back to sign in',
+  FORGOT: {
+    TITLE: 'Reset your password',
+    DESCRIPTION: "Enter the email you signed up with and we'll send you a link to choose a new password.",
+    SUBMIT: 'Send Reset Link',
+    SENT: "If there's an account for {email}, a link to reset your password is on its way."
+  },
+  MAGIC_LINK: {
+    TITLE: 'Sign in with a link',
+    DESCRIPTION: "No password needed. We'll email you a link that signs you straight in.",
+    SUBMIT: 'Send Sign-in Link',
+    SENT: 'Check {email} for your sign-in link.'
+  },
+  RESET: {
+    TITLE: 'Choose a new password',
+    DESCRIPTION: "You'll use it the next time you sign in with your email.",
+    NEW_PASSWORD: 'New password',
+    CONFIRM_PASSWORD: 'Confirm new password',
+    MISMATCH: "The passwords don't match",
+    SUBMIT: 'Save Password',
+    SAVED: 'Your password has been changed.',
+    INVALID_TITLE: 'This link has expired',
+    INVALID_DESCRIPTION: 'Password reset links work once and only for a short time. Request a new one to continue.',
+    REQUEST_NEW: 'Request a New Link'
+  },
+  MFA: {
+    TITLE: 'Two-step verification',
+    DESCRIPTION: 'Enter the 6-digit code from your authenticator app.',
+    CODE: '6-digit code',
+    SUBMIT: 'Verify',
+    USE_RECOVERY_CODE: 'Lost your authenticator? Use a recovery code',
+    RECOVERY_DESCRIPTION: 'Enter one of the recovery codes you saved. It removes your authenticator app so you can set up a new one in Settings.',
+    RECOVERY_CODE: 'Recovery code',
+    USE_AUTHENTICATOR: 'Use your authenticator app instead',
+    SIGN_OUT: 'Sign in with a different account'
+  }
+};
+
+// App Lock Screen
+export const APP_LOCK = {
+  TITLE: 'Zensai is locked',
+  PIN_PROMPT: 'Enter your PIN to continue',
+  DEVICE_PROMPT: 'Use your device unlock to continue',
+  PIN_PLACEHOLDER: 'PIN',
+  UNLOCK: 'Unlock',
+  UNLOCK_WITH_DEVICE: 'Unlock with Device',
+  CHECKING: 'Checking...',
+  ATTEMPTS_LEFT: '{count} attempts left before a pause',
+  RETRY_IN: 'Too many attempts. Try again in {seconds} seconds.',
+  FORGOT: 'Can\'t unlock? Sign out and sign in again with your password.',
+  SIGN_OUT: 'Sign Out'
+};
+
 // Badges
 export const BADGES = {
   TITLE: 'Badge Collection',
@@ -270,14 +569,37 @@ export const HISTORY = {
     ALL_MOODS: 'All Moods',
     NEWEST: 'Newest First',
     OLDEST: 'Oldest First',
-    CLEAR: 'Clear filters'
+    RELEVANCE: 'Best Match',
+    CLEAR: 'Clear filters',
+    DATE_FROM: 'From',
+    DATE_TO: 'To',
+    SEARCHING: 'Searching...',
+    BY_TAG: 'Filter by tag',
+    NO_TAGS: 'Tag your entries to filter them here'
   },
-  ANALYTICS: {
-    TITLE: 'Advanced Analytics',
-    COMING_SOON: 'Advanced Insights Coming Soon',
-    COMING_SOON_DESC: 'We\'re working on detailed mood trends, sentiment analysis, and AI-generated summaries of your emotional patterns. Available during your trial, and to premium subscribers after.',
-    UNLOCK: 'Your Free Trial Has Ended',
-    UNLOCK_DESC: 'Subscribe to Zensai Premium to continue accessing all features including advanced analytics, unlimited journal history, and more.'
+  LOAD_MORE: {
+    BUTTON: 'Load older entries',
+    LOADING: 'Loading older entries...'
+  },
+  PENDING_SYNC: 'Waiting to sync',
+  GALLERY: {
+    LABEL: 'Photos',
+    ADD: 'Add photos',
+    UPLOADING: 'Adding photos...',
+    COUNT: '{count} of {max} photos',
+    LIMIT_REACHED: 'An entry can hold up to {max} photos',
+    CAPTION_PLACEHOLDER: 'Add a caption...',
+    CAPTION_LABEL: 'Caption for photo {number}',
+    DRAG_HINT: 'Drag photos to change their order. The first one is the cover.',
+    DRAG_HANDLE: 'Drag to reorder photo {number}',
+    MOVE_UP: 'Move photo {number} earlier',
+    MOVE_DOWN: 'Move photo {number} later',
+    REMOVE: 'Remove photo {number}',
+    OPEN: 'Open photo {number}',
+    PHOTO_ALT: 'Photo {number} of {count}',
+    PREVIOUS: 'Previous photo',
+    NEXT: 'Next photo',
+    CLOSE: 'Close photo'
   },
   HISTORY_LIMIT: {
     TITLE: 'Your Free Trial Has Ended',
@@ -290,8 +612,39 @@ export const HISTORY = {
   },
   ANALYTICS: {
     TITLE: 'Advanced Analytics',
-    COMING_SOON: 'Advanced Insights Coming Soon',
-    COMING_SOON_DESC: 'We\'re working on detailed mood trends, sentiment analysis, and AI-generated summaries of your emotional patterns. These will be available to all subscribers.',
+    RANGES: {
+      7: '7 days',
+      30: '30 days',
+      90: '90 days',
+      365: '1 year'
+    },
+    SUMMARY: {
+      ENTRIES: 'Entries',
+      AVERAGE_MOOD: 'Average mood',
+      ACTIVE_DAYS: 'Active days',
+      WORDS: 'Words written',
+      AVERAGE_WORDS: '{count} words per entry'
+    },
+    TREND: 'Mood Trend',
+    TREND_WEEKLY: 'Weekly averages',
+    BY_WEEKDAY: 'Mood by Weekday',
+    BY_HOUR: 'Mood by Time of Day',
+    WEEKDAYS: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    HEATMAP: 'Journaling Calendar',
+    HEATMAP_LEGEND_LESS: 'Less',
+    HEATMAP_LEGEND_MORE: 'More',
+    HEATMAP_DAY: '{count} entries on {date}',
+    WORDS: 'Writing Volume',
+    CORRELATIONS: 'What Lifts Your Mood',
+    WITH_PHOTO: 'With a photo',
+    WITHOUT_PHOTO: 'Without a photo',
+    WITH_AFFIRMATION: 'With an affirmation',
+    WITHOUT_AFFIRMATION: 'Without an affirmation',
+    DIFFERENCE_UP: '{value} higher',
+    DIFFERENCE_DOWN: '{value} lower',
+    NOT_ENOUGH_DATA: 'Not enough entries yet',
+    NO_DATA: 'No entries in this period yet. Keep journaling to see your patterns here.',
+    RETRY: 'Try again',
     UNLOCK: 'Your Free Trial Has Ended',
     UNLOCK_DESC: 'Subscribe to Zensai Premium to continue accessing all features including advanced analytics, unlimited journal history, and more.'
   },
@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { AppLockContext } from '../hooks/useAppLock';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import {
+  AppLockMethod,
+  AppLockSettings,
+  MAX_PIN_ATTEMPTS,
+  clearAppLockSettings,
+  createPinSettings,
+  getPinRetryDelay,
+  isPlatformAuthenticatorAvailable,
+  isValidPin,
+  loadAppLockSettings,
+  registerPlatformCredential,
+  saveAppLockSettings,
+  verifyPin,
+  verifyPlatformCredential
+} from '../lib/appLock';
+
+/** How often the idle timeout is checked */
+const IDLE_CHECK_INTERVAL_MS = 15_000;
+
+/** Idle minutes used when the lock is first turned on */
+const DEFAULT_IDLE_MINUTES = 5;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'] as const;
+
+interface AppLockResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface AppLockContextType {
+  isEnabled: boolean;
+  method: AppLockMethod | null;
+  idleMinutes: number;
+  isLocked: boolean;
+  /** Whether the tab is hidden, so its content should be blurred */
+  isHidden: boolean;
+  /** Wrong PINs left before unlocking is paused */
+  attemptsLeft: number;
+  /** When the PIN can be tried again, or null */
+  retryAt: Date | null;
+  isDeviceUnlockAvailable: boolean;
+  enableWithPin: (pin: string, idleMinutes: number) => Promise<AppLockResult>;
+  enableWithDevice: (idleMinutes: number) => Promise<AppLockResult>;
+  setIdleMinutes: (minutes: number) => void;
+  disable: (pin?: string) => Promise<AppLockResult>;
+  lock: () => void;
+  unlockWithPin: (pin: string) => Promise<AppLockResult>;
+  unlockWithDevice: () => Promise<AppLockResult>;
+  /** Turn the lock off and sign out, for when the PIN is forgotten */
+  resetAndSignOut: () => Promise<void>;
+}
+
+/**
+ * Keeps the signed in app behind a PIN or device unlock on this device
+ *
+ * The app starts locked when the lock is on, locks again after the chosen
+ * idle time and reports when the tab is hidden so AppLockGate can blur it.
+ */
+export function AppLockProvider({ children }: { children: ReactNode }) {
+  const { user, logout } = useAuth();
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isHidden, setIsHidden] = useState(() => typeof document !== 'undefined' && document.hidden);
+  const [isDeviceUnlockAvailable, setIsDeviceUnlockAvailable] = useState(false);
+  const lastActivityRef = useRef(Date.now());
+  const userId = user?.id;
+
+  // Load this user's lock; opening the app with the lock on starts locked
+  useEffect(() => {
+    const saved = userId ? loadAppLockSettings(userId) : null;
+    setSettings(saved);
+    setIsLocked(!!saved);
+    lastActivityRef.current = Date.now();
+  }, [userId]);
+
+  useEffect(() => {
+    isPlatformAuthenticatorAvailable().then(setIsDeviceUnlockAvailable);
+  }, []);
+
+  const updateSettings = useCallback((next: AppLockSettings) => {
+    if (!user) return;
+    saveAppLockSettings(user.id, next);
+    setSettings(next);
+  }, [user]);
+
+  const lock = useCallback(() => {
+    if (settings) setIsLocked(true);
+  }, [settings]);
+
+  // Lock after the idle timeout, and blur while the tab is hidden
+  useEffect(() => {
+    if (!settings) return;
+
+    const idleLimit = settings.idleMinutes * 60_000;
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    const checkIdle = () => {
+      if (Date.now() - lastActivityRef.current >= idleLimit) {
+        setIsLocked(true);
+      }
+    };
+    const handleVisibilityChange = () => {
+      setIsHidden(document.hidden);
+      // Timers are throttled in background tabs, so check as soon as the tab is back
+      if (!document.hidden) checkIdle();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = window.setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.clearInterval(interval);
+    };
+  }, [settings]);
+
+  const unlocked = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    setIsLocked(false);
+  }, []);
+
+  /**
+   * Turn the lock on with a PIN
+   *
+   * @param {string} pin - 4 to 8 digits
+   * @param {number} idleMinutes - Minutes of inactivity before locking
+   * @returns {Promise<AppLockResult>} Result
+   */
+  const enableWithPin = useCallback(async (pin: string, idleMinutes: number): Promise<AppLockResult> => {
+    if (!user) return notSignedIn();
+    if (!isValidPin(pin)) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(createAppError(ErrorCode.VALIDATION_ERROR, 'Your PIN must be 4 to 8 digits.'))
+      };
+    }
+
+    updateSettings({ method: 'pin', idleMinutes, ...await createPinSettings(pin) });
+    unlocked();
+    return { success: true };
+  }, [user, updateSettings, unlocked]);
+
+  /**
+   * Turn the lock on with the device's built-in authenticator
+   *
+   * @param {number} idleMinutes - Minutes of inactivity before locking
+   * @returns {Promise<AppLockResult>} Result
+   */
+  const enableWithDevice = useCallback(async (idleMinutes: number): Promise<AppLockResult> => {
+    if (!user) return notSignedIn();
+    if (!isDeviceUnlockAvailable) return deviceUnavailable();
+
+    try {
+      const credentialId = await registerPlatformCredential(user.id, user.email || 'Zensai');
+      updateSettings({ method: 'webauthn', idleMinutes, credentialId });
+      unlocked();
+      return { success: true };
+    } catch (err) {
+      console.warn('Could not set up device unlock:', err);
+      return deviceUnavailable(err);
+    }
+  }, [user, isDeviceUnlockAvailable, updateSettings, unlocked]);
+
+  const setIdleMinutes = useCallback((minutes: number) => {
+    if (settings) updateSettings({ ...settings, idleMinutes: minutes });
+  }, [settings, updateSettings]);
+
+  /**
+   * Check a PIN and count the wrong ones, pausing after MAX_PIN_ATTEMPTS
+   */
+  const checkPin = useCallback(async (pin: string): Promise<AppLockResult> => {
+    if (!settings) return { success: true };
+
+    if (settings.retryAt && new Date(settings.retryAt).getTime() > Date.now()) {
+      return tooManyAttempts();
+    }
+
+    if (await verifyPin(pin, settings)) {
+      updateSettings({ ...settings, failedAttempts: 0, retryAt: null });
+      return { success: true };
+    }
+
+    const failedAttempts = (settings.failedAttempts || 0) + 1;
+    const delay = getPinRetryDelay(failedAttempts);
+    updateSettings({
+      ...settings,
+      failedAttempts,
+      retryAt: delay > 0 ? new Date(Date.now() + delay).toISOString() : null
+    });
+
+    return delay > 0 ? tooManyAttempts() : {
+      success: false,
+      error: getUserFriendlyErrorMessage(createAppError(ErrorCode.APP_LOCK_INVALID_PIN, 'That PIN is not correct.'))
+    };
+  }, [settings, updateSettings]);
+
+  /**
+   * Check the user again with the lock's own method
+   */
+  const verifyUser = useCallback(async (pin?: string): Promise<AppLockResult> => {
+    if (!settings) return { success: true };
+
+    if (settings.method === 'pin') {
+      return checkPin(pin || '');
+    }
+
+    const verified = settings.credentialId ? await verifyPlatformCredential(settings.credentialId) : false;
+    return verified ? { success: true } : deviceUnavailable();
+  }, [settings, checkPin]);
+
+  const unlockWithPin = useCallback(async (pin: string): Promise<AppLockResult> => {
+    const result = await verifyUser(pin);
+    if (result.success) unlocked();
+    return result;
+  }, [verifyUser, unlocked]);
+
+  const unlockWithDevice = useCallback(async (): Promise<AppLockResult> => {
+    const result = await verifyUser();
+    if (result.success) unlocked();
+    return result;
+  }, [verifyUser, unlocked]);
+
+  /**
+   * Turn the lock off after checking the user once more
+   *
+   * @param {string} [pin] - Current PIN, when the lock uses one
+   * @returns {Promise<AppLockResult>} Result
+   */
+  const disable = useCallback(async (pin?: string): Promise<AppLockResult> => {
+    if (!user) return notSignedIn();
+
+    const result = await verifyUser(pin);
+    if (!result.success) return result;
+
+    clearAppLockSettings(user.id);
+    setSettings(null);
+    setIsLocked(false);
+    return { success: true };
+  }, [user, verifyUser]);
+
+  const resetAndSignOut = useCallback(async () => {
+    if (user) clearAppLockSettings(user.id);
+    setSettings(null);
+    setIsLocked(false);
+    await logout();
+  }, [user, logout]);
+
+  const failedAttempts = settings?.failedAttempts || 0;
+  const retryAt = settings?.retryAt ? new Date(settings.retryAt) : null;
+
+  return (
+    <AppLockContext.Provider value={{
+      isEnabled: !!settings,
+      method: settings?.method ?? null,
+      idleMinutes: settings?.idleMinutes ?? DEFAULT_IDLE_MINUTES,
+      isLocked,
+      isHidden,
+      attemptsLeft: MAX_PIN_ATTEMPTS - (failedAttempts % MAX_PIN_ATTEMPTS),
+      retryAt: retryAt && retryAt.getTime() > Date.now() ? retryAt : null,
+      isDeviceUnlockAvailable,
+      enableWithPin,
+      enableWithDevice,
+      setIdleMinutes,
+      disable,
+      lock,
+      unlockWithPin,
+      unlockWithDevice,
+      resetAndSignOut
+    }}>
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+function notSignedIn(): AppLockResult {
+  return {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(ErrorCode.NOT_AUTHENTICATED, 'You must be signed in to change the app lock.'))
+  };
+}
+
+function tooManyAttempts(): AppLockResult {
+  return {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(
+      ErrorCode.APP_LOCK_TOO_MANY_ATTEMPTS,
+      'Too many wrong PINs. Please wait a moment and try again.'
+    ))
+  };
+}
+
+function deviceUnavailable(err?: unknown): AppLockResult {
+  return {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(
+      ErrorCode.APP_LOCK_UNAVAILABLE,
+      'Device unlock was cancelled or is not available.',
+      undefined,
+      err
+    ))
+  };
+}
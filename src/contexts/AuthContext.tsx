@@ -2,13 +2,21 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import * as Sentry from '@sentry/react';
 import { supabase } from '../lib/supabase';
-import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { getUserFriendlyErrorMessage } from '../types/errors';
+import { AUTH_TIMEOUT_MESSAGE, getAuthError, getAuthRedirectError, readFunctionErrorPayload } from '../utils/authErrors';
+import { clearSignedUrlCache } from '../utils/signedUrlCache';
+import { clearMediaCache } from '../lib/serviceWorker';
+import { detectTimezone } from '../utils/timezone';
+import { isMfaChallengePending } from '../utils/mfa';
+import { OAuthProvider } from '../utils/oauth';
 
 interface User {
   id: string;
   name: string;
   email: string;
   joinedDate: Date;
+  /** Ways the user can sign in, e.g. 'email' and 'google' */
+  providers: string[];
 }
 
 interface AuthState {
@@ -17,20 +25,59 @@ interface AuthState {
   isLoading: boolean;
 }
 
+type AuthResult = { success: boolean; error?: string };
+
 interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  /** Signed in from a password reset link and yet to choose a new password */
+  isPasswordRecovery: boolean;
+  /** Why the email link or OAuth redirect that opened the app failed */
+  authRedirectError: string | null;
+  /** Password accepted, but the user still has to enter a code from their authenticator app */
+  mfaPending: boolean;
+  login: (email: string, password: string) => Promise<AuthResult>;
   logout: () => Promise<void>;
-  signup: (name: string, email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  signup: (name: string, email: string, password: string) => Promise<AuthResult>;
+  requestPasswordReset: (email: string) => Promise<AuthResult>;
+  updatePassword: (password: string) => Promise<AuthResult>;
+  sendMagicLink: (email: string) => Promise<AuthResult>;
+  signInWithProvider: (provider: OAuthProvider) => Promise<AuthResult>;
+  linkProvider: (provider: OAuthProvider) => Promise<AuthResult>;
+  unlinkProvider: (provider: OAuthProvider) => Promise<AuthResult>;
+  verifyMfa: (code: string) => Promise<AuthResult>;
+  redeemRecoveryCode: (code: string) => Promise<AuthResult>;
+  clearAuthRedirectError: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const AUTH_REQUEST_TIMEOUT_MS = 10000;
+
+function withTimeout<T>(request: Promise<T>): Promise<T> {
+  return Promise.race([
+    request,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error(AUTH_TIMEOUT_MESSAGE)), AUTH_REQUEST_TIMEOUT_MS)
+    )
+  ]);
+}
+
+function notConnected(): AuthResult {
+  return { success: false, error: 'Database not connected. Please connect to Supabase first.' };
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
     isAuthenticated: false,
     isLoading: true
   });
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
+  const [mfaPending, setMfaPending] = useState(false);
+  // Read before the router rewrites the URL; Supabase leaves the error parameters in place
+  const [authRedirectError, setAuthRedirectError] = useState<string | null>(() => {
+    const redirectError = getAuthRedirectError(window.location.hash, window.location.search);
+    return redirectError ? getUserFriendlyErrorMessage(redirectError) : null;
+  });
 
   useEffect(() => {
     // Get initial session
@@ -76,6 +123,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
 
         if (user) {
+          // A session from the password alone doesn't count once the user has an authenticator
+          const { data: assurance } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+          if (assurance?.nextLevel === 'aal2' && assurance.currentLevel !== 'aal2') {
+            setMfaPending(true);
+            setAuthState(prev => ({ ...prev, isLoading: false }));
+            return;
+          }
+
           const userData = mapSupabaseUserToUser(user);
           setAuthState({
             user: userData,
@@ -116,7 +171,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     
     const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
       try {
-        if (event === 'SIGNED_IN' && session?.user) {
+        if ((event === 'SIGNED_IN' || event === 'PASSWORD_RECOVERY') && isMfaChallengePending(session)) {
+          // AuthScreen asks for the authenticator code; MFA_CHALLENGE_VERIFIED follows
+          setIsPasswordRecovery(event === 'PASSWORD_RECOVERY');
+          setMfaPending(true);
+          setAuthState({
+            user: null,
+            isAuthenticated: false,
+            isLoading: false
+          });
+        } else if (event === 'PASSWORD_RECOVERY' && session?.user) {
+          // The recovery link signs the user in; App keeps them on /reset-password until they pick a password
+          setIsPasswordRecovery(true);
+          setAuthState({
+            user: mapSupabaseUserToUser(session.user),
+            isAuthenticated: true,
+            isLoading: false
+          });
+        } else if (event === 'USER_UPDATED' && session?.user) {
+          // Password changes and linked providers
+          const updatedUser = session.user;
+          setAuthState(prev => ({ ...prev, user: mapSupabaseUserToUser(updatedUser) }));
+        } else if ((event === 'SIGNED_IN' || event === 'MFA_CHALLENGE_VERIFIED') && session?.user) {
+          setMfaPending(false);
           const userData = mapSupabaseUserToUser(session.user);
           setAuthState({
             user: userData,
@@ -132,6 +209,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           });
           
         } else if (event === 'SIGNED_OUT') {
+          setIsPasswordRecovery(false);
+          setMfaPending(false);
           setAuthState({
             user: null,
             isAuthenticated: false,
@@ -156,111 +235,67 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const mapSupabaseUserToUser = (supabaseUser: SupabaseUser): User => {
     return {
       id: supabaseUser.id,
-      name: supabaseUser.user_metadata?.name || supabaseUser.email?.split('@')[0] || 'User',
+      name: supabaseUser.user_metadata?.name || supabaseUser.user_metadata?.full_name || supabaseUser.email?.split('@')[0] || 'User',
       email: supabaseUser.email || '',
-      joinedDate: new Date(supabaseUser.created_at)
+      joinedDate: new Date(supabaseUser.created_at),
+      providers: (supabaseUser.identities || []).map(identity => identity.provider)
     };
   };
 
-  const login = async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
+  /**
+   * Sign in with email and password
+   *
+   * When the account has an authenticator the session only reaches aal1 and
+   * mfaPending is set; the user is signed in once verifyMfa succeeds.
+   */
+  const login = async (email: string, password: string): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
     try {
-      // Add timeout to login request
-      const loginPromise = supabase.auth.signInWithPassword({
+      const { data, error } = await withTimeout(client.auth.signInWithPassword({
         email: email.trim(),
         password
-      });
-      
-      const { data, error } = await Promise.race([
-        loginPromise,
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Login request timeout')), 10000)
-        )
-      ]) as any;
-      
+      }));
+
       if (error) {
-        let errorMessage = 'Login failed. Please try again.';
-        let errorCode = ErrorCode.UNKNOWN_ERROR;
-        
-        if (error.message?.includes('Invalid login credentials') || 
-            error.message?.includes('Invalid email or password')) {
-          errorMessage = 'Invalid email or password. Please check your credentials.';
-          errorCode = ErrorCode.AUTH_INVALID_CREDENTIALS;
-        } else if (error.message?.includes('Email not confirmed')) {
-          errorMessage = 'Please check your email and confirm your account before signing in.';
-          errorCode = ErrorCode.AUTH_USER_NOT_FOUND;
-        } else if (error.message?.includes('Too many requests')) {
-          errorMessage = 'Too many login attempts. Please wait a moment and try again.';
-          errorCode = ErrorCode.AUTH_TOO_MANY_REQUESTS;
-        } else if (error.message?.includes('Failed to fetch')) {
-          errorMessage = 'Network error. Please check your internet connection and try again.';
-          errorCode = ErrorCode.UNKNOWN_ERROR;
-        }
-        
-        const appError = createAppError(errorCode, errorMessage, { originalMessage: error.message });
-        return { success: false, error: getUserFriendlyErrorMessage(appError) };
+        return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, 'Login failed. Please try again.')) };
       }
 
       if (data.user) {
+        if (isMfaChallengePending(data.session)) {
+          setMfaPending(true);
+        }
         // User state will be updated by the auth state change listener
         return { success: true };
       }
 
       return { success: false, error: 'Login failed. Please try again.' };
     } catch (error) {
-      console.warn('Login error:', getUserFriendlyErrorMessage(createAppError(ErrorCode.UNKNOWN_ERROR, 'Login failed', undefined, error)));
-      
-      // Handle specific error types
-      if (error instanceof Error && error.message === 'Login request timeout') {
-        return { success: false, error: 'Login request timed out. Please check your internet connection and try again.' };
-      } else if (error instanceof TypeError && error.message?.includes('Failed to fetch')) {
-        return { success: false, error: 'Network error. Please check your internet connection and try again.' };
-      }
-      
-      return { success: false, error: getUserFriendlyErrorMessage(createAppError(ErrorCode.UNKNOWN_ERROR, 'An unexpected error occurred. Please try again.', undefined, error)) };
+      console.warn('Login error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, 'An unexpected error occurred. Please try again.')) };
     }
   };
 
-  const signup = async (name: string, email: string, password: string): Promise<{ success: boolean; error?: string }> => {
+  const signup = async (name: string, email: string, password: string): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
     try {
-      // Add timeout to signup request
-      const signupPromise = supabase.auth.signUp({
+      const { data, error } = await withTimeout(client.auth.signUp({
         email: email.trim(),
         password: password,
         options: {
           data: {
-            name: name.trim()
+            name: name.trim(),
+            timezone: detectTimezone()
           },
           emailRedirectTo: window.location.origin + '/auth'
         }
-      });
-      
-      const { data, error } = await Promise.race([
-        signupPromise,
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Signup request timeout')), 10000)
-        )
-      ]) as any;
-      
+      }));
+
       if (error) {
-        let errorMessage = 'Sign up failed. Please try again.';
-        let errorCode = ErrorCode.UNKNOWN_ERROR;
-        
-        if (error.message?.includes('User already registered')) {
-          errorMessage = 'An account with this email already exists. Please sign in instead.';
-          errorCode = ErrorCode.AUTH_EMAIL_IN_USE;
-        } else if (error.message?.includes('Password should be at least')) {
-          errorMessage = 'Password must be at least 6 characters long.';
-          errorCode = ErrorCode.AUTH_WEAK_PASSWORD;
-        } else if (error.message?.includes('Invalid email')) {
-          errorMessage = 'Please enter a valid email address.';
-          errorCode = ErrorCode.AUTH_INVALID_EMAIL;
-        } else if (error.message?.includes('Failed to fetch')) {
-          errorMessage = 'Network error. Please check your internet connection and try again.';
-          errorCode = ErrorCode.UNKNOWN_ERROR;
-        }
-        
-        const appError = createAppError(errorCode, errorMessage, { originalMessage: error.message });
-        return { success: false, error: getUserFriendlyErrorMessage(appError) };
+        return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, 'Sign up failed. Please try again.')) };
       }
 
       if (data.user) {
@@ -279,19 +314,262 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return { success: false, error: 'Sign up failed. Please try again.' };
     } catch (error) {
       console.warn('Signup error:', error);
-      
-      // Handle specific error types
-      if (error instanceof Error && error.message === 'Signup request timeout') {
-        return { success: false, error: 'Signup request timed out. Please check your internet connection and try again.' };
-      } else if (error instanceof TypeError && error.message?.includes('Failed to fetch')) {
-        return { success: false, error: 'Network error. Please check your internet connection and try again.' };
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, 'An unexpected error occurred. Please try again.')) };
+    }
+  };
+
+  /**
+   * Email a link that opens /reset-password with a recovery session
+   *
+   * Succeeds whether or not the address has an account, so it can't be used
+   * to find out who uses Zensai.
+   */
+  const requestPasswordReset = async (email: string): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { error } = await withTimeout(client.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: window.location.origin + '/reset-password'
+      }));
+
+      if (error) {
+        return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't send the reset email. Please try again.")) };
+      }
+      return { success: true };
+    } catch (error) {
+      console.warn('Password reset request error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't send the reset email. Please try again.")) };
+    }
+  };
+
+  /**
+   * Set a new password for the signed-in user, usually from a recovery link
+   *
+   * Goes through the update-password edge function, which checks the password
+   * policy again rather than trusting the form.
+   */
+  const updatePassword = async (password: string): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { data, error } = await withTimeout(client.functions.invoke('update-password', {
+        body: { password }
+      }));
+
+      if (error) {
+        // Non-2xx responses keep the server's reason in the response body
+        const payload = await readFunctionErrorPayload(error);
+        const appError = getAuthError(payload?.code ? payload : error, payload?.error || "We couldn't update your password. Please try again.");
+        return { success: false, error: getUserFriendlyErrorMessage(appError) };
+      }
+
+      if (!data?.success) {
+        return { success: false, error: data?.error || "We couldn't update your password. Please try again." };
+      }
+
+      setIsPasswordRecovery(false);
+      return { success: true };
+    } catch (error) {
+      console.warn('Password update error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't update your password. Please try again.")) };
+    }
+  };
+
+  /**
+   * Email a one-time sign-in link to an existing account
+   *
+   * New accounts still go through signup, so they get a name and timezone.
+   */
+  const sendMagicLink = async (email: string): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { error } = await withTimeout(client.auth.signInWithOtp({
+        email: email.trim(),
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: window.location.origin + '/auth'
+        }
+      }));
+
+      if (error) {
+        return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't send your sign-in link. Please try again.")) };
+      }
+      return { success: true };
+    } catch (error) {
+      console.warn('Magic link error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't send your sign-in link. Please try again.")) };
+    }
+  };
+
+  /**
+   * Start signing in with an OAuth provider; on success the browser leaves the app
+   */
+  const signInWithProvider = async (provider: OAuthProvider): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { error } = await client.auth.signInWithOAuth({
+        provider,
+        options: { redirectTo: window.location.origin + '/auth' }
+      });
+
+      if (error) {
+        return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't start signing you in. Please try again.")) };
+      }
+      return { success: true };
+    } catch (error) {
+      console.warn('OAuth sign in error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't start signing you in. Please try again.")) };
+    }
+  };
+
+  /**
+   * Link an OAuth provider to the signed-in account
+   *
+   * The browser goes to the provider and comes back to Settings, where a
+   * failure is shown from authRedirectError.
+   */
+  const linkProvider = async (provider: OAuthProvider): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { error } = await client.auth.linkIdentity({
+        provider,
+        options: { redirectTo: window.location.origin + '/home?view=settings' }
+      });
+
+      if (error) {
+        return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't link that account. Please try again.")) };
+      }
+      return { success: true };
+    } catch (error) {
+      console.warn('Link identity error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't link that account. Please try again.")) };
+    }
+  };
+
+  /**
+   * Unlink an OAuth provider; the account's last sign-in method can't be removed
+   */
+  const unlinkProvider = async (provider: OAuthProvider): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { data, error: identitiesError } = await withTimeout(client.auth.getUserIdentities());
+      if (identitiesError) throw identitiesError;
+
+      const identity = data.identities.find(candidate => candidate.provider === provider);
+      if (!identity) return { success: true };
+
+      const { error } = await withTimeout(client.auth.unlinkIdentity(identity));
+      if (error) throw error;
+
+      // unlinkIdentity doesn't announce the change, so refresh the user ourselves
+      const { data: { user: supabaseUser } } = await client.auth.getUser();
+      if (supabaseUser) {
+        setAuthState(prev => ({ ...prev, user: mapSupabaseUserToUser(supabaseUser) }));
+      }
+      return { success: true };
+    } catch (error) {
+      console.warn('Unlink identity error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't unlink that account. Please try again.")) };
+    }
+  };
+
+  /**
+   * Finish signing in with a code from the user's authenticator app
+   *
+   * Tries each verified factor, since the code doesn't say which app it came from.
+   */
+  const verifyMfa = async (code: string): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { data, error: factorsError } = await withTimeout(client.auth.mfa.listFactors());
+      if (factorsError) throw factorsError;
+
+      let lastError: unknown = null;
+      for (const factor of data.totp) {
+        const { error } = await withTimeout(client.auth.mfa.challengeAndVerify({ factorId: factor.id, code: code.trim() }));
+        if (!error) {
+          // The listener signs the user in on MFA_CHALLENGE_VERIFIED
+          return { success: true };
+        }
+        lastError = error;
+      }
+
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(lastError, "That code didn't work. Please try again.")) };
+    } catch (error) {
+      console.warn('MFA verification error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't check your code. Please try again.")) };
+    }
+  };
+
+  /**
+   * Sign in with a one-time recovery code instead of the authenticator
+   *
+   * The code removes the account's authenticators, so the user can set up a
+   * new one from Settings.
+   */
+  const redeemRecoveryCode = async (code: string): Promise<AuthResult> => {
+    const client = supabase;
+    if (!client) return notConnected();
+
+    try {
+      const { data, error } = await withTimeout(client.functions.invoke('mfa-recovery-codes', {
+        body: { action: 'redeem', code }
+      }));
+
+      if (error) {
+        const payload = await readFunctionErrorPayload(error);
+        const appError = getAuthError(payload?.code ? payload : error, payload?.error || "We couldn't check your recovery code. Please try again.");
+        return { success: false, error: getUserFriendlyErrorMessage(appError) };
+      }
+
+      if (!data?.success) {
+        return { success: false, error: data?.error || "We couldn't check your recovery code. Please try again." };
+      }
+
+      // The new session no longer lists the removed factors, so aal1 is enough
+      const { data: { session }, error: refreshError } = await withTimeout(client.auth.refreshSession());
+      if (refreshError) throw refreshError;
+      if (!session?.user) {
+        return { success: false, error: 'Your session has ended. Please sign in again.' };
       }
-      
-      return { success: false, error: getUserFriendlyErrorMessage(createAppError(ErrorCode.UNKNOWN_ERROR, 'An unexpected error occurred. Please try again.', undefined, error)) };
+
+      const userData = mapSupabaseUserToUser(session.user);
+      setMfaPending(false);
+      setAuthState({
+        user: userData,
+        isAuthenticated: true,
+        isLoading: false
+      });
+      Sentry.setUser({
+        id: userData.id,
+        email: userData.email,
+        username: userData.name
+      });
+      return { success: true };
+    } catch (error) {
+      console.warn('Recovery code error:', error);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(error, "We couldn't check your recovery code. Please try again.")) };
     }
   };
 
+  const clearAuthRedirectError = () => setAuthRedirectError(null);
+
   const logout = async (): Promise<void> => {
+    // Signed media URLs and the photos and audio the service worker cached belong to this user
+    clearSignedUrlCache();
+    clearMediaCache().catch(error => console.warn('Failed to clear media cache:', error));
     try {
       const { error } = await supabase.auth.signOut();
       if (error) {
@@ -312,9 +590,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   return (
     <AuthContext.Provider value={{
       ...authState,
+      isPasswordRecovery,
+      authRedirectError,
+      mfaPending,
       login,
       logout,
-      signup
+      signup,
+      requestPasswordReset,
+      updatePassword,
+      sendMagicLink,
+      signInWithProvider,
+      linkProvider,
+      unlinkProvider,
+      verifyMfa,
+      redeemRecoveryCode,
+      clearAuthRedirectError
     }}>
       {children}
     </AuthContext.Provider>
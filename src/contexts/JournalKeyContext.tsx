@@ -0,0 +1,687 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import * as Sentry from '@sentry/react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { JournalKeyContext } from '../hooks/useJournalKey';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { getQueuedOperations } from '../lib/offlineStore';
+import {
+  PBKDF2_ITERATIONS,
+  countWords,
+  decryptText,
+  deriveWrappingKey,
+  encryptText,
+  generateJournalKey,
+  generateRecoveryCode,
+  generateSalt,
+  isEncryptedText,
+  normalizeRecoveryCode,
+  unwrapJournalKey,
+  wrapJournalKey
+} from '../lib/journalCrypto';
+
+/** Shortest passphrase accepted for the private journal */
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+/** Entries re-encrypted per request after the key changes */
+const REENCRYPT_BATCH_SIZE = 25;
+
+/**
+ * off: entries are stored as plaintext. locked: the private journal is on but
+ * the key isn't unlocked on this device. unlocked: entries can be read and written.
+ */
+export type JournalKeyStatus = 'loading' | 'off' | 'locked' | 'unlocked';
+
+/**
+ * What the user allowed for one private entry
+ * @interface EntryPrivacy
+ */
+export interface EntryPrivacy {
+  /** Store a plaintext copy on the server so search can find the entry */
+  searchOptIn?: boolean;
+  /** Let AI features such as affirmations read the entry */
+  aiOptIn?: boolean;
+}
+
+/**
+ * Columns written for an entry's title and content
+ * @interface SealedEntryColumns
+ */
+export interface SealedEntryColumns {
+  title: string | null;
+  content: string;
+  is_encrypted?: boolean;
+  key_version?: number | null;
+  search_opt_in?: boolean;
+  search_text?: string | null;
+  ai_opt_in?: boolean;
+  word_count?: number;
+}
+
+/**
+ * Fields of an entry row that openEntry reads
+ * @interface EncryptableEntry
+ */
+export interface EncryptableEntry {
+  title: string | null;
+  content: string;
+  is_encrypted?: boolean;
+  key_version?: number | null;
+  /** Encrypted and couldn't be decrypted on this device */
+  locked?: boolean;
+}
+
+interface JournalKeyRow {
+  key_version: number;
+  kdf_salt: string;
+  kdf_iterations: number;
+  wrapped_key: string;
+  recovery_salt: string;
+  recovery_wrapped_key: string;
+  previous_wrapped_key: string | null;
+  reencrypt_pending: boolean;
+}
+
+interface UnlockedKeys {
+  version: number;
+  current: CryptoKey;
+  previous: CryptoKey | null;
+}
+
+interface KeyActionResult {
+  success: boolean;
+  error?: string;
+  /** New recovery code to show once, after turning the private journal on or rotating the key */
+  recoveryCode?: string;
+}
+
+export interface JournalKeyContextType {
+  status: JournalKeyStatus;
+  /** Whether the private journal is on, locked or not */
+  isPrivate: boolean;
+  /** Entries re-encrypted so far while the key changes, or null */
+  reencryptProgress: { done: number; failed: number } | null;
+  error: string | null;
+  enablePrivateJournal: (passphrase: string) => Promise<KeyActionResult>;
+  unlock: (passphrase: string) => Promise<KeyActionResult>;
+  lock: () => void;
+  changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<KeyActionResult>;
+  recoverWithCode: (recoveryCode: string, newPassphrase: string) => Promise<KeyActionResult>;
+  rotateKey: (passphrase: string) => Promise<KeyActionResult>;
+  sealEntry: (fields: { title: string | null; content: string }, privacy: EntryPrivacy) => Promise<SealedEntryColumns>;
+  openEntry: <T extends EncryptableEntry>(entry: T) => Promise<T>;
+}
+
+/**
+ * Holds the unlocked journal key for the signed in user
+ *
+ * The key only lives in memory: it is dropped on sign out, when the journal is
+ * locked and when the page is closed.
+ */
+export function JournalKeyProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [keyRow, setKeyRow] = useState<JournalKeyRow | null>(null);
+  const [status, setStatus] = useState<JournalKeyStatus>('loading');
+  const [keys, setKeys] = useState<UnlockedKeys | null>(null);
+  const [reencryptProgress, setReencryptProgress] = useState<{ done: number; failed: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Auth hands out a new user object when the session is re-announced; only a new user resets the key
+  const userId = user?.id;
+
+  // Load whether this user has a private journal; a different user never sees the last one's key
+  useEffect(() => {
+    setKeys(null);
+    setKeyRow(null);
+    setReencryptProgress(null);
+    setError(null);
+
+    const client = supabase;
+    if (!userId || !client) {
+      setStatus('off');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+
+    fetchKeyRow(userId)
+      .then(row => {
+        if (cancelled) return;
+        setKeyRow(row);
+        setStatus(row ? 'locked' : 'off');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading private journal settings:', err);
+        // Assume the journal is private so nothing is written in plaintext by mistake
+        setStatus('locked');
+        setError(getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.STORAGE_READ_FAILED,
+          'Could not load your private journal settings. Please try again.',
+          undefined,
+          err
+        )));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  /**
+   * Re-encrypt every entry that isn't under the current key yet, then forget
+   * the previous key
+   */
+  const finishReencryption = useCallback(async (userId: string, unlocked: UnlockedKeys) => {
+    setReencryptProgress({ done: 0, failed: 0 });
+    try {
+      const failed = await reencryptEntries(userId, unlocked, (done, failedCount) => {
+        setReencryptProgress({ done, failed: failedCount });
+      });
+
+      if (failed > 0) {
+        setError(`${failed} entries could not be re-encrypted and will be retried next time you unlock your journal.`);
+        return;
+      }
+
+      await updateKeyRow(userId, { reencrypt_pending: false, previous_wrapped_key: null });
+      setKeyRow(row => row && { ...row, reencrypt_pending: false, previous_wrapped_key: null });
+      setKeys({ ...unlocked, previous: null });
+    } catch (err) {
+      console.error('Error re-encrypting journal entries:', err);
+      Sentry.captureException(err, { tags: { section: 'journal', operation: 'reencryptEntries' } });
+      setError('Some entries could not be re-encrypted yet. This will be retried next time you unlock your journal.');
+    } finally {
+      setReencryptProgress(null);
+    }
+  }, []);
+
+  /**
+   * Turn on the private journal and encrypt the entries written so far
+   *
+   * @param {string} passphrase - Passphrase that will unlock the journal
+   * @returns {Promise<KeyActionResult>} The recovery code to show the user
+   */
+  const enablePrivateJournal = useCallback(async (passphrase: string): Promise<KeyActionResult> => {
+    if (!user || !supabase) return notSignedIn();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return passphraseTooShort();
+
+    try {
+      const key = await generateJournalKey();
+      const recoveryCode = generateRecoveryCode();
+      const row: JournalKeyRow = {
+        key_version: 1,
+        kdf_iterations: PBKDF2_ITERATIONS,
+        reencrypt_pending: true,
+        previous_wrapped_key: null,
+        ...await wrapForPassphrase(key, passphrase),
+        ...await wrapForRecovery(key, recoveryCode)
+      };
+
+      const { error: insertError } = await supabase
+        .from('journal_keys')
+        .insert({ user_id: user.id, ...row });
+      if (insertError) throw insertError;
+
+      const unlocked = { version: 1, current: key, previous: null };
+      setKeyRow(row);
+      setKeys(unlocked);
+      setStatus('unlocked');
+      setError(null);
+      finishReencryption(user.id, unlocked);
+
+      return { success: true, recoveryCode };
+    } catch (err) {
+      console.error('Error turning on the private journal:', err);
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.STORAGE_WRITE_FAILED,
+          'Could not turn on your private journal. Please try again.',
+          undefined,
+          err
+        ))
+      };
+    }
+  }, [user, finishReencryption]);
+
+  /**
+   * Unlock the journal on this device
+   *
+   * @param {string} passphrase - The journal passphrase
+   * @returns {Promise<KeyActionResult>} Whether the passphrase was right
+   */
+  const unlock = useCallback(async (passphrase: string): Promise<KeyActionResult> => {
+    if (!user) return notSignedIn();
+    if (!keyRow) return journalNotPrivate();
+
+    let unlocked: UnlockedKeys;
+    try {
+      const wrappingKey = await deriveWrappingKey(passphrase, keyRow.kdf_salt, keyRow.kdf_iterations);
+      unlocked = await unlockKeys(keyRow, await unwrapJournalKey(keyRow.wrapped_key, wrappingKey));
+    } catch (err) {
+      return wrongSecret('That passphrase doesn\'t match your private journal.', err);
+    }
+
+    setKeys(unlocked);
+    setStatus('unlocked');
+    setError(null);
+    if (keyRow.reencrypt_pending) {
+      finishReencryption(user.id, unlocked);
+    }
+    return { success: true };
+  }, [user, keyRow, finishReencryption]);
+
+  /**
+   * Forget the key on this device until the passphrase is entered again
+   */
+  const lock = useCallback(() => {
+    if (!keyRow) return;
+    setKeys(null);
+    setStatus('locked');
+  }, [keyRow]);
+
+  /**
+   * Re-wrap the key with a new passphrase; entries don't change
+   *
+   * @param {string} currentPassphrase - Passphrase in use now
+   * @param {string} newPassphrase - Passphrase to use from now on
+   * @returns {Promise<KeyActionResult>} Result
+   */
+  const changePassphrase = useCallback(async (currentPassphrase: string, newPassphrase: string): Promise<KeyActionResult> => {
+    if (!user) return notSignedIn();
+    if (!keyRow) return journalNotPrivate();
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) return passphraseTooShort();
+
+    let key: CryptoKey;
+    try {
+      const wrappingKey = await deriveWrappingKey(currentPassphrase, keyRow.kdf_salt, keyRow.kdf_iterations);
+      key = await unwrapJournalKey(keyRow.wrapped_key, wrappingKey);
+    } catch (err) {
+      return wrongSecret('Your current passphrase is not correct.', err);
+    }
+
+    try {
+      const changes = await saveNewPassphrase(user.id, key, newPassphrase);
+      setKeyRow(row => row && { ...row, ...changes });
+      return { success: true };
+    } catch (err) {
+      return saveFailed(err);
+    }
+  }, [user, keyRow]);
+
+  /**
+   * Set a new passphrase using the recovery code, when the passphrase is forgotten
+   *
+   * @param {string} recoveryCode - Code shown when the journal was made private or the key last rotated
+   * @param {string} newPassphrase - Passphrase to use from now on
+   * @returns {Promise<KeyActionResult>} Result; the journal is unlocked on success
+   */
+  const recoverWithCode = useCallback(async (recoveryCode: string, newPassphrase: string): Promise<KeyActionResult> => {
+    if (!user) return notSignedIn();
+    if (!keyRow) return journalNotPrivate();
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) return passphraseTooShort();
+
+    let unlocked: UnlockedKeys;
+    try {
+      const wrappingKey = await deriveWrappingKey(
+        normalizeRecoveryCode(recoveryCode),
+        keyRow.recovery_salt,
+        keyRow.kdf_iterations
+      );
+      unlocked = await unlockKeys(keyRow, await unwrapJournalKey(keyRow.recovery_wrapped_key, wrappingKey));
+    } catch (err) {
+      return wrongSecret('That recovery code doesn\'t match your private journal.', err);
+    }
+
+    try {
+      const changes = await saveNewPassphrase(user.id, unlocked.current, newPassphrase);
+      setKeyRow({ ...keyRow, ...changes });
+    } catch (err) {
+      return saveFailed(err);
+    }
+
+    setKeys(unlocked);
+    setStatus('unlocked');
+    setError(null);
+    if (keyRow.reencrypt_pending) {
+      finishReencryption(user.id, unlocked);
+    }
+    return { success: true };
+  }, [user, keyRow, finishReencryption]);
+
+  /**
+   * Replace the journal key and re-encrypt every entry with the new one
+   *
+   * The old recovery code only unlocks the old key, so a new one is issued.
+   *
+   * @param {string} passphrase - The journal passphrase, to wrap the new key
+   * @returns {Promise<KeyActionResult>} The new recovery code
+   */
+  const rotateKey = useCallback(async (passphrase: string): Promise<KeyActionResult> => {
+    if (!user || !supabase) return notSignedIn();
+    if (!keyRow) return journalNotPrivate();
+
+    if (keyRow.reencrypt_pending || reencryptProgress) {
+      return {
+        success: false,
+        error: 'Your entries are still being re-encrypted. Please wait for that to finish first.'
+      };
+    }
+
+    // Changes waiting offline are encrypted with the current key and would be unreadable after rotation
+    const queued = await getQueuedOperations(user.id).catch(() => []);
+    if (queued.length > 0) {
+      return {
+        success: false,
+        error: 'Some changes are still waiting to sync. Please rotate your key once you are back online.'
+      };
+    }
+
+    let oldKey: CryptoKey;
+    try {
+      const wrappingKey = await deriveWrappingKey(passphrase, keyRow.kdf_salt, keyRow.kdf_iterations);
+      oldKey = await unwrapJournalKey(keyRow.wrapped_key, wrappingKey);
+    } catch (err) {
+      return wrongSecret('That passphrase doesn\'t match your private journal.', err);
+    }
+
+    try {
+      const key = await generateJournalKey();
+      const recoveryCode = generateRecoveryCode();
+      const changes = {
+        key_version: keyRow.key_version + 1,
+        kdf_iterations: PBKDF2_ITERATIONS,
+        previous_wrapped_key: await wrapJournalKey(oldKey, key),
+        reencrypt_pending: true,
+        ...await wrapForPassphrase(key, passphrase),
+        ...await wrapForRecovery(key, recoveryCode)
+      };
+
+      await updateKeyRow(user.id, changes);
+
+      const unlocked = { version: changes.key_version, current: key, previous: oldKey };
+      setKeyRow({ ...keyRow, ...changes });
+      setKeys(unlocked);
+      setStatus('unlocked');
+      setError(null);
+      finishReencryption(user.id, unlocked);
+
+      return { success: true, recoveryCode };
+    } catch (err) {
+      console.error('Error rotating the journal key:', err);
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.STORAGE_WRITE_FAILED,
+          'Could not rotate your journal key. Please try again.',
+          undefined,
+          err
+        ))
+      };
+    }
+  }, [user, keyRow, reencryptProgress, finishReencryption]);
+
+  /**
+   * Prepare an entry's title and content for storage
+   *
+   * Returns them unchanged while the private journal is off.
+   *
+   * @param {Object} fields - Plaintext title and content
+   * @param {EntryPrivacy} privacy - What the user allowed for this entry
+   * @returns {Promise<SealedEntryColumns>} Columns to write
+   * @throws {AppError} JOURNAL_LOCKED when the journal is private but locked
+   */
+  const sealEntry = useCallback(async (
+    fields: { title: string | null; content: string },
+    privacy: EntryPrivacy
+  ): Promise<SealedEntryColumns> => {
+    if (status === 'off') return fields;
+    if (!keys) {
+      throw createAppError(ErrorCode.JOURNAL_LOCKED, 'Unlock your private journal to save entries.');
+    }
+
+    const searchOptIn = Boolean(privacy.searchOptIn);
+    return {
+      title: fields.title ? await encryptText(fields.title, keys.current) : null,
+      content: await encryptText(fields.content, keys.current),
+      is_encrypted: true,
+      key_version: keys.version,
+      search_opt_in: searchOptIn,
+      search_text: searchOptIn ? [fields.title, fields.content].filter(Boolean).join('\n') : null,
+      ai_opt_in: Boolean(privacy.aiOptIn),
+      word_count: countWords(fields.content)
+    };
+  }, [status, keys]);
+
+  /**
+   * Decrypt an entry's title and content
+   *
+   * Entries that can't be decrypted here, e.g. while the journal is locked,
+   * come back with an empty title and content and locked set.
+   *
+   * @param {EncryptableEntry} entry - Entry as stored
+   * @returns {Promise<EncryptableEntry>} The entry as shown
+   */
+  const openEntry = useCallback(async <T extends EncryptableEntry>(entry: T): Promise<T> => {
+    if (!entry.is_encrypted) return entry;
+
+    const key = keys && (entry.key_version === keys.version ? keys.current : keys.previous);
+    if (!key) return { ...entry, title: null, content: '', locked: true };
+
+    try {
+      return {
+        ...entry,
+        title: isEncryptedText(entry.title) ? await decryptText(entry.title, key) : entry.title,
+        content: await decryptText(entry.content, key),
+        locked: false
+      };
+    } catch (err) {
+      console.warn('Failed to decrypt journal entry:', err);
+      return { ...entry, title: null, content: '', locked: true };
+    }
+  }, [keys]);
+
+  return (
+    <JournalKeyContext.Provider value={{
+      status,
+      isPrivate: status === 'locked' || status === 'unlocked',
+      reencryptProgress,
+      error,
+      enablePrivateJournal,
+      unlock,
+      lock,
+      changePassphrase,
+      recoverWithCode,
+      rotateKey,
+      sealEntry,
+      openEntry
+    }}>
+      {children}
+    </JournalKeyContext.Provider>
+  );
+
+}
+
+/**
+ * Load the user's key row, or null when the journal isn't private
+ */
+async function fetchKeyRow(userId: string): Promise<JournalKeyRow | null> {
+  const client = supabase;
+  if (!client) return null;
+
+  const { data, error } = await client
+    .from('journal_keys')
+    .select('key_version, kdf_salt, kdf_iterations, wrapped_key, recovery_salt, recovery_wrapped_key, previous_wrapped_key, reencrypt_pending')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as JournalKeyRow | null;
+}
+
+async function updateKeyRow(userId: string, changes: Partial<JournalKeyRow>): Promise<void> {
+  const client = supabase;
+  if (!client) {
+    throw new Error('Database not connected. Please connect to Supabase first.');
+  }
+
+  const { error } = await client
+    .from('journal_keys')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Store the key wrapped with a new passphrase
+ *
+ * @returns {Promise<Partial<JournalKeyRow>>} The columns that changed
+ */
+async function saveNewPassphrase(userId: string, key: CryptoKey, newPassphrase: string): Promise<Partial<JournalKeyRow>> {
+  const changes = { kdf_iterations: PBKDF2_ITERATIONS, ...await wrapForPassphrase(key, newPassphrase) };
+  await updateKeyRow(userId, changes);
+  return changes;
+}
+
+async function wrapForPassphrase(key: CryptoKey, passphrase: string) {
+  const kdfSalt = generateSalt();
+  const wrappingKey = await deriveWrappingKey(passphrase, kdfSalt, PBKDF2_ITERATIONS);
+  return { kdf_salt: kdfSalt, wrapped_key: await wrapJournalKey(key, wrappingKey) };
+}
+
+async function wrapForRecovery(key: CryptoKey, recoveryCode: string) {
+  const recoverySalt = generateSalt();
+  const wrappingKey = await deriveWrappingKey(normalizeRecoveryCode(recoveryCode), recoverySalt, PBKDF2_ITERATIONS);
+  return { recovery_salt: recoverySalt, recovery_wrapped_key: await wrapJournalKey(key, wrappingKey) };
+}
+
+/**
+ * The current key plus, mid-rotation, the previous one it wraps
+ */
+async function unlockKeys(row: JournalKeyRow, current: CryptoKey): Promise<UnlockedKeys> {
+  return {
+    version: row.key_version,
+    current,
+    previous: row.previous_wrapped_key ? await unwrapJournalKey(row.previous_wrapped_key, current) : null
+  };
+}
+
+/**
+ * Encrypt plaintext entries and re-encrypt ones under the previous key, in
+ * batches ordered by id so an entry that fails isn't retried in a loop
+ *
+ * @returns {Promise<number>} How many entries could not be re-encrypted
+ */
+async function reencryptEntries(
+  userId: string,
+  keys: UnlockedKeys,
+  onProgress: (done: number, failed: number) => void
+): Promise<number> {
+  const client = supabase;
+  if (!client) {
+    throw new Error('Database not connected. Please connect to Supabase first.');
+  }
+
+  let lastId: string | null = null;
+  let done = 0;
+  let failed = 0;
+
+  for (;;) {
+    let query = client
+      .from('journal_entries')
+      .select('id, title, content, is_encrypted, key_version')
+      .eq('user_id', userId)
+      .or(`key_version.is.null,key_version.neq.${keys.version}`)
+      .order('id')
+      .limit(REENCRYPT_BATCH_SIZE);
+
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    if (!data || data.length === 0) return failed;
+
+    for (const row of data) {
+      lastId = row.id;
+      try {
+        let { title, content } = row as { title: string | null; content: string };
+        if (row.is_encrypted) {
+          if (row.key_version !== keys.version - 1 || !keys.previous) {
+            throw new Error(`Entry is encrypted with unknown key version ${row.key_version}`);
+          }
+          title = isEncryptedText(title) ? await decryptText(title, keys.previous) : title;
+          content = await decryptText(content, keys.previous);
+        }
+
+        // updated_at is left alone: re-encrypting isn't an edit
+        const { error: updateError } = await client
+          .from('journal_entries')
+          .update({
+            title: title ? await encryptText(title, keys.current) : null,
+            content: await encryptText(content, keys.current),
+            is_encrypted: true,
+            key_version: keys.version,
+            word_count: countWords(content)
+          })
+          .eq('id', row.id)
+          .eq('user_id', userId);
+
+        if (updateError) throw updateError;
+        done += 1;
+      } catch (err) {
+        console.warn(`Failed to re-encrypt entry ${row.id}:`, err);
+        failed += 1;
+      }
+      onProgress(done, failed);
+    }
+  }
+}
+
+function notSignedIn(): KeyActionResult {
+  return {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(
+      ErrorCode.NOT_AUTHENTICATED,
+      'You must be logged in to manage your private journal'
+    ))
+  };
+}
+
+function journalNotPrivate(): KeyActionResult {
+  return { success: false, error: 'Your journal is not private yet.' };
+}
+
+function saveFailed(err: unknown): KeyActionResult {
+  console.error('Error saving the new passphrase:', err);
+  return {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(
+      ErrorCode.STORAGE_WRITE_FAILED,
+      'Could not save your new passphrase. Please try again.',
+      undefined,
+      err
+    ))
+  };
+}
+
+function passphraseTooShort(): KeyActionResult {
+  return {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(
+      ErrorCode.VALIDATION_ERROR,
+      `Your passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`
+    ))
+  };
+}
+
+function wrongSecret(message: string, err: unknown): KeyActionResult {
+  console.warn('Failed to unlock the journal key:', err);
+  return {
+    success: false,
+    error: getUserFriendlyErrorMessage(createAppError(ErrorCode.JOURNAL_KEY_INVALID, message, undefined, err))
+  };
+}
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useReducer, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
 
 // --- Enums for type safety ---
 export enum ZenoStatus {
@@ -51,31 +53,67 @@ const initialState: ZenoState = {
   error: null,
 };
 
+// --- Server payloads ---
+interface ZenoStatusPayload {
+  cooldown_ends_at: string | null;
+  emergency_sessions_remaining: number;
+  active_session: { id: string; goal: string | null; is_emergency: boolean } | null;
+  pending_micro_task: { session_id: string; task_type: ZenoMicroTaskType; summary: string | null } | null;
+}
+
+interface ZenoStartPayload {
+  session_id: string;
+  status: ZenoStatusPayload;
+}
+
+interface ZenoEndPayload {
+  ai_summary: string;
+  micro_task_type: ZenoMicroTaskType;
+  status: ZenoStatusPayload;
+}
+
 // --- Actions ---
 type Action =
   | { type: 'SET_STATUS'; status: ZenoStatus }
   | { type: 'SET_ERROR'; error: string | null }
-  | { type: 'INITIALIZE'; cooldownEndsAt: number | null; emergencySessionsRemaining: number }
+  | { type: 'INITIALIZE'; status: ZenoStatusPayload }
   | { type: 'START_SESSION'; sessionId: string; sessionGoal: string }
-  | { type: 'END_SESSION'; aiSummary: string; microTaskType: ZenoMicroTaskType; cooldownEndsAt: number }
+  | { type: 'END_SESSION'; aiSummary: string; microTaskType: ZenoMicroTaskType; cooldownEndsAt: number | null }
   | { type: 'COMPLETE_MICROTASK'; microTaskState: ZenoMicroTaskState }
   | { type: 'RESET' }
   | { type: 'USE_EMERGENCY'; sessionId: string; emergencySessionsRemaining: number };
 
+function toTimestamp(value: string | null): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
 function reducer(state: ZenoState, action: Action): ZenoState {
   switch (action.type) {
     case 'SET_STATUS':
       return { ...state, status: action.status };
     case 'SET_ERROR':
       return { ...state, error: action.error, status: action.error ? ZenoStatus.Error : state.status };
-    case 'INITIALIZE':
+    case 'INITIALIZE': {
+      // Resume whatever the server says is in progress so a reload can't skip a step
+      const { active_session, pending_micro_task } = action.status;
+      const cooldownEndsAt = toTimestamp(action.status.cooldown_ends_at);
+      let status = cooldownEndsAt && cooldownEndsAt > Date.now() ? ZenoStatus.Cooldown : ZenoStatus.Available;
+      if (active_session) status = ZenoStatus.InSession;
+      else if (pending_micro_task) status = ZenoStatus.PostSession;
+
       return {
         ...state,
-        status: action.cooldownEndsAt && action.cooldownEndsAt > Date.now() ? ZenoStatus.Cooldown : ZenoStatus.Available,
-        cooldownEndsAt: action.cooldownEndsAt,
-        emergencySessionsRemaining: action.emergencySessionsRemaining,
+        status,
+        cooldownEndsAt,
+        emergencySessionsRemaining: action.status.emergency_sessions_remaining,
+        sessionId: active_session?.id ?? pending_micro_task?.session_id ?? null,
+        sessionGoal: active_session?.goal ?? null,
+        microTask: pending_micro_task
+          ? { type: pending_micro_task.task_type, summary: pending_micro_task.summary, state: ZenoMicroTaskState.Pending }
+          : initialState.microTask,
         error: null,
       };
+    }
     case 'START_SESSION':
       return {
         ...state,
@@ -125,6 +163,44 @@ function reducer(state: ZenoState, action: Action): ZenoState {
   }
 }
 
+// --- API ---
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * Call one of the zeno-* edge functions as the signed-in user
+ * Cooldown and emergency limits are enforced there, so errors carry the server's reason.
+ */
+async function callZenoFunction<T>(name: string, body: object = {}): Promise<T> {
+  if (!supabase) {
+    throw new Error('Supabase client not initialized. Please connect to Supabase first.');
+  }
+
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    // Non-2xx responses keep the server's message in the response body
+    let message = error.message;
+    const context = (error as { context?: Response }).context;
+    if (context && typeof context.json === 'function') {
+      try {
+        const payload = await context.json();
+        if (payload?.error) message = payload.error;
+      } catch {
+        // Keep the generic message
+      }
+    }
+    throw new Error(message);
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || `${name} failed`);
+  }
+
+  return data as T;
+}
+
 // --- Context ---
 const ZenoContext = createContext<{
   state: ZenoState;
@@ -140,53 +216,57 @@ const ZenoContext = createContext<{
 // --- Provider ---
 export const ZenoProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(reducer, initialState);
-
-  // --- Mocked API calls for MVP scaffolding ---
-  const mockApi = {
-    getStatus: async () => ({ cooldownEndsAt: null, emergencySessionsRemaining: 1 }),
-    startSession: async (goal: string) => ({ sessionId: 'mock-session-id' }),
-    endSession: async (durationSeconds: number) => ({ aiSummary: 'Mock summary', microTaskType: ZenoMicroTaskType.Gratitude, newCooldownEndsAt: Date.now() + 2 * 60 * 60 * 1000 }),
-    completeMicroTask: async (response: object) => ({ success: true }),
-    useEmergency: async () => ({ sessionId: 'mock-emergency-session-id', emergencySessionsRemaining: 0 }),
-  };
+  const { isAuthenticated } = useAuth();
 
   // --- Actions ---
   const initializeZeno = useCallback(async () => {
     dispatch({ type: 'SET_STATUS', status: ZenoStatus.Loading });
     try {
-      const res = await mockApi.getStatus();
-      dispatch({ type: 'INITIALIZE', cooldownEndsAt: res.cooldownEndsAt, emergencySessionsRemaining: res.emergencySessionsRemaining });
-    } catch (e: any) {
-      dispatch({ type: 'SET_ERROR', error: e.message || 'Failed to load Zeno status.' });
+      const res = await callZenoFunction<{ status: ZenoStatusPayload }>('zeno-get-status');
+      dispatch({ type: 'INITIALIZE', status: res.status });
+    } catch (e) {
+      dispatch({ type: 'SET_ERROR', error: getErrorMessage(e, 'Failed to load Zeno status.') });
     }
   }, []);
 
   const startSession = useCallback(async (goal: string) => {
     try {
-      const res = await mockApi.startSession(goal);
-      dispatch({ type: 'START_SESSION', sessionId: res.sessionId, sessionGoal: goal });
-    } catch (e: any) {
-      dispatch({ type: 'SET_ERROR', error: e.message || 'Failed to start session.' });
+      const res = await callZenoFunction<ZenoStartPayload>('zeno-start-session', { goal });
+      dispatch({ type: 'START_SESSION', sessionId: res.session_id, sessionGoal: goal });
+    } catch (e) {
+      dispatch({ type: 'SET_ERROR', error: getErrorMessage(e, 'Failed to start session.') });
     }
   }, []);
 
   const endSession = useCallback(async (durationSeconds: number) => {
     try {
-      const res = await mockApi.endSession(durationSeconds);
-      dispatch({ type: 'END_SESSION', aiSummary: res.aiSummary, microTaskType: res.microTaskType, cooldownEndsAt: res.newCooldownEndsAt });
-    } catch (e: any) {
-      dispatch({ type: 'SET_ERROR', error: e.message || 'Failed to end session.' });
+      const res = await callZenoFunction<ZenoEndPayload>('zeno-end-session', {
+        session_id: state.sessionId,
+        duration_seconds: durationSeconds,
+      });
+      dispatch({
+        type: 'END_SESSION',
+        aiSummary: res.ai_summary,
+        microTaskType: res.micro_task_type,
+        cooldownEndsAt: toTimestamp(res.status.cooldown_ends_at),
+      });
+    } catch (e) {
+      dispatch({ type: 'SET_ERROR', error: getErrorMessage(e, 'Failed to end session.') });
     }
-  }, []);
+  }, [state.sessionId]);
 
   const completeMicroTask = useCallback(async (response: object) => {
     try {
-      await mockApi.completeMicroTask(response);
+      await callZenoFunction('zeno-complete-micro-task', {
+        session_id: state.sessionId,
+        state: ZenoMicroTaskState.Completed,
+        response,
+      });
       dispatch({ type: 'COMPLETE_MICROTASK', microTaskState: ZenoMicroTaskState.Completed });
-    } catch (e: any) {
-      dispatch({ type: 'SET_ERROR', error: e.message || 'Failed to complete micro-task.' });
+    } catch (e) {
+      dispatch({ type: 'SET_ERROR', error: getErrorMessage(e, 'Failed to complete micro-task.') });
     }
-  }, []);
+  }, [state.sessionId]);
 
   const finishAndReturnToDashboard = useCallback(() => {
     dispatch({ type: 'RESET' });
@@ -194,10 +274,14 @@ export const ZenoProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const useEmergencySession = useCallback(async () => {
     try {
-      const res = await mockApi.useEmergency();
-      dispatch({ type: 'USE_EMERGENCY', sessionId: res.sessionId, emergencySessionsRemaining: res.emergencySessionsRemaining });
-    } catch (e: any) {
-      dispatch({ type: 'SET_ERROR', error: e.message || 'Failed to start emergency session.' });
+      const res = await callZenoFunction<ZenoStartPayload>('zeno-use-emergency');
+      dispatch({
+        type: 'USE_EMERGENCY',
+        sessionId: res.session_id,
+        emergencySessionsRemaining: res.status.emergency_sessions_remaining,
+      });
+    } catch (e) {
+      dispatch({ type: 'SET_ERROR', error: getErrorMessage(e, 'Failed to start emergency session.') });
     }
   }, []);
 
@@ -205,10 +289,12 @@ export const ZenoProvider: React.FC<{ children: React.ReactNode }> = ({ children
     dispatch({ type: 'SET_ERROR', error: null });
   }, []);
 
-  // --- Auto-initialize on mount ---
+  // --- Auto-initialize once signed in ---
   useEffect(() => {
-    initializeZeno();
-  }, [initializeZeno]);
+    if (isAuthenticated) {
+      initializeZeno();
+    }
+  }, [isAuthenticated, initializeZeno]);
 
   return (
     <ZenoContext.Provider
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+import type { AppLockContextType } from '../contexts/AppLockContext';
+
+export const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+/**
+ * Access the app lock, from within an AppLockProvider
+ */
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { withRetry } from '../utils/networkUtils';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { Entitlements, FeatureKey, hasFeature } from '../utils/entitlements';
+
+/**
+ * Custom hook for loading the signed-in user's plan and feature flags
+ *
+ * Entitlements come from the get_entitlements RPC, which works them out from
+ * the subscription the server has on record. Edge functions check the same
+ * flags, so hiding a feature here is a courtesy, not the enforcement.
+ *
+ * @returns {Object} Entitlements (null until loaded), loading and error state, a feature check and a reload function
+ *
+ * @example
+ * const { entitlements, hasFeature } = useEntitlements();
+ * if (hasFeature('voice-synthesis')) playAffirmation();
+ */
+export function useEntitlements() {
+  const { user, isAuthenticated } = useAuth();
+  const [entitlements, setEntitlements] = useState<Entitlements | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntitlements = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setEntitlements(null);
+      setIsLoading(false);
+      return;
+    }
+
+    if (!supabase) {
+      setError('Supabase client not initialized. Please connect to Supabase first.');
+      setIsLoading(false);
+      return;
+    }
+
+    const client = supabase;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await withRetry(async () => {
+        const { data, error: rpcError } = await client.rpc('get_entitlements');
+
+        if (rpcError) throw rpcError;
+        return data as Entitlements;
+      }, 'Load entitlements');
+
+      setEntitlements(data);
+    } catch (err) {
+      console.error('Error loading entitlements:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.NETWORK_REQUEST_FAILED,
+        'Failed to load your subscription. Please try again.',
+        undefined,
+        err
+      )));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated, user]);
+
+  useEffect(() => {
+    loadEntitlements();
+  }, [loadEntitlements]);
+
+  const checkFeature = useCallback(
+    (feature: FeatureKey) => hasFeature(entitlements, feature),
+    [entitlements]
+  );
+
+  return {
+    entitlements,
+    isLoading,
+    error,
+    hasFeature: checkFeature,
+    reload: loadEntitlements
+  };
+}
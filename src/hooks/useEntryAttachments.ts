@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { withRetry } from '../utils/networkUtils';
+import { getSignedUrls } from '../utils/signedUrlCache';
+import { prepareImageForUpload, validateImageFile } from '../utils/imageProcessing';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { EntryAttachment } from '../types';
+
+/** Most photos one entry can hold; the database enforces the same limit */
+export const MAX_ATTACHMENTS_PER_ENTRY = 10;
+
+/** Columns loaded for each photo in a gallery */
+export const ATTACHMENT_COLUMNS = 'id, entry_id, storage_path, file_name, caption, position, width, height';
+
+/**
+ * Custom hook for managing the photo gallery of a journal entry
+ *
+ * Changes are saved as they are made. The first photo is the entry's cover;
+ * the database keeps journal_entries.photo_url pointing at it.
+ *
+ * @param {string} entryId - Entry the photos belong to
+ * @param {EntryAttachment[]} [initialAttachments] - Photos loaded with the entry
+ * @returns {Object} Photos, upload and error state, and functions to change them
+ *
+ * @example
+ * const { attachments, addPhotos, reorder } = useEntryAttachments(entry.id, entry.attachments);
+ */
+export function useEntryAttachments(entryId: string, initialAttachments?: EntryAttachment[]) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [attachments, setAttachments] = useState<EntryAttachment[]>(initialAttachments ?? []);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the entry when it is reloaded
+  useEffect(() => {
+    setAttachments(initialAttachments ?? []);
+  }, [initialAttachments]);
+
+  /**
+   * Upload photos and add them to the end of the gallery
+   *
+   * @param {File[]} files - Photos picked by the user
+   * @returns {Promise<boolean>} Whether every photo was added
+   */
+  const addPhotos = useCallback(async (files: File[]): Promise<boolean> => {
+    const client = supabase;
+    if (!userId || !client || files.length === 0) return false;
+
+    setError(null);
+
+    const free = MAX_ATTACHMENTS_PER_ENTRY - attachments.length;
+    if (files.length > free) {
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_LIMIT_REACHED,
+        `An entry can hold up to ${MAX_ATTACHMENTS_PER_ENTRY} photos`,
+        { selected: files.length, free }
+      )));
+      return false;
+    }
+
+    for (const file of files) {
+      const validationError = validateImageFile(file);
+      if (validationError) {
+        setError(getUserFriendlyErrorMessage(validationError));
+        return false;
+      }
+    }
+
+    setIsUploading(true);
+    const added: EntryAttachment[] = [];
+    let nextPosition = attachments.reduce((max, attachment) => Math.max(max, attachment.position + 1), 0);
+
+    try {
+      for (const file of files) {
+        // Resize and strip metadata before the photo leaves the device
+        const { file: prepared, width, height } = await prepareImageForUpload(file);
+        const fileExt = prepared.name.split('.').pop()?.toLowerCase();
+        const path = `${userId}/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+        await withRetry(async () => {
+          const { error: uploadError } = await client.storage
+            .from('journal-photos')
+            .upload(path, prepared, { cacheControl: '3600', upsert: false });
+
+          if (uploadError) throw uploadError;
+        }, 'Upload entry photo');
+
+        const { data, error: insertError } = await client
+          .from('entry_attachments')
+          .insert({
+            entry_id: entryId,
+            user_id: userId,
+            storage_path: path,
+            file_name: file.name,
+            mime_type: prepared.type,
+            size_bytes: prepared.size,
+            width,
+            height,
+            position: nextPosition
+          })
+          .select(ATTACHMENT_COLUMNS)
+          .single();
+
+        if (insertError) {
+          // Don't leave an orphaned file behind
+          await client.storage.from('journal-photos').remove([path]);
+          throw insertError;
+        }
+
+        added.push(data as EntryAttachment);
+        nextPosition += 1;
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error adding entry photos:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_UPLOAD_FAILED,
+        'Failed to add your photos. Please try again.',
+        { entryId },
+        err
+      )));
+      return false;
+    } finally {
+      // Show whatever made it, even if a later photo failed
+      if (added.length > 0) {
+        const urls = await getSignedUrls('journal-photos', added.map(attachment => attachment.storage_path));
+        setAttachments(prev => [
+          ...prev,
+          ...added.map(attachment => ({ ...attachment, signedUrl: urls.get(attachment.storage_path) ?? null }))
+        ]);
+      }
+      setIsUploading(false);
+    }
+  }, [userId, entryId, attachments]);
+
+  /**
+   * Save the caption of a photo
+   *
+   * @param {string} attachmentId - Photo to caption
+   * @param {string} caption - New caption; blank removes it
+   */
+  const updateCaption = useCallback(async (attachmentId: string, caption: string) => {
+    const client = supabase;
+    if (!client) return;
+
+    const previous = attachments;
+    const value = caption.trim() || null;
+    if (previous.find(attachment => attachment.id === attachmentId)?.caption === value) return;
+
+    setError(null);
+    setAttachments(prev => prev.map(attachment =>
+      attachment.id === attachmentId ? { ...attachment, caption: value } : attachment
+    ));
+
+    const { error: updateError } = await client
+      .from('entry_attachments')
+      .update({ caption: value })
+      .eq('id', attachmentId);
+
+    if (updateError) {
+      console.error('Error saving photo caption:', updateError);
+      setAttachments(previous);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_UPDATE_FAILED,
+        'Failed to save the caption. Please try again.',
+        { attachmentId },
+        updateError
+      )));
+    }
+  }, [attachments]);
+
+  /**
+   * Save a new order for the gallery
+   *
+   * @param {string[]} attachmentIds - Every photo of the entry, in the new order
+   */
+  const reorder = useCallback(async (attachmentIds: string[]) => {
+    const client = supabase;
+    if (!client) return;
+
+    const previous = attachments;
+    const byId = new Map(previous.map(attachment => [attachment.id, attachment]));
+    const reordered = attachmentIds
+      .map((id, position) => {
+        const attachment = byId.get(id);
+        return attachment ? { ...attachment, position } : null;
+      })
+      .filter((attachment): attachment is EntryAttachment => attachment !== null);
+
+    if (reordered.every((attachment, index) => attachment.id === previous[index]?.id)) return;
+
+    setError(null);
+    setAttachments(reordered);
+
+    const { error: rpcError } = await client.rpc('reorder_entry_attachments', {
+      p_entry_id: entryId,
+      p_attachment_ids: attachmentIds
+    });
+
+    if (rpcError) {
+      console.error('Error reordering entry photos:', rpcError);
+      setAttachments(previous);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_UPDATE_FAILED,
+        'Failed to save the new order. Please try again.',
+        { entryId },
+        rpcError
+      )));
+    }
+  }, [entryId, attachments]);
+
+  /**
+   * Remove a photo from the gallery and delete its file
+   *
+   * @param {string} attachmentId - Photo to remove
+   */
+  const removeAttachment = useCallback(async (attachmentId: string) => {
+    const client = supabase;
+    const attachment = attachments.find(item => item.id === attachmentId);
+    if (!client || !attachment) return;
+
+    setError(null);
+
+    const { error: deleteError } = await client
+      .from('entry_attachments')
+      .delete()
+      .eq('id', attachmentId);
+
+    if (deleteError) {
+      console.error('Error removing entry photo:', deleteError);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_UPDATE_FAILED,
+        'Failed to remove the photo. Please try again.',
+        { attachmentId },
+        deleteError
+      )));
+      return;
+    }
+
+    setAttachments(prev => prev.filter(item => item.id !== attachmentId));
+
+    // The database also queues the file for cleanup, so a failure here is harmless
+    const { error: storageError } = await client.storage
+      .from('journal-photos')
+      .remove([attachment.storage_path]);
+
+    if (storageError) {
+      console.warn('Photo file will be removed by the storage cleanup job:', storageError);
+    }
+  }, [attachments]);
+
+  return {
+    attachments,
+    isUploading,
+    error,
+    canAddMore: attachments.length < MAX_ATTACHMENTS_PER_ENTRY,
+    addPhotos,
+    updateCaption,
+    reorder,
+    removeAttachment
+  };
+}
@@ -4,9 +4,11 @@ import { withRetry } from '../utils/networkUtils';
 import * as Sentry from '@sentry/react';
 import { useAuth } from '../contexts/AuthContext';
 import { useJournalEntries } from './useJournalEntries';
+import { EntryPrivacy } from '../contexts/JournalKeyContext';
 import { usePremium } from './usePremium';
-import { MoodLevel } from '../types';
+import { MoodLevel, VoiceNote } from '../types';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { detectTimezone, getDateInTimezone } from '../utils/timezone';
 
 /**
  * Interface for journal entry data
@@ -20,6 +22,7 @@ interface JournalEntry {
   photo_url: string | null;
   photo_filename: string | null;
   title: string | null;
+  tags: string[];
   created_at: string;
   updated_at: string;
 }
@@ -33,8 +36,13 @@ interface Profile {
   name: string;
   current_streak: number;
   best_streak: number;
+  /** Unit of current_streak and best_streak; weekly when the goal is below 7 days */
+  streak_period: 'day' | 'week';
+  /** Local day of the latest entry, in the profile's timezone */
   last_entry_date: string | null;
   journaling_goal_frequency: number;
+  /** IANA timezone streaks are counted in; null until detected */
+  timezone: string | null;
   total_badges_earned: number;
   subscription_status: string;
   subscription_tier: string;
@@ -59,6 +67,8 @@ interface Badge {
   progress_current: number;
   progress_target: number;
   progress_percentage: number;
+  /** What progress is counted in, e.g. entries or days */
+  progress_unit?: string;
 }
 
 /**
@@ -82,7 +92,13 @@ export function useJournal() {
     entries, 
     isLoading: entriesLoading, 
     error: entriesError,
+    hasMore,
+    isLoadingMore,
+    totalEntries,
+    moodCounts,
     loadEntries,
+    loadMoreEntries,
+    requestSignedUrls,
     addEntry,
     updateEntry,
     deleteEntry
@@ -90,6 +106,7 @@ export function useJournal() {
   
   const [profile, setProfile] = useState<Profile | null>(null);
   const [badges, setBadges] = useState<Badge[]>([]);
+  const [streakFreezes, setStreakFreezes] = useState(0);
   const [isLoadingProfile, setIsLoadingProfile] = useState(true);
   const [profileError, setProfileError] = useState<string | null>(null);
 
@@ -161,9 +178,40 @@ export function useJournal() {
         throw profileError;
       }
 
-      setProfile(profileData);
+      // Profiles created before timezones were stored are filled in from the browser.
+      // Setting it recalculates streaks, so use the updated row.
+      let loadedProfile = profileData;
+      if (!profileData.timezone) {
+        const { data: updatedProfile, error: timezoneError } = await supabase
+          .from('profiles')
+          .update({ timezone: detectTimezone() })
+          .eq('user_id', user.id)
+          .select()
+          .single();
+
+        if (timezoneError) {
+          console.warn('Failed to store detected timezone:', timezoneError);
+        } else {
+          loadedProfile = updatedProfile;
+        }
+      }
+
+      setProfile(loadedProfile);
       console.log('loadUserData: Fetched profile:', profileData);
 
+      // Unused freezes cover a single missed day or week
+      const { count: freezeCount, error: freezeError } = await supabase
+        .from('streak_freezes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('used_on', null);
+
+      if (freezeError) {
+        console.warn('Failed to load streak freezes:', freezeError);
+      } else {
+        setStreakFreezes(freezeCount ?? 0);
+      }
+
       // Load entries
       await loadEntries(isTrialActive);
 
@@ -281,12 +329,12 @@ export function useJournal() {
   };
 
   /**
-   * Get the total number of journal entries
+   * Get the total number of journal entries, including pages not loaded yet
    * 
    * @returns {number} Total entries count
    */
   const getTotalEntries = (): number => {
-    return entries.length;
+    return Math.max(totalEntries, entries.length);
   };
 
   /**
@@ -296,7 +344,8 @@ export function useJournal() {
    */
   const getLastEntryDate = (): Date | null => {
     if (!profile?.last_entry_date) return null;
-    return new Date(profile.last_entry_date);
+    // A bare date would be parsed as UTC midnight, which is the previous day west of UTC
+    return new Date(`${profile.last_entry_date}T00:00:00`);
   };
 
   /**
@@ -305,8 +354,9 @@ export function useJournal() {
    * @returns {boolean} True if an entry exists for today
    */
   const hasEntryToday = (): boolean => {
-    const today = new Date().toISOString().split('T')[0];
-    return profile?.last_entry_date === today;
+    if (!profile?.last_entry_date) return false;
+    const today = getDateInTimezone(profile.timezone || detectTimezone());
+    return profile.last_entry_date === today;
   };
 
   /**
@@ -316,7 +366,10 @@ export function useJournal() {
    * @param {string|null} title - Optional entry title
    * @param {MoodLevel} mood - Selected mood level
    * @param {File} [photoFile] - Optional photo attachment
-   * @returns {Promise<{success: boolean, error?: string}>} Result object
+   * @param {string[]} [tags] - Optional tags for the entry
+   * @param {EntryPrivacy} [privacy] - Search and AI opt-ins, for private journal entries
+   * @param {VoiceNote|null} [voiceNote] - Uploaded voice note to keep with the entry
+   * @returns {Promise<{success: boolean, error?: string, queued?: boolean}>} Result object; queued is set when the entry was saved offline
    */
   const handleAddEntry = useCallback(async (
     content: string,
@@ -324,15 +377,22 @@ export function useJournal() {
     mood: MoodLevel, 
     photoFile?: File | null,
     affirmationText?: string | null, 
-    affirmationAudioUrl?: string | null
-  ): Promise<{ success: boolean; error?: string }> => {
+    affirmationAudioUrl?: string | null,
+    affirmationSource?: string | null,
+    tags?: string[],
+    privacy?: EntryPrivacy,
+    voiceNote?: VoiceNote | null
+  ): Promise<{ success: boolean; error?: string; queued?: boolean }> => {
     // Check if Supabase is connected
     if (!supabase) {
       return { success: false, error: 'Database not connected. Please connect to Supabase first.' };
     }
     
     // Call the addEntry function from useJournalEntries
-    const result = await addEntry(content, title, mood, photoFile, affirmationText, affirmationAudioUrl);
+    const result = await addEntry(content, title, mood, photoFile, affirmationText, affirmationAudioUrl, affirmationSource, tags, privacy, voiceNote);
+
+    // Nothing changed on the server yet; badges and profile refresh once the entry syncs
+    if (result.queued) return result;
     
     try {
       console.log('Entry saved successfully, refreshing data');
@@ -392,15 +452,17 @@ export function useJournal() {
    * Delete a journal entry and update profile data
    * 
    * @param {string} entryId - ID of the entry to delete
-   * @returns {Promise<{success: boolean, error?: string}>} Result object
+   * @returns {Promise<{success: boolean, error?: string, queued?: boolean}>} Result object
    */
-  const handleDeleteEntry = useCallback(async (entryId: string): Promise<{ success: boolean; error?: string }> => {
+  const handleDeleteEntry = useCallback(async (entryId: string): Promise<{ success: boolean; error?: string; queued?: boolean }> => {
     // Check if Supabase is connected
     if (!supabase) {
       return { success: false, error: 'Database not connected. Please connect to Supabase first.' };
     }
     
     const result = await deleteEntry(entryId);
+
+    if (result.queued) return result;
     
     try {
       // Manually refresh badge progress if triggers aren't working properly
@@ -503,7 +565,7 @@ export function useJournal() {
   /**
    * Get the user's current journaling streak
    * 
-   * @returns {number} Current streak in days
+   * @returns {number} Current streak in days or weeks, see getStreakPeriod
    */
   const getStreak = (): number => {
     return profile?.current_streak || 0;
@@ -512,14 +574,28 @@ export function useJournal() {
   /**
    * Get the user's best journaling streak
    * 
-   * @returns {number} Best streak in days
+   * @returns {number} Best streak in days or weeks, see getStreakPeriod
    */
   const getBestStreak = (): number => {
     return profile?.best_streak || 0;
   };
 
+  /**
+   * Get the unit streaks are counted in
+   * 
+   * @returns {'day'|'week'} Weekly when the journaling goal is below 7 days
+   */
+  const getStreakPeriod = (): 'day' | 'week' => {
+    return profile?.streak_period || 'day';
+  };
+
   return {
     entries,
+    hasMore,
+    isLoadingMore,
+    moodCounts,
+    loadMoreEntries,
+    requestSignedUrls,
     profile,
     badges,
     isLoading,
@@ -531,6 +607,8 @@ export function useJournal() {
     updateJournalingGoal,
     getStreak,
     getBestStreak,
+    getStreakPeriod,
+    streakFreezes,
     getTotalEntries,
     getLastEntryDate,
     hasEntryToday,
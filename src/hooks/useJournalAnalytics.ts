@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { withRetry } from '../utils/networkUtils';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { AnalyticsRange, JournalAnalytics } from '../utils/analyticsUtils';
+
+/**
+ * Custom hook for loading journal analytics from the get_journal_analytics RPC
+ *
+ * Aggregation happens in the database, so the results cover the user's whole
+ * journal rather than just the entries loaded on the history page.
+ *
+ * @param {AnalyticsRange} rangeDays - Number of days to analyse
+ * @param {boolean} enabled - Whether to load at all (analytics are a premium feature)
+ * @returns {Object} Analytics data, loading and error state, and a reload function
+ *
+ * @example
+ * const { analytics, isLoading, error } = useJournalAnalytics(30, isPremium || isTrialActive);
+ */
+export function useJournalAnalytics(rangeDays: AnalyticsRange, enabled: boolean) {
+  const { user } = useAuth();
+  const [analytics, setAnalytics] = useState<JournalAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    if (!user || !enabled) return;
+
+    if (!supabase) {
+      setError('Supabase client not initialized. Please connect to Supabase first.');
+      return;
+    }
+
+    const client = supabase;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await withRetry(async () => {
+        const { data, error: rpcError } = await client.rpc('get_journal_analytics', {
+          p_days: rangeDays,
+          p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        });
+
+        if (rpcError) throw rpcError;
+        return data as JournalAnalytics;
+      }, 'Load journal analytics');
+
+      setAnalytics(data);
+    } catch (err) {
+      console.error('Error loading analytics:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.JOURNAL_LOAD_FAILED,
+        'Failed to load your analytics. Please try again.',
+        undefined,
+        err
+      )));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, enabled, rangeDays]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    reload: loadAnalytics
+  };
+}
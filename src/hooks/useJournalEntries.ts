@@ -1,11 +1,46 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import * as Sentry from '@sentry/react';
-import { withRetry } from '../utils/networkUtils';
+import { withRetry, isOfflineError } from '../utils/networkUtils';
 import { usePremium } from './usePremium';
-import { MoodLevel } from '../types';
+import { ATTACHMENT_COLUMNS } from './useEntryAttachments';
+import { EntryAttachment, MoodLevel, VoiceNote } from '../types';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { normalizeTags, extractTagNames } from '../utils/tagUtils';
+import { getCachedSignedUrl, getSignedUrls, getStoragePath } from '../utils/signedUrlCache';
+import { prepareImageForUpload } from '../utils/imageProcessing';
+import {
+  QueuedEntryFields,
+  QueuedOperation,
+  enqueueOperation,
+  getQueuedOperations,
+  isOfflineStoreAvailable,
+  removeQueuedOperations,
+  subscribeToQueue,
+  updateQueuedOperation
+} from '../lib/offlineStore';
+import { SyncDecision, applyQueuedOperations, resolveQueuedOperation } from '../utils/offlineSync';
+import { EntryPrivacy, SealedEntryColumns } from '../contexts/JournalKeyContext';
+import { useJournalKey } from './useJournalKey';
+
+/** Entries fetched per page of history */
+const PAGE_SIZE = 20;
+
+/** Upper bound on how many entries a full reload fetches at once */
+const MAX_RELOAD_SIZE = 200;
+
+/** Free users see the last 30 days, up to 30 entries */
+const FREE_HISTORY_DAYS = 30;
+const FREE_ENTRY_LIMIT = 30;
+
+/** How long to collect visible entries before signing their media */
+const SIGN_BATCH_DELAY_MS = 50;
+
+const MOOD_NAMES = ['struggling', 'low', 'neutral', 'good', 'amazing'];
+
+/** Sync running in this tab, shared by every hook instance */
+let activeSync: Promise<void> | null = null;
 
 /**
  * Interface for journal entry data
@@ -18,14 +53,58 @@ interface JournalEntry {
   mood: string;
   photo_url: string | null;
   photo_filename: string | null;
-  signedPhotoUrl?: string;
+  /** Signed photo URL; null if signing failed, undefined until requested */
+  signedPhotoUrl?: string | null;
+  /** Photos in gallery order; photo_url mirrors the first. Undefined until loaded from the server */
+  attachments?: EntryAttachment[];
   affirmation_text?: string | null;
   affirmation_audio_url?: string | null;
   affirmation_source?: string | null;
-  signedAudioUrl?: string;
+  /** Signed audio URL; null if signing failed, undefined until requested */
+  signedAudioUrl?: string | null;
+  /** Voice note the entry was spoken from, as a path within journal-audio */
+  voice_audio_url?: string | null;
+  voice_duration_seconds?: number | null;
+  /** Signed voice note URL; null if signing failed, undefined until requested */
+  signedVoiceUrl?: string | null;
   title: string | null;
+  tags: string[];
   created_at: string;
   updated_at: string;
+  /** Changed on this device and not synced yet */
+  pendingSync?: boolean;
+  /** Private journal entry, stored with its title and content encrypted */
+  is_encrypted?: boolean;
+  key_version?: number | null;
+  search_opt_in?: boolean;
+  ai_opt_in?: boolean;
+  /** Encrypted and not readable until the private journal is unlocked */
+  locked?: boolean;
+}
+
+/**
+ * Position after which the next page of entries starts
+ * @interface EntryCursor
+ */
+interface EntryCursor {
+  created_at: string;
+  id: string;
+}
+
+/**
+ * An edit of a private entry, encrypted, and the plaintext to show meanwhile
+ * @interface SealedUpdate
+ */
+interface SealedUpdate {
+  columns: SealedEntryColumns;
+  shown: Pick<JournalEntry, 'title' | 'content' | 'search_opt_in' | 'ai_opt_in'>;
+}
+
+interface EntryPage {
+  entries: JournalEntry[];
+  hasMore: boolean;
+  /** Total number of matching entries, only counted for the first page */
+  total: number;
 }
 
 /**
@@ -35,6 +114,8 @@ interface JournalEntry {
 interface AddEntryResult {
   success: boolean;
   error?: string;
+  /** True when the change was saved on this device and will sync later */
+  queued?: boolean;
 }
 
 /**
@@ -54,13 +135,28 @@ interface AddEntryResult {
 export function useJournalEntries() {
   const { user, isAuthenticated } = useAuth();
   const { isPremium, isTrialActive } = usePremium();
+  const { isPrivate, sealEntry, openEntry } = useJournalKey();
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [totalEntries, setTotalEntries] = useState(0);
+  const [moodCounts, setMoodCounts] = useState<Record<string, number>>({});
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+  // Bumped on every full reload so older page requests can be ignored
+  const loadGeneration = useRef(0);
+  const pendingSignIds = useRef(new Set<string>());
+  const signTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   /**
-   * Load journal entries from Supabase and generate signed URLs
-   * THIS IS THE DEFINITIVE FIX FOR AUDIO PLAYBACK
+   * Load the newest page of journal entries from Supabase
+   *
+   * Signed media URLs are not created here; cards request them through
+   * requestSignedUrls once they scroll into view.
    * 
    * @param {boolean} isTrialActive - Whether user has active trial
    * @returns {Promise<void>}
@@ -115,119 +211,36 @@ export function useJournalEntries() {
         throw connError;
       }
 
-      // For free users, limit to 30 days or 30 entries
-      let query = supabase
-        .from('journal_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-      
-      if (!isPremium && !isTrialActive) {
-        // Get entries from the last 30 days or the most recent 30 entries
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        
-        query = query
-          .gt('created_at', thirtyDaysAgo.toISOString())
-          .limit(30);
-      }
+      const generation = ++loadGeneration.current;
+      const hasFullHistory = isPremium || isTrialActive;
+      const since = hasFullHistory ? null : getFreeHistoryStart();
 
-      const { data: entriesData, error } = await query;
+      // Reload as many entries as were already on screen so a refresh doesn't
+      // throw away pages the user has scrolled through
+      const limit = hasFullHistory
+        ? Math.min(Math.max(PAGE_SIZE, entriesRef.current.length), MAX_RELOAD_SIZE)
+        : FREE_ENTRY_LIMIT;
 
-      if (error) {
-        console.error('Error loading entries:', error);
-        throw new Error(`Failed to load journal entries: ${error.message}`);
-      }
+      const [page, counts, queued] = await Promise.all([
+        fetchEntryPage(user.id, { limit, since, cursor: null }),
+        fetchMoodCounts(user.id, since),
+        getQueuedOperations(user.id).catch(() => [] as QueuedOperation[])
+      ]);
 
-      console.log('loadEntries: Fetched entries:', entriesData.length);
-
-      // Process entries to generate signed URLs for photos and audio
-      const entriesWithSignedUrls = await Promise.all(
-        entriesData.map(async (entry) => {
-          let processedEntry = { ...entry };
-
-          // Process photo URL if exists
-          if (entry.photo_url) {
-            try {
-              // Extract the relative path from the photo_url
-              let relativePath = entry.photo_url;
-              if (entry.photo_url.startsWith('http')) {
-                const pathMatch = entry.photo_url.match(/\/journal-photos\/(.+)$/);
-                if (pathMatch) {
-                  relativePath = pathMatch[1];
-                } else {
-                  console.warn(`Could not extract path from URL: ${entry.photo_url}`);
-                }
-              }
-
-              // Generate signed URL for private bucket access with retry
-              const signedUrlData = await withRetry(async () => {
-                const { data, error: urlError } = await supabase.storage
-                  .from('journal-photos')
-                  .createSignedUrl(relativePath, 3600); // Valid for 1 hour
-
-                if (urlError) {
-                  throw urlError;
-                }
-
-                return data;
-              }, `Generate signed URL for photo ${relativePath}`);
-
-              processedEntry.signedPhotoUrl = signedUrlData.signedUrl;
-            } catch (error) {
-              console.warn(`Failed to create signed URL for photo ${entry.photo_url} after retries:`, error);
-              processedEntry.signedPhotoUrl = null;
-            }
-          }
-          
-          // Process affirmation audio URL if exists - THIS IS THE CRITICAL FIX
-          if (entry.affirmation_audio_url) {
-            try {
-              // Extract the relative path from the affirmation_audio_url
-              let relativePath = entry.affirmation_audio_url;
-              if (entry.affirmation_audio_url.startsWith('http')) {
-                const pathMatch = entry.affirmation_audio_url.match(/\/affirmation-audio\/(.+)$/);
-                if (pathMatch) {
-                  relativePath = pathMatch[1];
-                } else {
-                  console.warn(`Could not extract path from URL: ${entry.affirmation_audio_url}`);
-                }
-              } else {
-                // If it's already a relative path, use it as-is
-                // Remove any leading slash if present
-                relativePath = entry.affirmation_audio_url.replace(/^\/+/, '');
-              }
-              
-              // Generate signed URL for affirmation audio - THIS CREATES THE PLAYABLE URL
-              const signedAudioData = await withRetry(async () => {
-                const { data, error: urlError } = await supabase.storage
-                  .from('affirmation-audio')
-                  .createSignedUrl(relativePath, 3600); // Valid for 1 hour
-                
-                if (urlError) {
-                  console.warn(`Failed to create signed URL for audio path "${entry.affirmation_audio_url}":`, urlError);
-                  throw urlError;
-                }
-                
-                return data;
-              }, `Generate signed URL for audio ${relativePath}`);
-              
-              // THIS IS THE KEY: Store the playable signed URL
-              processedEntry.signedAudioUrl = signedAudioData.signedUrl;
-              console.log(`Generated signed audio URL for entry ${entry.id}:`, signedAudioData.signedUrl);
-            } catch (error) {
-              console.warn(`Error processing audio for entry ${entry.id}:`, error);
-              // Set signedAudioUrl to null so the component knows there's no valid audio URL
-              processedEntry.signedAudioUrl = null;
-            }
-          }
-          
-          return processedEntry;
-        })
-      );
+      // Show changes made offline on top of what the server has. Private
+      // entries stay locked until the journal is unlocked on this device.
+      const visible = await Promise.all(applyQueuedOperations(
+        page.entries.map(entry => applySignedUrls(entry)),
+        queued,
+        toQueuedEntry
+      ).map(openEntry));
+
+      if (generation !== loadGeneration.current) return;
 
-      setEntries(entriesWithSignedUrls);
-      console.log('loadEntries: Processed and set entries:', entriesWithSignedUrls.length);
+      setEntries(visible);
+      setHasMore(Boolean(hasFullHistory && page.hasMore));
+      setMoodCounts(counts);
+      setTotalEntries(hasFullHistory ? page.total : Math.min(page.total, FREE_ENTRY_LIMIT));
     } catch (err) {
       // Capture the error with additional context
       Sentry.captureException(err, {
@@ -257,7 +270,234 @@ export function useJournalEntries() {
     } finally {
       setIsLoading(false);
     }
-  }, [user, isPremium, isTrialActive]);
+  }, [user, isPremium, isTrialActive, openEntry]);
+
+  /**
+   * Load the next page of older entries, continuing from the oldest one loaded
+   *
+   * @returns {Promise<void>}
+   */
+  const loadMoreEntries = useCallback(async () => {
+    if (!user || !supabase || !hasMore || isLoadingMore) return;
+
+    const oldest = entriesRef.current[entriesRef.current.length - 1];
+    if (!oldest) return;
+
+    const generation = loadGeneration.current;
+    try {
+      setIsLoadingMore(true);
+      const page = await fetchEntryPage(user.id, {
+        limit: PAGE_SIZE,
+        since: null,
+        cursor: { created_at: oldest.created_at, id: oldest.id }
+      });
+      const opened = await Promise.all(page.entries.map(openEntry));
+
+      // A full reload started meanwhile and will replace the list
+      if (generation !== loadGeneration.current) return;
+
+      setEntries(prev => {
+        const loadedIds = new Set(prev.map(entry => entry.id));
+        return [...prev, ...opened.filter(entry => !loadedIds.has(entry.id)).map(entry => applySignedUrls(entry))];
+      });
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error loading more entries:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.JOURNAL_LOAD_FAILED,
+        'Failed to load older entries. Please try again.',
+        undefined,
+        err
+      )));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [user, hasMore, isLoadingMore, openEntry]);
+
+  /**
+   * Sign the media of every entry queued since the last flush, in one request per bucket
+   */
+  const flushSignedUrls = useCallback(async () => {
+    signTimer.current = null;
+    const ids = pendingSignIds.current;
+    pendingSignIds.current = new Set();
+
+    const queued = entriesRef.current.filter(entry => ids.has(entry.id));
+    const photoPaths = queued.flatMap(entry => [
+      ...(entry.photo_url ? [getStoragePath(entry.photo_url, 'journal-photos')] : []),
+      ...(entry.attachments || []).map(attachment => attachment.storage_path)
+    ]);
+    const audioPaths = queued
+      .filter(entry => entry.affirmation_audio_url)
+      .map(entry => getStoragePath(entry.affirmation_audio_url!, 'affirmation-audio'));
+    const voicePaths = queued
+      .filter(entry => entry.voice_audio_url)
+      .map(entry => entry.voice_audio_url!);
+
+    const [photoUrls, audioUrls, voiceUrls] = await Promise.all([
+      getSignedUrls('journal-photos', photoPaths),
+      getSignedUrls('affirmation-audio', audioPaths),
+      getSignedUrls('journal-audio', voicePaths)
+    ]);
+
+    setEntries(prev => prev.map(entry =>
+      ids.has(entry.id) ? applySignedUrls(entry, photoUrls, audioUrls, voiceUrls) : entry
+    ));
+  }, []);
+
+  /**
+   * Queue entries whose photos and audio should be signed, e.g. once they are visible
+   *
+   * Requests made within a short window are batched together, and URLs that
+   * are already cached are reused until they expire.
+   *
+   * @param {string[]} entryIds - IDs of the entries that need media URLs
+   */
+  const requestSignedUrls = useCallback((entryIds: string[]) => {
+    entryIds.forEach(id => pendingSignIds.current.add(id));
+    if (!signTimer.current) {
+      signTimer.current = setTimeout(flushSignedUrls, SIGN_BATCH_DELAY_MS);
+    }
+  }, [flushSignedUrls]);
+
+  useEffect(() => () => {
+    if (signTimer.current) clearTimeout(signTimer.current);
+  }, []);
+
+  /**
+   * Save a change on this device so it can be synced later
+   *
+   * @param {QueuedOperation} operation - Change to queue
+   * @returns {Promise<AddEntryResult>} Queued result, or an error if the device store failed
+   */
+  const queueOperation = async (operation: QueuedOperation): Promise<AddEntryResult> => {
+    if (!isOfflineStoreAvailable()) {
+      return {
+        success: false,
+        error: 'Unable to connect to the server. Please check your internet connection and try again.'
+      };
+    }
+
+    try {
+      await enqueueOperation(operation);
+      return { success: true, queued: true };
+    } catch (queueError) {
+      console.error('Failed to save change for later sync:', queueError);
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.JOURNAL_SAVE_FAILED,
+          'You appear to be offline and the change could not be stored on this device.',
+          undefined,
+          queueError
+        ))
+      };
+    }
+  };
+
+  /**
+   * Replay changes made offline, oldest first
+   *
+   * Only one sync runs at a time across hook instances and browser tabs. A
+   * change that fails for a reason other than the connection holds back later
+   * changes to the same entry and is retried on the next sync.
+   *
+   * @returns {Promise<void>}
+   */
+  const syncPendingChanges = useCallback(async () => {
+    if (!user || !supabase || !isOfflineStoreAvailable() || !navigator.onLine) return;
+    if (activeSync) return activeSync;
+
+    const userId = user.id;
+    const canUploadPhotos = isPremium || isTrialActive;
+
+    const sync = async () => {
+      const operations = await getQueuedOperations(userId);
+      if (operations.length === 0) return;
+
+      Sentry.addBreadcrumb({
+        category: 'journal',
+        message: `Syncing ${operations.length} offline changes`,
+        level: 'info'
+      });
+
+      const blockedIds = new Set<string>();
+      let changed = false;
+
+      for (const operation of operations) {
+        if (blockedIds.has(operation.entryId)) continue;
+
+        try {
+          const decision = await replayOperation(operation, userId, canUploadPhotos);
+          if (decision.conflict) {
+            console.warn(
+              `Entry ${operation.entryId} changed elsewhere while offline;`,
+              decision.apply ? 'keeping the newer offline change' : 'keeping the newer server copy'
+            );
+          }
+          await removeQueuedOperations([operation.id!]);
+          changed = true;
+        } catch (err) {
+          if (isOfflineError(err)) break;
+
+          console.error(`Failed to sync ${operation.type} of entry ${operation.entryId}:`, err);
+          blockedIds.add(operation.entryId);
+          await updateQueuedOperation({
+            ...operation,
+            attempts: operation.attempts + 1,
+            lastError: err instanceof Error ? err.message : String(err)
+          });
+        }
+      }
+
+      if (changed) {
+        await loadEntries(isTrialActive);
+      }
+    };
+
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    activeSync = (locks
+      ? locks.request('zensai-journal-sync', { ifAvailable: true }, lock => (lock ? sync() : undefined))
+      : sync()
+    )
+      .catch(err => console.error('Error syncing offline changes:', err))
+      .finally(() => {
+        activeSync = null;
+      });
+
+    return activeSync;
+  }, [user, isPremium, isTrialActive, loadEntries]);
+
+  // Track which entries have changes waiting, whichever hook instance queued them
+  useEffect(() => {
+    if (!user || !isOfflineStoreAvailable()) return;
+
+    const refreshPending = () => {
+      getQueuedOperations(user.id)
+        .then(operations => setPendingIds(new Set(operations.map(operation => operation.entryId))))
+        .catch(err => console.warn('Failed to read offline changes:', err));
+    };
+
+    refreshPending();
+    return subscribeToQueue(refreshPending);
+  }, [user]);
+
+  // Sync when the app starts and whenever the connection comes back
+  useEffect(() => {
+    if (!user) return;
+
+    syncPendingChanges();
+    window.addEventListener('online', syncPendingChanges);
+    return () => window.removeEventListener('online', syncPendingChanges);
+  }, [user, syncPendingChanges]);
+
+  /**
+   * Entries with their pending-sync flag kept in step with the queue
+   */
+  const visibleEntries = useMemo(() => entries.map(entry => {
+    const pendingSync = pendingIds.has(entry.id);
+    return Boolean(entry.pendingSync) === pendingSync ? entry : { ...entry, pendingSync };
+  }), [entries, pendingIds]);
 
   /**
    * Add a new journal entry
@@ -266,6 +506,9 @@ export function useJournalEntries() {
    * @param {string|null} title - Optional entry title
    * @param {MoodLevel} mood - Selected mood level
    * @param {File} [photoFile] - Optional photo attachment
+   * @param {string[]} [tags] - Optional tags for the entry
+   * @param {EntryPrivacy} [privacy] - Search and AI opt-ins, for private journal entries
+   * @param {VoiceNote|null} [voiceNote] - Uploaded voice note to keep with the entry
    * @returns {Promise<AddEntryResult>} Result object
    */
   const addEntry = async (
@@ -275,7 +518,10 @@ export function useJournalEntries() {
     photoFile?: File | null,
     affirmationText?: string | null,
     affirmationAudioUrl?: string | null, 
-    affirmationSource?: string | null
+    affirmationSource?: string | null,
+    tags: string[] = [],
+    privacy: EntryPrivacy = {},
+    voiceNote: VoiceNote | null = null
   ): Promise<AddEntryResult> => {
     if (!user || !isAuthenticated) {
       return { 
@@ -305,48 +551,76 @@ export function useJournalEntries() {
       };
     }
 
+    // The id and timestamp are set here so an entry written offline keeps
+    // them when it is synced, and a repeated sync can't create a duplicate
+    const entryId = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+    const canUploadPhotos = isPremium || isTrialActive;
+    const shown = { content: content.trim(), title: title?.trim() || null };
+
+    // Private entries are encrypted before they are queued or sent
+    let fields: QueuedEntryFields;
+    try {
+      fields = {
+        ...shown,
+        ...await sealEntry(shown, privacy),
+        mood: getMoodString(mood),
+        tags: normalizeTags(tags),
+        affirmation_text: affirmationText ?? null,
+        affirmation_audio_url: affirmationAudioUrl ?? null,
+        affirmation_source: affirmationSource ?? null,
+        ...(voiceNote && {
+          voice_audio_url: voiceNote.path,
+          voice_duration_seconds: voiceNote.durationSeconds
+        })
+      };
+    } catch (sealError) {
+      return { success: false, error: getUserFriendlyErrorMessage(sealError) };
+    }
+
+    /**
+     * Keep the entry on this device and show it as pending
+     */
+    const queueNewEntry = async (): Promise<AddEntryResult> => {
+      const operation: QueuedOperation = {
+        userId: user.id,
+        entryId,
+        type: 'add',
+        queuedAt: createdAt,
+        baseUpdatedAt: null,
+        fields,
+        photo: canUploadPhotos ? photoFile || null : null,
+        attempts: 0
+      };
+
+      const result = await queueOperation(operation);
+      if (result.success) {
+        setEntries(prev => [{ ...toQueuedEntry(operation), ...shown }, ...prev]);
+      }
+      return result;
+    };
+
+    if (!navigator.onLine) {
+      return queueNewEntry();
+    }
+
     try {
       setError(null);
 
-      // Convert mood level to string
-      const moodString = getMoodString(mood);
-      
       let photoUrl = null;
       let photoFilename = null;
 
-      // Check if user can upload photos (premium or trial)
-      const canUploadPhotos = isPremium || isTrialActive;
-      
       // Handle photo upload if provided and user has permission
       if (photoFile && canUploadPhotos) {
         try {
           console.log('Uploading photo:', photoFile.name);
-          
-          // Generate unique filename
-          const timestamp = Date.now();
-          const fileExt = photoFile.name.split('.').pop()?.toLowerCase();
-          const fileName = `${user.id}/${timestamp}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-          
-          // Upload to Supabase Storage with retry
-          await withRetry(async () => {
-            const { data: uploadData, error: uploadError } = await supabase.storage
-              .from('journal-photos')
-              .upload(fileName, photoFile, {
-                cacheControl: '3600',
-                upsert: false
-              });
-
-            if (uploadError) {
-              throw uploadError;
-            }
-
-            return uploadData;
-          }, 'Upload photo');
-
-          photoUrl = fileName; // Store the file path, not the public URL
+          photoUrl = await uploadEntryPhoto(user.id, photoFile); // Store the file path, not the public URL
           console.log('Photo uploaded successfully:', photoUrl);
           photoFilename = photoFile.name;
         } catch (photoError) {
+          // Lost connection: save the whole entry, photo included, for later
+          if (isOfflineError(photoError)) throw photoError;
+
           console.error('Photo processing error:', photoError);
           return { 
             success: false, 
@@ -370,29 +644,10 @@ export function useJournalEntries() {
         affirmationSource: affirmationSource || 'not specified'
       });
       
-      const entryData = await withRetry(async () => {
-        const { data, error: entryError } = await supabase
-          .from('journal_entries')
-          .insert({
-            user_id: user.id,
-            content: content.trim(),
-            title: title?.trim() || null,
-            mood: moodString,
-            photo_url: photoUrl,
-            photo_filename: photoFilename,
-            affirmation_text: affirmationText,
-            affirmation_audio_url: affirmationAudioUrl,
-            affirmation_source: affirmationSource
-          })
-          .select()
-          .single();
-
-        if (entryError) {
-          throw entryError;
-        }
-
-        return data;
-      }, 'Save journal entry');
+      const entryData = {
+        ...await insertEntryRow(user.id, entryId, createdAt, fields, photoUrl, photoFilename),
+        ...shown
+      };
 
       // Update local state
       setEntries(prev => {
@@ -407,12 +662,9 @@ export function useJournalEntries() {
     } catch (err) {
       console.error('Error adding entry:', err);
       
-      // Provide specific error messages for network issues
-      if (err instanceof TypeError && err.message?.includes('Failed to fetch')) {
-        return { 
-          success: false, 
-          error: 'Unable to connect to the server. Please check your internet connection and try again.'
-        };
+      // Keep the entry on the device if the connection dropped
+      if (isOfflineError(err)) {
+        return queueNewEntry();
       }
       
       return { 
@@ -475,6 +727,40 @@ export function useJournalEntries() {
       };
     }
 
+    // Set once the entry is found, if the edit has to be encrypted
+    let sealed: SealedUpdate | null = null;
+
+    /**
+     * Keep the edit on this device and show it right away
+     */
+    const queueUpdate = async (baseUpdatedAt: string): Promise<AddEntryResult> => {
+      if (photoFile || removePhoto) {
+        return {
+          success: false,
+          error: 'Photo changes need an internet connection. Please try again when you are back online.'
+        };
+      }
+
+      const queuedAt = new Date().toISOString();
+      const fields = { ...toQueuedFields(updates, affirmationText, affirmationAudioUrl), ...sealed?.columns };
+      const result = await queueOperation({
+        userId: user.id,
+        entryId,
+        type: 'update',
+        queuedAt,
+        baseUpdatedAt,
+        fields,
+        attempts: 0
+      });
+
+      if (result.success) {
+        setEntries(prev => prev.map(entry =>
+          entry.id === entryId ? { ...entry, ...fields, ...sealed?.shown, updated_at: queuedAt } : entry
+        ));
+      }
+      return result;
+    };
+
     try {
       setError(null);
 
@@ -490,6 +776,27 @@ export function useJournalEntries() {
         };
       }
 
+      if (currentEntry.locked) {
+        return {
+          success: false,
+          error: getUserFriendlyErrorMessage(createAppError(
+            ErrorCode.JOURNAL_LOCKED,
+            'Unlock your private journal to edit this entry.'
+          ))
+        };
+      }
+
+      try {
+        sealed = await sealUpdate(currentEntry, updates);
+      } catch (sealError) {
+        return { success: false, error: getUserFriendlyErrorMessage(sealError) };
+      }
+
+      // Queue behind any unsynced changes to this entry so they replay in order
+      if (!navigator.onLine || pendingIds.has(entryId)) {
+        return queueUpdate(currentEntry.updated_at);
+      }
+
       // Check if user can upload photos (premium or trial)
       const canUploadPhotos = isPremium || isTrialActive;
       
@@ -523,14 +830,15 @@ export function useJournalEntries() {
             }
           }
           
-          // Upload new photo
+          // Upload new photo, resized and without its metadata
+          const { file: preparedPhoto } = await prepareImageForUpload(photoFile);
           const timestamp = Date.now();
-          const fileExt = photoFile.name.split('.').pop()?.toLowerCase();
+          const fileExt = preparedPhoto.name.split('.').pop()?.toLowerCase();
           const fileName = `${user.id}/${timestamp}_${Math.random().toString(36).substring(7)}.${fileExt}`;
           
           const { data: uploadData, error: uploadError } = await supabase.storage
             .from('journal-photos')
-            .upload(fileName, photoFile, {
+            .upload(fileName, preparedPhoto, {
               cacheControl: '3600',
               upsert: false
             });
@@ -567,10 +875,13 @@ export function useJournalEntries() {
         photoFilename = currentEntry?.photo_filename || null;
       }
 
+      // Tags live in their own table, so keep them out of the row update
+      const { tags: updatedTags, ...rowUpdates } = updates;
+
       // Prepare update data
       const updateData: Record<string, any> = {
         updated_at: new Date().toISOString(),
-        ...updates
+        ...rowUpdates
       };
       
       // Convert mood to string if provided
@@ -588,6 +899,10 @@ export function useJournalEntries() {
         updateData.title = updates.title?.trim() || null;
       }
       
+      if (sealed) {
+        Object.assign(updateData, sealed.columns);
+      }
+
       // Only update photo fields if they were explicitly changed
       if ((removePhoto || photoFile) && canUploadPhotos) {
         updateData.photo_url = photoUrl;
@@ -602,6 +917,10 @@ export function useJournalEntries() {
         .eq('user_id', user.id);
 
       if (updateError) {
+        if (isOfflineError(updateError)) {
+          return queueUpdate(currentEntry.updated_at);
+        }
+
         console.error('Error updating entry:', updateError);
         return { 
           success: false, 
@@ -613,16 +932,43 @@ export function useJournalEntries() {
         };
       }
 
-      // Update local state
+      if (updatedTags !== undefined) {
+        try {
+          updateData.tags = await saveEntryTags(entryId, normalizeTags(updatedTags));
+        } catch (tagError) {
+          console.error('Error updating entry tags:', tagError);
+          return { 
+            success: false, 
+            error: getUserFriendlyErrorMessage(createAppError(
+              ErrorCode.JOURNAL_UPDATE_FAILED,
+              'Your entry was saved, but its tags could not be updated. Please try again.',
+              { tagError }
+            ))
+          };
+        }
+      }
+
+      // Update local state; a changed photo needs a new signed URL
       setEntries(prev => prev.map(entry => 
         entry.id === entryId 
-          ? { ...entry, ...updateData }
+          ? {
+              ...entry,
+              ...updateData,
+              ...sealed?.shown,
+              ...('photo_url' in updateData ? { signedPhotoUrl: undefined } : {})
+            }
           : entry
       ));
 
       return { success: true };
     } catch (err) {
       console.error('Error updating entry:', err);
+
+      const currentEntry = entries.find(e => e.id === entryId);
+      if (currentEntry && isOfflineError(err)) {
+        return queueUpdate(currentEntry.updated_at);
+      }
+
       return { 
         success: false, 
         error: getUserFriendlyErrorMessage(createAppError(
@@ -634,6 +980,37 @@ export function useJournalEntries() {
     }
   };
 
+  /**
+   * Encrypt an edit when the journal is private
+   *
+   * Title and content are always encrypted together, under the current key,
+   * so an entry never mixes key versions.
+   *
+   * @param {JournalEntry} entry - Entry being edited, as shown
+   * @param {Partial<JournalEntry>} updates - Changes passed to updateEntry
+   * @returns {Promise<SealedUpdate|null>} Columns to write, or null if nothing needs encrypting
+   * @throws {AppError} JOURNAL_LOCKED when the journal is locked
+   */
+  const sealUpdate = async (entry: JournalEntry, updates: Partial<JournalEntry>): Promise<SealedUpdate | null> => {
+    const touched = (['title', 'content', 'search_opt_in', 'ai_opt_in'] as const).some(field => updates[field] !== undefined);
+    if (!isPrivate || !touched) return null;
+
+    const shown = {
+      title: updates.title !== undefined ? updates.title?.trim() || null : entry.title,
+      content: updates.content !== undefined ? updates.content.trim() : entry.content,
+      search_opt_in: updates.search_opt_in ?? entry.search_opt_in ?? false,
+      ai_opt_in: updates.ai_opt_in ?? entry.ai_opt_in ?? false
+    };
+
+    return {
+      columns: await sealEntry(
+        { title: shown.title, content: shown.content },
+        { searchOptIn: shown.search_opt_in, aiOptIn: shown.ai_opt_in }
+      ),
+      shown
+    };
+  };
+
   /**
    * Delete a journal entry
    * 
@@ -659,23 +1036,68 @@ export function useJournalEntries() {
       };
     }
 
+    /**
+     * Remember the deletion on this device and hide the entry right away
+     */
+    const queueDelete = async (entry: JournalEntry): Promise<AddEntryResult> => {
+      const removeLocally = () => setEntries(prev => prev.filter(item => item.id !== entry.id));
+
+      // An entry that never reached the server can simply be forgotten
+      const queued = (await getQueuedOperations(user.id).catch(() => [] as QueuedOperation[]))
+        .filter(operation => operation.entryId === entry.id);
+      if (queued.some(operation => operation.type === 'add')) {
+        await removeQueuedOperations(queued.map(operation => operation.id!));
+        removeLocally();
+        return { success: true };
+      }
+
+      const result = await queueOperation({
+        userId: user.id,
+        entryId: entry.id,
+        type: 'delete',
+        queuedAt: new Date().toISOString(),
+        baseUpdatedAt: entry.updated_at,
+        fields: {},
+        photoUrl: entry.photo_url,
+        attempts: 0
+      });
+
+      if (result.success) removeLocally();
+      return result;
+    };
+
     try {
       setError(null);
       
       // Get entry to check for photo
       const entryToDelete = entries.find(e => e.id === entryId);
+
+      if (entryToDelete && (!navigator.onLine || pendingIds.has(entryId))) {
+        return queueDelete(entryToDelete);
+      }
       
-      // Delete photo from storage if exists
-      if (entryToDelete?.photo_url) {
+      // Delete photos from storage; anything missed here is queued for
+      // deletion when the entry's attachments are removed with it
+      const photoPaths = entryToDelete?.attachments?.length
+        ? entryToDelete.attachments.map(attachment => attachment.storage_path)
+        : entryToDelete?.photo_url ? [getStoragePath(entryToDelete.photo_url, 'journal-photos')] : [];
+      if (photoPaths.length > 0) {
         try {
-          const fileName = entryToDelete.photo_url.split('/').pop();
-          if (fileName) {
-            await supabase.storage
-              .from('journal-photos')
-              .remove([`${user.id}/${fileName}`]);
-          }
+          await supabase.storage
+            .from('journal-photos')
+            .remove(photoPaths);
+        } catch (deleteError) {
+          console.warn('Failed to delete photos:', deleteError);
+        }
+      }
+
+      if (entryToDelete?.voice_audio_url) {
+        try {
+          await supabase.storage
+            .from('journal-audio')
+            .remove([entryToDelete.voice_audio_url]);
         } catch (deleteError) {
-          console.warn('Failed to delete photo:', deleteError);
+          console.warn('Failed to delete voice note:', deleteError);
         }
       }
 
@@ -687,6 +1109,10 @@ export function useJournalEntries() {
         .eq('user_id', user.id);
 
       if (deleteError) {
+        if (entryToDelete && isOfflineError(deleteError)) {
+          return queueDelete(entryToDelete);
+        }
+
         console.error('Error deleting entry:', deleteError);
         return { 
           success: false, 
@@ -716,16 +1142,435 @@ export function useJournalEntries() {
   };
 
   return {
-    entries,
+    entries: visibleEntries,
     isLoading,
     error,
+    hasMore,
+    isLoadingMore,
+    totalEntries,
+    moodCounts,
     loadEntries,
+    loadMoreEntries,
+    requestSignedUrls,
     addEntry,
     updateEntry,
     deleteEntry
   };
 }
 
+/**
+ * Fetch one page of entries, newest first, using keyset pagination
+ *
+ * Entries are ordered by (created_at, id) so the page boundary stays stable
+ * when entries share a timestamp or new ones are added meanwhile.
+ *
+ * @param {string} userId - Owner of the entries
+ * @param {Object} options - Page size, optional start date, and the cursor to continue after
+ * @returns {Promise<EntryPage>} The page and whether more entries follow
+ */
+async function fetchEntryPage(
+  userId: string,
+  { limit, since, cursor }: { limit: number; since: string | null; cursor: EntryCursor | null }
+): Promise<EntryPage> {
+  const client = supabase;
+  if (!client) {
+    throw new Error('Database not connected. Please connect to Supabase first.');
+  }
+
+  return withRetry(async () => {
+    let query = client
+      .from('journal_entries')
+      .select(`*, journal_entry_tags(tags(name)), entry_attachments(${ATTACHMENT_COLUMNS})`, cursor ? undefined : { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      // One extra row tells us whether another page follows
+      .limit(limit + 1);
+
+    if (since) {
+      query = query.gt('created_at', since);
+    }
+
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      console.error('Error loading entries:', error);
+      throw new Error(`Failed to load journal entries: ${error.message}`);
+    }
+
+    const rows = data || [];
+    return {
+      entries: rows.slice(0, limit).map(({ journal_entry_tags, entry_attachments, ...entry }) => ({
+        ...entry,
+        tags: extractTagNames(journal_entry_tags),
+        attachments: sortAttachments(entry_attachments || [])
+      })) as JournalEntry[],
+      hasMore: rows.length > limit,
+      total: count ?? rows.length
+    };
+  }, 'Load journal entries page');
+}
+
+/**
+ * Count entries per mood without downloading them
+ *
+ * @param {string} userId - Owner of the entries
+ * @param {string|null} since - Only count entries after this time
+ * @returns {Promise<Record<string, number>>} Entry count by stored mood name
+ */
+async function fetchMoodCounts(userId: string, since: string | null): Promise<Record<string, number>> {
+  const client = supabase;
+  if (!client) return {};
+
+  const counts = await Promise.all(MOOD_NAMES.map(async mood => {
+    let query = client
+      .from('journal_entries')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('mood', mood);
+
+    if (since) {
+      query = query.gt('created_at', since);
+    }
+
+    const { count, error } = await query;
+    if (error) {
+      console.warn(`Failed to count ${mood} entries:`, error);
+    }
+    return [mood, count || 0] as const;
+  }));
+
+  return Object.fromEntries(counts);
+}
+
+/**
+ * Start of the window of history free users can see
+ */
+function getFreeHistoryStart(): string {
+  const start = new Date();
+  start.setDate(start.getDate() - FREE_HISTORY_DAYS);
+  return start.toISOString();
+}
+
+/**
+ * Attach signed media URLs to an entry
+ *
+ * Uses freshly signed URLs when given and cached ones otherwise. Media that was
+ * requested but could not be signed is marked null so it isn't requested again.
+ *
+ * @param {JournalEntry} entry - Entry to update
+ * @param {Map<string, string>} [photoUrls] - Newly signed photo URLs by path
+ * @param {Map<string, string>} [audioUrls] - Newly signed audio URLs by path
+ * @param {Map<string, string>} [voiceUrls] - Newly signed voice note URLs by path
+ * @returns {JournalEntry} The entry with whatever URLs are available
+ */
+function applySignedUrls(
+  entry: JournalEntry,
+  photoUrls?: Map<string, string>,
+  audioUrls?: Map<string, string>,
+  voiceUrls?: Map<string, string>
+): JournalEntry {
+  const updated = { ...entry };
+
+  if (entry.photo_url) {
+    const path = getStoragePath(entry.photo_url, 'journal-photos');
+    const url = photoUrls?.get(path) ?? getCachedSignedUrl('journal-photos', path);
+    updated.signedPhotoUrl = url ?? (photoUrls ? null : entry.signedPhotoUrl);
+  }
+
+  if (entry.attachments) {
+    updated.attachments = entry.attachments.map(attachment => {
+      const url = photoUrls?.get(attachment.storage_path) ?? getCachedSignedUrl('journal-photos', attachment.storage_path);
+      return { ...attachment, signedUrl: url ?? (photoUrls ? null : attachment.signedUrl) };
+    });
+  }
+
+  if (entry.affirmation_audio_url) {
+    const path = getStoragePath(entry.affirmation_audio_url, 'affirmation-audio');
+    const url = audioUrls?.get(path) ?? getCachedSignedUrl('affirmation-audio', path);
+    updated.signedAudioUrl = url ?? (audioUrls ? null : entry.signedAudioUrl);
+  }
+
+  if (entry.voice_audio_url) {
+    const url = voiceUrls?.get(entry.voice_audio_url) ?? getCachedSignedUrl('journal-audio', entry.voice_audio_url);
+    updated.signedVoiceUrl = url ?? (voiceUrls ? null : entry.signedVoiceUrl);
+  }
+
+  return updated;
+}
+
+/**
+ * Put attachments in gallery order
+ */
+function sortAttachments(attachments: EntryAttachment[]): EntryAttachment[] {
+  return [...attachments].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Upload a photo for an entry
+ *
+ * @param {string} userId - Owner of the entry, used as the folder name
+ * @param {File} photoFile - Photo to upload
+ * @returns {Promise<string>} Path of the uploaded file within the bucket
+ */
+async function uploadEntryPhoto(userId: string, photoFile: File): Promise<string> {
+  const client = supabase;
+  if (!client) {
+    throw new Error('Database not connected. Please connect to Supabase first.');
+  }
+
+  // Resize and strip metadata before the photo leaves the device
+  const { file: preparedPhoto } = await prepareImageForUpload(photoFile);
+
+  // Generate unique filename
+  const timestamp = Date.now();
+  const fileExt = preparedPhoto.name.split('.').pop()?.toLowerCase();
+  const fileName = `${userId}/${timestamp}_${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+  // Upload to Supabase Storage with retry
+  await withRetry(async () => {
+    const { data: uploadData, error: uploadError } = await client.storage
+      .from('journal-photos')
+      .upload(fileName, preparedPhoto, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    return uploadData;
+  }, 'Upload photo');
+
+  return fileName;
+}
+
+/**
+ * Insert a new entry row and store its tags
+ *
+ * @param {string} userId - Owner of the entry
+ * @param {string} entryId - Id generated on the device
+ * @param {string} createdAt - When the entry was written
+ * @param {QueuedEntryFields} fields - Entry content
+ * @param {string|null} photoUrl - Path of an uploaded photo
+ * @param {string|null} photoFilename - Original name of the photo
+ * @returns {Promise<JournalEntry>} The saved entry
+ */
+async function insertEntryRow(
+  userId: string,
+  entryId: string,
+  createdAt: string,
+  fields: QueuedEntryFields,
+  photoUrl: string | null,
+  photoFilename: string | null
+): Promise<JournalEntry> {
+  const client = supabase;
+  if (!client) {
+    throw new Error('Database not connected. Please connect to Supabase first.');
+  }
+
+  const { tags, ...columns } = fields;
+  const entryData = await withRetry(async () => {
+    const { data, error: entryError } = await client
+      .from('journal_entries')
+      .insert({
+        id: entryId,
+        user_id: userId,
+        ...columns,
+        photo_url: photoUrl,
+        photo_filename: photoFilename,
+        created_at: createdAt,
+        updated_at: createdAt
+      })
+      .select()
+      .single();
+
+    if (entryError) {
+      throw entryError;
+    }
+
+    return data as JournalEntry;
+  }, 'Save journal entry');
+
+  // Save tags once the entry exists. A tag failure shouldn't lose the entry itself.
+  entryData.tags = [];
+  if (tags.length > 0) {
+    try {
+      entryData.tags = await saveEntryTags(entryData.id, tags);
+    } catch (tagError) {
+      console.warn('Entry saved but tags could not be stored:', tagError);
+    }
+  }
+
+  return entryData;
+}
+
+/**
+ * Send one queued change to the server, unless the server copy is newer
+ *
+ * @param {QueuedOperation} operation - Change to replay
+ * @param {string} userId - Owner of the entry
+ * @param {boolean} canUploadPhotos - Whether the user may attach photos
+ * @returns {Promise<SyncDecision>} What was done with the change
+ */
+async function replayOperation(
+  operation: QueuedOperation,
+  userId: string,
+  canUploadPhotos: boolean
+): Promise<SyncDecision> {
+  const client = supabase;
+  if (!client) {
+    throw new Error('Database not connected. Please connect to Supabase first.');
+  }
+
+  const { data: server, error: lookupError } = await client
+    .from('journal_entries')
+    .select('updated_at')
+    .eq('id', operation.entryId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  const decision = resolveQueuedOperation(operation, server);
+  if (!decision.apply) return decision;
+
+  if (operation.type === 'add') {
+    const photo = operation.photo && canUploadPhotos ? operation.photo : null;
+    const photoUrl = photo ? await uploadEntryPhoto(userId, photo) : null;
+    await insertEntryRow(
+      userId,
+      operation.entryId,
+      operation.queuedAt,
+      { ...EMPTY_ENTRY_FIELDS, ...operation.fields },
+      photoUrl,
+      photo?.name ?? null
+    );
+  } else if (operation.type === 'update') {
+    const { tags, ...columns } = operation.fields;
+    const { error: updateError } = await client
+      .from('journal_entries')
+      .update({ ...columns, updated_at: operation.queuedAt })
+      .eq('id', operation.entryId)
+      .eq('user_id', userId);
+
+    if (updateError) throw updateError;
+    if (tags !== undefined) {
+      await saveEntryTags(operation.entryId, tags);
+    }
+  } else {
+    const fileName = operation.photoUrl?.split('/').pop();
+    if (fileName) {
+      const { error: photoError } = await client.storage.from('journal-photos').remove([`${userId}/${fileName}`]);
+      if (photoError) console.warn('Failed to delete photo:', photoError);
+    }
+
+    const { error: deleteError } = await client
+      .from('journal_entries')
+      .delete()
+      .eq('id', operation.entryId)
+      .eq('user_id', userId);
+
+    if (deleteError) throw deleteError;
+  }
+
+  return decision;
+}
+
+const EMPTY_ENTRY_FIELDS: QueuedEntryFields = {
+  content: '',
+  title: null,
+  mood: 'neutral',
+  tags: [],
+  affirmation_text: null,
+  affirmation_audio_url: null,
+  affirmation_source: null
+};
+
+/**
+ * Build the entry shown for a new entry that is waiting to sync
+ *
+ * @param {QueuedOperation} operation - The queued add
+ * @returns {JournalEntry} A pending entry
+ */
+function toQueuedEntry(operation: QueuedOperation): JournalEntry {
+  return {
+    ...EMPTY_ENTRY_FIELDS,
+    ...operation.fields,
+    id: operation.entryId,
+    user_id: operation.userId,
+    photo_url: null,
+    photo_filename: operation.photo?.name ?? null,
+    created_at: operation.queuedAt,
+    updated_at: operation.queuedAt,
+    pendingSync: true
+  };
+}
+
+/**
+ * Pick the columns of an edit that can be queued while offline
+ *
+ * @param {Object} updates - Changes passed to updateEntry
+ * @param {string|null} [affirmationText] - Updated affirmation text
+ * @param {string|null} [affirmationAudioUrl] - Updated affirmation audio path
+ * @returns {Partial<QueuedEntryFields>} Changes in the form they are stored
+ */
+function toQueuedFields(
+  updates: Partial<Omit<QueuedEntryFields, 'mood'>> & { mood?: string | MoodLevel },
+  affirmationText?: string | null,
+  affirmationAudioUrl?: string | null
+): Partial<QueuedEntryFields> {
+  const fields: Partial<QueuedEntryFields> = {};
+
+  if (updates.content !== undefined) fields.content = updates.content.trim();
+  if (updates.title !== undefined) fields.title = updates.title?.trim() || null;
+  if (updates.mood !== undefined) {
+    fields.mood = typeof updates.mood === 'number' ? getMoodString(updates.mood) : updates.mood;
+  }
+  if (updates.tags !== undefined) fields.tags = normalizeTags(updates.tags);
+  if (updates.affirmation_audio_url !== undefined) fields.affirmation_audio_url = updates.affirmation_audio_url;
+  if (affirmationText !== undefined) fields.affirmation_text = affirmationText;
+  if (affirmationAudioUrl !== undefined) fields.affirmation_audio_url = affirmationAudioUrl;
+
+  return fields;
+}
+
+/**
+ * Replace the tags of an entry via the set_journal_entry_tags RPC
+ * 
+ * @param {string} entryId - ID of the entry to tag
+ * @param {string[]} tags - Normalized tag names
+ * @returns {Promise<string[]>} Tag names as stored by the database
+ */
+async function saveEntryTags(entryId: string, tags: string[]): Promise<string[]> {
+  const client = supabase;
+  if (!client) {
+    throw new Error('Database not connected. Please connect to Supabase first.');
+  }
+
+  const savedTags = await withRetry(async () => {
+    const { data, error } = await client.rpc('set_journal_entry_tags', {
+      p_entry_id: entryId,
+      p_tags: tags
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as string[] | null;
+  }, 'Save entry tags');
+
+  return savedTags || [];
+}
+
 /**
  * Helper function to convert mood level to descriptive string
  * 
@@ -0,0 +1,239 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useJournalKey } from './useJournalKey';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { THEMES } from '../data/diaryThemes';
+import {
+  ExportFormat,
+  ExportedEntry,
+  JournalExportData,
+  entriesToCsv,
+  entryToMarkdown,
+  getEntryFileNames,
+  getFileExtension,
+  startOfLocalDay,
+  toLocalDateString
+} from '../utils/exportFormats';
+import { ZipFile, createZip } from '../utils/zip';
+import { buildJournalPdf } from '../utils/pdfExport';
+
+export interface JournalExportOptions {
+  format: ExportFormat;
+  /** First day to include, as a local YYYY-MM-DD date */
+  startDate: string | null;
+  /** Last day to include, as a local YYYY-MM-DD date */
+  endDate: string | null;
+  /** Moods to include; empty means all */
+  moods: string[];
+  /** Diary theme name used for PDF exports */
+  theme: string;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+async function fetchBytes(url: string): Promise<Uint8Array | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    console.warn('Skipping media that could not be downloaded:', error);
+    return null;
+  }
+}
+
+/**
+ * Build the Markdown files (and optionally media) for an archive
+ */
+async function buildArchiveFiles(data: JournalExportData, includeMedia: boolean): Promise<ZipFile[]> {
+  const entries = data.journal_entries;
+  const names = getEntryFileNames(entries);
+  const files: ZipFile[] = [];
+
+  for (const entry of entries) {
+    const baseName = names.get(entry.id)!;
+    const media: { photo?: string; audio?: string } = {};
+
+    if (includeMedia && entry.photo_signed_url) {
+      const bytes = await fetchBytes(entry.photo_signed_url);
+      if (bytes) {
+        const path = `photos/${baseName}.${getFileExtension(entry.photo_filename || entry.photo_url, 'jpg')}`;
+        files.push({ name: path, data: bytes, date: new Date(entry.created_at) });
+        media.photo = `../${path}`;
+      }
+    }
+
+    if (includeMedia && entry.affirmation_audio_signed_url) {
+      const bytes = await fetchBytes(entry.affirmation_audio_signed_url);
+      if (bytes) {
+        const path = `audio/${baseName}.${getFileExtension(entry.affirmation_audio_url, 'mp3')}`;
+        files.push({ name: path, data: bytes, date: new Date(entry.created_at) });
+        media.audio = `../${path}`;
+      }
+    }
+
+    files.push({
+      name: `entries/${baseName}.md`,
+      data: entryToMarkdown(entry, media),
+      date: new Date(entry.updated_at || entry.created_at)
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Decrypt private entries for the export and drop the encryption columns
+ */
+async function openExportedEntries(
+  entries: ExportedEntry[],
+  openEntry: ReturnType<typeof useJournalKey>['openEntry']
+): Promise<ExportedEntry[]> {
+  return Promise.all(entries.map(async entry => {
+    const copy = { ...await openEntry(entry) };
+    delete copy.is_encrypted;
+    delete copy.key_version;
+    delete copy.search_text;
+    return copy;
+  }));
+}
+
+/**
+ * Custom hook for exporting journal entries in different formats
+ *
+ * @returns {Object} Export state and the exportJournal function
+ *
+ * @example
+ * const { isExporting, exportJournal } = useJournalExport();
+ * await exportJournal({ format: 'pdf', startDate: '2025-01-01', endDate: null, moods: [], theme: 'Classic' });
+ */
+export function useJournalExport() {
+  const { user } = useAuth();
+  const { status: journalKeyStatus, openEntry } = useJournalKey();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportJournal = useCallback(async (
+    options: JournalExportOptions
+  ): Promise<{ success: boolean; entryCount?: number; error?: string }> => {
+    if (!user) {
+      return { success: false, error: getUserFriendlyErrorMessage(createAppError(ErrorCode.NOT_AUTHENTICATED, 'User not authenticated')) };
+    }
+
+    if (!supabase) {
+      return { success: false, error: 'Supabase client not initialized. Please connect to Supabase first.' };
+    }
+
+    setIsExporting(true);
+
+    try {
+      const includeMedia = options.format === 'zip';
+
+      const { data, error: functionError } = await supabase.functions.invoke('export-journal-data', {
+        body: {
+          start_date: options.startDate ? startOfLocalDay(options.startDate) : null,
+          end_date: options.endDate ? startOfLocalDay(options.endDate, 1) : null,
+          moods: options.moods,
+          include_media: includeMedia
+        }
+      });
+
+      if (functionError || !data?.success) {
+        console.error('Export function error:', functionError || data?.error);
+        return { success: false, error: data?.error || 'Failed to export data. Please try again.' };
+      }
+
+      const received: ExportedEntry[] = data.data.journal_entries || [];
+
+      if (received.length === 0) {
+        return { success: false, error: 'No entries match these filters.' };
+      }
+
+      if (journalKeyStatus !== 'unlocked' && received.some(entry => entry.is_encrypted)) {
+        return {
+          success: false,
+          error: getUserFriendlyErrorMessage(createAppError(
+            ErrorCode.JOURNAL_LOCKED,
+            'Unlock your private journal to export it.'
+          ))
+        };
+      }
+
+      const entries = await openExportedEntries(received, openEntry);
+      const exportData: JournalExportData = { ...data.data, journal_entries: entries };
+
+      const stamp = toLocalDateString(new Date().toISOString());
+      const baseName = `zensai-journal-${stamp}`;
+
+      switch (options.format) {
+        case 'json':
+          downloadBlob(
+            new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' }),
+            `${baseName}.json`
+          );
+          break;
+
+        case 'csv':
+          downloadBlob(new Blob([entriesToCsv(entries)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+          break;
+
+        case 'markdown': {
+          const files = await buildArchiveFiles(exportData, false);
+          downloadBlob(new Blob([createZip(files)], { type: 'application/zip' }), `${baseName}-markdown.zip`);
+          break;
+        }
+
+        case 'zip': {
+          const files = await buildArchiveFiles(exportData, true);
+          // Signed URLs are only useful for a few minutes, so keep them out of the archive copy
+          const archiveData = {
+            ...exportData,
+            journal_entries: entries.map(entry => {
+              const copy = { ...entry };
+              delete copy.photo_signed_url;
+              delete copy.affirmation_audio_signed_url;
+              return copy;
+            })
+          };
+          files.push(
+            { name: 'journal.json', data: JSON.stringify(archiveData, null, 2) },
+            { name: 'journal.csv', data: entriesToCsv(entries) }
+          );
+          downloadBlob(new Blob([createZip(files)], { type: 'application/zip' }), `${baseName}.zip`);
+          break;
+        }
+
+        case 'pdf': {
+          const theme = THEMES.find(t => t.name === options.theme) || THEMES[0];
+          const range = [options.startDate, options.endDate].filter(Boolean).join(' – ');
+          // Oldest first reads like a diary
+          const chronological = [...entries].reverse();
+          const pdf = await buildJournalPdf(chronological, theme, 'My Zensai Journal', range || undefined);
+          downloadBlob(pdf, `${baseName}.pdf`);
+          break;
+        }
+      }
+
+      return { success: true, entryCount: entries.length };
+    } catch (err) {
+      console.error('Error exporting data:', err);
+      return { success: false, error: 'An unexpected error occurred during export.' };
+    } finally {
+      setIsExporting(false);
+    }
+  }, [user, journalKeyStatus, openEntry]);
+
+  return {
+    isExporting,
+    exportJournal
+  };
+}
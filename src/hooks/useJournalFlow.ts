@@ -1,10 +1,16 @@
 import { useState, useCallback, useEffect } from 'react';
 import { supabase, SUPABASE_FUNCTIONS_URL } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { EntryPrivacy } from '../contexts/JournalKeyContext';
+import { useJournalKey } from './useJournalKey';
 import { useVoiceSynthesis } from './useVoiceSynthesis';
 import { usePremium } from './usePremium';
 import { MoodLevel } from '../types';
 import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { deleteDraft, loadDraft, saveDraft } from '../lib/offlineStore';
+
+/** Wait this long after the last keystroke before saving the draft */
+const DRAFT_SAVE_DELAY_MS = 500;
 
 /**
  * A robust error handling utility to extract a message from any caught value.
@@ -48,13 +54,14 @@ interface JournalFlowHook {
   handleMoodSelect: (mood: MoodLevel) => void;
   handleJournalTextChange: (text: string) => void;
   handleTitleChange: (title: string) => void;
-  handleAnalyzeAndSave: () => Promise<{ success: boolean; affirmationText: string | null; affirmationSource: string | null }>;
+  handleAnalyzeAndSave: (privacy?: EntryPrivacy) => Promise<{ success: boolean; affirmationText: string | null; affirmationSource: string | null }>;
   playGeneratedAffirmation: () => Promise<{ success: boolean }>;
   stopSpeech: () => void;
   isGeneratingSpeech: boolean;
   isSpeechPlaying: boolean;
   clearError: () => void;
   resetForm: () => void;
+  clearDraft: () => Promise<void>;
   onAcceptAiMood: () => void;
   onDismissMoodSuggestion: () => void;
 }
@@ -133,6 +140,7 @@ const FALLBACK_PROMPTS = [
 export function useJournalFlow(): JournalFlowHook {
   const { user } = useAuth();
   const { isPremium, isTrialActive, trackFeatureUsage } = usePremium();
+  const { isPrivate } = useJournalKey();
   const { 
     generateSpeech, 
     playAudio, 
@@ -158,6 +166,42 @@ export function useJournalFlow(): JournalFlowHook {
   const [showMoodSuggestion, setShowMoodSuggestion] = useState(false);
   const [aiDetectedMood, setAiDetectedMood] = useState<MoodLevel | null>(null);
 
+  // Restore an unsaved draft, e.g. after the tab was closed or the entry failed to save
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    loadDraft(user.id)
+      .then(draft => {
+        if (cancelled || !draft) return;
+        setJournalText(current => current || draft.content);
+        setEntryTitle(current => current || draft.title);
+        setSelectedMood(current => current ?? (draft.mood as MoodLevel | null) ?? undefined);
+      })
+      .catch(err => console.warn('Failed to load journal draft:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Keep the draft on the device while the user writes
+  useEffect(() => {
+    if (!user || !journalText.trim()) return;
+
+    const timer = setTimeout(() => {
+      saveDraft({
+        userId: user.id,
+        title: entryTitle,
+        content: journalText,
+        mood: selectedMood ?? null,
+        updatedAt: new Date().toISOString()
+      }).catch(err => console.warn('Failed to save journal draft:', err));
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [user, journalText, entryTitle, selectedMood]);
+
   /**
    * Fetch a new reflection question from the API
    */
@@ -272,8 +316,13 @@ export function useJournalFlow(): JournalFlowHook {
 
   /**
    * Analyze journal entry and save to database
+   *
+   * In the private journal the entry is only sent for an AI affirmation when
+   * the user opted in for it; otherwise a fallback affirmation is used.
+   *
+   * @param {EntryPrivacy} [privacy] - Opt-ins chosen for the entry
    */
-  const handleAnalyzeAndSave = useCallback(async (): Promise<{ success: boolean; affirmationText: string | null; affirmationSource: string | null }> => {
+  const handleAnalyzeAndSave = useCallback(async (privacy: EntryPrivacy = {}): Promise<{ success: boolean; affirmationText: string | null; affirmationSource: string | null }> => {
     if (!user || !journalText.trim() || !selectedMood) {
       setError('Please fill in all required fields.');
       return { success: false, affirmationText: null, affirmationSource: null };
@@ -286,52 +335,58 @@ export function useJournalFlow(): JournalFlowHook {
     let affirmationSource: string | null = null;
 
     try {
-      // Generate affirmation
-      try {
-        // Get auth token for authorization header
-        const { data: sessionData } = await supabase.auth.getSession();
-        const token = sessionData.session?.access_token;
+      // Generate affirmation; private entries only reach the AI when the user opted in
+      if (isPrivate && !privacy.aiOptIn) {
+        affirmationText = getFallbackAffirmation(selectedMood);
+        affirmationSource = 'fallback';
+        setGeneratedAffirmation(affirmationText);
+      } else {
+        try {
+          // Get auth token for authorization header
+          const { data: sessionData } = await supabase.auth.getSession();
+          const token = sessionData.session?.access_token;
         
-        // Direct fetch to the edge function with proper headers
-        const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/generate-affirmation`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': token ? `Bearer ${token}` : '',
-          },
-          body: JSON.stringify({
-            entry: journalText.trim(),
-            mood: getMoodString(selectedMood),
-            user_id: user.id
-          })
-        });
+          // Direct fetch to the edge function with proper headers
+          const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/generate-affirmation`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': token ? `Bearer ${token}` : '',
+            },
+            body: JSON.stringify({
+              entry: journalText.trim(),
+              mood: getMoodString(selectedMood),
+              user_id: user.id
+            })
+          });
         
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Affirmation generation failed with status ${response.status}:`, errorText);
-          throw new Error(`Failed to generate affirmation: ${response.statusText}`);
-        }
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`Affirmation generation failed with status ${response.status}:`, errorText);
+            throw new Error(`Failed to generate affirmation: ${response.statusText}`);
+          }
         
-        const affirmationData = await response.json();
-        const affirmationError = !affirmationData.success ? new Error(affirmationData.error || 'Failed to generate affirmation') : null;
+          const affirmationData = await response.json();
+          const affirmationError = !affirmationData.success ? new Error(affirmationData.error || 'Failed to generate affirmation') : null;
 
-        if (affirmationError || !affirmationData?.affirmation) {
-          console.error('Error generating affirmation:', affirmationError);
+          if (affirmationError || !affirmationData?.affirmation) {
+            console.error('Error generating affirmation:', affirmationError);
+            // Use fallback affirmation
+            affirmationText = getFallbackAffirmation(selectedMood);
+            affirmationSource = 'fallback';
+            setGeneratedAffirmation(affirmationText);
+          } else {
+            affirmationText = affirmationData.affirmation;
+            affirmationSource = 'ai';
+            setGeneratedAffirmation(affirmationText);
+          }
+        } catch (affirmationErr) {
+          console.error('Error generating affirmation:', affirmationErr);
           // Use fallback affirmation
           affirmationText = getFallbackAffirmation(selectedMood);
           affirmationSource = 'fallback';
           setGeneratedAffirmation(affirmationText);
-        } else {
-          affirmationText = affirmationData.affirmation;
-          affirmationSource = 'ai';
-          setGeneratedAffirmation(affirmationText);
         }
-      } catch (affirmationErr) {
-        console.error('Error generating affirmation:', affirmationErr);
-        // Use fallback affirmation
-        affirmationText = getFallbackAffirmation(selectedMood);
-        affirmationSource = 'fallback';
-        setGeneratedAffirmation(affirmationText);
       }
 
       // Reset form
@@ -347,7 +402,7 @@ export function useJournalFlow(): JournalFlowHook {
     } finally {
       setIsAnalyzing(false);
     }
-  }, [user, journalText, selectedMood, entryTitle]);
+  }, [user, journalText, selectedMood, entryTitle, isPrivate]);
 
   /**
    * Play generated affirmation as speech
@@ -409,6 +464,18 @@ export function useJournalFlow(): JournalFlowHook {
     setAiDetectedMood(null);
   }, []);
 
+  /**
+   * Forget the saved draft once its entry has been saved or queued
+   */
+  const clearDraft = useCallback(async () => {
+    if (!user) return;
+    try {
+      await deleteDraft(user.id);
+    } catch (err) {
+      console.warn('Failed to clear journal draft:', err);
+    }
+  }, [user]);
+
   /**
    * Accept AI mood suggestion
    */
@@ -455,6 +522,7 @@ export function useJournalFlow(): JournalFlowHook {
     isSpeechPlaying,
     clearError,
     resetForm,
+    clearDraft,
     onAcceptAiMood,
     onDismissMoodSuggestion,
   };
@@ -0,0 +1,347 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useJournalKey } from './useJournalKey';
+import { usePremium } from './usePremium';
+import { withRetry } from '../utils/networkUtils';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { getFileExtension } from '../utils/exportFormats';
+import { prepareImageForUpload } from '../utils/imageProcessing';
+import { readZip } from '../utils/zip';
+import {
+  ImportFile,
+  ImportedEntry,
+  getDuplicateKey,
+  markDuplicates,
+  parseImportFiles
+} from '../utils/journalImport';
+
+/** Rows inserted per request */
+const INSERT_BATCH_SIZE = 50;
+
+/** Rows fetched per request when looking for duplicates */
+const EXISTING_PAGE_SIZE = 1000;
+
+const PHOTO_CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic'
+};
+
+export interface ImportPreview {
+  entries: ImportedEntry[];
+  warnings: string[];
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Read picked files into memory, expanding any ZIP archives
+ *
+ * Folder picks carry `webkitRelativePath`, which keeps photo links between
+ * Markdown files and their images resolvable.
+ */
+async function readPickedFiles(files: File[]): Promise<ImportFile[]> {
+  const result: ImportFile[] = [];
+
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    if (/\.zip$/i.test(file.name)) {
+      const extracted = await readZip(data);
+      for (const entry of extracted) {
+        result.push({
+          path: entry.name,
+          data: typeof entry.data === 'string' ? new TextEncoder().encode(entry.data) : entry.data
+        });
+      }
+    } else {
+      result.push({
+        path: file.webkitRelativePath || file.name,
+        data,
+        lastModified: file.lastModified
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Custom hook for importing journal entries from other apps or a Zensai backup
+ *
+ * Importing is two steps: `prepareImport` parses the files and flags entries
+ * that already exist, then `importEntries` saves the ones the user kept.
+ *
+ * @returns {Object} Import state and methods
+ *
+ * @example
+ * const { prepareImport, importEntries, isImporting, progress } = useJournalImport();
+ * const { preview } = await prepareImport(files);
+ * await importEntries(preview.entries.filter(entry => !entry.duplicate));
+ */
+export function useJournalImport() {
+  const { user } = useAuth();
+  const { isPremium, isTrialActive } = usePremium();
+  const { status: journalKeyStatus, sealEntry, openEntry } = useJournalKey();
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress>({ done: 0, total: 0 });
+
+  /**
+   * Load duplicate keys for the user's entries in the time span of an import
+   */
+  const loadExistingKeys = useCallback(async (entries: ImportedEntry[]): Promise<Set<string>> => {
+    const keys = new Set<string>();
+    if (!user || !supabase || entries.length === 0) return keys;
+
+    const client = supabase;
+    // Entries are sorted oldest first; pad by a second since keys are per second
+    const from = new Date(new Date(entries[0].created_at).getTime() - 1000).toISOString();
+    const to = new Date(new Date(entries[entries.length - 1].created_at).getTime() + 1000).toISOString();
+
+    for (let offset = 0; ; offset += EXISTING_PAGE_SIZE) {
+      const rows = await withRetry(async () => {
+        const { data, error } = await client
+          .from('journal_entries')
+          .select('created_at, title, content, is_encrypted, key_version')
+          .eq('user_id', user.id)
+          .gte('created_at', from)
+          .lte('created_at', to)
+          .order('created_at', { ascending: true })
+          .range(offset, offset + EXISTING_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        return data || [];
+      }, 'Load existing entries for import');
+
+      // Private entries are compared by their decrypted content
+      for (const row of await Promise.all(rows.map(openEntry))) {
+        keys.add(getDuplicateKey(row.created_at, row.content));
+      }
+
+      if (rows.length < EXISTING_PAGE_SIZE) break;
+    }
+
+    return keys;
+  }, [user, openEntry]);
+
+  /**
+   * Parse picked files and flag duplicates
+   *
+   * @param {File[]} files - Files or a folder picked by the user
+   * @returns {Promise<{success: boolean, preview?: ImportPreview, error?: string}>}
+   */
+  const prepareImport = useCallback(async (
+    files: File[]
+  ): Promise<{ success: boolean; preview?: ImportPreview; error?: string }> => {
+    if (!user) {
+      return { success: false, error: getUserFriendlyErrorMessage(createAppError(ErrorCode.NOT_AUTHENTICATED, 'User not authenticated')) };
+    }
+
+    setIsPreparing(true);
+
+    try {
+      const { entries, warnings } = parseImportFiles(await readPickedFiles(files), user.id);
+
+      if (entries.length === 0) {
+        return {
+          success: false,
+          error: 'No journal entries were found. Choose a Day One JSON or ZIP, a Journey ZIP, a folder of Markdown files, or a Zensai export.'
+        };
+      }
+
+      const existingKeys = await loadExistingKeys(entries);
+      return { success: true, preview: { entries: markDuplicates(entries, existingKeys), warnings } };
+    } catch (err) {
+      console.error('Error preparing import:', err);
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.VALIDATION_ERROR,
+          'These files could not be read. Please check they are an unmodified export and try again.',
+          undefined,
+          err
+        ))
+      };
+    } finally {
+      setIsPreparing(false);
+    }
+  }, [user, loadExistingKeys]);
+
+  /**
+   * Upload an imported photo to the user's folder in journal-photos
+   */
+  const uploadPhoto = useCallback(async (entry: ImportedEntry): Promise<string | null> => {
+    if (!user || !supabase || !entry.photo) return null;
+
+    const client = supabase;
+    const photo = entry.photo;
+    const ext = getFileExtension(photo.name, 'jpg');
+
+    try {
+      // Resize and strip metadata like photos added in the app; photos the
+      // browser can't decode are left out rather than uploaded with their EXIF
+      const { file: prepared } = await prepareImageForUpload(
+        new File([photo.data], photo.name, { type: PHOTO_CONTENT_TYPES[ext] || 'application/octet-stream' })
+      );
+      const fileName = `${user.id}/${Date.now()}_${Math.random().toString(36).substring(2)}.${getFileExtension(prepared.name, 'jpg')}`;
+
+      await withRetry(async () => {
+        const { error } = await client.storage
+          .from('journal-photos')
+          .upload(fileName, prepared, {
+            cacheControl: '3600',
+            upsert: false
+          });
+
+        if (error) throw error;
+      }, 'Upload imported photo');
+
+      return fileName;
+    } catch (error) {
+      console.warn(`Imported entry saved without its photo ${photo.name}:`, error);
+      return null;
+    }
+  }, [user]);
+
+  /**
+   * Save the selected entries
+   *
+   * Photos are only uploaded for premium or trial users, matching new entries.
+   *
+   * @param {ImportedEntry[]} entries - Entries to import
+   * @returns {Promise<{success: boolean, imported: number, skippedPhotos: number, error?: string}>}
+   */
+  const importEntries = useCallback(async (
+    entries: ImportedEntry[]
+  ): Promise<{ success: boolean; imported: number; skippedPhotos: number; error?: string }> => {
+    if (!user) {
+      return {
+        success: false,
+        imported: 0,
+        skippedPhotos: 0,
+        error: getUserFriendlyErrorMessage(createAppError(ErrorCode.NOT_AUTHENTICATED, 'User not authenticated'))
+      };
+    }
+
+    if (!supabase) {
+      return { success: false, imported: 0, skippedPhotos: 0, error: 'Supabase client not initialized. Please connect to Supabase first.' };
+    }
+
+    if (journalKeyStatus === 'locked') {
+      return {
+        success: false,
+        imported: 0,
+        skippedPhotos: 0,
+        error: getUserFriendlyErrorMessage(createAppError(ErrorCode.JOURNAL_LOCKED, 'Unlock your private journal to import entries.'))
+      };
+    }
+
+    const client = supabase;
+    const canUploadPhotos = isPremium || isTrialActive;
+    let imported = 0;
+    let skippedPhotos = 0;
+
+    setIsImporting(true);
+    setProgress({ done: 0, total: entries.length });
+
+    try {
+      for (let start = 0; start < entries.length; start += INSERT_BATCH_SIZE) {
+        const batch = entries.slice(start, start + INSERT_BATCH_SIZE);
+        const rows: Record<string, unknown>[] = [];
+
+        for (const entry of batch) {
+          let photoUrl = entry.photo_path || null;
+          let photoFilename = entry.photo_path ? entry.photo_filename || null : null;
+
+          if (entry.photo && canUploadPhotos) {
+            photoUrl = await uploadPhoto(entry);
+            photoFilename = photoUrl ? entry.photo.name : null;
+          } else if (entry.photo) {
+            skippedPhotos += 1;
+          }
+
+          // Imported entries are encrypted like new ones when the journal is private
+          const sealed = await sealEntry({ title: entry.title?.trim() || null, content: entry.content }, {});
+
+          rows.push({
+            user_id: user.id,
+            ...sealed,
+            mood: entry.mood,
+            created_at: entry.created_at,
+            photo_url: photoUrl,
+            photo_filename: photoFilename,
+            affirmation_text: entry.affirmation_text || null,
+            affirmation_audio_url: entry.affirmation_audio_path || null,
+            affirmation_source: entry.affirmation_source || null
+          });
+        }
+
+        const saved = await withRetry(async () => {
+          const { data, error } = await client
+            .from('journal_entries')
+            .insert(rows)
+            .select('id');
+
+          if (error) throw error;
+          return data || [];
+        }, 'Insert imported entries');
+
+        // Rows come back in insertion order
+        for (const [i, row] of saved.entries()) {
+          const tags = batch[i]?.tags || [];
+          if (tags.length === 0) continue;
+
+          try {
+            await withRetry(async () => {
+              const { error } = await client.rpc('set_journal_entry_tags', {
+                p_entry_id: row.id,
+                p_tags: tags
+              });
+              if (error) throw error;
+            }, 'Save imported entry tags');
+          } catch (tagError) {
+            console.warn('Imported entry saved but tags could not be stored:', tagError);
+          }
+        }
+
+        imported += saved.length;
+        setProgress({ done: imported, total: entries.length });
+      }
+
+      return { success: true, imported, skippedPhotos };
+    } catch (err) {
+      console.error('Error importing entries:', err);
+      return {
+        success: false,
+        imported,
+        skippedPhotos,
+        error: getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.JOURNAL_SAVE_FAILED,
+          imported > 0
+            ? `Imported ${imported} of ${entries.length} entries before an error occurred. Importing the same files again will skip those already saved.`
+            : 'Failed to import entries. Please try again.',
+          undefined,
+          err
+        ))
+      };
+    } finally {
+      setIsImporting(false);
+    }
+  }, [user, isPremium, isTrialActive, uploadPhoto, journalKeyStatus, sealEntry]);
+
+  return {
+    isPreparing,
+    isImporting,
+    progress,
+    prepareImport,
+    importEntries
+  };
+}
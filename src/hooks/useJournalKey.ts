@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+import type { JournalKeyContextType } from '../contexts/JournalKeyContext';
+
+export const JournalKeyContext = createContext<JournalKeyContextType | undefined>(undefined);
+
+/**
+ * Access the private journal key, from within a JournalKeyProvider
+ */
+export function useJournalKey() {
+  const context = useContext(JournalKeyContext);
+  if (context === undefined) {
+    throw new Error('useJournalKey must be used within a JournalKeyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { withRetry } from '../utils/networkUtils';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { startOfLocalDay, toLocalDateString } from '../utils/exportFormats';
+import { getSignedUrls, getStoragePath } from '../utils/signedUrlCache';
+import { useJournalKey } from './useJournalKey';
+
+/** Wait this long after the last change before querying */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** Maximum number of results fetched per search */
+const SEARCH_LIMIT = 100;
+
+/** Days of history free users can see, matching loadEntries */
+const FREE_HISTORY_DAYS = 30;
+
+export interface JournalSearchFilters {
+  query: string;
+  /** First day to include, as a local YYYY-MM-DD date */
+  startDate: string | null;
+  /** Last day to include, as a local YYYY-MM-DD date */
+  endDate: string | null;
+  moods: string[];
+  tags: string[];
+}
+
+export interface JournalSearchResult {
+  id: string;
+  title: string | null;
+  content: string;
+  mood: string;
+  photo_url: string | null;
+  photo_filename: string | null;
+  affirmation_text: string | null;
+  affirmation_audio_url: string | null;
+  affirmation_source: string | null;
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+  is_encrypted: boolean;
+  key_version: number | null;
+  search_opt_in: boolean;
+  ai_opt_in: boolean;
+  /** Encrypted and not readable until the private journal is unlocked */
+  locked?: boolean;
+  rank: number;
+  /** Title with matches wrapped in highlight markers */
+  title_highlight: string | null;
+  /** Best matching fragments of the content, with highlight markers */
+  snippet: string;
+  signedPhotoUrl?: string;
+  signedAudioUrl?: string | null;
+}
+
+/**
+ * Whether any search or filter is set
+ */
+export function hasSearchFilters(filters: JournalSearchFilters): boolean {
+  return Boolean(
+    filters.query.trim() || filters.startDate || filters.endDate || filters.moods.length > 0 || filters.tags.length > 0
+  );
+}
+
+/**
+ * Custom hook for ranked full-text search over the user's whole journal
+ *
+ * Queries the search_journal_entries RPC, debounced while the user types.
+ * Free users are limited to the same 30-day window as their history. Private
+ * entries are only found through the text their owner made searchable, and
+ * are decrypted here.
+ *
+ * @param {JournalSearchFilters} filters - Search text and filters
+ * @param {boolean} hasFullHistory - Whether the user can search beyond 30 days (premium or trial)
+ * @returns {Object} Results, whether a search is active, loading/error state and a refresh function
+ *
+ * @example
+ * const { results, isActive, isSearching } = useJournalSearch(filters, isPremium || isTrialActive);
+ */
+export function useJournalSearch(filters: JournalSearchFilters, hasFullHistory: boolean) {
+  const { user } = useAuth();
+  const { openEntry } = useJournalKey();
+  const [results, setResults] = useState<JournalSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const latestRequest = useRef(0);
+
+  const isActive = hasSearchFilters(filters);
+  const { query, startDate, endDate } = filters;
+  // Arrays change identity on every render, so depend on their contents
+  const moodsKey = JSON.stringify(filters.moods);
+  const tagsKey = JSON.stringify(filters.tags);
+
+  useEffect(() => {
+    if (!user || !supabase || !isActive) {
+      setResults([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    const client = supabase;
+    const requestId = ++latestRequest.current;
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      let start = startDate;
+      if (!hasFullHistory) {
+        const earliest = new Date();
+        earliest.setDate(earliest.getDate() - FREE_HISTORY_DAYS);
+        const earliestDay = toLocalDateString(earliest.toISOString());
+        if (!start || start < earliestDay) start = earliestDay;
+      }
+
+      try {
+        const found = await withRetry(async () => {
+          const { data, error: rpcError } = await client.rpc('search_journal_entries', {
+            p_query: query.trim() || null,
+            p_start_date: start ? startOfLocalDay(start) : null,
+            p_end_date: endDate ? startOfLocalDay(endDate, 1) : null,
+            p_moods: JSON.parse(moodsKey),
+            p_tags: JSON.parse(tagsKey),
+            p_limit: SEARCH_LIMIT
+          });
+
+          if (rpcError) throw rpcError;
+          return (data || []) as JournalSearchResult[];
+        }, 'Search journal entries');
+
+        // The server can't highlight encrypted titles or cut snippets from encrypted content
+        const rows = (await Promise.all(found.map(openEntry))).map(row => ({
+          ...row,
+          title_highlight: row.title_highlight ?? row.title,
+          snippet: row.snippet ?? row.content.slice(0, 200)
+        }));
+
+        const photoPaths = rows.filter(row => row.photo_url).map(row => getStoragePath(row.photo_url!, 'journal-photos'));
+        const audioPaths = rows.filter(row => row.affirmation_audio_url).map(row => getStoragePath(row.affirmation_audio_url!, 'affirmation-audio'));
+        const [photoUrls, audioUrls] = await Promise.all([
+          getSignedUrls('journal-photos', photoPaths),
+          getSignedUrls('affirmation-audio', audioPaths)
+        ]);
+
+        if (requestId !== latestRequest.current) return;
+
+        setResults(rows.map(row => ({
+          ...row,
+          signedPhotoUrl: row.photo_url ? photoUrls.get(getStoragePath(row.photo_url, 'journal-photos')) : undefined,
+          signedAudioUrl: row.affirmation_audio_url
+            ? audioUrls.get(getStoragePath(row.affirmation_audio_url, 'affirmation-audio')) ?? null
+            : undefined
+        })));
+        setError(null);
+      } catch (err) {
+        if (requestId !== latestRequest.current) return;
+        console.error('Error searching entries:', err);
+        setError(getUserFriendlyErrorMessage(createAppError(
+          ErrorCode.JOURNAL_LOAD_FAILED,
+          'Search failed. Please try again.',
+          undefined,
+          err
+        )));
+      } finally {
+        if (requestId === latestRequest.current) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [user, isActive, query, startDate, endDate, moodsKey, tagsKey, hasFullHistory, refreshCount, openEntry]);
+
+  /**
+   * Run the current search again, e.g. after an entry was edited or deleted
+   */
+  const refresh = useCallback(() => setRefreshCount(count => count + 1), []);
+
+  return {
+    results,
+    isActive,
+    isSearching,
+    error,
+    refresh
+  };
+}
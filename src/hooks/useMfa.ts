@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Factor } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getUserFriendlyErrorMessage } from '../types/errors';
+import { getAuthError, readFunctionErrorPayload } from '../utils/authErrors';
+import { SETTINGS } from '../constants/uiStrings';
+
+/** A started enrollment, waiting for the first code from the app */
+export interface MfaEnrollment {
+  factorId: string;
+  /** SVG data URL to show as an image */
+  qrCode: string;
+  secret: string;
+}
+
+type MfaResult<T = object> = ({ success: true } & T) | { success: false; error: string };
+
+const NOT_CONNECTED = 'Supabase client not initialized. Please connect to Supabase first.';
+
+function getFactorName(existing: Factor[]): string {
+  const names = new Set(existing.map(factor => factor.friendly_name));
+  let name = SETTINGS.TWO_FACTOR.DEFAULT_NAME;
+  for (let n = 2; names.has(name); n++) {
+    name = `${SETTINGS.TWO_FACTOR.DEFAULT_NAME} ${n}`;
+  }
+  return name;
+}
+
+/**
+ * Custom hook for managing the signed-in user's authenticator apps and recovery codes
+ *
+ * Factors go through Supabase's MFA API; recovery codes through the
+ * mfa-recovery-codes edge function, which only hands them out to a session
+ * that has passed the second factor.
+ *
+ * @returns {Object} Verified factors, recovery code count, loading and error state, and actions
+ *
+ * @example
+ * const { factors, startEnrollment, confirmEnrollment } = useMfa();
+ */
+export function useMfa() {
+  const { user } = useAuth();
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [remainingRecoveryCodes, setRemainingRecoveryCodes] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFactors = useCallback(async () => {
+    if (!user) return;
+
+    if (!supabase) {
+      setError(NOT_CONNECTED);
+      return;
+    }
+
+    const client = supabase;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: factorsError } = await client.auth.mfa.listFactors();
+      if (factorsError) throw factorsError;
+      setFactors(data.totp);
+
+      if (data.totp.length > 0) {
+        const { data: status, error: statusError } = await client.functions.invoke('mfa-recovery-codes', {
+          body: { action: 'status' }
+        });
+        setRemainingRecoveryCodes(statusError ? null : status?.remaining ?? null);
+      } else {
+        setRemainingRecoveryCodes(null);
+      }
+    } catch (err) {
+      console.error('Error loading authenticator apps:', err);
+      setError(getUserFriendlyErrorMessage(getAuthError(err, 'Failed to load two-step verification settings. Please try again.')));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadFactors();
+  }, [loadFactors]);
+
+  /**
+   * Create a new TOTP factor and return the QR code for the app to scan
+   *
+   * Enrollments that were started but never verified are removed first.
+   */
+  const startEnrollment = useCallback(async (): Promise<MfaResult<{ enrollment: MfaEnrollment }>> => {
+    if (!supabase) return { success: false, error: NOT_CONNECTED };
+    const client = supabase;
+
+    try {
+      const { data: listed, error: listError } = await client.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      for (const factor of listed.all.filter(candidate => candidate.status === 'unverified')) {
+        await client.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
+      const { data, error: enrollError } = await client.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: getFactorName(listed.totp)
+      });
+      if (enrollError) throw enrollError;
+
+      return {
+        success: true,
+        enrollment: { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret }
+      };
+    } catch (err) {
+      console.error('Error starting authenticator enrollment:', err);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(err, "We couldn't start setting up your authenticator app. Please try again.")) };
+    }
+  }, []);
+
+  /**
+   * Generate a fresh set of recovery codes, replacing any the user had
+   */
+  const regenerateRecoveryCodes = useCallback(async (): Promise<MfaResult<{ codes: string[] }>> => {
+    if (!supabase) return { success: false, error: NOT_CONNECTED };
+
+    const fallback = "We couldn't create recovery codes. Please try again.";
+    const { data, error: invokeError } = await supabase.functions.invoke('mfa-recovery-codes', {
+      body: { action: 'generate' }
+    });
+
+    if (invokeError || !data?.success) {
+      const payload = invokeError ? await readFunctionErrorPayload(invokeError) : data;
+      const appError = getAuthError(payload?.code ? payload : invokeError, payload?.error || fallback);
+      return { success: false, error: getUserFriendlyErrorMessage(appError) };
+    }
+
+    setRemainingRecoveryCodes(data.codes.length);
+    return { success: true, codes: data.codes };
+  }, []);
+
+  /**
+   * Check the first code from the app, which turns the factor on, then create recovery codes
+   */
+  const confirmEnrollment = useCallback(async (factorId: string, code: string): Promise<MfaResult<{ codes: string[] }>> => {
+    if (!supabase) return { success: false, error: NOT_CONNECTED };
+
+    const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.trim() });
+    if (verifyError) {
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(verifyError, "That code didn't work. Please try again.")) };
+    }
+
+    const result = await regenerateRecoveryCodes();
+    await loadFactors();
+    return result;
+  }, [regenerateRecoveryCodes, loadFactors]);
+
+  /**
+   * Remove a factor, verified or not
+   *
+   * The session is refreshed afterwards so it stops requiring the removed factor.
+   */
+  const removeFactor = useCallback(async (factorId: string): Promise<MfaResult> => {
+    if (!supabase) return { success: false, error: NOT_CONNECTED };
+    const client = supabase;
+
+    try {
+      const { error: unenrollError } = await client.auth.mfa.unenroll({ factorId });
+      if (unenrollError) throw unenrollError;
+
+      await client.auth.refreshSession();
+      await loadFactors();
+      return { success: true };
+    } catch (err) {
+      console.error('Error removing authenticator app:', err);
+      return { success: false, error: getUserFriendlyErrorMessage(getAuthError(err, "We couldn't remove that authenticator app. Please try again.")) };
+    }
+  }, [loadFactors]);
+
+  return {
+    factors,
+    remainingRecoveryCodes,
+    isLoading,
+    error,
+    reload: loadFactors,
+    startEnrollment,
+    confirmEnrollment,
+    removeFactor,
+    regenerateRecoveryCodes
+  };
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { withRetry } from '../utils/networkUtils';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { getNotificationPermission, isPushSupported, subscribeToPush, unsubscribeFromPush } from '../lib/pushNotifications';
+
+/**
+ * Reminder preferences stored on the profile
+ */
+export interface ReminderSettings {
+  reminder_enabled: boolean;
+  /** Local time, HH:MM */
+  reminder_time: string;
+  /** ISO weekdays, 1 = Monday to 7 = Sunday */
+  reminder_days: number[];
+  /** Local time, HH:MM, or null for no quiet hours */
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  /** Days without an entry before a nudge, or null for no nudge */
+  inactivity_nudge_days: number | null;
+  email_digest_enabled: boolean;
+}
+
+const REMINDER_COLUMNS = 'reminder_enabled, reminder_time, reminder_days, quiet_hours_start, quiet_hours_end, inactivity_nudge_days, email_digest_enabled';
+
+// Postgres returns TIME columns as HH:MM:SS
+const toTimeInput = (value: string | null) => (value ? value.slice(0, 5) : null);
+
+/**
+ * Custom hook for journaling reminder preferences and this browser's push subscription
+ *
+ * Reminders are sent by the send-reminders edge function to every browser the
+ * user turned them on in; turning them off stops them everywhere.
+ *
+ * @returns {Object} Settings, loading state, and functions to save settings and turn reminders on or off
+ *
+ * @example
+ * const { settings, setRemindersEnabled, saveSettings } = useReminderSettings();
+ */
+export function useReminderSettings() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [permission, setPermission] = useState(getNotificationPermission());
+
+  const loadSettings = useCallback(async () => {
+    const client = supabase;
+    if (!user || !client) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await withRetry(async () => {
+        const { data, error: loadError } = await client
+          .from('profiles')
+          .select(REMINDER_COLUMNS)
+          .eq('user_id', user.id)
+          .single();
+
+        if (loadError) throw loadError;
+        return data;
+      }, 'Load reminder settings');
+
+      setSettings({
+        ...data,
+        reminder_time: toTimeInput(data.reminder_time) ?? '20:00',
+        quiet_hours_start: toTimeInput(data.quiet_hours_start),
+        quiet_hours_end: toTimeInput(data.quiet_hours_end)
+      });
+    } catch (err) {
+      console.error('Error loading reminder settings:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.STORAGE_READ_FAILED,
+        'Failed to load your reminder settings.',
+        undefined,
+        err
+      )));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  /**
+   * Save reminder preferences to the profile
+   *
+   * @returns {Promise<boolean>} Whether the settings were saved
+   */
+  const saveSettings = useCallback(async (changes: Partial<ReminderSettings>): Promise<boolean> => {
+    const client = supabase;
+    if (!user || !client) return false;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: updateError } = await client
+        .from('profiles')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('user_id', user.id);
+
+      if (updateError) throw updateError;
+
+      setSettings(current => (current ? { ...current, ...changes } : current));
+      return true;
+    } catch (err) {
+      console.error('Error saving reminder settings:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.STORAGE_WRITE_FAILED,
+        'Failed to save your reminder settings. Please try again.',
+        undefined,
+        err
+      )));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [user]);
+
+  /**
+   * Turn reminders on, subscribing this browser to push messages, or off
+   *
+   * @returns {Promise<boolean>} Whether the change was saved
+   */
+  const setRemindersEnabled = useCallback(async (enabled: boolean): Promise<boolean> => {
+    const client = supabase;
+    if (!user || !client) return false;
+
+    setError(null);
+
+    try {
+      if (enabled) {
+        const subscription = await subscribeToPush();
+        setPermission(getNotificationPermission());
+
+        const { error: subscribeError } = await client
+          .from('push_subscriptions')
+          .upsert(
+            { user_id: user.id, ...subscription, user_agent: navigator.userAgent },
+            { onConflict: 'user_id,endpoint' }
+          );
+
+        if (subscribeError) throw subscribeError;
+      } else {
+        const endpoint = await unsubscribeFromPush();
+        if (endpoint) {
+          await client.from('push_subscriptions').delete().eq('user_id', user.id).eq('endpoint', endpoint);
+        }
+      }
+    } catch (err) {
+      console.error('Error updating push subscription:', err);
+      setPermission(getNotificationPermission());
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.UNKNOWN_ERROR,
+        err instanceof Error ? err.message : 'Failed to turn on notifications.',
+        undefined,
+        err
+      )));
+      return false;
+    }
+
+    return saveSettings({ reminder_enabled: enabled });
+  }, [user, saveSettings]);
+
+  return {
+    settings,
+    isLoading,
+    isSaving,
+    error,
+    permission,
+    isPushSupported: isPushSupported(),
+    saveSettings,
+    setRemindersEnabled,
+    reload: loadSettings
+  };
+}
@@ -15,12 +15,16 @@ export function useStripe() {
   const [error, setError] = useState<string | null>(null);
 
   /**
-   * Create a checkout session for subscription
+   * Create a checkout session for a subscription or a one-time purchase
    * 
    * @param {string} priceId - Stripe price ID
+   * @param {'payment'|'subscription'} [mode='subscription'] - Checkout mode of the price
    * @returns {Promise<string|null>} Checkout URL or null on failure
    */
-  const createCheckoutSession = useCallback(async (priceId: string): Promise<string | null> => {
+  const createCheckoutSession = useCallback(async (
+    priceId: string,
+    mode: 'payment' | 'subscription' = 'subscription'
+  ): Promise<string | null> => {
     if (!user) {
       setError('You must be logged in to subscribe');
       return null;
@@ -42,9 +46,13 @@ export function useStripe() {
       const { data, error: functionError } = await supabase.functions.invoke('stripe-checkout', {
         body: {
           price_id: priceId,
-          success_url: `${appUrl}/home?subscription=success&session_id={CHECKOUT_SESSION_ID}`,
-          cancel_url: `${appUrl}/premium?subscription=canceled`,
-          mode: 'subscription'
+          success_url: mode === 'subscription'
+            ? `${appUrl}/home?subscription=success&session_id={CHECKOUT_SESSION_ID}`
+            : `${appUrl}/home?purchase=success`,
+          cancel_url: mode === 'subscription'
+            ? `${appUrl}/premium?subscription=canceled`
+            : `${appUrl}/home?purchase=canceled`,
+          mode
         }
       });
 
@@ -78,6 +86,7 @@ export function useStripe() {
 
   /**
    * Handle subscription status check
+   * Verifies the checkout session on the server, which refreshes the profile
    * 
    * @param {string} sessionId - Stripe checkout session ID
    * @returns {Promise<boolean>} Success status
@@ -92,55 +101,29 @@ export function useStripe() {
     setError(null);
 
     try {
-      // Check subscription status in database
-      const { data: subscription, error: subscriptionError } = await supabase
-        .from('stripe_user_subscriptions')
-        .select('subscription_status, price_id')
-        .maybeSingle();
-
-      if (subscriptionError) {
-        console.error('Error checking subscription status:', subscriptionError);
+      // The edge function checks the session belongs to this user and updates the profile
+      const { data, error: functionError } = await supabase.functions.invoke('verify-subscription', {
+        body: { sessionId }
+      });
+
+      if (functionError) {
+        console.error('Error checking subscription status:', functionError);
         throw createAppError(
           ErrorCode.NETWORK_REQUEST_FAILED,
           'Failed to verify subscription status',
-          { subscriptionError }
+          { functionError }
         );
       }
 
-      // If subscription is active, update user profile
-      if (subscription && ['active', 'trialing'].includes(subscription.subscription_status)) {
-        // Determine subscription tier based on price ID
-        const monthlyPriceId = import.meta.env.VITE_STRIPE_PRICE_ID_MONTHLY;
-        const yearlyPriceId = import.meta.env.VITE_STRIPE_PRICE_ID_YEARLY;
-        
-        let subscriptionTier = 'premium';
-        if (subscription.price_id === yearlyPriceId) {
-          subscriptionTier = 'premium_plus';
-        }
-        
-        // Update user profile with subscription status
-        const { error: updateError } = await supabase
-          .from('profiles')
-          .update({
-            subscription_status: 'premium',
-            subscription_tier: subscriptionTier,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', user.id);
-        
-        if (updateError) {
-          console.error('Error updating profile with subscription:', updateError);
-          throw createAppError(
-            ErrorCode.UNKNOWN_ERROR,
-            'Failed to update profile with subscription status',
-            { updateError }
-          );
-        }
-        
-        return true;
+      if (!data.success) {
+        throw createAppError(
+          ErrorCode.UNKNOWN_ERROR,
+          data.error || 'Failed to verify subscription status',
+          { data }
+        );
       }
-      
-      return false;
+
+      return data.entitlements?.plan === 'premium';
     } catch (err) {
       console.error('Error verifying subscription:', err);
       const errorMessage = getUserFriendlyErrorMessage(err);
@@ -0,0 +1,212 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { withRetry } from '../utils/networkUtils';
+import { MAX_RECORDING_SECONDS, getAudioExtension, getRecordingMimeType } from '../utils/voiceRecording';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { VoiceNote } from '../types';
+
+export type VoiceRecorderStatus = 'idle' | 'recording' | 'transcribing';
+
+/**
+ * Custom hook for recording a voice note and transcribing it
+ *
+ * The clip is uploaded to the journal-audio bucket as soon as recording stops
+ * and then transcribed by the transcribe-entry edge function. The note is kept
+ * even when transcription fails, so the user can still save it and type instead.
+ * Recording stops by itself after MAX_RECORDING_SECONDS.
+ *
+ * @param {function} onRecorded - Called with the uploaded note and its transcript
+ * @returns {Object} Recorder state and functions to start, stop and discard
+ *
+ * @example
+ * const { start, stop, status } = useVoiceRecorder((note, transcript) => {
+ *   setVoiceNote(note);
+ *   appendText(transcript);
+ * });
+ */
+export function useVoiceRecorder(onRecorded: (note: VoiceNote, transcript: string) => void) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [status, setStatus] = useState<VoiceRecorderStatus>('idle');
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const startedAtRef = useRef(0);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const isSupported = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  /**
+   * Upload a finished recording and transcribe it
+   */
+  const finishRecording = useCallback(async (audio: Blob, durationSeconds: number) => {
+    const client = supabase;
+    if (!client || !userId) return;
+
+    setStatus('transcribing');
+    const path = `${userId}/${Date.now()}_${Math.random().toString(36).substring(7)}.${getAudioExtension(audio.type)}`;
+
+    try {
+      await withRetry(async () => {
+        const { error: uploadError } = await client.storage
+          .from('journal-audio')
+          .upload(path, audio, { contentType: audio.type || 'audio/webm', upsert: false });
+
+        if (uploadError) throw uploadError;
+      }, 'Upload voice note');
+    } catch (err) {
+      console.error('Error uploading voice note:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_UPLOAD_FAILED,
+        'Failed to save your recording. Please try again.',
+        undefined,
+        err
+      )));
+      setStatus('idle');
+      return;
+    }
+
+    const note: VoiceNote = { path, durationSeconds };
+
+    try {
+      const { data, error: functionError } = await client.functions.invoke('transcribe-entry', {
+        body: { path }
+      });
+
+      if (functionError || !data?.success) {
+        throw functionError || new Error(data?.error || 'Transcription failed');
+      }
+
+      onRecordedRef.current(note, typeof data.text === 'string' ? data.text : '');
+    } catch (err) {
+      console.error('Error transcribing voice note:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_TRANSCRIPTION_FAILED,
+        "We couldn't transcribe your recording. It's still attached, so you can type your entry instead.",
+        { path },
+        err
+      )));
+      onRecordedRef.current(note, '');
+    } finally {
+      setStatus('idle');
+    }
+  }, [userId]);
+
+  /**
+   * Stop recording; the clip is then uploaded and transcribed
+   */
+  const stop = useCallback(() => {
+    clearTimer();
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  /**
+   * Ask for the microphone and start recording
+   */
+  const start = useCallback(async () => {
+    if (!isSupported || recorderRef.current) return;
+
+    setError(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error('Microphone access denied:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.MEDIA_RECORDING_FAILED,
+        'Allow microphone access to record a voice note.',
+        undefined,
+        err
+      )));
+      return;
+    }
+
+    const mimeType = getRecordingMimeType(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+
+      const durationSeconds = Math.min(
+        MAX_RECORDING_SECONDS,
+        Math.round((Date.now() - startedAtRef.current) / 1000)
+      );
+      const audio = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' });
+
+      if (audio.size === 0) {
+        setStatus('idle');
+        return;
+      }
+      finishRecording(audio, durationSeconds);
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsedSeconds(0);
+    setStatus('recording');
+    recorder.start(1000);
+
+    timerRef.current = setInterval(() => {
+      const elapsed = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      setElapsedSeconds(elapsed);
+      if (elapsed >= MAX_RECORDING_SECONDS) stop();
+    }, 250);
+  }, [isSupported, finishRecording, stop]);
+
+  /**
+   * Delete an uploaded voice note that won't be saved with an entry
+   *
+   * @param {string} path - Path of the clip within journal-audio
+   */
+  const discard = useCallback(async (path: string) => {
+    const client = supabase;
+    if (!client) return;
+
+    setError(null);
+    const { error: removeError } = await client.storage.from('journal-audio').remove([path]);
+    if (removeError) {
+      console.warn('Voice note could not be removed:', removeError);
+    }
+  }, []);
+
+  // Release the microphone if the form goes away mid-recording
+  useEffect(() => () => {
+    clearTimer();
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  return {
+    status,
+    elapsedSeconds,
+    error,
+    isSupported,
+    start,
+    stop,
+    discard
+  };
+}
@@ -62,7 +62,7 @@ export function useVoiceSynthesis() {
       : trimmedText;
     
     // Check if user has premium access
-    if (!trackFeatureUsage('voice-synthesis', 1)) {
+    if (!trackFeatureUsage('voice-synthesis')) {
       setError('Daily limit reached. Upgrade to Premium for unlimited voice playback.');
       setIsProcessing(false);
       return null;
@@ -96,8 +96,7 @@ export function useVoiceSynthesis() {
         },
         body: JSON.stringify({
           text: processedText,
-          save_to_storage: saveToStorage,
-          user_id: userId
+          save_to_storage: saveToStorage
         })
       });
       clearInterval(progressInterval);
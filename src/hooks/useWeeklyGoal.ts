@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { withRetry } from '../utils/networkUtils';
+import { ErrorCode, createAppError, getUserFriendlyErrorMessage } from '../types/errors';
+import { WeeklyGoalProgress } from '../utils/weeklyGoal';
+
+/**
+ * Custom hook for loading weekly goal progress from the get_weekly_goal_progress RPC
+ *
+ * Weeks are measured in the database from all of the user's entries, so the
+ * ring and history match on every device.
+ *
+ * @param {number} [weeks=12] - Number of past weeks to include in the history
+ * @returns {Object} Progress, loading and error state, and a reload function
+ *
+ * @example
+ * const { progress, reload } = useWeeklyGoal();
+ */
+export function useWeeklyGoal(weeks = 12) {
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<WeeklyGoalProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProgress = useCallback(async () => {
+    if (!user) return;
+
+    if (!supabase) {
+      setError('Supabase client not initialized. Please connect to Supabase first.');
+      return;
+    }
+
+    const client = supabase;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await withRetry(async () => {
+        const { data, error: rpcError } = await client.rpc('get_weekly_goal_progress', {
+          p_weeks: weeks
+        });
+
+        if (rpcError) throw rpcError;
+        return data as WeeklyGoalProgress;
+      }, 'Load weekly goal progress');
+
+      setProgress(data);
+    } catch (err) {
+      console.error('Error loading weekly goal progress:', err);
+      setError(getUserFriendlyErrorMessage(createAppError(
+        ErrorCode.JOURNAL_LOAD_FAILED,
+        'Failed to load your weekly goal. Please try again.',
+        undefined,
+        err
+      )));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, weeks]);
+
+  useEffect(() => {
+    loadProgress();
+  }, [loadProgress]);
+
+  return {
+    progress,
+    isLoading,
+    error,
+    reload: loadProgress
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * App lock settings and unlock checks for this device
+ *
+ * The lock keeps people who pick up an unlocked device out of the journal. It
+ * is stored per user in localStorage because it belongs to the device, not the
+ * account: a PIN set on a family tablet shouldn't be asked for on a phone.
+ * Only a PBKDF2 hash of the PIN is kept. WebAuthn is used as a local
+ * user-verification check with a platform authenticator (Touch ID, Windows
+ * Hello, Android screen lock); there is no server side to it.
+ */
+
+import { safeStorage } from '../types/errors';
+import { fromBase64, generateSalt, toBase64 } from './journalCrypto';
+
+const STORAGE_PREFIX = 'zensai-app-lock:';
+const PIN_ITERATIONS = 200_000;
+const PIN_HASH_BITS = 256;
+
+/** Idle minutes offered in settings */
+export const IDLE_TIMEOUT_OPTIONS = [1, 5, 15, 30];
+
+/** Wrong PINs allowed before unlocking is paused */
+export const MAX_PIN_ATTEMPTS = 5;
+
+/** How long unlocking is paused after too many wrong PINs, doubling each time */
+export const PIN_LOCKOUT_MS = 30_000;
+
+export type AppLockMethod = 'pin' | 'webauthn';
+
+/**
+ * App lock settings for one user on this device
+ * @interface AppLockSettings
+ */
+export interface AppLockSettings {
+  method: AppLockMethod;
+  /** Minutes without activity before the app locks again */
+  idleMinutes: number;
+  pinHash?: string;
+  pinSalt?: string;
+  /** Base64 id of the platform credential registered for the lock */
+  credentialId?: string;
+  /** Wrong PINs since the last successful unlock */
+  failedAttempts?: number;
+  /** When the PIN can be tried again after too many wrong ones */
+  retryAt?: string | null;
+}
+
+/**
+ * Load the app lock settings for a user, or null when the lock is off
+ */
+export function loadAppLockSettings(userId: string): AppLockSettings | null {
+  return safeStorage.getItem<AppLockSettings | null>(`${STORAGE_PREFIX}${userId}`, null);
+}
+
+/**
+ * Store the app lock settings for a user
+ */
+export function saveAppLockSettings(userId: string, settings: AppLockSettings): boolean {
+  return safeStorage.setItem(`${STORAGE_PREFIX}${userId}`, settings);
+}
+
+/**
+ * Turn the app lock off for a user
+ */
+export function clearAppLockSettings(userId: string): boolean {
+  return safeStorage.removeItem(`${STORAGE_PREFIX}${userId}`);
+}
+
+/**
+ * Whether a PIN has the accepted shape: 4 to 8 digits
+ */
+export function isValidPin(pin: string): boolean {
+  return /^\d{4,8}$/.test(pin);
+}
+
+/**
+ * Hash a PIN for storage
+ *
+ * @param {string} pin - The PIN
+ * @param {string} salt - Base64 salt, stored next to the hash
+ * @returns {Promise<string>} Base64 PBKDF2-SHA256 hash
+ */
+export async function hashPin(pin: string, salt: string): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations: PIN_ITERATIONS },
+    material,
+    PIN_HASH_BITS
+  );
+  return toBase64(new Uint8Array(bits));
+}
+
+/**
+ * Settings fields for a new PIN
+ */
+export async function createPinSettings(pin: string): Promise<Pick<AppLockSettings, 'pinHash' | 'pinSalt'>> {
+  const pinSalt = generateSalt();
+  return { pinSalt, pinHash: await hashPin(pin, pinSalt) };
+}
+
+/**
+ * Check a PIN against the stored hash
+ */
+export async function verifyPin(pin: string, settings: AppLockSettings): Promise<boolean> {
+  if (!settings.pinHash || !settings.pinSalt) return false;
+
+  const candidate = await hashPin(pin, settings.pinSalt);
+  // Compare every character so the time taken doesn't reveal how much matched
+  let difference = candidate.length ^ settings.pinHash.length;
+  for (let i = 0; i < candidate.length; i++) {
+    difference |= candidate.charCodeAt(i) ^ settings.pinHash.charCodeAt(i % settings.pinHash.length);
+  }
+  return difference === 0;
+}
+
+/**
+ * How long to pause unlocking after a wrong PIN
+ *
+ * @param {number} failedAttempts - Wrong PINs so far, including this one
+ * @returns {number} Milliseconds to wait, 0 until MAX_PIN_ATTEMPTS is reached
+ */
+export function getPinRetryDelay(failedAttempts: number): number {
+  if (failedAttempts < MAX_PIN_ATTEMPTS || failedAttempts % MAX_PIN_ATTEMPTS !== 0) return 0;
+  return PIN_LOCKOUT_MS * 2 ** (failedAttempts / MAX_PIN_ATTEMPTS - 1);
+}
+
+/**
+ * Whether this device has a platform authenticator that can verify the user
+ */
+export async function isPlatformAuthenticatorAvailable(): Promise<boolean> {
+  if (typeof window === 'undefined' || !window.PublicKeyCredential) return false;
+
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register a platform credential for the app lock
+ *
+ * @param {string} userId - Signed in user, used as the credential's user handle
+ * @param {string} userName - Name shown by the authenticator, e.g. the email
+ * @returns {Promise<string>} Base64 credential id to store in the settings
+ * @throws {Error} When the user cancels or the device refuses
+ */
+export async function registerPlatformCredential(userId: string, userName: string): Promise<string> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rp: { name: 'Zensai', id: window.location.hostname },
+      user: {
+        id: new TextEncoder().encode(userId),
+        name: userName,
+        displayName: userName
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 },
+        { type: 'public-key', alg: -257 }
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: 'platform',
+        userVerification: 'required',
+        residentKey: 'discouraged'
+      },
+      timeout: 60_000,
+      attestation: 'none'
+    }
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('No credential was created');
+  }
+
+  return toBase64(new Uint8Array(credential.rawId));
+}
+
+/**
+ * Ask the platform authenticator to verify the user
+ *
+ * @param {string} credentialId - Id returned by registerPlatformCredential
+ * @returns {Promise<boolean>} Whether the user was verified
+ */
+export async function verifyPlatformCredential(credentialId: string): Promise<boolean> {
+  try {
+    const assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        rpId: window.location.hostname,
+        allowCredentials: [{ type: 'public-key', id: fromBase64(credentialId), transports: ['internal'] }],
+        userVerification: 'required',
+        timeout: 60_000
+      }
+    }) as PublicKeyCredential | null;
+
+    return !!assertion;
+  } catch (err) {
+    console.warn('Device unlock was cancelled or failed:', err);
+    return false;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * End-to-end encryption for the private journal
+ *
+ * Entries are encrypted with a random AES-GCM journal key. The key is stored
+ * in journal_keys twice, wrapped with a key derived from the user's passphrase
+ * and with one derived from their recovery code, so changing the passphrase
+ * only re-wraps the key. Everything here runs in the browser with WebCrypto.
+ */
+
+/** Prefix of every encrypted title and content, followed by "<iv>:<ciphertext>" */
+export const ENVELOPE_PREFIX = 'zenc:v1:';
+
+/** PBKDF2-SHA256 iterations for new passphrases and recovery codes */
+export const PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const RECOVERY_CODE_BYTES = 20;
+
+// Crockford base32, which has no I, L, O or U to misread
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encode bytes as base64
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+/**
+ * A random salt for PBKDF2, base64 encoded
+ */
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/**
+ * Derive the key that wraps the journal key from a passphrase or recovery code
+ *
+ * @param {string} secret - Passphrase, or a normalized recovery code
+ * @param {string} salt - Base64 salt stored with the wrapped key
+ * @param {number} iterations - PBKDF2 iterations stored with the wrapped key
+ * @returns {Promise<CryptoKey>} An AES-GCM key that can only wrap and unwrap keys
+ */
+export async function deriveWrappingKey(secret: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Create a new random journal key
+ *
+ * The key is extractable only so it can be wrapped again when the passphrase
+ * or recovery code changes.
+ */
+export async function generateJournalKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']);
+}
+
+/**
+ * Wrap a journal key for storage
+ *
+ * @param {CryptoKey} key - Journal key to wrap
+ * @param {CryptoKey} wrappingKey - Key derived from a passphrase or recovery code, or another journal key
+ * @returns {Promise<string>} "<iv>.<wrapped key>", both base64
+ */
+export async function wrapJournalKey(key: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(wrapped))}`;
+}
+
+/**
+ * Unwrap a stored journal key
+ *
+ * @param {string} wrapped - Value written by wrapJournalKey
+ * @param {CryptoKey} wrappingKey - The key it was wrapped with
+ * @returns {Promise<CryptoKey>} The journal key
+ * @throws {DOMException} OperationError when the wrapping key is wrong
+ */
+export async function unwrapJournalKey(wrapped: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  const [iv, data] = wrapped.split('.');
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(data),
+    wrappingKey,
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Whether a stored value is ciphertext written by encryptText
+ */
+export function isEncryptedText(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Encrypt text with the journal key
+ *
+ * @param {string} plaintext - Text to encrypt
+ * @param {CryptoKey} key - Journal key
+ * @returns {Promise<string>} "zenc:v1:<iv>:<ciphertext>"
+ */
+export async function encryptText(plaintext: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return `${ENVELOPE_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt text written by encryptText
+ *
+ * @param {string} envelope - Stored ciphertext
+ * @param {CryptoKey} key - Journal key it was encrypted with
+ * @returns {Promise<string>} The plaintext
+ * @throws {Error} When the value isn't ciphertext, or the key is wrong or the text was altered
+ */
+export async function decryptText(envelope: string, key: CryptoKey): Promise<string> {
+  if (!isEncryptedText(envelope)) {
+    throw new Error('Value is not encrypted journal text');
+  }
+
+  const [iv, data] = envelope.slice(ENVELOPE_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+  return decoder.decode(plaintext);
+}
+
+/**
+ * A new recovery code, shown to the user once, e.g. "8F3K-2Q9V-..."
+ */
+export function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES));
+  let bits = 0;
+  let value = 0;
+  let code = '';
+
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      code += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+
+  return code.match(/.{1,4}/g)!.join('-');
+}
+
+/**
+ * Normalize a recovery code as typed, so spacing, dashes, case and
+ * look-alike letters don't matter
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+}
+
+/**
+ * Count words the way the database does for plaintext entries
+ */
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
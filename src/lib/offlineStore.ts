@@ -0,0 +1,227 @@
+/**
+ * IndexedDB store for offline journaling
+ *
+ * Holds the in-progress draft for each user and a queue of entry changes that
+ * could not be sent to Supabase yet. The queue is replayed in order by
+ * useJournalEntries once the connection returns.
+ */
+
+const DB_NAME = 'zensai-offline';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+const QUEUE_STORE = 'syncQueue';
+
+export interface JournalDraft {
+  userId: string;
+  title: string;
+  content: string;
+  /** Selected mood level (1-5), if any */
+  mood: number | null;
+  updatedAt: string;
+}
+
+/**
+ * Entry columns that can be written while offline
+ */
+export interface QueuedEntryFields {
+  content: string;
+  title: string | null;
+  mood: string;
+  tags: string[];
+  affirmation_text: string | null;
+  affirmation_audio_url: string | null;
+  affirmation_source: string | null;
+  /** Set for private journal entries, whose title and content are queued encrypted */
+  is_encrypted?: boolean;
+  key_version?: number | null;
+  search_opt_in?: boolean;
+  search_text?: string | null;
+  ai_opt_in?: boolean;
+  word_count?: number;
+  /** Voice note uploaded while the entry was written */
+  voice_audio_url?: string | null;
+  voice_duration_seconds?: number | null;
+}
+
+export type QueuedOperationType = 'add' | 'update' | 'delete';
+
+export interface QueuedOperation {
+  /** Auto-incremented key, which is also the replay order */
+  id?: number;
+  userId: string;
+  entryId: string;
+  type: QueuedOperationType;
+  /** When the user made the change */
+  queuedAt: string;
+  /** updated_at of the entry the change was made against; null for new entries */
+  baseUpdatedAt: string | null;
+  fields: Partial<QueuedEntryFields>;
+  /** Photo to upload with a new entry */
+  photo?: File | null;
+  /** Stored photo to remove when a delete is replayed */
+  photoUrl?: string | null;
+  attempts: number;
+  lastError?: string;
+}
+
+type QueueListener = () => void;
+
+const queueListeners = new Set<QueueListener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether IndexedDB can be used in this browser
+ */
+export function isOfflineStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          db.createObjectStore(DRAFTS_STORE, { keyPath: 'userId' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+          queue.createIndex('userId', 'userId');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request against one object store
+ */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyQueueListeners() {
+  queueListeners.forEach(listener => listener());
+}
+
+/**
+ * Save the user's in-progress entry
+ *
+ * @param {JournalDraft} draft - Draft to store, replacing any previous one
+ */
+export async function saveDraft(draft: JournalDraft): Promise<void> {
+  if (!isOfflineStoreAvailable()) return;
+  await runRequest(DRAFTS_STORE, 'readwrite', store => store.put(draft));
+}
+
+/**
+ * Load the user's in-progress entry, if one was saved
+ *
+ * @param {string} userId - Owner of the draft
+ * @returns {Promise<JournalDraft|null>} The draft or null
+ */
+export async function loadDraft(userId: string): Promise<JournalDraft | null> {
+  if (!isOfflineStoreAvailable()) return null;
+  const draft = await runRequest<JournalDraft | undefined>(DRAFTS_STORE, 'readonly', store => store.get(userId));
+  return draft ?? null;
+}
+
+/**
+ * Remove the user's draft once it has been saved or queued
+ *
+ * @param {string} userId - Owner of the draft
+ */
+export async function deleteDraft(userId: string): Promise<void> {
+  if (!isOfflineStoreAvailable()) return;
+  await runRequest(DRAFTS_STORE, 'readwrite', store => store.delete(userId));
+}
+
+/**
+ * Add a change to the end of the sync queue
+ *
+ * @param {QueuedOperation} operation - Change to replay later
+ */
+export async function enqueueOperation(operation: QueuedOperation): Promise<void> {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.add(operation));
+  notifyQueueListeners();
+}
+
+/**
+ * Get a user's queued changes in the order they were made
+ *
+ * @param {string} userId - Owner of the changes
+ * @returns {Promise<QueuedOperation[]>} Queued changes, oldest first
+ */
+export async function getQueuedOperations(userId: string): Promise<QueuedOperation[]> {
+  if (!isOfflineStoreAvailable()) return [];
+  const operations = await runRequest<QueuedOperation[]>(
+    QUEUE_STORE,
+    'readonly',
+    store => store.index('userId').getAll(userId)
+  );
+  return operations.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Store a queued change again, e.g. after a failed attempt
+ *
+ * @param {QueuedOperation} operation - Change with its id set
+ */
+export async function updateQueuedOperation(operation: QueuedOperation): Promise<void> {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.put(operation));
+  notifyQueueListeners();
+}
+
+/**
+ * Remove changes from the queue once they are synced or discarded
+ *
+ * @param {number[]} ids - Keys of the changes to remove
+ */
+export async function removeQueuedOperations(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(QUEUE_STORE);
+    ids.forEach(id => store.delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  notifyQueueListeners();
+}
+
+/**
+ * Listen for changes to the sync queue from any hook instance
+ *
+ * @param {function} listener - Called after every queue change
+ * @returns {function} Unsubscribe function
+ */
+export function subscribeToQueue(listener: QueueListener): () => void {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+}
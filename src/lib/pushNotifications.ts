@@ -0,0 +1,96 @@
+/**
+ * Web Push subscription helpers
+ *
+ * Subscribes the browser to push messages signed with the VAPID key the
+ * send-reminders edge function uses. public/sw.js shows them.
+ */
+
+import { getServiceWorkerRegistration } from './serviceWorker';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+/**
+ * Subscription keys as stored in push_subscriptions
+ */
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * Whether this browser can receive push reminders and a VAPID key is configured
+ */
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window
+    && !!VAPID_PUBLIC_KEY;
+}
+
+/**
+ * Current notification permission, or 'unsupported'
+ */
+export function getNotificationPermission(): NotificationPermission | 'unsupported' {
+  return isPushSupported() ? Notification.permission : 'unsupported';
+}
+
+/**
+ * Decode a base64url VAPID key for PushManager.subscribe
+ */
+export function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+/**
+ * Ask for notification permission and subscribe this browser to push messages
+ *
+ * @returns {Promise<PushSubscriptionKeys>} The subscription to store
+ * @throws {Error} When push is unsupported or permission is denied
+ */
+export async function subscribeToPush(): Promise<PushSubscriptionKeys> {
+  if (!isPushSupported() || !VAPID_PUBLIC_KEY) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was denied');
+  }
+
+  const registration = await getServiceWorkerRegistration();
+  await navigator.serviceWorker.ready;
+
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+    });
+
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys?.auth) {
+    throw new Error('Push subscription is missing its keys');
+  }
+
+  return { endpoint: json.endpoint, p256dh: json.keys.p256dh, auth: json.keys.auth };
+}
+
+/**
+ * Unsubscribe this browser from push messages
+ *
+ * @returns {Promise<string|null>} The endpoint that was removed, if any
+ */
+export async function unsubscribeFromPush(): Promise<string | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return null;
+
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+}
@@ -0,0 +1,50 @@
+/**
+ * Service worker registration
+ *
+ * public/sw.js precaches the app shell, serves offline.html when the app
+ * can't load, caches journal photos and audio, and shows push reminders.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+// Must match MEDIA_CACHE in public/sw.js
+const MEDIA_CACHE = 'zensai-media';
+
+/**
+ * Whether this browser supports service workers
+ */
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Get the service worker registration, registering it if needed
+ *
+ * @returns {Promise<ServiceWorkerRegistration>} The active registration
+ */
+export async function getServiceWorkerRegistration(): Promise<ServiceWorkerRegistration> {
+  const existing = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return existing ?? navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/**
+ * Register the service worker once the page has loaded, so precaching doesn't
+ * compete with the first render
+ */
+export function registerServiceWorker(): void {
+  if (!isServiceWorkerSupported()) return;
+
+  window.addEventListener('load', () => {
+    getServiceWorkerRegistration().catch(error => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+
+/**
+ * Remove cached journal photos and audio, e.g. when the user signs out
+ */
+export async function clearMediaCache(): Promise<void> {
+  if (typeof caches === 'undefined') return;
+  await caches.delete(MEDIA_CACHE);
+}
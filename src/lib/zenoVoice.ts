@@ -0,0 +1,116 @@
+// Client for Zeno's voice session edge functions
+// Provider API keys stay on the server; every call is made as the signed-in user.
+
+import { supabase, SUPABASE_FUNCTIONS_URL } from './supabase';
+
+export interface ZenoChatTurn {
+  role: 'user' | 'zeno';
+  text: string;
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  if (!supabase) {
+    throw new Error('Supabase client not initialized. Please connect to Supabase first.');
+  }
+
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+
+  if (!token) {
+    throw new Error('You need to be signed in to talk to Zeno.');
+  }
+
+  return { Authorization: `Bearer ${token}` };
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  try {
+    const payload = await response.json();
+    return new Error(payload?.error || fallback);
+  } catch {
+    return new Error(fallback);
+  }
+}
+
+/**
+ * Transcribe one recorded turn of a session
+ *
+ * @returns {Promise<string>} The transcript, or an empty string if nothing was heard
+ */
+export async function transcribeZenoAudio(sessionId: string, audio: Blob): Promise<string> {
+  const formData = new FormData();
+  formData.append('session_id', sessionId);
+  formData.append('audio', audio, 'audio.webm');
+
+  const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/zeno-transcribe`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to transcribe audio.');
+  }
+
+  const data = await response.json();
+  return typeof data?.text === 'string' ? data.text : '';
+}
+
+/**
+ * Ask Zeno for a reply, calling onChunk as the text streams in
+ *
+ * @returns {Promise<string>} The full reply once the stream has finished
+ */
+export async function streamZenoReply(
+  sessionId: string,
+  messages: ZenoChatTurn[],
+  onChunk?: (textSoFar: string) => void
+): Promise<string> {
+  const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/zeno-chat`, {
+    method: 'POST',
+    headers: {
+      ...(await getAuthHeaders()),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ session_id: sessionId, messages }),
+  });
+
+  if (!response.ok || !response.body) {
+    throw await readError(response, 'Zeno could not reply right now.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let reply = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    reply += decoder.decode(value, { stream: true });
+    onChunk?.(reply);
+  }
+
+  return reply.trim();
+}
+
+/**
+ * Turn Zeno's reply into speech using the generate-speech edge function
+ */
+export async function synthesizeZenoSpeech(text: string): Promise<Blob> {
+  const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/generate-speech`, {
+    method: 'POST',
+    headers: {
+      ...(await getAuthHeaders()),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ text }),
+  });
+
+  // generate-speech answers with JSON when it fails and audio when it succeeds
+  if (!response.ok || response.headers.get('Content-Type')?.includes('application/json')) {
+    throw await readError(response, "Failed to play Zeno's voice.");
+  }
+
+  return response.blob();
+}
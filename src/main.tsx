@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client';
 import * as Sentry from '@sentry/react';
 import { BrowserTracing } from '@sentry/tracing';
 import App from './App.tsx';
+import { registerServiceWorker } from './lib/serviceWorker';
 import './index.css';
 
 // Initialize Sentry
@@ -28,6 +29,11 @@ Sentry.init({
   debug: import.meta.env.DEV,
 });
 
+// Installable app: offline shell, media caching and push reminders
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
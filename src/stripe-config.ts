@@ -27,6 +27,19 @@ export const stripeProducts: StripeProduct[] = [
   }
 ];
 
+/**
+ * One-time purchase of a single streak freeze, offered only when a price is configured
+ */
+export const streakFreezeProduct: StripeProduct | undefined = import.meta.env.VITE_STRIPE_PRICE_ID_STREAK_FREEZE
+  ? {
+      id: 'streak-freeze',
+      priceId: import.meta.env.VITE_STRIPE_PRICE_ID_STREAK_FREEZE,
+      name: 'Streak Freeze',
+      description: 'Keep your streak through one missed day or week.',
+      mode: 'payment'
+    }
+  : undefined;
+
 /**
  * Get a product by its price ID
  * 
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '../../utils';
+import TagInput from '../../../components/journal/TagInput';
+import { MAX_TAGS_PER_ENTRY } from '../../../utils/tagUtils';
+
+describe('TagInput', () => {
+  it('renders existing tags as chips', () => {
+    render(<TagInput tags={['work', 'sleep']} onTagsChange={vi.fn()} />);
+
+    expect(screen.getByText('#work')).toBeInTheDocument();
+    expect(screen.getByText('#sleep')).toBeInTheDocument();
+  });
+
+  it('adds a normalized tag when Enter is pressed', () => {
+    const mockOnTagsChange = vi.fn();
+    render(<TagInput tags={['work']} onTagsChange={mockOnTagsChange} />);
+
+    const input = screen.getByRole('textbox');
+    fireEvent.change(input, { target: { value: '  #Family ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(mockOnTagsChange).toHaveBeenCalledWith(['work', 'family']);
+  });
+
+  it('does not add duplicate tags', () => {
+    const mockOnTagsChange = vi.fn();
+    render(<TagInput tags={['work']} onTagsChange={mockOnTagsChange} />);
+
+    const input = screen.getByRole('textbox');
+    fireEvent.change(input, { target: { value: 'WORK' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(mockOnTagsChange).toHaveBeenCalledWith(['work']);
+  });
+
+  it('removes a tag when its remove button is clicked', () => {
+    const mockOnTagsChange = vi.fn();
+    render(<TagInput tags={['work', 'sleep']} onTagsChange={mockOnTagsChange} />);
+
+    fireEvent.click(screen.getByLabelText('Remove tag work'));
+
+    expect(mockOnTagsChange).toHaveBeenCalledWith(['sleep']);
+  });
+
+  it('offers unused suggestions as quick picks', () => {
+    const mockOnTagsChange = vi.fn();
+    render(
+      <TagInput
+        tags={['work']}
+        onTagsChange={mockOnTagsChange}
+        suggestions={['work', 'family']}
+      />
+    );
+
+    expect(screen.queryByText('+ work')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('+ family'));
+
+    expect(mockOnTagsChange).toHaveBeenCalledWith(['work', 'family']);
+  });
+
+  it('disables the input once the tag limit is reached', () => {
+    const tags = Array.from({ length: MAX_TAGS_PER_ENTRY }, (_, i) => `tag-${i}`);
+    render(<TagInput tags={tags} onTagsChange={vi.fn()} />);
+
+    expect(screen.getByRole('textbox')).toBeDisabled();
+    expect(screen.getByText(`You can add up to ${MAX_TAGS_PER_ENTRY} tags per entry`)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TrendPoint,
+  buildHeatmapWeeks,
+  getHeatmapLevel,
+  getMoodDifference,
+  getTrendCoordinates,
+  toDateKey
+} from '../../utils/analyticsUtils';
+
+describe('analyticsUtils', () => {
+  describe('buildHeatmapWeeks', () => {
+    // Wednesday 10 July 2024
+    const today = new Date(2024, 6, 10);
+
+    it('ends with the current week, Sunday first, and pads future days', () => {
+      const weeks = buildHeatmapWeeks([], today, 2);
+
+      expect(weeks).toHaveLength(2);
+      expect(weeks[1][0].date).toBe('2024-07-07');
+      expect(weeks[1][3]).toMatchObject({ date: '2024-07-10', inRange: true });
+      expect(weeks[1][4]).toMatchObject({ date: '2024-07-11', inRange: false });
+      expect(weeks[0][0].date).toBe('2024-06-30');
+    });
+
+    it('fills in entry counts by date', () => {
+      const weeks = buildHeatmapWeeks([{ date: '2024-07-08', entries: 3 }], today, 1);
+      expect(weeks[0].map(cell => cell.entries)).toEqual([0, 3, 0, 0, 0, 0, 0]);
+    });
+  });
+
+  it('buckets entry counts into heatmap levels', () => {
+    expect([0, 1, 2, 3, 4, 9].map(getHeatmapLevel)).toEqual([0, 1, 2, 3, 3, 4]);
+  });
+
+  it('compares mood with and without a feature', () => {
+    expect(getMoodDifference({ average_mood: 4.25, entries: 4 }, { average_mood: 3.5, entries: 10 })).toBe(0.75);
+    expect(getMoodDifference({ average_mood: null, entries: 0 }, { average_mood: 3.5, entries: 10 })).toBeNull();
+  });
+
+  it('places trend points by date and mood', () => {
+    const today = new Date(2024, 6, 10);
+    const trend: TrendPoint[] = [
+      { date: '2024-07-01', average_mood: 1, entries: 1, words: 10 },
+      { date: '2024-07-05', average_mood: null, entries: 0, words: 0 },
+      { date: toDateKey(today), average_mood: 5, entries: 2, words: 40 }
+    ];
+
+    const points = getTrendCoordinates(trend, today, 10, 90, 100);
+
+    expect(points).toEqual([
+      { x: 0, y: 100, point: trend[0] },
+      { x: 90, y: 0, point: trend[2] }
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPinSettings,
+  getPinRetryDelay,
+  isValidPin,
+  MAX_PIN_ATTEMPTS,
+  PIN_LOCKOUT_MS,
+  verifyPin
+} from '../../lib/appLock';
+
+describe('isValidPin', () => {
+  it('accepts 4 to 8 digits', () => {
+    expect(isValidPin('1234')).toBe(true);
+    expect(isValidPin('12345678')).toBe(true);
+  });
+
+  it('rejects short, long and non-numeric PINs', () => {
+    expect(isValidPin('123')).toBe(false);
+    expect(isValidPin('123456789')).toBe(false);
+    expect(isValidPin('12a4')).toBe(false);
+    expect(isValidPin('')).toBe(false);
+  });
+});
+
+describe('verifyPin', () => {
+  it('accepts the PIN that was set and nothing else', async () => {
+    const pinFields = await createPinSettings('2468');
+    const settings = { method: 'pin' as const, idleMinutes: 5, ...pinFields };
+
+    expect(settings.pinHash).not.toContain('2468');
+    await expect(verifyPin('2468', settings)).resolves.toBe(true);
+    await expect(verifyPin('2469', settings)).resolves.toBe(false);
+  });
+
+  it('fails when no PIN is stored', async () => {
+    await expect(verifyPin('2468', { method: 'webauthn', idleMinutes: 5 })).resolves.toBe(false);
+  });
+});
+
+describe('getPinRetryDelay', () => {
+  it('does not pause before the attempt limit', () => {
+    for (let attempts = 1; attempts < MAX_PIN_ATTEMPTS; attempts++) {
+      expect(getPinRetryDelay(attempts)).toBe(0);
+    }
+  });
+
+  it('pauses at each multiple of the limit, doubling each time', () => {
+    expect(getPinRetryDelay(MAX_PIN_ATTEMPTS)).toBe(PIN_LOCKOUT_MS);
+    expect(getPinRetryDelay(MAX_PIN_ATTEMPTS + 1)).toBe(0);
+    expect(getPinRetryDelay(MAX_PIN_ATTEMPTS * 2)).toBe(PIN_LOCKOUT_MS * 2);
+    expect(getPinRetryDelay(MAX_PIN_ATTEMPTS * 3)).toBe(PIN_LOCKOUT_MS * 4);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { AUTH_TIMEOUT_MESSAGE, getAuthError, getAuthRedirectError } from '../../utils/authErrors';
+import { ErrorCode } from '../../types/errors';
+
+describe('getAuthError', () => {
+  it('maps Supabase error codes', () => {
+    expect(getAuthError({ code: 'same_password', message: 'whatever' }, 'Failed').code).toBe(ErrorCode.AUTH_SAME_PASSWORD);
+    expect(getAuthError({ code: 'identity_already_exists' }, 'Failed').code).toBe(ErrorCode.AUTH_IDENTITY_ALREADY_LINKED);
+    expect(getAuthError({ code: 'over_email_send_rate_limit' }, 'Failed').code).toBe(ErrorCode.AUTH_TOO_MANY_REQUESTS);
+    expect(getAuthError({ code: 'mfa_verification_failed' }, 'Failed').code).toBe(ErrorCode.AUTH_MFA_INVALID_CODE);
+    expect(getAuthError({ code: 'invalid_recovery_code' }, 'Failed').code).toBe(ErrorCode.AUTH_RECOVERY_CODE_INVALID);
+  });
+
+  it('falls back to the message when there is no code', () => {
+    const error = getAuthError({ message: 'Invalid login credentials' }, 'Failed');
+    expect(error.code).toBe(ErrorCode.AUTH_INVALID_CREDENTIALS);
+    expect(error.message).toBe('Invalid email or password. Please check your credentials.');
+  });
+
+  it('recognises timeouts and network failures', () => {
+    expect(getAuthError(new Error(AUTH_TIMEOUT_MESSAGE), 'Failed').code).toBe(ErrorCode.NETWORK_REQUEST_FAILED);
+    expect(getAuthError(new TypeError('Failed to fetch'), 'Failed').code).toBe(ErrorCode.NETWORK_ERROR);
+  });
+
+  it('uses the fallback message for anything else', () => {
+    const error = getAuthError({ code: 'unexpected_failure', message: 'Boom' }, 'Login failed.');
+    expect(error.code).toBe(ErrorCode.UNKNOWN_ERROR);
+    expect(error.message).toBe('Login failed.');
+    expect(getAuthError(undefined, 'Login failed.').message).toBe('Login failed.');
+  });
+});
+
+describe('getAuthRedirectError', () => {
+  it('reads an expired link from the hash', () => {
+    const error = getAuthRedirectError(
+      '#error=access_denied&error_code=otp_expired&error_description=Email+link+is+invalid+or+has+expired',
+      ''
+    );
+    expect(error?.code).toBe(ErrorCode.AUTH_LINK_EXPIRED);
+  });
+
+  it('reads errors from the query string', () => {
+    const error = getAuthRedirectError('', '?view=settings&error=server_error&error_code=identity_already_exists');
+    expect(error?.code).toBe(ErrorCode.AUTH_IDENTITY_ALREADY_LINKED);
+  });
+
+  it('ignores successful redirects', () => {
+    expect(getAuthRedirectError('#access_token=abc&type=recovery', '')).toBeNull();
+    expect(getAuthRedirectError('', '?view=settings')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { Entitlements, getTrialStatus, hasFeature } from '../../utils/entitlements';
+
+const trial: Entitlements = {
+  plan: 'trial',
+  tier: 'free',
+  trial_ends_at: '2025-07-08T00:00:00.000Z',
+  expires_at: null,
+  features: { 'voice-synthesis': true, 'photo-upload': true }
+};
+
+describe('hasFeature', () => {
+  it('reads the server flag for the feature', () => {
+    expect(hasFeature(trial, 'voice-synthesis')).toBe(true);
+    expect(hasFeature({ ...trial, plan: 'free', features: { 'voice-synthesis': false } }, 'voice-synthesis')).toBe(false);
+  });
+
+  it('keeps features off until entitlements load or when unknown', () => {
+    expect(hasFeature(null, 'voice-synthesis')).toBe(false);
+    expect(hasFeature(trial, 'advanced-analytics')).toBe(false);
+  });
+});
+
+describe('getTrialStatus', () => {
+  it('counts part days as a whole day left', () => {
+    expect(getTrialStatus(trial, new Date('2025-07-05T12:00:00Z'))).toEqual({
+      isActive: true,
+      daysRemaining: 3,
+      trialEndDate: '2025-07-08T00:00:00.000Z'
+    });
+  });
+
+  it('reports an ended trial with no days left', () => {
+    const status = getTrialStatus({ ...trial, plan: 'free' }, new Date('2025-07-20T00:00:00Z'));
+
+    expect(status).toMatchObject({ isActive: false, daysRemaining: 0 });
+  });
+
+  it('returns null without a trial to report', () => {
+    expect(getTrialStatus(null)).toBeNull();
+    expect(getTrialStatus({ ...trial, trial_ends_at: null })).toBeNull();
+  });
+});
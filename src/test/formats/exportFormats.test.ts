@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExportedEntry,
+  entriesToCsv,
+  entryToMarkdown,
+  escapeCsvValue,
+  getEntryFileNames
+} from '../../utils/exportFormats';
+import { createZip, crc32 } from '../../utils/zip';
+
+const createEntry = (overrides: Partial<ExportedEntry> = {}): ExportedEntry => ({
+  id: 'a1b2c3d4-0000-0000-0000-000000000000',
+  title: 'Morning Walk',
+  content: 'Walked by the river.',
+  mood: 'good',
+  created_at: new Date(2025, 6, 4, 9, 30).toISOString(),
+  tags: ['outdoors', 'health'],
+  ...overrides
+});
+
+describe('exportFormats', () => {
+  describe('escapeCsvValue', () => {
+    it('quotes values containing commas, quotes or newlines', () => {
+      expect(escapeCsvValue('plain')).toBe('plain');
+      expect(escapeCsvValue('a, b')).toBe('"a, b"');
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+    });
+  });
+
+  describe('entriesToCsv', () => {
+    it('writes a header and one row per entry', () => {
+      const csv = entriesToCsv([createEntry({ title: 'Rainy, but fine' })]);
+
+      expect(csv).toBe('date,mood,title,tags\r\n2025-07-04,good,"Rainy, but fine",outdoors health\r\n');
+    });
+  });
+
+  describe('entryToMarkdown', () => {
+    it('renders front-matter followed by the entry body', () => {
+      const markdown = entryToMarkdown(createEntry({ affirmation_text: 'You are enough.' }));
+
+      expect(markdown.startsWith('---\nid: a1b2c3d4')).toBe(true);
+      expect(markdown).toContain('title: "Morning Walk"');
+      expect(markdown).toContain('tags: ["outdoors", "health"]');
+      expect(markdown).toContain('# Morning Walk\n\nWalked by the river.');
+      expect(markdown).toContain('> You are enough.');
+    });
+
+    it('links bundled media', () => {
+      const markdown = entryToMarkdown(createEntry(), { photo: '../photos/walk.jpg', audio: '../audio/walk.mp3' });
+
+      expect(markdown).toContain('photo: "../photos/walk.jpg"');
+      expect(markdown).toContain('affirmation_audio: "../audio/walk.mp3"');
+      expect(markdown).toContain('![Photo](../photos/walk.jpg)');
+    });
+  });
+
+  describe('getEntryFileNames', () => {
+    it('builds unique date-and-title names', () => {
+      const names = getEntryFileNames([
+        createEntry({ id: 'one' }),
+        createEntry({ id: 'two' }),
+        createEntry({ id: 'three-id-long', title: null })
+      ]);
+
+      expect(names.get('one')).toBe('2025-07-04-morning-walk');
+      expect(names.get('two')).toBe('2025-07-04-morning-walk-2');
+      expect(names.get('three-id-long')).toBe('2025-07-04-three-id');
+    });
+  });
+});
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes local headers, a central directory and an end record', () => {
+    const archive = createZip([
+      { name: 'entries/a.md', data: 'hello' },
+      { name: 'photos/b.jpg', data: new Uint8Array([1, 2, 3]) }
+    ]);
+    const view = new DataView(archive.buffer);
+
+    // First local file header
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(18, true)).toBe(5);
+
+    // End of central directory record
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getOutputType,
+  getScaledSize,
+  MAX_GIF_BYTES,
+  MAX_IMAGE_DIMENSION,
+  renameForType,
+  validateImageFile
+} from '../../utils/imageProcessing';
+import { ErrorCode } from '../../types/errors';
+
+const fileOfSize = (name: string, type: string, size: number) => {
+  const file = new File(['x'], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('getScaledSize', () => {
+  it('fits the longest side within the limit and keeps the aspect ratio', () => {
+    expect(getScaledSize(4096, 3072)).toEqual({ width: MAX_IMAGE_DIMENSION, height: 1536 });
+    expect(getScaledSize(1000, 4000, 1000)).toEqual({ width: 250, height: 1000 });
+  });
+
+  it('never enlarges small photos', () => {
+    expect(getScaledSize(640, 480)).toEqual({ width: 640, height: 480 });
+  });
+});
+
+describe('getOutputType and renameForType', () => {
+  it('keeps PNG and WebP and turns everything else into JPEG', () => {
+    expect(getOutputType('image/png')).toBe('image/png');
+    expect(getOutputType('image/webp')).toBe('image/webp');
+    expect(getOutputType('image/jpeg')).toBe('image/jpeg');
+    expect(getOutputType('image/heic')).toBe('image/jpeg');
+  });
+
+  it('gives the file an extension that matches its new type', () => {
+    expect(renameForType('IMG_0001.HEIC', 'image/jpeg')).toBe('IMG_0001.jpg');
+    expect(renameForType('beach.png', 'image/png')).toBe('beach.png');
+    expect(renameForType('.jpeg', 'image/webp')).toBe('photo.webp');
+  });
+});
+
+describe('validateImageFile', () => {
+  it('accepts large photos that will be resized', () => {
+    expect(validateImageFile(fileOfSize('big.jpg', 'image/jpeg', 12 * 1024 * 1024))).toBeNull();
+  });
+
+  it('rejects files that are not supported images', () => {
+    expect(validateImageFile(fileOfSize('notes.pdf', 'application/pdf', 1024))?.code)
+      .toBe(ErrorCode.MEDIA_INVALID_TYPE);
+  });
+
+  it('keeps the smaller limit for GIFs, which are not resized', () => {
+    expect(validateImageFile(fileOfSize('fun.gif', 'image/gif', MAX_GIF_BYTES + 1))?.code)
+      .toBe(ErrorCode.MEDIA_TOO_LARGE);
+  });
+});
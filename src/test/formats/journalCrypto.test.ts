@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countWords,
+  decryptText,
+  deriveWrappingKey,
+  encryptText,
+  generateJournalKey,
+  generateRecoveryCode,
+  generateSalt,
+  isEncryptedText,
+  normalizeRecoveryCode,
+  unwrapJournalKey,
+  wrapJournalKey
+} from '../../lib/journalCrypto';
+
+// Real passphrases use PBKDF2_ITERATIONS; a low count keeps the tests fast
+const TEST_ITERATIONS = 1000;
+
+describe('encryptText', () => {
+  it('round-trips text through the journal key', async () => {
+    const key = await generateJournalKey();
+    const envelope = await encryptText('Walked by the river 🌊', key);
+
+    expect(isEncryptedText(envelope)).toBe(true);
+    expect(envelope).not.toContain('river');
+    await expect(decryptText(envelope, key)).resolves.toBe('Walked by the river 🌊');
+  });
+
+  it('uses a fresh IV every time', async () => {
+    const key = await generateJournalKey();
+    expect(await encryptText('same', key)).not.toBe(await encryptText('same', key));
+  });
+
+  it('fails with another key', async () => {
+    const envelope = await encryptText('secret', await generateJournalKey());
+    await expect(decryptText(envelope, await generateJournalKey())).rejects.toThrow();
+  });
+
+  it('rejects plaintext', async () => {
+    expect(isEncryptedText('just words')).toBe(false);
+    await expect(decryptText('just words', await generateJournalKey())).rejects.toThrow('not encrypted');
+  });
+});
+
+describe('wrapJournalKey', () => {
+  it('unwraps with the same passphrase only', async () => {
+    const salt = generateSalt();
+    const key = await generateJournalKey();
+    const wrapped = await wrapJournalKey(key, await deriveWrappingKey('correct horse', salt, TEST_ITERATIONS));
+
+    const unwrapped = await unwrapJournalKey(wrapped, await deriveWrappingKey('correct horse', salt, TEST_ITERATIONS));
+    await expect(decryptText(await encryptText('hello', key), unwrapped)).resolves.toBe('hello');
+
+    await expect(
+      unwrapJournalKey(wrapped, await deriveWrappingKey('wrong horse', salt, TEST_ITERATIONS))
+    ).rejects.toThrow();
+  });
+
+  it('wraps an old key with the new one during rotation', async () => {
+    const oldKey = await generateJournalKey();
+    const newKey = await generateJournalKey();
+    const envelope = await encryptText('before rotation', oldKey);
+
+    const previous = await unwrapJournalKey(await wrapJournalKey(oldKey, newKey), newKey);
+    await expect(decryptText(envelope, previous)).resolves.toBe('before rotation');
+  });
+});
+
+describe('recovery codes', () => {
+  it('are grouped and use an unambiguous alphabet', () => {
+    const code = generateRecoveryCode();
+    expect(code).toMatch(/^([0-9A-HJKMNP-TV-Z]{4}-){7}[0-9A-HJKMNP-TV-Z]{4}$/);
+    expect(generateRecoveryCode()).not.toBe(code);
+  });
+
+  it('ignore case, spacing and look-alike letters', () => {
+    expect(normalizeRecoveryCode('ab1o - xyzl')).toBe(normalizeRecoveryCode('AB10XYZ1'));
+  });
+});
+
+describe('countWords', () => {
+  it('counts whitespace separated words', () => {
+    expect(countWords('  Walked along\nthe river  ')).toBe(4);
+    expect(countWords('   ')).toBe(0);
+  });
+});
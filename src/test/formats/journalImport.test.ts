@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ImportFile,
+  getDuplicateKey,
+  markDuplicates,
+  parseFrontMatter,
+  parseImportFiles,
+  parseMood
+} from '../../utils/journalImport';
+import { ExportedEntry, entryToMarkdown } from '../../utils/exportFormats';
+import { createZip, readZip } from '../../utils/zip';
+
+const encoder = new TextEncoder();
+
+const textFile = (path: string, text: string, lastModified?: number): ImportFile => ({
+  path,
+  data: encoder.encode(text),
+  lastModified
+});
+
+const jsonFile = (path: string, value: unknown): ImportFile => textFile(path, JSON.stringify(value));
+
+const exportedEntry = (overrides: Partial<ExportedEntry> = {}): ExportedEntry => ({
+  id: 'a1b2c3d4-0000-0000-0000-000000000000',
+  title: 'Morning Walk',
+  content: 'Walked by the river.',
+  mood: 'good',
+  created_at: '2025-07-04T09:30:00.000Z',
+  tags: ['outdoors'],
+  affirmation_text: 'I move with ease.',
+  ...overrides
+});
+
+describe('journalImport', () => {
+  describe('parseMood', () => {
+    it('accepts our moods, synonyms and 1-5 ratings', () => {
+      expect(parseMood('Amazing')).toBe('amazing');
+      expect(parseMood('okay')).toBe('neutral');
+      expect(parseMood(1)).toBe('struggling');
+      expect(parseMood('4')).toBe('good');
+      expect(parseMood('confused')).toBeNull();
+    });
+  });
+
+  describe('parseFrontMatter', () => {
+    it('reads quoted values, inline lists and block lists', () => {
+      const { data, body } = parseFrontMatter(
+        '---\ntitle: "A \\"quoted\\" day"\ntags: [one, "two"]\nmoods:\n  - good\n  - low\n---\nBody text\n'
+      );
+
+      expect(data.title).toBe('A "quoted" day');
+      expect(data.tags).toEqual(['one', 'two']);
+      expect(data.moods).toEqual(['good', 'low']);
+      expect(body).toBe('Body text\n');
+    });
+  });
+
+  describe('parseImportFiles', () => {
+    it('parses a Day One export with photos', () => {
+      const { entries } = parseImportFiles([
+        jsonFile('Journal.json', {
+          metadata: { version: '1.0' },
+          entries: [{
+            uuid: 'DAY1',
+            creationDate: '2024-03-01T08:00:00Z',
+            text: '# Trip\\. Day one\n\nWe arrived\\! ![](dayone-moment://PHOTO1)',
+            tags: ['Travel'],
+            photos: [{ identifier: 'PHOTO1', md5: 'abc123', type: 'jpeg' }]
+          }]
+        }),
+        { path: 'photos/abc123.jpeg', data: new Uint8Array([1, 2, 3]) }
+      ]);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        source: 'dayone',
+        title: 'Trip. Day one',
+        content: 'We arrived!',
+        mood: 'neutral',
+        created_at: '2024-03-01T08:00:00.000Z',
+        tags: ['travel']
+      });
+      expect(entries[0].photo?.name).toBe('abc123.jpeg');
+    });
+
+    it('parses Journey entries with HTML text and sentiment', () => {
+      const { entries } = parseImportFiles([
+        jsonFile('1700000000000-abc.json', {
+          id: '1700000000000-abc',
+          date_journal: Date.UTC(2023, 10, 14, 22, 13),
+          text: '<p>Great run &amp; a swim</p><p>Felt strong</p>',
+          sentiment: 0.8,
+          photos: ['1700000000000-abc.jpg'],
+          tags: []
+        }),
+        { path: '1700000000000-abc.jpg', data: new Uint8Array([9]) }
+      ]);
+
+      expect(entries[0]).toMatchObject({
+        source: 'journey',
+        title: null,
+        content: 'Great run & a swim\nFelt strong',
+        mood: 'amazing',
+        created_at: '2023-11-14T22:13:00.000Z'
+      });
+      expect(entries[0].photo?.name).toBe('1700000000000-abc.jpg');
+    });
+
+    it('parses a Markdown folder, taking the date from the file name when needed', () => {
+      const { entries } = parseImportFiles([
+        textFile('journal/2024-05-02 garden.md', '# Garden\n\nPlanted tomatoes.\n\n![](img/tomato.png)\n'),
+        textFile('journal/notes.md', '---\ntitle: Notes\ndate: 2024-05-03T10:00:00Z\nmood: low\ntags: [work]\n---\nLong day.\n'),
+        { path: 'journal/img/tomato.png', data: new Uint8Array([4]) }
+      ]);
+
+      expect(entries.map(entry => entry.title)).toEqual(['Garden', 'Notes']);
+      expect(entries[0].content).toBe('Planted tomatoes.');
+      expect(entries[0].photo?.name).toBe('tomato.png');
+      expect(new Date(entries[0].created_at).getDate()).toBe(2);
+      expect(entries[1]).toMatchObject({ mood: 'low', tags: ['work'], created_at: '2024-05-03T10:00:00.000Z' });
+    });
+
+    it('round-trips our own Markdown export', () => {
+      const entry = exportedEntry();
+      const { entries } = parseImportFiles([
+        textFile('entries/2025-07-04-morning-walk.md', entryToMarkdown(entry, { photo: '../photos/2025-07-04-morning-walk.jpg' })),
+        { path: 'photos/2025-07-04-morning-walk.jpg', data: new Uint8Array([7]) }
+      ]);
+
+      expect(entries[0]).toMatchObject({
+        title: 'Morning Walk',
+        content: 'Walked by the river.',
+        mood: 'good',
+        created_at: entry.created_at,
+        tags: ['outdoors'],
+        affirmation_text: 'I move with ease.'
+      });
+      expect(entries[0].photo?.name).toBe('2025-07-04-morning-walk.jpg');
+    });
+
+    it('prefers journal.json in our ZIP export and only reuses the user\'s own storage paths', () => {
+      const { entries } = parseImportFiles([
+        jsonFile('journal.json', {
+          journal_entries: [
+            exportedEntry({ photo_url: 'user-1/photo.jpg', affirmation_audio_url: 'user-1/audio.mp3' }),
+            exportedEntry({ id: 'b', title: null, created_at: '2025-07-05T09:30:00.000Z', photo_url: 'user-2/photo.jpg' })
+          ]
+        }),
+        textFile('entries/2025-07-04-morning-walk.md', entryToMarkdown(exportedEntry()))
+      ], 'user-1');
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ source: 'zensai', photo_path: 'user-1/photo.jpg', affirmation_audio_path: 'user-1/audio.mp3' });
+      expect(entries[1].photo_path).toBeNull();
+    });
+
+    it('ignores hidden files and reports unreadable ones', () => {
+      const { entries, warnings } = parseImportFiles([
+        textFile('__MACOSX/._entry.md', 'junk'),
+        textFile('broken.json', '{ not json')
+      ]);
+
+      expect(entries).toHaveLength(0);
+      expect(warnings).toHaveLength(1);
+    });
+  });
+
+  describe('markDuplicates', () => {
+    it('flags entries already in the journal or repeated in the import', () => {
+      const { entries } = parseImportFiles([
+        jsonFile('journal.json', {
+          journal_entries: [
+            exportedEntry(),
+            exportedEntry({ id: 'b', created_at: '2025-07-05T09:30:00.000Z' }),
+            exportedEntry({ id: 'c', created_at: '2025-07-05T09:30:00.400Z' })
+          ]
+        })
+      ]);
+
+      const existing = new Set([getDuplicateKey('2025-07-04T09:30:00+00:00', '  walked by the   river. ')]);
+      expect(markDuplicates(entries, existing).map(entry => entry.duplicate)).toEqual([true, false, true]);
+    });
+  });
+
+  describe('readZip', () => {
+    it('reads back archives written by createZip', async () => {
+      const archive = createZip([
+        { name: 'entries/a.md', data: 'héllo' },
+        { name: 'photos/a.jpg', data: new Uint8Array([1, 2, 3]) }
+      ]);
+
+      const files = await readZip(archive);
+      expect(files.map(file => file.name)).toEqual(['entries/a.md', 'photos/a.jpg']);
+      expect(new TextDecoder().decode(files[0].data as Uint8Array)).toBe('héllo');
+      expect(Array.from(files[1].data as Uint8Array)).toEqual([1, 2, 3]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { Session } from '@supabase/supabase-js';
+import { getAssuranceLevel, isMfaChallengePending, sanitizeTotpCode } from '../../utils/mfa';
+
+const toBase64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const createToken = (claims: object) => `${toBase64Url({ alg: 'HS256' })}.${toBase64Url(claims)}.signature`;
+
+const createSession = (aal: string, factorStatuses: string[]) => ({
+  access_token: createToken({ sub: 'user-1', aal }),
+  user: {
+    id: 'user-1',
+    factors: factorStatuses.map((status, index) => ({ id: `factor-${index}`, status, factor_type: 'totp' }))
+  }
+}) as unknown as Session;
+
+describe('getAssuranceLevel', () => {
+  it('reads the aal claim', () => {
+    expect(getAssuranceLevel(createToken({ aal: 'aal1' }))).toBe('aal1');
+    expect(getAssuranceLevel(createToken({ aal: 'aal2' }))).toBe('aal2');
+  });
+
+  it('returns null for tokens it cannot read', () => {
+    expect(getAssuranceLevel('not-a-token')).toBeNull();
+    expect(getAssuranceLevel('a.%%%.c')).toBeNull();
+    expect(getAssuranceLevel(createToken({ sub: 'user-1' }))).toBeNull();
+  });
+});
+
+describe('isMfaChallengePending', () => {
+  it('is pending when a verified factor has not been used yet', () => {
+    expect(isMfaChallengePending(createSession('aal1', ['verified']))).toBe(true);
+  });
+
+  it('is not pending after the second factor', () => {
+    expect(isMfaChallengePending(createSession('aal2', ['verified']))).toBe(false);
+  });
+
+  it('ignores unfinished enrollments', () => {
+    expect(isMfaChallengePending(createSession('aal1', []))).toBe(false);
+    expect(isMfaChallengePending(createSession('aal1', ['unverified']))).toBe(false);
+    expect(isMfaChallengePending(null)).toBe(false);
+  });
+});
+
+describe('sanitizeTotpCode', () => {
+  it('keeps six digits from pasted codes', () => {
+    expect(sanitizeTotpCode('123 456')).toBe('123456');
+    expect(sanitizeTotpCode('1234567')).toBe('123456');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  estimateEntropyBits,
+  evaluatePassword,
+  isCommonPassword,
+  isPasswordBreached,
+  type BreachedPasswordProvider
+} from '../../../supabase/functions/_shared/passwordPolicy.ts';
+
+// SHA-1 of "password" is 5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8
+const createProvider = (suffixes: string[]): BreachedPasswordProvider => ({
+  name: 'fake',
+  getSuffixes: vi.fn(async () => suffixes)
+});
+
+describe('isCommonPassword', () => {
+  it('catches common passwords behind digits, symbols and substitutions', () => {
+    expect(isCommonPassword('123456789')).toBe(true);
+    expect(isCommonPassword('Password2024!')).toBe(true);
+    expect(isCommonPassword('p@ssw0rd')).toBe(true);
+    expect(isCommonPassword('Sunshine99')).toBe(true);
+  });
+
+  it('leaves passwords that only contain a common word alone', () => {
+    expect(isCommonPassword('zen-garden-lantern')).toBe(false);
+  });
+});
+
+describe('estimateEntropyBits', () => {
+  it('discounts repeats and runs', () => {
+    expect(estimateEntropyBits('aaaaaaaaaaaa')).toBeLessThan(estimateEntropyBits('qmzvtrkwpxhb') / 3);
+    expect(estimateEntropyBits('abcdefghijkl')).toBeLessThan(estimateEntropyBits('qmzvtrkwpxhb') / 3);
+  });
+});
+
+describe('evaluatePassword', () => {
+  it('accepts a long passphrase', () => {
+    const result = evaluatePassword('quiet river morning tea');
+    expect(result.isAcceptable).toBe(true);
+    expect(result.score).toBe(4);
+  });
+
+  it('rejects short, common and predictable passwords', () => {
+    expect(evaluatePassword('Xq9!vT2').problems).toContain('too_short');
+    expect(evaluatePassword('Password2024!').problems).toEqual(['common']);
+    expect(evaluatePassword('aaaaaaaaaaaaaa').problems).toEqual(['weak']);
+  });
+
+  it("rejects passwords built on the user's name or email", () => {
+    const result = evaluatePassword('margaret-in-spring', { email: 'margaret@example.com' });
+    expect(result.problems).toEqual(['personal']);
+    expect(result.score).toBeLessThanOrEqual(1);
+  });
+
+  it('rejects passwords bcrypt would truncate', () => {
+    expect(evaluatePassword('x7'.repeat(40)).problems).toContain('too_long');
+  });
+});
+
+describe('isPasswordBreached', () => {
+  it('only sends the first five characters of the hash', async () => {
+    const provider = createProvider(['1E4C9B93F3F0682250B6CF8331B7EE68FD8']);
+
+    await expect(isPasswordBreached('password', provider)).resolves.toBe(true);
+    expect(provider.getSuffixes).toHaveBeenCalledWith('5BAA6');
+  });
+
+  it('passes passwords whose suffix is not listed', async () => {
+    const provider = createProvider(['0000000000000000000000000000000000A']);
+    await expect(isPasswordBreached('password', provider)).resolves.toBe(false);
+  });
+});
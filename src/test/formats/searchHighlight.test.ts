@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { HIGHLIGHT_END, HIGHLIGHT_START, splitHighlights, stripHighlights } from '../../utils/searchHighlight';
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+describe('searchHighlight', () => {
+  it('splits text into plain and highlighted runs', () => {
+    expect(splitHighlights(`A ${mark('calm')} morning by the ${mark('sea')}`)).toEqual([
+      { text: 'A ', highlighted: false },
+      { text: 'calm', highlighted: true },
+      { text: ' morning by the ', highlighted: false },
+      { text: 'sea', highlighted: true }
+    ]);
+  });
+
+  it('returns plain text as a single run', () => {
+    expect(splitHighlights('No matches here')).toEqual([{ text: 'No matches here', highlighted: false }]);
+    expect(splitHighlights('')).toEqual([]);
+  });
+
+  it('removes markers', () => {
+    expect(stripHighlights(`${mark('Walk')} in the ${mark('park')}`)).toBe('Walk in the park');
+  });
+});
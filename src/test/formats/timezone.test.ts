@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getDateInTimezone, getTimezoneOptions, isValidTimezone } from '../../utils/timezone';
+
+describe('getDateInTimezone', () => {
+  it('uses the local day west of UTC in the evening', () => {
+    // 23:30 in New York, already the next day in UTC
+    const instant = new Date('2025-03-10T03:30:00Z');
+    expect(getDateInTimezone('America/New_York', instant)).toBe('2025-03-09');
+    expect(getDateInTimezone('UTC', instant)).toBe('2025-03-10');
+  });
+
+  it('uses the local day east of UTC in the morning', () => {
+    expect(getDateInTimezone('Pacific/Auckland', new Date('2025-04-06T19:00:00Z'))).toBe('2025-04-07');
+  });
+
+  it('falls back to UTC for unknown timezones', () => {
+    expect(getDateInTimezone('Mars/Olympus_Mons', new Date('2025-03-10T03:30:00Z'))).toBe('2025-03-10');
+  });
+});
+
+describe('timezone options', () => {
+  it('validates names and always offers UTC and the saved timezone', () => {
+    expect(isValidTimezone('Europe/London')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+
+    const options = getTimezoneOptions('America/Denver');
+    expect(options).toContain('UTC');
+    expect(options).toContain('America/Denver');
+  });
+});
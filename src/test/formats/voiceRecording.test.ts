@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, getAudioExtension, getRecordingMimeType } from '../../utils/voiceRecording';
+
+describe('getRecordingMimeType', () => {
+  it('prefers WebM with Opus when the browser supports it', () => {
+    expect(getRecordingMimeType(() => true)).toBe('audio/webm;codecs=opus');
+  });
+
+  it('falls back to MP4 on browsers that only record MP4', () => {
+    expect(getRecordingMimeType(type => type === 'audio/mp4')).toBe('audio/mp4');
+  });
+
+  it('lets the browser choose when nothing on the list is supported', () => {
+    expect(getRecordingMimeType(() => false)).toBeNull();
+  });
+});
+
+describe('getAudioExtension', () => {
+  it('matches the container, ignoring codecs', () => {
+    expect(getAudioExtension('audio/webm;codecs=opus')).toBe('webm');
+    expect(getAudioExtension('audio/mp4')).toBe('m4a');
+    expect(getAudioExtension('audio/ogg; codecs=opus')).toBe('ogg');
+    expect(getAudioExtension('')).toBe('webm');
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats seconds as m:ss', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(7.4)).toBe('0:07');
+    expect(formatDuration(300)).toBe('5:00');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatWeekRange, getDaysChange, getGoalRatio, LastWeekSummary, shouldShowWeeklySummary } from '../../utils/weeklyGoal';
+
+const lastWeek: LastWeekSummary = {
+  week_start: '2025-06-09',
+  days_journaled: 4,
+  entries: 5,
+  words: 320,
+  average_mood: 3.8,
+  top_mood: 'good',
+  goal: 3,
+  met: true,
+  frozen: false,
+  previous_days_journaled: 2,
+  previous_entries: 2,
+  previous_average_mood: 3
+};
+
+describe('getGoalRatio', () => {
+  it('fills the ring up to the goal', () => {
+    expect(getGoalRatio(0, 3)).toBe(0);
+    expect(getGoalRatio(2, 4)).toBe(0.5);
+    expect(getGoalRatio(5, 3)).toBe(1);
+  });
+});
+
+describe('formatWeekRange', () => {
+  it('shows Monday to Sunday, across months', () => {
+    expect(formatWeekRange('2025-06-30')).toBe('Jun 30 – Jul 6');
+  });
+});
+
+describe('weekly summary', () => {
+  it('compares days with the week before', () => {
+    expect(getDaysChange(lastWeek)).toBe(2);
+    expect(getDaysChange({ ...lastWeek, previous_days_journaled: null })).toBeNull();
+  });
+
+  it('is offered until dismissed, and only for weeks with entries', () => {
+    expect(shouldShowWeeklySummary(lastWeek, null)).toBe(true);
+    expect(shouldShowWeeklySummary(lastWeek, '2025-06-09')).toBe(false);
+    expect(shouldShowWeeklySummary(lastWeek, '2025-06-02')).toBe(true);
+    expect(shouldShowWeeklySummary({ ...lastWeek, entries: 0 }, null)).toBe(false);
+    expect(shouldShowWeeklySummary(null, null)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  handleCleanupStorage,
+  MAX_CLEANUP_ATTEMPTS,
+  type CleanupStorageDeps,
+  type StorageDeletion
+} from '../../../supabase/functions/cleanup-storage/handler.ts';
+
+const SECRET = 'cron-secret';
+
+const deletion = (id: number, bucket_id: string, object_path: string): StorageDeletion => ({
+  id,
+  bucket_id,
+  object_path,
+  attempts: 0
+});
+
+const createRequest = (token?: string) =>
+  new Request('http://localhost/cleanup-storage', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+
+describe('cleanup-storage handler', () => {
+  let queued: StorageDeletion[];
+  let deps: CleanupStorageDeps;
+
+  beforeEach(() => {
+    queued = [];
+    deps = {
+      cronSecret: SECRET,
+      getQueuedDeletions: vi.fn(async () => queued),
+      removeObjects: vi.fn(async () => undefined),
+      finishDeletions: vi.fn(async () => undefined),
+      failDeletions: vi.fn(async () => undefined)
+    };
+  });
+
+  it('rejects requests without the cron secret', async () => {
+    const missing = await handleCleanupStorage(createRequest(), deps);
+    const wrong = await handleCleanupStorage(createRequest('user-jwt'), deps);
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(deps.getQueuedDeletions).not.toHaveBeenCalled();
+  });
+
+  it('removes queued objects bucket by bucket and clears their rows', async () => {
+    queued = [
+      deletion(1, 'journal-photos', 'user-1/a.jpg'),
+      deletion(2, 'affirmation-audio', 'user-1/a.mp3'),
+      deletion(3, 'journal-photos', 'user-1/b.jpg')
+    ];
+
+    const body = await (await handleCleanupStorage(createRequest(SECRET), deps)).json();
+
+    expect(body).toMatchObject({ success: true, queued: 3, removed: 3, failed: 0 });
+    expect(deps.getQueuedDeletions).toHaveBeenCalledWith(expect.any(Number), MAX_CLEANUP_ATTEMPTS);
+    expect(deps.removeObjects).toHaveBeenCalledWith('journal-photos', ['user-1/a.jpg', 'user-1/b.jpg']);
+    expect(deps.removeObjects).toHaveBeenCalledWith('affirmation-audio', ['user-1/a.mp3']);
+    expect(deps.finishDeletions).toHaveBeenCalledWith([1, 3]);
+    expect(deps.finishDeletions).toHaveBeenCalledWith([2]);
+  });
+
+  it('keeps objects queued when storage refuses them', async () => {
+    queued = [deletion(1, 'journal-photos', 'user-1/a.jpg')];
+    deps.removeObjects = vi.fn(async () => {
+      throw new Error('Storage unavailable');
+    });
+
+    const body = await (await handleCleanupStorage(createRequest(SECRET), deps)).json();
+
+    expect(body).toMatchObject({ success: true, removed: 0, failed: 1 });
+    expect(deps.finishDeletions).not.toHaveBeenCalled();
+    expect(deps.failDeletions).toHaveBeenCalledWith(queued, 'Storage unavailable');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { handleDeleteUserData } from '../../../supabase/functions/delete-user-data/handler.ts';
+import type { AuthClient } from '../../../supabase/functions/_shared/auth.ts';
+
+const OWNER_ID = 'user-123';
+const OTHER_ID = 'user-456';
+
+// A session that passed the second factor; 'valid-token' is a password-only one
+const AAL2_TOKEN = `header.${btoa(JSON.stringify({ sub: OWNER_ID, aal: 'aal2' })).replace(/=+$/, '')}.signature`;
+
+// Auth client that only recognizes those two tokens
+const createAuthStub = (): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async (jwt: string) =>
+      jwt === 'valid-token' || jwt === AAL2_TOKEN
+        ? { data: { user: { id: OWNER_ID } }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    )
+  }
+});
+
+const createRequest = (body: object | null, token?: string) =>
+  new Request('http://localhost/delete-user-data', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+describe('delete-user-data handler', () => {
+  let deleteUserData: Mock<[string], Promise<void>>;
+  let deps: Parameters<typeof handleDeleteUserData>[1];
+
+  beforeEach(() => {
+    deleteUserData = vi.fn<[string], Promise<void>>(async () => undefined);
+    deps = { auth: createAuthStub(), listVerifiedFactors: vi.fn(async () => []), deleteUserData };
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    const response = await handleDeleteUserData(createRequest({ user_id: OWNER_ID }), deps);
+
+    expect(response.status).toBe(401);
+    expect(deleteUserData).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleDeleteUserData(createRequest({ user_id: OWNER_ID }, 'forged-token'), deps);
+
+    expect(response.status).toBe(401);
+    expect(deleteUserData).not.toHaveBeenCalled();
+  });
+
+  it('rejects a user_id that does not match the token', async () => {
+    const response = await handleDeleteUserData(createRequest({ user_id: OTHER_ID }, 'valid-token'), deps);
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.success).toBe(false);
+    expect(deleteUserData).not.toHaveBeenCalled();
+  });
+
+  it('deletes the authenticated user when user_id matches', async () => {
+    const response = await handleDeleteUserData(createRequest({ user_id: OWNER_ID }, 'valid-token'), deps);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(deleteUserData).toHaveBeenCalledWith(OWNER_ID);
+  });
+
+  it('treats a JSON null body like no body', async () => {
+    const request = new Request('http://localhost/delete-user-data', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer valid-token' },
+      body: 'null'
+    });
+
+    const response = await handleDeleteUserData(request, deps);
+
+    expect(response.status).toBe(200);
+    expect(deleteUserData).toHaveBeenCalledWith(OWNER_ID);
+  });
+
+  it('requires the second factor when the user has one', async () => {
+    deps.listVerifiedFactors = vi.fn(async () => ['factor-1']);
+
+    const response = await handleDeleteUserData(createRequest({ user_id: OWNER_ID }, 'valid-token'), deps);
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('insufficient_aal');
+    expect(deleteUserData).not.toHaveBeenCalled();
+  });
+
+  it('deletes an MFA-protected account from a session that passed the second factor', async () => {
+    deps.listVerifiedFactors = vi.fn(async () => ['factor-1']);
+
+    const response = await handleDeleteUserData(createRequest({ user_id: OWNER_ID }, AAL2_TOKEN), deps);
+
+    expect(response.status).toBe(200);
+    expect(deleteUserData).toHaveBeenCalledWith(OWNER_ID);
+  });
+
+  it('reports failures from the deletion itself', async () => {
+    deleteUserData.mockRejectedValueOnce(new Error('Failed to delete user profile: boom'));
+
+    const response = await handleDeleteUserData(createRequest({ user_id: OWNER_ID }, 'valid-token'), deps);
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.error).toBe('Failed to delete user profile: boom');
+  });
+});
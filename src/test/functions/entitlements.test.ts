@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getUserEntitlements,
+  requireFeature,
+  type EntitlementDeps,
+  type Entitlements
+} from '../../../supabase/functions/_shared/entitlements.ts';
+import type { AuthClient } from '../../../supabase/functions/_shared/auth.ts';
+
+const USER_ID = 'user-123';
+
+const freeEntitlements: Entitlements = {
+  plan: 'free',
+  tier: 'free',
+  trial_ends_at: '2025-07-08T00:00:00Z',
+  expires_at: null,
+  features: { 'voice-synthesis': false, 'mood-analyzer': false }
+};
+
+const premiumEntitlements: Entitlements = {
+  plan: 'premium',
+  tier: 'premium_plus',
+  trial_ends_at: '2025-07-08T00:00:00Z',
+  expires_at: '2026-07-01T00:00:00Z',
+  features: { 'voice-synthesis': true, 'mood-analyzer': true }
+};
+
+// Auth client that only recognizes one token
+const createAuthStub = (): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async (jwt: string) =>
+      jwt === 'valid-token'
+        ? { data: { user: { id: USER_ID } }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    )
+  }
+});
+
+const createRequest = (token = 'valid-token') =>
+  new Request('http://localhost/generate-speech', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` }
+  });
+
+describe('requireFeature', () => {
+  let deps: EntitlementDeps;
+
+  beforeEach(() => {
+    deps = {
+      auth: createAuthStub(),
+      getEntitlements: vi.fn(async () => premiumEntitlements)
+    };
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const check = await requireFeature(createRequest('forged'), 'voice-synthesis', deps);
+
+    expect(check.allowed).toBe(false);
+    if (!check.allowed) expect(check.response.status).toBe(401);
+    expect(deps.getEntitlements).not.toHaveBeenCalled();
+  });
+
+  it('refuses a feature the plan does not include', async () => {
+    deps.getEntitlements = vi.fn(async () => freeEntitlements);
+
+    const check = await requireFeature(createRequest(), 'voice-synthesis', deps);
+
+    expect(check.allowed).toBe(false);
+    if (check.allowed) return;
+    expect(check.response.status).toBe(403);
+    expect(await check.response.json()).toMatchObject({
+      success: false,
+      code: 'feature_not_entitled',
+      feature: 'voice-synthesis',
+      plan: 'free'
+    });
+  });
+
+  it('treats features missing from the list as locked', async () => {
+    const check = await requireFeature(createRequest(), 'photo-upload', deps);
+
+    expect(check.allowed).toBe(false);
+  });
+
+  it('lets an entitled user through with their entitlements', async () => {
+    const check = await requireFeature(createRequest(), 'voice-synthesis', deps);
+
+    expect(check).toEqual({ allowed: true, user: { id: USER_ID }, entitlements: premiumEntitlements });
+    expect(deps.getEntitlements).toHaveBeenCalledWith(USER_ID);
+  });
+});
+
+describe('getUserEntitlements', () => {
+  it('calls the service-role RPC for the user', async () => {
+    const rpc = vi.fn(async () => ({ data: premiumEntitlements, error: null }));
+
+    await expect(getUserEntitlements({ rpc }, USER_ID)).resolves.toEqual(premiumEntitlements);
+    expect(rpc).toHaveBeenCalledWith('get_user_entitlements', { p_user_id: USER_ID });
+  });
+
+  it('throws when the RPC fails', async () => {
+    const rpc = vi.fn(async () => ({ data: null, error: { message: 'permission denied' } }));
+
+    await expect(getUserEntitlements({ rpc }, USER_ID)).rejects.toThrow('permission denied');
+  });
+});
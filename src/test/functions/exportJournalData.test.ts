@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { handleExportJournalData, type ExportOptions } from '../../../supabase/functions/export-journal-data/handler.ts';
+import type { AuthClient } from '../../../supabase/functions/_shared/auth.ts';
+
+const OWNER_ID = 'user-123';
+const OTHER_ID = 'user-456';
+
+// A session that passed the second factor; 'valid-token' is a password-only one
+const AAL2_TOKEN = `header.${btoa(JSON.stringify({ sub: OWNER_ID, aal: 'aal2' })).replace(/=+$/, '')}.signature`;
+
+// Auth client that only recognizes those two tokens
+const createAuthStub = (): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async (jwt: string) =>
+      jwt === 'valid-token' || jwt === AAL2_TOKEN
+        ? { data: { user: { id: OWNER_ID } }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    )
+  }
+});
+
+const createRequest = (body: object | null, token?: string) =>
+  new Request('http://localhost/export-journal-data', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+describe('export-journal-data handler', () => {
+  let loadExportData: Mock<[string, ExportOptions], Promise<Record<string, unknown>>>;
+  let deps: Parameters<typeof handleExportJournalData>[1];
+
+  beforeEach(() => {
+    loadExportData = vi.fn<[string, ExportOptions], Promise<Record<string, unknown>>>(async (userId) => ({ profile: { user_id: userId }, journal_entries: [] }));
+    deps = { auth: createAuthStub(), listVerifiedFactors: vi.fn(async () => []), loadExportData };
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    const response = await handleExportJournalData(createRequest({ user_id: OWNER_ID }), deps);
+
+    expect(response.status).toBe(401);
+    expect(loadExportData).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleExportJournalData(createRequest({ user_id: OWNER_ID }, 'forged-token'), deps);
+
+    expect(response.status).toBe(401);
+    expect(loadExportData).not.toHaveBeenCalled();
+  });
+
+  it('rejects a user_id that does not match the token', async () => {
+    const response = await handleExportJournalData(createRequest({ user_id: OTHER_ID }, 'valid-token'), deps);
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.success).toBe(false);
+    expect(loadExportData).not.toHaveBeenCalled();
+  });
+
+  it('exports the authenticated user when user_id matches', async () => {
+    const response = await handleExportJournalData(createRequest({ user_id: OWNER_ID }, 'valid-token'), deps);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.profile.user_id).toBe(OWNER_ID);
+    expect(loadExportData).toHaveBeenCalledWith(OWNER_ID, expect.anything());
+  });
+
+  it('uses the token user when no user_id is sent', async () => {
+    const response = await handleExportJournalData(createRequest(null, 'valid-token'), deps);
+
+    expect(response.status).toBe(200);
+    expect(loadExportData).toHaveBeenCalledWith(OWNER_ID, expect.anything());
+  });
+
+  it('requires the second factor when the user has one', async () => {
+    deps.listVerifiedFactors = vi.fn(async () => ['factor-1']);
+
+    const response = await handleExportJournalData(createRequest(null, 'valid-token'), deps);
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('insufficient_aal');
+    expect(loadExportData).not.toHaveBeenCalled();
+  });
+
+  it('exports an MFA-protected account from a session that passed the second factor', async () => {
+    deps.listVerifiedFactors = vi.fn(async () => ['factor-1']);
+
+    const response = await handleExportJournalData(createRequest(null, AAL2_TOKEN), deps);
+
+    expect(response.status).toBe(200);
+    expect(deps.listVerifiedFactors).not.toHaveBeenCalled();
+  });
+
+  it('passes date range and mood filters through', async () => {
+    const response = await handleExportJournalData(
+      createRequest(
+        {
+          start_date: '2025-06-01T00:00:00.000Z',
+          end_date: '2025-07-01T00:00:00.000Z',
+          moods: ['good', 'amazing'],
+          include_media: true
+        },
+        'valid-token'
+      ),
+      deps
+    );
+
+    expect(response.status).toBe(200);
+    expect(loadExportData).toHaveBeenCalledWith(OWNER_ID, {
+      startDate: '2025-06-01T00:00:00.000Z',
+      endDate: '2025-07-01T00:00:00.000Z',
+      moods: ['good', 'amazing'],
+      includeMedia: true
+    });
+  });
+
+  it('rejects unknown moods and inverted date ranges', async () => {
+    const badMood = await handleExportJournalData(
+      createRequest({ moods: ['ecstatic'] }, 'valid-token'),
+      deps
+    );
+    const badRange = await handleExportJournalData(
+      createRequest({ start_date: '2025-07-01', end_date: '2025-06-01' }, 'valid-token'),
+      deps
+    );
+
+    expect(badMood.status).toBe(400);
+    expect(badRange.status).toBe(400);
+    expect(loadExportData).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  generateRecoveryCode,
+  handleMfaRecoveryCodes,
+  hashRecoveryCode,
+  RECOVERY_CODE_COUNT,
+  type MfaRecoveryCodesDeps
+} from '../../../supabase/functions/mfa-recovery-codes/handler.ts';
+import type { AuthClient } from '../../../supabase/functions/_shared/auth.ts';
+
+const USER_ID = 'user-123';
+
+// Unsigned tokens are fine here: the stub auth client decides which ones are valid
+const createToken = (aal: 'aal1' | 'aal2') =>
+  `header.${btoa(JSON.stringify({ sub: USER_ID, aal })).replace(/=+$/, '')}.signature`;
+
+const VALID_TOKENS = [createToken('aal1'), createToken('aal2')];
+
+const createAuthStub = (): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async (jwt: string) =>
+      VALID_TOKENS.includes(jwt)
+        ? { data: { user: { id: USER_ID } }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    )
+  }
+});
+
+const createRequest = (body: object, token = createToken('aal2')) =>
+  new Request('http://localhost/mfa-recovery-codes', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(body)
+  });
+
+describe('mfa-recovery-codes handler', () => {
+  let storedHashes: string[];
+  let deps: MfaRecoveryCodesDeps;
+
+  beforeEach(() => {
+    storedHashes = [];
+    deps = {
+      auth: createAuthStub(),
+      listVerifiedFactors: vi.fn(async () => ['factor-1']),
+      deleteFactors: vi.fn(async () => {}),
+      replaceCodes: vi.fn(async (_userId: string, hashes: string[]) => {
+        storedHashes = [...hashes];
+      }),
+      countUnusedCodes: vi.fn(async () => storedHashes.length),
+      consumeCode: vi.fn(async (_userId: string, hash: string) => {
+        const index = storedHashes.indexOf(hash);
+        if (index === -1) return false;
+        storedHashes.splice(index, 1);
+        return true;
+      }),
+      deleteCodes: vi.fn(async () => {
+        storedHashes = [];
+      })
+    };
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleMfaRecoveryCodes(createRequest({ action: 'status' }, 'forged'), deps);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('generates codes and stores only their hashes', async () => {
+    const response = await handleMfaRecoveryCodes(createRequest({ action: 'generate' }), deps);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(body.codes).size).toBe(RECOVERY_CODE_COUNT);
+    expect(storedHashes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(storedHashes).not.toContain(body.codes[0]);
+    expect(storedHashes).toContain(await hashRecoveryCode(USER_ID, body.codes[0]));
+  });
+
+  it('only generates codes after the second factor', async () => {
+    const response = await handleMfaRecoveryCodes(createRequest({ action: 'generate' }, createToken('aal1')), deps);
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('insufficient_aal');
+    expect(deps.replaceCodes).not.toHaveBeenCalled();
+  });
+
+  it('needs a verified factor to generate codes', async () => {
+    deps.listVerifiedFactors = vi.fn(async () => []);
+
+    const response = await handleMfaRecoveryCodes(createRequest({ action: 'generate' }), deps);
+
+    expect(response.status).toBe(400);
+    expect(deps.replaceCodes).not.toHaveBeenCalled();
+  });
+
+  it('redeems a code once, however it was typed, and removes the factor', async () => {
+    const generated = await handleMfaRecoveryCodes(createRequest({ action: 'generate' }), deps);
+    const [code] = (await generated.json()).codes as string[];
+    const typed = ` ${code.toLowerCase().replace('-', ' ')} `;
+
+    const response = await handleMfaRecoveryCodes(createRequest({ action: 'redeem', code: typed }, createToken('aal1')), deps);
+
+    expect(response.status).toBe(200);
+    expect(deps.deleteFactors).toHaveBeenCalledWith(USER_ID, ['factor-1']);
+    expect(storedHashes).toHaveLength(0);
+
+    const again = await handleMfaRecoveryCodes(createRequest({ action: 'redeem', code }, createToken('aal1')), deps);
+    expect(again.status).toBe(400);
+    expect((await again.json()).code).toBe('invalid_recovery_code');
+  });
+
+  it('leaves the factor alone for an unknown code', async () => {
+    await handleMfaRecoveryCodes(createRequest({ action: 'generate' }), deps);
+
+    const response = await handleMfaRecoveryCodes(createRequest({ action: 'redeem', code: 'AAAAA-AAAAA' }, createToken('aal1')), deps);
+
+    expect(response.status).toBe(400);
+    expect(deps.deleteFactors).not.toHaveBeenCalled();
+    expect(storedHashes).toHaveLength(RECOVERY_CODE_COUNT);
+  });
+
+  it('reports how many codes are left', async () => {
+    await handleMfaRecoveryCodes(createRequest({ action: 'generate' }), deps);
+
+    const response = await handleMfaRecoveryCodes(createRequest({ action: 'status' }), deps);
+
+    expect((await response.json()).remaining).toBe(RECOVERY_CODE_COUNT);
+  });
+
+  it('formats codes in two groups without lookalike characters', () => {
+    expect(generateRecoveryCode()).toMatch(/^[2-9A-HJ-NP-Z]{5}-[2-9A-HJ-NP-Z]{5}$/);
+  });
+});
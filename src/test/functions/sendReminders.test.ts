@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  handleSendReminders,
+  buildDigestEmail,
+  type DueNotification,
+  type MailMessage,
+  type PushMessage,
+  type PushResult,
+  type PushSubscriptionRecord,
+  type SendRemindersDeps
+} from '../../../supabase/functions/send-reminders/handler.ts';
+
+const SECRET = 'cron-secret';
+
+const reminder: DueNotification = {
+  user_id: 'user-1',
+  kind: 'reminder',
+  sent_for: '2025-06-17',
+  email: 'one@example.com',
+  name: 'One',
+  days_since_entry: 1,
+  digest: null
+};
+
+const digest: DueNotification = {
+  user_id: 'user-2',
+  kind: 'digest',
+  sent_for: '2025-06-16',
+  email: 'two@example.com',
+  name: 'Two',
+  days_since_entry: 5,
+  digest: {
+    week_start: '2025-06-09',
+    days_journaled: 2,
+    entries: 3,
+    words: 120,
+    goal: 3,
+    met: false,
+    top_mood: 'good',
+    current_streak: 0,
+    streak_period: 'week'
+  }
+};
+
+const subscription = (endpoint: string): PushSubscriptionRecord => ({ endpoint, p256dh: 'key', auth: 'secret' });
+
+const createRequest = (token?: string) =>
+  new Request('http://localhost/send-reminders', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+
+describe('send-reminders handler', () => {
+  let due: DueNotification[];
+  let claimed: Set<string>;
+  let pushSend: ReturnType<typeof vi.fn<[PushSubscriptionRecord, PushMessage], Promise<PushResult>>>;
+  let mailSend: ReturnType<typeof vi.fn<[MailMessage], Promise<void>>>;
+  let deps: SendRemindersDeps;
+
+  beforeEach(() => {
+    due = [];
+    claimed = new Set();
+    pushSend = vi.fn<[PushSubscriptionRecord, PushMessage], Promise<PushResult>>(async () => ({ ok: true }));
+    mailSend = vi.fn<[MailMessage], Promise<void>>(async () => undefined);
+    deps = {
+      cronSecret: SECRET,
+      appUrl: 'https://zensai.test',
+      now: () => new Date('2025-06-17T00:30:00Z'),
+      getDueNotifications: vi.fn(async () => due),
+      // Mirrors the unique (user_id, kind, sent_for) constraint
+      claimDelivery: vi.fn(async (notification: DueNotification) => {
+        const key = `${notification.user_id}:${notification.kind}:${notification.sent_for}`;
+        if (claimed.has(key)) return false;
+        claimed.add(key);
+        return true;
+      }),
+      finishDelivery: vi.fn(async () => undefined),
+      getPushSubscriptions: vi.fn(async () => [subscription('https://push.test/a')]),
+      removePushSubscription: vi.fn(async () => undefined),
+      push: { name: 'mock', send: pushSend },
+      mail: { name: 'mock', send: mailSend }
+    };
+  });
+
+  it('rejects requests without the cron secret', async () => {
+    const missing = await handleSendReminders(createRequest(), deps);
+    const wrong = await handleSendReminders(createRequest('user-jwt'), deps);
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(deps.getDueNotifications).not.toHaveBeenCalled();
+  });
+
+  it('pushes reminders and records them as sent', async () => {
+    due = [reminder];
+
+    const response = await handleSendReminders(createRequest(SECRET), deps);
+    const body = await response.json();
+
+    expect(body).toMatchObject({ success: true, due: 1, sent: 1, failed: 0 });
+    expect(pushSend).toHaveBeenCalledWith(
+      subscription('https://push.test/a'),
+      expect.objectContaining({ title: 'Time to journal', url: 'https://zensai.test/home' })
+    );
+    expect(deps.finishDelivery).toHaveBeenCalledWith(reminder, { status: 'sent', channels: ['push'] });
+  });
+
+  it('sends each notification once across overlapping runs', async () => {
+    due = [reminder];
+
+    await handleSendReminders(createRequest(SECRET), deps);
+    const second = await (await handleSendReminders(createRequest(SECRET), deps)).json();
+
+    expect(second).toMatchObject({ sent: 0, skipped: 1 });
+    expect(pushSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes expired subscriptions and fails when nothing was delivered', async () => {
+    due = [reminder];
+    deps.getPushSubscriptions = vi.fn(async () => [subscription('https://push.test/gone')]);
+    pushSend.mockResolvedValue({ ok: false, expired: true });
+
+    const body = await (await handleSendReminders(createRequest(SECRET), deps)).json();
+
+    expect(body).toMatchObject({ sent: 0, failed: 1 });
+    expect(deps.removePushSubscription).toHaveBeenCalledWith('user-1', 'https://push.test/gone');
+    expect(deps.finishDelivery).toHaveBeenCalledWith(reminder, expect.objectContaining({ status: 'failed' }));
+  });
+
+  it('emails digests, and skips them without a mail provider', async () => {
+    due = [digest];
+
+    const sentBody = await (await handleSendReminders(createRequest(SECRET), deps)).json();
+    expect(sentBody).toMatchObject({ sent: 1 });
+    expect(mailSend).toHaveBeenCalledWith(expect.objectContaining({ to: 'two@example.com' }));
+
+    claimed.clear();
+    deps.mail = null;
+    const skippedBody = await (await handleSendReminders(createRequest(SECRET), deps)).json();
+    expect(skippedBody).toMatchObject({ sent: 0, skipped: 1 });
+    expect(deps.claimDelivery).toHaveBeenCalledTimes(1);
+  });
+
+  it('summarizes last week in the digest', () => {
+    const email = buildDigestEmail(digest, 'https://zensai.test');
+
+    expect(email.text).toContain('Last week you journaled on 2 of your 3 goal days.');
+    expect(email.text).toContain('3 entries, 120 words, mostly feeling good.');
+    expect(email.html).toContain('href="https://zensai.test/home"');
+  });
+});
@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  handleStripeWebhook,
+  MAX_WEBHOOK_ATTEMPTS,
+  type StripeEvent,
+  type StripeWebhookDeps,
+  type WebhookEventStatus
+} from '../../../supabase/functions/stripe-webhook/handler.ts';
+import { getProfileSubscription, type StripeSubscription } from '../../../supabase/functions/_shared/subscription.ts';
+import {
+  CUSTOMER_ID,
+  USER_ID,
+  YEARLY_PRICE_ID,
+  STREAK_FREEZE_PRICE_ID,
+  PERIOD_END,
+  TRIAL_END,
+  createSubscription,
+  checkoutCompleted,
+  streakFreezeCheckoutCompleted,
+  trialStarted,
+  trialWillEnd,
+  subscriptionDeleted,
+  invoicePaymentFailed,
+  customerCreated
+} from '../mocks/stripeEvents';
+
+const SECRET = 'cron-secret';
+
+const iso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+/** Deliveries carry the event itself as the body; the stub client parses it */
+const createDelivery = (event: StripeEvent, signature = 'valid') =>
+  new Request('http://localhost/stripe-webhook', {
+    method: 'POST',
+    headers: { 'stripe-signature': signature },
+    body: JSON.stringify(event)
+  });
+
+const createRetryRequest = (token?: string) =>
+  new Request('http://localhost/stripe-webhook', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+
+interface LoggedEvent {
+  event: StripeEvent;
+  status: WebhookEventStatus | 'processing';
+  attempts: number;
+  error?: string;
+}
+
+describe('stripe-webhook handler', () => {
+  let subscriptions: StripeSubscription[];
+  let customers: Map<string, string>;
+  let log: Map<string, LoggedEvent>;
+  let orders: Set<string>;
+  let deps: StripeWebhookDeps;
+
+  beforeEach(() => {
+    subscriptions = [createSubscription()];
+    customers = new Map([[CUSTOMER_ID, USER_ID]]);
+    log = new Map();
+    orders = new Set();
+
+    deps = {
+      stripe: {
+        constructEvent: vi.fn(async (body: string, signature: string) => {
+          if (signature !== 'valid') throw new Error('No signatures found matching the expected signature');
+          return JSON.parse(body) as StripeEvent;
+        }),
+        listSubscriptions: vi.fn(async () => subscriptions),
+        listLineItems: vi.fn(async () => [
+          { priceId: STREAK_FREEZE_PRICE_ID, quantity: 2 },
+          { priceId: 'price_other', quantity: 1 }
+        ])
+      },
+      cronSecret: SECRET,
+      yearlyPriceId: YEARLY_PRICE_ID,
+      streakFreezePriceId: STREAK_FREEZE_PRICE_ID,
+      // Mirrors claim_stripe_webhook and finish_stripe_webhook
+      claimEvent: vi.fn(async (event: StripeEvent) => {
+        const logged = log.get(event.id);
+        if (logged && logged.status !== 'failed') return false;
+        log.set(event.id, { event, status: 'processing', attempts: (logged?.attempts ?? 0) + 1 });
+        return true;
+      }),
+      finishEvent: vi.fn(async (eventId: string, error?: string) => {
+        const logged = log.get(eventId)!;
+        logged.error = error;
+        logged.status = !error ? 'processed' : logged.attempts >= MAX_WEBHOOK_ATTEMPTS ? 'dead_letter' : 'failed';
+        return logged.status;
+      }),
+      getDueEvents: vi.fn(async () =>
+        [...log.values()].filter(logged => logged.status === 'failed').map(logged => logged.event)
+      ),
+      findUserForCustomer: vi.fn(async (customerId: string) => customers.get(customerId) ?? null),
+      linkCustomer: vi.fn(async (userId: string, customerId: string) => {
+        customers.set(customerId, userId);
+      }),
+      saveSubscriptions: vi.fn(async () => undefined),
+      updateProfileSubscription: vi.fn(async () => undefined),
+      recordOrder: vi.fn(async (order: { checkout_session_id: string }) => {
+        if (orders.has(order.checkout_session_id)) return false;
+        orders.add(order.checkout_session_id);
+        return true;
+      })
+    };
+  });
+
+  it('rejects deliveries with a bad signature', async () => {
+    const response = await handleStripeWebhook(createDelivery(checkoutCompleted, 'forged'), deps);
+
+    expect(response.status).toBe(400);
+    expect(deps.claimEvent).not.toHaveBeenCalled();
+  });
+
+  it('syncs the subscription and profile when checkout completes', async () => {
+    const response = await handleStripeWebhook(createDelivery(checkoutCompleted), deps);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(deps.stripe.listSubscriptions).toHaveBeenCalledWith(CUSTOMER_ID);
+    expect(deps.saveSubscriptions).toHaveBeenCalledWith([
+      expect.objectContaining({
+        customer_id: CUSTOMER_ID,
+        subscription_id: 'sub_1',
+        current_period_end: iso(PERIOD_END),
+        payment_method_last4: '4242',
+        status: 'active'
+      })
+    ]);
+    expect(deps.updateProfileSubscription).toHaveBeenCalledWith(USER_ID, {
+      status: 'premium',
+      tier: 'premium',
+      expiresAt: iso(PERIOD_END)
+    });
+    expect(log.get(checkoutCompleted.id)?.status).toBe('processed');
+  });
+
+  it('processes a redelivered event only once', async () => {
+    await handleStripeWebhook(createDelivery(checkoutCompleted), deps);
+    const response = await handleStripeWebhook(createDelivery(checkoutCompleted), deps);
+
+    expect(await response.json()).toEqual({ received: true, duplicate: true });
+    expect(deps.updateProfileSubscription).toHaveBeenCalledTimes(1);
+  });
+
+  it('links a new customer to the user checkout was for', async () => {
+    customers.clear();
+
+    await handleStripeWebhook(createDelivery(checkoutCompleted), deps);
+
+    expect(deps.linkCustomer).toHaveBeenCalledWith(USER_ID, CUSTOMER_ID);
+    expect(deps.updateProfileSubscription).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ status: 'premium' }));
+  });
+
+  it('keeps premium until the trial ends', async () => {
+    subscriptions = [createSubscription({ status: 'trialing', trial_end: TRIAL_END })];
+
+    await handleStripeWebhook(createDelivery(trialStarted), deps);
+    await handleStripeWebhook(createDelivery(trialWillEnd), deps);
+
+    expect(deps.updateProfileSubscription).toHaveBeenCalledTimes(2);
+    expect(deps.updateProfileSubscription).toHaveBeenLastCalledWith(USER_ID, {
+      status: 'premium',
+      tier: 'premium',
+      expiresAt: iso(TRIAL_END)
+    });
+  });
+
+  it('downgrades the profile when the subscription is deleted', async () => {
+    subscriptions = [createSubscription({ status: 'canceled' })];
+
+    await handleStripeWebhook(createDelivery(subscriptionDeleted), deps);
+
+    expect(deps.saveSubscriptions).toHaveBeenCalledWith([expect.objectContaining({ status: 'canceled' })]);
+    expect(deps.updateProfileSubscription).toHaveBeenCalledWith(USER_ID, { status: 'free', tier: 'free', expiresAt: null });
+  });
+
+  it('keeps access while a failed payment is retried', async () => {
+    subscriptions = [createSubscription({ status: 'past_due' })];
+
+    await handleStripeWebhook(createDelivery(invoicePaymentFailed), deps);
+
+    expect(deps.saveSubscriptions).toHaveBeenCalledWith([expect.objectContaining({ status: 'past_due' })]);
+    expect(deps.updateProfileSubscription).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ status: 'premium' }));
+  });
+
+  it('records one-time purchases with their streak freezes once', async () => {
+    await handleStripeWebhook(createDelivery(streakFreezeCheckoutCompleted), deps);
+    // A separate event for the same checkout, e.g. async_payment_succeeded
+    await handleStripeWebhook(createDelivery({ ...streakFreezeCheckoutCompleted, id: 'evt_other' }), deps);
+
+    expect(deps.recordOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ checkout_session_id: 'cs_streak_freeze', payment_intent_id: 'pi_streak_freeze' }),
+      USER_ID,
+      2
+    );
+    expect(orders.size).toBe(1);
+    expect(deps.updateProfileSubscription).not.toHaveBeenCalled();
+  });
+
+  it('logs events it has no work for', async () => {
+    const response = await handleStripeWebhook(createDelivery(customerCreated), deps);
+
+    expect(response.status).toBe(200);
+    expect(log.get(customerCreated.id)?.status).toBe('processed');
+    expect(deps.stripe.listSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it('fails the delivery so Stripe retries when the customer is unknown', async () => {
+    customers.clear();
+    subscriptions = [createSubscription({ metadata: {} })];
+
+    const response = await handleStripeWebhook(createDelivery(invoicePaymentFailed), deps);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ received: false, status: 'failed' });
+    expect(log.get(invoicePaymentFailed.id)).toMatchObject({
+      status: 'failed',
+      error: `No user found for Stripe customer ${CUSTOMER_ID}`
+    });
+    expect(deps.updateProfileSubscription).not.toHaveBeenCalled();
+  });
+
+  it('fails the delivery when the profile update fails', async () => {
+    vi.mocked(deps.updateProfileSubscription).mockRejectedValueOnce(new Error(`No profile found for user ${USER_ID}`));
+
+    const response = await handleStripeWebhook(createDelivery(checkoutCompleted), deps);
+
+    expect(response.status).toBe(500);
+    expect(log.get(checkoutCompleted.id)?.status).toBe('failed');
+  });
+
+  it('retries failed events on the scheduled run', async () => {
+    customers.clear();
+    subscriptions = [createSubscription({ metadata: {} })];
+    await handleStripeWebhook(createDelivery(invoicePaymentFailed), deps);
+
+    customers.set(CUSTOMER_ID, USER_ID);
+    const response = await handleStripeWebhook(createRetryRequest(SECRET), deps);
+
+    expect(await response.json()).toMatchObject({ success: true, due: 1, processed: 1, failed: 0 });
+    expect(log.get(invoicePaymentFailed.id)).toMatchObject({ status: 'processed', attempts: 2 });
+    expect(deps.updateProfileSubscription).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ status: 'premium' }));
+  });
+
+  it('dead-letters an event after its last attempt', async () => {
+    customers.clear();
+    subscriptions = [createSubscription({ metadata: {} })];
+    await handleStripeWebhook(createDelivery(invoicePaymentFailed), deps);
+
+    for (let attempt = 2; attempt <= MAX_WEBHOOK_ATTEMPTS; attempt++) {
+      await handleStripeWebhook(createRetryRequest(SECRET), deps);
+    }
+
+    expect(log.get(invoicePaymentFailed.id)).toMatchObject({ status: 'dead_letter', attempts: MAX_WEBHOOK_ATTEMPTS });
+    const body = await (await handleStripeWebhook(createRetryRequest(SECRET), deps)).json();
+    expect(body).toMatchObject({ due: 0 });
+  });
+
+  it('rejects retry runs without the cron secret', async () => {
+    const missing = await handleStripeWebhook(createRetryRequest(), deps);
+    const wrong = await handleStripeWebhook(createRetryRequest('user-jwt'), deps);
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(deps.getDueEvents).not.toHaveBeenCalled();
+  });
+});
+
+describe('getProfileSubscription', () => {
+  it('prefers an active subscription over older canceled ones', () => {
+    const profile = getProfileSubscription(
+      [
+        createSubscription({ id: 'sub_old', status: 'canceled', current_period_end: PERIOD_END + 86400 }),
+        createSubscription({ id: 'sub_new', items: { data: [{ price: { id: YEARLY_PRICE_ID } }] } })
+      ],
+      YEARLY_PRICE_ID
+    );
+
+    expect(profile).toEqual({ status: 'premium', tier: 'premium_plus', expiresAt: iso(PERIOD_END) });
+  });
+
+  it('is free without an entitled subscription', () => {
+    expect(getProfileSubscription([], YEARLY_PRICE_ID)).toEqual({ status: 'free', tier: 'free', expiresAt: null });
+    expect(getProfileSubscription([createSubscription({ status: 'unpaid' })])).toMatchObject({ status: 'free' });
+    expect(getProfileSubscription([createSubscription({ status: 'paused' })])).toMatchObject({ status: 'free' });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  handleTranscribeEntry,
+  MAX_VOICE_NOTE_BYTES,
+  type TranscribeEntryDeps
+} from '../../../supabase/functions/transcribe-entry/handler.ts';
+import type { AuthClient } from '../../../supabase/functions/_shared/auth.ts';
+
+const OWNER_ID = 'user-123';
+
+// Auth client that only recognizes one token
+const createAuthStub = (): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async (jwt: string) =>
+      jwt === 'valid-token'
+        ? { data: { user: { id: OWNER_ID } }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    )
+  }
+});
+
+const createRequest = (body: object | null, token = 'valid-token') =>
+  new Request('http://localhost/transcribe-entry', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+describe('transcribe-entry handler', () => {
+  let deps: TranscribeEntryDeps;
+
+  beforeEach(() => {
+    deps = {
+      auth: createAuthStub(),
+      downloadAudio: vi.fn(async () => new Blob(['voice'], { type: 'audio/webm' })),
+      transcribe: vi.fn(async () => ({ text: 'Today was calm.', provider: 'stub' }))
+    };
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleTranscribeEntry(createRequest({ path: `${OWNER_ID}/a.webm` }, 'forged'), deps);
+
+    expect(response.status).toBe(401);
+    expect(deps.downloadAudio).not.toHaveBeenCalled();
+  });
+
+  it("refuses to read another user's voice notes", async () => {
+    for (const path of ['user-456/a.webm', `${OWNER_ID}/../user-456/a.webm`, `${OWNER_ID}/`, undefined]) {
+      const response = await handleTranscribeEntry(createRequest({ path }), deps);
+      expect(response.status).toBe(400);
+    }
+    expect(deps.downloadAudio).not.toHaveBeenCalled();
+  });
+
+  it("transcribes the caller's own voice note", async () => {
+    const response = await handleTranscribeEntry(createRequest({ path: `${OWNER_ID}/note.m4a` }), deps);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, text: 'Today was calm.', transcribed_by: 'stub' });
+    expect(deps.downloadAudio).toHaveBeenCalledWith(`${OWNER_ID}/note.m4a`);
+    expect(deps.transcribe).toHaveBeenCalledWith(expect.any(Blob), 'note.m4a');
+  });
+
+  it('reports missing and oversized recordings', async () => {
+    deps.downloadAudio = vi.fn(async () => null);
+    const missing = await handleTranscribeEntry(createRequest({ path: `${OWNER_ID}/gone.webm` }), deps);
+
+    deps.downloadAudio = vi.fn(async () => new Blob([new Uint8Array(MAX_VOICE_NOTE_BYTES + 1)]));
+    const tooLong = await handleTranscribeEntry(createRequest({ path: `${OWNER_ID}/long.webm` }), deps);
+
+    expect(missing.status).toBe(404);
+    expect(tooLong.status).toBe(413);
+    expect(deps.transcribe).not.toHaveBeenCalled();
+  });
+
+  it('hides provider errors from the client', async () => {
+    deps.transcribe = vi.fn(async () => {
+      throw new Error('ElevenLabs API error: 401 Unauthorized');
+    });
+
+    const response = await handleTranscribeEntry(createRequest({ path: `${OWNER_ID}/a.webm` }), deps);
+    const body = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(body.error).toBe('Transcription is temporarily unavailable');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  handleUpdatePassword,
+  type UpdatePasswordDeps
+} from '../../../supabase/functions/update-password/handler.ts';
+import type { AuthClient } from '../../../supabase/functions/_shared/auth.ts';
+
+const USER_ID = 'user-123';
+
+// A session that passed the second factor; 'valid-token' is a password-only one
+const AAL2_TOKEN = `header.${btoa(JSON.stringify({ sub: USER_ID, aal: 'aal2' })).replace(/=+$/, '')}.signature`;
+
+// Auth client that only recognizes those two tokens
+const createAuthStub = (): AuthClient => ({
+  auth: {
+    getUser: vi.fn(async (jwt: string) =>
+      jwt === 'valid-token' || jwt === AAL2_TOKEN
+        ? { data: { user: { id: USER_ID, email: 'margaret@example.com' } }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    )
+  }
+});
+
+const createRequest = (body: object | null, token = 'valid-token') =>
+  new Request('http://localhost/update-password', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+describe('update-password handler', () => {
+  let deps: UpdatePasswordDeps;
+
+  beforeEach(() => {
+    deps = {
+      auth: createAuthStub(),
+      breachProvider: null,
+      listVerifiedFactors: vi.fn(async () => []),
+      updatePassword: vi.fn(async () => {})
+    };
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleUpdatePassword(createRequest({ password: 'quiet river morning tea' }, 'forged'), deps);
+
+    expect(response.status).toBe(401);
+    expect(deps.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('updates a password that meets the policy', async () => {
+    const response = await handleUpdatePassword(createRequest({ password: 'quiet river morning tea' }), deps);
+
+    expect(response.status).toBe(200);
+    expect(deps.updatePassword).toHaveBeenCalledWith(USER_ID, 'quiet river morning tea');
+  });
+
+  it('requires the second factor when the user has one', async () => {
+    deps.listVerifiedFactors = vi.fn(async () => ['factor-1']);
+
+    const response = await handleUpdatePassword(createRequest({ password: 'quiet river morning tea' }), deps);
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('insufficient_aal');
+    expect(deps.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('changes the password of an MFA-protected account from a session that passed the second factor', async () => {
+    deps.listVerifiedFactors = vi.fn(async () => ['factor-1']);
+
+    const response = await handleUpdatePassword(
+      createRequest({ password: 'quiet river morning tea' }, AAL2_TOKEN),
+      deps
+    );
+
+    expect(response.status).toBe(200);
+    expect(deps.updatePassword).toHaveBeenCalledWith(USER_ID, 'quiet river morning tea');
+  });
+
+  it('enforces the policy even if the app was bypassed', async () => {
+    for (const password of ['short', 'Password2024!', 'margaret-in-spring']) {
+      const response = await handleUpdatePassword(createRequest({ password }), deps);
+      const body = await response.json();
+
+      expect(response.status).toBe(422);
+      expect(body.code).toBe('weak_password');
+    }
+    expect(deps.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('rejects breached passwords when the check is on', async () => {
+    const password = 'quiet river morning tea';
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(password));
+    const hash = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+    deps.breachProvider = {
+      name: 'fake',
+      getSuffixes: vi.fn(async () => [hash.slice(5)])
+    };
+
+    const response = await handleUpdatePassword(createRequest({ password }), deps);
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).code).toBe('breached_password');
+    expect(deps.breachProvider.getSuffixes).toHaveBeenCalledWith(hash.slice(0, 5));
+    expect(deps.updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('still changes the password when the breach service is down', async () => {
+    deps.breachProvider = {
+      name: 'fake',
+      getSuffixes: vi.fn(async () => { throw new Error('503'); })
+    };
+
+    const response = await handleUpdatePassword(createRequest({ password: 'quiet river morning tea' }), deps);
+
+    expect(response.status).toBe(200);
+    expect(deps.updatePassword).toHaveBeenCalled();
+  });
+});
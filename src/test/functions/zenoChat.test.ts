@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleZenoChat, MAX_MESSAGES, type ZenoChatDeps } from '../../../supabase/functions/zeno-chat/handler.ts';
+import { CannedChatProvider, type ChatProvider } from '../../../supabase/functions/zeno-chat/providers.ts';
+import { activeSession, createJsonRequest, createZenoDeps, SESSION_ID } from '../mocks/zeno';
+
+const createRequest = (body: object | null, token?: string) => createJsonRequest('zeno-chat', body, token);
+
+// A provider that replies with fixed chunks, like a local stub server would
+const createStubProvider = (chunks: string[]): ChatProvider => ({
+  name: 'stub',
+  streamReply: vi.fn(async function* () {
+    yield* chunks;
+  })
+});
+
+describe('zeno-chat handler', () => {
+  let deps: ZenoChatDeps;
+
+  beforeEach(() => {
+    deps = { ...createZenoDeps(), chatProvider: createStubProvider(['Breathe ', 'in.']) };
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleZenoChat(
+      createRequest({ session_id: SESSION_ID, messages: [{ role: 'user', text: 'Hi' }] }, 'forged'),
+      deps
+    );
+
+    expect(response.status).toBe(401);
+    expect(deps.chatProvider.streamReply).not.toHaveBeenCalled();
+  });
+
+  it('streams the provider reply with the session goal', async () => {
+    const messages = [{ role: 'user', text: ' I had a long day ' }];
+
+    const response = await handleZenoChat(createRequest({ session_id: SESSION_ID, messages }), deps);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Zeno-Reply-Source')).toBe('ai');
+    expect(await response.text()).toBe('Breathe in.');
+    expect(deps.chatProvider.streamReply).toHaveBeenCalledWith(
+      [{ role: 'user', text: 'I had a long day' }],
+      activeSession.goal
+    );
+  });
+
+  it('falls back to the canned provider when the first chunk fails', async () => {
+    deps.chatProvider = {
+      name: 'stub',
+      // eslint-disable-next-line require-yield
+      streamReply: async function* () {
+        throw new Error('502 from provider');
+      }
+    };
+
+    const response = await handleZenoChat(
+      createRequest({ session_id: SESSION_ID, messages: [{ role: 'user', text: 'Hello' }] }),
+      deps
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Zeno-Reply-Source')).toBe('fallback');
+    expect(await response.text()).toMatch(/^Thank you for sharing/);
+  });
+
+  it('labels canned replies as the fallback', async () => {
+    deps.chatProvider = new CannedChatProvider();
+
+    const response = await handleZenoChat(
+      createRequest({ session_id: SESSION_ID, messages: [{ role: 'user', text: 'Hello' }] }),
+      deps
+    );
+
+    expect(response.headers.get('X-Zeno-Reply-Source')).toBe('fallback');
+  });
+
+  it('only sends the most recent messages', async () => {
+    const messages = Array.from({ length: MAX_MESSAGES + 5 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'zeno',
+      text: `Message ${i}`
+    }));
+
+    await handleZenoChat(createRequest({ session_id: SESSION_ID, messages }), deps);
+
+    const sent = vi.mocked(deps.chatProvider.streamReply).mock.calls[0][0];
+    expect(sent).toHaveLength(MAX_MESSAGES);
+    expect(sent[sent.length - 1].text).toBe(`Message ${MAX_MESSAGES + 4}`);
+  });
+
+  it('rejects a conversation that does not end with the user', async () => {
+    const response = await handleZenoChat(
+      createRequest({ session_id: SESSION_ID, messages: [{ role: 'zeno', text: 'Hi there' }] }),
+      deps
+    );
+
+    expect(response.status).toBe(400);
+    expect(deps.chatProvider.streamReply).not.toHaveBeenCalled();
+  });
+
+  it('refuses sessions that are not the user\'s active session', async () => {
+    const response = await handleZenoChat(
+      createRequest({ session_id: 'someone-elses', messages: [{ role: 'user', text: 'Hello' }] }),
+      deps
+    );
+
+    expect(response.status).toBe(404);
+    expect(deps.chatProvider.streamReply).not.toHaveBeenCalled();
+  });
+});
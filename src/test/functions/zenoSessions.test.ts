@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ZenoDeps } from '../../../supabase/functions/_shared/zeno.ts';
+import { handleZenoStartSession, MAX_GOAL_LENGTH } from '../../../supabase/functions/zeno-start-session/handler.ts';
+import { handleZenoUseEmergency } from '../../../supabase/functions/zeno-use-emergency/handler.ts';
+import { handleZenoGetStatus } from '../../../supabase/functions/zeno-get-status/handler.ts';
+import {
+  handleZenoEndSession,
+  MICRO_TASK_TYPES,
+  type ZenoEndSessionDeps
+} from '../../../supabase/functions/zeno-end-session/handler.ts';
+import {
+  handleZenoCompleteMicroTask,
+  MAX_RESPONSE_BYTES
+} from '../../../supabase/functions/zeno-complete-micro-task/handler.ts';
+import { activeSession, createJsonRequest, createZenoDeps, ruleViolation, SESSION_ID, USER_ID } from '../mocks/zeno';
+
+describe('zeno-start-session handler', () => {
+  let deps: ZenoDeps;
+
+  beforeEach(() => {
+    deps = createZenoDeps();
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleZenoStartSession(
+      createJsonRequest('zeno-start-session', { goal: 'Relax' }, 'forged'),
+      deps
+    );
+
+    expect(response.status).toBe(401);
+    expect(deps.rpc).not.toHaveBeenCalled();
+  });
+
+  it('starts a regular session for the caller', async () => {
+    vi.mocked(deps.rpc).mockResolvedValueOnce({ data: { session_id: SESSION_ID }, error: null });
+
+    const response = await handleZenoStartSession(
+      createJsonRequest('zeno-start-session', { goal: '  Relax  ' }),
+      deps
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, session_id: SESSION_ID });
+    expect(deps.rpc).toHaveBeenCalledWith('start_zeno_session', {
+      p_user_id: USER_ID,
+      p_goal: 'Relax',
+      p_is_emergency: false
+    });
+  });
+
+  it('treats a JSON body that is not an object as a missing goal', async () => {
+    const request = new Request(createJsonRequest('zeno-start-session', null), { body: 'null' });
+
+    const response = await handleZenoStartSession(request, deps);
+
+    expect(response.status).toBe(400);
+    expect(deps.rpc).not.toHaveBeenCalled();
+  });
+
+  it('rejects a missing or overly long goal', async () => {
+    const missing = await handleZenoStartSession(createJsonRequest('zeno-start-session', { goal: ' ' }), deps);
+    const tooLong = await handleZenoStartSession(
+      createJsonRequest('zeno-start-session', { goal: 'a'.repeat(MAX_GOAL_LENGTH + 1) }),
+      deps
+    );
+
+    expect(missing.status).toBe(400);
+    expect(tooLong.status).toBe(400);
+    expect(deps.rpc).not.toHaveBeenCalled();
+  });
+
+  it('returns 429 while the cooldown is active', async () => {
+    vi.mocked(deps.rpc).mockResolvedValueOnce(
+      ruleViolation('ZENO_COOLDOWN_ACTIVE', 'Zeno is resting until 2025-07-05T12:00:00Z')
+    );
+
+    const response = await handleZenoStartSession(createJsonRequest('zeno-start-session', { goal: 'Relax' }), deps);
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Zeno is resting until 2025-07-05T12:00:00Z'
+    });
+  });
+
+  it('returns 409 when a session is already running', async () => {
+    vi.mocked(deps.rpc).mockResolvedValueOnce(
+      ruleViolation('ZENO_SESSION_ACTIVE', 'A session is already in progress')
+    );
+
+    const response = await handleZenoStartSession(createJsonRequest('zeno-start-session', { goal: 'Relax' }), deps);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('reports unexpected database errors as 500', async () => {
+    vi.mocked(deps.rpc).mockResolvedValueOnce({ data: null, error: { message: 'connection reset' } });
+
+    const response = await handleZenoStartSession(createJsonRequest('zeno-start-session', { goal: 'Relax' }), deps);
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('zeno-use-emergency handler', () => {
+  let deps: ZenoDeps;
+
+  beforeEach(() => {
+    deps = createZenoDeps();
+  });
+
+  it('starts an emergency session with a trimmed goal', async () => {
+    const response = await handleZenoUseEmergency(
+      createJsonRequest('zeno-use-emergency', { goal: ` ${'a'.repeat(MAX_GOAL_LENGTH + 10)}` }),
+      deps
+    );
+
+    expect(response.status).toBe(200);
+    expect(deps.rpc).toHaveBeenCalledWith('start_zeno_session', {
+      p_user_id: USER_ID,
+      p_goal: 'a'.repeat(MAX_GOAL_LENGTH),
+      p_is_emergency: true
+    });
+  });
+
+  it('returns 429 when no emergency sessions remain', async () => {
+    vi.mocked(deps.rpc).mockResolvedValueOnce(
+      ruleViolation('ZENO_NO_EMERGENCY_SESSIONS', 'No emergency sessions remaining')
+    );
+
+    const response = await handleZenoUseEmergency(createJsonRequest('zeno-use-emergency', {}), deps);
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({ success: false, error: 'No emergency sessions remaining' });
+  });
+});
+
+describe('zeno-get-status handler', () => {
+  it("returns the caller's status", async () => {
+    const deps = createZenoDeps();
+    const status = { cooldown_ends_at: null, emergency_sessions_remaining: 1 };
+    vi.mocked(deps.rpc).mockResolvedValueOnce({ data: status, error: null });
+
+    const response = await handleZenoGetStatus(createJsonRequest('zeno-get-status', null), deps);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, status });
+    expect(deps.rpc).toHaveBeenCalledWith('get_zeno_status', { p_user_id: USER_ID });
+  });
+});
+
+describe('zeno-end-session handler', () => {
+  let deps: ZenoEndSessionDeps;
+
+  beforeEach(() => {
+    deps = { ...createZenoDeps(), generateSummary: vi.fn(async () => 'A calm recap.') };
+  });
+
+  it('ends the session with the generated summary and a micro-task', async () => {
+    const response = await handleZenoEndSession(
+      createJsonRequest('zeno-end-session', { session_id: SESSION_ID, duration_seconds: 125.7 }),
+      deps
+    );
+
+    expect(response.status).toBe(200);
+    expect(deps.generateSummary).toHaveBeenCalledWith(activeSession.goal, 125);
+    expect(deps.rpc).toHaveBeenCalledWith('end_zeno_session', {
+      p_user_id: USER_ID,
+      p_session_id: SESSION_ID,
+      p_duration_seconds: 125,
+      p_ai_summary: 'A calm recap.',
+      p_micro_task_type: expect.stringMatching(new RegExp(`^(${MICRO_TASK_TYPES.join('|')})$`))
+    });
+  });
+
+  it('falls back to a canned summary when generation fails', async () => {
+    vi.mocked(deps.generateSummary).mockRejectedValueOnce(new Error('OpenAI API key not found'));
+
+    await handleZenoEndSession(
+      createJsonRequest('zeno-end-session', { session_id: SESSION_ID, duration_seconds: 60 }),
+      deps
+    );
+
+    expect(deps.rpc).toHaveBeenCalledWith(
+      'end_zeno_session',
+      expect.objectContaining({
+        p_ai_summary: 'You spent 1 minute with Zeno working through "Unwind after work". Taking that time for yourself matters.'
+      })
+    );
+  });
+
+  it("returns 404 for a session that isn't the caller's active one", async () => {
+    const response = await handleZenoEndSession(
+      createJsonRequest('zeno-end-session', { session_id: 'someone-elses-session' }),
+      deps
+    );
+
+    expect(response.status).toBe(404);
+    expect(deps.generateSummary).not.toHaveBeenCalled();
+    expect(deps.rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('zeno-complete-micro-task handler', () => {
+  let deps: ZenoDeps;
+
+  beforeEach(() => {
+    deps = createZenoDeps();
+  });
+
+  it('records the response', async () => {
+    const response = await handleZenoCompleteMicroTask(
+      createJsonRequest('zeno-complete-micro-task', { session_id: SESSION_ID, response: { mood: 4 } }),
+      deps
+    );
+
+    expect(response.status).toBe(200);
+    expect(deps.rpc).toHaveBeenCalledWith('complete_zeno_micro_task', {
+      p_user_id: USER_ID,
+      p_session_id: SESSION_ID,
+      p_state: 'completed',
+      p_response: { mood: 4 }
+    });
+  });
+
+  it('measures the response size in bytes rather than characters', async () => {
+    // Each emoji is two UTF-16 code units but four UTF-8 bytes
+    const text = '🙏'.repeat(Math.ceil(MAX_RESPONSE_BYTES / 4));
+    expect(JSON.stringify({ text }).length).toBeLessThanOrEqual(MAX_RESPONSE_BYTES);
+
+    const response = await handleZenoCompleteMicroTask(
+      createJsonRequest('zeno-complete-micro-task', { session_id: SESSION_ID, response: { text } }),
+      deps
+    );
+
+    expect(response.status).toBe(400);
+    expect(deps.rpc).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when there is no pending micro-task', async () => {
+    vi.mocked(deps.rpc).mockResolvedValueOnce(
+      ruleViolation('ZENO_TASK_NOT_FOUND', `No pending micro-task for session ${SESSION_ID}`)
+    );
+
+    const response = await handleZenoCompleteMicroTask(
+      createJsonRequest('zeno-complete-micro-task', { session_id: SESSION_ID, state: 'skipped' }),
+      deps
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  handleZenoTranscribe,
+  MAX_AUDIO_BYTES,
+  type ZenoTranscribeDeps
+} from '../../../supabase/functions/zeno-transcribe/handler.ts';
+import { StubTranscriptionProvider } from '../../../supabase/functions/_shared/transcription.ts';
+import { createZenoDeps, SESSION_ID } from '../mocks/zeno';
+
+const createRequest = (fields: { audio?: Blob; session_id?: string }, token = 'valid-token') => {
+  const formData = new FormData();
+  if (fields.audio) formData.append('audio', fields.audio, 'turn.webm');
+  if (fields.session_id) formData.append('session_id', fields.session_id);
+
+  const request = new Request('http://localhost/zeno-transcribe', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'multipart/form-data; boundary=zeno',
+      Authorization: `Bearer ${token}`
+    }
+  });
+  // Node can't parse jsdom's files out of a multipart body, so skip the encoding
+  request.formData = async () => formData;
+  return request;
+};
+
+const recording = new Blob(['voice'], { type: 'audio/webm' });
+
+describe('zeno-transcribe handler', () => {
+  let deps: ZenoTranscribeDeps;
+
+  beforeEach(() => {
+    deps = {
+      ...createZenoDeps(),
+      getTranscriptionProvider: vi.fn(() => new StubTranscriptionProvider('I feel calmer now.'))
+    };
+  });
+
+  it('rejects requests with an invalid token', async () => {
+    const response = await handleZenoTranscribe(createRequest({ audio: recording, session_id: SESSION_ID }, 'forged'), deps);
+
+    expect(response.status).toBe(401);
+    expect(deps.getTranscriptionProvider).not.toHaveBeenCalled();
+  });
+
+  it('transcribes a turn of the active session', async () => {
+    const response = await handleZenoTranscribe(createRequest({ audio: recording, session_id: SESSION_ID }), deps);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, text: 'I feel calmer now.', transcribed_by: 'stub' });
+  });
+
+  it('refuses sessions that are not the user\'s active session', async () => {
+    const response = await handleZenoTranscribe(createRequest({ audio: recording, session_id: 'ended' }), deps);
+
+    expect(response.status).toBe(404);
+    expect(deps.getTranscriptionProvider).not.toHaveBeenCalled();
+  });
+
+  it('requires a recording', async () => {
+    const response = await handleZenoTranscribe(createRequest({ session_id: SESSION_ID }), deps);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects recordings over the size limit', async () => {
+    const tooLong = new Blob([new Uint8Array(MAX_AUDIO_BYTES + 1)], { type: 'audio/webm' });
+
+    const response = await handleZenoTranscribe(createRequest({ audio: tooLong, session_id: SESSION_ID }), deps);
+
+    expect(response.status).toBe(413);
+  });
+
+  it('reports an unavailable provider as a bad gateway', async () => {
+    deps.getTranscriptionProvider = vi.fn(() => {
+      throw new Error('ElevenLabs API key not found');
+    });
+
+    const response = await handleZenoTranscribe(createRequest({ audio: recording, session_id: SESSION_ID }), deps);
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toBe('Transcription is temporarily unavailable');
+  });
+});
@@ -0,0 +1,101 @@
+import type { StripeCheckoutSession, StripeEvent } from '../../../supabase/functions/stripe-webhook/handler.ts';
+import type { StripeSubscription } from '../../../supabase/functions/_shared/subscription.ts';
+
+/**
+ * Stripe webhook payloads, trimmed to the fields stripe-webhook reads
+ */
+
+export const CUSTOMER_ID = 'cus_QxMint1';
+export const USER_ID = 'user-123';
+export const MONTHLY_PRICE_ID = 'price_monthly';
+export const YEARLY_PRICE_ID = 'price_yearly';
+export const STREAK_FREEZE_PRICE_ID = 'price_streak_freeze';
+
+/** 2025-07-01T00:00:00Z */
+export const PERIOD_START = 1751328000;
+/** 2025-08-01T00:00:00Z */
+export const PERIOD_END = 1754006400;
+/** 2025-07-08T00:00:00Z */
+export const TRIAL_END = 1751932800;
+
+export const createSubscription = (overrides: Partial<StripeSubscription> = {}): StripeSubscription => ({
+  id: 'sub_1',
+  customer: CUSTOMER_ID,
+  status: 'active',
+  cancel_at_period_end: false,
+  current_period_start: PERIOD_START,
+  current_period_end: PERIOD_END,
+  trial_end: null,
+  metadata: { userId: USER_ID },
+  items: { data: [{ price: { id: MONTHLY_PRICE_ID } }] },
+  default_payment_method: { card: { brand: 'visa', last4: '4242' } },
+  ...overrides
+});
+
+export const createEvent = (type: string, object: object, id = `evt_${type.replace(/\W/g, '_')}`): StripeEvent => ({
+  id,
+  type,
+  data: { object }
+});
+
+export const subscriptionCheckoutSession: StripeCheckoutSession = {
+  id: 'cs_subscription',
+  mode: 'subscription',
+  payment_status: 'paid',
+  customer: CUSTOMER_ID,
+  client_reference_id: USER_ID,
+  metadata: { userId: USER_ID },
+  payment_intent: null,
+  amount_subtotal: 999,
+  amount_total: 999,
+  currency: 'usd'
+};
+
+export const streakFreezeCheckoutSession: StripeCheckoutSession = {
+  id: 'cs_streak_freeze',
+  mode: 'payment',
+  payment_status: 'paid',
+  customer: CUSTOMER_ID,
+  client_reference_id: USER_ID,
+  metadata: null,
+  payment_intent: 'pi_streak_freeze',
+  amount_subtotal: 598,
+  amount_total: 598,
+  currency: 'usd'
+};
+
+export const checkoutCompleted = createEvent('checkout.session.completed', subscriptionCheckoutSession);
+
+export const streakFreezeCheckoutCompleted = createEvent(
+  'checkout.session.completed',
+  streakFreezeCheckoutSession,
+  'evt_streak_freeze_checkout'
+);
+
+export const trialStarted = createEvent(
+  'customer.subscription.created',
+  createSubscription({ status: 'trialing', trial_end: TRIAL_END })
+);
+
+export const trialWillEnd = createEvent(
+  'customer.subscription.trial_will_end',
+  createSubscription({ status: 'trialing', trial_end: TRIAL_END })
+);
+
+export const subscriptionDeleted = createEvent(
+  'customer.subscription.deleted',
+  createSubscription({ status: 'canceled' })
+);
+
+export const invoicePaymentFailed = createEvent('invoice.payment_failed', {
+  id: 'in_1',
+  customer: CUSTOMER_ID,
+  subscription: 'sub_1',
+  billing_reason: 'subscription_cycle',
+  attempt_count: 1
+});
+
+export const customerCreated = createEvent('customer.created', {
+  id: CUSTOMER_ID,
+  email: 'test@example.com'
+});
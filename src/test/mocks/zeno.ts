@@ -0,0 +1,44 @@
+import { vi } from 'vitest';
+import type { ZenoDeps, ZenoSession } from '../../../supabase/functions/_shared/zeno.ts';
+
+/**
+ * Stand-ins for the service-role client behind the zeno-* handlers
+ */
+
+export const USER_ID = 'user-123';
+export const SESSION_ID = 'session-1';
+
+export const activeSession: ZenoSession = { id: SESSION_ID, goal: 'Unwind after work' };
+
+/** Dependencies for a user whose only active session is activeSession */
+export const createZenoDeps = (): ZenoDeps => ({
+  auth: {
+    auth: {
+      getUser: vi.fn(async (jwt: string) =>
+        jwt === 'valid-token'
+          ? { data: { user: { id: USER_ID } }, error: null }
+          : { data: { user: null }, error: new Error('invalid JWT') }
+      )
+    }
+  },
+  rpc: vi.fn(async () => ({ data: {}, error: null })),
+  findActiveSession: vi.fn(async (userId: string, sessionId: string) =>
+    userId === USER_ID && sessionId === SESSION_ID ? activeSession : null
+  )
+});
+
+/** A rejection the way PostgREST reports an exception raised by a zeno SQL function */
+export const ruleViolation = (code: string, message: string) => ({
+  data: null,
+  error: { message: `${code}: ${message}` }
+});
+
+export const createJsonRequest = (path: string, body: object | null, token = 'valid-token') =>
+  new Request(`http://localhost/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
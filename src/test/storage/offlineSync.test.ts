@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { applyQueuedOperations, resolveQueuedOperation } from '../../utils/offlineSync';
+import { QueuedOperation } from '../../lib/offlineStore';
+
+const operation = (overrides: Partial<QueuedOperation>): QueuedOperation => ({
+  userId: 'user-1',
+  entryId: 'entry-1',
+  type: 'update',
+  queuedAt: '2025-07-10T12:00:00.000Z',
+  baseUpdatedAt: '2025-07-10T10:00:00.000Z',
+  fields: {},
+  attempts: 0,
+  ...overrides
+});
+
+const entry = (id: string, createdAt: string, content = 'Text') => ({
+  id,
+  content,
+  created_at: createdAt,
+  updated_at: createdAt
+});
+
+describe('resolveQueuedOperation', () => {
+  it('adds new entries only once', () => {
+    const add = operation({ type: 'add', baseUpdatedAt: null });
+
+    expect(resolveQueuedOperation(add, null)).toEqual({ apply: true, conflict: false });
+    expect(resolveQueuedOperation(add, { updated_at: add.queuedAt })).toEqual({ apply: false, conflict: false });
+  });
+
+  it('applies an edit when the server copy is unchanged', () => {
+    const decision = resolveQueuedOperation(operation({}), { updated_at: '2025-07-10T10:00:00.000Z' });
+    expect(decision).toEqual({ apply: true, conflict: false });
+  });
+
+  it('keeps whichever side changed last when both changed', () => {
+    const update = operation({});
+
+    expect(resolveQueuedOperation(update, { updated_at: '2025-07-10T11:00:00.000Z' }))
+      .toEqual({ apply: true, conflict: true });
+    expect(resolveQueuedOperation(update, { updated_at: '2025-07-10T13:00:00.000Z' }))
+      .toEqual({ apply: false, conflict: true });
+  });
+
+  it('skips changes to entries deleted on the server', () => {
+    expect(resolveQueuedOperation(operation({}), null)).toEqual({ apply: false, conflict: true });
+    expect(resolveQueuedOperation(operation({ type: 'delete' }), null)).toEqual({ apply: false, conflict: false });
+  });
+});
+
+describe('applyQueuedOperations', () => {
+  const toEntry = (op: QueuedOperation) => ({
+    ...entry(op.entryId, op.queuedAt),
+    content: op.fields.content ?? ''
+  });
+
+  it('merges queued changes into loaded entries and marks them pending', () => {
+    const loaded = [
+      entry('entry-2', '2025-07-09T08:00:00.000Z'),
+      entry('entry-1', '2025-07-08T08:00:00.000Z')
+    ];
+    const result = applyQueuedOperations(loaded, [
+      operation({ id: 1, type: 'add', entryId: 'entry-3', baseUpdatedAt: null, fields: { content: 'Offline' } }),
+      operation({ id: 2, entryId: 'entry-1', fields: { content: 'Edited' } }),
+      operation({ id: 3, type: 'delete', entryId: 'entry-2' })
+    ], toEntry);
+
+    expect(result.map(item => item.id)).toEqual(['entry-3', 'entry-1']);
+    expect(result[0]).toMatchObject({ content: 'Offline', pendingSync: true });
+    expect(result[1]).toMatchObject({ content: 'Edited', updated_at: '2025-07-10T12:00:00.000Z', pendingSync: true });
+  });
+
+  it('does not duplicate an entry that was already synced', () => {
+    const loaded = [entry('entry-1', '2025-07-10T12:00:00.000Z')];
+    const result = applyQueuedOperations(loaded, [
+      operation({ id: 1, type: 'add', baseUpdatedAt: null, fields: { content: 'Offline' } })
+    ], toEntry);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].content).toBe('Text');
+  });
+});
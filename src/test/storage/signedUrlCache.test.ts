@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const createSignedUrls = vi.fn();
+
+vi.mock('../../lib/supabase', () => ({
+  supabase: {
+    storage: {
+      from: vi.fn(() => ({ createSignedUrls }))
+    }
+  }
+}));
+
+import {
+  clearSignedUrlCache,
+  getCachedSignedUrl,
+  getSignedUrls,
+  getStoragePath
+} from '../../utils/signedUrlCache';
+
+const signed = (paths: string[]) => ({
+  data: paths.map(path => ({ path, signedUrl: `https://cdn.test/${path}?token=1`, error: null })),
+  error: null
+});
+
+describe('signedUrlCache', () => {
+  beforeEach(() => {
+    clearSignedUrlCache();
+    createSignedUrls.mockReset();
+    createSignedUrls.mockImplementation(async (paths: string[]) => signed(paths));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('extracts bucket paths from stored URLs', () => {
+    expect(getStoragePath('https://x.supabase.co/storage/v1/object/public/journal-photos/u1/a.jpg', 'journal-photos')).toBe('u1/a.jpg');
+    expect(getStoragePath('/u1/voice.mp3', 'affirmation-audio')).toBe('u1/voice.mp3');
+  });
+
+  it('signs uncached paths in one request and reuses them afterwards', async () => {
+    const first = await getSignedUrls('journal-photos', ['u1/a.jpg', 'u1/b.jpg']);
+    expect(createSignedUrls).toHaveBeenCalledTimes(1);
+    expect(createSignedUrls).toHaveBeenCalledWith(['u1/a.jpg', 'u1/b.jpg'], 3600);
+    expect(first.get('u1/a.jpg')).toBe('https://cdn.test/u1/a.jpg?token=1');
+
+    const second = await getSignedUrls('journal-photos', ['u1/a.jpg', 'u1/c.jpg']);
+    expect(createSignedUrls).toHaveBeenCalledTimes(2);
+    expect(createSignedUrls).toHaveBeenLastCalledWith(['u1/c.jpg'], 3600);
+    expect(second.size).toBe(2);
+  });
+
+  it('re-signs URLs that are about to expire', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-07-10T10:00:00Z'));
+    await getSignedUrls('affirmation-audio', ['u1/voice.mp3']);
+    expect(getCachedSignedUrl('affirmation-audio', 'u1/voice.mp3')).toBeDefined();
+
+    vi.setSystemTime(new Date('2024-07-10T10:56:00Z'));
+    expect(getCachedSignedUrl('affirmation-audio', 'u1/voice.mp3')).toBeUndefined();
+  });
+
+  it('leaves out paths that could not be signed', async () => {
+    createSignedUrls.mockResolvedValue({
+      data: [{ path: 'u1/missing.jpg', signedUrl: '', error: 'Object not found' }],
+      error: null
+    });
+
+    const urls = await getSignedUrls('journal-photos', ['u1/missing.jpg']);
+    expect(urls.size).toBe(0);
+    expect(getCachedSignedUrl('journal-photos', 'u1/missing.jpg')).toBeUndefined();
+  });
+});
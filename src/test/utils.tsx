@@ -3,6 +3,8 @@ import { render, RenderOptions, waitFor, screen } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { AuthProvider, useAuth } from '../contexts/AuthContext';
 import { ThemeProvider } from '../contexts/ThemeContext';
+import { JournalKeyProvider } from '../contexts/JournalKeyContext';
+import { AppLockProvider } from '../contexts/AppLockContext';
 
 /**
  * AuthReadyIndicator - A component that indicates when auth state is ready
@@ -26,8 +28,12 @@ const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
     <BrowserRouter>
       <ThemeProvider>
         <AuthProvider>
-          <AuthReadyIndicator />
-          {children}
+          <JournalKeyProvider>
+            <AppLockProvider>
+              <AuthReadyIndicator />
+              {children}
+            </AppLockProvider>
+          </JournalKeyProvider>
         </AuthProvider>
       </ThemeProvider>
     </BrowserRouter>
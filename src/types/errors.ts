@@ -21,9 +21,19 @@ export enum ErrorCode {
   AUTH_INVALID_CREDENTIALS = 'auth/invalid-credentials',
   AUTH_EMAIL_IN_USE = 'auth/email-in-use',
   AUTH_WEAK_PASSWORD = 'auth/weak-password',
+  AUTH_BREACHED_PASSWORD = 'auth/breached-password',
   AUTH_INVALID_EMAIL = 'auth/invalid-email',
   AUTH_USER_NOT_FOUND = 'auth/user-not-found',
   AUTH_TOO_MANY_REQUESTS = 'auth/too-many-requests',
+  AUTH_EMAIL_NOT_CONFIRMED = 'auth/email-not-confirmed',
+  AUTH_SAME_PASSWORD = 'auth/same-password',
+  AUTH_LINK_EXPIRED = 'auth/link-expired',
+  AUTH_PROVIDER_UNAVAILABLE = 'auth/provider-unavailable',
+  AUTH_IDENTITY_ALREADY_LINKED = 'auth/identity-already-linked',
+  AUTH_LAST_IDENTITY = 'auth/last-identity',
+  AUTH_MFA_INVALID_CODE = 'auth/mfa-invalid-code',
+  AUTH_MFA_REQUIRED = 'auth/mfa-required',
+  AUTH_RECOVERY_CODE_INVALID = 'auth/recovery-code-invalid',
   
   // Journal errors
   JOURNAL_ENTRY_EMPTY = 'journal/entry-empty',
@@ -32,7 +42,17 @@ export enum ErrorCode {
   JOURNAL_UPDATE_FAILED = 'journal/update-failed',
   JOURNAL_DELETE_FAILED = 'journal/delete-failed',
   JOURNAL_LOAD_FAILED = 'journal/load-failed',
-  
+
+  // Private journal errors
+  JOURNAL_LOCKED = 'journal/locked',
+  JOURNAL_KEY_INVALID = 'journal/key-invalid',
+  JOURNAL_DECRYPT_FAILED = 'journal/decrypt-failed',
+
+  // App lock errors
+  APP_LOCK_INVALID_PIN = 'app-lock/invalid-pin',
+  APP_LOCK_TOO_MANY_ATTEMPTS = 'app-lock/too-many-attempts',
+  APP_LOCK_UNAVAILABLE = 'app-lock/unavailable',
+
   // Premium feature errors
   PREMIUM_REQUIRED = 'premium/feature-required',
   PREMIUM_DAILY_LIMIT = 'premium/daily-limit-reached',
@@ -41,6 +61,10 @@ export enum ErrorCode {
   MEDIA_UPLOAD_FAILED = 'media/upload-failed',
   MEDIA_INVALID_TYPE = 'media/invalid-type',
   MEDIA_TOO_LARGE = 'media/too-large',
+  MEDIA_LIMIT_REACHED = 'media/limit-reached',
+  MEDIA_UPDATE_FAILED = 'media/update-failed',
+  MEDIA_RECORDING_FAILED = 'media/recording-failed',
+  MEDIA_TRANSCRIPTION_FAILED = 'media/transcription-failed',
   
   // AI service errors
   AI_SERVICE_UNAVAILABLE = 'ai/service-unavailable',
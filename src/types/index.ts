@@ -23,6 +23,32 @@ export interface JournalEntry {
   createdAt: Date;
 }
 
+/**
+ * A photo attached to a journal entry, in gallery order
+ */
+export interface EntryAttachment {
+  id: string;
+  entry_id: string;
+  /** Path within the journal-photos bucket */
+  storage_path: string;
+  file_name: string | null;
+  caption: string | null;
+  position: number;
+  width: number | null;
+  height: number | null;
+  /** Signed URL; null if signing failed, undefined until requested */
+  signedUrl?: string | null;
+}
+
+/**
+ * A voice note recorded for a new entry, already uploaded to journal-audio
+ */
+export interface VoiceNote {
+  /** Path within the journal-audio bucket */
+  path: string;
+  durationSeconds: number;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -0,0 +1,145 @@
+/**
+ * Helpers for shaping get_journal_analytics results into charts
+ */
+
+export type AnalyticsRange = 7 | 30 | 90 | 365;
+
+export const ANALYTICS_RANGES: AnalyticsRange[] = [7, 30, 90, 365];
+
+export interface MoodBucket {
+  average_mood: number | null;
+  entries: number;
+}
+
+export interface TrendPoint extends MoodBucket {
+  /** First day of the bucket, YYYY-MM-DD */
+  date: string;
+  words: number;
+}
+
+export interface HeatmapDay {
+  date: string;
+  entries: number;
+}
+
+export interface JournalAnalytics {
+  range_days: number;
+  timezone: string;
+  bucket: 'day' | 'week';
+  summary: {
+    entries: number;
+    average_mood: number | null;
+    total_words: number;
+    average_words: number;
+    active_days: number;
+  };
+  trend: TrendPoint[];
+  by_weekday: Array<MoodBucket & { weekday: number }>;
+  by_hour: Array<MoodBucket & { hour: number }>;
+  heatmap: HeatmapDay[];
+  correlations: {
+    with_photo: MoodBucket;
+    without_photo: MoodBucket;
+    with_affirmation: MoodBucket;
+    without_affirmation: MoodBucket;
+  };
+}
+
+export interface HeatmapCell {
+  date: string;
+  entries: number;
+  /** False for days after today, which pad out the current week */
+  inRange: boolean;
+}
+
+/**
+ * Format a Date as YYYY-MM-DD using its local calendar day
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Lay out a year of daily counts as week columns, Sunday first, ending with the current week
+ *
+ * @param {HeatmapDay[]} days - Days that have entries
+ * @param {Date} today - The last day to show
+ * @param {number} [weeks=53] - Number of week columns
+ * @returns {HeatmapCell[][]} One array of seven cells per week, oldest first
+ */
+export function buildHeatmapWeeks(days: HeatmapDay[], today: Date, weeks = 53): HeatmapCell[][] {
+  const counts = new Map(days.map(day => [day.date, day.entries]));
+  const todayKey = toDateKey(today);
+
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  start.setDate(start.getDate() - start.getDay() - (weeks - 1) * 7);
+
+  const result: HeatmapCell[][] = [];
+  for (let week = 0; week < weeks; week++) {
+    const column: HeatmapCell[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday);
+      const key = toDateKey(date);
+      column.push({ date: key, entries: counts.get(key) ?? 0, inRange: key <= todayKey });
+    }
+    result.push(column);
+  }
+
+  return result;
+}
+
+/**
+ * Bucket an entry count into one of five heatmap shades
+ */
+export function getHeatmapLevel(entries: number): 0 | 1 | 2 | 3 | 4 {
+  if (entries <= 0) return 0;
+  if (entries === 1) return 1;
+  if (entries === 2) return 2;
+  if (entries <= 4) return 3;
+  return 4;
+}
+
+/**
+ * Difference in average mood between two groups, or null when either is empty
+ */
+export function getMoodDifference(withFeature: MoodBucket, withoutFeature: MoodBucket): number | null {
+  if (withFeature.average_mood === null || withoutFeature.average_mood === null) return null;
+  if (withFeature.entries === 0 || withoutFeature.entries === 0) return null;
+  return Math.round((withFeature.average_mood - withoutFeature.average_mood) * 100) / 100;
+}
+
+/**
+ * Position trend points in a chart box
+ *
+ * X is proportional to the date within the range, so gaps in journaling show
+ * as gaps rather than being squeezed out. Y maps mood 1-5 from bottom to top.
+ *
+ * @param {TrendPoint[]} trend - Buckets from the RPC, oldest first
+ * @param {Date} today - Last day of the range
+ * @param {number} rangeDays - Length of the range in days
+ * @param {number} width - Chart width
+ * @param {number} height - Chart height
+ */
+export function getTrendCoordinates(
+  trend: TrendPoint[],
+  today: Date,
+  rangeDays: number,
+  width: number,
+  height: number
+): Array<{ x: number; y: number; point: TrendPoint }> {
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+  const start = end - (rangeDays - 1) * 86400000;
+  const span = Math.max(end - start, 1);
+
+  return trend
+    .filter(point => point.average_mood !== null)
+    .map(point => {
+      const [year, month, day] = point.date.split('-').map(Number);
+      const time = new Date(year, month - 1, day).getTime();
+      const x = Math.min(Math.max((time - start) / span, 0), 1) * width;
+      const y = height - ((point.average_mood! - 1) / 4) * height;
+      return { x, y, point };
+    });
+}
@@ -0,0 +1,207 @@
+/**
+ * Map Supabase Auth failures to application errors
+ *
+ * Supabase reports most failures with a machine-readable `code`, but older
+ * servers and network failures only carry a message, so both are checked.
+ * Failed email links and OAuth redirects come back as `error`, `error_code`
+ * and `error_description` parameters in the URL hash or query instead.
+ */
+import { AppError, ErrorCode, createAppError } from '../types/errors';
+import { MIN_PASSWORD_LENGTH } from './passwordPolicy';
+
+/** Rejection message used when an auth request takes too long */
+export const AUTH_TIMEOUT_MESSAGE = 'Auth request timeout';
+
+interface AuthErrorLike {
+  code?: string;
+  message?: string;
+}
+
+interface AuthErrorRule {
+  codes: string[];
+  messages: string[];
+  errorCode: ErrorCode;
+  message: string;
+}
+
+const AUTH_ERROR_RULES: AuthErrorRule[] = [
+  {
+    codes: ['invalid_credentials'],
+    messages: ['Invalid login credentials', 'Invalid email or password'],
+    errorCode: ErrorCode.AUTH_INVALID_CREDENTIALS,
+    message: 'Invalid email or password. Please check your credentials.'
+  },
+  {
+    codes: ['email_not_confirmed'],
+    messages: ['Email not confirmed'],
+    errorCode: ErrorCode.AUTH_EMAIL_NOT_CONFIRMED,
+    message: 'Please check your email and confirm your account before signing in.'
+  },
+  {
+    codes: ['over_request_rate_limit', 'over_email_send_rate_limit'],
+    messages: ['Too many requests', 'rate limit'],
+    errorCode: ErrorCode.AUTH_TOO_MANY_REQUESTS,
+    message: 'Too many attempts. Please wait a moment and try again.'
+  },
+  {
+    codes: ['user_already_exists', 'email_exists'],
+    messages: ['User already registered'],
+    errorCode: ErrorCode.AUTH_EMAIL_IN_USE,
+    message: 'An account with this email already exists. Please sign in instead.'
+  },
+  {
+    codes: ['weak_password'],
+    messages: ['Password should be at least'],
+    errorCode: ErrorCode.AUTH_WEAK_PASSWORD,
+    message: `Please choose a stronger password of at least ${MIN_PASSWORD_LENGTH} characters that isn't a common one.`
+  },
+  {
+    codes: ['breached_password'],
+    messages: [],
+    errorCode: ErrorCode.AUTH_BREACHED_PASSWORD,
+    message: 'This password has appeared in a data breach. Please choose a different one.'
+  },
+  {
+    codes: ['email_address_invalid'],
+    messages: ['Invalid email', 'Unable to validate email address'],
+    errorCode: ErrorCode.AUTH_INVALID_EMAIL,
+    message: 'Please enter a valid email address.'
+  },
+  {
+    codes: ['same_password'],
+    messages: ['New password should be different'],
+    errorCode: ErrorCode.AUTH_SAME_PASSWORD,
+    message: 'Your new password must be different from your current one.'
+  },
+  {
+    codes: ['otp_expired', 'flow_state_expired', 'flow_state_not_found', 'bad_code_verifier'],
+    messages: ['invalid or has expired', 'Token has expired'],
+    errorCode: ErrorCode.AUTH_LINK_EXPIRED,
+    message: 'This link has expired or was already used. Please request a new one.'
+  },
+  {
+    codes: ['otp_disabled', 'signup_disabled', 'user_not_found'],
+    messages: ['Signups not allowed for otp', 'User not found'],
+    errorCode: ErrorCode.AUTH_USER_NOT_FOUND,
+    message: "We couldn't find an account with that email. Create one first, then you can use email links."
+  },
+  {
+    codes: ['identity_already_exists'],
+    messages: ['Identity is already linked'],
+    errorCode: ErrorCode.AUTH_IDENTITY_ALREADY_LINKED,
+    message: 'That account is already linked to another Zensai account.'
+  },
+  {
+    codes: ['single_identity_not_deletable'],
+    messages: ['at least 1 identity'],
+    errorCode: ErrorCode.AUTH_LAST_IDENTITY,
+    message: "This is the only way you can sign in, so it can't be unlinked."
+  },
+  {
+    codes: ['provider_disabled', 'manual_linking_disabled', 'oauth_provider_not_supported'],
+    messages: ['Unsupported provider', 'provider is not enabled', 'Manual linking is disabled'],
+    errorCode: ErrorCode.AUTH_PROVIDER_UNAVAILABLE,
+    message: "This sign-in method isn't available right now. Please use your email instead."
+  },
+  {
+    codes: ['mfa_verification_failed', 'mfa_challenge_expired'],
+    messages: ['Invalid TOTP code', 'has expired, verify against another challenge'],
+    errorCode: ErrorCode.AUTH_MFA_INVALID_CODE,
+    message: "That code didn't work. Check your authenticator app and enter the newest code."
+  },
+  {
+    codes: ['insufficient_aal'],
+    messages: ['AAL2 required'],
+    errorCode: ErrorCode.AUTH_MFA_REQUIRED,
+    message: 'Please enter a code from your authenticator app first.'
+  },
+  {
+    codes: ['invalid_recovery_code'],
+    messages: [],
+    errorCode: ErrorCode.AUTH_RECOVERY_CODE_INVALID,
+    message: "That recovery code isn't valid or was already used."
+  },
+  {
+    codes: ['session_not_found', 'session_expired'],
+    messages: ['Auth session missing'],
+    errorCode: ErrorCode.NOT_AUTHENTICATED,
+    message: 'Your session has ended. Please sign in again.'
+  },
+  {
+    codes: [],
+    messages: [AUTH_TIMEOUT_MESSAGE],
+    errorCode: ErrorCode.NETWORK_REQUEST_FAILED,
+    message: 'The request timed out. Please check your internet connection and try again.'
+  },
+  {
+    codes: [],
+    messages: ['Failed to fetch', 'NetworkError'],
+    errorCode: ErrorCode.NETWORK_ERROR,
+    message: 'Network error. Please check your internet connection and try again.'
+  }
+];
+
+/**
+ * Turn a Supabase Auth error into an application error
+ *
+ * @param {unknown} error - AuthError, thrown Error or anything else
+ * @param {string} fallbackMessage - Message for errors that aren't recognised
+ * @returns {AppError} Error with an AUTH_* (or network) code and a message to show
+ */
+export function getAuthError(error: unknown, fallbackMessage: string): AppError {
+  const { code, message } = (error && typeof error === 'object' ? error : {}) as AuthErrorLike;
+  const lowerMessage = typeof message === 'string' ? message.toLowerCase() : '';
+
+  const rule = AUTH_ERROR_RULES.find(candidate =>
+    (code && candidate.codes.includes(code)) ||
+    candidate.messages.some(text => lowerMessage.includes(text.toLowerCase()))
+  );
+
+  if (!rule) {
+    return createAppError(ErrorCode.UNKNOWN_ERROR, fallbackMessage, { code, originalMessage: message }, error);
+  }
+  return createAppError(rule.errorCode, rule.message, { code, originalMessage: message }, error);
+}
+
+/**
+ * Read the error Supabase sends back when an email link or OAuth sign-in fails
+ *
+ * @param {string} hash - window.location.hash
+ * @param {string} search - window.location.search
+ * @returns {AppError|null} The error, or null when the URL doesn't carry one
+ */
+export function getAuthRedirectError(hash: string, search: string): AppError | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  new URLSearchParams(search).forEach((value, key) => {
+    if (!params.has(key)) params.set(key, value);
+  });
+
+  const error = params.get('error');
+  const code = params.get('error_code');
+  if (!error && !code) return null;
+
+  return getAuthError(
+    { code: code || undefined, message: params.get('error_description') || error || undefined },
+    "Sign-in didn't complete. Please try again."
+  );
+}
+
+/**
+ * Read the JSON body of a non-2xx response from an auth edge function
+ *
+ * supabase-js only reports the status; the function's `code` and `error`
+ * are in the response it attaches as `context`.
+ *
+ * @param {unknown} error - Error returned by functions.invoke
+ * @returns {Promise<AuthErrorLike & {error?: string}|null>} The body, or null when the request never reached the function
+ */
+export async function readFunctionErrorPayload(error: unknown): Promise<(AuthErrorLike & { error?: string }) | null> {
+  const context = (error as { context?: Response } | null)?.context;
+  if (!context || typeof context.json !== 'function') return null;
+
+  try {
+    return await context.json();
+  } catch {
+    return null;
+  }
+}
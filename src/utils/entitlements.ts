@@ -0,0 +1,60 @@
+/**
+ * Plans and feature flags computed by the get_entitlements RPC
+ *
+ * The server decides what a user may use; these helpers only read its answer.
+ */
+
+export type Plan = 'free' | 'trial' | 'premium';
+
+/** premium_plus is premium billed yearly, with the same features */
+export type SubscriptionTier = 'free' | 'premium' | 'premium_plus';
+
+/** Features gated by plan, matching the rows in entitlement_features */
+export type FeatureKey =
+  | 'affirmation-generator'
+  | 'mood-analyzer'
+  | 'prompt-generator'
+  | 'voice-synthesis'
+  | 'photo-upload'
+  | 'full-history'
+  | 'journal-search'
+  | 'advanced-analytics';
+
+export interface Entitlements {
+  plan: Plan;
+  tier: SubscriptionTier;
+  /** ISO timestamp; null when the user has no profile yet */
+  trial_ends_at: string | null;
+  /** ISO timestamp the paid period ends; null unless on premium */
+  expires_at: string | null;
+  features: Partial<Record<FeatureKey, boolean>>;
+}
+
+export interface TrialStatus {
+  isActive: boolean;
+  daysRemaining: number;
+  trialEndDate: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the entitlements include a feature; unknown features are off
+ */
+export function hasFeature(entitlements: Entitlements | null, feature: FeatureKey): boolean {
+  return entitlements?.features[feature] === true;
+}
+
+/**
+ * Trial end and whole days left, or null when there is no trial to report
+ */
+export function getTrialStatus(entitlements: Entitlements | null, now: Date = new Date()): TrialStatus | null {
+  if (!entitlements?.trial_ends_at) return null;
+
+  const trialEnd = new Date(entitlements.trial_ends_at);
+  return {
+    isActive: entitlements.plan === 'trial',
+    daysRemaining: Math.max(0, Math.ceil((trialEnd.getTime() - now.getTime()) / DAY_MS)),
+    trialEndDate: trialEnd.toISOString()
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Converters from the export-journal-data payload to downloadable formats
+ */
+
+export type ExportFormat = 'json' | 'markdown' | 'csv' | 'zip' | 'pdf';
+
+export interface ExportedEntry {
+  id: string;
+  title: string | null;
+  content: string;
+  mood: string;
+  created_at: string;
+  updated_at?: string;
+  tags?: string[];
+  photo_url?: string | null;
+  photo_filename?: string | null;
+  affirmation_text?: string | null;
+  affirmation_audio_url?: string | null;
+  affirmation_source?: string | null;
+  photo_signed_url?: string | null;
+  affirmation_audio_signed_url?: string | null;
+  /** Private journal columns; exports are written decrypted without them */
+  is_encrypted?: boolean;
+  key_version?: number | null;
+  search_text?: string | null;
+}
+
+export interface JournalExportData {
+  profile: Record<string, unknown>;
+  journal_entries: ExportedEntry[];
+  badges: unknown[];
+  filters?: {
+    start_date: string | null;
+    end_date: string | null;
+    moods: string[];
+  };
+  export_date: string;
+}
+
+/** Archive-relative paths of an entry's media, used to link from Markdown */
+export interface EntryMediaPaths {
+  photo?: string;
+  audio?: string;
+}
+
+/**
+ * Format an ISO timestamp as a local YYYY-MM-DD date
+ */
+export function toLocalDateString(isoDate: string): string {
+  const date = new Date(isoDate);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Convert a local YYYY-MM-DD calendar day to the ISO instant at which it starts
+ *
+ * @param {string} date - Local calendar day
+ * @param {number} [addDays=0] - Days to move forward, e.g. 1 for an exclusive end bound
+ */
+export function startOfLocalDay(date: string, addDays = 0): string {
+  const start = new Date(`${date}T00:00:00`);
+  start.setDate(start.getDate() + addDays);
+  return start.toISOString();
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+}
+
+/**
+ * Build a unique, filesystem-safe base name (no extension) for every entry
+ *
+ * @returns {Map<string, string>} Entry id to base name, e.g. "2025-07-04-morning-walk"
+ */
+export function getEntryFileNames(entries: ExportedEntry[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+
+  for (const entry of entries) {
+    const slug = slugify(entry.title || '') || entry.id.slice(0, 8);
+    const base = `${toLocalDateString(entry.created_at)}-${slug}`;
+
+    let name = base;
+    for (let i = 2; used.has(name); i++) {
+      name = `${base}-${i}`;
+    }
+
+    used.add(name);
+    names.set(entry.id, name);
+  }
+
+  return names;
+}
+
+/**
+ * Quote a value for a CSV cell (RFC 4180)
+ */
+export function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Build a CSV with one row per entry: date, mood, title and tags
+ */
+export function entriesToCsv(entries: ExportedEntry[]): string {
+  const rows = [['date', 'mood', 'title', 'tags']];
+
+  for (const entry of entries) {
+    rows.push([
+      toLocalDateString(entry.created_at),
+      entry.mood,
+      entry.title || '',
+      (entry.tags || []).join(' '),
+    ]);
+  }
+
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Render an entry as Markdown with YAML front-matter
+ *
+ * @param {ExportedEntry} entry - The entry to render
+ * @param {EntryMediaPaths} [media] - Paths of bundled media to reference
+ */
+export function entryToMarkdown(entry: ExportedEntry, media: EntryMediaPaths = {}): string {
+  // JSON strings are valid double-quoted YAML scalars
+  const frontMatter = [
+    '---',
+    `id: ${entry.id}`,
+    `date: ${entry.created_at}`,
+    `mood: ${entry.mood}`,
+    `title: ${JSON.stringify(entry.title || '')}`,
+    `tags: [${(entry.tags || []).map(tag => JSON.stringify(tag)).join(', ')}]`,
+  ];
+
+  if (media.photo) frontMatter.push(`photo: ${JSON.stringify(media.photo)}`);
+  if (media.audio) frontMatter.push(`affirmation_audio: ${JSON.stringify(media.audio)}`);
+  frontMatter.push('---');
+
+  const sections = [frontMatter.join('\n'), `# ${entry.title || 'Untitled Entry'}`, entry.content.trim()];
+
+  if (media.photo) {
+    sections.push(`![Photo](${encodeURI(media.photo)})`);
+  }
+
+  if (entry.affirmation_text) {
+    sections.push(`> ${entry.affirmation_text.trim().replace(/\n/g, '\n> ')}`);
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Guess a file extension for a stored media path
+ */
+export function getFileExtension(path: string | null | undefined, fallback: string): string {
+  const match = (path || '').split('?')[0].match(/\.([a-z0-9]{1,5})$/i);
+  return match ? match[1].toLowerCase() : fallback;
+}
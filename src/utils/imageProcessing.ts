@@ -0,0 +1,148 @@
+/**
+ * Prepare photos for upload
+ *
+ * Photos are redrawn on a canvas before they leave the device. That shrinks
+ * large camera images and drops their EXIF metadata, which can include the
+ * location a photo was taken and the device that took it. The orientation
+ * stored in EXIF is applied while drawing, so photos still come out upright.
+ */
+
+import { AppError, ErrorCode, createAppError } from '../types/errors';
+
+/** Longest side of an uploaded photo, in pixels */
+export const MAX_IMAGE_DIMENSION = 2048;
+
+/** Largest photo accepted before it is resized */
+export const MAX_SOURCE_IMAGE_BYTES = 25 * 1024 * 1024;
+
+/** GIFs are uploaded unchanged, so they keep the old limit */
+export const MAX_GIF_BYTES = 5 * 1024 * 1024;
+
+/** Photo types that can be attached to an entry */
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const JPEG_QUALITY = 0.85;
+
+/**
+ * A photo ready to upload, with the details stored next to it
+ * @interface ProcessedImage
+ */
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+/**
+ * Check that a file can be attached as a photo
+ *
+ * @param {File} file - File picked by the user
+ * @returns {AppError|null} Why the file can't be used, or null if it can
+ */
+export function validateImageFile(file: File): AppError | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return createAppError(
+      ErrorCode.MEDIA_INVALID_TYPE,
+      'Please select a valid image file (JPEG, PNG, GIF, or WebP)',
+      { fileType: file.type }
+    );
+  }
+
+  const maxSize = file.type === 'image/gif' ? MAX_GIF_BYTES : MAX_SOURCE_IMAGE_BYTES;
+  if (file.size > maxSize) {
+    return createAppError(
+      ErrorCode.MEDIA_TOO_LARGE,
+      `Image must be smaller than ${Math.round(maxSize / (1024 * 1024))}MB`,
+      { fileSize: file.size, maxSize }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Size of an image scaled down to fit within a square, keeping its aspect ratio
+ *
+ * @param {number} width - Original width
+ * @param {number} height - Original height
+ * @param {number} [maxDimension] - Longest side allowed
+ * @returns {{width: number, height: number}} Scaled size, never larger than the original
+ */
+export function getScaledSize(
+  width: number,
+  height: number,
+  maxDimension = MAX_IMAGE_DIMENSION
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * Type to re-encode a photo as: PNG and WebP keep transparency, everything else becomes JPEG
+ */
+export function getOutputType(inputType: string): 'image/png' | 'image/webp' | 'image/jpeg' {
+  if (inputType === 'image/png' || inputType === 'image/webp') return inputType;
+  return 'image/jpeg';
+}
+
+/**
+ * Replace the extension of a file name to match its new type
+ */
+export function renameForType(fileName: string, type: string): string {
+  const extension = type === 'image/png' ? 'png' : type === 'image/webp' ? 'webp' : 'jpg';
+  const base = fileName.replace(/\.[^./]+$/, '') || 'photo';
+  return `${base}.${extension}`;
+}
+
+/**
+ * Resize a photo and strip its metadata
+ *
+ * GIFs are uploaded as they are so animations keep playing; they carry no EXIF.
+ *
+ * @param {File} file - Photo picked by the user
+ * @returns {Promise<ProcessedImage>} Re-encoded photo and its size
+ * @throws {Error} When the browser can't decode the image
+ */
+export async function prepareImageForUpload(file: File): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    if (file.type === 'image/gif') {
+      return { file, width: bitmap.width, height: bitmap.height };
+    }
+
+    const { width, height } = getScaledSize(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+
+    const type = getOutputType(file.type);
+    if (type === 'image/jpeg') {
+      // JPEG has no transparency; fill it white rather than black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY));
+    if (!blob) {
+      throw new Error('The photo could not be encoded');
+    }
+
+    return {
+      file: new File([blob], renameForType(file.name, type), { type, lastModified: Date.now() }),
+      width,
+      height
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,591 @@
+/**
+ * Parsers that turn other journaling apps' exports into journal entries
+ *
+ * Supported sources:
+ * - Day One JSON exports (a bare Journal.json or the exported ZIP with photos)
+ * - Journey ZIP exports (one JSON file per entry, photos alongside)
+ * - A folder (or ZIP) of Markdown files with optional YAML front-matter
+ * - Zensai's own export-journal-data JSON and ZIP archives, so backups round-trip
+ */
+
+import { normalizeTags } from './tagUtils';
+import { ExportedEntry, getEntryFileNames, getFileExtension } from './exportFormats';
+
+export type ImportSource = 'dayone' | 'journey' | 'markdown' | 'zensai';
+
+export type ImportMood = 'struggling' | 'low' | 'neutral' | 'good' | 'amazing';
+
+/** A file picked by the user, or extracted from a picked ZIP */
+export interface ImportFile {
+  /** Path relative to the picked folder or archive root, using forward slashes */
+  path: string;
+  data: Uint8Array;
+  /** Last modified time in ms, when the browser provides one */
+  lastModified?: number;
+}
+
+export interface ImportedPhoto {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ImportedEntry {
+  /** Unique within one import, used to track the preview selection */
+  key: string;
+  source: ImportSource;
+  title: string | null;
+  content: string;
+  mood: ImportMood;
+  created_at: string;
+  tags: string[];
+  photo?: ImportedPhoto;
+  /** Storage paths reused from a Zensai backup of the same account */
+  photo_path?: string | null;
+  photo_filename?: string | null;
+  affirmation_text?: string | null;
+  affirmation_audio_path?: string | null;
+  affirmation_source?: string | null;
+  /** Set by markDuplicates when the entry already exists */
+  duplicate?: boolean;
+}
+
+export interface ImportParseResult {
+  entries: ImportedEntry[];
+  /** Human-readable notes about anything that was skipped or approximated */
+  warnings: string[];
+}
+
+const MOODS: ImportMood[] = ['struggling', 'low', 'neutral', 'good', 'amazing'];
+
+const MOOD_SYNONYMS: Record<string, ImportMood> = {
+  awful: 'struggling',
+  terrible: 'struggling',
+  bad: 'low',
+  sad: 'low',
+  meh: 'neutral',
+  ok: 'neutral',
+  okay: 'neutral',
+  fine: 'neutral',
+  happy: 'good',
+  great: 'amazing',
+  excellent: 'amazing',
+  fantastic: 'amazing',
+};
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'heic'];
+
+/**
+ * Map a mood from another app onto one of our five moods
+ *
+ * Accepts our own mood names, a handful of common synonyms, and 1-5 ratings.
+ */
+export function parseMood(value: unknown): ImportMood | null {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5) {
+    return MOODS[value - 1];
+  }
+
+  if (typeof value !== 'string') return null;
+
+  const mood = value.trim().toLowerCase();
+  if ((MOODS as string[]).includes(mood)) return mood as ImportMood;
+  if (MOOD_SYNONYMS[mood]) return MOOD_SYNONYMS[mood];
+  if (/^[1-5]$/.test(mood)) return MOODS[Number(mood) - 1];
+  return null;
+}
+
+/**
+ * Key used to recognise an entry that was already imported or written
+ *
+ * Entries match when they were created in the same second and start with the
+ * same text, ignoring whitespace and case.
+ */
+export function getDuplicateKey(createdAt: string, content: string): string {
+  const second = new Date(createdAt).toISOString().slice(0, 19);
+  const text = content.replace(/\s+/g, ' ').trim().toLowerCase().slice(0, 100);
+  return `${second}|${text}`;
+}
+
+/**
+ * Flag entries that match an existing entry or an earlier entry in the same import
+ *
+ * @param {ImportedEntry[]} entries - Parsed entries
+ * @param {Set<string>} existingKeys - Duplicate keys of entries already in the journal
+ * @returns {ImportedEntry[]} The entries with `duplicate` set
+ */
+export function markDuplicates(entries: ImportedEntry[], existingKeys: Set<string>): ImportedEntry[] {
+  const seen = new Set(existingKeys);
+
+  return entries.map(entry => {
+    const key = getDuplicateKey(entry.created_at, entry.content);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...entry, duplicate };
+  });
+}
+
+function decodeText(data: Uint8Array): string {
+  // Strip a UTF-8 byte order mark, which some editors add
+  return new TextDecoder().decode(data).replace(/^\uFEFF/, '');
+}
+
+function getBaseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+function getDirName(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index) : '';
+}
+
+/**
+ * Resolve a relative link against the directory of the file it appears in
+ */
+function resolvePath(fromDir: string, link: string): string {
+  const parts = fromDir ? fromDir.split('/') : [];
+
+  for (const segment of decodeURI(link).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+
+  return parts.join('/');
+}
+
+function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime());
+}
+
+/**
+ * Parse a date string; plain YYYY-MM-DD dates are read as local noon so they
+ * stay on the same calendar day in every timezone
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value === 'number') {
+    const date = new Date(value);
+    return isValidDate(date) ? date : null;
+  }
+
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const text = value.trim();
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(text) ? new Date(`${text}T12:00:00`) : new Date(text);
+  return isValidDate(date) ? date : null;
+}
+
+/**
+ * Convert the small amount of HTML that Journey stores in entries to plain text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Split "# Heading" off the first line of an entry
+ */
+function splitHeading(text: string): { title: string | null; body: string } {
+  const match = text.match(/^\s*#{1,6}[ \t]+(.+?)[ \t]*(?:\r?\n|$)/);
+  if (!match) return { title: null, body: text.trim() };
+  return { title: match[1].trim(), body: text.slice(match[0].length).trim() };
+}
+
+type FrontMatterValue = string | string[];
+
+function parseFrontMatterValue(raw: string): FrontMatterValue {
+  const value = raw.trim();
+
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value
+      .slice(1, -1)
+      .split(',')
+      .map(item => parseFrontMatterValue(item) as string)
+      .filter(Boolean);
+  }
+
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  return value;
+}
+
+/**
+ * Read the simple YAML front-matter used by Markdown journals
+ *
+ * Handles `key: value` pairs, quoted strings, inline `[a, b]` lists and
+ * block lists of `- item` lines, which covers Obsidian, Jekyll and our own export.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, FrontMatterValue>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const list = Array.isArray(data[listKey]) ? (data[listKey] as string[]) : [];
+      list.push(parseFrontMatterValue(item[1]) as string);
+      data[listKey] = list;
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const key = pair[1].toLowerCase();
+    if (pair[2].trim() === '') {
+      listKey = key;
+      data[key] = [];
+    } else {
+      listKey = null;
+      data[key] = parseFrontMatterValue(pair[2]);
+    }
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+function asString(value: FrontMatterValue | undefined): string | null {
+  if (value === undefined) return null;
+  return Array.isArray(value) ? value.join(' ') : value;
+}
+
+function asList(value: FrontMatterValue | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : value.split(/[,\s]+/);
+}
+
+/**
+ * Look up files by full path, falling back to their base name, since exports
+ * don't always agree on where photos live relative to the entries
+ */
+class FileIndex {
+  private byPath = new Map<string, ImportFile>();
+  private byName = new Map<string, ImportFile>();
+
+  constructor(files: ImportFile[]) {
+    for (const file of files) {
+      this.byPath.set(file.path.toLowerCase(), file);
+      this.byName.set(getBaseName(file.path).toLowerCase(), file);
+    }
+  }
+
+  find(path: string): ImportFile | undefined {
+    const key = path.toLowerCase();
+    return this.byPath.get(key) || this.byName.get(getBaseName(key));
+  }
+
+  findByPrefix(prefix: string): ImportFile | undefined {
+    const key = prefix.toLowerCase();
+    for (const [path, file] of this.byPath) {
+      if (path.startsWith(key) && IMAGE_EXTENSIONS.includes(getFileExtension(path, ''))) {
+        return file;
+      }
+    }
+    return undefined;
+  }
+}
+
+function toPhoto(file: ImportFile | undefined): ImportedPhoto | undefined {
+  return file ? { name: getBaseName(file.path), data: file.data } : undefined;
+}
+
+interface DayOnePhoto {
+  identifier?: string;
+  md5?: string;
+  type?: string;
+}
+
+interface DayOneEntry {
+  uuid?: string;
+  creationDate?: string;
+  text?: string;
+  tags?: string[];
+  photos?: DayOnePhoto[];
+}
+
+/**
+ * Remove the backslash escapes Day One adds to Markdown punctuation
+ */
+function unescapeDayOne(text: string): string {
+  return text.replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1');
+}
+
+/**
+ * Parse a Day One JSON export
+ *
+ * Photos are referenced from the text as `dayone-moment://<identifier>` and
+ * stored in the archive as `photos/<md5>.<type>`. Day One has no mood, so
+ * entries are imported as neutral.
+ */
+function parseDayOneJson(json: { entries?: DayOneEntry[] }, index: FileIndex, warnings: string[]): ImportedEntry[] {
+  const entries: ImportedEntry[] = [];
+  let extraPhotos = 0;
+
+  for (const [i, raw] of (json.entries || []).entries()) {
+    const date = parseDate(raw.creationDate);
+    const text = unescapeDayOne(raw.text || '')
+      .replace(/!\[[^\]]*\]\(dayone-moment:\/\/[^)]*\)\s*/g, '')
+      .trim();
+
+    if (!date || !text) continue;
+
+    const { title, body } = splitHeading(text);
+    const photos = raw.photos || [];
+    const first = photos[0];
+    if (photos.length > 1) extraPhotos += photos.length - 1;
+
+    entries.push({
+      key: `dayone-${raw.uuid || i}`,
+      source: 'dayone',
+      title,
+      content: body || text,
+      mood: 'neutral',
+      created_at: date.toISOString(),
+      tags: normalizeTags(raw.tags || []),
+      photo: first?.md5 ? toPhoto(index.findByPrefix(`photos/${first.md5}.`)) : undefined,
+    });
+  }
+
+  if (extraPhotos > 0) {
+    warnings.push(`${extraPhotos} additional Day One photos were skipped; only the first photo of each entry is imported.`);
+  }
+
+  return entries;
+}
+
+interface JourneyEntry {
+  id?: string;
+  date_journal?: number;
+  text?: string;
+  type?: string;
+  tags?: string[];
+  photos?: string[];
+  mood?: unknown;
+  sentiment?: number;
+}
+
+/**
+ * Map Journey's sentiment score (-1 to 1, 0 when unset) onto a mood
+ */
+function sentimentToMood(sentiment: number | undefined): ImportMood {
+  if (typeof sentiment !== 'number' || sentiment === 0) return 'neutral';
+  if (sentiment <= -0.6) return 'struggling';
+  if (sentiment < -0.2) return 'low';
+  if (sentiment < 0.2) return 'neutral';
+  if (sentiment < 0.6) return 'good';
+  return 'amazing';
+}
+
+/**
+ * Parse one Journey entry file
+ */
+function parseJourneyEntry(raw: JourneyEntry, path: string, index: FileIndex): ImportedEntry | null {
+  const date = parseDate(raw.date_journal);
+  const rawText = raw.text || '';
+  const text = raw.type === 'markdown' || !/<[a-z][\s\S]*>/i.test(rawText) ? rawText.trim() : htmlToText(rawText);
+
+  if (!date || !text) return null;
+
+  const { title, body } = splitHeading(text);
+  const photoName = raw.photos?.[0];
+
+  return {
+    key: `journey-${raw.id || path}`,
+    source: 'journey',
+    title,
+    content: body || text,
+    mood: parseMood(raw.mood) || sentimentToMood(raw.sentiment),
+    created_at: date.toISOString(),
+    tags: normalizeTags(raw.tags || []),
+    photo: photoName ? toPhoto(index.find(resolvePath(getDirName(path), photoName))) : undefined,
+  };
+}
+
+/**
+ * Parse a Markdown file with optional front-matter
+ *
+ * The title comes from front-matter or a leading `# Heading`; the date from
+ * front-matter, a YYYY-MM-DD file name prefix, or the file's modified time.
+ * The photo is the front-matter `photo` or the first local image in the text.
+ */
+function parseMarkdownEntry(file: ImportFile, index: FileIndex): ImportedEntry | null {
+  const { data, body } = parseFrontMatter(decodeText(file.data));
+  const heading = splitHeading(body);
+  const frontTitle = asString(data.title);
+
+  let title = frontTitle || heading.title;
+  let content = heading.body;
+  // Only drop the heading when it is the title, so headings in notes survive
+  if (frontTitle && heading.title && heading.title !== frontTitle) {
+    content = body.trim();
+  }
+  if (frontTitle === '' && heading.title === 'Untitled Entry') {
+    title = null;
+  }
+
+  const fileDate = getBaseName(file.path).match(/^(\d{4}-\d{2}-\d{2})/);
+  const date =
+    parseDate(asString(data.date) ?? asString(data.created_at)) ||
+    (fileDate ? parseDate(fileDate[1]) : null) ||
+    (file.lastModified ? new Date(file.lastModified) : null);
+
+  const image = content.match(/!\[[^\]]*\]\((?!https?:)([^)\s]+)\)/);
+  const photoLink = asString(data.photo) || (image ? image[1] : null);
+  const photoPath = photoLink ? resolvePath(getDirName(file.path), photoLink) : null;
+  const photoFile = photoPath ? index.find(photoPath) : undefined;
+
+  // The photo is stored with the entry, so drop its inline link from the text
+  if (photoFile && image && resolvePath(getDirName(file.path), image[1]) === photoPath) {
+    content = content.replace(image[0], '');
+  }
+
+  // Our own export quotes the affirmation at the end of the entry
+  let affirmation: string | null = null;
+  if (data.id) {
+    const quote = content.trim().match(/\n\n((?:> ?.*(?:\n|$))+)$/);
+    if (quote) {
+      affirmation = quote[1].replace(/^> ?/gm, '').trim();
+      content = content.trim().slice(0, quote.index);
+    }
+  }
+
+  content = content.trim();
+  if (!content || !date) return null;
+
+  return {
+    key: `markdown-${file.path}`,
+    source: 'markdown',
+    title: title || null,
+    content,
+    mood: parseMood(asString(data.mood)) || 'neutral',
+    created_at: date.toISOString(),
+    tags: normalizeTags(asList(data.tags)),
+    photo: toPhoto(photoFile),
+    affirmation_text: affirmation,
+  };
+}
+
+/**
+ * Parse Zensai's own export-journal-data payload
+ *
+ * In a ZIP export, photos are matched by the same file names the exporter gave
+ * them. Storage paths are only reused when they belong to the importing user,
+ * since other accounts' files are not readable.
+ */
+function parseZensaiExport(
+  json: { journal_entries?: ExportedEntry[] },
+  index: FileIndex,
+  userId?: string
+): ImportedEntry[] {
+  const exported = (json.journal_entries || []).filter(entry => entry && typeof entry.content === 'string');
+  const names = getEntryFileNames(exported);
+  const ownPath = (path: string | null | undefined) => (userId && path?.startsWith(`${userId}/`) ? path : null);
+
+  return exported.flatMap(entry => {
+    const date = parseDate(entry.created_at);
+    if (!date || !entry.content.trim()) return [];
+
+    const photo = toPhoto(index.findByPrefix(`photos/${names.get(entry.id)}.`));
+
+    return [{
+      key: `zensai-${entry.id}`,
+      source: 'zensai' as const,
+      title: entry.title || null,
+      content: entry.content,
+      mood: parseMood(entry.mood) || 'neutral',
+      created_at: date.toISOString(),
+      tags: normalizeTags(entry.tags || []),
+      photo,
+      photo_path: photo ? null : ownPath(entry.photo_url),
+      photo_filename: entry.photo_filename || null,
+      affirmation_text: entry.affirmation_text || null,
+      affirmation_audio_path: ownPath(entry.affirmation_audio_url),
+      affirmation_source: entry.affirmation_source || null,
+    }];
+  });
+}
+
+function isMarkdownPath(path: string): boolean {
+  return /\.(md|markdown)$/i.test(path);
+}
+
+function isHiddenPath(path: string): boolean {
+  return path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+}
+
+/**
+ * Work out what kind of export the files are and parse every entry in them
+ *
+ * JSON sources take precedence over Markdown so that a Zensai ZIP, which
+ * contains both journal.json and Markdown copies, is only imported once.
+ *
+ * @param {ImportFile[]} files - Picked files, with ZIPs already extracted
+ * @param {string} [userId] - The importing user, to reuse their own storage paths
+ * @returns {ImportParseResult} Entries sorted oldest first, plus warnings
+ */
+export function parseImportFiles(files: ImportFile[], userId?: string): ImportParseResult {
+  const visible = files.filter(file => !isHiddenPath(file.path));
+  const index = new FileIndex(visible);
+  const warnings: string[] = [];
+  const entries: ImportedEntry[] = [];
+  let unreadable = 0;
+
+  for (const file of visible.filter(f => /\.json$/i.test(f.path))) {
+    let json: unknown;
+    try {
+      json = JSON.parse(decodeText(file.data));
+    } catch {
+      unreadable += 1;
+      continue;
+    }
+
+    if (!json || typeof json !== 'object') continue;
+    const record = json as Record<string, unknown>;
+
+    if (Array.isArray(record.journal_entries)) {
+      entries.push(...parseZensaiExport(record as { journal_entries: ExportedEntry[] }, index, userId));
+    } else if (Array.isArray(record.entries)) {
+      entries.push(...parseDayOneJson(record as { entries: DayOneEntry[] }, index, warnings));
+    } else if ('date_journal' in record) {
+      const entry = parseJourneyEntry(record as JourneyEntry, file.path, index);
+      if (entry) entries.push(entry);
+    }
+  }
+
+  if (entries.length === 0) {
+    for (const file of visible.filter(f => isMarkdownPath(f.path))) {
+      const entry = parseMarkdownEntry(file, index);
+      if (entry) entries.push(entry);
+      else unreadable += 1;
+    }
+  }
+
+  if (unreadable > 0) {
+    warnings.push(`${unreadable} ${unreadable === 1 ? 'file was' : 'files were'} skipped because they could not be read.`);
+  }
+
+  entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return { entries, warnings };
+}
@@ -0,0 +1,57 @@
+/**
+ * Helpers for two-factor sign-in
+ *
+ * Supabase marks a session that has passed a second factor with `aal: "aal2"`
+ * in its access token. These read that claim straight from the session so the
+ * auth state listener can use them; calling the Supabase client from inside
+ * the listener would wait on the lock the listener already holds.
+ */
+import type { Session } from '@supabase/supabase-js';
+
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+/** Digits in an authenticator app code */
+export const TOTP_CODE_LENGTH = 6;
+
+/**
+ * Read the assurance level from an access token
+ *
+ * @param {string} accessToken - The session's JWT
+ * @returns {AssuranceLevel|null} The level, or null when the token can't be read
+ */
+export function getAssuranceLevel(accessToken: string): AssuranceLevel | null {
+  const payload = accessToken.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+    const claims = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+    return claims.aal === 'aal1' || claims.aal === 'aal2' ? claims.aal : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a session still has to pass the user's second factor
+ *
+ * @param {Session|null} session - Session from sign-in or the auth state listener
+ * @returns {boolean} True when the user has a verified factor and the session hasn't used it
+ */
+export function isMfaChallengePending(session: Session | null): boolean {
+  if (!session) return false;
+
+  const hasVerifiedFactor = (session.user.factors || []).some(factor => factor.status === 'verified');
+  return hasVerifiedFactor && getAssuranceLevel(session.access_token) !== 'aal2';
+}
+
+/**
+ * Keep only the digits of a code as it's typed or pasted
+ *
+ * @param {string} value - Input value
+ * @returns {string} Up to TOTP_CODE_LENGTH digits
+ */
+export function sanitizeTotpCode(value: string): string {
+  return value.replace(/\D/g, '').slice(0, TOTP_CODE_LENGTH);
+}
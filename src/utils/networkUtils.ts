@@ -32,6 +32,26 @@ export const isRetryableError = (error: any): boolean => {
   return false;
 };
 
+/**
+ * Check if an error means the server could not be reached at all
+ *
+ * Covers raw fetch failures, timeouts, the error withRetry throws in their place,
+ * and Supabase error objects wrapping a failed fetch.
+ */
+export const isOfflineError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return true;
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return true;
+  }
+
+  const message = error && typeof error === 'object' && 'message' in error
+    ? String((error as { message: unknown }).message)
+    : '';
+  return message.includes('Failed to fetch') || message.startsWith('Unable to connect to the server');
+};
+
 /**
  * Execute a function with retry logic
  * 
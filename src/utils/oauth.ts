@@ -0,0 +1,8 @@
+/**
+ * OAuth providers users can sign in with or link to their account
+ */
+
+export type OAuthProvider = 'google' | 'apple';
+
+/** OAuth providers offered on the sign-in screen and in Settings */
+export const OAUTH_PROVIDERS: OAuthProvider[] = ['google', 'apple'];
@@ -0,0 +1,90 @@
+/**
+ * Rules for replaying offline changes against the server
+ *
+ * Conflicts are settled by updated_at: a queued change wins if it was made
+ * after the server copy was last changed, otherwise the server copy is kept.
+ */
+
+import { QueuedOperation } from '../lib/offlineStore';
+
+export interface SyncDecision {
+  /** Whether the queued change should be sent */
+  apply: boolean;
+  /** Whether the entry was changed elsewhere since the queued change was made against it */
+  conflict: boolean;
+}
+
+interface SyncableEntry {
+  id: string;
+  updated_at: string;
+  created_at: string;
+  pendingSync?: boolean;
+}
+
+/**
+ * Decide what to do with a queued change given the server's copy of the entry
+ *
+ * @param {QueuedOperation} operation - The queued change
+ * @param {Object|null} server - The entry's current updated_at, or null if it doesn't exist
+ * @returns {SyncDecision} Whether to apply the change and whether it conflicted
+ */
+export function resolveQueuedOperation(
+  operation: QueuedOperation,
+  server: { updated_at: string } | null
+): SyncDecision {
+  if (operation.type === 'add') {
+    // Entries get their id on the device, so an existing row means an earlier replay got through
+    return { apply: server === null, conflict: false };
+  }
+
+  // Nothing left to update or delete
+  if (!server) {
+    return { apply: false, conflict: operation.type === 'update' };
+  }
+
+  const serverTime = Date.parse(server.updated_at);
+  const conflict = operation.baseUpdatedAt !== null && serverTime > Date.parse(operation.baseUpdatedAt);
+
+  return {
+    apply: Date.parse(operation.queuedAt) >= serverTime,
+    conflict
+  };
+}
+
+/**
+ * Show queued changes on top of entries loaded from the server
+ *
+ * New entries are added in date order, edits are merged in and deletions are
+ * hidden. Every entry with a queued change is marked as pending.
+ *
+ * @param {SyncableEntry[]} entries - Entries as loaded from the server, newest first
+ * @param {QueuedOperation[]} operations - Queued changes, oldest first
+ * @param {function} toEntry - Builds an entry from a queued add
+ * @returns {SyncableEntry[]} Entries as the user expects to see them
+ */
+export function applyQueuedOperations<T extends SyncableEntry>(
+  entries: T[],
+  operations: QueuedOperation[],
+  toEntry: (operation: QueuedOperation) => T
+): T[] {
+  let result = [...entries];
+
+  for (const operation of operations) {
+    const index = result.findIndex(entry => entry.id === operation.entryId);
+
+    if (operation.type === 'add') {
+      if (index === -1) result.push(toEntry(operation));
+    } else if (operation.type === 'update') {
+      if (index !== -1) {
+        result[index] = { ...result[index], ...operation.fields, updated_at: operation.queuedAt };
+      }
+    } else {
+      result = result.filter(entry => entry.id !== operation.entryId);
+    }
+  }
+
+  const pendingIds = new Set(operations.map(operation => operation.entryId));
+  return result
+    .map(entry => (pendingIds.has(entry.id) ? { ...entry, pendingSync: true } : entry))
+    .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+}
@@ -0,0 +1,48 @@
+/**
+ * Password policy for new passwords
+ *
+ * The rules live with the edge functions so update-password enforces exactly
+ * what the app checks as the user types. Signing in is never held to them;
+ * older accounts may still have shorter passwords.
+ */
+import { PwnedPasswordsProvider, isPasswordBreached } from '../../supabase/functions/_shared/passwordPolicy.ts';
+import type { BreachedPasswordProvider } from '../../supabase/functions/_shared/passwordPolicy.ts';
+
+export {
+  MIN_PASSWORD_LENGTH,
+  PASSWORD_PROBLEM_MESSAGES,
+  evaluatePassword,
+  isPasswordBreached
+} from '../../supabase/functions/_shared/passwordPolicy.ts';
+export type {
+  BreachedPasswordProvider,
+  PasswordContext,
+  PasswordEvaluation,
+  PasswordScore
+} from '../../supabase/functions/_shared/passwordPolicy.ts';
+
+/** Breached-password lookups are off unless VITE_PASSWORD_BREACH_CHECK is "true" */
+export const isBreachCheckEnabled = import.meta.env.VITE_PASSWORD_BREACH_CHECK === 'true';
+
+/**
+ * Check a new password against known breaches, if the check is turned on
+ *
+ * Fails open: an unreachable breach service shouldn't stop anyone signing up.
+ *
+ * @param {string} password - The password being set
+ * @param {BreachedPasswordProvider} [provider] - Where to look up hash prefixes
+ * @returns {Promise<boolean>} Whether the password was found in a breach
+ */
+export async function checkPasswordBreached(
+  password: string,
+  provider: BreachedPasswordProvider = new PwnedPasswordsProvider()
+): Promise<boolean> {
+  if (!isBreachCheckEnabled) return false;
+
+  try {
+    return await isPasswordBreached(password, provider);
+  } catch (error) {
+    console.warn('Breached password check failed:', error);
+    return false;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Paginated PDF rendering of journal entries in a diary theme
+ */
+
+import type { jsPDF } from 'jspdf';
+import type { DiaryTheme } from '../data/diaryThemes';
+import type { ExportedEntry } from './exportFormats';
+
+const PAGE_MARGIN = 56;
+const BODY_FONT_SIZE = 11;
+const LINE_HEIGHT = BODY_FONT_SIZE * 1.5;
+
+/**
+ * Pick a solid colour for the page background
+ * Gradients can't be drawn directly, so use their first colour stop.
+ */
+export function getSolidColor(cssBackground: string): string {
+  const hex = cssBackground.match(/#[0-9a-f]{6}\b|#[0-9a-f]{3}\b/i);
+  return hex ? hex[0] : '#ffffff';
+}
+
+/**
+ * Map a CSS font stack to one of the fonts built into jsPDF
+ */
+export function getPdfFont(fontFamily: string): 'times' | 'courier' | 'helvetica' {
+  const family = fontFamily.toLowerCase();
+  if (family.includes('mono')) return 'courier';
+  if (family.includes('serif') && !family.includes('sans-serif')) return 'times';
+  if (family.includes('georgia') || family.includes('cursive')) return 'times';
+  return 'helvetica';
+}
+
+function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Render entries into a themed PDF
+ *
+ * @param {ExportedEntry[]} entries - Entries in the order they should appear
+ * @param {DiaryTheme} theme - Diary theme to style the pages with
+ * @param {string} coverTitle - Title shown on the cover page
+ * @param {string} [coverSubtitle] - Line under the title, e.g. the date range
+ * @returns {Promise<Blob>} The PDF file
+ */
+export async function buildJournalPdf(
+  entries: ExportedEntry[],
+  theme: DiaryTheme,
+  coverTitle: string,
+  coverSubtitle?: string
+): Promise<Blob> {
+  // jsPDF is large, so only load it when someone actually exports a PDF
+  const { jsPDF: JsPdf } = await import('jspdf');
+  const doc: jsPDF = new JsPdf({ unit: 'pt', format: 'a4' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const background = getSolidColor(theme.background);
+  const font = getPdfFont(theme.fontFamily);
+  let pageNumber = 0;
+
+  const paintPage = () => {
+    doc.setFillColor(background);
+    doc.rect(0, 0, pageWidth, pageHeight, 'F');
+    doc.setTextColor(theme.color);
+    doc.setFont(font, 'normal');
+  };
+
+  const addPageNumber = () => {
+    pageNumber += 1;
+    doc.setFontSize(9);
+    doc.text(`${pageNumber}`, pageWidth / 2, pageHeight - PAGE_MARGIN / 2, { align: 'center' });
+  };
+
+  // Cover page
+  paintPage();
+  doc.setFont(font, 'bold');
+  doc.setFontSize(28);
+  doc.text(coverTitle, pageWidth / 2, pageHeight / 2 - 20, { align: 'center', maxWidth: contentWidth });
+  doc.setFont(font, 'normal');
+  doc.setFontSize(12);
+  if (coverSubtitle) {
+    doc.text(coverSubtitle, pageWidth / 2, pageHeight / 2 + 12, { align: 'center' });
+  }
+  doc.text(
+    `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`,
+    pageWidth / 2,
+    pageHeight / 2 + 32,
+    { align: 'center' }
+  );
+
+  // Each entry starts on a new page and flows onto more pages as needed
+  for (const entry of entries) {
+    doc.addPage();
+    paintPage();
+    let y = PAGE_MARGIN;
+
+    doc.setFontSize(9);
+    doc.text(formatDate(entry.created_at).toUpperCase(), PAGE_MARGIN, y);
+    y += 24;
+
+    doc.setFont(font, 'bold');
+    doc.setFontSize(18);
+    const titleLines: string[] = doc.splitTextToSize(entry.title || 'Untitled Entry', contentWidth);
+    doc.text(titleLines, PAGE_MARGIN, y);
+    y += titleLines.length * 22;
+
+    doc.setFont(font, 'italic');
+    doc.setFontSize(10);
+    const details = [`Mood: ${entry.mood}`];
+    if (entry.tags && entry.tags.length > 0) {
+      details.push(entry.tags.map(tag => `#${tag}`).join(' '));
+    }
+    doc.text(details.join('   '), PAGE_MARGIN, y);
+    y += 24;
+
+    doc.setFont(font, 'normal');
+    doc.setFontSize(BODY_FONT_SIZE);
+    const paragraphs = [entry.content.trim()];
+    if (entry.affirmation_text) {
+      paragraphs.push(`“${entry.affirmation_text.trim()}”`);
+    }
+
+    for (const paragraph of paragraphs) {
+      const lines: string[] = doc.splitTextToSize(paragraph, contentWidth);
+      for (const line of lines) {
+        if (y > pageHeight - PAGE_MARGIN) {
+          addPageNumber();
+          doc.addPage();
+          paintPage();
+          doc.setFontSize(BODY_FONT_SIZE);
+          y = PAGE_MARGIN;
+        }
+        doc.text(line, PAGE_MARGIN, y);
+        y += LINE_HEIGHT;
+      }
+      y += LINE_HEIGHT / 2;
+    }
+
+    addPageNumber();
+  }
+
+  return doc.output('blob');
+}
@@ -0,0 +1,46 @@
+/**
+ * Helpers for highlighted snippets returned by search_journal_entries
+ *
+ * The RPC wraps each match in private-use characters instead of HTML tags, so
+ * entry text never needs to be parsed or sanitised as markup.
+ */
+
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_END = '\uE001';
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a highlighted string into plain and highlighted runs
+ *
+ * @param {string} text - Text containing highlight markers
+ * @returns {HighlightPart[]} Runs in order; empty runs are dropped
+ */
+export function splitHighlights(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let highlighted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (current) parts.push({ text: current, highlighted });
+      current = '';
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) parts.push({ text: current, highlighted });
+  return parts;
+}
+
+/**
+ * Remove highlight markers, e.g. for aria labels
+ */
+export function stripHighlights(text: string): string {
+  return text.split(HIGHLIGHT_START).join('').split(HIGHLIGHT_END).join('');
+}
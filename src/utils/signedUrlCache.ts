@@ -0,0 +1,114 @@
+/**
+ * Signed URLs for the private media buckets
+ *
+ * URLs are requested in one batch per bucket and cached until shortly before
+ * they expire, so re-rendering or reloading entries does not go back to storage.
+ */
+
+import { supabase } from '../lib/supabase';
+import { withRetry } from './networkUtils';
+
+export type MediaBucket = 'journal-photos' | 'affirmation-audio' | 'journal-audio';
+
+export const SIGNED_URL_TTL_SECONDS = 3600;
+
+/** Treat URLs as expired this long before they actually are */
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CachedUrl>();
+
+const cacheKey = (bucket: MediaBucket, path: string) => `${bucket}/${path}`;
+
+/**
+ * Turn a stored media URL or path into a path inside its bucket
+ *
+ * @param {string} url - Full storage URL or bucket-relative path
+ * @param {MediaBucket} bucket - Bucket the file lives in
+ * @returns {string} Path relative to the bucket
+ */
+export function getStoragePath(url: string, bucket: MediaBucket): string {
+  const match = url.match(new RegExp(`/${bucket}/(.+)$`));
+  return url.startsWith('http') && match ? match[1] : url.replace(/^\/+/, '');
+}
+
+/**
+ * Look up a cached signed URL that is still valid
+ *
+ * @param {MediaBucket} bucket - Bucket the file lives in
+ * @param {string} path - Path relative to the bucket
+ * @returns {string|undefined} The signed URL, if cached and not about to expire
+ */
+export function getCachedSignedUrl(bucket: MediaBucket, path: string): string | undefined {
+  const cached = cache.get(cacheKey(bucket, path));
+  if (!cached) return undefined;
+
+  if (cached.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+    cache.delete(cacheKey(bucket, path));
+    return undefined;
+  }
+
+  return cached.url;
+}
+
+/**
+ * Get signed URLs for a set of paths, signing any uncached ones in one request
+ *
+ * Paths that could not be signed are left out of the result.
+ *
+ * @param {MediaBucket} bucket - Bucket the files live in
+ * @param {string[]} paths - Paths relative to the bucket
+ * @returns {Promise<Map<string, string>>} Signed URL by path
+ */
+export async function getSignedUrls(bucket: MediaBucket, paths: string[]): Promise<Map<string, string>> {
+  const signed = new Map<string, string>();
+  const missing = new Set<string>();
+
+  for (const path of paths) {
+    const cached = getCachedSignedUrl(bucket, path);
+    if (cached) {
+      signed.set(path, cached);
+    } else {
+      missing.add(path);
+    }
+  }
+
+  if (missing.size === 0 || !supabase) return signed;
+
+  const client = supabase;
+  try {
+    const requestedAt = Date.now();
+    const data = await withRetry(async () => {
+      const { data, error } = await client.storage
+        .from(bucket)
+        .createSignedUrls([...missing], SIGNED_URL_TTL_SECONDS);
+
+      if (error) throw error;
+      return data || [];
+    }, `Sign ${missing.size} ${bucket} URLs`);
+
+    for (const item of data) {
+      if (!item.path || !item.signedUrl || item.error) continue;
+      signed.set(item.path, item.signedUrl);
+      cache.set(cacheKey(bucket, item.path), {
+        url: item.signedUrl,
+        expiresAt: requestedAt + SIGNED_URL_TTL_SECONDS * 1000
+      });
+    }
+  } catch (error) {
+    console.warn(`Failed to sign ${bucket} URLs:`, error);
+  }
+
+  return signed;
+}
+
+/**
+ * Forget all cached URLs, e.g. when the user signs out
+ */
+export function clearSignedUrlCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,60 @@
+/**
+ * Helpers for journal entry tags
+ */
+
+/** Maximum number of tags a single entry can carry */
+export const MAX_TAGS_PER_ENTRY = 10;
+
+/** Maximum length of a single tag name (matches the database check constraint) */
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalize a single tag name the same way the database does
+ *
+ * @param {string} tag - Raw tag text as typed by the user
+ * @returns {string} Trimmed, lowercased tag with a leading '#' removed
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize a list of tags, dropping empties and duplicates
+ *
+ * @param {string[]} tags - Raw tags
+ * @returns {string[]} Normalized, de-duplicated tags (order preserved)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag);
+    if (normalized && !seen.has(normalized)) {
+      seen.add(normalized);
+      result.push(normalized);
+    }
+  }
+
+  return result.slice(0, MAX_TAGS_PER_ENTRY);
+}
+
+/**
+ * Flatten the nested `journal_entry_tags(tags(name))` shape returned by Supabase
+ *
+ * @param {unknown} relation - Embedded relation from a journal_entries select
+ * @returns {string[]} Sorted tag names
+ */
+export function extractTagNames(relation: unknown): string[] {
+  if (!Array.isArray(relation)) return [];
+
+  return relation
+    .map((link: { tags?: { name?: string } | null }) => link?.tags?.name)
+    .filter((name): name is string => typeof name === 'string' && name.length > 0)
+    .sort();
+}
@@ -0,0 +1,91 @@
+/**
+ * IANA timezone helpers
+ *
+ * Streaks and "today" are counted in the timezone stored on the user's
+ * profile, which may differ from the timezone the browser is in right now.
+ */
+
+/** Shown when the browser can't list its supported timezones */
+const FALLBACK_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Istanbul',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
+
+/**
+ * Whether a timezone name is known to this browser
+ *
+ * @param {string} timeZone - IANA timezone name
+ * @returns {boolean} True if dates can be formatted in it
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The browser's current timezone
+ *
+ * @returns {string} IANA timezone name, or UTC if it can't be detected
+ */
+export function detectTimezone(): string {
+  try {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return timeZone && isValidTimezone(timeZone) ? timeZone : 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * The calendar day of an instant in a given timezone
+ *
+ * @param {string} timeZone - IANA timezone name
+ * @param {Date} [date=new Date()] - Instant to convert
+ * @returns {string} Day as YYYY-MM-DD
+ */
+export function getDateInTimezone(timeZone: string, date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimezone(timeZone) ? timeZone : 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Timezones to offer in the profile settings
+ *
+ * @param {string} [current] - Timezone that must be in the list, e.g. the saved one
+ * @returns {string[]} Sorted IANA timezone names
+ */
+export function getTimezoneOptions(current?: string): string[] {
+  // supportedValuesOf is newer than the ES2020 lib this project targets
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf;
+  const zones = new Set(supportedValuesOf ? supportedValuesOf('timeZone') : FALLBACK_TIMEZONES);
+
+  zones.add('UTC');
+  if (current && isValidTimezone(current)) zones.add(current);
+
+  return [...zones].sort();
+}
@@ -1,3 +1,5 @@
+import { PASSWORD_PROBLEM_MESSAGES, PasswordContext, evaluatePassword } from './passwordPolicy';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -21,18 +23,20 @@ export const validateEmail = (email: string): ValidationResult => {
   };
 };
 
-export const validatePassword = (password: string): ValidationResult => {
+/**
+ * Check a new password against the password policy
+ *
+ * @param {string} password - The password being set
+ * @param {PasswordContext} [context] - Email and name the password shouldn't contain
+ */
+export const validatePassword = (password: string, context: PasswordContext = {}): ValidationResult => {
   const errors: string[] = [];
   
   if (!password) {
     errors.push('Password is required');
   } else {
-    if (password.length < 6) {
-      errors.push('Password must be at least 6 characters long');
-    }
-    if (password.length > 128) {
-      errors.push('Password must be less than 128 characters');
-    }
+    const evaluation = evaluatePassword(password, context);
+    errors.push(...evaluation.problems.map(problem => PASSWORD_PROBLEM_MESSAGES[problem]));
   }
   
   return {
@@ -69,7 +73,10 @@ export const validateForm = (formData: { name?: string; email: string; password:
   }
   
   results.email = validateEmail(formData.email);
-  results.password = validatePassword(formData.password);
+  // Existing passwords may predate the policy, so signing in only needs one
+  results.password = isSignUp
+    ? validatePassword(formData.password, { email: formData.email, name: formData.name })
+    : { isValid: !!formData.password, errors: formData.password ? [] : ['Password is required'] };
   
   const isValid = Object.values(results).every(result => result.isValid);
   const allErrors = Object.values(results).flatMap(result => result.errors);
@@ -0,0 +1,51 @@
+/**
+ * Helpers for recording voice notes with MediaRecorder
+ *
+ * Browsers record in different containers: Chrome and Firefox prefer WebM or
+ * Ogg with Opus, Safari only records MP4. The first type the browser supports
+ * is used, and the file extension follows it so the transcription provider
+ * can tell what it is decoding.
+ */
+
+/** Longest voice note, in seconds */
+export const MAX_RECORDING_SECONDS = 5 * 60;
+
+/** Recording types to try, best first */
+export const RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/mp4',
+  'audio/ogg;codecs=opus'
+];
+
+/**
+ * Pick the first recording type the browser supports
+ *
+ * @param {function} isTypeSupported - Usually MediaRecorder.isTypeSupported
+ * @returns {string|null} The type to record in, or null to let the browser choose
+ */
+export function getRecordingMimeType(isTypeSupported: (type: string) => boolean): string | null {
+  return RECORDING_MIME_TYPES.find(type => isTypeSupported(type)) ?? null;
+}
+
+/**
+ * File extension for a recorded clip
+ *
+ * @param {string} mimeType - Type reported by the recorder, possibly with codecs
+ * @returns {string} Extension without the dot
+ */
+export function getAudioExtension(mimeType: string): string {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  if (type === 'audio/mp4' || type === 'audio/aac') return 'm4a';
+  if (type === 'audio/ogg') return 'ogg';
+  if (type === 'audio/mpeg') return 'mp3';
+  return 'webm';
+}
+
+/**
+ * Format a recording length as m:ss
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
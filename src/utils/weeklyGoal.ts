@@ -0,0 +1,96 @@
+/**
+ * Helpers for get_weekly_goal_progress results
+ *
+ * Weeks run Monday to Sunday in the profile's timezone and are measured
+ * against journaling_goal_frequency in the database.
+ */
+
+export interface GoalWeek {
+  /** Monday of the week, YYYY-MM-DD */
+  week_start: string;
+  days_journaled: number;
+  entries: number;
+  words: number;
+  average_mood: number | null;
+  top_mood: string | null;
+  goal: number;
+  met: boolean;
+  /** Covered by a streak freeze */
+  frozen: boolean;
+}
+
+export interface CurrentGoalWeek extends GoalWeek {
+  /** Days left in the week, including today */
+  days_left: number;
+}
+
+export interface LastWeekSummary extends GoalWeek {
+  previous_days_journaled: number | null;
+  previous_entries: number | null;
+  previous_average_mood: number | null;
+}
+
+export interface WeeklyGoalProgress {
+  goal: number;
+  timezone: string;
+  /** Today in the profile's timezone, YYYY-MM-DD */
+  today: string;
+  /** Consecutive weeks that reached the goal */
+  goal_streak: number;
+  current_week: CurrentGoalWeek;
+  /** Past weeks, oldest first */
+  history: GoalWeek[];
+  weeks_met: number;
+  last_week: LastWeekSummary | null;
+}
+
+/**
+ * Share of the weekly goal reached, for drawing the ring
+ *
+ * @param {number} daysJournaled - Days with entries this week
+ * @param {number} goal - Days per week
+ * @returns {number} Between 0 and 1
+ */
+export function getGoalRatio(daysJournaled: number, goal: number): number {
+  if (goal <= 0) return 0;
+  return Math.min(Math.max(daysJournaled / goal, 0), 1);
+}
+
+/**
+ * Format a week as e.g. "Jun 9 – Jun 15"
+ *
+ * @param {string} weekStart - Monday of the week, YYYY-MM-DD
+ * @returns {string} First and last day of the week
+ */
+export function formatWeekRange(weekStart: string): string {
+  const [year, month, day] = weekStart.split('-').map(Number);
+  const start = new Date(year, month - 1, day);
+  const end = new Date(year, month - 1, day + 6);
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(start)} – ${format(end)}`;
+}
+
+/**
+ * Change in journaling days from the week before last week
+ *
+ * @param {LastWeekSummary} summary - Last week's summary
+ * @returns {number|null} Positive when last week had more days, null without a previous week
+ */
+export function getDaysChange(summary: LastWeekSummary): number | null {
+  if (summary.previous_days_journaled === null) return null;
+  return summary.days_journaled - summary.previous_days_journaled;
+}
+
+/**
+ * Whether last week's summary should still be offered
+ *
+ * Weeks without entries have nothing to summarize, and a dismissed week stays
+ * dismissed.
+ *
+ * @param {LastWeekSummary|null} summary - Last week's summary
+ * @param {string|null} dismissedWeek - week_start of the summary the user dismissed
+ */
+export function shouldShowWeeklySummary(summary: LastWeekSummary | null, dismissedWeek: string | null): boolean {
+  if (!summary || summary.entries === 0) return false;
+  return summary.week_start !== dismissedWeek;
+}
@@ -0,0 +1,92 @@
+// Resolve the calling user from the request's Authorization header
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+}
+
+/**
+ * The slice of the Supabase client needed to verify a JWT.
+ * Kept structural so callers can pass a service-role client or a test double.
+ */
+export interface AuthClient {
+  auth: {
+    getUser(jwt: string): Promise<{
+      data: { user: AuthenticatedUser | null };
+      error: unknown;
+    }>;
+  };
+}
+
+/**
+ * Verify the bearer token on a request and return the user it belongs to
+ *
+ * @returns The authenticated user, or null when the token is missing or invalid
+ */
+export async function getUserFromRequest(
+  req: Request,
+  client: AuthClient,
+): Promise<AuthenticatedUser | null> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.slice("Bearer ".length).trim();
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data?.user) {
+    return null;
+  }
+
+  return data.user;
+}
+
+export type AssuranceLevel = "aal1" | "aal2";
+
+/**
+ * Read the authenticator assurance level from the request's bearer token
+ *
+ * The token is decoded, not verified, so only call this after
+ * getUserFromRequest has accepted the same request.
+ *
+ * @returns "aal2" once the user has passed a second factor, otherwise "aal1"
+ */
+export function getAssuranceLevel(req: Request): AssuranceLevel {
+  const token = req.headers.get("Authorization")?.slice("Bearer ".length).trim() ?? "";
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return "aal1";
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, "=")));
+    return claims.aal === "aal2" ? "aal2" : "aal1";
+  } catch {
+    return "aal1";
+  }
+}
+
+/**
+ * Whether the session may act on the user's account
+ *
+ * Service-role functions bypass the mfa_satisfied() policies, so they check
+ * here instead: a user with a verified factor needs an aal2 session.
+ *
+ * @param listVerifiedFactors - IDs of the user's verified factors
+ */
+export async function isMfaSatisfied(
+  req: Request,
+  userId: string,
+  listVerifiedFactors: (userId: string) => Promise<string[]>,
+): Promise<boolean> {
+  if (getAssuranceLevel(req) === "aal2") {
+    return true;
+  }
+
+  return (await listVerifiedFactors(userId)).length === 0;
+}
@@ -0,0 +1,38 @@
+// Passwords and base words that show up most often in breach corpora
+//
+// Matched after lowercasing, undoing common letter substitutions and
+// stripping leading and trailing digits and symbols, so "P@ssw0rd2024!" is
+// caught by "password". Kept short enough to ship to the browser.
+
+export const COMMON_PASSWORDS: readonly string[] = [
+  "123456", "123456789", "12345678", "1234567890", "1234567", "12345", "1234",
+  "111111", "000000", "123123", "654321", "123321", "666666", "121212", "112233",
+  "987654321", "11111111", "1q2w3e4r", "1q2w3e4r5t", "1qaz2wsx", "zaq12wsx",
+  "qwerty", "qwerty123", "qwertyuiop", "qwer1234", "asdfgh", "asdfghjkl",
+  "asdf1234", "zxcvbnm", "zxcvbn", "qazwsx", "abc123", "abcd1234", "abcdef",
+  "abcdefg", "aaaaaa", "password", "password1", "passw0rd", "passwort",
+  "motdepasse", "contrasena", "senha", "parola", "wachtwoord", "pass", "pass123",
+  "secret", "letmein", "welcome", "welcome1", "login", "admin", "administrator",
+  "root", "master", "changeme", "default", "guest", "test", "test123", "temp",
+  "iloveyou", "iloveu", "loveyou", "lovely", "love", "lover", "loveme",
+  "sunshine", "princess", "dragon", "monkey", "shadow", "superman", "batman",
+  "spiderman", "pokemon", "naruto", "starwars", "matrix", "hunter", "hunter2",
+  "trustno1", "freedom", "whatever", "nothing", "hello", "hello123", "helloworld",
+  "football", "baseball", "basketball", "soccer", "hockey", "golf", "tennis",
+  "liverpool", "chelsea", "arsenal", "barcelona", "yankees", "cowboys",
+  "michael", "jennifer", "jessica", "ashley", "daniel", "charlie", "thomas",
+  "jordan", "robert", "matthew", "andrew", "joshua", "michelle", "nicole",
+  "anthony", "william", "george", "hannah", "samantha", "maggie", "jasmine",
+  "summer", "winter", "autumn", "spring", "flower", "rainbow", "butterfly",
+  "purple", "orange", "banana", "cookie", "chocolate", "cheese", "pepper",
+  "ginger", "tigger", "buster", "bailey", "ranger", "harley", "mustang",
+  "ferrari", "corvette", "mercedes", "porsche", "killer", "soccer1", "angel",
+  "angels", "baby", "babygirl", "beautiful", "blessed", "family", "friends",
+  "forever", "happy", "heaven", "jesus", "christ", "faith", "peace", "zen",
+  "zensai", "journal", "diary", "mydiary", "mindful", "meditation", "calm",
+  "qwertyui", "1qazxsw2", "q1w2e3r4", "q1w2e3r4t5", "google", "facebook",
+  "instagram", "youtube", "computer", "internet", "access", "secure", "security",
+  "private", "mypassword", "mysecret", "unknown", "nopassword", "abc", "iloveyou1",
+  "superstar", "sweetheart", "cupcake", "princess1", "monkey1", "dragon1",
+  "flower1", "mother", "father", "sister", "brother", "daddy", "mommy",
+];
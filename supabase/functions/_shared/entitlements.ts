@@ -0,0 +1,80 @@
+// Server-side checks against the entitlements computed by get_user_entitlements
+
+import { AuthClient, AuthenticatedUser, getUserFromRequest } from "./auth.ts";
+import { jsonResponse } from "./cors.ts";
+
+export type Plan = "free" | "trial" | "premium";
+
+/**
+ * A user's plan and feature flags, as returned by get_user_entitlements
+ */
+export interface Entitlements {
+  plan: Plan;
+  tier: "free" | "premium" | "premium_plus";
+  trial_ends_at: string | null;
+  expires_at: string | null;
+  features: Record<string, boolean>;
+}
+
+/**
+ * The slice of a service-role Supabase client needed to load entitlements
+ */
+export interface EntitlementsClient {
+  rpc(
+    fn: "get_user_entitlements",
+    args: { p_user_id: string },
+  ): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+export interface EntitlementDeps {
+  auth: AuthClient;
+  getEntitlements(userId: string): Promise<Entitlements>;
+}
+
+export type EntitlementCheck =
+  | { allowed: true; user: AuthenticatedUser; entitlements: Entitlements }
+  | { allowed: false; response: Response };
+
+/**
+ * Check that the caller is signed in and their plan includes the feature
+ *
+ * @returns The user when allowed, otherwise the 401 or 403 response to send
+ */
+export async function requireFeature(
+  req: Request,
+  feature: string,
+  deps: EntitlementDeps,
+): Promise<EntitlementCheck> {
+  const user = await getUserFromRequest(req, deps.auth);
+  if (!user) {
+    return { allowed: false, response: jsonResponse({ success: false, error: "Unauthorized" }, 401) };
+  }
+
+  const entitlements = await deps.getEntitlements(user.id);
+  if (!entitlements.features[feature]) {
+    return {
+      allowed: false,
+      response: jsonResponse(
+        {
+          success: false,
+          error: "This feature needs Zensai Premium",
+          code: "feature_not_entitled",
+          feature,
+          plan: entitlements.plan,
+        },
+        403,
+      ),
+    };
+  }
+
+  return { allowed: true, user, entitlements };
+}
+
+/**
+ * Load a user's entitlements with get_user_entitlements (service role only)
+ */
+export async function getUserEntitlements(client: EntitlementsClient, userId: string): Promise<Entitlements> {
+  const { data, error } = await client.rpc("get_user_entitlements", { p_user_id: userId });
+  if (error) throw new Error(`Failed to load entitlements: ${error.message}`);
+  return data as Entitlements;
+}
@@ -0,0 +1,212 @@
+// Password rules shared by the app and the update-password edge function
+//
+// Kept free of Deno and npm imports so the browser and the server run exactly
+// the same checks: a minimum length, a strength estimate, a denylist of common
+// passwords and, when turned on, a k-anonymity lookup against known breaches.
+
+import { COMMON_PASSWORDS } from "./commonPasswords.ts";
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+/** Supabase Auth hashes with bcrypt, which ignores anything past 72 bytes */
+export const MAX_PASSWORD_BYTES = 72;
+
+/** Lowest strength score a new password may have */
+export const MIN_PASSWORD_SCORE = 2;
+
+/** 0 is very weak, 4 very strong */
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export type PasswordProblem = "too_short" | "too_long" | "common" | "personal" | "weak";
+
+export interface PasswordContext {
+  email?: string | null;
+  name?: string | null;
+}
+
+export interface PasswordEvaluation {
+  score: PasswordScore;
+  entropyBits: number;
+  problems: PasswordProblem[];
+  isAcceptable: boolean;
+}
+
+export const PASSWORD_PROBLEM_MESSAGES: Record<PasswordProblem, string> = {
+  too_short: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+  too_long: "Password is too long",
+  common: "This is one of the most common passwords. Please choose another",
+  personal: "Password shouldn't contain your name or email",
+  weak: "Password is too easy to guess. Try a longer one or a few unrelated words",
+};
+
+const COMMON_PASSWORD_SET = new Set(COMMON_PASSWORDS);
+
+// Letter substitutions undone before the denylist lookup
+const SUBSTITUTIONS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  "$": "s",
+  "!": "i",
+};
+
+/**
+ * Whether a password is, or is built on, a common password
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  if (COMMON_PASSWORD_SET.has(lower)) {
+    return true;
+  }
+
+  // "Password2024!" and "p@ssw0rd" are still "password"
+  const base = lower.replace(/^[^a-z]+|[^a-z]+$/g, "");
+  const unsubstituted = base.replace(/[013457@$!]/g, (char) => SUBSTITUTIONS[char]);
+  return COMMON_PASSWORD_SET.has(base) || COMMON_PASSWORD_SET.has(unsubstituted);
+}
+
+function getCharacterPoolSize(password: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/[0-9]/.test(password)) pool += 10;
+  if (/[\x20-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(password)) pool += 33;
+  if (/[\u0080-\uffff]/.test(password)) pool += 100;
+  return pool;
+}
+
+/**
+ * Estimate how many bits of guessing a password takes
+ *
+ * Based on its length and the kinds of characters it uses. A character that
+ * repeats the previous one or continues a run like "abc" or "321" only counts
+ * for a quarter, so "aaaaaaaaaa" and "1234567890" score as weak as they are.
+ */
+export function estimateEntropyBits(password: string): number {
+  const chars = Array.from(password);
+  if (chars.length === 0) {
+    return 0;
+  }
+
+  let effectiveLength = 1;
+  for (let i = 1; i < chars.length; i++) {
+    const step = chars[i].codePointAt(0)! - chars[i - 1].codePointAt(0)!;
+    effectiveLength += Math.abs(step) <= 1 ? 0.25 : 1;
+  }
+
+  return effectiveLength * Math.log2(getCharacterPoolSize(password));
+}
+
+function getScore(entropyBits: number): PasswordScore {
+  if (entropyBits < 25) return 0;
+  if (entropyBits < 40) return 1;
+  if (entropyBits < 60) return 2;
+  if (entropyBits < 80) return 3;
+  return 4;
+}
+
+function containsPersonalInfo(password: string, context: PasswordContext): boolean {
+  const lower = password.toLowerCase();
+  const parts = [
+    context.email?.split("@")[0],
+    ...(context.name?.split(/\s+/) ?? []),
+  ];
+
+  return parts.some((part) => !!part && part.length >= 4 && lower.includes(part.toLowerCase()));
+}
+
+/**
+ * Check a new password against the policy
+ *
+ * @param password - The password being set
+ * @param context - Email and name of the account, which the password shouldn't contain
+ */
+export function evaluatePassword(password: string, context: PasswordContext = {}): PasswordEvaluation {
+  const entropyBits = estimateEntropyBits(password);
+  const isCommon = isCommonPassword(password);
+  const isPersonal = containsPersonalInfo(password, context);
+
+  let score = getScore(entropyBits);
+  if (isCommon) {
+    score = 0;
+  } else if (isPersonal) {
+    score = Math.min(score, 1) as PasswordScore;
+  }
+
+  const problems: PasswordProblem[] = [];
+  if (Array.from(password).length < MIN_PASSWORD_LENGTH) problems.push("too_short");
+  if (new TextEncoder().encode(password).length > MAX_PASSWORD_BYTES) problems.push("too_long");
+  if (isCommon) problems.push("common");
+  if (isPersonal) problems.push("personal");
+  if (problems.length === 0 && score < MIN_PASSWORD_SCORE) problems.push("weak");
+
+  return {
+    score,
+    entropyBits,
+    problems,
+    isAcceptable: problems.length === 0,
+  };
+}
+
+/**
+ * Source of leaked password hashes, queried by the first five characters of
+ * the SHA-1 hash so the password itself never leaves the caller
+ */
+export interface BreachedPasswordProvider {
+  name: string;
+  /** Uppercase hash suffixes (the 35 characters after the prefix) seen in breaches */
+  getSuffixes(prefix: string): Promise<string[]>;
+}
+
+/**
+ * Provider backed by the Pwned Passwords range API
+ */
+export class PwnedPasswordsProvider implements BreachedPasswordProvider {
+  name = "pwnedpasswords";
+
+  constructor(private baseUrl = "https://api.pwnedpasswords.com") {}
+
+  async getSuffixes(prefix: string): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/range/${prefix}`, {
+      // Padding hides how many suffixes the prefix really has
+      headers: { "Add-Padding": "true" },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Pwned Passwords lookup failed with status ${response.status}`);
+    }
+
+    const body = await response.text();
+    return body
+      .split("\n")
+      .map((line) => line.trim().split(":"))
+      .filter(([suffix, count]) => suffix && Number(count) > 0)
+      .map(([suffix]) => suffix.toUpperCase());
+  }
+}
+
+async function sha1Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+}
+
+/**
+ * Whether a password appears in a known breach
+ *
+ * Only the first five characters of its SHA-1 hash are sent to the provider.
+ */
+export async function isPasswordBreached(
+  password: string,
+  provider: BreachedPasswordProvider,
+): Promise<boolean> {
+  const hash = await sha1Hex(password);
+  const suffixes = await provider.getSuffixes(hash.slice(0, 5));
+  return suffixes.includes(hash.slice(5));
+}
@@ -0,0 +1,82 @@
+// Mapping of Stripe subscriptions onto the profile, shared by stripe-webhook
+// and verify-subscription so both write the same plan for the same subscription
+
+/**
+ * Subscription statuses that keep premium, best first. past_due keeps access
+ * while Stripe retries the payment; when it gives up the subscription becomes
+ * canceled or unpaid.
+ */
+const ENTITLED_STATUS_RANK: Record<string, number> = {
+  active: 2,
+  trialing: 2,
+  past_due: 1,
+};
+
+/** An expandable Stripe field: the id, or the object it refers to */
+export type StripeRef = string | { id: string } | null | undefined;
+
+/**
+ * The parts of a Stripe subscription these functions read
+ */
+export interface StripeSubscription {
+  id: string;
+  customer: StripeRef;
+  status: string;
+  cancel_at_period_end: boolean;
+  current_period_start: number;
+  current_period_end: number;
+  trial_end: number | null;
+  metadata?: Record<string, string> | null;
+  items: { data: Array<{ price: { id: string } }> };
+  default_payment_method?: string | { card?: { brand: string; last4: string } | null } | null;
+}
+
+/**
+ * What profiles.subscription_status, subscription_tier and subscription_expires_at should hold
+ */
+export interface ProfileSubscription {
+  status: "free" | "premium";
+  tier: "free" | "premium" | "premium_plus";
+  expiresAt: string | null;
+}
+
+export const getId = (ref: StripeRef): string | null => (typeof ref === "string" ? ref : ref?.id ?? null);
+
+export const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+/**
+ * The subscription that decides the profile: entitled ones first, then the
+ * one whose period ends last
+ */
+export function pickCurrentSubscription(subscriptions: StripeSubscription[]): StripeSubscription | null {
+  const rank = (subscription: StripeSubscription) => ENTITLED_STATUS_RANK[subscription.status] ?? 0;
+
+  return [...subscriptions].sort(
+    (a, b) => rank(b) - rank(a) || b.current_period_end - a.current_period_end,
+  )[0] ?? null;
+}
+
+/**
+ * Map a customer's subscriptions onto the profile's subscription fields
+ */
+export function getProfileSubscription(
+  subscriptions: StripeSubscription[],
+  yearlyPriceId?: string,
+): ProfileSubscription {
+  const current = pickCurrentSubscription(subscriptions);
+
+  if (!current || !ENTITLED_STATUS_RANK[current.status]) {
+    return { status: "free", tier: "free", expiresAt: null };
+  }
+
+  const priceId = current.items.data[0]?.price.id;
+  const endsAt = current.status === "trialing" && current.trial_end
+    ? current.trial_end
+    : current.current_period_end;
+
+  return {
+    status: "premium",
+    tier: yearlyPriceId && priceId === yearlyPriceId ? "premium_plus" : "premium",
+    expiresAt: toIso(endsAt),
+  };
+}
@@ -0,0 +1,134 @@
+// Speech-to-text providers shared by zeno-transcribe and transcribe-entry
+//
+// Each function picks a provider with its own env var: "elevenlabs", "openai",
+// or "stub" to return fixed text without calling anything.
+// ELEVENLABS_API_BASE_URL and OPENAI_API_BASE_URL can point the providers at
+// a local stub server.
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: Blob, fileName?: string): Promise<string>;
+}
+
+/** Where provider settings are read from; Deno.env in the edge functions */
+export interface ProviderEnv {
+  get(name: string): string | undefined;
+}
+
+/**
+ * Provider that returns a fixed transcript, for local development
+ */
+export class StubTranscriptionProvider implements TranscriptionProvider {
+  name = "stub";
+
+  constructor(private text = "I'd like to talk about my day.") {}
+
+  async transcribe(): Promise<string> {
+    return this.text;
+  }
+}
+
+/**
+ * Provider backed by the ElevenLabs speech-to-text API
+ */
+export class ElevenLabsTranscriptionProvider implements TranscriptionProvider {
+  name = "elevenlabs";
+
+  constructor(
+    private apiKey: string,
+    private model = "scribe_v1",
+    private baseUrl = "https://api.elevenlabs.io",
+  ) {}
+
+  async transcribe(audio: Blob, fileName = "audio.webm"): Promise<string> {
+    const formData = new FormData();
+    formData.append("file", audio, fileName);
+    formData.append("model_id", this.model);
+
+    const response = await fetch(`${this.baseUrl}/v1/speech-to-text`, {
+      method: "POST",
+      headers: { "xi-api-key": this.apiKey },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`ElevenLabs API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return typeof data?.text === "string" ? data.text.trim() : "";
+  }
+}
+
+/**
+ * Provider backed by the OpenAI audio transcription API
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  name = "openai";
+
+  constructor(
+    private apiKey: string,
+    private model = "whisper-1",
+    private baseUrl = "https://api.openai.com",
+  ) {}
+
+  async transcribe(audio: Blob, fileName = "audio.webm"): Promise<string> {
+    const formData = new FormData();
+    formData.append("file", audio, fileName);
+    formData.append("model", this.model);
+
+    const response = await fetch(`${this.baseUrl}/v1/audio/transcriptions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return typeof data?.text === "string" ? data.text.trim() : "";
+  }
+}
+
+/**
+ * Build a transcription provider
+ *
+ * @param provider - "elevenlabs", "openai" or "stub"
+ * @param env - API keys, models and base URLs
+ * @param stubText - Text the stub provider returns
+ */
+export function createTranscriptionProvider(
+  provider: string,
+  env: ProviderEnv,
+  stubText?: string,
+): TranscriptionProvider {
+  if (provider === "stub") {
+    return new StubTranscriptionProvider(stubText || undefined);
+  }
+
+  if (provider === "openai") {
+    const apiKey = env.get("OPENAI_API_KEY");
+    if (!apiKey) {
+      throw new Error("OpenAI API key not found");
+    }
+
+    return new OpenAITranscriptionProvider(
+      apiKey,
+      env.get("OPENAI_STT_MODEL") || undefined,
+      env.get("OPENAI_API_BASE_URL") || undefined,
+    );
+  }
+
+  const apiKey = env.get("ELEVENLABS_API_KEY");
+  if (!apiKey) {
+    throw new Error("ElevenLabs API key not found");
+  }
+
+  return new ElevenLabsTranscriptionProvider(
+    apiKey,
+    env.get("ELEVENLABS_STT_MODEL") || undefined,
+    env.get("ELEVENLABS_API_BASE_URL") || undefined,
+  );
+}
@@ -0,0 +1,148 @@
+// Shared request handling for the zeno-* edge functions
+//
+// Session rules (cooldown, emergency allowance, one active session) are
+// enforced by the SQL functions in the zeno sessions migration. These helpers
+// only authenticate the caller, invoke the right function with their user id
+// and translate rule violations into HTTP status codes.
+
+import { AuthClient, AuthenticatedUser, getUserFromRequest } from "./auth.ts";
+import { corsHeaders, jsonResponse, readJsonBody } from "./cors.ts";
+
+export interface ZenoSession {
+  id: string;
+  goal: string | null;
+}
+
+/**
+ * What every zeno handler needs from a service-role Supabase client
+ */
+export interface ZenoDeps {
+  auth: AuthClient;
+  /** Call a zeno SQL function */
+  rpc(
+    fn: string,
+    params: Record<string, unknown>,
+  ): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+  /** The user's session with that id if it is still active, otherwise null */
+  findActiveSession(userId: string, sessionId: string): Promise<ZenoSession | null>;
+}
+
+export interface ZenoActionContext<D extends ZenoDeps = ZenoDeps> {
+  req: Request;
+  deps: D;
+  user: AuthenticatedUser;
+  body: Record<string, unknown>;
+}
+
+export class ZenoRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ZenoRequestError";
+  }
+}
+
+// Error codes raised by the SQL functions, mapped to HTTP status codes
+const ruleViolationStatus: Record<string, number> = {
+  ZENO_COOLDOWN_ACTIVE: 429,
+  ZENO_NO_EMERGENCY_SESSIONS: 429,
+  ZENO_SESSION_ACTIVE: 409,
+  ZENO_SESSION_NOT_FOUND: 404,
+  ZENO_TASK_NOT_FOUND: 404,
+  ZENO_INVALID_STATE: 400,
+};
+
+/**
+ * Call a zeno SQL function and unwrap its result
+ *
+ * @throws {ZenoRequestError} When the function rejects the request
+ */
+export async function callZenoFunction<T>(
+  deps: ZenoDeps,
+  fn: string,
+  params: Record<string, unknown>,
+): Promise<T> {
+  const { data, error } = await deps.rpc(fn, params);
+
+  if (error) {
+    const match = /(ZENO_[A-Z_]+):\s*(.*)/.exec(error.message ?? "");
+    if (match && ruleViolationStatus[match[1]]) {
+      throw new ZenoRequestError(match[2] || match[1], ruleViolationStatus[match[1]]);
+    }
+    throw new Error(`${fn} failed: ${error.message}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Make sure a session belongs to the user and is still in progress
+ *
+ * @throws {ZenoRequestError} 404 when there is no such active session
+ */
+export async function requireActiveSession(
+  deps: ZenoDeps,
+  userId: string,
+  sessionId: unknown,
+): Promise<ZenoSession> {
+  if (typeof sessionId !== "string" || !sessionId) {
+    throw new ZenoRequestError("Missing required field: session_id", 400);
+  }
+
+  const session = await deps.findActiveSession(userId, sessionId);
+
+  if (!session) {
+    throw new ZenoRequestError("No active session with that id", 404);
+  }
+
+  return session;
+}
+
+/**
+ * Handle an authenticated zeno action
+ *
+ * The action receives the dependencies, the verified user and the parsed JSON
+ * body (empty for multipart requests, which read `req` themselves). It returns
+ * either the payload to send back under `success: true` or a ready-made
+ * Response, e.g. for streaming.
+ */
+export async function handleZenoAction<D extends ZenoDeps>(
+  req: Request,
+  deps: D,
+  action: (ctx: ZenoActionContext<D>) => Promise<Record<string, unknown> | Response>,
+): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ success: false, error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const user = await getUserFromRequest(req, deps.auth);
+    if (!user) {
+      return jsonResponse({ success: false, error: "Failed to authenticate user" }, 401);
+    }
+
+    // Empty body is fine for actions without parameters
+    const body = req.headers.get("Content-Type")?.includes("multipart/form-data") ? {} : await readJsonBody(req);
+
+    const result = await action({ req, deps, user, body });
+
+    if (result instanceof Response) {
+      return result;
+    }
+
+    return jsonResponse({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ZenoRequestError) {
+      return jsonResponse({ success: false, error: error.message }, error.status);
+    }
+
+    console.error("Zeno request failed:", error);
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+}
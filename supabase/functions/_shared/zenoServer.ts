@@ -0,0 +1,48 @@
+// Serves a zeno-* handler with a service-role Supabase client
+
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.49.1";
+import { jsonResponse } from "./cors.ts";
+import { ZenoDeps } from "./zeno.ts";
+
+/**
+ * Back the zeno handler dependencies with a service-role client
+ */
+export function createZenoDeps(supabase: SupabaseClient): ZenoDeps {
+  return {
+    auth: supabase,
+    rpc: (fn, params) => supabase.rpc(fn, params),
+    findActiveSession: async (userId, sessionId) => {
+      const { data, error } = await supabase
+        .from("zeno_sessions")
+        .select("id, goal")
+        .eq("id", sessionId)
+        .eq("user_id", userId)
+        .eq("status", "active")
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to load session: ${error.message}`);
+      }
+
+      return data;
+    },
+  };
+}
+
+/**
+ * Serve a zeno handler
+ */
+export function serveZeno(handler: (req: Request, deps: ZenoDeps) => Promise<Response>) {
+  Deno.serve((req) => {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+    }
+
+    return handler(req, createZenoDeps(createClient(supabaseUrl, supabaseServiceKey)));
+  });
+}
+
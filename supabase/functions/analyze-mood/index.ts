@@ -1,6 +1,8 @@
 // Edge function to analyze mood from journal text using OpenAI
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import OpenAI from "npm:openai@4.28.0";
+import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { getUserEntitlements, requireFeature } from "../_shared/entitlements.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -174,6 +176,24 @@ Deno.serve(async (req: Request) => {
       );
     }
     
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    // Mood analysis is a premium feature, so check the caller's plan before calling OpenAI
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const access = await requireFeature(req, "mood-analyzer", {
+      auth: supabase,
+      getEntitlements: (userId) => getUserEntitlements(supabase, userId),
+    });
+
+    if (!access.allowed) {
+      return access.response;
+    }
+
     // Parse request body
     let body;
     try {
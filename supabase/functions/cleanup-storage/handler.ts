@@ -0,0 +1,91 @@
+// Removes a batch of queued storage objects, retrying failures up to MAX_CLEANUP_ATTEMPTS times
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+/** Queued objects handled per run */
+export const CLEANUP_BATCH_SIZE = 500;
+
+/** Objects are given up on after this many failed attempts */
+export const MAX_CLEANUP_ATTEMPTS = 5;
+
+/**
+ * A row from storage_deletions
+ */
+export interface StorageDeletion {
+  id: number;
+  bucket_id: string;
+  object_path: string;
+  attempts: number;
+}
+
+export interface CleanupStorageDeps {
+  /** Bearer token the scheduler sends */
+  cronSecret: string;
+  /** Oldest queued objects that haven't used up their attempts */
+  getQueuedDeletions(limit: number, maxAttempts: number): Promise<StorageDeletion[]>;
+  removeObjects(bucket: string, paths: string[]): Promise<void>;
+  /** Drop rows whose objects are gone */
+  finishDeletions(ids: number[]): Promise<void>;
+  /** Count a failed attempt so the rows are retried on a later run */
+  failDeletions(deletions: StorageDeletion[], error: string): Promise<void>;
+}
+
+export async function handleCleanupStorage(
+  req: Request,
+  deps: CleanupStorageDeps,
+): Promise<Response> {
+  // Handle CORS preflight request
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  if (!deps.cronSecret) {
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  // Only the scheduler may trigger a run
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (token !== deps.cronSecret) {
+    return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const queued = await deps.getQueuedDeletions(CLEANUP_BATCH_SIZE, MAX_CLEANUP_ATTEMPTS);
+    const byBucket = new Map<string, StorageDeletion[]>();
+    for (const deletion of queued) {
+      byBucket.set(deletion.bucket_id, [...(byBucket.get(deletion.bucket_id) ?? []), deletion]);
+    }
+
+    let removed = 0;
+    let failed = 0;
+
+    for (const [bucket, deletions] of byBucket) {
+      try {
+        // Removing an object that is already gone succeeds, so retries are safe
+        await deps.removeObjects(bucket, deletions.map((deletion) => deletion.object_path));
+        await deps.finishDeletions(deletions.map((deletion) => deletion.id));
+        removed += deletions.length;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to remove objects";
+        console.error(`Failed to remove ${deletions.length} objects from ${bucket}:`, message);
+        await deps.failDeletions(deletions, message);
+        failed += deletions.length;
+      }
+    }
+
+    return jsonResponse({ success: true, queued: queued.length, removed, failed });
+  } catch (error) {
+    console.error("Error cleaning up storage:", error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to clean up storage",
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// Edge function that removes storage objects queued in storage_deletions.
+// Called every hour by pg_cron; see supabase/README.md.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { jsonResponse } from "../_shared/cors.ts";
+import { handleCleanupStorage, StorageDeletion } from "./handler.ts";
+
+serve((req) => {
+  // Get environment variables
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const cronSecret = Deno.env.get("STORAGE_CLEANUP_CRON_SECRET") || "";
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  // Initialize Supabase client with service role key
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  return handleCleanupStorage(req, {
+    cronSecret,
+
+    getQueuedDeletions: async (limit, maxAttempts) => {
+      const { data, error } = await supabase
+        .from("storage_deletions")
+        .select("id, bucket_id, object_path, attempts")
+        .lt("attempts", maxAttempts)
+        .order("id")
+        .limit(limit);
+      if (error) throw new Error(`Failed to load queued deletions: ${error.message}`);
+      return (data ?? []) as StorageDeletion[];
+    },
+
+    removeObjects: async (bucket, paths) => {
+      const { error } = await supabase.storage.from(bucket).remove(paths);
+      if (error) throw new Error(error.message);
+    },
+
+    finishDeletions: async (ids) => {
+      const { error } = await supabase.from("storage_deletions").delete().in("id", ids);
+      if (error) throw new Error(`Failed to clear queued deletions: ${error.message}`);
+    },
+
+    failDeletions: async (deletions, message) => {
+      for (const deletion of deletions) {
+        const { error } = await supabase
+          .from("storage_deletions")
+          .update({ attempts: deletion.attempts + 1, last_error: message })
+          .eq("id", deletion.id);
+        if (error) console.error("Failed to record deletion attempt:", error);
+      }
+    },
+  });
+});
@@ -0,0 +1,62 @@
+// Deletes the caller's data once they confirm their own user id and pass any second factor
+
+import { AuthClient, getUserFromRequest, isMfaSatisfied } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse, readJsonBody } from "../_shared/cors.ts";
+
+export interface DeleteUserDataDeps {
+  auth: AuthClient;
+  /** IDs of the user's verified factors */
+  listVerifiedFactors(userId: string): Promise<string[]>;
+  deleteUserData(userId: string): Promise<void>;
+}
+
+export async function handleDeleteUserData(
+  req: Request,
+  deps: DeleteUserDataDeps,
+): Promise<Response> {
+  // Handle CORS preflight request
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // The account to delete always comes from the caller's JWT
+    const user = await getUserFromRequest(req, deps.auth);
+
+    if (!user) {
+      return jsonResponse({ success: false, error: "Failed to authenticate user" }, 401);
+    }
+
+    if (!(await isMfaSatisfied(req, user.id, deps.listVerifiedFactors))) {
+      return jsonResponse({
+        success: false,
+        code: "insufficient_aal",
+        error: "Verify your authenticator code first",
+      }, 403);
+    }
+
+    // Clients send user_id as a confirmation; it must match the authenticated user
+    const body = await readJsonBody(req);
+
+    if (body.user_id !== undefined && body.user_id !== user.id) {
+      return jsonResponse({ success: false, error: "You can only delete your own account" }, 403);
+    }
+
+    await deps.deleteUserData(user.id);
+
+    return jsonResponse({ success: true, message: "User data deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting user data:", error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete user data",
+      },
+      500,
+    );
+  }
+}
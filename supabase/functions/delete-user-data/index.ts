@@ -1,168 +1,131 @@
 // Edge function to delete a user's data
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.38.4";
 import Stripe from "npm:stripe@17.7.0";
+import { jsonResponse } from "../_shared/cors.ts";
+import { handleDeleteUserData } from "./handler.ts";
 
-interface RequestBody {
-  user_id: string;
-}
+/** Files listed or removed per storage request */
+const STORAGE_PAGE_SIZE = 1000;
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "*",
-};
-
-serve(async (req) => {
-  // Handle CORS preflight request
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 204,
-      headers: corsHeaders,
-    });
-  }
-  
-  try {
-    // Get environment variables
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
-    
-    if (!supabaseUrl || !supabaseServiceKey) {
-      throw new Error("Missing required environment variables");
-    }
-    
-    // Initialize Supabase client with service role key
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-    
-    // Parse request body
-    const { user_id } = await req.json() as RequestBody;
-    
-    // Validate required fields
-    if (!user_id) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Missing required field: user_id",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
-    }
-    
-    // Get user profile to check for Stripe customer ID
-    const { data: profile, error: profileError } = await supabase
-      .from("profiles")
-      .select("revenuecart_user_id, subscription_status")
-      .eq("user_id", user_id)
-      .single();
-    
-    if (profileError && profileError.code !== "PGRST116") { // PGRST116 is "no rows returned"
-      throw new Error(`Failed to retrieve user profile: ${profileError.message}`);
+/**
+ * List every file in a user's folder; list() only returns one page at a time
+ */
+async function listUserFiles(supabase: SupabaseClient, bucket: string, userId: string): Promise<string[]> {
+  const paths: string[] = [];
+
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(userId, { limit: STORAGE_PAGE_SIZE, offset });
+
+    if (error) {
+      throw error;
     }
-    
-    // If user has a Stripe subscription, cancel it
-    if (profile?.revenuecart_user_id && profile?.subscription_status === "premium" && stripeSecretKey) {
-      try {
-        const stripe = new Stripe(stripeSecretKey, {
-          apiVersion: "2023-10-16",
-        });
-        
-        // Cancel all subscriptions for this customer
-        const subscriptions = await stripe.subscriptions.list({
-          customer: profile.revenuecart_user_id,
-        });
-        
-        for (const subscription of subscriptions.data) {
-          await stripe.subscriptions.cancel(subscription.id);
-        }
-      } catch (stripeError) {
-        console.error("Error canceling Stripe subscription:", stripeError);
-        // Continue with deletion even if Stripe operations fail
-      }
+
+    paths.push(...(data ?? []).map((file) => `${userId}/${file.name}`));
+    if (!data || data.length < STORAGE_PAGE_SIZE) {
+      return paths;
     }
-    
-    // Delete user's photos from storage
+  }
+}
+
+async function deleteUserData(supabase: SupabaseClient, userId: string, stripeSecretKey?: string) {
+  // Get user profile to check for Stripe customer ID
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("revenuecart_user_id, subscription_status")
+    .eq("user_id", userId)
+    .single();
+
+  if (profileError && profileError.code !== "PGRST116") { // PGRST116 is "no rows returned"
+    throw new Error(`Failed to retrieve user profile: ${profileError.message}`);
+  }
+
+  // If user has a Stripe subscription, cancel it
+  if (profile?.revenuecart_user_id && profile?.subscription_status === "premium" && stripeSecretKey) {
     try {
-      // List all objects in the journal-photos bucket for this user
-      const { data: journalPhotos, error: journalPhotosError } = await supabase
-        .storage
-        .from("journal-photos")
-        .list(user_id);
-      
-      if (journalPhotosError) {
-        throw journalPhotosError;
-      }
-      
-      // Delete journal photos if any exist
-      if (journalPhotos && journalPhotos.length > 0) {
-        const photoPaths = journalPhotos.map(photo => `${user_id}/${photo.name}`);
-        await supabase.storage.from("journal-photos").remove(photoPaths);
-      }
-      
-      // List all objects in the profile-photos bucket for this user
-      const { data: profilePhotos, error: profilePhotosError } = await supabase
-        .storage
-        .from("profile-photos")
-        .list(user_id);
-      
-      if (profilePhotosError) {
-        throw profilePhotosError;
-      }
-      
-      // Delete profile photos if any exist
-      if (profilePhotos && profilePhotos.length > 0) {
-        const photoPaths = profilePhotos.map(photo => `${user_id}/${photo.name}`);
-        await supabase.storage.from("profile-photos").remove(photoPaths);
+      const stripe = new Stripe(stripeSecretKey, {
+        apiVersion: "2023-10-16",
+      });
+
+      // Cancel all subscriptions for this customer
+      const subscriptions = await stripe.subscriptions.list({
+        customer: profile.revenuecart_user_id,
+      });
+
+      for (const subscription of subscriptions.data) {
+        await stripe.subscriptions.cancel(subscription.id);
       }
-    } catch (storageError) {
-      console.error("Error deleting user's photos:", storageError);
-      // Continue with deletion even if storage operations fail
+    } catch (stripeError) {
+      console.error("Error canceling Stripe subscription:", stripeError);
+      // Continue with deletion even if Stripe operations fail
     }
-    
-    // Delete user's profile (this will cascade to journal_entries and user_badges)
-    const { error: deleteError } = await supabase
-      .from("profiles")
-      .delete()
-      .eq("user_id", user_id);
-    
-    if (deleteError) {
-      throw new Error(`Failed to delete user profile: ${deleteError.message}`);
-    }
-    
-    // Delete the user from auth.users
-    const { error: authDeleteError } = await supabase.auth.admin.deleteUser(user_id);
-    
-    if (authDeleteError) {
-      throw new Error(`Failed to delete user from auth: ${authDeleteError.message}`);
-    }
-    
-    // Return success response
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: "User data deleted successfully",
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
-  } catch (error) {
-    console.error("Error deleting user data:", error);
-    
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || "Failed to delete user data",
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+  }
+
+  // Delete user's photos and voice notes from storage, including every entry attachment
+  try {
+    for (const bucket of ["journal-photos", "journal-audio", "profile-photos"]) {
+      const paths = await listUserFiles(supabase, bucket, userId);
+
+      for (let i = 0; i < paths.length; i += STORAGE_PAGE_SIZE) {
+        const { error: removeError } = await supabase.storage
+          .from(bucket)
+          .remove(paths.slice(i, i + STORAGE_PAGE_SIZE));
+
+        if (removeError) {
+          throw removeError;
+        }
       }
-    );
+    }
+  } catch (storageError) {
+    console.error("Error deleting user's photos:", storageError);
+    // Continue with deletion even if storage operations fail; the files of
+    // deleted attachments are also queued in storage_deletions
+  }
+
+  // Delete user's profile (this will cascade to journal_entries and user_badges)
+  const { error: deleteError } = await supabase
+    .from("profiles")
+    .delete()
+    .eq("user_id", userId);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete user profile: ${deleteError.message}`);
+  }
+
+  // Delete the user from auth.users
+  const { error: authDeleteError } = await supabase.auth.admin.deleteUser(userId);
+
+  if (authDeleteError) {
+    throw new Error(`Failed to delete user from auth: ${authDeleteError.message}`);
   }
-});
\ No newline at end of file
+}
+
+serve((req) => {
+  // Get environment variables
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  // Initialize Supabase client with service role key
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  return handleDeleteUserData(req, {
+    auth: supabase,
+    listVerifiedFactors: async (userId) => {
+      const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+      if (error) throw error;
+      return data.factors
+        .filter((factor) => factor.status === "verified")
+        .map((factor) => factor.id);
+    },
+    deleteUserData: (userId) => deleteUserData(supabase, userId, stripeSecretKey),
+  });
+});
@@ -0,0 +1,120 @@
+// Exports the caller's journal, optionally limited by date and mood and with signed media URLs
+
+import { AuthClient, getUserFromRequest, isMfaSatisfied } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse, readJsonBody } from "../_shared/cors.ts";
+
+export const EXPORT_MOODS = ["struggling", "low", "neutral", "good", "amazing"] as const;
+
+export interface ExportOptions {
+  /** Inclusive lower bound on created_at (ISO timestamp) */
+  startDate: string | null;
+  /** Exclusive upper bound on created_at (ISO timestamp) */
+  endDate: string | null;
+  /** Only include these moods; empty means all */
+  moods: string[];
+  /** Add short-lived signed URLs for photos and affirmation audio */
+  includeMedia: boolean;
+}
+
+export interface ExportJournalDataDeps {
+  auth: AuthClient;
+  /** IDs of the user's verified factors */
+  listVerifiedFactors(userId: string): Promise<string[]>;
+  loadExportData(userId: string, options: ExportOptions): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Validate the optional export filters from the request body
+ *
+ * @returns The parsed options, or an error message for a 400 response
+ */
+export function parseExportOptions(body: Record<string, unknown>): ExportOptions | string {
+  const parseDate = (value: unknown, field: string): string | null | Error => {
+    if (value === undefined || value === null || value === "") return null;
+    if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+      return new Error(`Invalid ${field}`);
+    }
+    return new Date(value).toISOString();
+  };
+
+  const startDate = parseDate(body.start_date, "start_date");
+  if (startDate instanceof Error) return startDate.message;
+
+  const endDate = parseDate(body.end_date, "end_date");
+  if (endDate instanceof Error) return endDate.message;
+
+  if (startDate && endDate && startDate >= endDate) {
+    return "start_date must be before end_date";
+  }
+
+  const moods = body.moods ?? [];
+  if (
+    !Array.isArray(moods) ||
+    moods.some((mood) => !(EXPORT_MOODS as readonly unknown[]).includes(mood))
+  ) {
+    return `moods must be a list of: ${EXPORT_MOODS.join(", ")}`;
+  }
+
+  return {
+    startDate,
+    endDate,
+    moods: moods as string[],
+    includeMedia: body.include_media === true,
+  };
+}
+
+export async function handleExportJournalData(
+  req: Request,
+  deps: ExportJournalDataDeps,
+): Promise<Response> {
+  // Handle CORS preflight request
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // The account to export always comes from the caller's JWT
+    const user = await getUserFromRequest(req, deps.auth);
+
+    if (!user) {
+      return jsonResponse({ success: false, error: "Failed to authenticate user" }, 401);
+    }
+
+    if (!(await isMfaSatisfied(req, user.id, deps.listVerifiedFactors))) {
+      return jsonResponse({
+        success: false,
+        code: "insufficient_aal",
+        error: "Verify your authenticator code first",
+      }, 403);
+    }
+
+    // Older clients still send user_id; it must match the authenticated user
+    const body = await readJsonBody(req);
+
+    if (body.user_id !== undefined && body.user_id !== user.id) {
+      return jsonResponse({ success: false, error: "You can only export your own data" }, 403);
+    }
+
+    const options = parseExportOptions(body);
+    if (typeof options === "string") {
+      return jsonResponse({ success: false, error: options }, 400);
+    }
+
+    const data = await deps.loadExportData(user.id, options);
+
+    return jsonResponse({ success: true, data });
+  } catch (error) {
+    console.error("Error exporting journal data:", error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to export journal data",
+      },
+      500,
+    );
+  }
+}
@@ -1,121 +1,148 @@
 // Edge function to export a user's journal data
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.38.4";
+import { jsonResponse } from "../_shared/cors.ts";
+import { ExportOptions, handleExportJournalData } from "./handler.ts";
 
-interface RequestBody {
-  user_id: string;
+// Signed media URLs only need to live long enough for the client to download them
+const MEDIA_URL_TTL_SECONDS = 600;
+
+// Stored paths may be bare object paths or full URLs containing the bucket name
+function toObjectPath(value: string, bucket: string): string {
+  const match = value.match(new RegExp(`/${bucket}/(.+)$`));
+  return match ? match[1] : value.replace(/^\/+/, "");
 }
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "*",
-};
-
-serve(async (req) => {
-  // Handle CORS preflight request
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 204,
-      headers: corsHeaders,
-    });
+async function signPaths(
+  supabase: SupabaseClient,
+  bucket: string,
+  paths: string[],
+): Promise<Map<string, string>> {
+  const signed = new Map<string, string>();
+  if (paths.length === 0) return signed;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrls(paths, MEDIA_URL_TTL_SECONDS);
+
+  if (error) {
+    console.warn(`Failed to sign ${bucket} URLs:`, error.message);
+    return signed;
   }
-  
-  try {
-    // Get environment variables
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    
-    if (!supabaseUrl || !supabaseServiceKey) {
-      throw new Error("Missing required environment variables");
-    }
-    
-    // Initialize Supabase client with service role key
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-    
-    // Parse request body
-    const { user_id } = await req.json() as RequestBody;
-    
-    // Validate required fields
-    if (!user_id) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Missing required field: user_id",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
-    }
-    
-    // Get user profile
-    const { data: profile, error: profileError } = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("user_id", user_id)
-      .single();
-    
-    if (profileError) {
-      throw new Error(`Failed to retrieve user profile: ${profileError.message}`);
-    }
-    
-    // Get user's journal entries
-    const { data: entries, error: entriesError } = await supabase
-      .from("journal_entries")
-      .select("*")
-      .eq("user_id", user_id)
-      .order("created_at", { ascending: false });
-    
-    if (entriesError) {
-      throw new Error(`Failed to retrieve journal entries: ${entriesError.message}`);
-    }
-    
-    // Get user's badges
-    const { data: badges, error: badgesError } = await supabase
-      .rpc("get_user_badge_progress", { target_user_id: user_id });
-    
-    if (badgesError) {
-      throw new Error(`Failed to retrieve badges: ${badgesError.message}`);
+
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) signed.set(item.path, item.signedUrl);
+  }
+  return signed;
+}
+
+async function loadExportData(supabase: SupabaseClient, userId: string, options: ExportOptions) {
+  // Get user profile
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .single();
+
+  if (profileError) {
+    throw new Error(`Failed to retrieve user profile: ${profileError.message}`);
+  }
+
+  // Get user's journal entries, narrowed by the requested filters
+  let query = supabase
+    .from("journal_entries")
+    .select("*, journal_entry_tags(tags(name))")
+    .eq("user_id", userId);
+
+  if (options.startDate) query = query.gte("created_at", options.startDate);
+  if (options.endDate) query = query.lt("created_at", options.endDate);
+  if (options.moods.length > 0) query = query.in("mood", options.moods);
+
+  const { data: rows, error: entriesError } = await query.order("created_at", { ascending: false });
+
+  if (entriesError) {
+    throw new Error(`Failed to retrieve journal entries: ${entriesError.message}`);
+  }
+
+  const entries = (rows ?? []).map(({ journal_entry_tags, ...entry }) => ({
+    ...entry,
+    tags: (journal_entry_tags ?? [])
+      .map((link: { tags: { name: string } | null }) => link.tags?.name)
+      .filter(Boolean)
+      .sort(),
+  }));
+
+  // Attach download links for photos and affirmation audio when bundling media
+  if (options.includeMedia) {
+    const photoPaths = entries.filter((e) => e.photo_url).map((e) => toObjectPath(e.photo_url, "journal-photos"));
+    const audioPaths = entries
+      .filter((e) => e.affirmation_audio_url)
+      .map((e) => toObjectPath(e.affirmation_audio_url, "affirmation-audio"));
+
+    const [photoUrls, audioUrls] = await Promise.all([
+      signPaths(supabase, "journal-photos", photoPaths),
+      signPaths(supabase, "affirmation-audio", audioPaths),
+    ]);
+
+    for (const entry of entries) {
+      entry.photo_signed_url = entry.photo_url
+        ? photoUrls.get(toObjectPath(entry.photo_url, "journal-photos")) ?? null
+        : null;
+      entry.affirmation_audio_signed_url = entry.affirmation_audio_url
+        ? audioUrls.get(toObjectPath(entry.affirmation_audio_url, "affirmation-audio")) ?? null
+        : null;
     }
-    
-    // Compile export data
-    const exportData = {
-      profile: {
-        ...profile,
-        // Remove sensitive fields
-        revenuecart_user_id: undefined,
-      },
-      journal_entries: entries,
-      badges: badges,
-      export_date: new Date().toISOString(),
-    };
-    
-    // Return the data
-    return new Response(
-      JSON.stringify({
-        success: true,
-        data: exportData,
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
-  } catch (error) {
-    console.error("Error exporting journal data:", error);
-    
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || "Failed to export journal data",
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
   }
-});
\ No newline at end of file
+
+  // Get user's badges
+  const { data: badges, error: badgesError } = await supabase
+    .rpc("get_user_badge_progress", { target_user_id: userId });
+
+  if (badgesError) {
+    throw new Error(`Failed to retrieve badges: ${badgesError.message}`);
+  }
+
+  // Compile export data
+  return {
+    profile: {
+      ...profile,
+      // Remove sensitive fields
+      revenuecart_user_id: undefined,
+    },
+    journal_entries: entries,
+    badges: badges,
+    filters: {
+      start_date: options.startDate,
+      end_date: options.endDate,
+      moods: options.moods,
+    },
+    export_date: new Date().toISOString(),
+  };
+}
+
+serve((req) => {
+  // Get environment variables
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  // Initialize Supabase client with service role key
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  return handleExportJournalData(req, {
+    auth: supabase,
+    listVerifiedFactors: async (userId) => {
+      const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+      if (error) throw error;
+      return data.factors
+        .filter((factor) => factor.status === "verified")
+        .map((factor) => factor.id);
+    },
+    loadExportData: (userId, options) => loadExportData(supabase, userId, options),
+  });
+});
@@ -1,6 +1,7 @@
 // Edge function to generate speech from text using ElevenLabs
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { getUserEntitlements, requireFeature } from "../_shared/entitlements.ts";
 
 // Define proper CORS headers
 const corsHeaders = {
@@ -18,7 +19,6 @@ interface RequestBody {
     use_speaker_boost?: boolean;
   };
   save_to_storage?: boolean;
-  user_id?: string;
 }
 
 interface ResponseBody {
@@ -147,6 +147,24 @@ Deno.serve(async (req) => {
   }
   
   try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Missing Supabase environment variables");
+    }
+
+    // Speech is a premium feature, so check the caller's plan before calling ElevenLabs
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const access = await requireFeature(req, "voice-synthesis", {
+      auth: supabase,
+      getEntitlements: (userId) => getUserEntitlements(supabase, userId),
+    });
+
+    if (!access.allowed) {
+      return access.response;
+    }
+
     // Check if request has content and proper Content-Type
     const contentType = req.headers.get("Content-Type");
     if (!contentType || !contentType.includes("application/json")) {
@@ -187,7 +205,8 @@ Deno.serve(async (req) => {
       );
     }
     
-    const { text, voice_settings, save_to_storage, user_id } = body;
+    const { text, voice_settings, save_to_storage } = body;
+    const userId = access.user.id;
     
     if (!text || typeof text !== 'string' || text.trim().length === 0) {
       return new Response(
@@ -216,10 +235,10 @@ Deno.serve(async (req) => {
       
       // If requested, save to storage
       let storagePath = null;
-      if (save_to_storage && user_id) {
-        console.log(`Attempting to save audio to storage for user ${user_id}`);
+      if (save_to_storage) {
+        console.log(`Attempting to save audio to storage for user ${userId}`);
         try {
-          storagePath = await saveAudioToStorage(audioData, user_id);
+          storagePath = await saveAudioToStorage(audioData, userId);
           
           if (storagePath) {
             console.log(`Audio saved successfully at path: ${storagePath}`);
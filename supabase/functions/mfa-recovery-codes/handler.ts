@@ -0,0 +1,129 @@
+// Reports, regenerates or redeems the caller's one-time MFA recovery codes
+
+import { AuthClient, getAssuranceLevel, getUserFromRequest } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse, readJsonBody } from "../_shared/cors.ts";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// No 0/O, 1/I: codes get copied from paper
+const RECOVERY_CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+
+export interface MfaRecoveryCodesDeps {
+  auth: AuthClient;
+  /** IDs of the user's verified factors */
+  listVerifiedFactors(userId: string): Promise<string[]>;
+  deleteFactors(userId: string, factorIds: string[]): Promise<void>;
+  /** Replace every code the user has with these hashes */
+  replaceCodes(userId: string, codeHashes: string[]): Promise<void>;
+  countUnusedCodes(userId: string): Promise<number>;
+  /** Mark an unused code as used; false when there is no such code */
+  consumeCode(userId: string, codeHash: string): Promise<boolean>;
+  deleteCodes(userId: string): Promise<void>;
+}
+
+/**
+ * A random code such as "7KQ2M-XH4PD", about 50 bits
+ */
+export function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_GROUP_LENGTH * 2));
+  // 32 letters, so the low five bits pick one without bias
+  const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte & 31]).join("");
+  return `${chars.slice(0, RECOVERY_CODE_GROUP_LENGTH)}-${chars.slice(RECOVERY_CODE_GROUP_LENGTH)}`;
+}
+
+/**
+ * Undo the ways people retype a code: case, spaces, dashes
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+/**
+ * Hash a code for storage, salted with the user's ID so equal codes differ
+ */
+export async function hashRecoveryCode(userId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${userId}:${normalizeRecoveryCode(code)}`),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function handleMfaRecoveryCodes(
+  req: Request,
+  deps: MfaRecoveryCodesDeps,
+): Promise<Response> {
+  // Handle CORS preflight request
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  const user = await getUserFromRequest(req, deps.auth);
+  if (!user) {
+    return jsonResponse({ success: false, error: "Failed to authenticate user" }, 401);
+  }
+
+  // A missing or malformed body is reported as an unknown action below
+  const body = await readJsonBody(req);
+
+  try {
+    switch (body.action) {
+      case "status": {
+        const remaining = await deps.countUnusedCodes(user.id);
+        return jsonResponse({ success: true, remaining });
+      }
+
+      case "generate": {
+        // Codes bypass the second factor, so only a session that passed it may mint them
+        if (getAssuranceLevel(req) !== "aal2") {
+          return jsonResponse({
+            success: false,
+            code: "insufficient_aal",
+            error: "Verify your authenticator code first",
+          }, 403);
+        }
+        if ((await deps.listVerifiedFactors(user.id)).length === 0) {
+          return jsonResponse({ success: false, error: "Set up an authenticator app first" }, 400);
+        }
+
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+        const hashes = await Promise.all(codes.map((code) => hashRecoveryCode(user.id, code)));
+        await deps.replaceCodes(user.id, hashes);
+        return jsonResponse({ success: true, codes });
+      }
+
+      case "redeem": {
+        if (typeof body.code !== "string" || !normalizeRecoveryCode(body.code)) {
+          return jsonResponse({ success: false, error: "Missing recovery code" }, 400);
+        }
+
+        const isValid = await deps.consumeCode(user.id, await hashRecoveryCode(user.id, body.code));
+        if (!isValid) {
+          return jsonResponse({
+            success: false,
+            code: "invalid_recovery_code",
+            error: "That recovery code isn't valid or was already used",
+          }, 400);
+        }
+
+        // The authenticator is presumed lost: remove it so the user can sign in and set up a new one
+        const factorIds = await deps.listVerifiedFactors(user.id);
+        await deps.deleteFactors(user.id, factorIds);
+        await deps.deleteCodes(user.id);
+        return jsonResponse({ success: true, removedFactors: factorIds.length });
+      }
+
+      default:
+        return jsonResponse({ success: false, error: "Unknown action" }, 400);
+    }
+  } catch (error) {
+    console.error("Recovery code request failed:", error instanceof Error ? error.message : error);
+    return jsonResponse({ success: false, error: "Failed to process recovery codes" }, 500);
+  }
+}
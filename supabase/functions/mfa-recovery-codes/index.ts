@@ -0,0 +1,77 @@
+// Edge function for one-time MFA recovery codes
+// Expects JSON with `action`: "status", "generate" (needs an aal2 session)
+// or "redeem" with `code`, which removes the user's second factor
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { jsonResponse } from "../_shared/cors.ts";
+import { handleMfaRecoveryCodes } from "./handler.ts";
+
+serve((req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  return handleMfaRecoveryCodes(req, {
+    auth: supabase,
+    listVerifiedFactors: async (userId) => {
+      const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+      if (error) throw error;
+      return data.factors
+        .filter((factor) => factor.status === "verified")
+        .map((factor) => factor.id);
+    },
+    deleteFactors: async (userId, factorIds) => {
+      for (const id of factorIds) {
+        const { error } = await supabase.auth.admin.mfa.deleteFactor({ id, userId });
+        if (error) throw error;
+      }
+    },
+    replaceCodes: async (userId, codeHashes) => {
+      const { error: deleteError } = await supabase
+        .from("mfa_recovery_codes")
+        .delete()
+        .eq("user_id", userId);
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase
+        .from("mfa_recovery_codes")
+        .insert(codeHashes.map((code_hash) => ({ user_id: userId, code_hash })));
+      if (error) throw error;
+    },
+    countUnusedCodes: async (userId) => {
+      const { count, error } = await supabase
+        .from("mfa_recovery_codes")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .is("used_at", null);
+      if (error) throw error;
+      return count ?? 0;
+    },
+    consumeCode: async (userId, codeHash) => {
+      // Only an unused code matches, so two redemptions of one code can't both succeed
+      const { data, error } = await supabase
+        .from("mfa_recovery_codes")
+        .update({ used_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("code_hash", codeHash)
+        .is("used_at", null)
+        .select("id");
+      if (error) throw error;
+      return (data?.length ?? 0) > 0;
+    },
+    deleteCodes: async (userId) => {
+      const { error } = await supabase
+        .from("mfa_recovery_codes")
+        .delete()
+        .eq("user_id", userId);
+      if (error) throw error;
+    },
+  });
+});
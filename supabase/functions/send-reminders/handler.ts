@@ -0,0 +1,255 @@
+// Claims each due notification and delivers it by Web Push or email, pruning expired push endpoints
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+export type NotificationKind = "reminder" | "nudge" | "digest";
+
+export interface DigestSummary {
+  week_start: string;
+  days_journaled: number;
+  entries: number;
+  words: number;
+  goal: number;
+  met: boolean;
+  top_mood: string | null;
+  current_streak: number;
+  streak_period: "day" | "week";
+}
+
+/**
+ * A row from get_due_notifications
+ */
+export interface DueNotification {
+  user_id: string;
+  kind: NotificationKind;
+  /** Local day the notification is for, YYYY-MM-DD */
+  sent_for: string;
+  email: string | null;
+  name: string | null;
+  days_since_entry: number | null;
+  digest: DigestSummary | null;
+}
+
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+export interface PushResult {
+  ok: boolean;
+  /** The push service no longer knows the subscription */
+  expired?: boolean;
+  error?: string;
+}
+
+export interface PushProvider {
+  name: string;
+  send(subscription: PushSubscriptionRecord, message: PushMessage): Promise<PushResult>;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailProvider {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface DeliveryResult {
+  status: "sent" | "failed";
+  channels: string[];
+  error?: string;
+}
+
+export interface SendRemindersDeps {
+  /** Bearer token the scheduler sends */
+  cronSecret: string;
+  appUrl: string;
+  now(): Date;
+  getDueNotifications(now: Date): Promise<DueNotification[]>;
+  /** Record the delivery as pending; false when another run already has it */
+  claimDelivery(notification: DueNotification): Promise<boolean>;
+  finishDelivery(notification: DueNotification, result: DeliveryResult): Promise<void>;
+  getPushSubscriptions(userId: string): Promise<PushSubscriptionRecord[]>;
+  removePushSubscription(userId: string, endpoint: string): Promise<void>;
+  push: PushProvider;
+  /** null when no mail provider is configured; digests are then skipped */
+  mail: MailProvider | null;
+}
+
+/**
+ * Build the push notification for a reminder or nudge
+ */
+export function buildPushMessage(notification: DueNotification, appUrl: string): PushMessage {
+  const url = `${appUrl}/home`;
+
+  if (notification.kind === "nudge") {
+    return {
+      title: "We miss you",
+      body: `You haven't journaled in ${notification.days_since_entry} days. A few lines is enough to start again.`,
+      url,
+      tag: "zensai-nudge",
+    };
+  }
+
+  return {
+    title: "Time to journal",
+    body: "Take a quiet moment to write about your day.",
+    url,
+    tag: "zensai-reminder",
+  };
+}
+
+/**
+ * Build the weekly digest email
+ */
+export function buildDigestEmail(notification: DueNotification, appUrl: string): MailMessage {
+  const digest = notification.digest;
+  const greeting = notification.name ? `Hi ${notification.name},` : "Hi,";
+  const lines = digest
+    ? [
+      `Last week you journaled on ${digest.days_journaled} of your ${digest.goal} goal days` +
+      (digest.met ? " and reached your goal." : "."),
+      `${digest.entries} ${digest.entries === 1 ? "entry" : "entries"}, ${digest.words} words` +
+      (digest.top_mood ? `, mostly feeling ${digest.top_mood}.` : "."),
+      digest.current_streak > 0
+        ? `Your current streak is ${digest.current_streak} ${digest.streak_period === "week" ? "weeks" : "days"}.`
+        : "A new week is a good time to start a streak.",
+    ]
+    : ["A new week is a good time to write."];
+  const link = `${appUrl}/home`;
+  const escape = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+  return {
+    to: notification.email ?? "",
+    subject: "Your week in Zensai",
+    text: [greeting, "", ...lines, "", `Write today's entry: ${link}`].join("\n"),
+    html: [
+      `<p>${escape(greeting)}</p>`,
+      ...lines.map((line) => `<p>${escape(line)}</p>`),
+      `<p><a href="${escape(link)}">Write today's entry</a></p>`,
+    ].join("\n"),
+  };
+}
+
+async function sendPush(notification: DueNotification, deps: SendRemindersDeps): Promise<DeliveryResult> {
+  const subscriptions = await deps.getPushSubscriptions(notification.user_id);
+  const message = buildPushMessage(notification, deps.appUrl);
+  const errors: string[] = [];
+  let delivered = 0;
+
+  for (const subscription of subscriptions) {
+    const result = await deps.push.send(subscription, message);
+
+    if (result.ok) {
+      delivered++;
+    } else if (result.expired) {
+      await deps.removePushSubscription(notification.user_id, subscription.endpoint);
+    } else if (result.error) {
+      errors.push(result.error);
+    }
+  }
+
+  return delivered > 0
+    ? { status: "sent", channels: ["push"] }
+    : { status: "failed", channels: [], error: errors.join("; ") || "No active push subscriptions" };
+}
+
+async function sendDigest(notification: DueNotification, deps: SendRemindersDeps): Promise<DeliveryResult> {
+  if (!deps.mail) {
+    throw new Error("No mail provider configured");
+  }
+
+  await deps.mail.send(buildDigestEmail(notification, deps.appUrl));
+  return { status: "sent", channels: ["email"] };
+}
+
+export async function handleSendReminders(
+  req: Request,
+  deps: SendRemindersDeps,
+): Promise<Response> {
+  // Handle CORS preflight request
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  if (!deps.cronSecret) {
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  // Only the scheduler may trigger a run
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (token !== deps.cronSecret) {
+    return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const due = await deps.getDueNotifications(deps.now());
+    let sent = 0;
+    let failed = 0;
+    let skipped = 0;
+
+    for (const notification of due) {
+      if (notification.kind === "digest" && (!deps.mail || !notification.email)) {
+        skipped++;
+        continue;
+      }
+
+      if (!(await deps.claimDelivery(notification))) {
+        skipped++;
+        continue;
+      }
+
+      let result: DeliveryResult;
+      try {
+        result = notification.kind === "digest"
+          ? await sendDigest(notification, deps)
+          : await sendPush(notification, deps);
+      } catch (error) {
+        result = {
+          status: "failed",
+          channels: [],
+          error: error instanceof Error ? error.message : "Delivery failed",
+        };
+      }
+
+      // A failed delivery stays recorded so the user isn't notified twice
+      await deps.finishDelivery(notification, result);
+
+      if (result.status === "sent") {
+        sent++;
+      } else {
+        console.error(`Failed to send ${notification.kind} to ${notification.user_id}:`, result.error);
+        failed++;
+      }
+    }
+
+    return jsonResponse({ success: true, due: due.length, sent, failed, skipped });
+  } catch (error) {
+    console.error("Error sending reminders:", error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to send reminders",
+      },
+      500,
+    );
+  }
+}
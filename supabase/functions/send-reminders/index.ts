@@ -0,0 +1,88 @@
+// Edge function that sends due journaling reminders, nudges and digests.
+// Called every 15 minutes by pg_cron; see supabase/README.md.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { jsonResponse } from "../_shared/cors.ts";
+import { DueNotification, handleSendReminders, MailProvider, PushProvider } from "./handler.ts";
+import { createMailProvider, createPushProvider } from "./providers.ts";
+
+serve((req) => {
+  // Get environment variables
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const cronSecret = Deno.env.get("REMINDERS_CRON_SECRET") || "";
+  const appUrl = Deno.env.get("APP_URL") || "https://zensai.me";
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  // Initialize Supabase client with service role key
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let push: PushProvider;
+  let mail: MailProvider | null;
+  try {
+    push = createPushProvider();
+    mail = createMailProvider();
+  } catch (error) {
+    console.error("Error configuring delivery providers:", error);
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  return handleSendReminders(req, {
+    cronSecret,
+    appUrl,
+    now: () => new Date(),
+    push,
+    mail,
+
+    getDueNotifications: async (now) => {
+      const { data, error } = await supabase.rpc("get_due_notifications", { p_now: now.toISOString() });
+      if (error) throw new Error(`Failed to load due notifications: ${error.message}`);
+      return (data ?? []) as DueNotification[];
+    },
+
+    claimDelivery: async (notification) => {
+      const { data, error } = await supabase
+        .from("notification_deliveries")
+        .upsert(
+          { user_id: notification.user_id, kind: notification.kind, sent_for: notification.sent_for },
+          { onConflict: "user_id,kind,sent_for", ignoreDuplicates: true },
+        )
+        .select("id");
+      if (error) throw new Error(`Failed to record delivery: ${error.message}`);
+      return (data ?? []).length > 0;
+    },
+
+    finishDelivery: async (notification, result) => {
+      const { error } = await supabase
+        .from("notification_deliveries")
+        .update({
+          status: result.status,
+          channels: result.channels,
+          error: result.error ?? null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", notification.user_id)
+        .eq("kind", notification.kind)
+        .eq("sent_for", notification.sent_for);
+      if (error) console.error("Failed to update delivery:", error);
+    },
+
+    getPushSubscriptions: async (userId) => {
+      const { data, error } = await supabase
+        .from("push_subscriptions")
+        .select("endpoint, p256dh, auth")
+        .eq("user_id", userId);
+      if (error) throw new Error(`Failed to load push subscriptions: ${error.message}`);
+      return data ?? [];
+    },
+
+    removePushSubscription: async (userId, endpoint) => {
+      await supabase.from("push_subscriptions").delete().eq("user_id", userId).eq("endpoint", endpoint);
+    },
+  });
+});
@@ -0,0 +1,147 @@
+// Delivery providers for reminders and digests
+//
+// Pick push delivery with REMINDER_PUSH_PROVIDER ("webpush" by default, "stub"
+// to log notifications instead of sending them) and email with
+// REMINDER_MAIL_PROVIDER ("none" by default, "resend" or "stub").
+
+import webpush from "npm:web-push@3.6.7";
+import type {
+  MailMessage,
+  MailProvider,
+  PushMessage,
+  PushProvider,
+  PushResult,
+  PushSubscriptionRecord,
+} from "./handler.ts";
+
+/**
+ * Provider that logs push notifications, for local development
+ */
+export class StubPushProvider implements PushProvider {
+  name = "stub";
+  sent: { subscription: PushSubscriptionRecord; message: PushMessage }[] = [];
+
+  async send(subscription: PushSubscriptionRecord, message: PushMessage): Promise<PushResult> {
+    this.sent.push({ subscription, message });
+    console.log(`[stub push] ${subscription.endpoint}: ${message.title}`);
+    return { ok: true };
+  }
+}
+
+/**
+ * Provider that sends Web Push messages signed with the VAPID keys
+ */
+export class WebPushProvider implements PushProvider {
+  name = "webpush";
+
+  constructor(publicKey: string, privateKey: string, subject: string) {
+    webpush.setVapidDetails(subject, publicKey, privateKey);
+  }
+
+  async send(subscription: PushSubscriptionRecord, message: PushMessage): Promise<PushResult> {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(message),
+        { TTL: 60 * 60 },
+      );
+      return { ok: true };
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+
+      // 404 and 410 mean the browser unsubscribed
+      if (statusCode === 404 || statusCode === 410) {
+        return { ok: false, expired: true };
+      }
+
+      return { ok: false, error: error instanceof Error ? error.message : `Push failed with status ${statusCode}` };
+    }
+  }
+}
+
+/**
+ * Provider that logs emails, for local development
+ */
+export class StubMailProvider implements MailProvider {
+  name = "stub";
+  sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    console.log(`[stub mail] ${message.to}: ${message.subject}`);
+  }
+}
+
+/**
+ * Provider backed by the Resend email API
+ */
+export class ResendMailProvider implements MailProvider {
+  name = "resend";
+
+  constructor(
+    private apiKey: string,
+    private from: string,
+    private baseUrl = "https://api.resend.com",
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/emails`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from: this.from, ...message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend API error: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Build the push provider configured for this environment
+ */
+export function createPushProvider(): PushProvider {
+  const provider = Deno.env.get("REMINDER_PUSH_PROVIDER") || "webpush";
+
+  if (provider === "stub") {
+    return new StubPushProvider();
+  }
+
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  if (!publicKey || !privateKey) {
+    throw new Error("VAPID keys not found");
+  }
+
+  return new WebPushProvider(publicKey, privateKey, Deno.env.get("VAPID_SUBJECT") || "mailto:support@zensai.me");
+}
+
+/**
+ * Build the mail provider configured for this environment, or null when
+ * digests are turned off
+ */
+export function createMailProvider(): MailProvider | null {
+  const provider = Deno.env.get("REMINDER_MAIL_PROVIDER") || "none";
+
+  if (provider === "stub") {
+    return new StubMailProvider();
+  }
+
+  if (provider !== "resend") {
+    return null;
+  }
+
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  if (!apiKey) {
+    throw new Error("Resend API key not found");
+  }
+
+  return new ResendMailProvider(
+    apiKey,
+    Deno.env.get("REMINDER_MAIL_FROM") || "Zensai <reminders@zensai.me>",
+    Deno.env.get("RESEND_API_BASE_URL") || undefined,
+  );
+}
@@ -0,0 +1,353 @@
+// Syncs subscriptions and orders from signed Stripe events once each, and retries failed events on the cron run
+
+import { jsonResponse } from "../_shared/cors.ts";
+import {
+  getId,
+  getProfileSubscription,
+  ProfileSubscription,
+  StripeRef,
+  StripeSubscription,
+  toIso,
+} from "../_shared/subscription.ts";
+
+/** Failed events retried per scheduled run */
+export const RETRY_BATCH_SIZE = 25;
+
+/** Events are dead-lettered after this many failed attempts */
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+/** An event still processing after this long is presumed abandoned by a crashed delivery */
+export const PROCESSING_LEASE_MINUTES = 10;
+
+/** Subscription changes, invoices and trial notices all resync the customer */
+const SUBSCRIPTION_EVENT_TYPES = new Set([
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "customer.subscription.paused",
+  "customer.subscription.resumed",
+  "customer.subscription.trial_will_end",
+  "invoice.paid",
+  "invoice.payment_succeeded",
+  "invoice.payment_failed",
+]);
+
+const CHECKOUT_EVENT_TYPES = new Set([
+  "checkout.session.completed",
+  "checkout.session.async_payment_succeeded",
+]);
+
+/**
+ * The parts of a Stripe event this function reads
+ */
+export interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: object };
+}
+
+/**
+ * The parts of a Stripe Checkout session this function reads
+ */
+export interface StripeCheckoutSession {
+  id: string;
+  mode: string;
+  payment_status: string;
+  customer: StripeRef;
+  client_reference_id: string | null;
+  metadata?: Record<string, string> | null;
+  payment_intent: StripeRef;
+  amount_subtotal: number | null;
+  amount_total: number | null;
+  currency: string | null;
+}
+
+/**
+ * A row for stripe_subscriptions
+ */
+export interface SubscriptionRow {
+  customer_id: string;
+  subscription_id: string;
+  price_id: string | null;
+  current_period_start: string;
+  current_period_end: string;
+  cancel_at_period_end: boolean;
+  payment_method_brand: string | null;
+  payment_method_last4: string | null;
+  status: string;
+}
+
+/**
+ * A row for stripe_orders
+ */
+export interface StripeOrder {
+  checkout_session_id: string;
+  payment_intent_id: string | null;
+  customer_id: string;
+  amount_subtotal: number | null;
+  amount_total: number | null;
+  currency: string | null;
+  payment_status: string;
+}
+
+export type WebhookEventStatus = "processed" | "failed" | "dead_letter";
+
+/**
+ * The Stripe API calls this function makes
+ */
+export interface StripeClient {
+  /** Verify the signature and parse the payload; throws when it doesn't match */
+  constructEvent(body: string, signature: string): Promise<StripeEvent>;
+  /** Every subscription the customer has, whatever its status */
+  listSubscriptions(customerId: string): Promise<StripeSubscription[]>;
+  listLineItems(checkoutSessionId: string): Promise<Array<{ priceId: string | null; quantity: number }>>;
+}
+
+export interface StripeWebhookDeps {
+  stripe: StripeClient;
+  /** Bearer token the scheduler sends to run retries */
+  cronSecret: string;
+  /** Yearly plan, which is the premium_plus tier */
+  yearlyPriceId?: string;
+  /** One-time price for a single streak freeze */
+  streakFreezePriceId?: string;
+  /** Record the event; false when it was already processed or is being processed */
+  claimEvent(event: StripeEvent): Promise<boolean>;
+  /** Mark a claimed event processed, or failed with the error */
+  finishEvent(eventId: string, error?: string): Promise<WebhookEventStatus>;
+  /** Failed events whose next attempt is due, and events left processing past the lease */
+  getDueEvents(limit: number): Promise<StripeEvent[]>;
+  findUserForCustomer(customerId: string): Promise<string | null>;
+  linkCustomer(userId: string, customerId: string): Promise<void>;
+  saveSubscriptions(subscriptions: SubscriptionRow[]): Promise<void>;
+  /** Throws when the user has no profile */
+  updateProfileSubscription(userId: string, subscription: ProfileSubscription): Promise<void>;
+  /** Record a paid order and grant its streak freezes; false when it was already recorded */
+  recordOrder(order: StripeOrder, userId: string | null, streakFreezes: number): Promise<boolean>;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+function toSubscriptionRow(customerId: string, subscription: StripeSubscription): SubscriptionRow {
+  const paymentMethod = subscription.default_payment_method;
+  const card = paymentMethod && typeof paymentMethod !== "string" ? paymentMethod.card : null;
+
+  return {
+    customer_id: customerId,
+    subscription_id: subscription.id,
+    price_id: subscription.items.data[0]?.price.id ?? null,
+    current_period_start: toIso(subscription.current_period_start),
+    current_period_end: toIso(subscription.current_period_end),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    payment_method_brand: card?.brand ?? null,
+    payment_method_last4: card?.last4 ?? null,
+    status: subscription.status,
+  };
+}
+
+/**
+ * The user a customer belongs to, linking them on first sight when checkout
+ * told us who it was for
+ */
+async function resolveUser(
+  customerId: string,
+  userIdHint: string | null,
+  deps: StripeWebhookDeps,
+): Promise<string> {
+  const linked = await deps.findUserForCustomer(customerId);
+  if (linked) return linked;
+
+  if (!userIdHint) {
+    // Thrown so the event is retried once checkout has linked the customer
+    throw new Error(`No user found for Stripe customer ${customerId}`);
+  }
+
+  await deps.linkCustomer(userIdHint, customerId);
+  return userIdHint;
+}
+
+/**
+ * Store all of a customer's subscriptions and bring the profile in line with them
+ */
+async function syncCustomer(customerId: string, userIdHint: string | null, deps: StripeWebhookDeps) {
+  const subscriptions = await deps.stripe.listSubscriptions(customerId);
+
+  if (subscriptions.length > 0) {
+    await deps.saveSubscriptions(subscriptions.map((subscription) => toSubscriptionRow(customerId, subscription)));
+  }
+
+  const hint = userIdHint ?? subscriptions.map((subscription) => subscription.metadata?.userId).find(Boolean) ?? null;
+  const userId = await resolveUser(customerId, hint, deps);
+  const profile = getProfileSubscription(subscriptions, deps.yearlyPriceId);
+
+  await deps.updateProfileSubscription(userId, profile);
+  console.info(`Synced ${subscriptions.length} subscription(s) for customer ${customerId}: ${profile.tier}`);
+}
+
+async function handleCheckout(session: StripeCheckoutSession, deps: StripeWebhookDeps) {
+  const customerId = getId(session.customer);
+  if (!customerId) {
+    throw new Error(`Checkout session ${session.id} has no customer`);
+  }
+
+  const userIdHint = session.client_reference_id || session.metadata?.userId || null;
+
+  if (session.mode === "subscription") {
+    await syncCustomer(customerId, userIdHint, deps);
+    return;
+  }
+
+  if (session.mode !== "payment" || session.payment_status !== "paid") {
+    return;
+  }
+
+  let streakFreezes = 0;
+  if (deps.streakFreezePriceId) {
+    const lineItems = await deps.stripe.listLineItems(session.id);
+    streakFreezes = lineItems
+      .filter((item) => item.priceId === deps.streakFreezePriceId)
+      .reduce((total, item) => total + item.quantity, 0);
+  }
+
+  const userId = streakFreezes > 0 ? await resolveUser(customerId, userIdHint, deps) : null;
+
+  const recorded = await deps.recordOrder(
+    {
+      checkout_session_id: session.id,
+      payment_intent_id: getId(session.payment_intent),
+      customer_id: customerId,
+      amount_subtotal: session.amount_subtotal,
+      amount_total: session.amount_total,
+      currency: session.currency,
+      payment_status: session.payment_status,
+    },
+    userId,
+    streakFreezes,
+  );
+
+  console.info(
+    recorded
+      ? `Recorded one-time payment for session ${session.id} with ${streakFreezes} streak freeze(s)`
+      : `One-time payment for session ${session.id} was already recorded`,
+  );
+}
+
+async function processEvent(event: StripeEvent, deps: StripeWebhookDeps) {
+  if (CHECKOUT_EVENT_TYPES.has(event.type)) {
+    await handleCheckout(event.data.object as StripeCheckoutSession, deps);
+    return;
+  }
+
+  if (SUBSCRIPTION_EVENT_TYPES.has(event.type)) {
+    const object = event.data.object as { customer?: StripeRef; metadata?: Record<string, string> | null };
+    const customerId = getId(object.customer);
+    if (!customerId) {
+      throw new Error(`No customer on ${event.type} event ${event.id}`);
+    }
+
+    await syncCustomer(customerId, object.metadata?.userId || null, deps);
+  }
+
+  // Anything else is logged in stripe_webhooks and needs no work
+}
+
+/**
+ * Claim, process and finish one event
+ *
+ * Returns null when another delivery already handled or is handling it.
+ */
+async function runEvent(
+  event: StripeEvent,
+  deps: StripeWebhookDeps,
+): Promise<{ status: WebhookEventStatus; error?: string } | null> {
+  if (!(await deps.claimEvent(event))) {
+    return null;
+  }
+
+  try {
+    await processEvent(event, deps);
+  } catch (error) {
+    const message = getErrorMessage(error, "Failed to process event");
+    console.error(`Failed to process ${event.type} event ${event.id}:`, message);
+    return { status: await deps.finishEvent(event.id, message), error: message };
+  }
+
+  return { status: await deps.finishEvent(event.id) };
+}
+
+async function handleDelivery(req: Request, signature: string, deps: StripeWebhookDeps): Promise<Response> {
+  const body = await req.text();
+
+  let event: StripeEvent;
+  try {
+    event = await deps.stripe.constructEvent(body, signature);
+  } catch (error) {
+    console.error("Webhook signature verification failed:", getErrorMessage(error, "Invalid signature"));
+    return jsonResponse({ success: false, error: "Webhook signature verification failed" }, 400);
+  }
+
+  const result = await runEvent(event, deps);
+
+  if (!result) {
+    return jsonResponse({ received: true, duplicate: true });
+  }
+
+  if (result.status !== "processed") {
+    // A failure response makes Stripe redeliver the event as well
+    return jsonResponse({ received: false, status: result.status, error: result.error }, 500);
+  }
+
+  return jsonResponse({ received: true });
+}
+
+async function handleRetries(req: Request, deps: StripeWebhookDeps): Promise<Response> {
+  if (!deps.cronSecret) {
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  // Only the scheduler may trigger a retry run
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (token !== deps.cronSecret) {
+    return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+  }
+
+  const due = await deps.getDueEvents(RETRY_BATCH_SIZE);
+  let processed = 0;
+  let failed = 0;
+  let deadLettered = 0;
+
+  for (const event of due) {
+    const result = await runEvent(event, deps);
+    if (result?.status === "processed") processed++;
+    else if (result?.status === "failed") failed++;
+    else if (result?.status === "dead_letter") deadLettered++;
+  }
+
+  return jsonResponse({ success: true, due: due.length, processed, failed, deadLettered });
+}
+
+export async function handleStripeWebhook(
+  req: Request,
+  deps: StripeWebhookDeps,
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return jsonResponse({ success: false, error: "Method not allowed" }, 405);
+  }
+
+  try {
+    // Stripe signs its deliveries; the scheduled retry run sends the cron secret instead
+    const signature = req.headers.get("stripe-signature");
+    return signature ? await handleDelivery(req, signature, deps) : await handleRetries(req, deps);
+  } catch (error) {
+    console.error("Error processing webhook:", error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: getErrorMessage(error, "Failed to process webhook"),
+      },
+      500,
+    );
+  }
+}
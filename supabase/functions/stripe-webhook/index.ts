@@ -1,191 +1,166 @@
-import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
-import Stripe from 'npm:stripe@17.7.0';
-import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
-
-const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
-const stripeWebhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET')!;
-const stripe = new Stripe(stripeSecret, {
-  appInfo: {
-    name: 'Bolt Integration',
-    version: '1.0.0',
-  },
-});
-
-const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
-
-Deno.serve(async (req) => {
-  try {
-    // Handle OPTIONS request for CORS preflight
-    if (req.method === 'OPTIONS') {
-      return new Response(null, { status: 204 });
-    }
-
-    if (req.method !== 'POST') {
-      return new Response('Method not allowed', { status: 405 });
-    }
-
-    // get the signature from the header
-    const signature = req.headers.get('stripe-signature');
-
-    if (!signature) {
-      return new Response('No signature found', { status: 400 });
-    }
-
-    // get the raw body
-    const body = await req.text();
-
-    // verify the webhook signature
-    let event: Stripe.Event;
-
-    try {
-      event = await stripe.webhooks.constructEventAsync(body, signature, stripeWebhookSecret);
-    } catch (error: any) {
-      console.error(`Webhook signature verification failed: ${error.message}`);
-      return new Response(`Webhook signature verification failed: ${error.message}`, { status: 400 });
-    }
-
-    EdgeRuntime.waitUntil(handleEvent(event));
-
-    return Response.json({ received: true });
-  } catch (error: any) {
-    console.error('Error processing webhook:', error);
-    return Response.json({ error: error.message }, { status: 500 });
+// Edge function that processes Stripe webhook events once each, and retries
+// the ones that failed when pg_cron calls it; see supabase/README.md.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import Stripe from "npm:stripe@17.7.0";
+import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { jsonResponse } from "../_shared/cors.ts";
+import {
+  handleStripeWebhook,
+  MAX_WEBHOOK_ATTEMPTS,
+  PROCESSING_LEASE_MINUTES,
+  StripeEvent,
+  WebhookEventStatus,
+} from "./handler.ts";
+
+serve((req) => {
+  // Get environment variables
+  const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
+  const stripeWebhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const cronSecret = Deno.env.get("STRIPE_WEBHOOK_RETRY_CRON_SECRET") || "";
+
+  if (!stripeSecretKey || !stripeWebhookSecret || !supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
   }
-});
 
-async function handleEvent(event: Stripe.Event) {
-  const stripeData = event?.data?.object ?? {};
-
-  if (!stripeData) {
-    return;
-  }
-
-  if (!('customer' in stripeData)) {
-    return;
-  }
-
-  // for one time payments, we only listen for the checkout.session.completed event
-  if (event.type === 'payment_intent.succeeded' && event.data.object.invoice === null) {
-    return;
-  }
-
-  const { customer: customerId } = stripeData;
-
-  if (!customerId || typeof customerId !== 'string') {
-    console.error(`No customer received on event: ${JSON.stringify(event)}`);
-  } else {
-    let isSubscription = true;
-
-    if (event.type === 'checkout.session.completed') {
-      const { mode } = stripeData as Stripe.Checkout.Session;
-
-      isSubscription = mode === 'subscription';
-
-      console.info(`Processing ${isSubscription ? 'subscription' : 'one-time payment'} checkout session`);
-    }
-
-    const { mode, payment_status } = stripeData as Stripe.Checkout.Session;
-
-    if (isSubscription) {
-      console.info(`Starting subscription sync for customer: ${customerId}`);
-      await syncCustomerFromStripe(customerId);
-    } else if (mode === 'payment' && payment_status === 'paid') {
-      try {
-        // Extract the necessary information from the session
-        const {
-          id: checkout_session_id,
-          payment_intent,
-          amount_subtotal,
-          amount_total,
-          currency,
-        } = stripeData as Stripe.Checkout.Session;
-
-        // Insert the order into the stripe_orders table
-        const { error: orderError } = await supabase.from('stripe_orders').insert({
-          checkout_session_id,
-          payment_intent_id: payment_intent,
-          customer_id: customerId,
-          amount_subtotal,
-          amount_total,
-          currency,
-          payment_status,
-          status: 'completed', // assuming we want to mark it as completed since payment is successful
-        });
-
-        if (orderError) {
-          console.error('Error inserting order:', orderError);
-          return;
-        }
-        console.info(`Successfully processed one-time payment for session: ${checkout_session_id}`);
-      } catch (error) {
-        console.error('Error processing one-time payment:', error);
-      }
-    }
-  }
-}
-
-// based on the excellent https://github.com/t3dotgg/stripe-recommendations
-async function syncCustomerFromStripe(customerId: string) {
-  try {
-    // fetch latest subscription data from Stripe
-    const subscriptions = await stripe.subscriptions.list({
-      customer: customerId,
-      limit: 1,
-      status: 'all',
-      expand: ['data.default_payment_method'],
-    });
-
-    // TODO verify if needed
-    if (subscriptions.data.length === 0) {
-      console.info(`No active subscriptions found for customer: ${customerId}`);
-      const { error: noSubError } = await supabase.from('stripe_subscriptions').upsert(
-        {
-          customer_id: customerId,
-          subscription_status: 'not_started',
-        },
-        {
-          onConflict: 'customer_id',
-        },
-      );
-
-      if (noSubError) {
-        console.error('Error updating subscription status:', noSubError);
-        throw new Error('Failed to update subscription status in database');
-      }
-    }
-
-    // assumes that a customer can only have a single subscription
-    const subscription = subscriptions.data[0];
-
-    // store subscription state
-    const { error: subError } = await supabase.from('stripe_subscriptions').upsert(
-      {
-        customer_id: customerId,
-        subscription_id: subscription.id,
-        price_id: subscription.items.data[0].price.id,
-        current_period_start: subscription.current_period_start,
-        current_period_end: subscription.current_period_end,
-        cancel_at_period_end: subscription.cancel_at_period_end,
-        ...(subscription.default_payment_method && typeof subscription.default_payment_method !== 'string'
-          ? {
-              payment_method_brand: subscription.default_payment_method.card?.brand ?? null,
-              payment_method_last4: subscription.default_payment_method.card?.last4 ?? null,
-            }
-          : {}),
-        status: subscription.status,
-      },
-      {
-        onConflict: 'customer_id',
+  const stripe = new Stripe(stripeSecretKey, {
+    appInfo: {
+      name: "Bolt Integration",
+      version: "1.0.0",
+    },
+  });
+
+  // Initialize Supabase client with service role key
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  return handleStripeWebhook(req, {
+    stripe: {
+      constructEvent: (body, signature) =>
+        stripe.webhooks.constructEventAsync(body, signature, stripeWebhookSecret),
+
+      listSubscriptions: (customerId) =>
+        stripe.subscriptions
+          .list({
+            customer: customerId,
+            status: "all",
+            limit: 100,
+            expand: ["data.default_payment_method"],
+          })
+          .autoPagingToArray({ limit: 1000 }),
+
+      listLineItems: async (checkoutSessionId) => {
+        const lineItems = await stripe.checkout.sessions
+          .listLineItems(checkoutSessionId, { limit: 100 })
+          .autoPagingToArray({ limit: 1000 });
+        return lineItems.map((item) => ({ priceId: item.price?.id ?? null, quantity: item.quantity ?? 0 }));
       },
-    );
-
-    if (subError) {
-      console.error('Error syncing subscription:', subError);
-      throw new Error('Failed to sync subscription in database');
-    }
-    console.info(`Successfully synced subscription for customer: ${customerId}`);
-  } catch (error) {
-    console.error(`Failed to sync subscription for customer ${customerId}:`, error);
-    throw error;
-  }
-}
\ No newline at end of file
+    },
+    cronSecret,
+    yearlyPriceId: Deno.env.get("STRIPE_PRICE_ID_YEARLY"),
+    streakFreezePriceId: Deno.env.get("STRIPE_PRICE_ID_STREAK_FREEZE"),
+
+    claimEvent: async (event) => {
+      const { data, error } = await supabase.rpc("claim_stripe_webhook", {
+        p_event_id: event.id,
+        p_event_type: event.type,
+        p_data: event,
+        p_stale_after: `${PROCESSING_LEASE_MINUTES} minutes`,
+        p_max_attempts: MAX_WEBHOOK_ATTEMPTS,
+      });
+      if (error) throw new Error(`Failed to record event: ${error.message}`);
+      return data === true;
+    },
+
+    finishEvent: async (eventId, message) => {
+      const { data, error } = await supabase.rpc("finish_stripe_webhook", {
+        p_event_id: eventId,
+        p_error: message ?? null,
+        p_max_attempts: MAX_WEBHOOK_ATTEMPTS,
+      });
+      if (error) throw new Error(`Failed to record event outcome: ${error.message}`);
+      return data as WebhookEventStatus;
+    },
+
+    getDueEvents: async (limit) => {
+      const now = new Date();
+      const leaseExpiredAt = new Date(now.getTime() - PROCESSING_LEASE_MINUTES * 60 * 1000);
+      const { data, error } = await supabase
+        .from("stripe_webhooks")
+        .select("data")
+        .or(
+          `and(status.eq.failed,next_attempt_at.lte.${now.toISOString()}),` +
+            `and(status.eq.processing,updated_at.lt.${leaseExpiredAt.toISOString()})`,
+        )
+        .order("updated_at")
+        .limit(limit);
+      if (error) throw new Error(`Failed to load due events: ${error.message}`);
+      return (data ?? []).map((row) => row.data as StripeEvent);
+    },
+
+    findUserForCustomer: async (customerId) => {
+      const { data, error } = await supabase
+        .from("stripe_customers")
+        .select("user_id")
+        .eq("customer_id", customerId)
+        .is("deleted_at", null)
+        .maybeSingle();
+      if (error) throw new Error(`Failed to look up customer: ${error.message}`);
+      return data?.user_id ?? null;
+    },
+
+    linkCustomer: async (userId, customerId) => {
+      const { error } = await supabase
+        .from("stripe_customers")
+        .upsert(
+          { user_id: userId, customer_id: customerId, deleted_at: null, updated_at: new Date().toISOString() },
+          { onConflict: "customer_id" },
+        );
+      if (error) throw new Error(`Failed to link customer: ${error.message}`);
+    },
+
+    saveSubscriptions: async (subscriptions) => {
+      const updatedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from("stripe_subscriptions")
+        .upsert(
+          subscriptions.map((subscription) => ({ ...subscription, updated_at: updatedAt })),
+          { onConflict: "subscription_id" },
+        );
+      if (error) throw new Error(`Failed to save subscriptions: ${error.message}`);
+    },
+
+    updateProfileSubscription: async (userId, subscription) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .update({
+          subscription_status: subscription.status,
+          subscription_tier: subscription.tier,
+          subscription_expires_at: subscription.expiresAt,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", userId)
+        .select("user_id");
+      if (error) throw new Error(`Failed to update profile: ${error.message}`);
+      if (!data?.length) throw new Error(`No profile found for user ${userId}`);
+    },
+
+    recordOrder: async (order, userId, streakFreezes) => {
+      const { data, error } = await supabase.rpc("record_stripe_order", {
+        p_checkout_session_id: order.checkout_session_id,
+        p_payment_intent_id: order.payment_intent_id,
+        p_customer_id: order.customer_id,
+        p_amount_subtotal: order.amount_subtotal,
+        p_amount_total: order.amount_total,
+        p_currency: order.currency,
+        p_payment_status: order.payment_status,
+        p_user_id: userId,
+        p_streak_freezes: streakFreezes,
+      });
+      if (error) throw new Error(`Failed to record order: ${error.message}`);
+      return data === true;
+    },
+  });
+});
@@ -0,0 +1,80 @@
+// Transcribes a voice note from the caller's own journal-audio folder with the configured provider
+
+import { AuthClient, getUserFromRequest } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse, readJsonBody } from "../_shared/cors.ts";
+
+/** Five minute recordings in webm/opus or mp4/aac stay well under this */
+export const MAX_VOICE_NOTE_BYTES = 15 * 1024 * 1024;
+
+export interface Transcript {
+  text: string;
+  provider: string;
+}
+
+export interface TranscribeEntryDeps {
+  auth: AuthClient;
+  /** Download a voice note from the journal-audio bucket; null if it doesn't exist */
+  downloadAudio(path: string): Promise<Blob | null>;
+  transcribe(audio: Blob, fileName: string): Promise<Transcript>;
+}
+
+/**
+ * Check that a voice note path points inside the caller's own folder
+ */
+export function isOwnVoiceNotePath(path: unknown, userId: string): path is string {
+  return typeof path === "string" &&
+    path.startsWith(`${userId}/`) &&
+    path.length > userId.length + 1 &&
+    !path.split("/").includes("..");
+}
+
+export async function handleTranscribeEntry(
+  req: Request,
+  deps: TranscribeEntryDeps,
+): Promise<Response> {
+  // Handle CORS preflight request
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  const user = await getUserFromRequest(req, deps.auth);
+  if (!user) {
+    return jsonResponse({ success: false, error: "Failed to authenticate user" }, 401);
+  }
+
+  // A missing or malformed body is reported as a missing path below
+  const body = await readJsonBody(req);
+
+  // The clip was uploaded by the client; only its owner may have it transcribed
+  if (!isOwnVoiceNotePath(body.path, user.id)) {
+    return jsonResponse({ success: false, error: "Missing or invalid voice note path" }, 400);
+  }
+
+  let audio: Blob | null;
+  try {
+    audio = await deps.downloadAudio(body.path);
+  } catch (error) {
+    console.error("Failed to download voice note:", error instanceof Error ? error.message : error);
+    return jsonResponse({ success: false, error: "Voice note could not be read" }, 502);
+  }
+
+  if (!audio || audio.size === 0) {
+    return jsonResponse({ success: false, error: "Voice note not found" }, 404);
+  }
+
+  if (audio.size > MAX_VOICE_NOTE_BYTES) {
+    return jsonResponse({ success: false, error: "Recording is too long" }, 413);
+  }
+
+  try {
+    const fileName = body.path.split("/").pop() || "audio.webm";
+    const { text, provider } = await deps.transcribe(audio, fileName);
+    return jsonResponse({ success: true, text, transcribed_by: provider });
+  } catch (error) {
+    console.error("Transcription failed:", error instanceof Error ? error.message : error);
+    return jsonResponse({ success: false, error: "Transcription is temporarily unavailable" }, 502);
+  }
+}
@@ -0,0 +1,42 @@
+// Edge function to transcribe a voice note recorded for a journal entry
+// Expects JSON with `path`, the clip's location in the journal-audio bucket
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { jsonResponse } from "../_shared/cors.ts";
+import { createTranscriptionProvider } from "../_shared/transcription.ts";
+import { handleTranscribeEntry } from "./handler.ts";
+
+serve((req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  return handleTranscribeEntry(req, {
+    auth: supabase,
+    downloadAudio: async (path) => {
+      const { data, error } = await supabase.storage.from("journal-audio").download(path);
+      if (error) {
+        // Storage reports a missing object as an error with a 400/404 status
+        const status = (error as { statusCode?: string | number }).statusCode;
+        if (status === "404" || status === 404 || status === "400" || status === 400) return null;
+        throw error;
+      }
+      return data;
+    },
+    transcribe: async (audio, fileName) => {
+      const provider = createTranscriptionProvider(
+        Deno.env.get("ENTRY_TRANSCRIBE_PROVIDER") || "elevenlabs",
+        Deno.env,
+        Deno.env.get("ENTRY_TRANSCRIBE_STUB_TEXT"),
+      );
+      return { text: await provider.transcribe(audio, fileName), provider: provider.name };
+    },
+  });
+});
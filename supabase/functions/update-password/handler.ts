@@ -0,0 +1,87 @@
+// Changes the caller's password once it passes the shared policy and, when enabled, a breach check
+
+import { AuthClient, getUserFromRequest, isMfaSatisfied } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse, readJsonBody } from "../_shared/cors.ts";
+import {
+  BreachedPasswordProvider,
+  evaluatePassword,
+  isPasswordBreached,
+  PASSWORD_PROBLEM_MESSAGES,
+} from "../_shared/passwordPolicy.ts";
+
+export interface UpdatePasswordDeps {
+  auth: AuthClient;
+  /** Null when the breach check is turned off */
+  breachProvider: BreachedPasswordProvider | null;
+  /** IDs of the user's verified factors */
+  listVerifiedFactors(userId: string): Promise<string[]>;
+  updatePassword(userId: string, password: string): Promise<void>;
+}
+
+export async function handleUpdatePassword(
+  req: Request,
+  deps: UpdatePasswordDeps,
+): Promise<Response> {
+  // Handle CORS preflight request
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  const user = await getUserFromRequest(req, deps.auth);
+  if (!user) {
+    return jsonResponse({ success: false, error: "Failed to authenticate user" }, 401);
+  }
+
+  // The admin API skips GoTrue's own checks, so a password-only session can't change it here
+  if (!(await isMfaSatisfied(req, user.id, deps.listVerifiedFactors))) {
+    return jsonResponse({
+      success: false,
+      code: "insufficient_aal",
+      error: "Verify your authenticator code first",
+    }, 403);
+  }
+
+  // A missing or malformed body is reported as a missing password below
+  const body = await readJsonBody(req);
+
+  if (typeof body.password !== "string" || !body.password) {
+    return jsonResponse({ success: false, error: "Missing password" }, 400);
+  }
+
+  // The same rules the app checks as the user types
+  const evaluation = evaluatePassword(body.password, { email: user.email });
+  if (!evaluation.isAcceptable) {
+    return jsonResponse({
+      success: false,
+      code: "weak_password",
+      error: PASSWORD_PROBLEM_MESSAGES[evaluation.problems[0]],
+      problems: evaluation.problems,
+    }, 422);
+  }
+
+  if (deps.breachProvider) {
+    try {
+      if (await isPasswordBreached(body.password, deps.breachProvider)) {
+        return jsonResponse({
+          success: false,
+          code: "breached_password",
+          error: "This password has appeared in a data breach. Please choose a different one",
+        }, 422);
+      }
+    } catch (error) {
+      // An unreachable breach service shouldn't stop people changing their password
+      console.error("Breach check failed:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  try {
+    await deps.updatePassword(user.id, body.password);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error("Failed to update password:", error instanceof Error ? error.message : error);
+    return jsonResponse({ success: false, error: "Failed to update password" }, 500);
+  }
+}
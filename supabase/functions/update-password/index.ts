@@ -0,0 +1,38 @@
+// Edge function to change the signed-in user's password
+// Expects JSON with `password`; it must pass the shared password policy
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { jsonResponse } from "../_shared/cors.ts";
+import { PwnedPasswordsProvider } from "../_shared/passwordPolicy.ts";
+import { handleUpdatePassword } from "./handler.ts";
+
+serve((req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing required environment variables");
+    return jsonResponse({ success: false, error: "Server is not configured" }, 500);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  return handleUpdatePassword(req, {
+    auth: supabase,
+    breachProvider: Deno.env.get("PASSWORD_BREACH_CHECK") === "true"
+      ? new PwnedPasswordsProvider(Deno.env.get("PWNED_PASSWORDS_API_BASE_URL") || undefined)
+      : null,
+    listVerifiedFactors: async (userId) => {
+      const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+      if (error) throw error;
+      return data.factors
+        .filter((factor) => factor.status === "verified")
+        .map((factor) => factor.id);
+    },
+    updatePassword: async (userId, password) => {
+      const { error } = await supabase.auth.admin.updateUserById(userId, { password });
+      if (error) throw error;
+    },
+  });
+});
@@ -1,20 +1,20 @@
-// Edge function to verify a Stripe subscription
+// Edge function to verify a Stripe subscription after checkout
+//
+// The webhook normally updates the profile first; this brings it up to date
+// straight away when the user lands back in the app, using the same mapping.
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import Stripe from "npm:stripe@17.7.0";
 import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { getUserFromRequest } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getUserEntitlements } from "../_shared/entitlements.ts";
+import { getId, getProfileSubscription } from "../_shared/subscription.ts";
 
 interface RequestBody {
   sessionId: string;
-  userId: string;
 }
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "*",
-};
-
 serve(async (req) => {
   // Handle CORS preflight request
   if (req.method === "OPTIONS") {
@@ -23,133 +23,99 @@ serve(async (req) => {
       headers: corsHeaders,
     });
   }
-  
+
   try {
     // Get environment variables
     const stripeSecretKey = Deno.env.get("STRIPE_SECRET_KEY");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    
+
     if (!stripeSecretKey || !supabaseUrl || !supabaseServiceKey) {
       throw new Error("Missing required environment variables");
     }
-    
-    // Initialize Stripe and Supabase
+
     const stripe = new Stripe(stripeSecretKey, {
       apiVersion: "2023-10-16",
     });
-    
+
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
-    
-    // Parse request body
-    const { sessionId, userId } = await req.json() as RequestBody;
-    
-    // Validate required fields
-    if (!sessionId || !userId) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Missing required fields: sessionId and userId are required",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+
+    const user = await getUserFromRequest(req, supabase);
+    if (!user) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const { sessionId } = await req.json() as RequestBody;
+
+    if (!sessionId) {
+      return jsonResponse({ success: false, error: "Missing required field: sessionId" }, 400);
     }
-    
-    // Retrieve checkout session
+
     const session = await stripe.checkout.sessions.retrieve(sessionId);
-    
-    // Verify that the session belongs to this user
-    if (session.client_reference_id !== userId) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Invalid session ID for this user",
-        }),
-        {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+    const customerId = getId(session.customer);
+
+    if (!customerId) {
+      return jsonResponse({ success: false, error: "Checkout session has no customer" }, 400);
     }
-    
-    // Check if payment was successful
-    if (session.payment_status !== "paid") {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Payment not completed",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+
+    const { data: customer, error: customerError } = await supabase
+      .from("stripe_customers")
+      .select("user_id")
+      .eq("customer_id", customerId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (customerError) {
+      throw new Error(`Failed to look up customer: ${customerError.message}`);
     }
-    
-    // Get subscription details
-    const subscriptionId = session.subscription as string;
-    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
-    
-    // Determine subscription tier based on price
-    const priceId = subscription.items.data[0].price.id;
-    const monthlyPriceId = Deno.env.get("STRIPE_PRICE_ID_MONTHLY");
-    const yearlyPriceId = Deno.env.get("STRIPE_PRICE_ID_YEARLY");
-    
-    let subscriptionTier = "premium";
-    if (priceId === yearlyPriceId) {
-      subscriptionTier = "premium_plus";
+
+    // The session must be this user's: created for them, or paid by their customer
+    if (customer ? customer.user_id !== user.id : session.client_reference_id !== user.id) {
+      return jsonResponse({ success: false, error: "Invalid session ID for this user" }, 403);
     }
-    
-    // Calculate expiry date
-    const expiresAt = new Date(subscription.current_period_end * 1000).toISOString();
-    
-    // Update user's subscription status in database
-    const { error: updateError } = await supabase.rpc(
-      "update_user_subscription",
-      {
-        user_id: userId,
-        status: "premium",
-        tier: subscriptionTier,
-        expires_at: expiresAt,
-        revenuecart_id: subscription.customer as string
+
+    if (!customer) {
+      const { error: linkError } = await supabase
+        .from("stripe_customers")
+        .upsert({ user_id: user.id, customer_id: customerId }, { onConflict: "customer_id" });
+
+      if (linkError) {
+        throw new Error(`Failed to link customer: ${linkError.message}`);
       }
-    );
-    
+    }
+
+    const subscriptions = await stripe.subscriptions
+      .list({ customer: customerId, status: "all", limit: 100 })
+      .autoPagingToArray({ limit: 1000 });
+
+    const subscription = getProfileSubscription(subscriptions, Deno.env.get("STRIPE_PRICE_ID_YEARLY"));
+
+    const { error: updateError } = await supabase
+      .from("profiles")
+      .update({
+        subscription_status: subscription.status,
+        subscription_tier: subscription.tier,
+        subscription_expires_at: subscription.expiresAt,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", user.id);
+
     if (updateError) {
       throw new Error(`Failed to update subscription status: ${updateError.message}`);
     }
-    
-    // Return success response
-    return new Response(
-      JSON.stringify({
-        success: true,
-        subscription: {
-          id: subscriptionId,
-          status: "premium",
-          tier: subscriptionTier,
-          expiresAt,
-        },
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+
+    const entitlements = await getUserEntitlements(supabase, user.id);
+
+    return jsonResponse({ success: true, subscription, entitlements });
   } catch (error) {
     console.error("Error verifying subscription:", error);
-    
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || "Failed to verify subscription",
-      }),
+
+    return jsonResponse(
       {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to verify subscription",
+      },
+      500,
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,99 @@
+// Checks a Zeno conversation and streams the reply, falling back to canned replies
+
+import { corsHeaders } from "../_shared/cors.ts";
+import { handleZenoAction, requireActiveSession, ZenoDeps, ZenoRequestError } from "../_shared/zeno.ts";
+import { CannedChatProvider, ChatMessage, ChatProvider } from "./providers.ts";
+
+export const MAX_MESSAGES = 30;
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export interface ZenoChatDeps extends ZenoDeps {
+  chatProvider: ChatProvider;
+}
+
+function parseMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ZenoRequestError("Missing required field: messages", 400);
+  }
+
+  const messages = value.slice(-MAX_MESSAGES).map((message) => {
+    const role = message?.role;
+    const text = typeof message?.text === "string" ? message.text.trim() : "";
+
+    if ((role !== "user" && role !== "zeno") || !text) {
+      throw new ZenoRequestError("Each message needs a role of 'user' or 'zeno' and some text", 400);
+    }
+
+    return { role, text: text.slice(0, MAX_MESSAGE_LENGTH) } as ChatMessage;
+  });
+
+  if (messages[messages.length - 1].role !== "user") {
+    throw new ZenoRequestError("The last message must come from the user", 400);
+  }
+
+  return messages;
+}
+
+/**
+ * Start streaming from a provider, switching to the canned provider if the
+ * first chunk can't be produced. Once text has been sent we can't switch, so
+ * later failures just end the stream.
+ */
+async function openReplyStream(
+  provider: ChatProvider,
+  messages: ChatMessage[],
+  goal: string | null,
+): Promise<{ source: "ai" | "fallback"; stream: ReadableStream<Uint8Array> }> {
+  let source: "ai" | "fallback" = provider.name === "canned" ? "fallback" : "ai";
+  let iterator = provider.streamReply(messages, goal)[Symbol.asyncIterator]();
+  let first: IteratorResult<string>;
+
+  try {
+    first = await iterator.next();
+    if (first.done) throw new Error(`${provider.name} returned an empty reply`);
+  } catch (error) {
+    console.warn("Falling back to canned Zeno reply:", error instanceof Error ? error.message : error);
+    source = "fallback";
+    iterator = new CannedChatProvider().streamReply(messages)[Symbol.asyncIterator]();
+    first = await iterator.next();
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        let chunk = first;
+        while (!chunk.done) {
+          controller.enqueue(encoder.encode(chunk.value));
+          chunk = await iterator.next();
+        }
+      } catch (error) {
+        console.error("Zeno reply stream interrupted:", error instanceof Error ? error.message : error);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return { source, stream };
+}
+
+export function handleZenoChat(req: Request, deps: ZenoChatDeps): Promise<Response> {
+  return handleZenoAction(req, deps, async ({ user, body }) => {
+    const messages = parseMessages(body.messages);
+    const session = await requireActiveSession(deps, user.id, body.session_id);
+
+    const { source, stream } = await openReplyStream(deps.chatProvider, messages, session.goal);
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-cache",
+        "Access-Control-Expose-Headers": "X-Zeno-Reply-Source",
+        "X-Zeno-Reply-Source": source,
+      },
+    });
+  });
+}
@@ -0,0 +1,8 @@
+// Edge function for Zeno's side of a voice session
+// Streams the reply as plain text; falls back to canned replies when the AI provider fails
+
+import { serveZeno } from "../_shared/zenoServer.ts";
+import { handleZenoChat } from "./handler.ts";
+import { createChatProvider } from "./providers.ts";
+
+serveZeno((req, deps) => handleZenoChat(req, { ...deps, chatProvider: createChatProvider(Deno.env) }));
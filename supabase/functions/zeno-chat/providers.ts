@@ -0,0 +1,130 @@
+// Chat providers for Zeno
+//
+// Every provider streams its reply as text chunks. Pick one with the
+// ZENO_CHAT_PROVIDER env var ("gemini" by default, "canned" for offline use).
+// GEMINI_API_BASE_URL can point the Gemini provider at a local stub server.
+
+import type { ProviderEnv } from "../_shared/transcription.ts";
+
+export interface ChatMessage {
+  role: "user" | "zeno";
+  text: string;
+}
+
+export interface ChatProvider {
+  name: string;
+  streamReply(messages: ChatMessage[], goal: string | null): AsyncIterable<string>;
+}
+
+export const ZENO_SYSTEM_PROMPT = `You are Zeno, a calm and supportive fox companion in a mindfulness journaling app.
+Keep replies short (2-4 sentences) because they are spoken aloud.
+Be warm and curious, reflect back what you hear, and ask at most one gentle question.
+Do not diagnose or give medical advice. If the user mentions self-harm, encourage them to contact local emergency services or a crisis line.`;
+
+// Fallback replies used when no AI provider is available
+const cannedReplies = [
+  "Thank you for sharing that with me. Let's take a slow breath together. What feels most important to you right now?",
+  "That sounds like a lot to carry. You're doing something kind for yourself by talking about it. What would help you feel a little lighter?",
+  "I hear you. It's okay to feel exactly how you feel. What's one small thing you could do for yourself after our chat?",
+  "I'm glad you're here. Notice how your body feels as you say that out loud. What do you think you need most today?",
+  "That's really worth noticing. What would you say to a friend who told you the same thing?",
+];
+
+/**
+ * Provider that returns pre-written replies, used as the fallback
+ */
+export class CannedChatProvider implements ChatProvider {
+  name = "canned";
+
+  async *streamReply(messages: ChatMessage[]): AsyncIterable<string> {
+    const userTurns = messages.filter((message) => message.role === "user").length;
+    const reply = cannedReplies[Math.max(userTurns - 1, 0) % cannedReplies.length];
+
+    // Stream word by word so clients exercise the same code path
+    for (const word of reply.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+}
+
+/**
+ * Provider backed by Google's Gemini streaming API
+ */
+export class GeminiChatProvider implements ChatProvider {
+  name = "gemini";
+
+  constructor(
+    private apiKey: string,
+    private model = "gemini-1.5-flash",
+    private baseUrl = "https://generativelanguage.googleapis.com",
+  ) {}
+
+  async *streamReply(messages: ChatMessage[], goal: string | null): AsyncIterable<string> {
+    const systemPrompt = goal
+      ? `${ZENO_SYSTEM_PROMPT}\nThe user's goal for this session: ${goal}`
+      : ZENO_SYSTEM_PROMPT;
+
+    const response = await fetch(
+      `${this.baseUrl}/v1beta/models/${this.model}:streamGenerateContent?alt=sse`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": this.apiKey,
+        },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: systemPrompt }] },
+          contents: messages.map((message) => ({
+            role: message.role === "user" ? "user" : "model",
+            parts: [{ text: message.text }],
+          })),
+          generationConfig: { temperature: 0.7, maxOutputTokens: 200 },
+        }),
+      },
+    );
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+    }
+
+    // Server-sent events: one `data: {...}` line per chunk
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+
+        const payload = JSON.parse(line.slice(5).trim());
+        const parts: { text?: string }[] = payload?.candidates?.[0]?.content?.parts ?? [];
+        const text = parts.map((part) => part.text ?? "").join("");
+        if (text) yield text;
+      }
+    }
+  }
+}
+
+/**
+ * Build the chat provider configured in the environment
+ */
+export function createChatProvider(env: ProviderEnv): ChatProvider {
+  const provider = env.get("ZENO_CHAT_PROVIDER") || "gemini";
+  const apiKey = env.get("GEMINI_API_KEY");
+
+  if (provider === "gemini" && apiKey) {
+    return new GeminiChatProvider(
+      apiKey,
+      env.get("GEMINI_MODEL") || undefined,
+      env.get("GEMINI_API_BASE_URL") || undefined,
+    );
+  }
+
+  return new CannedChatProvider();
+}
@@ -0,0 +1,30 @@
+// Checks the size of a micro-task response and records it with complete_zeno_micro_task
+
+import { callZenoFunction, handleZenoAction, ZenoDeps, ZenoRequestError } from "../_shared/zeno.ts";
+
+export const MAX_RESPONSE_BYTES = 4000;
+
+export function handleZenoCompleteMicroTask(req: Request, deps: ZenoDeps): Promise<Response> {
+  return handleZenoAction(req, deps, async ({ user, body }) => {
+    const sessionId = typeof body.session_id === "string" ? body.session_id : "";
+    const state = body.state === "skipped" ? "skipped" : "completed";
+    const response = body.response ?? null;
+
+    if (!sessionId) {
+      throw new ZenoRequestError("Missing required field: session_id", 400);
+    }
+
+    if (response !== null && new TextEncoder().encode(JSON.stringify(response)).length > MAX_RESPONSE_BYTES) {
+      throw new ZenoRequestError("Micro-task response is too large", 400);
+    }
+
+    const status = await callZenoFunction<Record<string, unknown>>(deps, "complete_zeno_micro_task", {
+      p_user_id: user.id,
+      p_session_id: sessionId,
+      p_state: state,
+      p_response: response,
+    });
+
+    return { status };
+  });
+}
@@ -0,0 +1,6 @@
+// Edge function to record the user's response to a post-session micro-task
+
+import { serveZeno } from "../_shared/zenoServer.ts";
+import { handleZenoCompleteMicroTask } from "./handler.ts";
+
+serveZeno(handleZenoCompleteMicroTask);
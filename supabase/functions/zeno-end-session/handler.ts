@@ -0,0 +1,47 @@
+// Ends the caller's active Zeno session with a recap and a randomly chosen micro-task
+
+import { callZenoFunction, handleZenoAction, requireActiveSession, ZenoDeps } from "../_shared/zeno.ts";
+
+export const MICRO_TASK_TYPES = ["gratitude", "breathing", "mood_poll"] as const;
+
+export interface ZenoEndSessionDeps extends ZenoDeps {
+  /** Write the session recap; failures fall back to a canned summary */
+  generateSummary(goal: string | null, durationSeconds: number): Promise<string>;
+}
+
+// Generate a session summary using fallback method
+export function generateFallbackSummary(goal: string | null, durationSeconds: number): string {
+  const minutes = Math.max(1, Math.round(durationSeconds / 60));
+  const time = `${minutes} minute${minutes === 1 ? "" : "s"}`;
+
+  if (goal) {
+    return `You spent ${time} with Zeno working through "${goal}". Taking that time for yourself matters.`;
+  }
+
+  return `You spent ${time} with Zeno. Taking that time for yourself matters.`;
+}
+
+export function handleZenoEndSession(req: Request, deps: ZenoEndSessionDeps): Promise<Response> {
+  return handleZenoAction(req, deps, async ({ user, body }) => {
+    const durationSeconds = typeof body.duration_seconds === "number" ? Math.floor(body.duration_seconds) : 0;
+    const session = await requireActiveSession(deps, user.id, body.session_id);
+
+    let aiSummary: string;
+    try {
+      aiSummary = await deps.generateSummary(session.goal, durationSeconds);
+    } catch (error) {
+      console.warn("Falling back to canned session summary:", error instanceof Error ? error.message : error);
+      aiSummary = generateFallbackSummary(session.goal, durationSeconds);
+    }
+
+    const microTaskType = MICRO_TASK_TYPES[Math.floor(Math.random() * MICRO_TASK_TYPES.length)];
+
+    return await callZenoFunction<Record<string, unknown>>(deps, "end_zeno_session", {
+      p_user_id: user.id,
+      p_session_id: session.id,
+      p_duration_seconds: durationSeconds,
+      p_ai_summary: aiSummary,
+      p_micro_task_type: microTaskType,
+    });
+  });
+}
@@ -0,0 +1,43 @@
+// Edge function to end the caller's active Zeno session
+// Writes a short summary, assigns a micro-task and starts the cooldown
+
+import OpenAI from "npm:openai@4.28.0";
+import { serveZeno } from "../_shared/zenoServer.ts";
+import { handleZenoEndSession } from "./handler.ts";
+
+// Generate a session summary using OpenAI
+async function generateAISummary(goal: string | null, durationSeconds: number): Promise<string> {
+  const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+
+  if (!OPENAI_API_KEY) {
+    throw new Error("OpenAI API key not found");
+  }
+
+  const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+
+  const response = await openai.chat.completions.create({
+    model: "gpt-3.5-turbo",
+    messages: [
+      {
+        role: "system",
+        content: "You are Zeno, a calm and supportive wellness companion. Write a warm, two-sentence recap of a voice session the user just finished. Do not give medical advice.",
+      },
+      {
+        role: "user",
+        content: `Session goal: ${goal || "not specified"}. Duration: ${Math.round(durationSeconds / 60)} minutes.`,
+      },
+    ],
+    temperature: 0.7,
+    max_tokens: 120,
+  });
+
+  const summary = response.choices[0]?.message?.content?.trim();
+
+  if (!summary) {
+    throw new Error("Failed to generate summary from OpenAI");
+  }
+
+  return summary;
+}
+
+serveZeno((req, deps) => handleZenoEndSession(req, { ...deps, generateSummary: generateAISummary }));
@@ -0,0 +1,13 @@
+// Returns the caller's Zeno status as computed by get_zeno_status
+
+import { callZenoFunction, handleZenoAction, ZenoDeps } from "../_shared/zeno.ts";
+
+export function handleZenoGetStatus(req: Request, deps: ZenoDeps): Promise<Response> {
+  return handleZenoAction(req, deps, async ({ user }) => {
+    const status = await callZenoFunction<Record<string, unknown>>(deps, "get_zeno_status", {
+      p_user_id: user.id,
+    });
+
+    return { status };
+  });
+}
@@ -0,0 +1,7 @@
+// Edge function returning the caller's Zeno status (cooldown, emergency
+// allowance, active session and pending micro-task)
+
+import { serveZeno } from "../_shared/zenoServer.ts";
+import { handleZenoGetStatus } from "./handler.ts";
+
+serveZeno(handleZenoGetStatus);
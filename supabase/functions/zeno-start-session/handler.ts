@@ -0,0 +1,25 @@
+// Checks the goal and starts a regular Zeno session with start_zeno_session
+
+import { callZenoFunction, handleZenoAction, ZenoDeps, ZenoRequestError } from "../_shared/zeno.ts";
+
+export const MAX_GOAL_LENGTH = 500;
+
+export function handleZenoStartSession(req: Request, deps: ZenoDeps): Promise<Response> {
+  return handleZenoAction(req, deps, async ({ user, body }) => {
+    const goal = typeof body.goal === "string" ? body.goal.trim() : "";
+
+    if (!goal) {
+      throw new ZenoRequestError("Missing required field: goal", 400);
+    }
+
+    if (goal.length > MAX_GOAL_LENGTH) {
+      throw new ZenoRequestError(`Goal must be ${MAX_GOAL_LENGTH} characters or fewer`, 400);
+    }
+
+    return await callZenoFunction<Record<string, unknown>>(deps, "start_zeno_session", {
+      p_user_id: user.id,
+      p_goal: goal,
+      p_is_emergency: false,
+    });
+  });
+}
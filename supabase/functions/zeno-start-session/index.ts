@@ -0,0 +1,7 @@
+// Edge function to start a regular Zeno session
+// Rejected with 429 while the cooldown is active and 409 if a session is already running
+
+import { serveZeno } from "../_shared/zenoServer.ts";
+import { handleZenoStartSession } from "./handler.ts";
+
+serveZeno(handleZenoStartSession);
@@ -0,0 +1,43 @@
+// Checks a recorded turn of a Zeno session and transcribes it with the configured provider
+
+import { handleZenoAction, requireActiveSession, ZenoDeps, ZenoRequestError } from "../_shared/zeno.ts";
+import { TranscriptionProvider } from "../_shared/transcription.ts";
+
+/** Two minute sessions in webm/opus stay well under this */
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+export interface ZenoTranscribeDeps extends ZenoDeps {
+  /** The configured provider; throws when it has no API key */
+  getTranscriptionProvider(): TranscriptionProvider;
+}
+
+export function handleZenoTranscribe(req: Request, deps: ZenoTranscribeDeps): Promise<Response> {
+  return handleZenoAction(req, deps, async ({ user }) => {
+    let formData: FormData;
+    try {
+      formData = await req.formData();
+    } catch {
+      throw new ZenoRequestError("Expected multipart form data", 400);
+    }
+
+    const audio = formData.get("audio");
+    await requireActiveSession(deps, user.id, formData.get("session_id"));
+
+    if (!audio || typeof audio === "string" || audio.size === 0) {
+      throw new ZenoRequestError("Missing required field: audio", 400);
+    }
+
+    if (audio.size > MAX_AUDIO_BYTES) {
+      throw new ZenoRequestError("Recording is too long", 413);
+    }
+
+    try {
+      const provider = deps.getTranscriptionProvider();
+      const text = await provider.transcribe(audio);
+      return { text, transcribed_by: provider.name };
+    } catch (error) {
+      console.error("Transcription failed:", error instanceof Error ? error.message : error);
+      throw new ZenoRequestError("Transcription is temporarily unavailable", 502);
+    }
+  });
+}
@@ -0,0 +1,18 @@
+// Edge function to transcribe a recorded turn of a Zeno session
+// Expects multipart form data with `audio` (the recording) and `session_id`
+
+import { createTranscriptionProvider } from "../_shared/transcription.ts";
+import { serveZeno } from "../_shared/zenoServer.ts";
+import { handleZenoTranscribe } from "./handler.ts";
+
+serveZeno((req, deps) =>
+  handleZenoTranscribe(req, {
+    ...deps,
+    getTranscriptionProvider: () =>
+      createTranscriptionProvider(
+        Deno.env.get("ZENO_TRANSCRIBE_PROVIDER") || "elevenlabs",
+        Deno.env,
+        Deno.env.get("ZENO_TRANSCRIBE_STUB_TEXT"),
+      ),
+  })
+);
@@ -0,0 +1,16 @@
+// Starts an emergency Zeno session, which start_zeno_session counts against the weekly allowance
+
+import { callZenoFunction, handleZenoAction, ZenoDeps } from "../_shared/zeno.ts";
+import { MAX_GOAL_LENGTH } from "../zeno-start-session/handler.ts";
+
+export function handleZenoUseEmergency(req: Request, deps: ZenoDeps): Promise<Response> {
+  return handleZenoAction(req, deps, async ({ user, body }) => {
+    const goal = typeof body.goal === "string" ? body.goal.trim().slice(0, MAX_GOAL_LENGTH) : "";
+
+    return await callZenoFunction<Record<string, unknown>>(deps, "start_zeno_session", {
+      p_user_id: user.id,
+      p_goal: goal,
+      p_is_emergency: true,
+    });
+  });
+}
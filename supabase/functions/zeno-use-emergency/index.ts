@@ -0,0 +1,7 @@
+// Edge function to start an emergency Zeno session
+// Skips the cooldown but spends one of the user's limited emergency sessions
+
+import { serveZeno } from "../_shared/zenoServer.ts";
+import { handleZenoUseEmergency } from "./handler.ts";
+
+serveZeno(handleZenoUseEmergency);
@@ -0,0 +1,141 @@
+/*
+  # Journal Entry Tags
+
+  1. New Tables
+    - `tags` - Per-user tag vocabulary (e.g. "work", "family", "sleep")
+    - `journal_entry_tags` - Join table linking journal entries to tags
+
+  2. Security
+    - RLS policies so users can only read and modify their own tags
+    - Tag links are only visible/editable when the user owns the entry
+
+  3. Functions
+    - `set_journal_entry_tags` - Replaces the full tag set of an entry in one call,
+      normalizing names and creating missing tags on the fly
+*/
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS public.tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 32),
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Tag names are unique per user, case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS tags_user_id_name_key
+    ON public.tags (user_id, lower(name));
+
+-- Create journal entry tags join table
+CREATE TABLE IF NOT EXISTS public.journal_entry_tags (
+    entry_id UUID NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (entry_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS journal_entry_tags_tag_id_idx
+    ON public.journal_entry_tags (tag_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_entry_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for tags
+CREATE POLICY "Users can view their own tags"
+ON public.tags FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own tags"
+ON public.tags FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+ON public.tags FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Create RLS policies for journal entry tags
+CREATE POLICY "Users can view tags on their own entries"
+ON public.journal_entry_tags FOR SELECT
+TO authenticated
+USING (
+    entry_id IN (
+        SELECT id FROM public.journal_entries
+        WHERE user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Users can tag their own entries"
+ON public.journal_entry_tags FOR INSERT
+TO authenticated
+WITH CHECK (
+    entry_id IN (
+        SELECT id FROM public.journal_entries
+        WHERE user_id = auth.uid()
+    )
+    AND tag_id IN (
+        SELECT id FROM public.tags
+        WHERE user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Users can untag their own entries"
+ON public.journal_entry_tags FOR DELETE
+TO authenticated
+USING (
+    entry_id IN (
+        SELECT id FROM public.journal_entries
+        WHERE user_id = auth.uid()
+    )
+);
+
+-- Replace the tag set of a journal entry
+-- Runs with the caller's privileges so the RLS policies above apply.
+CREATE OR REPLACE FUNCTION public.set_journal_entry_tags(p_entry_id UUID, p_tags TEXT[])
+RETURNS TEXT[] AS $$
+DECLARE
+    v_user_id UUID;
+    v_tags TEXT[];
+BEGIN
+    SELECT user_id INTO v_user_id
+    FROM public.journal_entries
+    WHERE id = p_entry_id AND user_id = auth.uid();
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Journal entry % not found', p_entry_id;
+    END IF;
+
+    -- Normalize: trim, lowercase, drop empties and duplicates
+    SELECT COALESCE(array_agg(DISTINCT t), ARRAY[]::TEXT[]) INTO v_tags
+    FROM (
+        SELECT lower(btrim(raw_tag)) AS t
+        FROM unnest(COALESCE(p_tags, ARRAY[]::TEXT[])) AS raw_tag
+    ) normalized
+    WHERE t <> '';
+
+    -- Create any tags the user doesn't have yet
+    INSERT INTO public.tags (user_id, name)
+    SELECT v_user_id, t FROM unnest(v_tags) AS t
+    ON CONFLICT (user_id, lower(name)) DO NOTHING;
+
+    -- Remove links that are no longer wanted
+    DELETE FROM public.journal_entry_tags jet
+    USING public.tags tg
+    WHERE jet.tag_id = tg.id
+      AND jet.entry_id = p_entry_id
+      AND NOT (lower(tg.name) = ANY (v_tags));
+
+    -- Add the new links
+    INSERT INTO public.journal_entry_tags (entry_id, tag_id)
+    SELECT p_entry_id, tg.id
+    FROM public.tags tg
+    WHERE tg.user_id = v_user_id
+      AND lower(tg.name) = ANY (v_tags)
+    ON CONFLICT (entry_id, tag_id) DO NOTHING;
+
+    RETURN v_tags;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,262 @@
+/*
+  # Zeno Sessions
+
+  1. New Tables
+    - `zeno_sessions` - One row per voice session with Zeno (regular or emergency)
+    - `zeno_micro_tasks` - The follow-up micro-task assigned when a session ends
+
+  2. Security
+    - RLS enabled; users can read their own sessions and micro-tasks
+    - Writes only happen through the functions below, which are restricted to the
+      service role and called by the zeno-* edge functions
+
+  3. Functions
+    - `get_zeno_status` - Cooldown, emergency allowance, active session and pending micro-task
+    - `start_zeno_session` - Starts a session, enforcing cooldown and emergency allowance
+    - `end_zeno_session` - Ends the active session and assigns a micro-task
+    - `complete_zeno_micro_task` - Records the user's response to a micro-task
+
+  4. Reason
+    - Cooldown and emergency counts were computed in the browser and reset on reload
+*/
+
+-- Create zeno sessions table
+CREATE TABLE IF NOT EXISTS public.zeno_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    goal TEXT,
+    is_emergency BOOLEAN NOT NULL DEFAULT false,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed')),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    ended_at TIMESTAMPTZ,
+    duration_seconds INT,
+    ai_summary TEXT,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- A user can only have one session in progress at a time
+CREATE UNIQUE INDEX IF NOT EXISTS zeno_sessions_one_active_per_user
+    ON public.zeno_sessions (user_id)
+    WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS zeno_sessions_user_id_ended_at_idx
+    ON public.zeno_sessions (user_id, ended_at DESC);
+
+-- Create zeno micro-tasks table
+CREATE TABLE IF NOT EXISTS public.zeno_micro_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL UNIQUE REFERENCES public.zeno_sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    task_type TEXT NOT NULL CHECK (task_type IN ('gratitude', 'breathing', 'mood_poll')),
+    state TEXT NOT NULL DEFAULT 'pending' CHECK (state IN ('pending', 'completed', 'skipped')),
+    response JSONB,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.zeno_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.zeno_micro_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own zeno sessions"
+ON public.zeno_sessions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own zeno micro tasks"
+ON public.zeno_micro_tasks FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Session rules live in one place so the edge functions and the status
+-- calculation can't drift apart.
+CREATE OR REPLACE FUNCTION public.zeno_cooldown_interval()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '2 hours';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.zeno_emergency_allowance()
+RETURNS INT AS $$
+    SELECT 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.zeno_emergency_window()
+RETURNS INTERVAL AS $$
+    SELECT INTERVAL '7 days';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Current Zeno status for a user
+CREATE OR REPLACE FUNCTION public.get_zeno_status(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_last_ended_at TIMESTAMPTZ;
+    v_cooldown_ends_at TIMESTAMPTZ;
+    v_emergency_used INT;
+    v_active_session JSONB;
+    v_pending_task JSONB;
+BEGIN
+    SELECT MAX(ended_at) INTO v_last_ended_at
+    FROM public.zeno_sessions
+    WHERE user_id = p_user_id AND status = 'completed';
+
+    v_cooldown_ends_at := v_last_ended_at + public.zeno_cooldown_interval();
+    IF v_cooldown_ends_at IS NOT NULL AND v_cooldown_ends_at <= NOW() THEN
+        v_cooldown_ends_at := NULL;
+    END IF;
+
+    SELECT COUNT(*) INTO v_emergency_used
+    FROM public.zeno_sessions
+    WHERE user_id = p_user_id
+      AND is_emergency
+      AND started_at > NOW() - public.zeno_emergency_window();
+
+    SELECT jsonb_build_object(
+        'id', s.id,
+        'goal', s.goal,
+        'is_emergency', s.is_emergency,
+        'started_at', s.started_at
+    ) INTO v_active_session
+    FROM public.zeno_sessions s
+    WHERE s.user_id = p_user_id AND s.status = 'active';
+
+    SELECT jsonb_build_object(
+        'session_id', t.session_id,
+        'task_type', t.task_type,
+        'summary', s.ai_summary
+    ) INTO v_pending_task
+    FROM public.zeno_micro_tasks t
+    JOIN public.zeno_sessions s ON s.id = t.session_id
+    WHERE t.user_id = p_user_id AND t.state = 'pending'
+    ORDER BY t.created_at DESC
+    LIMIT 1;
+
+    RETURN jsonb_build_object(
+        'cooldown_ends_at', v_cooldown_ends_at,
+        'emergency_sessions_remaining', GREATEST(public.zeno_emergency_allowance() - v_emergency_used, 0),
+        'active_session', v_active_session,
+        'pending_micro_task', v_pending_task
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Start a regular or emergency session
+CREATE OR REPLACE FUNCTION public.start_zeno_session(
+    p_user_id UUID,
+    p_goal TEXT,
+    p_is_emergency BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_status JSONB;
+    v_session_id UUID;
+BEGIN
+    -- Serialize concurrent starts for the same user
+    PERFORM pg_advisory_xact_lock(hashtext('zeno_session:' || p_user_id::text));
+
+    v_status := public.get_zeno_status(p_user_id);
+
+    IF v_status->'active_session' <> 'null'::jsonb THEN
+        RAISE EXCEPTION 'ZENO_SESSION_ACTIVE: A session is already in progress';
+    END IF;
+
+    IF p_is_emergency THEN
+        IF (v_status->>'emergency_sessions_remaining')::INT <= 0 THEN
+            RAISE EXCEPTION 'ZENO_NO_EMERGENCY_SESSIONS: No emergency sessions remaining';
+        END IF;
+    ELSIF v_status->>'cooldown_ends_at' IS NOT NULL THEN
+        RAISE EXCEPTION 'ZENO_COOLDOWN_ACTIVE: Zeno is resting until %', v_status->>'cooldown_ends_at';
+    END IF;
+
+    INSERT INTO public.zeno_sessions (user_id, goal, is_emergency)
+    VALUES (p_user_id, NULLIF(btrim(p_goal), ''), p_is_emergency)
+    RETURNING id INTO v_session_id;
+
+    RETURN jsonb_build_object(
+        'session_id', v_session_id,
+        'status', public.get_zeno_status(p_user_id)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- End the active session and assign a micro-task
+CREATE OR REPLACE FUNCTION public.end_zeno_session(
+    p_user_id UUID,
+    p_session_id UUID,
+    p_duration_seconds INT,
+    p_ai_summary TEXT,
+    p_micro_task_type TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_started_at TIMESTAMPTZ;
+BEGIN
+    SELECT started_at INTO v_started_at
+    FROM public.zeno_sessions
+    WHERE id = p_session_id AND user_id = p_user_id AND status = 'active'
+    FOR UPDATE;
+
+    IF v_started_at IS NULL THEN
+        RAISE EXCEPTION 'ZENO_SESSION_NOT_FOUND: No active session with id %', p_session_id;
+    END IF;
+
+    -- Never trust a client duration longer than the wall-clock time
+    UPDATE public.zeno_sessions
+    SET
+        status = 'completed',
+        ended_at = NOW(),
+        duration_seconds = LEAST(
+            GREATEST(COALESCE(p_duration_seconds, 0), 0),
+            CEIL(EXTRACT(EPOCH FROM NOW() - v_started_at))::INT
+        ),
+        ai_summary = p_ai_summary
+    WHERE id = p_session_id;
+
+    INSERT INTO public.zeno_micro_tasks (session_id, user_id, task_type)
+    VALUES (p_session_id, p_user_id, p_micro_task_type);
+
+    RETURN jsonb_build_object(
+        'ai_summary', p_ai_summary,
+        'micro_task_type', p_micro_task_type,
+        'status', public.get_zeno_status(p_user_id)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record the outcome of a micro-task
+CREATE OR REPLACE FUNCTION public.complete_zeno_micro_task(
+    p_user_id UUID,
+    p_session_id UUID,
+    p_state TEXT,
+    p_response JSONB
+)
+RETURNS JSONB AS $$
+BEGIN
+    IF p_state NOT IN ('completed', 'skipped') THEN
+        RAISE EXCEPTION 'ZENO_INVALID_STATE: Unknown micro-task state %', p_state;
+    END IF;
+
+    UPDATE public.zeno_micro_tasks
+    SET
+        state = p_state,
+        response = p_response,
+        completed_at = NOW()
+    WHERE session_id = p_session_id AND user_id = p_user_id AND state = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'ZENO_TASK_NOT_FOUND: No pending micro-task for session %', p_session_id;
+    END IF;
+
+    RETURN public.get_zeno_status(p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- These functions take a user id, so only the edge functions (service role) may call them
+REVOKE EXECUTE ON FUNCTION public.get_zeno_status(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.start_zeno_session(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.end_zeno_session(UUID, UUID, INT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_zeno_micro_task(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_zeno_status(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.start_zeno_session(UUID, TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION public.end_zeno_session(UUID, UUID, INT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_zeno_micro_task(UUID, UUID, TEXT, JSONB) TO service_role;
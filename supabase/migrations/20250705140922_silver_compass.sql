@@ -0,0 +1,181 @@
+/*
+  # Journal Analytics
+
+  1. Indexes
+    - `journal_entries_user_id_created_at_idx` so per-user date range scans stay fast
+
+  2. Functions
+    - `journal_mood_score` - Maps a mood name to 1 (struggling) through 5 (amazing)
+    - `get_journal_analytics` - Aggregates the caller's entries for the analytics
+      dashboard: mood trend, mood by weekday and hour, a year of daily entry counts
+      for the streak heatmap, word counts, and mood with/without photos and affirmations.
+      Runs over all of the caller's entries, independent of the history page size.
+
+  3. Security
+    - SECURITY INVOKER, so RLS limits the aggregates to the caller's own entries
+*/
+
+CREATE INDEX IF NOT EXISTS journal_entries_user_id_created_at_idx
+    ON public.journal_entries (user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.journal_mood_score(p_mood TEXT)
+RETURNS INTEGER AS $$
+    SELECT CASE lower(p_mood)
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.get_journal_analytics(
+    p_days INTEGER DEFAULT 30,
+    p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_days INTEGER := LEAST(GREATEST(COALESCE(p_days, 30), 1), 366);
+    v_timezone TEXT := p_timezone;
+    v_bucket TEXT;
+    v_today DATE;
+    v_range_start DATE;
+    v_heatmap_start DATE;
+    v_result JSONB;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Fall back to UTC rather than failing on an unknown zone name
+    IF v_timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+        v_timezone := 'UTC';
+    END IF;
+
+    -- Long ranges are trended by week so the chart stays readable
+    v_bucket := CASE WHEN v_days > 90 THEN 'week' ELSE 'day' END;
+    v_today := (now() AT TIME ZONE v_timezone)::DATE;
+    v_range_start := v_today - (v_days - 1);
+    v_heatmap_start := v_today - 364;
+
+    WITH entries AS (
+        SELECT
+            je.created_at AT TIME ZONE v_timezone AS local_time,
+            public.journal_mood_score(je.mood) AS score,
+            CASE
+                WHEN btrim(je.content) = '' THEN 0
+                ELSE array_length(regexp_split_to_array(btrim(je.content), '\s+'), 1)
+            END AS words,
+            je.photo_url IS NOT NULL AS has_photo,
+            je.affirmation_text IS NOT NULL AND btrim(je.affirmation_text) <> '' AS has_affirmation
+        FROM public.journal_entries je
+        WHERE je.user_id = v_user_id
+          AND je.created_at >= LEAST(v_range_start, v_heatmap_start)::TIMESTAMP AT TIME ZONE v_timezone
+    ),
+    in_range AS (
+        SELECT * FROM entries
+        WHERE local_time::DATE >= v_range_start
+    )
+    SELECT jsonb_build_object(
+        'range_days', v_days,
+        'timezone', v_timezone,
+        'bucket', v_bucket,
+        'summary', (
+            SELECT jsonb_build_object(
+                'entries', count(*),
+                'average_mood', round(avg(score), 2),
+                'total_words', COALESCE(sum(words), 0),
+                'average_words', COALESCE(round(avg(words)), 0),
+                'active_days', count(DISTINCT local_time::DATE)
+            )
+            FROM in_range
+        ),
+        'trend', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'date', bucket_start,
+                'average_mood', average_mood,
+                'entries', entries,
+                'words', words
+            ) ORDER BY bucket_start)
+            FROM (
+                SELECT
+                    date_trunc(v_bucket, local_time)::DATE AS bucket_start,
+                    round(avg(score), 2) AS average_mood,
+                    count(*) AS entries,
+                    sum(words) AS words
+                FROM in_range
+                GROUP BY 1
+            ) buckets
+        ), '[]'::JSONB),
+        'by_weekday', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'weekday', weekday,
+                'average_mood', average_mood,
+                'entries', entries
+            ) ORDER BY weekday)
+            FROM (
+                SELECT
+                    EXTRACT(DOW FROM local_time)::INTEGER AS weekday,
+                    round(avg(score), 2) AS average_mood,
+                    count(*) AS entries
+                FROM in_range
+                GROUP BY 1
+            ) weekdays
+        ), '[]'::JSONB),
+        'by_hour', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'hour', hour,
+                'average_mood', average_mood,
+                'entries', entries
+            ) ORDER BY hour)
+            FROM (
+                SELECT
+                    EXTRACT(HOUR FROM local_time)::INTEGER AS hour,
+                    round(avg(score), 2) AS average_mood,
+                    count(*) AS entries
+                FROM in_range
+                GROUP BY 1
+            ) hours
+        ), '[]'::JSONB),
+        -- Always a full year, whatever the selected range, for the streak calendar
+        'heatmap', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'date', day,
+                'entries', entries
+            ) ORDER BY day)
+            FROM (
+                SELECT local_time::DATE AS day, count(*) AS entries
+                FROM entries
+                WHERE local_time::DATE >= v_heatmap_start
+                GROUP BY 1
+            ) days
+        ), '[]'::JSONB),
+        'correlations', (
+            SELECT jsonb_build_object(
+                'with_photo', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE has_photo), 2),
+                    'entries', count(*) FILTER (WHERE has_photo)
+                ),
+                'without_photo', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE NOT has_photo), 2),
+                    'entries', count(*) FILTER (WHERE NOT has_photo)
+                ),
+                'with_affirmation', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE has_affirmation), 2),
+                    'entries', count(*) FILTER (WHERE has_affirmation)
+                ),
+                'without_affirmation', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE NOT has_affirmation), 2),
+                    'entries', count(*) FILTER (WHERE NOT has_affirmation)
+                )
+            )
+            FROM in_range
+        )
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.get_journal_analytics(INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,125 @@
+/*
+  # Journal Full-Text Search
+
+  1. Changes
+    - `journal_entries.search_vector` - Generated tsvector over title (weight A),
+      content (weight B) and affirmation_text (weight C)
+    - `journal_entries_search_vector_idx` - GIN index on the vector
+
+  2. Functions
+    - `search_journal_entries` - Ranked search over the caller's entries with
+      date range, mood and tag filters. Every word in the query is matched as a
+      prefix so results update while the user is still typing. Returns the entry
+      columns plus a highlighted title and content snippet; matches are wrapped in
+      U+E000 / U+E001 so the client can highlight them without parsing HTML.
+
+  3. Security
+    - SECURITY INVOKER, so RLS limits results to the caller's own entries
+*/
+
+ALTER TABLE public.journal_entries
+    ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(content, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(affirmation_text, '')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS journal_entries_search_vector_idx
+    ON public.journal_entries USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.search_journal_entries(
+    p_query TEXT DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL,
+    p_moods TEXT[] DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    content TEXT,
+    mood TEXT,
+    photo_url TEXT,
+    photo_filename TEXT,
+    affirmation_text TEXT,
+    affirmation_audio_url TEXT,
+    affirmation_source TEXT,
+    tags TEXT[],
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    v_query TSQUERY;
+    v_options TEXT := 'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+        ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Turn "morning wal" into 'morning':* & 'wal':*
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+    INTO v_query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+
+    -- A query made only of stop words ("the", "and") filters nothing
+    IF v_query IS NOT NULL AND numnode(v_query) = 0 THEN
+        v_query := NULL;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        je.id,
+        je.title,
+        je.content,
+        je.mood,
+        je.photo_url,
+        je.photo_filename,
+        je.affirmation_text,
+        je.affirmation_audio_url,
+        je.affirmation_source,
+        COALESCE((
+            SELECT array_agg(tg.name ORDER BY tg.name)
+            FROM public.journal_entry_tags jet
+            JOIN public.tags tg ON tg.id = jet.tag_id
+            WHERE jet.entry_id = je.id
+        ), ARRAY[]::TEXT[]) AS tags,
+        je.created_at,
+        je.updated_at,
+        CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank_cd(je.search_vector, v_query) END AS rank,
+        CASE
+            WHEN v_query IS NULL OR je.title IS NULL THEN je.title
+            ELSE ts_headline('english', je.title, v_query, v_options || ', HighlightAll=true')
+        END AS title_highlight,
+        CASE
+            WHEN v_query IS NULL THEN left(je.content, 200)
+            ELSE ts_headline('english', je.content, v_query, v_options)
+        END AS snippet
+    FROM public.journal_entries je
+    WHERE je.user_id = auth.uid()
+      AND (v_query IS NULL OR je.search_vector @@ v_query)
+      AND (p_start_date IS NULL OR je.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR je.created_at < p_end_date)
+      AND (p_moods IS NULL OR cardinality(p_moods) = 0 OR je.mood = ANY (p_moods))
+      AND (
+          p_tags IS NULL OR cardinality(p_tags) = 0 OR (
+              SELECT count(DISTINCT lower(tg.name))
+              FROM public.journal_entry_tags jet
+              JOIN public.tags tg ON tg.id = jet.tag_id
+              WHERE jet.entry_id = je.id
+                AND lower(tg.name) = ANY (SELECT lower(t) FROM unnest(p_tags) AS t)
+          ) = (SELECT count(DISTINCT lower(t)) FROM unnest(p_tags) AS t)
+      )
+    ORDER BY rank DESC, je.created_at DESC, je.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.search_journal_entries(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], INTEGER) TO authenticated;
@@ -0,0 +1,317 @@
+/*
+  # Timezone-aware streaks and badges
+
+  1. Changes
+    - Adds profiles.timezone, an IANA timezone name. It is NULL until the app
+      detects the user's timezone and is treated as UTC until then.
+    - Adds calculate_user_streaks, which groups entries by the day they were
+      written in the user's timezone
+    - refresh_user_badge_progress uses it, and the insert and delete triggers on
+      journal_entries now call refresh_user_badge_progress instead of keeping
+      their own copies of the streak logic
+    - The older recalculate_streaks_for_user, calculate_current_streak and
+      recalculate_all_user_stats helpers delegate to the same logic
+    - Streaks and badges are recalculated when a user changes their timezone
+    - handle_new_user stores the timezone sent with the signup metadata
+
+  2. Reason
+    - Entries were grouped with created_at::DATE in the database timezone (UTC),
+      so people west of UTC who write in the evening were counted on the next
+      day and their streaks broke
+*/
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN public.profiles.timezone IS
+'IANA timezone used to decide which day an entry belongs to. NULL means not detected yet and is treated as UTC.';
+
+-- Timezone names must be ones Postgres knows, or every AT TIME ZONE below would fail
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.validate_profile_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.timezone IS NOT NULL AND NOT public.is_valid_timezone(NEW.timezone) THEN
+        RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone USING ERRCODE = '22023';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_profile_timezone ON public.profiles;
+CREATE TRIGGER validate_profile_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_profile_timezone();
+
+-- The timezone a user's days are counted in
+CREATE OR REPLACE FUNCTION public.user_timezone(p_user_id UUID)
+RETURNS TEXT AS $$
+    SELECT COALESCE((SELECT timezone FROM public.profiles WHERE user_id = p_user_id), 'UTC');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+/*
+  Current streak, best streak and last entry day for a user, with entries
+  grouped by the local day they were written on. The current streak counts
+  while the last entry is from today or yesterday in the user's timezone.
+  p_now is only there so tests can fix the clock. Not SECURITY DEFINER: called
+  directly, row level security limits it to the caller's own entries.
+*/
+CREATE OR REPLACE FUNCTION public.calculate_user_streaks(
+    p_user_id UUID,
+    p_now TIMESTAMPTZ DEFAULT NOW(),
+    OUT current_streak INT,
+    OUT best_streak INT,
+    OUT last_entry_date DATE
+) AS $$
+DECLARE
+    v_timezone TEXT := public.user_timezone(p_user_id);
+    v_today DATE := (p_now AT TIME ZONE v_timezone)::DATE;
+BEGIN
+    WITH entry_days AS (
+        SELECT DISTINCT (created_at AT TIME ZONE v_timezone)::DATE AS entry_date
+        FROM public.journal_entries
+        WHERE user_id = p_user_id
+    ), runs AS (
+        -- Consecutive days share the same run_start
+        SELECT entry_date, entry_date - (ROW_NUMBER() OVER (ORDER BY entry_date))::INT AS run_start
+        FROM entry_days
+    ), streaks AS (
+        SELECT COUNT(*)::INT AS streak_length, MAX(entry_date) AS last_day
+        FROM runs
+        GROUP BY run_start
+    )
+    SELECT
+        COALESCE((SELECT streak_length FROM streaks WHERE last_day >= v_today - 1 ORDER BY last_day DESC LIMIT 1), 0),
+        COALESCE(MAX(streak_length), 0),
+        MAX(last_day)
+    INTO current_streak, best_streak, last_entry_date
+    FROM streaks;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.refresh_user_badge_progress(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_total_entries INT;
+    v_distinct_moods INT;
+    v_streaks RECORD;
+    v_badge_record RECORD;
+    v_progress_current INT;
+    v_is_premium BOOLEAN;
+BEGIN
+    SELECT COUNT(*) INTO v_total_entries FROM public.journal_entries WHERE user_id = p_user_id;
+    SELECT COUNT(DISTINCT mood) INTO v_distinct_moods FROM public.journal_entries WHERE user_id = p_user_id;
+    SELECT subscription_status = 'premium' INTO v_is_premium FROM public.profiles WHERE user_id = p_user_id;
+    SELECT * INTO v_streaks FROM public.calculate_user_streaks(p_user_id);
+
+    -- Update the main profiles table with new streak and last entry date
+    UPDATE public.profiles
+    SET
+        current_streak = v_streaks.current_streak,
+        best_streak = GREATEST(profiles.best_streak, v_streaks.best_streak), -- Keep the highest best streak
+        last_entry_date = v_streaks.last_entry_date,
+        updated_at = NOW()
+    WHERE profiles.user_id = p_user_id;
+
+    -- Loop through all defined badges and update their progress
+    FOR v_badge_record IN SELECT * FROM public.badges LOOP
+        CASE v_badge_record.badge_category
+            WHEN 'milestone' THEN
+                v_progress_current := v_total_entries;
+            WHEN 'streak' THEN
+                v_progress_current := v_streaks.current_streak;
+            WHEN 'achievement' THEN
+                CASE v_badge_record.id
+                    WHEN 'first-step' THEN
+                        v_progress_current := CASE WHEN v_total_entries > 0 THEN 1 ELSE 0 END;
+                    WHEN 'best-streak-7' THEN
+                        v_progress_current := LEAST(v_streaks.best_streak, v_badge_record.progress_target);
+                    WHEN 'mood-variety' THEN
+                        v_progress_current := v_distinct_moods;
+                    ELSE
+                        v_progress_current := 0;
+                END CASE;
+            WHEN 'special' THEN
+                CASE v_badge_record.id
+                    WHEN 'premium-supporter' THEN
+                        v_progress_current := CASE WHEN v_is_premium THEN 1 ELSE 0 END;
+                    ELSE
+                        v_progress_current := 0;
+                END CASE;
+            ELSE
+                v_progress_current := 0;
+        END CASE;
+
+        -- Calculate progress percentage, ensuring no division by zero
+        DECLARE
+            calculated_percentage NUMERIC;
+        BEGIN
+            IF v_badge_record.progress_target > 0 THEN
+                calculated_percentage := LEAST(100.0, (v_progress_current * 100.0 / v_badge_record.progress_target));
+            ELSE
+                calculated_percentage := 0;
+            END IF;
+
+            INSERT INTO public.user_badges (user_id, badge_id, progress_current, progress_percentage, earned, earned_at, updated_at)
+            VALUES (
+                p_user_id,
+                v_badge_record.id,
+                v_progress_current,
+                calculated_percentage,
+                (v_progress_current >= v_badge_record.progress_target),
+                CASE WHEN v_progress_current >= v_badge_record.progress_target THEN NOW() ELSE NULL END,
+                NOW()
+            )
+            ON CONFLICT (user_id, badge_id) DO UPDATE
+            SET
+                progress_current = EXCLUDED.progress_current,
+                progress_percentage = EXCLUDED.progress_percentage,
+                earned = EXCLUDED.earned,
+                earned_at = CASE
+                    WHEN EXCLUDED.earned AND user_badges.earned_at IS NULL THEN NOW()
+                    WHEN NOT EXCLUDED.earned THEN NULL
+                    ELSE user_badges.earned_at
+                END,
+                updated_at = NOW();
+        END;
+    END LOOP;
+
+    -- Update total badges earned count
+    UPDATE public.profiles
+    SET
+        total_badges_earned = (SELECT COUNT(*) FROM public.user_badges WHERE user_id = p_user_id AND earned = TRUE),
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Inserts and deletes share the same recalculation
+CREATE OR REPLACE FUNCTION public.update_all_user_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.refresh_user_badge_progress(NEW.user_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_journal_entry_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.refresh_user_badge_progress(OLD.user_id);
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Older helpers that are still granted to clients
+CREATE OR REPLACE FUNCTION public.recalculate_streaks_for_user(target_user_id uuid)
+RETURNS void AS $$
+BEGIN
+    PERFORM public.refresh_user_badge_progress(target_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.recalculate_all_user_stats(target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM public.refresh_user_badge_progress(target_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.calculate_current_streak(target_user_id UUID)
+RETURNS INTEGER AS $$
+    SELECT current_streak FROM public.calculate_user_streaks(target_user_id);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Days move when the timezone does, so recount streaks and badges
+CREATE OR REPLACE FUNCTION public.handle_profile_timezone_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.refresh_user_badge_progress(NEW.user_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_profile_timezone_update ON public.profiles;
+CREATE TRIGGER on_profile_timezone_update
+AFTER UPDATE OF timezone ON public.profiles
+FOR EACH ROW
+WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+EXECUTE FUNCTION public.handle_profile_timezone_change();
+
+-- Store the timezone detected by the browser at signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_timezone TEXT := NEW.raw_user_meta_data->>'timezone';
+BEGIN
+  IF v_timezone IS NOT NULL AND NOT public.is_valid_timezone(v_timezone) THEN
+    v_timezone := NULL;
+  END IF;
+
+  -- Create a profile for the new user with proper error handling
+  BEGIN
+    INSERT INTO public.profiles (
+      user_id,
+      name,
+      current_streak,
+      best_streak,
+      journaling_goal_frequency,
+      total_badges_earned,
+      subscription_status,
+      subscription_tier,
+      timezone,
+      created_at,
+      updated_at
+    )
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+      0,
+      0,
+      3,
+      0,
+      'free',
+      'free',
+      v_timezone,
+      NEW.created_at,
+      NEW.created_at
+    );
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE LOG 'Error creating profile for user %: %', NEW.id, SQLERRM;
+      RAISE EXCEPTION 'Failed to create user profile: %', SQLERRM;
+  END;
+
+  -- Initialize badges for the new user
+  BEGIN
+    INSERT INTO public.user_badges (
+      user_id,
+      badge_id,
+      progress_current,
+      earned,
+      progress_percentage
+    )
+    SELECT
+      NEW.id,
+      badges.id,
+      0,
+      false,
+      0
+    FROM
+      public.badges;
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE LOG 'Error initializing badges for user %: %', NEW.id, SQLERRM;
+      -- Don't raise exception here to allow profile creation to succeed
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.refresh_user_badge_progress(uuid) TO authenticated;
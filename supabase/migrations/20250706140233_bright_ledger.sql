@@ -0,0 +1,305 @@
+/*
+  # Data-driven badge rules
+
+  1. Changes
+    - Adds rule columns to badges: rule_metric, rule_comparator, rule_window_days
+      and rule_params. progress_target stays the target value.
+    - Adds progress_unit so the app can label progress without knowing the badge
+    - Adds evaluate_badge_metric, which measures one metric for a user, and
+      badge_rule_met, which applies the comparator
+    - refresh_user_badge_progress evaluates every badge from its rule instead of
+      special-casing badge ids
+    - get_user_badge_progress also returns progress_unit
+    - Describes the existing badges as rules and adds photo, early bird, night
+      owl and weekly rhythm badges
+
+  2. Reason
+    - New badges previously needed a rewrite of refresh_user_badge_progress.
+      Now a badge is a row: e.g. metric 'entries_before_hour' with
+      rule_params {"hour": 8} and progress_target 5 is "5 entries before 8am".
+
+  3. Metrics
+    - entries, active_days, distinct_moods, words_written
+    - entries_with_photo, entries_with_affirmation, entries_with_tags
+    - entries_with_mood (rule_params.mood)
+    - entries_before_hour / entries_after_hour (rule_params.hour, local time)
+    - weekend_entries
+    - current_streak, best_streak (rule_window_days does not apply)
+    - premium (1 while the user has a premium subscription)
+*/
+
+ALTER TABLE public.badges
+    ADD COLUMN IF NOT EXISTS rule_metric TEXT,
+    ADD COLUMN IF NOT EXISTS rule_comparator TEXT NOT NULL DEFAULT '>=',
+    ADD COLUMN IF NOT EXISTS rule_window_days INT,
+    ADD COLUMN IF NOT EXISTS rule_params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS progress_unit TEXT NOT NULL DEFAULT 'entries';
+
+ALTER TABLE public.badges DROP CONSTRAINT IF EXISTS badges_rule_metric_check;
+ALTER TABLE public.badges ADD CONSTRAINT badges_rule_metric_check CHECK (
+    rule_metric IS NULL OR rule_metric IN (
+        'entries', 'active_days', 'distinct_moods', 'words_written',
+        'entries_with_photo', 'entries_with_affirmation', 'entries_with_tags',
+        'entries_with_mood', 'entries_before_hour', 'entries_after_hour',
+        'weekend_entries', 'current_streak', 'best_streak', 'premium'
+    )
+);
+
+ALTER TABLE public.badges DROP CONSTRAINT IF EXISTS badges_rule_comparator_check;
+ALTER TABLE public.badges ADD CONSTRAINT badges_rule_comparator_check CHECK (rule_comparator IN ('>=', '>', '='));
+
+ALTER TABLE public.badges DROP CONSTRAINT IF EXISTS badges_rule_window_days_check;
+ALTER TABLE public.badges ADD CONSTRAINT badges_rule_window_days_check CHECK (rule_window_days IS NULL OR rule_window_days > 0);
+
+COMMENT ON COLUMN public.badges.rule_metric IS 'What is measured for this badge; see evaluate_badge_metric. NULL badges are never earned automatically.';
+COMMENT ON COLUMN public.badges.rule_comparator IS 'How the measured value is compared with progress_target';
+COMMENT ON COLUMN public.badges.rule_window_days IS 'Only count entries from the last N local days, including today. NULL counts all entries.';
+COMMENT ON COLUMN public.badges.rule_params IS 'Metric options, e.g. {"hour": 8} or {"mood": "amazing"}';
+COMMENT ON COLUMN public.badges.progress_unit IS 'Label for progress values shown in the app, e.g. entries or days';
+
+/*
+  Measure one badge metric for a user. Times are taken in the user's timezone.
+  p_now is only there so tests can fix the clock.
+*/
+CREATE OR REPLACE FUNCTION public.evaluate_badge_metric(
+    p_user_id UUID,
+    p_metric TEXT,
+    p_params JSONB DEFAULT '{}'::jsonb,
+    p_window_days INT DEFAULT NULL,
+    p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS INT AS $$
+DECLARE
+    v_timezone TEXT := public.user_timezone(p_user_id);
+    v_since TIMESTAMPTZ;
+    v_value BIGINT;
+BEGIN
+    IF p_metric IN ('current_streak', 'best_streak') THEN
+        SELECT CASE p_metric WHEN 'current_streak' THEN s.current_streak ELSE s.best_streak END
+        INTO v_value
+        FROM public.calculate_user_streaks(p_user_id, p_now) s;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    IF p_metric = 'premium' THEN
+        SELECT CASE WHEN subscription_status = 'premium' THEN 1 ELSE 0 END
+        INTO v_value
+        FROM public.profiles
+        WHERE user_id = p_user_id;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    -- Windows start at local midnight, N - 1 days before today
+    IF p_window_days IS NOT NULL THEN
+        v_since := (((p_now AT TIME ZONE v_timezone)::DATE - (p_window_days - 1))::TIMESTAMP) AT TIME ZONE v_timezone;
+    END IF;
+
+    SELECT CASE p_metric
+        WHEN 'entries' THEN COUNT(*)
+        WHEN 'active_days' THEN COUNT(DISTINCT (je.created_at AT TIME ZONE v_timezone)::DATE)
+        WHEN 'distinct_moods' THEN COUNT(DISTINCT je.mood)
+        WHEN 'words_written' THEN COALESCE(SUM(array_length(regexp_split_to_array(NULLIF(trim(je.content), ''), '\s+'), 1)), 0)
+        WHEN 'entries_with_photo' THEN COUNT(*) FILTER (WHERE je.photo_url IS NOT NULL)
+        WHEN 'entries_with_affirmation' THEN COUNT(*) FILTER (WHERE je.affirmation_text IS NOT NULL)
+        WHEN 'entries_with_tags' THEN COUNT(*) FILTER (
+            WHERE EXISTS (SELECT 1 FROM public.journal_entry_tags jet WHERE jet.entry_id = je.id)
+        )
+        WHEN 'entries_with_mood' THEN COUNT(*) FILTER (WHERE je.mood = p_params->>'mood')
+        WHEN 'entries_before_hour' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(HOUR FROM je.created_at AT TIME ZONE v_timezone) < (p_params->>'hour')::INT
+        )
+        WHEN 'entries_after_hour' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(HOUR FROM je.created_at AT TIME ZONE v_timezone) >= (p_params->>'hour')::INT
+        )
+        WHEN 'weekend_entries' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(ISODOW FROM je.created_at AT TIME ZONE v_timezone) IN (6, 7)
+        )
+    END
+    INTO v_value
+    FROM public.journal_entries je
+    WHERE je.user_id = p_user_id
+      AND (v_since IS NULL OR je.created_at >= v_since);
+
+    IF v_value IS NULL THEN
+        RAISE WARNING 'Unknown badge metric: %', p_metric;
+        RETURN 0;
+    END IF;
+
+    RETURN LEAST(v_value, 2147483647)::INT;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.badge_rule_met(p_value INT, p_comparator TEXT, p_target INT)
+RETURNS BOOLEAN AS $$
+    SELECT CASE p_comparator
+        WHEN '>' THEN p_value > p_target
+        WHEN '=' THEN p_value = p_target
+        ELSE p_value >= p_target
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.refresh_user_badge_progress(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_streaks RECORD;
+    v_badge_record RECORD;
+    v_progress_current INT;
+    v_earned BOOLEAN;
+    v_percentage NUMERIC;
+BEGIN
+    SELECT * INTO v_streaks FROM public.calculate_user_streaks(p_user_id);
+
+    -- Update the main profiles table with new streak and last entry date
+    UPDATE public.profiles
+    SET
+        current_streak = v_streaks.current_streak,
+        best_streak = GREATEST(profiles.best_streak, v_streaks.best_streak), -- Keep the highest best streak
+        last_entry_date = v_streaks.last_entry_date,
+        updated_at = NOW()
+    WHERE profiles.user_id = p_user_id;
+
+    FOR v_badge_record IN SELECT * FROM public.badges LOOP
+        IF v_badge_record.rule_metric IS NULL THEN
+            v_progress_current := 0;
+            v_earned := FALSE;
+        ELSE
+            v_progress_current := public.evaluate_badge_metric(
+                p_user_id,
+                v_badge_record.rule_metric,
+                v_badge_record.rule_params,
+                v_badge_record.rule_window_days
+            );
+            v_earned := public.badge_rule_met(v_progress_current, v_badge_record.rule_comparator, v_badge_record.progress_target);
+        END IF;
+
+        IF v_earned THEN
+            v_percentage := 100;
+        ELSIF v_badge_record.progress_target > 0 THEN
+            v_percentage := LEAST(100.0, (v_progress_current * 100.0 / v_badge_record.progress_target));
+        ELSE
+            v_percentage := 0;
+        END IF;
+
+        INSERT INTO public.user_badges (user_id, badge_id, progress_current, progress_percentage, earned, earned_at, updated_at)
+        VALUES (
+            p_user_id,
+            v_badge_record.id,
+            v_progress_current,
+            v_percentage,
+            v_earned,
+            CASE WHEN v_earned THEN NOW() ELSE NULL END,
+            NOW()
+        )
+        ON CONFLICT (user_id, badge_id) DO UPDATE
+        SET
+            progress_current = EXCLUDED.progress_current,
+            progress_percentage = EXCLUDED.progress_percentage,
+            earned = EXCLUDED.earned,
+            earned_at = CASE
+                WHEN EXCLUDED.earned AND user_badges.earned_at IS NULL THEN NOW()
+                WHEN NOT EXCLUDED.earned THEN NULL
+                ELSE user_badges.earned_at
+            END,
+            updated_at = NOW();
+    END LOOP;
+
+    -- Update total badges earned count
+    UPDATE public.profiles
+    SET
+        total_badges_earned = (SELECT COUNT(*) FROM public.user_badges WHERE user_id = p_user_id AND earned = TRUE),
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.refresh_user_badge_progress(uuid) TO authenticated;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.get_user_badge_progress(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_user_badge_progress(target_user_id UUID)
+RETURNS TABLE (
+  id TEXT,
+  badge_name TEXT,
+  badge_description TEXT,
+  badge_icon TEXT,
+  badge_category TEXT,
+  badge_rarity TEXT,
+  earned BOOLEAN,
+  earned_at TIMESTAMP WITH TIME ZONE,
+  progress_current INTEGER,
+  progress_target INTEGER,
+  progress_percentage NUMERIC,
+  progress_unit TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.badge_name,
+    b.badge_description,
+    b.badge_icon,
+    b.badge_category,
+    b.badge_rarity,
+    COALESCE(ub.earned, FALSE) AS earned,
+    ub.earned_at,
+    COALESCE(ub.progress_current, 0) AS progress_current,
+    b.progress_target,
+    COALESCE(ub.progress_percentage, 0) AS progress_percentage,
+    b.progress_unit
+  FROM
+    badges b
+  LEFT JOIN
+    user_badges ub ON ub.badge_id = b.id AND ub.user_id = target_user_id
+  ORDER BY
+    COALESCE(ub.earned, FALSE) DESC,
+    b.badge_rarity DESC,
+    b.badge_name ASC;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.get_user_badge_progress(UUID) TO authenticated;
+
+-- Existing badges, described as rules
+UPDATE public.badges SET rule_metric = 'entries', progress_unit = 'entries'
+WHERE id IN ('first-step', 'entries-5', 'entries-10', 'entries-25', 'entries-50', 'entries-100');
+
+UPDATE public.badges SET rule_metric = 'current_streak', progress_unit = 'days'
+WHERE id IN ('streak-3', 'streak-7', 'streak-14', 'streak-30', 'streak-100');
+
+UPDATE public.badges SET rule_metric = 'best_streak', progress_unit = 'days' WHERE id = 'best-streak-7';
+UPDATE public.badges SET rule_metric = 'distinct_moods', progress_unit = 'moods' WHERE id = 'mood-variety';
+UPDATE public.badges SET rule_metric = 'premium', progress_unit = '' WHERE id = 'premium-supporter';
+
+-- New badges that only need rows
+INSERT INTO public.badges (
+    id, badge_name, badge_description, badge_icon, badge_category, badge_rarity,
+    progress_target, rule_metric, rule_window_days, rule_params, progress_unit
+)
+VALUES
+    ('photo-journal-10', 'Picture This', 'Add a photo to 10 journal entries', '📸', 'achievement', 'rare', 10, 'entries_with_photo', NULL, '{}', 'entries'),
+    ('early-bird-5', 'Early Bird', 'Write 5 journal entries before 8am', '🌅', 'achievement', 'rare', 5, 'entries_before_hour', NULL, '{"hour": 8}', 'entries'),
+    ('night-owl-5', 'Night Owl', 'Write 5 journal entries after 10pm', '🦉', 'achievement', 'rare', 5, 'entries_after_hour', NULL, '{"hour": 22}', 'entries'),
+    ('steady-week', 'Steady Rhythm', 'Journal on 5 of the last 7 days', '🎵', 'achievement', 'common', 5, 'active_days', 7, '{}', 'days')
+ON CONFLICT (id) DO UPDATE SET
+    badge_name = EXCLUDED.badge_name,
+    badge_description = EXCLUDED.badge_description,
+    badge_icon = EXCLUDED.badge_icon,
+    badge_category = EXCLUDED.badge_category,
+    badge_rarity = EXCLUDED.badge_rarity,
+    progress_target = EXCLUDED.progress_target,
+    rule_metric = EXCLUDED.rule_metric,
+    rule_window_days = EXCLUDED.rule_window_days,
+    rule_params = EXCLUDED.rule_params,
+    progress_unit = EXCLUDED.progress_unit;
+
+-- Recalculate everyone against the rules
+DO $$
+DECLARE
+    user_record RECORD;
+BEGIN
+    FOR user_record IN SELECT user_id FROM public.profiles LOOP
+        PERFORM public.refresh_user_badge_progress(user_record.user_id);
+    END LOOP;
+END;
+$$;
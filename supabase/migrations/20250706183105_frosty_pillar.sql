@@ -0,0 +1,393 @@
+/*
+  # Streak freezes and weekly streaks
+
+  1. Changes
+    - Adds streak_freezes, one row per freeze. A freeze is either earned (one
+      for every 7 days or 4 weeks of streak, holding at most 2 unused) or
+      purchased, and is used up by recording the day or week it covered
+    - Adds calculate_period_streaks, which counts streaks in days or in weeks.
+      A week counts when it has at least journaling_goal_frequency days with
+      entries. Frozen days and weeks join the periods around them but don't
+      add to the streak
+    - Users with a goal below 7 days a week now have a weekly streak. The
+      profile stores which unit current_streak and best_streak are in
+    - refresh_user_badge_progress spends a freeze when exactly one day or week
+      was missed before the latest entry, and awards earned freezes. Signed-in
+      users may only refresh themselves and anonymous callers can't refresh
+      anyone, so nobody can spend another user's freezes
+    - Adds grant_streak_freezes for purchases (service role only)
+    - Changing the journaling goal recalculates streaks
+    - calculate_user_streaks stays a daily streak, so the day-based streak
+      badges keep their meaning
+
+  2. Reason
+    - One missed day reset the streak to zero, and a "3 times a week" goal
+      could never be kept as a daily streak
+*/
+
+CREATE TABLE IF NOT EXISTS public.streak_freezes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    source TEXT NOT NULL CHECK (source IN ('earned', 'purchased')),
+    -- The streak milestone an earned freeze was awarded for
+    earned_period TEXT CHECK (earned_period IN ('day', 'week')),
+    earned_run_start DATE,
+    earned_streak INT,
+    -- The day, or the Monday of the week, the freeze covered
+    used_period TEXT CHECK (used_period IN ('day', 'week')),
+    used_on DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK ((used_period IS NULL) = (used_on IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS streak_freezes_available_idx
+ON public.streak_freezes (user_id)
+WHERE used_on IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS streak_freezes_used_on_idx
+ON public.streak_freezes (user_id, used_period, used_on)
+WHERE used_on IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS streak_freezes_earned_idx
+ON public.streak_freezes (user_id, earned_period, earned_run_start, earned_streak)
+WHERE source = 'earned';
+
+ALTER TABLE public.streak_freezes ENABLE ROW LEVEL SECURITY;
+
+-- Freezes are granted and spent by the functions below, never by clients
+CREATE POLICY "Users can view their own streak freezes"
+ON public.streak_freezes FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS streak_period TEXT NOT NULL DEFAULT 'day' CHECK (streak_period IN ('day', 'week'));
+
+COMMENT ON COLUMN public.profiles.streak_period IS
+'Unit of current_streak and best_streak: day, or week when journaling_goal_frequency is below 7.';
+
+-- The first day of the day or ISO week (starting Monday) a date falls in
+CREATE OR REPLACE FUNCTION public.streak_period_start(p_date DATE, p_period TEXT)
+RETURNS DATE AS $$
+    SELECT CASE p_period WHEN 'week' THEN p_date - (EXTRACT(ISODOW FROM p_date)::INT - 1) ELSE p_date END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- How a user's streak is counted: daily for a goal of 7, otherwise weekly
+CREATE OR REPLACE FUNCTION public.user_streak_settings(
+    p_user_id UUID,
+    OUT streak_period TEXT,
+    OUT goal INT
+) AS $$
+    SELECT
+        CASE WHEN g.goal < 7 THEN 'week' ELSE 'day' END,
+        CASE WHEN g.goal < 7 THEN g.goal ELSE 1 END
+    FROM (
+        SELECT GREATEST(COALESCE((SELECT journaling_goal_frequency FROM public.profiles WHERE user_id = p_user_id), 3), 1) AS goal
+    ) g;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+/*
+  Current and best streak in days or weeks. A period counts when it has at
+  least p_goal days with entries (always 1 for days) or was covered by a
+  freeze. The current streak counts while the last counted period is this one
+  or the one before. latest_run_start and previous_run_end describe the gap
+  before the latest run, which is where a freeze would go.
+*/
+CREATE OR REPLACE FUNCTION public.calculate_period_streaks(
+    p_user_id UUID,
+    p_period TEXT,
+    p_goal INT DEFAULT 1,
+    p_now TIMESTAMPTZ DEFAULT NOW(),
+    OUT current_streak INT,
+    OUT best_streak INT,
+    OUT latest_run_start DATE,
+    OUT previous_run_end DATE
+) AS $$
+DECLARE
+    v_timezone TEXT := public.user_timezone(p_user_id);
+    v_step INT := CASE p_period WHEN 'week' THEN 7 ELSE 1 END;
+    v_current_period DATE := public.streak_period_start((p_now AT TIME ZONE v_timezone)::DATE, p_period);
+BEGIN
+    WITH entry_days AS (
+        SELECT DISTINCT (created_at AT TIME ZONE v_timezone)::DATE AS entry_date
+        FROM public.journal_entries
+        WHERE user_id = p_user_id
+    ), met_periods AS (
+        SELECT public.streak_period_start(entry_date, p_period) AS period_start
+        FROM entry_days
+        GROUP BY 1
+        HAVING COUNT(*) >= CASE p_period WHEN 'week' THEN GREATEST(p_goal, 1) ELSE 1 END
+    ), periods AS (
+        SELECT period_start, FALSE AS frozen FROM met_periods
+        UNION ALL
+        SELECT f.used_on, TRUE
+        FROM public.streak_freezes f
+        WHERE f.user_id = p_user_id
+          AND f.used_period = p_period
+          AND NOT EXISTS (SELECT 1 FROM met_periods m WHERE m.period_start = f.used_on)
+    ), runs AS (
+        -- Consecutive periods share the same run_key
+        SELECT period_start, frozen, period_start - (ROW_NUMBER() OVER (ORDER BY period_start))::INT * v_step AS run_key
+        FROM periods
+    ), streaks AS (
+        SELECT
+            (COUNT(*) FILTER (WHERE NOT frozen))::INT AS streak_length,
+            MIN(period_start) AS run_start,
+            MAX(period_start) AS run_end
+        FROM runs
+        GROUP BY run_key
+    )
+    SELECT
+        COALESCE((SELECT streak_length FROM streaks WHERE run_end >= v_current_period - v_step ORDER BY run_end DESC LIMIT 1), 0),
+        COALESCE(MAX(streak_length), 0),
+        (SELECT run_start FROM streaks ORDER BY run_end DESC LIMIT 1),
+        (SELECT run_end FROM streaks ORDER BY run_end DESC OFFSET 1 LIMIT 1)
+    INTO current_streak, best_streak, latest_run_start, previous_run_end
+    FROM streaks;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Daily streaks, which the streak badges are measured in
+CREATE OR REPLACE FUNCTION public.calculate_user_streaks(
+    p_user_id UUID,
+    p_now TIMESTAMPTZ DEFAULT NOW(),
+    OUT current_streak INT,
+    OUT best_streak INT,
+    OUT last_entry_date DATE
+) AS $$
+    SELECT
+        s.current_streak,
+        s.best_streak,
+        (
+            SELECT MAX((created_at AT TIME ZONE public.user_timezone(p_user_id))::DATE)
+            FROM public.journal_entries
+            WHERE user_id = p_user_id
+        )
+    FROM public.calculate_period_streaks(p_user_id, 'day', 1, p_now) s;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Streaks in the unit that matches the user's journaling goal
+CREATE OR REPLACE FUNCTION public.calculate_goal_streaks(
+    p_user_id UUID,
+    p_now TIMESTAMPTZ DEFAULT NOW(),
+    OUT streak_period TEXT,
+    OUT current_streak INT,
+    OUT best_streak INT,
+    OUT run_start DATE
+) AS $$
+    SELECT g.streak_period, s.current_streak, s.best_streak, s.latest_run_start
+    FROM public.user_streak_settings(p_user_id) g
+    CROSS JOIN LATERAL public.calculate_period_streaks(p_user_id, g.streak_period, g.goal, p_now) s;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+/*
+  Spend a freeze on the single day or week missed just before the latest run
+  of entries. Older gaps are left alone, so buying a freeze doesn't repair a
+  streak that ended long ago. Returns whether a freeze was used.
+*/
+CREATE OR REPLACE FUNCTION public.apply_streak_freeze(p_user_id UUID, p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_settings RECORD;
+    v_streaks RECORD;
+    v_step INT;
+    v_current_period DATE;
+    v_freeze_id UUID;
+BEGIN
+    SELECT * INTO v_settings FROM public.user_streak_settings(p_user_id);
+    v_step := CASE v_settings.streak_period WHEN 'week' THEN 7 ELSE 1 END;
+    v_current_period := public.streak_period_start((p_now AT TIME ZONE public.user_timezone(p_user_id))::DATE, v_settings.streak_period);
+
+    SELECT * INTO v_streaks
+    FROM public.calculate_period_streaks(p_user_id, v_settings.streak_period, v_settings.goal, p_now);
+
+    IF v_streaks.latest_run_start IS NULL
+       OR v_streaks.latest_run_start < v_current_period - v_step
+       OR v_streaks.previous_run_end IS DISTINCT FROM v_streaks.latest_run_start - 2 * v_step THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT id INTO v_freeze_id
+    FROM public.streak_freezes
+    WHERE user_id = p_user_id AND used_on IS NULL
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF v_freeze_id IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.streak_freezes
+    SET used_period = v_settings.streak_period,
+        used_on = v_streaks.latest_run_start - v_step
+    WHERE id = v_freeze_id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add purchased (or otherwise granted) freezes. Returns the unused total.
+CREATE OR REPLACE FUNCTION public.grant_streak_freezes(p_user_id UUID, p_count INT, p_source TEXT DEFAULT 'purchased')
+RETURNS INT AS $$
+DECLARE
+    v_available INT;
+BEGIN
+    IF p_count < 1 THEN
+        RAISE EXCEPTION 'Freeze count must be positive' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.streak_freezes (user_id, source)
+    SELECT p_user_id, p_source
+    FROM generate_series(1, p_count);
+
+    PERFORM public.refresh_user_badge_progress(p_user_id);
+
+    SELECT COUNT(*) INTO v_available
+    FROM public.streak_freezes
+    WHERE user_id = p_user_id AND used_on IS NULL;
+
+    RETURN v_available;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_streak_freeze(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grant_streak_freezes(UUID, INT, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.grant_streak_freezes(UUID, INT, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.refresh_user_badge_progress(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_streaks RECORD;
+    v_goal_streaks RECORD;
+    v_previous_period TEXT;
+    v_earn_every INT;
+    v_badge_record RECORD;
+    v_progress_current INT;
+    v_earned BOOLEAN;
+    v_percentage NUMERIC;
+BEGIN
+    -- Triggers, migrations and cron run without a JWT, so auth.role() is null there
+    IF auth.role() <> 'service_role' AND p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Cannot refresh another user''s progress' USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM public.apply_streak_freeze(p_user_id);
+
+    SELECT * INTO v_streaks FROM public.calculate_user_streaks(p_user_id);
+    SELECT * INTO v_goal_streaks FROM public.calculate_goal_streaks(p_user_id);
+    SELECT streak_period INTO v_previous_period FROM public.profiles WHERE user_id = p_user_id;
+
+    -- One freeze for every 7 days or 4 weeks of a streak, holding at most 2 earned ones
+    v_earn_every := CASE v_goal_streaks.streak_period WHEN 'week' THEN 4 ELSE 7 END;
+
+    IF v_goal_streaks.current_streak >= v_earn_every
+       AND (SELECT COUNT(*) FROM public.streak_freezes WHERE user_id = p_user_id AND source = 'earned' AND used_on IS NULL) < 2 THEN
+        INSERT INTO public.streak_freezes (user_id, source, earned_period, earned_run_start, earned_streak)
+        VALUES (
+            p_user_id,
+            'earned',
+            v_goal_streaks.streak_period,
+            v_goal_streaks.run_start,
+            v_goal_streaks.current_streak / v_earn_every * v_earn_every
+        )
+        ON CONFLICT DO NOTHING;
+    END IF;
+
+    -- Update the main profiles table with new streak and last entry date
+    UPDATE public.profiles
+    SET
+        current_streak = v_goal_streaks.current_streak,
+        -- Keep the highest best streak, unless it was counted in the other unit
+        best_streak = CASE
+            WHEN v_previous_period = v_goal_streaks.streak_period THEN GREATEST(profiles.best_streak, v_goal_streaks.best_streak)
+            ELSE v_goal_streaks.best_streak
+        END,
+        streak_period = v_goal_streaks.streak_period,
+        last_entry_date = v_streaks.last_entry_date,
+        updated_at = NOW()
+    WHERE profiles.user_id = p_user_id;
+
+    FOR v_badge_record IN SELECT * FROM public.badges LOOP
+        IF v_badge_record.rule_metric IS NULL THEN
+            v_progress_current := 0;
+            v_earned := FALSE;
+        ELSE
+            v_progress_current := public.evaluate_badge_metric(
+                p_user_id,
+                v_badge_record.rule_metric,
+                v_badge_record.rule_params,
+                v_badge_record.rule_window_days
+            );
+            v_earned := public.badge_rule_met(v_progress_current, v_badge_record.rule_comparator, v_badge_record.progress_target);
+        END IF;
+
+        IF v_earned THEN
+            v_percentage := 100;
+        ELSIF v_badge_record.progress_target > 0 THEN
+            v_percentage := LEAST(100.0, (v_progress_current * 100.0 / v_badge_record.progress_target));
+        ELSE
+            v_percentage := 0;
+        END IF;
+
+        INSERT INTO public.user_badges (user_id, badge_id, progress_current, progress_percentage, earned, earned_at, updated_at)
+        VALUES (
+            p_user_id,
+            v_badge_record.id,
+            v_progress_current,
+            v_percentage,
+            v_earned,
+            CASE WHEN v_earned THEN NOW() ELSE NULL END,
+            NOW()
+        )
+        ON CONFLICT (user_id, badge_id) DO UPDATE
+        SET
+            progress_current = EXCLUDED.progress_current,
+            progress_percentage = EXCLUDED.progress_percentage,
+            earned = EXCLUDED.earned,
+            earned_at = CASE
+                WHEN EXCLUDED.earned AND user_badges.earned_at IS NULL THEN NOW()
+                WHEN NOT EXCLUDED.earned THEN NULL
+                ELSE user_badges.earned_at
+            END,
+            updated_at = NOW();
+    END LOOP;
+
+    -- Update total badges earned count
+    UPDATE public.profiles
+    SET
+        total_badges_earned = (SELECT COUNT(*) FROM public.user_badges WHERE user_id = p_user_id AND earned = TRUE),
+        updated_at = NOW()
+    WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Anyone with the anon key could otherwise spend a user's freezes through
+-- these SECURITY DEFINER functions
+REVOKE EXECUTE ON FUNCTION public.refresh_user_badge_progress(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.recalculate_streaks_for_user(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.recalculate_all_user_stats(UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.refresh_user_badge_progress(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recalculate_streaks_for_user(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recalculate_all_user_stats(UUID) TO authenticated;
+
+-- A different goal can switch between daily and weekly streaks
+DROP TRIGGER IF EXISTS on_profile_goal_update ON public.profiles;
+CREATE TRIGGER on_profile_goal_update
+AFTER UPDATE OF journaling_goal_frequency ON public.profiles
+FOR EACH ROW
+WHEN (OLD.journaling_goal_frequency IS DISTINCT FROM NEW.journaling_goal_frequency)
+EXECUTE FUNCTION public.handle_profile_timezone_change();
+
+-- Store each user's streak in the unit their goal now implies
+DO $$
+DECLARE
+    user_record RECORD;
+BEGIN
+    FOR user_record IN SELECT user_id FROM public.profiles LOOP
+        PERFORM public.refresh_user_badge_progress(user_record.user_id);
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,294 @@
+/*
+  # Weekly goal tracking
+
+  1. Changes
+    - Adds user_goal_weeks, which measures each week (Monday to Sunday in the
+      user's timezone) against journaling_goal_frequency
+    - Adds get_weekly_goal_progress for the home screen: this week's progress,
+      the history of hit and missed weeks, the weekly goal streak and a
+      summary of last week compared with the week before
+    - Adds the goal_weeks_met and goal_week_streak badge metrics and four goal
+      badges in a new 'goal' category
+
+  2. Reason
+    - journaling_goal_frequency was stored but nothing measured it. Counting in
+      the database keeps the ring, history and badges the same on every device.
+
+  3. Notes
+    - Weeks are measured against the current goal, the same as weekly streaks,
+      so changing the goal re-scores past weeks
+*/
+
+-- The goal as days per week, between 1 and 7
+CREATE OR REPLACE FUNCTION public.user_weekly_goal(p_user_id UUID)
+RETURNS INT AS $$
+    SELECT LEAST(GREATEST(COALESCE((SELECT journaling_goal_frequency FROM public.profiles WHERE user_id = p_user_id), 3), 1), 7);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+/*
+  The last p_weeks weeks up to and including the current one, oldest first.
+  Weeks without entries are included as missed. frozen marks weeks a streak
+  freeze covered. Not SECURITY DEFINER: called directly, row level security
+  limits it to the caller's own entries.
+*/
+CREATE OR REPLACE FUNCTION public.user_goal_weeks(
+    p_user_id UUID,
+    p_weeks INT,
+    p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+    week_start DATE,
+    days_journaled INT,
+    entries INT,
+    words INT,
+    average_mood NUMERIC,
+    top_mood TEXT,
+    goal INT,
+    met BOOLEAN,
+    frozen BOOLEAN
+) AS $$
+DECLARE
+    v_timezone TEXT := public.user_timezone(p_user_id);
+    v_goal INT := public.user_weekly_goal(p_user_id);
+    v_this_week DATE := public.streak_period_start((p_now AT TIME ZONE v_timezone)::DATE, 'week');
+    v_first_week DATE := v_this_week - (GREATEST(p_weeks, 1) - 1) * 7;
+BEGIN
+    RETURN QUERY
+    WITH local_entries AS (
+        SELECT (je.created_at AT TIME ZONE v_timezone)::DATE AS entry_date, je.mood, je.content
+        FROM public.journal_entries je
+        WHERE je.user_id = p_user_id
+          AND je.created_at >= v_first_week::TIMESTAMP AT TIME ZONE v_timezone
+          AND je.created_at < (v_this_week + 7)::TIMESTAMP AT TIME ZONE v_timezone
+    ), by_week AS (
+        SELECT
+            public.streak_period_start(le.entry_date, 'week') AS wk,
+            COUNT(DISTINCT le.entry_date)::INT AS day_count,
+            COUNT(*)::INT AS entry_count,
+            COALESCE(SUM(array_length(regexp_split_to_array(NULLIF(trim(le.content), ''), '\s+'), 1)), 0)::INT AS word_count,
+            ROUND(AVG(public.journal_mood_score(le.mood)), 2) AS mood_score,
+            mode() WITHIN GROUP (ORDER BY le.mood) AS common_mood
+        FROM local_entries le
+        GROUP BY 1
+    )
+    SELECT
+        w.wk,
+        COALESCE(b.day_count, 0),
+        COALESCE(b.entry_count, 0),
+        COALESCE(b.word_count, 0),
+        b.mood_score,
+        b.common_mood,
+        v_goal,
+        COALESCE(b.day_count, 0) >= v_goal,
+        EXISTS (
+            SELECT 1 FROM public.streak_freezes f
+            WHERE f.user_id = p_user_id AND f.used_period = 'week' AND f.used_on = w.wk
+        )
+    FROM (
+        SELECT v_first_week + n * 7 AS wk
+        FROM generate_series(0, GREATEST(p_weeks, 1) - 1) AS n
+    ) w
+    LEFT JOIN by_week b ON b.wk = w.wk
+    ORDER BY w.wk;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_weekly_goal_progress(
+    p_weeks INT DEFAULT 12,
+    p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_weeks INT := LEAST(GREATEST(COALESCE(p_weeks, 12), 2), 52);
+    v_timezone TEXT;
+    v_today DATE;
+    v_this_week DATE;
+    v_result JSONB;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    v_timezone := public.user_timezone(v_user_id);
+    v_today := (p_now AT TIME ZONE v_timezone)::DATE;
+    v_this_week := public.streak_period_start(v_today, 'week');
+
+    WITH weeks AS (
+        SELECT * FROM public.user_goal_weeks(v_user_id, v_weeks + 1, p_now)
+    )
+    SELECT jsonb_build_object(
+        'goal', public.user_weekly_goal(v_user_id),
+        'timezone', v_timezone,
+        'today', v_today,
+        'goal_streak', (
+            SELECT s.current_streak
+            FROM public.calculate_period_streaks(v_user_id, 'week', public.user_weekly_goal(v_user_id), p_now) s
+        ),
+        'current_week', (
+            SELECT to_jsonb(w) || jsonb_build_object('days_left', 7 - (v_today - v_this_week))
+            FROM weeks w
+            WHERE w.week_start = v_this_week
+        ),
+        'history', COALESCE((
+            SELECT jsonb_agg(to_jsonb(w) ORDER BY w.week_start)
+            FROM weeks w
+            WHERE w.week_start < v_this_week
+        ), '[]'::jsonb),
+        'weeks_met', (SELECT COUNT(*) FROM weeks w WHERE w.week_start < v_this_week AND w.met),
+        'last_week', (
+            SELECT to_jsonb(lw) || jsonb_build_object(
+                'previous_days_journaled', pw.days_journaled,
+                'previous_entries', pw.entries,
+                'previous_average_mood', pw.average_mood
+            )
+            FROM weeks lw
+            LEFT JOIN weeks pw ON pw.week_start = lw.week_start - 7
+            WHERE lw.week_start = v_this_week - 7
+        )
+    )
+    INTO v_result;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_weekly_goal_progress(INT, TIMESTAMPTZ) TO authenticated;
+
+ALTER TABLE public.badges DROP CONSTRAINT IF EXISTS badges_rule_metric_check;
+ALTER TABLE public.badges ADD CONSTRAINT badges_rule_metric_check CHECK (
+    rule_metric IS NULL OR rule_metric IN (
+        'entries', 'active_days', 'distinct_moods', 'words_written',
+        'entries_with_photo', 'entries_with_affirmation', 'entries_with_tags',
+        'entries_with_mood', 'entries_before_hour', 'entries_after_hour',
+        'weekend_entries', 'current_streak', 'best_streak', 'premium',
+        'goal_weeks_met', 'goal_week_streak'
+    )
+);
+
+/*
+  Measure one badge metric for a user. Times are taken in the user's timezone.
+  p_now is only there so tests can fix the clock.
+*/
+CREATE OR REPLACE FUNCTION public.evaluate_badge_metric(
+    p_user_id UUID,
+    p_metric TEXT,
+    p_params JSONB DEFAULT '{}'::jsonb,
+    p_window_days INT DEFAULT NULL,
+    p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS INT AS $$
+DECLARE
+    v_timezone TEXT := public.user_timezone(p_user_id);
+    v_since TIMESTAMPTZ;
+    v_value BIGINT;
+BEGIN
+    IF p_metric IN ('current_streak', 'best_streak') THEN
+        SELECT CASE p_metric WHEN 'current_streak' THEN s.current_streak ELSE s.best_streak END
+        INTO v_value
+        FROM public.calculate_user_streaks(p_user_id, p_now) s;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    -- Consecutive weeks that reached the goal
+    IF p_metric = 'goal_week_streak' THEN
+        SELECT s.current_streak
+        INTO v_value
+        FROM public.calculate_period_streaks(p_user_id, 'week', public.user_weekly_goal(p_user_id), p_now) s;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    IF p_metric = 'premium' THEN
+        SELECT CASE WHEN subscription_status = 'premium' THEN 1 ELSE 0 END
+        INTO v_value
+        FROM public.profiles
+        WHERE user_id = p_user_id;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    -- Windows start at local midnight, N - 1 days before today
+    IF p_window_days IS NOT NULL THEN
+        v_since := (((p_now AT TIME ZONE v_timezone)::DATE - (p_window_days - 1))::TIMESTAMP) AT TIME ZONE v_timezone;
+    END IF;
+
+    -- Weeks, any time or within the window, that reached the goal
+    IF p_metric = 'goal_weeks_met' THEN
+        SELECT COUNT(*)
+        INTO v_value
+        FROM (
+            SELECT 1
+            FROM public.journal_entries je
+            WHERE je.user_id = p_user_id
+              AND (v_since IS NULL OR je.created_at >= v_since)
+            GROUP BY public.streak_period_start((je.created_at AT TIME ZONE v_timezone)::DATE, 'week')
+            HAVING COUNT(DISTINCT (je.created_at AT TIME ZONE v_timezone)::DATE) >= public.user_weekly_goal(p_user_id)
+        ) met_weeks;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    SELECT CASE p_metric
+        WHEN 'entries' THEN COUNT(*)
+        WHEN 'active_days' THEN COUNT(DISTINCT (je.created_at AT TIME ZONE v_timezone)::DATE)
+        WHEN 'distinct_moods' THEN COUNT(DISTINCT je.mood)
+        WHEN 'words_written' THEN COALESCE(SUM(array_length(regexp_split_to_array(NULLIF(trim(je.content), ''), '\s+'), 1)), 0)
+        WHEN 'entries_with_photo' THEN COUNT(*) FILTER (WHERE je.photo_url IS NOT NULL)
+        WHEN 'entries_with_affirmation' THEN COUNT(*) FILTER (WHERE je.affirmation_text IS NOT NULL)
+        WHEN 'entries_with_tags' THEN COUNT(*) FILTER (
+            WHERE EXISTS (SELECT 1 FROM public.journal_entry_tags jet WHERE jet.entry_id = je.id)
+        )
+        WHEN 'entries_with_mood' THEN COUNT(*) FILTER (WHERE je.mood = p_params->>'mood')
+        WHEN 'entries_before_hour' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(HOUR FROM je.created_at AT TIME ZONE v_timezone) < (p_params->>'hour')::INT
+        )
+        WHEN 'entries_after_hour' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(HOUR FROM je.created_at AT TIME ZONE v_timezone) >= (p_params->>'hour')::INT
+        )
+        WHEN 'weekend_entries' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(ISODOW FROM je.created_at AT TIME ZONE v_timezone) IN (6, 7)
+        )
+    END
+    INTO v_value
+    FROM public.journal_entries je
+    WHERE je.user_id = p_user_id
+      AND (v_since IS NULL OR je.created_at >= v_since);
+
+    IF v_value IS NULL THEN
+        RAISE WARNING 'Unknown badge metric: %', p_metric;
+        RETURN 0;
+    END IF;
+
+    RETURN LEAST(v_value, 2147483647)::INT;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+INSERT INTO public.badges (
+    id, badge_name, badge_description, badge_icon, badge_category, badge_rarity,
+    progress_target, rule_metric, rule_window_days, rule_params, progress_unit
+)
+VALUES
+    ('goal-week-1', 'Goal Getter', 'Reach your weekly journaling goal', '🎯', 'goal', 'common', 1, 'goal_weeks_met', NULL, '{}', 'weeks'),
+    ('goal-weeks-4', 'Month of Intention', 'Reach your weekly journaling goal in 4 weeks', '🗓️', 'goal', 'rare', 4, 'goal_weeks_met', NULL, '{}', 'weeks'),
+    ('goal-weeks-12', 'Season of Practice', 'Reach your weekly journaling goal in 12 weeks', '🌳', 'goal', 'epic', 12, 'goal_weeks_met', NULL, '{}', 'weeks'),
+    ('goal-week-streak-4', 'Four in a Row', 'Reach your weekly journaling goal 4 weeks in a row', '🏅', 'goal', 'rare', 4, 'goal_week_streak', NULL, '{}', 'weeks')
+ON CONFLICT (id) DO UPDATE SET
+    badge_name = EXCLUDED.badge_name,
+    badge_description = EXCLUDED.badge_description,
+    badge_icon = EXCLUDED.badge_icon,
+    badge_category = EXCLUDED.badge_category,
+    badge_rarity = EXCLUDED.badge_rarity,
+    progress_target = EXCLUDED.progress_target,
+    rule_metric = EXCLUDED.rule_metric,
+    rule_window_days = EXCLUDED.rule_window_days,
+    rule_params = EXCLUDED.rule_params,
+    progress_unit = EXCLUDED.progress_unit;
+
+-- Score existing users against the new badges
+DO $$
+DECLARE
+    user_record RECORD;
+BEGIN
+    FOR user_record IN SELECT user_id FROM public.profiles LOOP
+        PERFORM public.refresh_user_badge_progress(user_record.user_id);
+    END LOOP;
+END;
+$$;
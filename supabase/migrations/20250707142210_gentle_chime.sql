@@ -0,0 +1,206 @@
+/*
+  # Journaling reminders and notifications
+
+  1. Changes
+    - Adds reminder preferences to profiles: whether reminders are on, the
+      local time and ISO weekdays (1 = Monday) to send them, quiet hours, an
+      optional "you haven't journaled in N days" nudge and a weekly email digest
+    - Adds push_subscriptions for Web Push endpoints, managed by each user
+    - Adds notification_deliveries, one row per user, kind and local day, so a
+      notification is only ever sent once
+    - Adds get_due_notifications for the send-reminders edge function (service
+      role only)
+
+  2. Reason
+    - The notifications toggle in settings was only saved in the browser and
+      nothing ever sent a reminder
+
+  3. Notes
+    - Times are in the profile's timezone. A notification is due for an hour
+      after the reminder time, so it still goes out if quiet hours end within
+      that hour
+    - No reminder is sent on a day the user has already journaled, and the
+      nudge replaces that day's reminder. A nudge is sent once per gap
+    - The digest goes out on Mondays at the reminder time and summarizes the
+      week before
+*/
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS reminder_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS reminder_time TIME NOT NULL DEFAULT '20:00',
+    ADD COLUMN IF NOT EXISTS reminder_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5,6,7}'
+        CHECK (reminder_days <@ '{1,2,3,4,5,6,7}'::SMALLINT[]),
+    ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+    ADD COLUMN IF NOT EXISTS quiet_hours_end TIME,
+    ADD COLUMN IF NOT EXISTS inactivity_nudge_days INT CHECK (inactivity_nudge_days BETWEEN 2 AND 30),
+    ADD COLUMN IF NOT EXISTS email_digest_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.profiles.reminder_days IS
+'ISO weekdays to send reminders on, 1 = Monday to 7 = Sunday.';
+
+COMMENT ON COLUMN public.profiles.inactivity_nudge_days IS
+'Send a nudge instead of the reminder once this many days have passed since the last entry. NULL turns the nudge off.';
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, endpoint)
+);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own push subscriptions"
+ON public.push_subscriptions FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push subscriptions"
+ON public.push_subscriptions FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own push subscriptions"
+ON public.push_subscriptions FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Written by the send-reminders edge function with the service role only
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('reminder', 'nudge', 'digest')),
+    -- The local day the notification was sent for
+    sent_for DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    channels TEXT[] NOT NULL DEFAULT '{}',
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, kind, sent_for)
+);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Whether a local time falls in quiet hours; the range may run past midnight
+CREATE OR REPLACE FUNCTION public.in_quiet_hours(p_time TIME, p_start TIME, p_end TIME)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN p_start IS NULL OR p_end IS NULL OR p_start = p_end THEN FALSE
+        WHEN p_start < p_end THEN p_time >= p_start AND p_time < p_end
+        ELSE p_time >= p_start OR p_time < p_end
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+/*
+  Notifications to send at p_now that haven't been sent yet. Reminders and
+  nudges need a push subscription, digests an email address. digest holds
+  last week's numbers from user_goal_weeks and the current streak.
+*/
+CREATE OR REPLACE FUNCTION public.get_due_notifications(
+    p_now TIMESTAMPTZ DEFAULT NOW(),
+    p_window INTERVAL DEFAULT '1 hour'
+)
+RETURNS TABLE (
+    user_id UUID,
+    kind TEXT,
+    sent_for DATE,
+    email TEXT,
+    name TEXT,
+    days_since_entry INT,
+    digest JSONB
+) AS $$
+DECLARE
+    v_profile RECORD;
+    v_local TIMESTAMP;
+    v_today DATE;
+    v_due_at TIMESTAMP;
+    v_days_since INT;
+BEGIN
+    FOR v_profile IN
+        SELECT
+            p.user_id AS id,
+            p.name AS profile_name,
+            u.email AS address,
+            COALESCE(p.timezone, 'UTC') AS tz,
+            p.reminder_enabled,
+            p.reminder_time,
+            p.reminder_days,
+            p.quiet_hours_start,
+            p.quiet_hours_end,
+            p.inactivity_nudge_days,
+            p.email_digest_enabled,
+            p.last_entry_date,
+            p.current_streak,
+            p.streak_period,
+            EXISTS (SELECT 1 FROM public.push_subscriptions s WHERE s.user_id = p.user_id) AS has_push
+        FROM public.profiles p
+        JOIN auth.users u ON u.id = p.user_id
+        WHERE p.reminder_enabled OR p.email_digest_enabled
+    LOOP
+        v_local := p_now AT TIME ZONE v_profile.tz;
+        v_today := v_local::DATE;
+        v_due_at := v_today + v_profile.reminder_time;
+
+        CONTINUE WHEN v_local < v_due_at OR v_local >= v_due_at + p_window;
+
+        v_days_since := v_today - v_profile.last_entry_date;
+
+        IF v_profile.reminder_enabled
+           AND v_profile.has_push
+           AND NOT public.in_quiet_hours(v_local::TIME, v_profile.quiet_hours_start, v_profile.quiet_hours_end)
+           AND (v_profile.last_entry_date IS NULL OR v_profile.last_entry_date < v_today) THEN
+            IF v_days_since >= v_profile.inactivity_nudge_days
+               AND NOT EXISTS (
+                   SELECT 1 FROM public.notification_deliveries d
+                   WHERE d.user_id = v_profile.id AND d.kind = 'nudge' AND d.sent_for > v_profile.last_entry_date
+               ) THEN
+                RETURN QUERY SELECT v_profile.id, 'nudge'::TEXT, v_today, v_profile.address::TEXT, v_profile.profile_name, v_days_since, NULL::JSONB;
+            ELSIF EXTRACT(ISODOW FROM v_today)::SMALLINT = ANY (v_profile.reminder_days)
+               AND NOT EXISTS (
+                   SELECT 1 FROM public.notification_deliveries d
+                   WHERE d.user_id = v_profile.id AND d.sent_for = v_today AND d.kind IN ('reminder', 'nudge')
+               ) THEN
+                RETURN QUERY SELECT v_profile.id, 'reminder'::TEXT, v_today, v_profile.address::TEXT, v_profile.profile_name, v_days_since, NULL::JSONB;
+            END IF;
+        END IF;
+
+        IF v_profile.email_digest_enabled
+           AND v_profile.address IS NOT NULL
+           AND EXTRACT(ISODOW FROM v_today) = 1
+           AND NOT EXISTS (
+               SELECT 1 FROM public.notification_deliveries d
+               WHERE d.user_id = v_profile.id AND d.kind = 'digest' AND d.sent_for = v_today
+           ) THEN
+            RETURN QUERY
+            SELECT
+                v_profile.id,
+                'digest'::TEXT,
+                v_today,
+                v_profile.address::TEXT,
+                v_profile.profile_name,
+                v_days_since,
+                to_jsonb(w) || jsonb_build_object(
+                    'current_streak', v_profile.current_streak,
+                    'streak_period', v_profile.streak_period
+                )
+            FROM public.user_goal_weeks(v_profile.id, 2, p_now) w
+            ORDER BY w.week_start
+            LIMIT 1;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_due_notifications(TIMESTAMPTZ, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_due_notifications(TIMESTAMPTZ, INTERVAL) TO service_role;
@@ -0,0 +1,555 @@
+/*
+  # Private journal
+
+  1. Changes
+    - Adds journal_keys, one row per user who turned on the private journal:
+      the PBKDF2 salt and iteration count for their passphrase, the journal key
+      wrapped with the passphrase, and a second copy wrapped with a recovery
+      code. The key is only ever unwrapped in the browser
+    - Adds to journal_entries:
+      - is_encrypted and key_version, for entries whose title and content are
+        AES-GCM ciphertext
+      - search_opt_in and search_text, the plaintext of an encrypted entry the
+        user chose to make searchable
+      - ai_opt_in, set when the user let AI features read an encrypted entry
+      - word_count, counted by a trigger for plaintext entries and sent by the
+        browser for encrypted ones
+    - search_vector indexes search_text instead of the title and content of
+      encrypted entries, and search_journal_entries returns the new columns
+    - get_journal_analytics, user_goal_weeks and evaluate_badge_metric count
+      word_count instead of splitting content
+
+  2. Reason
+    - Some users want a private mode where the server, and the AI features,
+      never see what they wrote unless they allow it for an entry
+
+  3. Notes
+    - Mood, tags, dates, photos and affirmations stay readable so streaks,
+      badges, charts and reminders keep working
+    - Rotating the key re-encrypts entries in the browser. Until that finishes
+      previous_wrapped_key holds the old key, wrapped with the new one, and
+      reencrypt_pending stays set
+*/
+
+CREATE TABLE IF NOT EXISTS public.journal_keys (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    key_version INT NOT NULL DEFAULT 1 CHECK (key_version > 0),
+    kdf_salt TEXT NOT NULL,
+    kdf_iterations INT NOT NULL CHECK (kdf_iterations >= 100000),
+    wrapped_key TEXT NOT NULL,
+    recovery_salt TEXT NOT NULL,
+    recovery_wrapped_key TEXT NOT NULL,
+    previous_wrapped_key TEXT,
+    reencrypt_pending BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.journal_keys.previous_wrapped_key IS
+'The key before the last rotation, wrapped with the current key, kept until every entry has been re-encrypted.';
+
+ALTER TABLE public.journal_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own journal key"
+ON public.journal_keys FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own journal key"
+ON public.journal_keys FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own journal key"
+ON public.journal_keys FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own journal key"
+ON public.journal_keys FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.journal_entries
+    ADD COLUMN IF NOT EXISTS is_encrypted BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS key_version INT,
+    ADD COLUMN IF NOT EXISTS search_opt_in BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS search_text TEXT,
+    ADD COLUMN IF NOT EXISTS ai_opt_in BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS word_count INT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.journal_entries
+    ADD CONSTRAINT journal_entries_key_version_check
+        CHECK (is_encrypted = (key_version IS NOT NULL)),
+    ADD CONSTRAINT journal_entries_search_text_check
+        CHECK (search_text IS NULL OR (is_encrypted AND search_opt_in));
+
+COMMENT ON COLUMN public.journal_entries.search_text IS
+'Plaintext title and content of an encrypted entry the user made searchable. NULL for every other entry.';
+
+COMMENT ON COLUMN public.journal_entries.ai_opt_in IS
+'Whether AI features may read this encrypted entry. Plaintext entries are always available to them.';
+
+UPDATE public.journal_entries
+SET word_count = COALESCE(array_length(regexp_split_to_array(NULLIF(btrim(content), ''), '\s+'), 1), 0);
+
+-- Encrypted entries bring their own count, since the server can't read them
+CREATE OR REPLACE FUNCTION public.set_journal_entry_word_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT NEW.is_encrypted THEN
+        NEW.word_count := COALESCE(array_length(regexp_split_to_array(NULLIF(btrim(NEW.content), ''), '\s+'), 1), 0);
+    END IF;
+    NEW.word_count := GREATEST(COALESCE(NEW.word_count, 0), 0);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_journal_entry_word_count ON public.journal_entries;
+CREATE TRIGGER set_journal_entry_word_count
+    BEFORE INSERT OR UPDATE ON public.journal_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_journal_entry_word_count();
+
+-- Ciphertext is not worth indexing; encrypted entries are found by search_text
+DROP INDEX IF EXISTS public.journal_entries_search_vector_idx;
+ALTER TABLE public.journal_entries DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE public.journal_entries
+    ADD COLUMN search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        CASE
+            WHEN is_encrypted THEN setweight(to_tsvector('english', COALESCE(search_text, '')), 'B')
+            ELSE setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+                 setweight(to_tsvector('english', COALESCE(content, '')), 'B')
+        END ||
+        setweight(to_tsvector('english', COALESCE(affirmation_text, '')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS journal_entries_search_vector_idx
+    ON public.journal_entries USING GIN (search_vector);
+
+-- The result columns change, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.search_journal_entries(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_journal_entries(
+    p_query TEXT DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL,
+    p_moods TEXT[] DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    content TEXT,
+    mood TEXT,
+    photo_url TEXT,
+    photo_filename TEXT,
+    affirmation_text TEXT,
+    affirmation_audio_url TEXT,
+    affirmation_source TEXT,
+    tags TEXT[],
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    is_encrypted BOOLEAN,
+    key_version INT,
+    search_opt_in BOOLEAN,
+    ai_opt_in BOOLEAN,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    v_query TSQUERY;
+    v_options TEXT := 'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+        ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Turn "morning wal" into 'morning':* & 'wal':*
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+    INTO v_query
+    FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+
+    -- A query made only of stop words ("the", "and") filters nothing
+    IF v_query IS NOT NULL AND numnode(v_query) = 0 THEN
+        v_query := NULL;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        je.id,
+        je.title,
+        je.content,
+        je.mood,
+        je.photo_url,
+        je.photo_filename,
+        je.affirmation_text,
+        je.affirmation_audio_url,
+        je.affirmation_source,
+        COALESCE((
+            SELECT array_agg(tg.name ORDER BY tg.name)
+            FROM public.journal_entry_tags jet
+            JOIN public.tags tg ON tg.id = jet.tag_id
+            WHERE jet.entry_id = je.id
+        ), ARRAY[]::TEXT[]) AS tags,
+        je.created_at,
+        je.updated_at,
+        je.is_encrypted,
+        je.key_version,
+        je.search_opt_in,
+        je.ai_opt_in,
+        CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank_cd(je.search_vector, v_query) END AS rank,
+        -- Encrypted titles and snippets are left to the browser, which can decrypt them
+        CASE
+            WHEN je.is_encrypted THEN NULL
+            WHEN v_query IS NULL OR je.title IS NULL THEN je.title
+            ELSE ts_headline('english', je.title, v_query, v_options || ', HighlightAll=true')
+        END AS title_highlight,
+        CASE
+            WHEN je.is_encrypted THEN
+                CASE WHEN v_query IS NULL OR je.search_text IS NULL THEN NULL
+                ELSE ts_headline('english', je.search_text, v_query, v_options) END
+            WHEN v_query IS NULL THEN left(je.content, 200)
+            ELSE ts_headline('english', je.content, v_query, v_options)
+        END AS snippet
+    FROM public.journal_entries je
+    WHERE je.user_id = auth.uid()
+      AND (v_query IS NULL OR je.search_vector @@ v_query)
+      AND (p_start_date IS NULL OR je.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR je.created_at < p_end_date)
+      AND (p_moods IS NULL OR cardinality(p_moods) = 0 OR je.mood = ANY (p_moods))
+      AND (
+          p_tags IS NULL OR cardinality(p_tags) = 0 OR (
+              SELECT count(DISTINCT lower(tg.name))
+              FROM public.journal_entry_tags jet
+              JOIN public.tags tg ON tg.id = jet.tag_id
+              WHERE jet.entry_id = je.id
+                AND lower(tg.name) = ANY (SELECT lower(t) FROM unnest(p_tags) AS t)
+          ) = (SELECT count(DISTINCT lower(t)) FROM unnest(p_tags) AS t)
+      )
+    ORDER BY rank DESC, je.created_at DESC, je.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.search_journal_entries(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], INTEGER) TO authenticated;
+
+-- Unchanged from 20250705140922_silver_compass apart from reading word_count
+CREATE OR REPLACE FUNCTION public.get_journal_analytics(
+    p_days INTEGER DEFAULT 30,
+    p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_days INTEGER := LEAST(GREATEST(COALESCE(p_days, 30), 1), 366);
+    v_timezone TEXT := p_timezone;
+    v_bucket TEXT;
+    v_today DATE;
+    v_range_start DATE;
+    v_heatmap_start DATE;
+    v_result JSONB;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Fall back to UTC rather than failing on an unknown zone name
+    IF v_timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+        v_timezone := 'UTC';
+    END IF;
+
+    -- Long ranges are trended by week so the chart stays readable
+    v_bucket := CASE WHEN v_days > 90 THEN 'week' ELSE 'day' END;
+    v_today := (now() AT TIME ZONE v_timezone)::DATE;
+    v_range_start := v_today - (v_days - 1);
+    v_heatmap_start := v_today - 364;
+
+    WITH entries AS (
+        SELECT
+            je.created_at AT TIME ZONE v_timezone AS local_time,
+            public.journal_mood_score(je.mood) AS score,
+            je.word_count AS words,
+            je.photo_url IS NOT NULL AS has_photo,
+            je.affirmation_text IS NOT NULL AND btrim(je.affirmation_text) <> '' AS has_affirmation
+        FROM public.journal_entries je
+        WHERE je.user_id = v_user_id
+          AND je.created_at >= LEAST(v_range_start, v_heatmap_start)::TIMESTAMP AT TIME ZONE v_timezone
+    ),
+    in_range AS (
+        SELECT * FROM entries
+        WHERE local_time::DATE >= v_range_start
+    )
+    SELECT jsonb_build_object(
+        'range_days', v_days,
+        'timezone', v_timezone,
+        'bucket', v_bucket,
+        'summary', (
+            SELECT jsonb_build_object(
+                'entries', count(*),
+                'average_mood', round(avg(score), 2),
+                'total_words', COALESCE(sum(words), 0),
+                'average_words', COALESCE(round(avg(words)), 0),
+                'active_days', count(DISTINCT local_time::DATE)
+            )
+            FROM in_range
+        ),
+        'trend', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'date', bucket_start,
+                'average_mood', average_mood,
+                'entries', entries,
+                'words', words
+            ) ORDER BY bucket_start)
+            FROM (
+                SELECT
+                    date_trunc(v_bucket, local_time)::DATE AS bucket_start,
+                    round(avg(score), 2) AS average_mood,
+                    count(*) AS entries,
+                    sum(words) AS words
+                FROM in_range
+                GROUP BY 1
+            ) buckets
+        ), '[]'::JSONB),
+        'by_weekday', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'weekday', weekday,
+                'average_mood', average_mood,
+                'entries', entries
+            ) ORDER BY weekday)
+            FROM (
+                SELECT
+                    EXTRACT(DOW FROM local_time)::INTEGER AS weekday,
+                    round(avg(score), 2) AS average_mood,
+                    count(*) AS entries
+                FROM in_range
+                GROUP BY 1
+            ) weekdays
+        ), '[]'::JSONB),
+        'by_hour', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'hour', hour,
+                'average_mood', average_mood,
+                'entries', entries
+            ) ORDER BY hour)
+            FROM (
+                SELECT
+                    EXTRACT(HOUR FROM local_time)::INTEGER AS hour,
+                    round(avg(score), 2) AS average_mood,
+                    count(*) AS entries
+                FROM in_range
+                GROUP BY 1
+            ) hours
+        ), '[]'::JSONB),
+        -- Always a full year, whatever the selected range, for the streak calendar
+        'heatmap', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'date', day,
+                'entries', entries
+            ) ORDER BY day)
+            FROM (
+                SELECT local_time::DATE AS day, count(*) AS entries
+                FROM entries
+                WHERE local_time::DATE >= v_heatmap_start
+                GROUP BY 1
+            ) days
+        ), '[]'::JSONB),
+        'correlations', (
+            SELECT jsonb_build_object(
+                'with_photo', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE has_photo), 2),
+                    'entries', count(*) FILTER (WHERE has_photo)
+                ),
+                'without_photo', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE NOT has_photo), 2),
+                    'entries', count(*) FILTER (WHERE NOT has_photo)
+                ),
+                'with_affirmation', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE has_affirmation), 2),
+                    'entries', count(*) FILTER (WHERE has_affirmation)
+                ),
+                'without_affirmation', jsonb_build_object(
+                    'average_mood', round(avg(score) FILTER (WHERE NOT has_affirmation), 2),
+                    'entries', count(*) FILTER (WHERE NOT has_affirmation)
+                )
+            )
+            FROM in_range
+        )
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+-- Unchanged from 20250707081522_golden_orbit apart from reading word_count
+/*
+  The last p_weeks weeks up to and including the current one, oldest first.
+  Weeks without entries are included as missed. frozen marks weeks a streak
+  freeze covered. Not SECURITY DEFINER: called directly, row level security
+  limits it to the caller's own entries.
+*/
+CREATE OR REPLACE FUNCTION public.user_goal_weeks(
+    p_user_id UUID,
+    p_weeks INT,
+    p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+    week_start DATE,
+    days_journaled INT,
+    entries INT,
+    words INT,
+    average_mood NUMERIC,
+    top_mood TEXT,
+    goal INT,
+    met BOOLEAN,
+    frozen BOOLEAN
+) AS $$
+DECLARE
+    v_timezone TEXT := public.user_timezone(p_user_id);
+    v_goal INT := public.user_weekly_goal(p_user_id);
+    v_this_week DATE := public.streak_period_start((p_now AT TIME ZONE v_timezone)::DATE, 'week');
+    v_first_week DATE := v_this_week - (GREATEST(p_weeks, 1) - 1) * 7;
+BEGIN
+    RETURN QUERY
+    WITH local_entries AS (
+        SELECT (je.created_at AT TIME ZONE v_timezone)::DATE AS entry_date, je.mood, je.word_count
+        FROM public.journal_entries je
+        WHERE je.user_id = p_user_id
+          AND je.created_at >= v_first_week::TIMESTAMP AT TIME ZONE v_timezone
+          AND je.created_at < (v_this_week + 7)::TIMESTAMP AT TIME ZONE v_timezone
+    ), by_week AS (
+        SELECT
+            public.streak_period_start(le.entry_date, 'week') AS wk,
+            COUNT(DISTINCT le.entry_date)::INT AS day_count,
+            COUNT(*)::INT AS entry_count,
+            COALESCE(SUM(le.word_count), 0)::INT AS word_count,
+            ROUND(AVG(public.journal_mood_score(le.mood)), 2) AS mood_score,
+            mode() WITHIN GROUP (ORDER BY le.mood) AS common_mood
+        FROM local_entries le
+        GROUP BY 1
+    )
+    SELECT
+        w.wk,
+        COALESCE(b.day_count, 0),
+        COALESCE(b.entry_count, 0),
+        COALESCE(b.word_count, 0),
+        b.mood_score,
+        b.common_mood,
+        v_goal,
+        COALESCE(b.day_count, 0) >= v_goal,
+        EXISTS (
+            SELECT 1 FROM public.streak_freezes f
+            WHERE f.user_id = p_user_id AND f.used_period = 'week' AND f.used_on = w.wk
+        )
+    FROM (
+        SELECT v_first_week + n * 7 AS wk
+        FROM generate_series(0, GREATEST(p_weeks, 1) - 1) AS n
+    ) w
+    LEFT JOIN by_week b ON b.wk = w.wk
+    ORDER BY w.wk;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Unchanged from 20250707081522_golden_orbit apart from reading word_count
+/*
+  Measure one badge metric for a user. Times are taken in the user's timezone.
+  p_now is only there so tests can fix the clock.
+*/
+CREATE OR REPLACE FUNCTION public.evaluate_badge_metric(
+    p_user_id UUID,
+    p_metric TEXT,
+    p_params JSONB DEFAULT '{}'::jsonb,
+    p_window_days INT DEFAULT NULL,
+    p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS INT AS $$
+DECLARE
+    v_timezone TEXT := public.user_timezone(p_user_id);
+    v_since TIMESTAMPTZ;
+    v_value BIGINT;
+BEGIN
+    IF p_metric IN ('current_streak', 'best_streak') THEN
+        SELECT CASE p_metric WHEN 'current_streak' THEN s.current_streak ELSE s.best_streak END
+        INTO v_value
+        FROM public.calculate_user_streaks(p_user_id, p_now) s;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    -- Consecutive weeks that reached the goal
+    IF p_metric = 'goal_week_streak' THEN
+        SELECT s.current_streak
+        INTO v_value
+        FROM public.calculate_period_streaks(p_user_id, 'week', public.user_weekly_goal(p_user_id), p_now) s;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    IF p_metric = 'premium' THEN
+        SELECT CASE WHEN subscription_status = 'premium' THEN 1 ELSE 0 END
+        INTO v_value
+        FROM public.profiles
+        WHERE user_id = p_user_id;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    -- Windows start at local midnight, N - 1 days before today
+    IF p_window_days IS NOT NULL THEN
+        v_since := (((p_now AT TIME ZONE v_timezone)::DATE - (p_window_days - 1))::TIMESTAMP) AT TIME ZONE v_timezone;
+    END IF;
+
+    -- Weeks, any time or within the window, that reached the goal
+    IF p_metric = 'goal_weeks_met' THEN
+        SELECT COUNT(*)
+        INTO v_value
+        FROM (
+            SELECT 1
+            FROM public.journal_entries je
+            WHERE je.user_id = p_user_id
+              AND (v_since IS NULL OR je.created_at >= v_since)
+            GROUP BY public.streak_period_start((je.created_at AT TIME ZONE v_timezone)::DATE, 'week')
+            HAVING COUNT(DISTINCT (je.created_at AT TIME ZONE v_timezone)::DATE) >= public.user_weekly_goal(p_user_id)
+        ) met_weeks;
+        RETURN COALESCE(v_value, 0);
+    END IF;
+
+    SELECT CASE p_metric
+        WHEN 'entries' THEN COUNT(*)
+        WHEN 'active_days' THEN COUNT(DISTINCT (je.created_at AT TIME ZONE v_timezone)::DATE)
+        WHEN 'distinct_moods' THEN COUNT(DISTINCT je.mood)
+        WHEN 'words_written' THEN COALESCE(SUM(je.word_count), 0)
+        WHEN 'entries_with_photo' THEN COUNT(*) FILTER (WHERE je.photo_url IS NOT NULL)
+        WHEN 'entries_with_affirmation' THEN COUNT(*) FILTER (WHERE je.affirmation_text IS NOT NULL)
+        WHEN 'entries_with_tags' THEN COUNT(*) FILTER (
+            WHERE EXISTS (SELECT 1 FROM public.journal_entry_tags jet WHERE jet.entry_id = je.id)
+        )
+        WHEN 'entries_with_mood' THEN COUNT(*) FILTER (WHERE je.mood = p_params->>'mood')
+        WHEN 'entries_before_hour' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(HOUR FROM je.created_at AT TIME ZONE v_timezone) < (p_params->>'hour')::INT
+        )
+        WHEN 'entries_after_hour' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(HOUR FROM je.created_at AT TIME ZONE v_timezone) >= (p_params->>'hour')::INT
+        )
+        WHEN 'weekend_entries' THEN COUNT(*) FILTER (
+            WHERE EXTRACT(ISODOW FROM je.created_at AT TIME ZONE v_timezone) IN (6, 7)
+        )
+    END
+    INTO v_value
+    FROM public.journal_entries je
+    WHERE je.user_id = p_user_id
+      AND (v_since IS NULL OR je.created_at >= v_since);
+
+    IF v_value IS NULL THEN
+        RAISE WARNING 'Unknown badge metric: %', p_metric;
+        RETURN 0;
+    END IF;
+
+    RETURN LEAST(v_value, 2147483647)::INT;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
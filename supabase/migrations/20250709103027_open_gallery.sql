@@ -0,0 +1,247 @@
+/*
+  # Several photos per journal entry
+
+  1. Changes
+    - Adds entry_attachments: the files attached to an entry, in gallery order
+      and with an optional caption. Files live in the journal-photos bucket
+      under the owner's folder, like entry photos always have.
+    - Copies every existing entry photo into entry_attachments
+    - journal_entries.photo_url and photo_filename now mirror the first
+      attachment, so stats, badges, search and exports keep working. Setting
+      photo_url directly, as new entries, offline sync and imports do, adds or
+      replaces that attachment.
+    - Adds reorder_entry_attachments to save a new gallery order in one call
+    - Adds storage_deletions, a queue of storage objects to remove. Deleting an
+      attachment, or the entry or account it belongs to, queues its file, and
+      the cleanup-storage edge function empties the queue
+
+  2. Reason
+    - An entry could only hold one photo
+
+  3. Notes
+    - Storage objects can only be deleted through the Storage API, which is
+      why the delete triggers queue files instead of removing them
+    - An entry holds at most 10 attachments
+*/
+
+-- Path of a journal photo within its bucket; older rows stored the full URL
+CREATE OR REPLACE FUNCTION public.journal_photo_path(p_url TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_url IS NULL OR btrim(p_url) = '' THEN NULL
+        WHEN p_url LIKE 'http%' AND position('/journal-photos/' IN p_url) > 0
+            THEN split_part(substring(p_url FROM position('/journal-photos/' IN p_url) + length('/journal-photos/')), '?', 1)
+        ELSE ltrim(p_url, '/')
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS public.entry_attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id UUID NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    -- Path within the journal-photos bucket
+    storage_path TEXT NOT NULL,
+    file_name TEXT,
+    mime_type TEXT,
+    size_bytes INT CHECK (size_bytes >= 0),
+    width INT CHECK (width > 0),
+    height INT CHECK (height > 0),
+    caption TEXT CHECK (char_length(caption) <= 500),
+    position INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (entry_id, storage_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_attachments_entry_position
+    ON public.entry_attachments (entry_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_entry_attachments_user
+    ON public.entry_attachments (user_id);
+
+ALTER TABLE public.entry_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own attachments"
+ON public.entry_attachments FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can attach files to their own entries"
+ON public.entry_attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = user_id
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND EXISTS (
+        SELECT 1 FROM public.journal_entries je
+        WHERE je.id = entry_id AND je.user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Users can update their own attachments"
+ON public.entry_attachments FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own attachments"
+ON public.entry_attachments FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Written by triggers and emptied by the cleanup-storage edge function with the service role only
+CREATE TABLE IF NOT EXISTS public.storage_deletions (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    bucket_id TEXT NOT NULL,
+    object_path TEXT NOT NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT,
+    queued_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.storage_deletions ENABLE ROW LEVEL SECURITY;
+
+-- Copy the existing photos before the triggers below start mirroring them
+UPDATE public.journal_entries
+SET photo_url = public.journal_photo_path(photo_url)
+WHERE photo_url IS DISTINCT FROM public.journal_photo_path(photo_url);
+
+INSERT INTO public.entry_attachments (entry_id, user_id, storage_path, file_name, position, created_at, updated_at)
+SELECT je.id, je.user_id, je.photo_url, je.photo_filename, 0, je.created_at, je.updated_at
+FROM public.journal_entries je
+WHERE je.photo_url IS NOT NULL
+  AND split_part(je.photo_url, '/', 1) = je.user_id::text
+ON CONFLICT (entry_id, storage_path) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.prepare_entry_attachment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF (SELECT count(*) FROM public.entry_attachments WHERE entry_id = NEW.entry_id) >= 10 THEN
+            RAISE EXCEPTION 'An entry can hold at most 10 attachments' USING ERRCODE = '23514';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    -- Only the caption and position of an attachment can change
+    IF NEW.entry_id <> OLD.entry_id OR NEW.user_id <> OLD.user_id OR NEW.storage_path <> OLD.storage_path THEN
+        RAISE EXCEPTION 'An attachment cannot be moved to another file or entry' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_entry_attachment ON public.entry_attachments;
+CREATE TRIGGER prepare_entry_attachment
+    BEFORE INSERT OR UPDATE ON public.entry_attachments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prepare_entry_attachment();
+
+-- Keep photo_url pointing at the first attachment
+CREATE OR REPLACE FUNCTION public.sync_entry_cover_photo()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_entry_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.entry_id ELSE NEW.entry_id END;
+    v_path TEXT;
+    v_file_name TEXT;
+BEGIN
+    SELECT storage_path, file_name INTO v_path, v_file_name
+    FROM public.entry_attachments
+    WHERE entry_id = v_entry_id
+    ORDER BY position, created_at, id
+    LIMIT 1;
+
+    UPDATE public.journal_entries
+    SET photo_url = v_path,
+        photo_filename = v_file_name
+    WHERE id = v_entry_id
+      AND (photo_url IS DISTINCT FROM v_path OR photo_filename IS DISTINCT FROM v_file_name);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_entry_cover_photo ON public.entry_attachments;
+CREATE TRIGGER sync_entry_cover_photo
+    AFTER INSERT OR DELETE OR UPDATE OF position ON public.entry_attachments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_entry_cover_photo();
+
+-- A photo set through photo_url becomes the first attachment and replaces the one it took over from
+CREATE OR REPLACE FUNCTION public.sync_attachment_from_photo_url()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_old_path TEXT := CASE WHEN TG_OP = 'UPDATE' THEN public.journal_photo_path(OLD.photo_url) END;
+    v_new_path TEXT := public.journal_photo_path(NEW.photo_url);
+BEGIN
+    -- Updates made by sync_entry_cover_photo mirror attachments that already exist
+    IF pg_trigger_depth() > 1 OR v_old_path IS NOT DISTINCT FROM v_new_path THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_old_path IS NOT NULL THEN
+        DELETE FROM public.entry_attachments
+        WHERE entry_id = NEW.id AND storage_path = v_old_path;
+    END IF;
+
+    IF v_new_path IS NOT NULL
+       AND split_part(v_new_path, '/', 1) = NEW.user_id::text
+       AND NOT EXISTS (
+           SELECT 1 FROM public.entry_attachments
+           WHERE entry_id = NEW.id AND storage_path = v_new_path
+       ) THEN
+        UPDATE public.entry_attachments SET position = position + 1 WHERE entry_id = NEW.id;
+
+        INSERT INTO public.entry_attachments (entry_id, user_id, storage_path, file_name, position)
+        VALUES (NEW.id, NEW.user_id, v_new_path, NEW.photo_filename, 0);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_attachment_from_photo_url ON public.journal_entries;
+CREATE TRIGGER sync_attachment_from_photo_url
+    AFTER INSERT OR UPDATE OF photo_url ON public.journal_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_attachment_from_photo_url();
+
+-- Queue the file of a removed attachment unless another attachment still uses it
+CREATE OR REPLACE FUNCTION public.queue_attachment_file_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF split_part(OLD.storage_path, '/', 1) = OLD.user_id::text
+       AND NOT EXISTS (
+           SELECT 1 FROM public.entry_attachments WHERE storage_path = OLD.storage_path
+       ) THEN
+        INSERT INTO public.storage_deletions (bucket_id, object_path)
+        VALUES ('journal-photos', OLD.storage_path);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_attachment_file_deletion ON public.entry_attachments;
+CREATE TRIGGER queue_attachment_file_deletion
+    AFTER DELETE ON public.entry_attachments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.queue_attachment_file_deletion();
+
+/*
+  Save the gallery order of an entry. p_attachment_ids lists the entry's
+  attachments in their new order; ids of other entries are ignored.
+*/
+CREATE OR REPLACE FUNCTION public.reorder_entry_attachments(p_entry_id UUID, p_attachment_ids UUID[])
+RETURNS VOID AS $$
+    UPDATE public.entry_attachments ea
+    SET position = ordered.ordinality::INT - 1
+    FROM unnest(p_attachment_ids) WITH ORDINALITY AS ordered(id, ordinality)
+    WHERE ea.id = ordered.id
+      AND ea.entry_id = p_entry_id
+      AND ea.position IS DISTINCT FROM ordered.ordinality::INT - 1;
+$$ LANGUAGE sql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.reorder_entry_attachments(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,95 @@
+/*
+  # Voice notes for journal entries
+
+  1. Changes
+    - Adds the private journal-audio bucket for voice notes recorded while
+      writing an entry, with the same owner-only policies as the other buckets
+    - Adds journal_entries.voice_audio_url (path of the clip within
+      journal-audio) and voice_duration_seconds
+    - Queues the clip in storage_deletions when its entry is deleted or the
+      entry gets a different clip
+
+  2. Reason
+    - Entries can be spoken: the clip is transcribed by the transcribe-entry
+      edge function, the user edits the transcript, and the original recording
+      can be played back from history
+
+  3. Notes
+    - Clips live under the owner's folder, like journal photos
+    - Recordings are capped at 5 minutes by the app
+*/
+
+INSERT INTO storage.buckets (id, name, public, avif_autodetection)
+VALUES ('journal-audio', 'Journal Audio', false, false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own voice notes"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'journal-audio' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can update their own voice notes"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'journal-audio' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can read their own voice notes"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'journal-audio' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own voice notes"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'journal-audio' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+ALTER TABLE public.journal_entries
+    ADD COLUMN IF NOT EXISTS voice_audio_url TEXT,
+    ADD COLUMN IF NOT EXISTS voice_duration_seconds INT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'journal_entries_voice_duration_check'
+    ) THEN
+        ALTER TABLE public.journal_entries
+            ADD CONSTRAINT journal_entries_voice_duration_check
+            CHECK (voice_duration_seconds IS NULL OR voice_duration_seconds BETWEEN 0 AND 600);
+    END IF;
+END $$;
+
+-- Queue a voice note for removal once no entry points at it any more
+CREATE OR REPLACE FUNCTION public.queue_voice_note_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.voice_audio_url IS NULL
+       OR (TG_OP = 'UPDATE' AND NEW.voice_audio_url IS NOT DISTINCT FROM OLD.voice_audio_url) THEN
+        RETURN NULL;
+    END IF;
+
+    IF split_part(OLD.voice_audio_url, '/', 1) = OLD.user_id::text THEN
+        INSERT INTO public.storage_deletions (bucket_id, object_path)
+        VALUES ('journal-audio', OLD.voice_audio_url);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_voice_note_deletion ON public.journal_entries;
+CREATE TRIGGER queue_voice_note_deletion
+    AFTER DELETE OR UPDATE OF voice_audio_url ON public.journal_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.queue_voice_note_deletion();
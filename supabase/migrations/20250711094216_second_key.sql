@@ -0,0 +1,95 @@
+/*
+  # Two-factor sign-in
+
+  1. Changes
+    - Adds mfa_recovery_codes: SHA-256 hashes of the one-time codes that let
+      someone who lost their authenticator back in. Only the
+      mfa-recovery-codes edge function reads or writes it
+    - Adds public.mfa_satisfied(), true when the session has passed the second
+      factor or the account has no verified factor
+    - Adds restrictive policies so journal entries, their photos, voice notes,
+      tags, attachments and the private journal key are only reachable once
+      mfa_satisfied() holds
+
+  2. Reason
+    - Enrolling an authenticator only protects the journal if a stolen
+      password alone (an aal1 session) can't read it through the API
+
+  3. Notes
+    - Restrictive policies are ANDed with the existing owner policies, which
+      stay as they are
+    - search_journal_entries and get_journal_analytics run as the caller, so
+      the same policies apply to them
+    - Factors live in auth.mfa_factors and are managed with Supabase's MFA API
+*/
+
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, code_hash)
+);
+
+COMMENT ON TABLE public.mfa_recovery_codes IS
+'One-time codes that remove a user''s second factor. Service role only: there are deliberately no policies.';
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+        OR NOT EXISTS (
+            SELECT 1
+            FROM auth.mfa_factors
+            WHERE user_id = auth.uid()
+              AND status = 'verified'
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+COMMENT ON FUNCTION public.mfa_satisfied() IS
+'Whether the caller has completed the second factor, or has none to complete.';
+
+REVOKE EXECUTE ON FUNCTION public.mfa_satisfied() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mfa_satisfied() TO authenticated;
+
+CREATE POLICY "Journal entries require a completed second factor"
+ON public.journal_entries AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Entry attachments require a completed second factor"
+ON public.entry_attachments AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Tags require a completed second factor"
+ON public.tags AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Entry tags require a completed second factor"
+ON public.journal_entry_tags AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Journal keys require a completed second factor"
+ON public.journal_keys AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Journal media requires a completed second factor"
+ON storage.objects AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (
+  bucket_id NOT IN ('journal-photos', 'journal-audio') OR public.mfa_satisfied()
+)
+WITH CHECK (
+  bucket_id NOT IN ('journal-photos', 'journal-audio') OR public.mfa_satisfied()
+);
@@ -0,0 +1,174 @@
+/*
+  # Idempotent Stripe webhook processing
+
+  1. Changes
+    - stripe_webhooks becomes the processing log keyed on the Stripe event id:
+      status (processing, processed, failed, dead_letter), attempts,
+      last_error, next_attempt_at and processed_at
+    - Adds claim_stripe_webhook(), which records an event and reports whether
+      this delivery should process it, and finish_stripe_webhook(), which marks
+      it processed or schedules a retry with exponential backoff until it is
+      dead-lettered
+    - Adds record_stripe_order(), which records a one-time purchase and grants
+      its streak freezes in one transaction
+    - Drops process_stripe_webhook, handle_stripe_subscription_updated and
+      handle_stripe_checkout_completed, which nothing called and which wrote
+      to columns that don't exist
+
+  2. Reason
+    - The stripe-webhook edge function processed events in the background and
+      acknowledged every delivery, so a failed sync was lost and a redelivered
+      event was processed twice
+
+  3. Notes
+    - Service role only: all three functions are called by stripe-webhook
+    - Existing log rows are marked processed
+    - A failed event is retried by Stripe's own redelivery and by the
+      function's scheduled retry run; after the last attempt it stays in the
+      table as a dead letter until it is requeued by hand
+    - An event left processing past its lease, because the function crashed
+      before finishing it, is picked up by the retry run too, and is
+      dead-lettered if that was its last attempt
+*/
+
+ALTER TABLE public.stripe_webhooks
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'processed'
+        CHECK (status IN ('processing', 'processed', 'failed', 'dead_letter')),
+    ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_error TEXT,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS stripe_webhooks_due_retries_idx
+    ON public.stripe_webhooks (next_attempt_at)
+    WHERE status = 'failed';
+
+CREATE INDEX IF NOT EXISTS stripe_webhooks_stale_processing_idx
+    ON public.stripe_webhooks (updated_at)
+    WHERE status = 'processing';
+
+DROP FUNCTION IF EXISTS public.process_stripe_webhook(TEXT, TEXT, JSONB);
+DROP FUNCTION IF EXISTS public.handle_stripe_subscription_updated(JSONB);
+DROP FUNCTION IF EXISTS public.handle_stripe_checkout_completed(JSONB);
+
+-- True when the caller should process the event: it is new, failed before,
+-- or was left processing by a delivery that never finished
+CREATE OR REPLACE FUNCTION public.claim_stripe_webhook(
+    p_event_id TEXT,
+    p_event_type TEXT,
+    p_data JSONB,
+    p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes',
+    p_max_attempts INT DEFAULT 8
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    -- A delivery that never finished its last attempt leaves nothing to retry
+    UPDATE public.stripe_webhooks
+    SET status = 'dead_letter',
+        last_error = 'Processing did not finish',
+        next_attempt_at = NULL,
+        updated_at = NOW()
+    WHERE event_id = p_event_id
+      AND status = 'processing'
+      AND updated_at < NOW() - p_stale_after
+      AND attempts >= p_max_attempts;
+
+    INSERT INTO public.stripe_webhooks (event_id, event_type, data, status, attempts, updated_at)
+    VALUES (p_event_id, p_event_type, p_data, 'processing', 1, NOW())
+    ON CONFLICT (event_id) DO UPDATE
+        SET status = 'processing',
+            attempts = stripe_webhooks.attempts + 1,
+            next_attempt_at = NULL,
+            updated_at = NOW()
+        WHERE stripe_webhooks.status = 'failed'
+           OR (stripe_webhooks.status = 'processing' AND stripe_webhooks.updated_at < NOW() - p_stale_after);
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Mark a claimed event processed, or failed with the next retry 2, 4, 8...
+-- minutes out; returns the new status
+CREATE OR REPLACE FUNCTION public.finish_stripe_webhook(
+    p_event_id TEXT,
+    p_error TEXT DEFAULT NULL,
+    p_max_attempts INT DEFAULT 8
+)
+RETURNS TEXT AS $$
+    UPDATE public.stripe_webhooks
+    SET status = CASE
+            WHEN p_error IS NULL THEN 'processed'
+            WHEN attempts >= p_max_attempts THEN 'dead_letter'
+            ELSE 'failed'
+        END,
+        last_error = p_error,
+        processed_at = CASE WHEN p_error IS NULL THEN NOW() END,
+        next_attempt_at = CASE
+            WHEN p_error IS NOT NULL AND attempts < p_max_attempts
+                THEN NOW() + make_interval(mins => power(2, attempts)::INT)
+        END,
+        updated_at = NOW()
+    WHERE event_id = p_event_id
+    RETURNING status;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Record a paid one-time checkout; false when it was already recorded, in
+-- which case its freezes were granted then
+CREATE OR REPLACE FUNCTION public.record_stripe_order(
+    p_checkout_session_id TEXT,
+    p_payment_intent_id TEXT,
+    p_customer_id TEXT,
+    p_amount_subtotal INT,
+    p_amount_total INT,
+    p_currency TEXT,
+    p_payment_status TEXT,
+    p_user_id UUID DEFAULT NULL,
+    p_streak_freezes INT DEFAULT 0
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    INSERT INTO public.stripe_orders (
+        checkout_session_id,
+        payment_intent_id,
+        customer_id,
+        amount_subtotal,
+        amount_total,
+        currency,
+        payment_status,
+        status
+    ) VALUES (
+        p_checkout_session_id,
+        p_payment_intent_id,
+        p_customer_id,
+        p_amount_subtotal,
+        p_amount_total,
+        p_currency,
+        p_payment_status,
+        'completed'
+    )
+    ON CONFLICT (checkout_session_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_streak_freezes > 0 THEN
+        IF p_user_id IS NULL THEN
+            RAISE EXCEPTION 'No user to grant streak freezes to for checkout session %', p_checkout_session_id
+                USING ERRCODE = '22023';
+        END IF;
+        PERFORM public.grant_streak_freezes(p_user_id, p_streak_freezes);
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_stripe_webhook(TEXT, TEXT, JSONB, INTERVAL, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_stripe_webhook(TEXT, TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_stripe_order(TEXT, TEXT, TEXT, INT, INT, TEXT, TEXT, UUID, INT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.claim_stripe_webhook(TEXT, TEXT, JSONB, INTERVAL, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_stripe_webhook(TEXT, TEXT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_stripe_order(TEXT, TEXT, TEXT, INT, INT, TEXT, TEXT, UUID, INT) TO service_role;
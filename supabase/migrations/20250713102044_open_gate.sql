@@ -0,0 +1,140 @@
+/*
+  # Subscription entitlements
+
+  1. Changes
+    - Adds entitlement_features, the catalog of gated features and the plans
+      that unlock each one
+    - Adds get_user_entitlements(), which works out a user's plan (free, trial
+      or premium) from their profile and returns it with a flag for every
+      feature, and get_entitlements(), which returns the caller's own
+    - Subscription fields and created_at on profiles can no longer be changed
+      by the user; only the server writes them
+    - update_user_subscription is now service role only
+
+  2. Reason
+    - Premium state was worked out separately by the client, verify-subscription
+      and the webhook, and gated edge functions didn't check it at all
+
+  3. Notes
+    - A subscription counts for a day past subscription_expires_at, which
+      covers the gap between a renewal and its webhook
+    - The trial is the first 7 days after sign-up, as before
+    - premium_plus is premium billed yearly and unlocks the same features; the
+      entitlements report it as the tier, not as a separate plan
+*/
+
+CREATE TABLE IF NOT EXISTS public.entitlement_features (
+    feature TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    plans TEXT[] NOT NULL DEFAULT '{}'
+        CHECK (plans <@ ARRAY['free', 'trial', 'premium']::TEXT[])
+);
+
+ALTER TABLE public.entitlement_features ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view entitlement features" ON public.entitlement_features;
+CREATE POLICY "Anyone can view entitlement features"
+ON public.entitlement_features FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.entitlement_features (feature, description, plans)
+VALUES
+    ('affirmation-generator', 'Personal affirmations written by AI', ARRAY['trial', 'premium']),
+    ('mood-analyzer', 'AI mood analysis of entries', ARRAY['trial', 'premium']),
+    ('prompt-generator', 'AI reflection prompts', ARRAY['trial', 'premium']),
+    ('voice-synthesis', 'Spoken affirmations and Zeno''s voice', ARRAY['trial', 'premium']),
+    ('photo-upload', 'Photos on journal entries', ARRAY['trial', 'premium']),
+    ('full-history', 'Entries older than the free history window', ARRAY['trial', 'premium']),
+    ('journal-search', 'Searching past entries', ARRAY['trial', 'premium']),
+    ('advanced-analytics', 'Mood and writing analytics', ARRAY['trial', 'premium'])
+ON CONFLICT (feature) DO UPDATE
+    SET description = EXCLUDED.description,
+        plans = EXCLUDED.plans;
+
+/*
+  The user's plan and feature flags:
+  {
+    "plan": "free" | "trial" | "premium",
+    "tier": "free" | "premium" | "premium_plus",
+    "trial_ends_at": timestamptz or null,
+    "expires_at": timestamptz or null,
+    "features": { "<feature>": boolean, ... }
+  }
+*/
+CREATE OR REPLACE FUNCTION public.get_user_entitlements(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_profile RECORD;
+    v_plan TEXT := 'free';
+    v_trial_ends_at TIMESTAMPTZ;
+BEGIN
+    SELECT subscription_status, subscription_tier, subscription_expires_at, created_at
+    INTO v_profile
+    FROM public.profiles
+    WHERE user_id = p_user_id;
+
+    IF FOUND THEN
+        v_trial_ends_at := v_profile.created_at + INTERVAL '7 days';
+
+        IF v_profile.subscription_status = 'premium'
+           AND (v_profile.subscription_expires_at IS NULL OR v_profile.subscription_expires_at > NOW() - INTERVAL '1 day') THEN
+            v_plan := 'premium';
+        ELSIF v_trial_ends_at > NOW() THEN
+            v_plan := 'trial';
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'plan', v_plan,
+        'tier', CASE
+            WHEN v_plan <> 'premium' THEN 'free'
+            WHEN v_profile.subscription_tier = 'premium_plus' THEN 'premium_plus'
+            ELSE 'premium'
+        END,
+        'trial_ends_at', v_trial_ends_at,
+        'expires_at', CASE WHEN v_plan = 'premium' THEN v_profile.subscription_expires_at END,
+        'features', COALESCE(
+            (SELECT jsonb_object_agg(feature, v_plan = ANY(plans)) FROM public.entitlement_features),
+            '{}'::JSONB
+        )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_entitlements()
+RETURNS JSONB AS $$
+    SELECT public.get_user_entitlements(auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_user_entitlements(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_entitlements() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.update_user_subscription(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_user_entitlements(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_entitlements() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_user_subscription(UUID, TEXT, TEXT, TIMESTAMPTZ, TEXT) TO service_role;
+
+-- Users may edit their profile, but not what decides their entitlements.
+-- SECURITY DEFINER functions and the service role run as other roles and are not affected.
+CREATE OR REPLACE FUNCTION public.protect_profile_entitlements()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon')
+       AND (NEW.subscription_status IS DISTINCT FROM OLD.subscription_status
+            OR NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier
+            OR NEW.subscription_expires_at IS DISTINCT FROM OLD.subscription_expires_at
+            OR NEW.revenuecart_user_id IS DISTINCT FROM OLD.revenuecart_user_id
+            OR NEW.created_at IS DISTINCT FROM OLD.created_at) THEN
+        RAISE EXCEPTION 'Subscription fields can only be changed by the server' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_entitlements ON public.profiles;
+CREATE TRIGGER protect_profile_entitlements
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_entitlements();
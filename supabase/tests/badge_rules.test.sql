@@ -0,0 +1,84 @@
+-- Badges are earned from their rule rows, without badge-specific code.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000b1', 'badges@example.com', '{"name": "Badges", "timezone": "America/New_York"}', NOW());
+
+-- Comparators
+
+SELECT ok(public.badge_rule_met(5, '>=', 5), '>= is met at the target');
+SELECT ok(NOT public.badge_rule_met(5, '>', 5), '> needs more than the target');
+SELECT ok(public.badge_rule_met(3, '=', 3) AND NOT public.badge_rule_met(4, '=', 3), '= needs exactly the target');
+
+SELECT throws_ok(
+    $$INSERT INTO public.badges (id, badge_name, badge_description, badge_icon, badge_category, badge_rarity, progress_target, rule_metric)
+      VALUES ('bad-metric', 'Bad', 'Bad', '?', 'achievement', 'common', 1, 'sunsets_watched')$$,
+    '23514',
+    NULL,
+    'badges reject unknown metrics'
+);
+
+-- Five mornings in New York. 07:30 local is 11:30 or 12:30 UTC, so hours must be local.
+INSERT INTO public.journal_entries (user_id, content, mood, photo_url, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000b1', 'One two three', 'amazing', 'b1/one.jpg', '2025-06-02 07:30:00-04'),
+    ('00000000-0000-0000-0000-0000000000b1', 'Four five', 'amazing', NULL, '2025-06-03 07:30:00-04'),
+    ('00000000-0000-0000-0000-0000000000b1', 'Six', 'good', NULL, '2025-06-04 07:30:00-04'),
+    ('00000000-0000-0000-0000-0000000000b1', 'Seven', 'good', NULL, '2025-06-05 07:30:00-04'),
+    ('00000000-0000-0000-0000-0000000000b1', 'Eight', 'low', NULL, '2025-06-06 07:30:00-04');
+
+SELECT is(
+    public.evaluate_badge_metric('00000000-0000-0000-0000-0000000000b1', 'entries_before_hour', '{"hour": 8}'),
+    5,
+    'entries before 8am are counted in local time'
+);
+
+SELECT is(
+    (SELECT earned FROM public.user_badges WHERE user_id = '00000000-0000-0000-0000-0000000000b1' AND badge_id = 'early-bird-5'),
+    TRUE,
+    'the early bird badge is earned from its rule row'
+);
+
+SELECT is(
+    public.evaluate_badge_metric('00000000-0000-0000-0000-0000000000b1', 'words_written'),
+    8,
+    'words are counted across entries'
+);
+
+SELECT is(
+    public.evaluate_badge_metric('00000000-0000-0000-0000-0000000000b1', 'active_days', '{}', 3, '2025-06-07 12:00:00-04'),
+    2,
+    'windows only count the last N local days'
+);
+
+SELECT is(
+    (SELECT progress_current FROM public.user_badges WHERE user_id = '00000000-0000-0000-0000-0000000000b1' AND badge_id = 'photo-journal-10'),
+    1,
+    'progress is stored for badges that are not earned yet'
+);
+
+-- A badge added later only needs a row
+INSERT INTO public.badges (id, badge_name, badge_description, badge_icon, badge_category, badge_rarity, progress_target, rule_metric, rule_params)
+VALUES ('test-amazing-2', 'Two Amazing Days', 'Feel amazing twice', '🤩', 'achievement', 'common', 2, 'entries_with_mood', '{"mood": "amazing"}');
+
+SELECT public.refresh_user_badge_progress('00000000-0000-0000-0000-0000000000b1');
+
+SELECT is(
+    (SELECT earned FROM public.user_badges WHERE user_id = '00000000-0000-0000-0000-0000000000b1' AND badge_id = 'test-amazing-2'),
+    TRUE,
+    'a new rule row is evaluated on the next refresh'
+);
+
+SELECT is(
+    (SELECT progress_unit FROM public.get_user_badge_progress('00000000-0000-0000-0000-0000000000b1') WHERE id = 'streak-7'),
+    'days',
+    'badge progress includes the unit to show'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
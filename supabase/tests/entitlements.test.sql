@@ -0,0 +1,90 @@
+-- Entitlements follow the subscription, and users can't grant themselves one.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000f1', 'yearly@example.com', '{"name": "Yearly", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000f2', 'lapsed@example.com', '{"name": "Lapsed", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000f3', 'new@example.com', '{"name": "New", "timezone": "UTC"}', NOW());
+
+UPDATE public.profiles
+SET subscription_status = 'premium', subscription_tier = 'premium_plus', subscription_expires_at = NOW() + INTERVAL '300 days',
+    created_at = NOW() - INTERVAL '60 days'
+WHERE user_id = '00000000-0000-0000-0000-0000000000f1';
+
+-- Still marked premium, but the subscription ended last week and no webhook said so
+UPDATE public.profiles
+SET subscription_status = 'premium', subscription_tier = 'premium', subscription_expires_at = NOW() - INTERVAL '7 days',
+    created_at = NOW() - INTERVAL '60 days'
+WHERE user_id = '00000000-0000-0000-0000-0000000000f2';
+
+SELECT is(
+    public.get_user_entitlements('00000000-0000-0000-0000-0000000000f1') ->> 'plan',
+    'premium',
+    'a yearly subscriber is on the premium plan'
+);
+
+SELECT is(
+    public.get_user_entitlements('00000000-0000-0000-0000-0000000000f1') ->> 'tier',
+    'premium_plus',
+    'the yearly tier is reported'
+);
+
+SELECT is(
+    (public.get_user_entitlements('00000000-0000-0000-0000-0000000000f1') -> 'features' ->> 'voice-synthesis')::BOOLEAN,
+    TRUE,
+    'premium unlocks gated features'
+);
+
+SELECT is(
+    public.get_user_entitlements('00000000-0000-0000-0000-0000000000f2') ->> 'plan',
+    'free',
+    'an expired subscription no longer counts'
+);
+
+SELECT is(
+    (public.get_user_entitlements('00000000-0000-0000-0000-0000000000f2') -> 'features' ->> 'mood-analyzer')::BOOLEAN,
+    FALSE,
+    'the free plan has gated features turned off'
+);
+
+SELECT is(
+    public.get_user_entitlements('00000000-0000-0000-0000-0000000000f3') ->> 'plan',
+    'trial',
+    'new accounts are on the trial'
+);
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f3", "role": "authenticated"}', true);
+
+SELECT is(
+    public.get_entitlements() ->> 'plan',
+    'trial',
+    'users can read their own entitlements'
+);
+
+SELECT throws_ok(
+    $$SELECT public.get_user_entitlements('00000000-0000-0000-0000-0000000000f1')$$,
+    '42501',
+    NULL,
+    'users cannot read anyone else''s entitlements'
+);
+
+SELECT throws_ok(
+    $$UPDATE public.profiles SET subscription_status = 'premium'
+      WHERE user_id = '00000000-0000-0000-0000-0000000000f3'$$,
+    '42501',
+    NULL,
+    'users cannot make themselves premium'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
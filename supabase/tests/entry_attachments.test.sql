@@ -0,0 +1,113 @@
+-- Attachments mirror into photo_url and queue their files for deletion.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000a1', 'gallery@example.com', '{"name": "Gallery", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000a2', 'other@example.com', '{"name": "Other", "timezone": "UTC"}', NOW());
+
+INSERT INTO public.journal_entries (id, user_id, content, mood, photo_url, photo_filename)
+VALUES ('00000000-0000-0000-0000-0000000002a1', '00000000-0000-0000-0000-0000000000a1',
+        'Beach day', 'good', '00000000-0000-0000-0000-0000000000a1/first.jpg', 'first.jpg');
+
+SELECT is(
+    (SELECT array_agg(storage_path) FROM public.entry_attachments WHERE entry_id = '00000000-0000-0000-0000-0000000002a1'),
+    ARRAY['00000000-0000-0000-0000-0000000000a1/first.jpg'],
+    'a photo saved with the entry becomes its first attachment'
+);
+
+INSERT INTO public.entry_attachments (id, entry_id, user_id, storage_path, file_name, position)
+VALUES ('00000000-0000-0000-0000-0000000003a2', '00000000-0000-0000-0000-0000000002a1',
+        '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a1/second.jpg', 'second.jpg', 1);
+
+SELECT is(
+    (SELECT photo_url FROM public.journal_entries WHERE id = '00000000-0000-0000-0000-0000000002a1'),
+    '00000000-0000-0000-0000-0000000000a1/first.jpg',
+    'adding a later attachment keeps the cover photo'
+);
+
+SELECT public.reorder_entry_attachments(
+    '00000000-0000-0000-0000-0000000002a1',
+    ARRAY[
+        '00000000-0000-0000-0000-0000000003a2',
+        (SELECT id FROM public.entry_attachments WHERE storage_path = '00000000-0000-0000-0000-0000000000a1/first.jpg')
+    ]
+);
+
+SELECT is(
+    (SELECT photo_url || ' ' || photo_filename FROM public.journal_entries WHERE id = '00000000-0000-0000-0000-0000000002a1'),
+    '00000000-0000-0000-0000-0000000000a1/second.jpg second.jpg',
+    'moving an attachment to the front makes it the cover photo'
+);
+
+UPDATE public.journal_entries
+SET photo_url = '00000000-0000-0000-0000-0000000000a1/replaced.jpg', photo_filename = 'replaced.jpg'
+WHERE id = '00000000-0000-0000-0000-0000000002a1';
+
+SELECT is(
+    (SELECT array_agg(storage_path ORDER BY position) FROM public.entry_attachments WHERE entry_id = '00000000-0000-0000-0000-0000000002a1'),
+    ARRAY['00000000-0000-0000-0000-0000000000a1/replaced.jpg', '00000000-0000-0000-0000-0000000000a1/first.jpg'],
+    'replacing photo_url replaces the cover attachment'
+);
+
+SELECT is(
+    (SELECT array_agg(object_path) FROM public.storage_deletions),
+    ARRAY['00000000-0000-0000-0000-0000000000a1/second.jpg'],
+    'the replaced file is queued for deletion'
+);
+
+SELECT throws_ok(
+    $$INSERT INTO public.entry_attachments (entry_id, user_id, storage_path)
+      SELECT '00000000-0000-0000-0000-0000000002a1', '00000000-0000-0000-0000-0000000000a1',
+             '00000000-0000-0000-0000-0000000000a1/extra-' || n || '.jpg'
+      FROM generate_series(1, 9) AS n$$,
+    '23514',
+    NULL,
+    'an entry holds at most 10 attachments'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.entry_attachments),
+    0,
+    'attachments are private to their owner'
+);
+
+SELECT throws_ok(
+    $$INSERT INTO public.entry_attachments (entry_id, user_id, storage_path)
+      VALUES ('00000000-0000-0000-0000-0000000002a1', '00000000-0000-0000-0000-0000000000a2',
+              '00000000-0000-0000-0000-0000000000a2/mine.jpg')$$,
+    '42501',
+    NULL,
+    'files can only be attached to your own entries'
+);
+
+RESET ROLE;
+
+DELETE FROM public.journal_entries WHERE id = '00000000-0000-0000-0000-0000000002a1';
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.entry_attachments),
+    0,
+    'deleting an entry deletes its attachments'
+);
+
+SELECT is(
+    (SELECT array_agg(object_path ORDER BY object_path) FROM public.storage_deletions),
+    ARRAY[
+        '00000000-0000-0000-0000-0000000000a1/first.jpg',
+        '00000000-0000-0000-0000-0000000000a1/replaced.jpg',
+        '00000000-0000-0000-0000-0000000000a1/second.jpg'
+    ],
+    'deleting an entry queues all of its files'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,83 @@
+-- Once a second factor is verified, a password-only session can't reach the journal.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000a1', 'factor@example.com', '{"name": "Factor", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000a2', 'plain@example.com', '{"name": "Plain", "timezone": "UTC"}', NOW());
+
+INSERT INTO auth.mfa_factors (id, user_id, friendly_name, factor_type, status, created_at, updated_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000002a1', '00000000-0000-0000-0000-0000000000a1', 'Phone', 'totp', 'verified', NOW(), NOW()),
+    -- An enrollment that was never finished doesn't count
+    ('00000000-0000-0000-0000-0000000002a2', '00000000-0000-0000-0000-0000000000a2', 'Old phone', 'totp', 'unverified', NOW(), NOW());
+
+INSERT INTO public.journal_entries (id, user_id, content, mood)
+VALUES
+    ('00000000-0000-0000-0000-0000000001a1', '00000000-0000-0000-0000-0000000000a1', 'Protected by two factors', 'good'),
+    ('00000000-0000-0000-0000-0000000001a2', '00000000-0000-0000-0000-0000000000a2', 'Protected by a password', 'good');
+
+INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+VALUES ('00000000-0000-0000-0000-0000000000a1', 'hash');
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated", "aal": "aal1"}', true);
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.journal_entries),
+    1,
+    'accounts without a verified factor are not affected'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated", "aal": "aal1"}', true);
+
+SELECT is(
+    public.mfa_satisfied(),
+    FALSE,
+    'a password-only session has not satisfied the second factor'
+);
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.journal_entries),
+    0,
+    'entries are hidden until the second factor is completed'
+);
+
+SELECT throws_ok(
+    $$INSERT INTO public.journal_entries (user_id, content, mood)
+      VALUES ('00000000-0000-0000-0000-0000000000a1', 'Sneaky', 'good')$$,
+    '42501',
+    NULL,
+    'entries cannot be written until the second factor is completed'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated", "aal": "aal2"}', true);
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.journal_entries),
+    1,
+    'entries are visible after the second factor'
+);
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.search_journal_entries('factors')),
+    1,
+    'search works after the second factor'
+);
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.mfa_recovery_codes),
+    0,
+    'recovery codes are never readable by the user'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
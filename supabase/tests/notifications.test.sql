@@ -0,0 +1,114 @@
+-- Reminders, nudges and digests are due at the user's local reminder time.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000e1', 'reminders@example.com', '{"name": "Reminders", "timezone": "America/New_York"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000e2', 'nudges@example.com', '{"name": "Nudges", "timezone": "America/New_York"}', NOW());
+
+UPDATE public.profiles
+SET reminder_enabled = TRUE, reminder_time = '20:00'
+WHERE user_id = '00000000-0000-0000-0000-0000000000e1';
+
+UPDATE public.profiles
+SET reminder_enabled = TRUE, reminder_time = '20:00', reminder_days = '{1,2,3,4,5}',
+    inactivity_nudge_days = 3, email_digest_enabled = TRUE
+WHERE user_id = '00000000-0000-0000-0000-0000000000e2';
+
+INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth)
+VALUES
+    ('00000000-0000-0000-0000-0000000000e1', 'https://push.example.com/e1', 'key', 'secret'),
+    ('00000000-0000-0000-0000-0000000000e2', 'https://push.example.com/e2', 'key', 'secret');
+
+-- e1 last journaled on Monday the 16th. e2 on the 9th and 11th.
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000e1', 'Monday', 'good', '2025-06-16 09:00:00-04'),
+    ('00000000-0000-0000-0000-0000000000e2', 'Monday', 'good', '2025-06-09 09:00:00-04'),
+    ('00000000-0000-0000-0000-0000000000e2', 'Wednesday', 'low', '2025-06-11 22:00:00-04');
+
+SELECT is(
+    (SELECT array_agg(kind) FROM public.get_due_notifications('2025-06-17 20:30:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e1'),
+    ARRAY['reminder'],
+    'a reminder is due after the local reminder time'
+);
+
+SELECT is_empty(
+    $$SELECT * FROM public.get_due_notifications('2025-06-17 19:30:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e1'$$,
+    'nothing is due before the reminder time'
+);
+
+SELECT is_empty(
+    $$SELECT * FROM public.get_due_notifications('2025-06-17 21:30:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e1'$$,
+    'a missed reminder is not sent late'
+);
+
+SELECT is_empty(
+    $$SELECT * FROM public.get_due_notifications('2025-06-16 20:30:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e1'$$,
+    'no reminder on a day with an entry'
+);
+
+UPDATE public.profiles
+SET quiet_hours_start = '19:00', quiet_hours_end = '20:45'
+WHERE user_id = '00000000-0000-0000-0000-0000000000e1';
+
+SELECT is_empty(
+    $$SELECT * FROM public.get_due_notifications('2025-06-17 20:30:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e1'$$,
+    'reminders wait for quiet hours to end'
+);
+
+INSERT INTO public.notification_deliveries (user_id, kind, sent_for, status)
+VALUES ('00000000-0000-0000-0000-0000000000e1', 'reminder', '2025-06-17', 'sent');
+
+SELECT is_empty(
+    $$SELECT * FROM public.get_due_notifications('2025-06-17 20:50:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e1'$$,
+    'a reminder is sent once a day'
+);
+
+SELECT ok(
+    public.in_quiet_hours('23:30', '22:00', '07:00') AND public.in_quiet_hours('06:00', '22:00', '07:00')
+        AND NOT public.in_quiet_hours('12:00', '22:00', '07:00'),
+    'quiet hours can run past midnight'
+);
+
+-- Monday the 16th: five days without an entry, and the digest for last week
+SELECT is(
+    (SELECT array_agg(kind ORDER BY kind) FROM public.get_due_notifications('2025-06-16 20:15:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e2'),
+    ARRAY['digest', 'nudge'],
+    'the nudge replaces the reminder after enough days without an entry'
+);
+
+SELECT is(
+    (SELECT digest->>'days_journaled' FROM public.get_due_notifications('2025-06-16 20:15:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e2' AND kind = 'digest'),
+    '2',
+    'the digest summarizes last week'
+);
+
+INSERT INTO public.notification_deliveries (user_id, kind, sent_for, status)
+VALUES ('00000000-0000-0000-0000-0000000000e2', 'nudge', '2025-06-16', 'sent');
+
+SELECT is(
+    (SELECT array_agg(kind) FROM public.get_due_notifications('2025-06-17 20:15:00-04') WHERE user_id = '00000000-0000-0000-0000-0000000000e2'),
+    ARRAY['reminder'],
+    'the nudge is sent once per gap, then reminders continue'
+);
+
+-- Only the edge function may list notifications
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    $$SELECT * FROM public.get_due_notifications()$$,
+    '42501',
+    NULL,
+    'users cannot list due notifications'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
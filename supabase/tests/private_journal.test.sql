@@ -0,0 +1,91 @@
+-- Encrypted entries are only searchable through the text the user opted in.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000f1', 'private@example.com', '{"name": "Private", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000f2', 'other@example.com', '{"name": "Other", "timezone": "UTC"}', NOW());
+
+INSERT INTO public.journal_keys (user_id, kdf_salt, kdf_iterations, wrapped_key, recovery_salt, recovery_wrapped_key)
+VALUES ('00000000-0000-0000-0000-0000000000f1', 'salt', 600000, 'iv.key', 'salt', 'iv.key');
+
+INSERT INTO public.journal_entries (id, user_id, title, content, mood, is_encrypted, key_version, search_opt_in, search_text, word_count)
+VALUES
+    ('00000000-0000-0000-0000-0000000001f1', '00000000-0000-0000-0000-0000000000f1', NULL,
+     'Walked along the river today', 'good', FALSE, NULL, FALSE, NULL, 0),
+    ('00000000-0000-0000-0000-0000000001f2', '00000000-0000-0000-0000-0000000000f1', 'zenc:v1:aXY:dGl0bGU',
+     'zenc:v1:aXY:Y29udGVudA', 'low', TRUE, 1, TRUE, 'Garden visit with my sister', 42),
+    ('00000000-0000-0000-0000-0000000001f3', '00000000-0000-0000-0000-0000000000f1', NULL,
+     'zenc:v1:aXY:c2VjcmV0', 'neutral', TRUE, 1, FALSE, NULL, 7);
+
+SELECT is(
+    (SELECT word_count FROM public.journal_entries WHERE id = '00000000-0000-0000-0000-0000000001f1'),
+    5,
+    'words are counted for plaintext entries'
+);
+
+SELECT is(
+    (SELECT word_count FROM public.journal_entries WHERE id = '00000000-0000-0000-0000-0000000001f2'),
+    42,
+    'encrypted entries keep the count sent by the browser'
+);
+
+SELECT is(
+    public.evaluate_badge_metric('00000000-0000-0000-0000-0000000000f1', 'words_written'),
+    54,
+    'words written includes encrypted entries'
+);
+
+SELECT throws_ok(
+    $$UPDATE public.journal_entries SET search_text = 'river' WHERE id = '00000000-0000-0000-0000-0000000001f1'$$,
+    '23514',
+    NULL,
+    'plaintext entries have no search text'
+);
+
+SELECT throws_ok(
+    $$UPDATE public.journal_entries SET key_version = 1 WHERE id = '00000000-0000-0000-0000-0000000001f1'$$,
+    '23514',
+    NULL,
+    'only encrypted entries have a key version'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f1", "role": "authenticated"}', true);
+
+SELECT is(
+    (SELECT array_agg(id) FROM public.search_journal_entries('garden')),
+    ARRAY['00000000-0000-0000-0000-0000000001f2']::UUID[],
+    'encrypted entries are found by their search text'
+);
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.search_journal_entries('zenc')),
+    0,
+    'ciphertext is not searchable'
+);
+
+SELECT is(
+    (SELECT title_highlight FROM public.search_journal_entries('garden')),
+    NULL,
+    'encrypted titles are not highlighted by the server'
+);
+
+-- Another user can't read the wrapped key
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f2", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.journal_keys),
+    0,
+    'journal keys are private to their owner'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,167 @@
+-- Freezes cover a single missed day or week, and weekly goals get weekly streaks.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000c1', 'frozen@example.com', '{"name": "Frozen", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000c2', 'lapsed@example.com', '{"name": "Lapsed", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000c3', 'steady@example.com', '{"name": "Steady", "timezone": "UTC"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000c4', 'weekly@example.com', '{"name": "Weekly", "timezone": "UTC"}', NOW());
+
+UPDATE public.profiles SET journaling_goal_frequency = 7
+WHERE user_id IN ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000c3');
+
+-- Daily goal: yesterday was missed, and today's entry is written with a freeze in hand
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000c1', 'Three days ago', 'good', (CURRENT_DATE - 3) + TIME '12:00'),
+    ('00000000-0000-0000-0000-0000000000c1', 'Two days ago', 'good', (CURRENT_DATE - 2) + TIME '12:00');
+
+SELECT is(
+    public.grant_streak_freezes('00000000-0000-0000-0000-0000000000c1', 1),
+    1,
+    'purchased freezes are available'
+);
+
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000c1', 'Today', 'good', CURRENT_DATE + TIME '00:30');
+
+SELECT is(
+    (SELECT used_on FROM public.streak_freezes WHERE user_id = '00000000-0000-0000-0000-0000000000c1'),
+    CURRENT_DATE - 1,
+    'a freeze covers the single missed day'
+);
+
+SELECT is(
+    (SELECT current_streak FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000c1'),
+    3,
+    'the streak continues without counting the frozen day'
+);
+
+SELECT is(
+    (SELECT streak_period FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000c1'),
+    'day',
+    'a goal of every day keeps a daily streak'
+);
+
+-- Two missed days are not covered
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000c2', 'Four days ago', 'good', (CURRENT_DATE - 4) + TIME '12:00');
+
+SELECT public.grant_streak_freezes('00000000-0000-0000-0000-0000000000c2', 1);
+
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000c2', 'Today', 'good', CURRENT_DATE + TIME '00:30');
+
+SELECT is(
+    (SELECT COUNT(*)::INT FROM public.streak_freezes WHERE user_id = '00000000-0000-0000-0000-0000000000c2' AND used_on IS NULL),
+    1,
+    'a freeze is not spent when more than one day was missed'
+);
+
+SELECT is(
+    (SELECT current_streak FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000c2'),
+    1,
+    'the streak starts again after two missed days'
+);
+
+-- A week of entries earns one freeze, once
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+SELECT '00000000-0000-0000-0000-0000000000c3', 'Day ' || n, 'good', (CURRENT_DATE - n) + TIME '00:30'
+FROM generate_series(0, 6) n;
+
+SELECT public.refresh_user_badge_progress('00000000-0000-0000-0000-0000000000c3');
+
+SELECT is(
+    (SELECT COUNT(*)::INT FROM public.streak_freezes WHERE user_id = '00000000-0000-0000-0000-0000000000c3' AND source = 'earned'),
+    1,
+    'a 7 day streak earns one freeze'
+);
+
+-- Weekly goal of 3: the weeks of June 2 and June 16 are met, June 9 has one entry
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000c4', 'Mon', 'good', '2025-06-02 12:00:00+00'),
+    ('00000000-0000-0000-0000-0000000000c4', 'Wed', 'good', '2025-06-04 12:00:00+00'),
+    ('00000000-0000-0000-0000-0000000000c4', 'Sun', 'good', '2025-06-08 12:00:00+00'),
+    ('00000000-0000-0000-0000-0000000000c4', 'Tue', 'good', '2025-06-10 12:00:00+00'),
+    ('00000000-0000-0000-0000-0000000000c4', 'Mon', 'good', '2025-06-16 12:00:00+00'),
+    ('00000000-0000-0000-0000-0000000000c4', 'Tue', 'good', '2025-06-17 12:00:00+00'),
+    ('00000000-0000-0000-0000-0000000000c4', 'Wed', 'good', '2025-06-18 12:00:00+00');
+
+SELECT is(
+    (SELECT streak_period FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000c4'),
+    'week',
+    'a goal of 3 days a week gives a weekly streak'
+);
+
+SELECT is(
+    (SELECT current_streak FROM public.calculate_period_streaks('00000000-0000-0000-0000-0000000000c4', 'week', 3, '2025-06-18 18:00:00+00')),
+    1,
+    'a week below the goal breaks the weekly streak'
+);
+
+INSERT INTO public.streak_freezes (user_id, source) VALUES ('00000000-0000-0000-0000-0000000000c4', 'purchased');
+
+SELECT ok(
+    public.apply_streak_freeze('00000000-0000-0000-0000-0000000000c4', '2025-06-18 18:00:00+00'),
+    'a freeze covers the single missed week'
+);
+
+SELECT is(
+    (SELECT current_streak FROM public.calculate_period_streaks('00000000-0000-0000-0000-0000000000c4', 'week', 3, '2025-06-25 09:00:00+00')),
+    2,
+    'the weekly streak carries into a week that is still in progress'
+);
+
+-- Clients can't hand themselves freezes
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+    $$SELECT public.grant_streak_freezes('00000000-0000-0000-0000-0000000000c4', 5)$$,
+    '42501',
+    NULL,
+    'users cannot grant themselves freezes'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c3", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+    $$SELECT public.refresh_user_badge_progress('00000000-0000-0000-0000-0000000000c3')$$,
+    'users can refresh their own progress'
+);
+
+SELECT throws_ok(
+    $$SELECT public.refresh_user_badge_progress('00000000-0000-0000-0000-0000000000c2')$$,
+    '42501',
+    NULL,
+    'users cannot refresh, and spend the freezes of, another user'
+);
+
+-- Nor can anyone holding only the anon key
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+    $$SELECT public.refresh_user_badge_progress('00000000-0000-0000-0000-0000000000c2')$$,
+    '42501',
+    NULL,
+    'anonymous callers cannot refresh a user''s progress'
+);
+
+SELECT throws_ok(
+    $$SELECT public.recalculate_all_user_stats('00000000-0000-0000-0000-0000000000c2')$$,
+    '42501',
+    NULL,
+    'anonymous callers cannot reach it through the older helpers'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,114 @@
+-- Stripe events are processed once, retried with backoff and dead-lettered.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(15);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000e1', 'buyer@example.com', '{"name": "Buyer", "timezone": "UTC"}', NOW());
+
+SELECT is(
+    public.claim_stripe_webhook('evt_new', 'invoice.paid', '{}'),
+    TRUE,
+    'a new event is claimed'
+);
+
+SELECT is(
+    public.claim_stripe_webhook('evt_new', 'invoice.paid', '{}'),
+    FALSE,
+    'a redelivery is not claimed while the first delivery is processing'
+);
+
+SELECT is(
+    public.finish_stripe_webhook('evt_new'),
+    'processed',
+    'a claimed event can be finished'
+);
+
+SELECT is(
+    public.claim_stripe_webhook('evt_new', 'invoice.paid', '{}'),
+    FALSE,
+    'a processed event is not claimed again'
+);
+
+SELECT public.claim_stripe_webhook('evt_failing', 'invoice.payment_failed', '{}');
+
+SELECT is(
+    public.finish_stripe_webhook('evt_failing', 'No user found for Stripe customer cus_1', 3),
+    'failed',
+    'an event that failed is scheduled for a retry'
+);
+
+SELECT ok(
+    (SELECT next_attempt_at BETWEEN NOW() + INTERVAL '1 minute' AND NOW() + INTERVAL '3 minutes'
+     FROM public.stripe_webhooks WHERE event_id = 'evt_failing'),
+    'the first retry is two minutes out'
+);
+
+SELECT is(
+    public.claim_stripe_webhook('evt_failing', 'invoice.payment_failed', '{}'),
+    TRUE,
+    'a failed event is claimed for its retry'
+);
+
+SELECT public.finish_stripe_webhook('evt_failing', 'Still failing', 3);
+SELECT public.claim_stripe_webhook('evt_failing', 'invoice.payment_failed', '{}');
+
+SELECT is(
+    public.finish_stripe_webhook('evt_failing', 'Still failing', 3),
+    'dead_letter',
+    'an event is dead-lettered after its last attempt'
+);
+
+SELECT is(
+    public.claim_stripe_webhook('evt_failing', 'invoice.payment_failed', '{}'),
+    FALSE,
+    'a dead letter is not retried until it is requeued'
+);
+
+-- A delivery that crashed after claiming leaves the event processing
+SELECT public.claim_stripe_webhook('evt_crashed', 'invoice.paid', '{}', INTERVAL '10 minutes', 2);
+UPDATE public.stripe_webhooks SET updated_at = NOW() - INTERVAL '11 minutes' WHERE event_id = 'evt_crashed';
+
+SELECT is(
+    public.claim_stripe_webhook('evt_crashed', 'invoice.paid', '{}', INTERVAL '10 minutes', 2),
+    TRUE,
+    'an event left processing past its lease is claimed again'
+);
+
+UPDATE public.stripe_webhooks SET updated_at = NOW() - INTERVAL '11 minutes' WHERE event_id = 'evt_crashed';
+
+SELECT is(
+    public.claim_stripe_webhook('evt_crashed', 'invoice.paid', '{}', INTERVAL '10 minutes', 2),
+    FALSE,
+    'an event that never finished its last attempt is not claimed'
+);
+
+SELECT is(
+    (SELECT status FROM public.stripe_webhooks WHERE event_id = 'evt_crashed'),
+    'dead_letter',
+    'an event that never finished its last attempt is dead-lettered'
+);
+
+SELECT is(
+    public.record_stripe_order('cs_freeze', 'pi_1', 'cus_1', 299, 299, 'usd', 'paid', '00000000-0000-0000-0000-0000000000e1', 2),
+    TRUE,
+    'a one-time purchase is recorded'
+);
+
+SELECT is(
+    public.record_stripe_order('cs_freeze', 'pi_1', 'cus_1', 299, 299, 'usd', 'paid', '00000000-0000-0000-0000-0000000000e1', 2),
+    FALSE,
+    'recording the same checkout again is a no-op'
+);
+
+SELECT is(
+    (SELECT COUNT(*)::INT FROM public.streak_freezes WHERE user_id = '00000000-0000-0000-0000-0000000000e1'),
+    2,
+    'purchased streak freezes are granted once'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
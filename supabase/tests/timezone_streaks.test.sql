@@ -0,0 +1,129 @@
+-- Streaks follow the user's local days, including across DST changes.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- Users are created through auth.users so handle_new_user sets up their profiles
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000a1', 'spring@example.com', '{"name": "Spring", "timezone": "America/New_York"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000a2', 'autumn@example.com', '{"name": "Autumn", "timezone": "America/New_York"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000a3', 'auckland@example.com', '{"name": "Auckland", "timezone": "Pacific/Auckland"}', NOW()),
+    ('00000000-0000-0000-0000-0000000000a4', 'unknown@example.com', '{"name": "Unknown", "timezone": "Mars/Olympus_Mons"}', NOW());
+
+-- Signup
+
+SELECT is(
+    (SELECT timezone FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+    'America/New_York',
+    'signup stores the detected timezone'
+);
+
+SELECT is(
+    (SELECT timezone FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000a4'),
+    NULL,
+    'signup ignores an unknown timezone'
+);
+
+SELECT throws_ok(
+    $$UPDATE public.profiles SET timezone = 'Mars/Olympus_Mons' WHERE user_id = '00000000-0000-0000-0000-0000000000a1'$$,
+    '22023',
+    'Unknown timezone: Mars/Olympus_Mons',
+    'profiles reject unknown timezones'
+);
+
+SELECT is(
+    public.user_timezone('00000000-0000-0000-0000-0000000000a4'),
+    'UTC',
+    'users without a timezone are counted in UTC'
+);
+
+-- Spring forward: clocks in New York jump from 02:00 to 03:00 on 2025-03-09.
+-- A morning entry on the 8th and a late entry on the 9th are consecutive local
+-- days, but the second one is already the 10th in UTC.
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000a1', 'Saturday morning', 'good', '2025-03-08 08:00:00-05'),
+    ('00000000-0000-0000-0000-0000000000a1', 'Sunday night', 'good', '2025-03-09 23:30:00-04');
+
+SELECT is(
+    (SELECT best_streak FROM public.calculate_user_streaks('00000000-0000-0000-0000-0000000000a1', '2025-03-10 12:00:00-04')),
+    2,
+    'an evening entry after spring forward continues the streak'
+);
+
+SELECT is(
+    (SELECT current_streak FROM public.calculate_user_streaks('00000000-0000-0000-0000-0000000000a1', '2025-03-10 12:00:00-04')),
+    2,
+    'the streak is still current the next local day'
+);
+
+SELECT is(
+    (SELECT last_entry_date FROM public.calculate_user_streaks('00000000-0000-0000-0000-0000000000a1', '2025-03-10 12:00:00-04')),
+    '2025-03-09'::DATE,
+    'the last entry date is the local day'
+);
+
+SELECT is(
+    (SELECT last_entry_date FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+    '2025-03-09'::DATE,
+    'inserting entries stores the local last entry date on the profile'
+);
+
+UPDATE public.profiles SET timezone = 'UTC' WHERE user_id = '00000000-0000-0000-0000-0000000000a1';
+
+SELECT is(
+    (SELECT last_entry_date FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-0000000000a1'),
+    '2025-03-10'::DATE,
+    'changing the timezone recalculates the profile'
+);
+
+-- Fall back: 01:00-02:00 happens twice in New York on 2025-11-02. An entry in
+-- the repeated hour and one just before midnight both belong to the 2nd.
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000a2', 'Saturday evening', 'neutral', '2025-11-01 20:00:00-04'),
+    ('00000000-0000-0000-0000-0000000000a2', 'Repeated hour', 'low', '2025-11-02 01:30:00-05'),
+    ('00000000-0000-0000-0000-0000000000a2', 'Sunday night', 'good', '2025-11-02 23:30:00-05');
+
+SELECT is(
+    (SELECT best_streak FROM public.calculate_user_streaks('00000000-0000-0000-0000-0000000000a2', '2025-11-03 23:59:00-05')),
+    2,
+    'entries in the repeated hour count once for their local day'
+);
+
+SELECT is(
+    (SELECT current_streak FROM public.calculate_user_streaks('00000000-0000-0000-0000-0000000000a2', '2025-11-03 23:59:00-05')),
+    2,
+    'the streak is current until the end of the next local day'
+);
+
+SELECT is(
+    (SELECT current_streak FROM public.calculate_user_streaks('00000000-0000-0000-0000-0000000000a2', '2025-11-04 00:30:00-05')),
+    0,
+    'the streak ends once a local day is missed'
+);
+
+-- East of UTC: Auckland mornings are the previous day in UTC
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000a3', 'Monday morning', 'good', '2025-04-07 07:00:00+12'),
+    ('00000000-0000-0000-0000-0000000000a3', 'Tuesday morning', 'good', '2025-04-08 07:00:00+12');
+
+SELECT is(
+    (SELECT current_streak FROM public.calculate_user_streaks('00000000-0000-0000-0000-0000000000a3', '2025-04-08 09:00:00+12')),
+    2,
+    'morning entries east of UTC count for today'
+);
+
+SELECT is(
+    public.calculate_current_streak('00000000-0000-0000-0000-0000000000a4'),
+    0,
+    'users without entries have no streak'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,56 @@
+-- Voice notes are queued for deletion when they stop being used.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000b1', 'voice@example.com', '{"name": "Voice", "timezone": "UTC"}', NOW());
+
+INSERT INTO public.journal_entries (id, user_id, content, mood, voice_audio_url, voice_duration_seconds)
+VALUES ('00000000-0000-0000-0000-0000000002b1', '00000000-0000-0000-0000-0000000000b1',
+        'Spoken on a walk', 'good', '00000000-0000-0000-0000-0000000000b1/walk.webm', 42);
+
+UPDATE public.journal_entries
+SET content = 'Spoken on a long walk'
+WHERE id = '00000000-0000-0000-0000-0000000002b1';
+
+SELECT is(
+    (SELECT count(*)::INT FROM public.storage_deletions WHERE bucket_id = 'journal-audio'),
+    0,
+    'editing the text keeps the voice note'
+);
+
+UPDATE public.journal_entries
+SET voice_audio_url = '00000000-0000-0000-0000-0000000000b1/retake.webm'
+WHERE id = '00000000-0000-0000-0000-0000000002b1';
+
+SELECT is(
+    (SELECT array_agg(object_path) FROM public.storage_deletions WHERE bucket_id = 'journal-audio'),
+    ARRAY['00000000-0000-0000-0000-0000000000b1/walk.webm'],
+    'replacing the voice note queues the old clip'
+);
+
+DELETE FROM public.journal_entries WHERE id = '00000000-0000-0000-0000-0000000002b1';
+
+SELECT is(
+    (SELECT array_agg(object_path ORDER BY object_path) FROM public.storage_deletions WHERE bucket_id = 'journal-audio'),
+    ARRAY[
+        '00000000-0000-0000-0000-0000000000b1/retake.webm',
+        '00000000-0000-0000-0000-0000000000b1/walk.webm'
+    ],
+    'deleting the entry queues its voice note'
+);
+
+SELECT throws_ok(
+    $$INSERT INTO public.journal_entries (user_id, content, mood, voice_duration_seconds)
+      VALUES ('00000000-0000-0000-0000-0000000000b1', 'Too long', 'neutral', 601)$$,
+    '23514',
+    NULL,
+    'voice notes are at most 10 minutes long'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
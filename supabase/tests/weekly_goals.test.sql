@@ -0,0 +1,78 @@
+-- Weeks are measured against journaling_goal_frequency in the user's timezone.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000d1', 'goals@example.com', '{"name": "Goals", "timezone": "America/Los_Angeles"}', NOW());
+
+UPDATE public.profiles SET journaling_goal_frequency = 3 WHERE user_id = '00000000-0000-0000-0000-0000000000d1';
+
+-- Week of June 2: three days. Week of June 9: one day (two entries). Week of
+-- June 16: two days so far. Sunday the 8th at 20:00 is already Monday in UTC.
+INSERT INTO public.journal_entries (user_id, content, mood, created_at)
+VALUES
+    ('00000000-0000-0000-0000-0000000000d1', 'One two', 'good', '2025-06-02 09:00:00-07'),
+    ('00000000-0000-0000-0000-0000000000d1', 'Three', 'good', '2025-06-05 09:00:00-07'),
+    ('00000000-0000-0000-0000-0000000000d1', 'Four', 'low', '2025-06-08 20:00:00-07'),
+    ('00000000-0000-0000-0000-0000000000d1', 'Five', 'neutral', '2025-06-10 09:00:00-07'),
+    ('00000000-0000-0000-0000-0000000000d1', 'Six seven', 'neutral', '2025-06-10 21:00:00-07'),
+    ('00000000-0000-0000-0000-0000000000d1', 'Eight', 'good', '2025-06-16 09:00:00-07'),
+    ('00000000-0000-0000-0000-0000000000d1', 'Nine', 'amazing', '2025-06-17 09:00:00-07');
+
+SELECT is(
+    (SELECT array_agg(met ORDER BY week_start) FROM public.user_goal_weeks('00000000-0000-0000-0000-0000000000d1', 3, '2025-06-18 12:00:00-07')),
+    ARRAY[TRUE, FALSE, FALSE],
+    'weeks are hit once they have as many days as the goal'
+);
+
+SELECT is(
+    (SELECT days_journaled FROM public.user_goal_weeks('00000000-0000-0000-0000-0000000000d1', 3, '2025-06-18 12:00:00-07') WHERE week_start = '2025-06-02'),
+    3,
+    'days are counted in local time'
+);
+
+-- get_weekly_goal_progress answers for the signed in user
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d1", "role": "authenticated"}', true);
+
+SELECT is(
+    public.get_weekly_goal_progress(4, '2025-06-18 12:00:00-07')->'current_week'->>'days_journaled',
+    '2',
+    'the current week shows the days journaled so far'
+);
+
+SELECT is(
+    public.get_weekly_goal_progress(4, '2025-06-18 12:00:00-07')->'current_week'->>'days_left',
+    '5',
+    'the current week shows the days left, including today'
+);
+
+SELECT is(
+    jsonb_array_length(public.get_weekly_goal_progress(4, '2025-06-18 12:00:00-07')->'history'),
+    4,
+    'the history covers the requested number of past weeks'
+);
+
+SELECT is(
+    public.get_weekly_goal_progress(4, '2025-06-18 12:00:00-07')->'last_week' @> '{"entries": 2, "days_journaled": 1, "met": false, "previous_days_journaled": 3}',
+    TRUE,
+    'last week is summarized and compared with the week before'
+);
+
+SELECT is(
+    (SELECT earned FROM public.user_badges WHERE user_id = '00000000-0000-0000-0000-0000000000d1' AND badge_id = 'goal-week-1'),
+    TRUE,
+    'reaching the goal once earns the first goal badge'
+);
+
+SELECT is(
+    public.evaluate_badge_metric('00000000-0000-0000-0000-0000000000d1', 'goal_week_streak', '{}', NULL, '2025-06-18 12:00:00-07'),
+    0,
+    'a missed week ends the weekly goal streak'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,138 @@
+-- Zeno sessions enforce one active session, the cooldown and the emergency allowance.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(15);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, created_at)
+VALUES ('00000000-0000-0000-0000-0000000000a7', 'zeno@example.com', '{"name": "Zeno User", "timezone": "UTC"}', NOW());
+
+SELECT lives_ok(
+    $$SELECT public.start_zeno_session('00000000-0000-0000-0000-0000000000a7', '  Unwind  ')$$,
+    'a regular session can be started'
+);
+
+SELECT is(
+    (SELECT goal FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7'),
+    'Unwind',
+    'the goal is trimmed'
+);
+
+SELECT throws_ok(
+    $$SELECT public.start_zeno_session('00000000-0000-0000-0000-0000000000a7', 'Again')$$,
+    'P0001',
+    'ZENO_SESSION_ACTIVE: A session is already in progress',
+    'a second session cannot start while one is active'
+);
+
+SELECT throws_like(
+    $$SELECT public.end_zeno_session(
+        '00000000-0000-0000-0000-0000000000b8',
+        (SELECT id FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7'),
+        60, 'Summary', 'breathing'
+    )$$,
+    'ZENO_SESSION_NOT_FOUND:%',
+    'another user cannot end the session'
+);
+
+SELECT lives_ok(
+    $$SELECT public.end_zeno_session(
+        '00000000-0000-0000-0000-0000000000a7',
+        (SELECT id FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7'),
+        9999, 'Summary', 'breathing'
+    )$$,
+    'the owner can end the session'
+);
+
+SELECT is(
+    (SELECT duration_seconds FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7'),
+    0,
+    'the duration is capped at the wall-clock time of the session'
+);
+
+SELECT is(
+    public.get_zeno_status('00000000-0000-0000-0000-0000000000a7')->'pending_micro_task'->>'task_type',
+    'breathing',
+    'ending a session assigns a micro-task'
+);
+
+SELECT throws_like(
+    $$SELECT public.start_zeno_session('00000000-0000-0000-0000-0000000000a7', 'Again')$$,
+    'ZENO_COOLDOWN_ACTIVE:%',
+    'a regular session cannot start during the cooldown'
+);
+
+SELECT throws_ok(
+    $$SELECT public.complete_zeno_micro_task(
+        '00000000-0000-0000-0000-0000000000a7',
+        (SELECT id FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7'),
+        'pending', NULL
+    )$$,
+    'P0001',
+    NULL,
+    'a micro-task cannot be set back to pending'
+);
+
+SELECT lives_ok(
+    $$SELECT public.complete_zeno_micro_task(
+        '00000000-0000-0000-0000-0000000000a7',
+        (SELECT id FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7'),
+        'completed', '{"mood": 4}'
+    )$$,
+    'the micro-task can be completed'
+);
+
+SELECT throws_like(
+    $$SELECT public.complete_zeno_micro_task(
+        '00000000-0000-0000-0000-0000000000a7',
+        (SELECT id FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7'),
+        'skipped', NULL
+    )$$,
+    'ZENO_TASK_NOT_FOUND:%',
+    'a micro-task can only be completed once'
+);
+
+SELECT lives_ok(
+    $$SELECT public.start_zeno_session('00000000-0000-0000-0000-0000000000a7', 'Panic', true)$$,
+    'an emergency session skips the cooldown'
+);
+
+SELECT public.end_zeno_session(
+    '00000000-0000-0000-0000-0000000000a7',
+    (SELECT id FROM public.zeno_sessions WHERE user_id = '00000000-0000-0000-0000-0000000000a7' AND status = 'active'),
+    60, 'Summary', 'gratitude'
+);
+
+SELECT throws_ok(
+    $$SELECT public.start_zeno_session('00000000-0000-0000-0000-0000000000a7', 'Panic', true)$$,
+    'P0001',
+    'ZENO_NO_EMERGENCY_SESSIONS: No emergency sessions remaining',
+    'emergency sessions are limited to the weekly allowance'
+);
+
+-- Move the sessions back past the cooldown
+UPDATE public.zeno_sessions
+SET started_at = started_at - INTERVAL '3 hours', ended_at = ended_at - INTERVAL '3 hours'
+WHERE user_id = '00000000-0000-0000-0000-0000000000a7';
+
+SELECT lives_ok(
+    $$SELECT public.start_zeno_session('00000000-0000-0000-0000-0000000000a7', 'Unwind')$$,
+    'a regular session can start once the cooldown has passed'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a7", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+    $$SELECT public.start_zeno_session('00000000-0000-0000-0000-0000000000a7', 'Unwind', true)$$,
+    '42501',
+    NULL,
+    'users cannot call the session functions directly'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
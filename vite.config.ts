@@ -1,11 +1,55 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { visualizer } from 'rollup-plugin-visualizer';
 
+// Files from public/ that the app shell needs offline
+const PUBLIC_PRECACHE = [
+  '/site.webmanifest',
+  '/Logo.png',
+  '/favicon.ico',
+  '/favicon-96x96.png',
+  '/apple-touch-icon.png',
+  '/web-app-manifest-192x192.png',
+  '/web-app-manifest-512x512.png'
+];
+
+/**
+ * Writes precache-manifest.js, which public/sw.js imports: every chunk and
+ * asset of the build plus the public files above. The Lottie animations in
+ * src/assets are bundled into the chunks, so they are precached too.
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'zensai-precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter(fileName => !fileName.endsWith('.html') && !fileName.endsWith('.map'))
+        .map(fileName => `/${fileName}`)
+        .sort();
+      const urls = [...files, ...PUBLIC_PRECACHE];
+
+      // Chunk names carry content hashes, so the list changes whenever the build does
+      let hash = 0;
+      for (const char of urls.join('\n')) {
+        hash = (hash * 31 + char.charCodeAt(0)) | 0;
+      }
+      const version = (hash >>> 0).toString(36);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE_VERSION = ${JSON.stringify(version)};\nself.__PRECACHE_URLS = ${JSON.stringify(urls, null, 2)};\n`
+      });
+    }
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    precacheManifest(),
     visualizer({
       open: true,
       gzipSize: true,